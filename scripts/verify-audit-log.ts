@@ -0,0 +1,51 @@
+#!/usr/bin/env bun
+
+// GET /sui/audit/transactions?format=jsonl でエクスポートした監査ログのハッシュの鎖を先頭から再計算します。
+// 使い方: bun run audit:verify <file.jsonl> [head-hash]（"-"を指定すると標準入力から読みます）
+// エクスポート時のX-Audit-Head-Hashヘッダーの値を渡すと、末尾のエントリが欠けていないかも確認します。
+
+import { readFileSync } from "fs";
+import {
+  parseTransactionAuditJsonl,
+  verifyTransactionAudit,
+} from "../src/plugins/sui/audit.ts";
+
+function verifyAuditLog(path: string | undefined, expectedHead?: string) {
+  if (!path) {
+    console.error("Usage: bun run audit:verify <file.jsonl> [head-hash]");
+    process.exit(2);
+  }
+
+  let entries;
+  try {
+    const text = readFileSync(path === "-" ? 0 : path, "utf8");
+    entries = parseTransactionAuditJsonl(text);
+  } catch (error) {
+    console.error(
+      `Failed to read ${path}:`,
+      error instanceof Error ? error.message : error,
+    );
+    process.exit(2);
+  }
+
+  const result = verifyTransactionAudit(entries);
+  if (!result.valid) {
+    console.error(`✗ Audit log is broken at entry ${result.brokenAt}`);
+    console.error(`  ${result.reason}`);
+    console.error(
+      `  ${result.count} entries verified before the break (last hash ${result.headHash})`,
+    );
+    process.exit(1);
+  }
+  if (expectedHead && expectedHead !== result.headHash) {
+    console.error(
+      `✗ Audit log ends with ${result.headHash}, expected ${expectedHead}`,
+    );
+    console.error(`  Entries after the last ${result.count} may be missing`);
+    process.exit(1);
+  }
+  console.log(`✓ ${result.count} entries verified`);
+  console.log(`  Head hash: ${result.headHash}`);
+}
+
+verifyAuditLog(process.argv[2], process.argv[3]);
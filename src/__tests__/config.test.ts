@@ -1,4 +1,4 @@
-// Bunのテスト関連モジュール、プラグイン、zod、およびテストユーティリティをインポート
+// Bunのテスト関連モジュール、プラグイン、Sui設定スキーマ、およびテストユーティリティをインポート
 import {
   describe,
   expect,
@@ -8,7 +8,13 @@ import {
   mock,
   spyOn,
 } from "bun:test";
-import plugin from "../plugin";
+import plugin from "../plugins/plugin";
+import {
+  formatConfigErrors,
+  parseSuiConfig,
+  suiConfigSchema,
+} from "../plugins/sui/config";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
 import { z } from "zod";
 import { createMockRuntime } from "./utils/core-test-utils";
 import { logger } from "@elizaos/core";
@@ -16,6 +22,9 @@ import { logger } from "@elizaos/core";
 // プラグインのinit関数にアクセス
 const initPlugin = plugin.init;
 
+// テスト用の秘密鍵（bech32形式）
+const PRIVATE_KEY = new Ed25519Keypair().getSecretKey();
+
 describe("Plugin Configuration Schema", () => {
   // 元の環境変数のバックアップを作成
   const originalEnv = { ...process.env };
@@ -37,7 +46,11 @@ describe("Plugin Configuration Schema", () => {
   it("should accept valid configuration", async () => {
     // 有効な設定を受け入れることを確認
     const validConfig = {
-      EXAMPLE_PLUGIN_VARIABLE: "valid-value",
+      SUI_NETWORK: "mainnet",
+      SUI_PRIVATE_KEY: PRIVATE_KEY,
+      SUI_GAS_BUDGET_MAX: "50000000",
+      SUI_MAX_SPEND_PER_TX: "2.5",
+      SUI_READ_ONLY: "false",
     };
 
     if (initPlugin) {
@@ -69,7 +82,7 @@ describe("Plugin Configuration Schema", () => {
   it("should accept configuration with additional properties", async () => {
     // 追加のプロパティを持つ設定を受け入れることを確認
     const configWithExtra = {
-      EXAMPLE_PLUGIN_VARIABLE: "valid-value",
+      SUI_NETWORK: "devnet",
       EXTRA_PROPERTY: "should be ignored",
     };
 
@@ -87,7 +100,7 @@ describe("Plugin Configuration Schema", () => {
   it("should reject invalid configuration", async () => {
     // 無効な設定を拒否することを確認
     const invalidConfig = {
-      EXAMPLE_PLUGIN_VARIABLE: "", // 空文字列は最小長違反
+      SUI_NETWORK: "moonnet", // 存在しないネットワーク
     };
 
     if (initPlugin) {
@@ -98,78 +111,177 @@ describe("Plugin Configuration Schema", () => {
         error = e as Error;
       }
       expect(error).not.toBeNull();
+      expect(error?.message).toContain("SUI_NETWORK");
     }
   });
 
   it("should set environment variables from valid config", async () => {
     // 有効な設定から環境変数が設定されることを確認
     const testConfig = {
-      EXAMPLE_PLUGIN_VARIABLE: "test-value",
+      SUI_NETWORK: "devnet",
     };
 
     if (initPlugin) {
       // 事前に環境変数が存在しないことを確認
-      delete process.env.EXAMPLE_PLUGIN_VARIABLE;
+      delete process.env.SUI_NETWORK;
 
       // 設定で初期化
       await initPlugin(testConfig, createMockRuntime());
 
       // 環境変数が設定されたことを確認
-      expect(process.env.EXAMPLE_PLUGIN_VARIABLE).toBe("test-value");
+      expect(process.env.SUI_NETWORK).toBe("devnet");
     }
   });
 
   it("should not override existing environment variables", async () => {
     // 既存の環境変数を上書きしないことを確認
     // 初期化前に環境変数を設定
-    process.env.EXAMPLE_PLUGIN_VARIABLE = "pre-existing-value";
+    process.env.SUI_NETWORK = "localnet";
 
     const testConfig = {
-      // 変数を省略して、既存の環境変数が上書きされないことをテスト
+      // 変数を省略して、既定値で既存の環境変数が上書きされないことをテスト
     };
 
     if (initPlugin) {
       await initPlugin(testConfig, createMockRuntime());
 
       // 環境変数が変更されていないことを確認
-      expect(process.env.EXAMPLE_PLUGIN_VARIABLE).toBe("pre-existing-value");
+      expect(process.env.SUI_NETWORK).toBe("localnet");
     }
   });
 
-  it("should handle zod validation errors gracefully", async () => {
-    // zodのバリデーションエラーを適切に処理することを確認
-    // ZodErrorをスローするzodのparseAsyncのモックを作成
-    const mockZodError = new z.ZodError([
+  it("should aggregate every invalid key into one message", () => {
+    // 複数の不正なキーが1つのメッセージにまとめられることを確認
+    let error: Error | null = null;
+    try {
+      parseSuiConfig({
+        SUI_RPC_URL: "not a url",
+        SUI_GAS_BUDGET_MAX: "-5",
+        SUI_READ_ONLY: "maybe",
+      });
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).toContain("Invalid plugin configuration");
+    expect(error?.message).toContain("SUI_RPC_URL");
+    expect(error?.message).toContain("SUI_GAS_BUDGET_MAX");
+    expect(error?.message).toContain("SUI_READ_ONLY");
+  });
+
+  it("should never include the private key value in errors or logs", async () => {
+    // 不正な秘密鍵の値がエラーメッセージやログに含まれないことを確認
+    const secret = "suiprivkey1notarealkeybutstillsecret";
+    let error: Error | null = null;
+    try {
+      await initPlugin?.({ SUI_PRIVATE_KEY: secret }, createMockRuntime());
+    } catch (e) {
+      error = e as Error;
+    }
+    expect(error?.message).toContain("SUI_PRIVATE_KEY");
+    expect(error?.message).not.toContain(secret);
+
+    const infoSpy = spyOn(logger, "info");
+    await initPlugin?.({ SUI_PRIVATE_KEY: PRIVATE_KEY }, createMockRuntime());
+    expect(JSON.stringify(infoSpy.mock.calls)).not.toContain(PRIVATE_KEY);
+  });
+
+  it("should not copy secrets into environment variables", async () => {
+    // 秘密鍵やキーストアのパスフレーズは他のプロセスから見えないよう環境変数にコピーしないことを確認
+    delete process.env.SUI_PRIVATE_KEY;
+    delete process.env.SUI_KEYSTORE_PASSPHRASE;
+    await initPlugin?.(
       {
-        code: z.ZodIssueCode.too_small,
-        minimum: 1,
-        type: "string",
-        inclusive: true,
-        message: "Example plugin variable is too short",
-        path: ["EXAMPLE_PLUGIN_VARIABLE"],
+        SUI_NETWORK: "devnet",
+        SUI_KEYSTORE_PATH: "/tmp/agent.keystore.json",
+        SUI_KEYSTORE_PASSPHRASE: "correct horse battery staple",
       },
-    ]);
+      createMockRuntime(),
+    );
+    expect(process.env.SUI_NETWORK).toBe("devnet");
+    expect(process.env.SUI_KEYSTORE_PATH).toBe("/tmp/agent.keystore.json");
+    expect(process.env.SUI_KEYSTORE_PASSPHRASE).toBeUndefined();
+
+    await initPlugin?.({ SUI_PRIVATE_KEY: PRIVATE_KEY }, createMockRuntime());
+    expect(process.env.SUI_PRIVATE_KEY).toBeUndefined();
+  });
 
-    // モック用の単純なスキーマを作成
-    const schema = z.object({
-      EXAMPLE_PLUGIN_VARIABLE: z.string().min(1),
+  it("should require a passphrase for the keystore", () => {
+    // キーストアにはパスフレーズが必要で、SUI_PRIVATE_KEYとは併用できないことを確認
+    expect(() =>
+      parseSuiConfig({ SUI_KEYSTORE_PATH: "/tmp/agent.keystore.json" }),
+    ).toThrow("SUI_KEYSTORE_PASSPHRASE");
+    expect(() =>
+      parseSuiConfig({
+        SUI_KEYSTORE_PATH: "/tmp/agent.keystore.json",
+        SUI_KEYSTORE_PASSPHRASE: "correct horse battery staple",
+        SUI_PRIVATE_KEY: PRIVATE_KEY,
+      }),
+    ).toThrow("SUI_PRIVATE_KEY");
+    expect(() =>
+      parseSuiConfig({ SUI_KEYSTORE_IMPORT: "/tmp/sui.keystore" }),
+    ).toThrow("SUI_KEYSTORE_IMPORT");
+  });
+
+  it("should parse typed values and defaults", () => {
+    // 型変換と既定値を確認
+    const config = parseSuiConfig({
+      SUI_GAS_BUDGET_MAX: "50000000",
+      SUI_READ_ONLY: "TRUE",
     });
+    expect(config.SUI_NETWORK).toBe("testnet");
+    expect(config.SUI_GAS_BUDGET_MAX).toBe(50000000);
+    expect(config.SUI_READ_ONLY).toBe(true);
+    expect(config.SUI_PORTFOLIO_TTL_MS).toBe(60000);
+  });
 
-    // parseAsync関数をモック
-    const originalParseAsync = schema.parseAsync;
-    schema.parseAsync = mock().mockRejectedValue(mockZodError);
+  it("should parse swap slippage and aggregator settings", () => {
+    // スワップのスリッページとアグリゲーター一覧の既定値・検証を確認
+    const defaults = parseSuiConfig({});
+    expect(defaults.SUI_SWAP_SLIPPAGE_BPS).toBe(50);
+    expect(defaults.SUI_SWAP_AGGREGATORS).toEqual(["aftermath"]);
 
-    try {
-      // TypeScriptエラーを避けるためにモックされたスキーマを直接使用
-      await schema.parseAsync({});
-      // ここには到達しないはず
-      expect(true).toBe(false);
-    } catch (error) {
-      expect(error).toBe(mockZodError);
-    }
+    const config = parseSuiConfig({
+      SUI_SWAP_SLIPPAGE_BPS: "100",
+      SUI_SWAP_AGGREGATORS: " Aftermath, ",
+    });
+    expect(config.SUI_SWAP_SLIPPAGE_BPS).toBe(100);
+    expect(config.SUI_SWAP_AGGREGATORS).toEqual(["aftermath"]);
 
-    // 元のparseAsyncを復元
-    schema.parseAsync = originalParseAsync;
+    expect(() =>
+      parseSuiConfig({
+        SUI_SWAP_SLIPPAGE_BPS: "9000",
+        SUI_SWAP_AGGREGATORS: "unknown",
+      }),
+    ).toThrow(
+      /SUI_SWAP_SLIPPAGE_BPS: Must not exceed 5000[\s\S]*SUI_SWAP_AGGREGATORS\.0: Must be a comma-separated list/,
+    );
+  });
+
+  it("should require an RPC URL for a custom network", () => {
+    // customネットワークではSUI_RPC_URLが必須であることを確認
+    expect(() => parseSuiConfig({ SUI_NETWORK: "custom" })).toThrow(
+      "SUI_RPC_URL: Is required when SUI_NETWORK is custom",
+    );
+    expect(
+      parseSuiConfig({
+        SUI_NETWORK: "custom",
+        SUI_RPC_URL: "http://127.0.0.1:9000",
+      }).SUI_RPC_URL,
+    ).toBe("http://127.0.0.1:9000");
+  });
+
+  it("should format zod validation errors by key", () => {
+    // zodのエラーがキー名付きで整形されることを確認
+    const mockZodError = new z.ZodError([
+      {
+        code: z.ZodIssueCode.custom,
+        message: "Must be a valid URL",
+        path: ["SUI_RPC_URL"],
+      },
+    ]);
+    expect(formatConfigErrors(mockZodError)).toBe(
+      "Invalid plugin configuration:\n  - SUI_RPC_URL: Must be a valid URL",
+    );
   });
 
   it("should rethrow non-zod errors", async () => {
@@ -177,18 +289,12 @@ describe("Plugin Configuration Schema", () => {
     // 一般的なエラーを作成
     const genericError = new Error("Something went wrong");
 
-    // モック用の単純なスキーマを作成
-    const schema = z.object({
-      EXAMPLE_PLUGIN_VARIABLE: z.string().min(1),
-    });
-
     // parseAsync関数をモック
-    const originalParseAsync = schema.parseAsync;
-    schema.parseAsync = mock().mockRejectedValue(genericError);
+    const originalParseAsync = suiConfigSchema.parseAsync;
+    suiConfigSchema.parseAsync = mock().mockRejectedValue(genericError);
 
     try {
-      // TypeScriptエラーを避けるためにモックされたスキーマを直接使用
-      await schema.parseAsync({});
+      await suiConfigSchema.parseAsync({});
       // ここには到達しないはず
       expect(true).toBe(false);
     } catch (error) {
@@ -196,7 +302,6 @@ describe("Plugin Configuration Schema", () => {
     }
 
     // 元のparseAsyncを復元
-    schema.parseAsync = originalParseAsync;
+    suiConfigSchema.parseAsync = originalParseAsync;
   });
 });
-
@@ -2,9 +2,51 @@ import React from "react";
 import { panels } from "../../../frontend/index";
 
 describe("PanelComponent Tests", () => {
-  // エクスポートされたパネルからPanelコンポーネントを取得
+  // エクスポートされたパネルからウォレットのダッシュボードを取得
   const PanelComponent = panels[0]?.component;
 
+  // ダッシュボードの3つのルートの応答を差し替えます
+  function interceptDashboard({
+    wallet = {
+      statusCode: 200,
+      body: {
+        wallet: {
+          address: `0x${"a".repeat(64)}`,
+          name: "alice.sui",
+          network: "testnet",
+          readOnly: false,
+          totalSui: "2",
+          totalUsd: 7,
+          coins: [
+            {
+              symbol: "SUI",
+              balance: "2",
+              coinType: "0x2::sui::SUI",
+              usdValue: 7,
+            },
+          ],
+          fetchedAt: Date.now(),
+        },
+      },
+    },
+    stakes = {
+      statusCode: 200,
+      body: {
+        staking: { stakes: [], totalStaked: "0", estimatedRewards: "0" },
+      },
+    },
+    transactions = {
+      statusCode: 200,
+      body: { history: { transactions: [], hasNextPage: false } },
+    },
+  }: Record<string, { statusCode: number; body: unknown }> = {}) {
+    cy.intercept("GET", "/sui/dashboard/wallet*", wallet).as("wallet");
+    cy.intercept("GET", "/sui/dashboard/stakes*", stakes).as("stakes");
+    cy.intercept("GET", "/sui/dashboard/transactions*", transactions).as(
+      "transactions",
+    );
+  }
+
   describe("Panel Registration", () => {
     it("should export panels array with correct structure", () => {
       // 正しい構造でパネル配列をエクスポートすることを確認
@@ -12,50 +54,133 @@ describe("PanelComponent Tests", () => {
       expect(panels).to.have.length.greaterThan(0);
 
       const panel = panels[0];
-      expect(panel).to.have.property("name", "Example");
-      expect(panel).to.have.property("path", "example");
+      expect(panel).to.have.property("name", "Wallet");
+      expect(panel).to.have.property("path", "sui-wallet");
       expect(panel).to.have.property("component");
-      expect(panel).to.have.property("icon", "Book");
+      expect(panel).to.have.property("icon", "Wallet");
+      expect(panel).to.have.property("public", false);
+      expect(panel).to.have.property("shortLabel", "Wallet");
+    });
+
+    it("should export the activity timeline panel", () => {
+      // アクションのタイムラインのパネルが2番目に登録されていることを確認
+      const panel = panels[1];
+      expect(panel).to.have.property("name", "Activity");
+      expect(panel).to.have.property("path", "sui-activity");
+      expect(panel).to.have.property("icon", "Activity");
       expect(panel).to.have.property("public", false);
-      expect(panel).to.have.property("shortLabel", "Example");
     });
   });
 
-  describe("Component Rendering", () => {
-    it("should render with agent ID", () => {
-      // エージェントIDでレンダリングされることを確認
-      const testAgentId = "test-agent-12345";
+  describe("Activity Timeline", () => {
+    it("should list actions and open a digest in the transaction view", () => {
+      // タイムラインの行を表示し、ダイジェストから取引の表示に移れることを確認
+      const ActivityComponent = panels[1].component;
+      const digest = "7bbsQyz6WdwzE5ZtkV9GvHE9dPMBLqkvXAMpTqC1pUw7";
+      cy.intercept("GET", "/sui/activity*", {
+        statusCode: 200,
+        body: {
+          activity: [
+            {
+              id: "a-1",
+              action: "SUI_TRANSFER",
+              roomId: "room",
+              input: "Send 1 SUI to alice.sui",
+              status: "succeeded",
+              success: true,
+              errorCode: null,
+              error: null,
+              digest,
+              startedAt: Date.now(),
+              completedAt: Date.now(),
+              latencyMs: 420,
+            },
+          ],
+          actions: ["SUI_TRANSFER"],
+        },
+      }).as("activity");
+      cy.intercept("GET", "/sui/tx/*", {
+        statusCode: 200,
+        body: {
+          apiVersion: "v1",
+          data: {
+            digest,
+            timestampMs: null,
+            status: "success",
+            sender: null,
+            gasUsed: "1000000",
+            balanceChanges: [],
+            counterparties: [],
+            moveCalls: [],
+          },
+        },
+      }).as("transaction");
+
+      cy.mount(<ActivityComponent agentId="agent-activity" />);
+      cy.wait("@activity");
+      cy.get('[data-testid="activity-row"]').should("have.length", 1);
+      cy.contains("Send 1 SUI to alice.sui").should("be.visible");
+      cy.contains("420 ms").should("be.visible");
 
+      cy.get('[data-testid="activity-row"] a').click();
+      cy.wait("@transaction");
+      cy.get('[data-testid="digest"]').should("contain", digest);
+      cy.get('[data-testid="transaction"]').should("contain", "success");
+    });
+  });
+
+  describe("Component Rendering", () => {
+    it("should render the wallet, balances and empty sections", () => {
+      // アドレス・評価額と、ステーク・履歴が無い場合の表示を確認
       if (!PanelComponent) {
         throw new Error("PanelComponent not found in panels export");
       }
+      interceptDashboard();
 
-      cy.mount(<PanelComponent agentId={testAgentId} />);
+      cy.mount(<PanelComponent agentId="agent-wallet" />);
+      cy.wait(["@wallet", "@stakes", "@transactions"]);
 
-      // 注：コンポーネントには「Hello」の代わりに「Helllo」というタイポがあります
-      cy.contains(`Helllo ${testAgentId}!`).should("be.visible");
+      cy.get('[data-testid="address"]').should("contain", "0xaaaa");
+      cy.contains("alice.sui · testnet").should("be.visible");
+      cy.contains("Total: $7.00").should("be.visible");
+      cy.contains("No staked SUI.").should("be.visible");
+      cy.contains("No transactions yet.").should("be.visible");
     });
 
-    it("should handle different agent IDs", () => {
-      // 異なるエージェントIDを処理できることを確認
-      const agentIds = [
-        "agent-1",
-        "agent-2",
-        "12345678-1234-1234-1234-123456789abc",
-        "test-agent",
-      ];
-
-      agentIds.forEach((agentId) => {
-        cy.mount(<PanelComponent agentId={agentId} />);
-        cy.contains(`Helllo ${agentId}!`).should("be.visible");
+    it("should show an error for a failing section", () => {
+      // 1つのルートが失敗しても、そのセクションだけにエラーを表示することを確認
+      interceptDashboard({
+        wallet: {
+          statusCode: 503,
+          body: {
+            error: {
+              code: "WALLET_UNAVAILABLE",
+              message: "Sui wallet is not configured",
+            },
+          },
+        },
       });
+
+      cy.mount(<PanelComponent agentId="agent-error" />);
+      cy.wait("@wallet");
+
+      cy.get('[data-testid="error"]').should(
+        "contain",
+        "Sui wallet is not configured",
+      );
+      cy.contains("No staked SUI.").should("be.visible");
     });
 
-    it("should render without crashing with empty agent ID", () => {
-      // 空のエージェントIDでクラッシュせずにレンダリングされることを確認
-      cy.mount(<PanelComponent agentId="" />);
-      cy.contains("Helllo !").should("be.visible");
+    it("should show loading states while fetching", () => {
+      // 応答を待つ間は読み込み中の表示を出すことを確認
+      cy.intercept("GET", "/sui/dashboard/*", (req) => {
+        req.reply({ delay: 1000, statusCode: 200, body: {} });
+      });
+
+      cy.mount(<PanelComponent agentId="agent-loading" />);
+      cy.contains("Loading wallet...").should("be.visible");
+      cy.contains("Loading stakes...").should("be.visible");
+      cy.contains("Loading transactions...").should("be.visible");
     });
   });
 });
-
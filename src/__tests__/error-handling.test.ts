@@ -8,8 +8,8 @@ import {
   mock,
   spyOn,
 } from "bun:test";
-import plugin from "../plugin";
-import { StarterService } from "../plugin";
+import plugin from "../plugins/plugin";
+import { SuiWalletService } from "../plugins/plugin";
 import { logger } from "@elizaos/core";
 import type { IAgentRuntime, Memory, State } from "@elizaos/core";
 import { v4 as uuidv4 } from "uuid";
@@ -81,22 +81,21 @@ describe("Error Handling", () => {
   });
 
   describe("Service Error Handling", () => {
-    it("should throw an error when stopping non-existent service", async () => {
-      // 存在しないサービスを停止しようとするとエラーがスローされることを確認
+    it("should not throw when stopping non-existent service", async () => {
+      // 存在しないサービスの停止はエラーにならないことを確認（冪等）
       const mockRuntime = {
         getService: mock().mockReturnValue(null),
       } as unknown as IAgentRuntime;
 
       let caughtError = null;
       try {
-        await StarterService.stop(mockRuntime);
+        await SuiWalletService.stop(mockRuntime);
       } catch (error: any) {
         caughtError = error;
-        expect(error.message).toBe("Starter service not found");
       }
 
-      expect(caughtError).not.toBeNull();
-      expect(mockRuntime.getService).toHaveBeenCalledWith("starter");
+      expect(caughtError).toBeNull();
+      expect(mockRuntime.getService).toHaveBeenCalledWith("sui_wallet");
     });
 
     it("should handle service stop errors gracefully", async () => {
@@ -114,14 +113,14 @@ describe("Error Handling", () => {
       // エラーは伝播されるべき
       let caughtError = null;
       try {
-        await StarterService.stop(mockRuntime);
+        await SuiWalletService.stop(mockRuntime);
       } catch (error: any) {
         caughtError = error;
         expect(error.message).toBe("Error stopping service");
       }
 
       expect(caughtError).not.toBeNull();
-      expect(mockRuntime.getService).toHaveBeenCalledWith("starter");
+      expect(mockRuntime.getService).toHaveBeenCalledWith("sui_wallet");
       expect(mockServiceWithError.stop).toHaveBeenCalled();
     });
   });
@@ -184,4 +183,3 @@ describe("Error Handling", () => {
     });
   });
 });
-
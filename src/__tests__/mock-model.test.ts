@@ -0,0 +1,246 @@
+// Bunのテスト関連モジュール、ElizaOSコアのテンプレート、モックモデル、およびテスト用ランタイムをインポート
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import {
+  type IAgentRuntime,
+  type Memory,
+  ModelType,
+  composePrompt,
+  logger,
+  messageHandlerTemplate,
+  parseKeyValueXml,
+  shouldRespondTemplate,
+} from "@elizaos/core";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  DEFAULT_EMBEDDING_DIMENSIONS,
+  getScriptedModel,
+  hashEmbedding,
+} from "../plugins/mock/model";
+import plugin from "../plugins/plugin";
+import { extractSuiIntent } from "../plugins/sui/intent";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+// プラグインのモデルをuseModelから呼び出すランタイムを作成します
+function createRuntime(settings: Record<string, string> = {}) {
+  const runtime = createSuiTestRuntime(settings);
+  Object.assign(runtime, {
+    useModel: async (modelType: string, params: unknown) =>
+      plugin.models?.[modelType]?.(runtime, params),
+  });
+  return runtime as IAgentRuntime;
+}
+
+// 受信したメッセージを含むメッセージハンドラーのプロンプトを作成します
+function dialogPrompt(text: string): string {
+  return composePrompt({
+    state: {
+      agentName: "Eliza",
+      providers: `# Received Message\nTestUser: ${text}\n\n# Focus your response`,
+    },
+    template: messageHandlerTemplate,
+  });
+}
+
+describe("Mock model", () => {
+  let dir: string;
+
+  beforeAll(() => {
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "debug").mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), "mock-model-"));
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should decide to respond with the agent name from the prompt", async () => {
+    // shouldRespondのプロンプトにはエージェント名を入れてRESPONDを返すことを確認
+    const runtime = createRuntime();
+    const reply = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt: composePrompt({
+        state: { agentName: "Eliza", providers: "" },
+        template: shouldRespondTemplate,
+      }),
+    });
+    expect(parseKeyValueXml(reply)).toMatchObject({
+      name: "Eliza",
+      action: "RESPOND",
+    });
+  });
+
+  it("should pick actions for scripted messages", async () => {
+    // 受信したメッセージに応じたアクションを返すことを確認
+    const runtime = createRuntime();
+    const hello = parseKeyValueXml(
+      await runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: dialogPrompt("can you say hello world?"),
+      }),
+    );
+    expect(hello?.actions).toEqual(["HELLO_WORLD"]);
+
+    const transfer = parseKeyValueXml(
+      await runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: dialogPrompt("send 2 SUI to alice.sui"),
+      }),
+    );
+    expect(transfer?.actions).toEqual(["REPLY", "SUI_TRANSFER"]);
+
+    const explain = parseKeyValueXml(
+      await runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: dialogPrompt(
+          "is this safe to sign? AAACAAgA6HZIFwAAAAAgWk5pRUtEWnRhbUZqTkdKaU1q",
+        ),
+      }),
+    );
+    expect(explain?.actions).toEqual(["SUI_EXPLAIN_TX"]);
+
+    const handoff = parseKeyValueXml(
+      await runtime.useModel(ModelType.TEXT_LARGE, {
+        prompt: dialogPrompt("ask the trader to send 2 SUI to alice.sui"),
+      }),
+    );
+    expect(handoff?.actions).toEqual(["SUI_HANDOFF"]);
+  });
+
+  it("should answer the Sui intent prompt from the message", async () => {
+    // 依頼内容の抽出プロンプトにはメッセージの値を埋めたJSONを返すことを確認
+    const runtime = createRuntime();
+    const intent = await extractSuiIntent(runtime, {
+      content: { text: "send 1.5 SUI to 0x7d3c9a41" },
+    } as Memory);
+    expect(intent).toMatchObject({
+      intent: "transfer",
+      amount: "1.5",
+      coinType: "SUI",
+      recipient: "0x7d3c9a41",
+    });
+  });
+
+  it("should record unmatched prompts and return the fallback", async () => {
+    // 一致しないプロンプトは既定の応答を返し、メモリとJSONLファイルに記録することを確認
+    const log = join(dir, "unmatched.jsonl");
+    const runtime = createRuntime({ MOCK_MODEL_UNMATCHED_LOG: log });
+    const model = getScriptedModel(runtime);
+    model.clearUnmatchedPrompts();
+
+    const reply = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt: "Summarize the weather in Lisbon",
+    });
+    expect(parseKeyValueXml(reply)?.actions).toEqual(["REPLY"]);
+    expect(model.getUnmatchedPrompts()).toEqual([
+      {
+        modelType: ModelType.TEXT_SMALL,
+        prompt: "Summarize the weather in Lisbon",
+        timestamp: expect.any(Number),
+      },
+    ]);
+    const lines = readFileSync(log, "utf8").trim().split("\n");
+    expect(JSON.parse(lines[0])).toMatchObject({
+      modelType: ModelType.TEXT_SMALL,
+      prompt: "Summarize the weather in Lisbon",
+    });
+  });
+
+  it("should load fixtures from MOCK_MODEL_FIXTURES", async () => {
+    // 差し替えたフィクスチャで、対象モデルの限定と一致したグループの置き換えを確認
+    const path = join(dir, "fixtures.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        fallback: { error: "none" },
+        rules: [
+          {
+            name: "large-only",
+            models: [ModelType.TEXT_LARGE],
+            match: "^quote (.+)$",
+            response: "large",
+          },
+          {
+            name: "quote",
+            match: "^quote (?<what>.+)$",
+            response: { quoted: "$<what>", cost: "$$1" },
+          },
+        ],
+      }),
+    );
+    const runtime = createRuntime({ MOCK_MODEL_FIXTURES: path });
+    expect(
+      await runtime.useModel(ModelType.TEXT_LARGE, { prompt: "quote hi" }),
+    ).toBe("large");
+    const reply = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt: 'quote say "hi"',
+    });
+    expect(JSON.parse(reply)).toEqual({ quoted: 'say "hi"', cost: "$1" });
+    expect(
+      JSON.parse(
+        await runtime.useModel(ModelType.TEXT_SMALL, { prompt: "other" }),
+      ),
+    ).toEqual({ error: "none" });
+  });
+
+  it("should reject fixtures with an invalid pattern", () => {
+    // 正規表現として不正な規則はファイル名と項目付きのエラーになることを確認
+    const path = join(dir, "broken.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        fallback: "",
+        rules: [{ name: "broken", match: "(unclosed", response: "" }],
+      }),
+    );
+    expect(() =>
+      getScriptedModel(createRuntime({ MOCK_MODEL_FIXTURES: path })),
+    ).toThrow(/broken\.json[\s\S]*rules\.0\.match/);
+  });
+
+  describe("embeddings", () => {
+    const cosine = (a: number[], b: number[]) =>
+      a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+    it("should return deterministic unit vectors", async () => {
+      // 同じテキストは同じベクトルになり、ノルムが1であることを確認
+      const runtime = createRuntime();
+      const first = await runtime.useModel(ModelType.TEXT_EMBEDDING, {
+        text: "stake 5 SUI with Mysten",
+      });
+      const second = await runtime.useModel(
+        ModelType.TEXT_EMBEDDING,
+        "stake 5 SUI with Mysten",
+      );
+      expect(first).toHaveLength(DEFAULT_EMBEDDING_DIMENSIONS);
+      expect(first).toEqual(second);
+      expect(cosine(first, first)).toBeCloseTo(1, 10);
+    });
+
+    it("should place overlapping texts closer together", () => {
+      // 語が重なるテキストほど類似度が高いことを確認（日本語も含む）
+      const base = hashEmbedding("send 2 SUI to alice.sui", 384);
+      const near = hashEmbedding("please send SUI to alice.sui", 384);
+      const far = hashEmbedding("what is the weather today", 384);
+      expect(cosine(base, near)).toBeGreaterThan(cosine(base, far));
+
+      const ja = hashEmbedding("アドレスを教えて", 384);
+      expect(
+        cosine(ja, hashEmbedding("私のアドレスは？", 384)),
+      ).toBeGreaterThan(cosine(ja, far));
+    });
+
+    it("should answer the dimension probe and honour the configured size", async () => {
+      // nullでの呼び出しにも同じ次元で応え、次元数を設定で変更できることを確認
+      const probe = await createRuntime().useModel(
+        ModelType.TEXT_EMBEDDING,
+        null,
+      );
+      expect(probe).toHaveLength(DEFAULT_EMBEDDING_DIMENSIONS);
+      expect(probe[0]).toBe(0.1);
+
+      const custom = await createRuntime({
+        MOCK_MODEL_EMBEDDING_DIMENSIONS: "768",
+      }).useModel(ModelType.TEXT_EMBEDDING, { text: "hello" });
+      expect(custom).toHaveLength(768);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 // Bunのテスト関連モジュール、プラグイン、ElizaOSコア、dotenv、およびテストユーティリティをインポート
 import { describe, expect, it, spyOn, beforeAll, afterAll } from "bun:test";
-import plugin from "../plugin";
+import plugin from "../plugins/plugin";
 import { ModelType, logger } from "@elizaos/core";
 import type { IAgentRuntime } from "@elizaos/core";
 import dotenv from "dotenv";
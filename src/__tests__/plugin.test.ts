@@ -9,9 +9,9 @@ import {
   beforeAll,
   afterAll,
 } from "bun:test";
-import plugin from "../plugin";
+import plugin from "../plugins/plugin";
 import { ModelType, logger } from "@elizaos/core";
-import { StarterService } from "../plugin";
+import { SuiWalletService } from "../plugins/plugin";
 import dotenv from "dotenv";
 
 // 環境変数を設定
@@ -75,8 +75,8 @@ function createRealRuntime() {
 
   // 必要に応じてリアルなサービスインスタンスを作成
   const createService = (serviceType: string) => {
-    if (serviceType === StarterService.serviceType) {
-      return new StarterService({
+    if (serviceType === SuiWalletService.serviceType) {
+      return new SuiWalletService({
         character: {
           name: "Test Character",
           system: "You are a helpful assistant for testing.",
@@ -125,13 +125,14 @@ describe("Plugin Configuration", () => {
     });
   });
 
-  it("should include the EXAMPLE_PLUGIN_VARIABLE in config", () => {
-    // 設定にEXAMPLE_PLUGIN_VARIABLEが含まれていることを確認
-    expect(plugin.config).toHaveProperty("EXAMPLE_PLUGIN_VARIABLE");
+  it("should include the Sui settings in config", () => {
+    // 設定にSuiの設定キーが含まれていることを確認
+    expect(plugin.config).toHaveProperty("SUI_NETWORK");
+    expect(plugin.config).toHaveProperty("SUI_PRIVATE_KEY");
 
     documentTestResult("Plugin config check", {
-      hasExampleVariable: plugin.config
-        ? "EXAMPLE_PLUGIN_VARIABLE" in plugin.config
+      hasNetworkVariable: plugin.config
+        ? "SUI_NETWORK" in plugin.config
         : false,
       configKeys: Object.keys(plugin.config || {}),
     });
@@ -139,20 +140,17 @@ describe("Plugin Configuration", () => {
 
   it("should initialize properly", async () => {
     // 適切に初期化されることを確認
-    const originalEnv = process.env.EXAMPLE_PLUGIN_VARIABLE;
+    const originalEnv = process.env.SUI_NETWORK;
 
     try {
-      process.env.EXAMPLE_PLUGIN_VARIABLE = "test-value";
+      process.env.SUI_NETWORK = "devnet";
 
       // 設定で初期化 - リアルなランタイムを使用
       const runtime = createRealRuntime();
 
       let error: Error | null = null;
       try {
-        await plugin.init?.(
-          { EXAMPLE_PLUGIN_VARIABLE: "test-value" },
-          runtime as any,
-        );
+        await plugin.init?.({ SUI_NETWORK: "devnet" }, runtime as any);
         expect(true).toBe(true); // ここに到達した場合、initは成功
       } catch (e) {
         error = e as Error;
@@ -163,24 +161,28 @@ describe("Plugin Configuration", () => {
         "Plugin initialization",
         {
           success: !error,
-          configValue: process.env.EXAMPLE_PLUGIN_VARIABLE,
+          configValue: process.env.SUI_NETWORK,
         },
         error,
       );
     } finally {
-      process.env.EXAMPLE_PLUGIN_VARIABLE = originalEnv;
+      if (originalEnv === undefined) {
+        delete process.env.SUI_NETWORK;
+      } else {
+        process.env.SUI_NETWORK = originalEnv;
+      }
     }
   });
 
   it("should throw an error on invalid config", async () => {
     // 無効な設定でエラーをスローすることを確認
-    // 空文字列でテスト（最小長1未満）
+    // 存在しないネットワーク名でテスト
     if (plugin.init) {
       const runtime = createRealRuntime();
       let error: Error | null = null;
 
       try {
-        await plugin.init({ EXAMPLE_PLUGIN_VARIABLE: "" }, runtime as any);
+        await plugin.init({ SUI_NETWORK: "moonnet" }, runtime as any);
         // ここには到達しないはず
         expect(true).toBe(false);
       } catch (e) {
@@ -204,8 +206,8 @@ describe("Plugin Configuration", () => {
     // 有効な設定を持っていることを確認
     expect(plugin.config).toBeDefined();
     if (plugin.config) {
-      // 設定に期待されるEXAMPLE_PLUGIN_VARIABLEプロパティがあるか確認
-      expect(Object.keys(plugin.config)).toContain("EXAMPLE_PLUGIN_VARIABLE");
+      // 設定に期待されるSUI_NETWORKプロパティがあるか確認
+      expect(Object.keys(plugin.config)).toContain("SUI_NETWORK");
     }
   });
 });
@@ -265,7 +267,7 @@ describe("Plugin Models", () => {
   });
 });
 
-describe("StarterService", () => {
+describe("SuiWalletService", () => {
   let originalGetService: any;
   let runtime: any;
 
@@ -284,11 +286,10 @@ describe("StarterService", () => {
     let error: Error | null = null;
 
     try {
-      logger.info("Using OpenAI for TEXT_SMALL model");
-      startResult = await StarterService.start(runtime as any);
+      startResult = await SuiWalletService.start(runtime as any);
 
       expect(startResult).toBeDefined();
-      expect(startResult.constructor.name).toBe("StarterService");
+      expect(startResult.constructor.name).toBe("SuiWalletService");
 
       // リアルな機能性をテスト - stopメソッドが利用可能か確認
       expect(typeof startResult.stop).toBe("function");
@@ -298,7 +299,7 @@ describe("StarterService", () => {
     }
 
     documentTestResult(
-      "StarterService start",
+      "SuiWalletService start",
       {
         success: !!startResult,
         serviceType: startResult?.constructor.name,
@@ -307,32 +308,19 @@ describe("StarterService", () => {
     );
   });
 
-  it("should throw an error on startup if the service is already registered", async () => {
-    // サービスが既に登録されている場合に起動時にエラーをスローすることを確認
-    // 最初の登録は成功するはず
-    const result1 = await StarterService.start(runtime as any);
-    runtime.registerService(StarterService.serviceType, result1);
+  it("should return the registered instance when started again", async () => {
+    // サービスが既に登録されている場合は既存のインスタンスを返すことを確認
+    const result1 = await SuiWalletService.start(runtime as any);
+    runtime.registerService(SuiWalletService.serviceType, result1);
     expect(result1).toBeTruthy();
 
-    let startupError: Error | null = null;
+    // 2回目の起動はエラーにならず、同じインスタンスを返すはず
+    const result2 = await SuiWalletService.start(runtime as any);
+    expect(result2).toBe(result1);
 
-    try {
-      // 2回目の登録は失敗するはず
-      await StarterService.start(runtime as any);
-      expect(true).toBe(false); // ここには到達しないはず
-    } catch (e) {
-      startupError = e as Error;
-      expect(e).toBeTruthy();
-    }
-
-    documentTestResult(
-      "StarterService double start",
-      {
-        errorThrown: !!startupError,
-        errorMessage: startupError?.message || "No error message",
-      },
-      startupError,
-    );
+    documentTestResult("SuiWalletService double start", {
+      sameInstance: result1 === result2,
+    });
   });
 
   it("should stop the service", async () => {
@@ -341,14 +329,14 @@ describe("StarterService", () => {
 
     try {
       // 最初にリアルなサービスを登録
-      const service = new StarterService(runtime as any);
-      runtime.registerService(StarterService.serviceType, service);
+      const service = await SuiWalletService.start(runtime as any);
+      runtime.registerService(SuiWalletService.serviceType, service);
 
       // リアルなサービスのstopメソッドをスパイ
       const stopSpy = spyOn(service, "stop");
 
       // 静的なstopメソッドを呼び出し
-      await StarterService.stop(runtime as any);
+      await SuiWalletService.stop(runtime as any);
 
       // サービスのstopメソッドが呼び出されたことを確認
       expect(stopSpy).toHaveBeenCalled();
@@ -358,7 +346,7 @@ describe("StarterService", () => {
     }
 
     documentTestResult(
-      "StarterService stop",
+      "SuiWalletService stop",
       {
         success: !error,
       },
@@ -366,66 +354,25 @@ describe("StarterService", () => {
     );
   });
 
-  it("should throw an error when stopping a non-existent service", async () => {
-    // 存在しないサービスを停止しようとするとエラーをスローすることを確認
-    // サービスを登録しないので、getServiceはnullを返す
+  it("should not throw when stopping a non-existent service", async () => {
+    // 存在しないサービスの停止はエラーにならないことを確認
+    // getService関数をパッチして、nullを返すようにする
+    runtime.getService = () => null;
 
     let error: Error | null = null;
-
     try {
-      // getService関数をパッチして、nullを返すようにする
-      runtime.getService = () => null;
-
-      await StarterService.stop(runtime as any);
-      // ここには到達しないはず
-      expect(true).toBe(false);
+      await SuiWalletService.stop(runtime as any);
     } catch (e) {
       error = e as Error;
-      // これは期待される動作 - 正しいエラーであることを確認
-      expect(error).toBeTruthy();
-      if (error instanceof Error) {
-        expect(error.message).toContain("Starter service not found");
-      }
     }
+    expect(error).toBeNull();
 
     documentTestResult(
-      "StarterService non-existent stop",
+      "SuiWalletService non-existent stop",
       {
         errorThrown: !!error,
-        errorMessage: error?.message || "No error message",
       },
       error,
     );
   });
-
-  it("should stop a registered service", async () => {
-    // 登録されたサービスを停止することを確認
-    // 最初にサービスを開始
-    const startResult = await StarterService.start(runtime as any);
-    runtime.registerService(StarterService.serviceType, startResult);
-    expect(startResult).toBeTruthy();
-
-    let stopError: Error | unknown = null;
-    let stopSuccess = false;
-
-    try {
-      // 次に停止
-      await StarterService.stop(runtime as any);
-      stopSuccess = true;
-    } catch (e) {
-      stopError = e;
-      expect(true).toBe(false); // ここには到達しないはず
-    }
-
-    documentTestResult(
-      "StarterService stop",
-      {
-        success: stopSuccess,
-        errorThrown: !!stopError,
-        errorMessage:
-          stopError instanceof Error ? stopError.message : String(stopError),
-      },
-      stopError instanceof Error ? stopError : null,
-    );
-  });
 });
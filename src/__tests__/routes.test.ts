@@ -1,6 +1,23 @@
-// Bunのテスト関連モジュールとプラグインをインポート
-import { describe, expect, it, mock } from "bun:test";
-import plugin from "../plugin";
+// Bunのテスト関連モジュール、プラグイン、読み取り用API、およびRPCスタブをインポート
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import plugin from "../plugins/plugin";
+import { SUI_READ_API_VERSION, suiReadApiRoutes } from "../plugins/sui/routes";
+import { SuiWalletService } from "../plugins/sui/service";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
 
 describe("Plugin Routes", () => {
   it("should have routes defined", () => {
@@ -88,3 +105,232 @@ describe("Plugin Routes", () => {
   });
 });
 
+const keypair = new Ed25519Keypair();
+const OWNER = keypair.toSuiAddress();
+const DIGEST = "7bbsQyz6WdwzE5ZtkV9GvHE9dPMBLqkvXAMpTqC1pUw7";
+const COIN_TYPES = ["0x2::sui::SUI", `0x${"b".repeat(64)}::usdc::USDC`];
+
+// 読み取り用APIのハンドラーを呼び出し、ステータスと応答を返します
+async function callReadApi(
+  runtime: any,
+  path: string,
+  req: { query?: Record<string, string>; params?: Record<string, string> } = {},
+) {
+  const route = suiReadApiRoutes.find((candidate) => candidate.path === path);
+  const response = { status: 200, body: undefined as any };
+  const res = {
+    status: (code: number) => {
+      response.status = code;
+      return res;
+    },
+    json: (body: unknown) => {
+      response.body = body;
+    },
+  };
+  await route?.handler?.(req, res, runtime);
+  return response;
+}
+
+describe("Sui read API routes", () => {
+  let stub: SuiRpcStub;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+    stub = startSuiRpcStub({
+      suix_getAllBalances: () =>
+        COIN_TYPES.map((coinType) => ({
+          coinType,
+          coinObjectCount: 1,
+          totalBalance: "1000000000",
+          lockedBalance: {},
+        })),
+      suix_getCoinMetadata: ([coinType]: [string]) => ({
+        decimals: coinType.endsWith("USDC") ? 6 : 9,
+        symbol: coinType.endsWith("USDC") ? "USDC" : "SUI",
+        name: "",
+        description: "",
+      }),
+      suix_getOwnedObjects: ([, , cursor, limit]: any[]) => ({
+        data: [
+          {
+            data: {
+              objectId: `0x${cursor ? "2" : "1"}`,
+              version: "1",
+              digest: DIGEST,
+              type: "0x2::devnet_nft::DevNetNFT",
+              display: { data: { name: "Sui Hero" }, error: null },
+            },
+          },
+        ],
+        nextCursor: cursor ? null : "0x1",
+        hasNextPage: !cursor && limit === 1,
+      }),
+      suix_getStakes: () => [],
+      sui_getTransactionBlock: ([digest]: [string]) => ({
+        digest,
+        timestampMs: "1700000000000",
+        transaction: {
+          data: {
+            sender: OWNER,
+            transaction: { kind: "ProgrammableTransaction", transactions: [] },
+          },
+        },
+        effects: {
+          status: { status: "success" },
+          gasUsed: {
+            computationCost: "1000000",
+            storageCost: "0",
+            storageRebate: "0",
+            nonRefundableStorageFee: "0",
+          },
+        },
+        balanceChanges: [],
+      }),
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+  });
+
+  async function createRuntime() {
+    const runtime = createSuiTestRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+    });
+    const service = await SuiWalletService.start(runtime);
+    runtime.services.set(SuiWalletService.serviceType, service);
+    return runtime;
+  }
+
+  it("should register every read route on the plugin", () => {
+    // 読み取り用APIの全ルートがGETとしてプラグインに登録されていることを確認
+    const paths = plugin.routes?.map((route) => route.path) ?? [];
+    for (const route of suiReadApiRoutes) {
+      expect(route.type).toBe("GET");
+      expect(paths).toContain(route.path);
+    }
+    expect(suiReadApiRoutes.map((route) => route.path)).toEqual([
+      "/sui/address",
+      "/sui/balances",
+      "/sui/objects",
+      "/sui/tx/:digest",
+      "/sui/stakes",
+    ]);
+  });
+
+  it("should return the wallet address in a versioned envelope", async () => {
+    // アドレスをバージョン付きの応答で返し、agentIdのクエリを受け付けることを確認
+    const runtime = await createRuntime();
+    const { status, body } = await callReadApi(runtime, "/sui/address", {
+      query: { agentId: runtime.agentId },
+    });
+    expect(status).toBe(200);
+    expect(body).toEqual({
+      apiVersion: SUI_READ_API_VERSION,
+      data: {
+        address: OWNER,
+        name: null,
+        network: "testnet",
+        readOnly: false,
+      },
+    });
+  });
+
+  it("should page through balances with an opaque cursor", async () => {
+    // 残高を1件ずつページに分け、nextCursorで次のページを取得できることを確認
+    const runtime = await createRuntime();
+    const first = await callReadApi(runtime, "/sui/balances", {
+      query: { limit: "1" },
+    });
+    expect(first.body.data).toEqual([
+      expect.objectContaining({
+        symbol: "SUI",
+        balance: "1",
+        rawBalance: "1000000000",
+      }),
+    ]);
+    expect(first.body.page.hasNextPage).toBe(true);
+
+    const second = await callReadApi(runtime, "/sui/balances", {
+      query: { limit: "1", cursor: first.body.page.nextCursor },
+    });
+    expect(second.body.data).toEqual([
+      expect.objectContaining({ symbol: "USDC", balance: "1000" }),
+    ]);
+    expect(second.body.page).toEqual({ nextCursor: null, hasNextPage: false });
+  });
+
+  it("should pass object cursors through to the RPC", async () => {
+    // 所有オブジェクトのページはRPCのカーソルをそのまま使うことを確認
+    const runtime = await createRuntime();
+    const first = await callReadApi(runtime, "/sui/objects", {
+      query: { limit: "1" },
+    });
+    expect(first.body.data).toEqual([
+      expect.objectContaining({ name: "Sui Hero" }),
+    ]);
+    expect(first.body.page).toEqual({ nextCursor: "0x1", hasNextPage: true });
+
+    const second = await callReadApi(runtime, "/sui/objects", {
+      query: { limit: "1", cursor: "0x1" },
+    });
+    expect(second.body.page.hasNextPage).toBe(false);
+  });
+
+  it("should summarize a transaction and list stakes", async () => {
+    // ダイジェストのトランザクションの要約と、ステークの一覧（空）を返すことを確認
+    const runtime = await createRuntime();
+    const tx = await callReadApi(runtime, "/sui/tx/:digest", {
+      params: { digest: DIGEST },
+    });
+    expect(tx.status).toBe(200);
+    expect(tx.body.data).toMatchObject({
+      digest: DIGEST,
+      status: "success",
+      sender: OWNER,
+      gasUsed: "1000000",
+    });
+
+    const stakes = await callReadApi(runtime, "/sui/stakes");
+    expect(stakes.body).toEqual({
+      apiVersion: SUI_READ_API_VERSION,
+      data: [],
+      page: { nextCursor: null, hasNextPage: false },
+    });
+  });
+
+  it("should reject invalid queries with an error envelope", async () => {
+    // 不正なクエリ・カーソル・ダイジェストは400、ウォレットが無ければ503を同じ形で返すことを確認
+    const runtime = await createRuntime();
+    const cases: [string, Record<string, any>, string][] = [
+      ["/sui/balances", { query: { limit: "0" } }, "INVALID_ARGUMENT"],
+      ["/sui/balances", { query: { page: "2" } }, "INVALID_ARGUMENT"],
+      ["/sui/stakes", { query: { cursor: "nope" } }, "INVALID_CURSOR"],
+      ["/sui/objects", { query: { includeCoins: "yes" } }, "INVALID_ARGUMENT"],
+      [
+        "/sui/tx/:digest",
+        { params: { digest: "not-a-digest" } },
+        "INVALID_ARGUMENT",
+      ],
+    ];
+    for (const [path, req, code] of cases) {
+      const { status, body } = await callReadApi(runtime, path, req);
+      expect(status).toBe(400);
+      expect(body.apiVersion).toBe(SUI_READ_API_VERSION);
+      expect(body.error.code).toBe(code);
+    }
+
+    const missing = await callReadApi(createSuiTestRuntime(), "/sui/address");
+    expect(missing.status).toBe(503);
+    expect(missing.body).toEqual({
+      apiVersion: SUI_READ_API_VERSION,
+      error: {
+        code: "WALLET_UNAVAILABLE",
+        message: "Sui wallet is not configured",
+      },
+    });
+  });
+});
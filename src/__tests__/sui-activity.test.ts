@@ -0,0 +1,174 @@
+// Bunのテスト関連モジュール、タイムラインの記録とルート、およびテスト用ランタイムをインポート
+import { beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { type ActionEventPayload, type Memory, logger } from "@elizaos/core";
+import {
+  ACTIVITY_INPUT_LIMIT,
+  recordActionCompleted,
+  recordActionStarted,
+} from "../plugins/sui/activity";
+import { createErrorResult, SuiActionError } from "../plugins/sui/errors";
+import { suiActivityRoutes } from "../plugins/sui/routes";
+import { callRoute } from "./test-utils";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const ROOM = "00000000-0000-0000-0000-0000000000cc";
+const DIGEST = "7bbsQyz6WdwzE5ZtkV9GvHE9dPMBLqkvXAMpTqC1pUw7";
+
+// ランタイムが発行するACTION_STARTED・ACTION_COMPLETEDと同じ形のペイロードを作ります
+function actionEvent(
+  runtime: any,
+  actionId: string,
+  action: string,
+  actionResult?: unknown,
+): ActionEventPayload {
+  return {
+    runtime,
+    source: "test",
+    messageId: actionId,
+    roomId: ROOM,
+    world: ROOM,
+    content: { actions: [action], actionId, actionResult },
+  } as unknown as ActionEventPayload;
+}
+
+// ルームのメッセージ（ユーザーの依頼とエージェントの返信）を返すランタイムを作ります
+function createRuntime(text: string) {
+  const runtime = createSuiTestRuntime();
+  Object.assign(runtime, {
+    getMemories: async () =>
+      [
+        {
+          entityId: runtime.agentId,
+          content: { text: "Sending now" },
+          createdAt: 3,
+        },
+        {
+          entityId: "00000000-0000-0000-0000-0000000000bb",
+          content: { text },
+          createdAt: 2,
+        },
+        {
+          entityId: "00000000-0000-0000-0000-0000000000bb",
+          content: { text: "hi" },
+          createdAt: 1,
+        },
+      ] as Memory[],
+  });
+  return runtime;
+}
+
+describe("Sui activity timeline", () => {
+  beforeAll(() => {
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should record the input, result, digest and latency of each action", async () => {
+    // 開始時に依頼のメッセージを、完了時に結果・ダイジェスト・所要時間を記録することを確認
+    const runtime = createRuntime("Send 1 SUI to alice.sui");
+    await recordActionStarted(actionEvent(runtime, "a-1", "SUI_TRANSFER"));
+    const running = await callRoute(
+      suiActivityRoutes,
+      "/sui/activity",
+      runtime,
+    );
+    expect(running.body.activity).toEqual([
+      expect.objectContaining({
+        id: "a-1",
+        action: "SUI_TRANSFER",
+        input: "Send 1 SUI to alice.sui",
+        status: "running",
+        success: null,
+      }),
+    ]);
+
+    await recordActionCompleted(
+      actionEvent(runtime, "a-1", "SUI_TRANSFER", {
+        success: true,
+        values: { success: true, digest: DIGEST },
+      }),
+    );
+    const [entry] = (
+      await callRoute(suiActivityRoutes, "/sui/activity", runtime)
+    ).body.activity;
+    expect(entry).toMatchObject({
+      status: "succeeded",
+      success: true,
+      errorCode: null,
+      digest: DIGEST,
+    });
+    expect(entry.latencyMs).toBeGreaterThanOrEqual(0);
+    expect(entry.completedAt).toBeGreaterThanOrEqual(entry.startedAt);
+  });
+
+  it("should record error codes and filter by action and status", async () => {
+    // 失敗したアクションのエラーコードを記録し、アクション名・状態・時刻で絞り込めることを確認
+    const runtime = createRuntime("x".repeat(ACTIVITY_INPUT_LIMIT + 10));
+    await recordActionStarted(actionEvent(runtime, "b-1", "SUI_SWAP"));
+    await recordActionCompleted(
+      actionEvent(
+        runtime,
+        "b-1",
+        "SUI_SWAP",
+        createErrorResult(
+          "SUI_SWAP",
+          new SuiActionError("NO_SWAP_QUOTE", "No quote"),
+          "SWAP_FAILED",
+        ),
+      ),
+    );
+    const before = Date.now() - 1;
+    await recordActionStarted(actionEvent(runtime, "b-2", "SUI_MY_ADDRESS"));
+
+    const failed = await callRoute(
+      suiActivityRoutes,
+      "/sui/activity",
+      runtime,
+      {
+        query: { status: "failed" },
+      },
+    );
+    expect(failed.body.activity).toEqual([
+      expect.objectContaining({
+        id: "b-1",
+        errorCode: "NO_SWAP_QUOTE",
+        error: "No quote",
+        input: `${"x".repeat(ACTIVITY_INPUT_LIMIT)}...`,
+      }),
+    ]);
+    expect(failed.body.actions).toEqual(["SUI_MY_ADDRESS", "SUI_SWAP"]);
+
+    const byAction = await callRoute(
+      suiActivityRoutes,
+      "/sui/activity",
+      runtime,
+      {
+        query: { action: "SUI_MY_ADDRESS" },
+      },
+    );
+    expect(byAction.body.activity.map((entry: any) => entry.id)).toEqual([
+      "b-2",
+    ]);
+
+    const recent = await callRoute(
+      suiActivityRoutes,
+      "/sui/activity",
+      runtime,
+      {
+        query: { since: String(before) },
+      },
+    );
+    expect(recent.body.activity.map((entry: any) => entry.id)).toContain("b-2");
+
+    const invalid = await callRoute(
+      suiActivityRoutes,
+      "/sui/activity",
+      runtime,
+      {
+        query: { status: "done" },
+      },
+    );
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.code).toBe("INVALID_ARGUMENT");
+  });
+});
@@ -0,0 +1,329 @@
+// Bunのテスト関連モジュール、承認キュー、およびテスト用ランタイムをインポート
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { suiTransferAction } from "../plugins/sui/actions/transfer";
+import { listApprovals } from "../plugins/sui/approval";
+import { listTransactionAudit } from "../plugins/sui/audit";
+import { createApiToken } from "../plugins/sui/auth";
+import { suiApprovalRoutes } from "../plugins/sui/routes";
+import {
+  TEST_ROOM_ID,
+  callRoute,
+  createSuiMessage,
+  createSuiWalletRuntime,
+} from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const ALICE = `0x${"b".repeat(64)}`;
+const TOKEN_SECRET = "s".repeat(32);
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "0",
+  storageRebate: "0",
+  nonRefundableStorageFee: "0",
+};
+
+// 送金に必要なメソッドだけを持つウォレットサービスのモック
+function createWalletMock() {
+  const nameResolver = createFakeNameResolver();
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => ({}),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getCoinMetadata: mock(async () => ({ decimals: 9, symbol: "SUI" })),
+    getBalance: mock(async () => ({ totalBalance: "100000000000" })),
+    dryRunTransaction: mock(async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [],
+    })),
+    signAndExecuteTransaction: mock(async () => ({
+      digest: "ApprovedDigest",
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+    })),
+  };
+}
+
+// operatorのトークンを添えて承認ルートを呼び出します
+function callApprovalRoute(
+  runtime: any,
+  path: string,
+  req: { params?: Record<string, string>; query?: any; body?: any } = {},
+  subject = "alice",
+) {
+  const token = createApiToken(TOKEN_SECRET, { subject, role: "operator" });
+  return callRoute(suiApprovalRoutes, path, runtime, {
+    ...req,
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+describe("Approval queue", () => {
+  let wallet: ReturnType<typeof createWalletMock>;
+  let runtime: ReturnType<typeof createSuiWalletRuntime>;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    wallet = createWalletMock();
+    runtime = createSuiWalletRuntime(wallet, {
+      settings: { SUI_API_TOKEN_SECRET: TOKEN_SECRET },
+      policy: { approvalThreshold: { SUI: "5" } },
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  // 送金を依頼して確認し、承認キューに入れます
+  async function queueTransfer(amount: string) {
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiTransferAction.handler(
+        runtime,
+        createSuiMessage(text, { source: "discord" }),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+    await send(`Send ${amount} SUI to ${ALICE}`);
+    const result = await send("confirm");
+    return { result, callback };
+  }
+
+  it("should park confirmed transfers above the threshold instead of signing", async () => {
+    // しきい値以上の送金は確認後も署名されず、承認キューに入ることを確認
+    const { result, callback } = await queueTransfer("6");
+    const [prepared] = callback.mock.calls[0] as any[];
+    expect(prepared.text).toContain("approval threshold of 5 SUI");
+
+    expect(result?.values?.awaitingApproval).toBe(true);
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    const [pending] = await listApprovals(runtime, "pending");
+    expect(pending).toMatchObject({
+      id: result?.values?.approvalId,
+      action: "SUI_TRANSFER",
+      roomId: TEST_ROOM_ID,
+      source: "discord",
+    });
+    expect(pending.summary).not.toContain('Reply "confirm"');
+
+    // 同じ確認の返信を繰り返しても二重に登録されない
+    await suiTransferAction.handler(
+      runtime,
+      createSuiMessage("confirm", { source: "discord" }),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(await listApprovals(runtime, "pending")).toHaveLength(1);
+  });
+
+  it("should sign below the threshold without queueing", async () => {
+    // しきい値未満の送金はそのまま署名されることを確認
+    const { result } = await queueTransfer("1");
+    expect(result?.values?.digest).toBe("ApprovedDigest");
+    expect(await listApprovals(runtime)).toHaveLength(0);
+  });
+
+  it("should list approvals and validate the status filter", async () => {
+    // 一覧ルートと不正な状態指定のエラー応答を確認
+    await queueTransfer("6");
+    const listed = await callApprovalRoute(runtime, "/sui/approvals", {
+      query: { status: "pending" },
+    });
+    expect(listed.status).toBe(200);
+    expect(listed.body.approvals).toHaveLength(1);
+
+    const invalid = await callApprovalRoute(runtime, "/sui/approvals", {
+      query: { status: "done" },
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.code).toBe("INVALID_ARGUMENT");
+  });
+
+  it("should resume the transfer on approval and post the outcome to the room", async () => {
+    // 承認で元の送金が実行され、結果が発生元のルームに投稿されることを確認
+    // （承認した人はリクエストボディではなく、認証した呼び出し元から記録する）
+    const { result } = await queueTransfer("6");
+    const id = result?.values?.approvalId as string;
+
+    const approved = await callApprovalRoute(
+      runtime,
+      "/sui/approvals/:id/approve",
+      {
+        params: { id },
+        body: { decidedBy: "mallory" },
+      },
+    );
+    expect(approved.status).toBe(200);
+    expect(approved.body.approval).toMatchObject({
+      status: "approved",
+      decidedBy: "alice",
+      outcome: { success: true, digest: "ApprovedDigest" },
+    });
+    expect(wallet.signAndExecuteTransaction).toHaveBeenCalledTimes(1);
+
+    // 監査ログには承認した人と、キューに入る前に解析した依頼の内容を残す
+    const [entry] = await listTransactionAudit(runtime);
+    expect(entry).toMatchObject({
+      decision: { approvalId: id, decidedBy: "alice" },
+      chatRequest: { text: `Send 6 SUI to ${ALICE}` },
+    });
+
+    const [memory] = runtime.createMemory.mock.calls[0] as any[];
+    expect(memory.roomId).toBe(TEST_ROOM_ID);
+    expect(memory.content.text).toContain("Approved by alice");
+    expect(memory.content.text).toContain("ApprovedDigest");
+    expect(runtime.sendMessageToTarget).toHaveBeenCalledWith(
+      { source: "discord", roomId: TEST_ROOM_ID },
+      expect.objectContaining({ source: "discord" }),
+    );
+
+    // 処理済みのリクエストは再度承認できない
+    const again = await callApprovalRoute(
+      runtime,
+      "/sui/approvals/:id/approve",
+      {
+        params: { id },
+      },
+    );
+    expect(again.status).toBe(409);
+    expect(again.body.error.code).toBe("APPROVAL_NOT_PENDING");
+    expect(wallet.signAndExecuteTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("should execute a request only once when approvals arrive together", async () => {
+    // 同時に承認・却下が届いても、実行するのは最初の承認だけで、他は処理済みとして拒否することを確認
+    const { result } = await queueTransfer("6");
+    const id = result?.values?.approvalId as string;
+
+    const responses = await Promise.all([
+      callApprovalRoute(runtime, "/sui/approvals/:id/approve", {
+        params: { id },
+      }),
+      callApprovalRoute(runtime, "/sui/approvals/:id/approve", {
+        params: { id },
+      }),
+      callApprovalRoute(runtime, "/sui/approvals/:id/reject", {
+        params: { id },
+      }),
+    ]);
+    expect(responses.map((response) => response.status)).toEqual([
+      200, 409, 409,
+    ]);
+    expect(wallet.signAndExecuteTransaction).toHaveBeenCalledTimes(1);
+    expect(await listApprovals(runtime, "approved")).toHaveLength(1);
+  });
+
+  it("should keep every request queued at the same time", async () => {
+    // 同時にキューへ入れても、互いの保存を上書きしないことを確認
+    await Promise.all([queueTransfer("6"), queueTransfer("7")]);
+    expect(await listApprovals(runtime, "pending")).toHaveLength(2);
+  });
+
+  it("should refuse to execute stored params that fail validation", async () => {
+    // キャッシュ上で書き換えられたパラメータは署名せず、承認済みではなく失敗として残すことを確認
+    const { result } = await queueTransfer("6");
+    const id = result?.values?.approvalId as string;
+    const key = `sui:approvals:${runtime.agentId}`;
+    const stored = (await runtime.getCache<any[]>(key)) ?? [];
+    stored[0].params.amount = "6 SUI";
+    await runtime.setCache(key, stored);
+
+    const approved = await callApprovalRoute(
+      runtime,
+      "/sui/approvals/:id/approve",
+      {
+        params: { id },
+      },
+    );
+    expect(approved.status).toBe(200);
+    expect(approved.body.approval).toMatchObject({
+      status: "failed",
+      outcome: { success: false },
+    });
+    expect(approved.body.approval.outcome.text).toContain(
+      "The stored transaction parameters are invalid: amount: Must be an integer amount",
+    );
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+    expect(await listApprovals(runtime, "failed")).toHaveLength(1);
+  });
+
+  it("should mark the request failed when the approved transaction fails", async () => {
+    // 承認後の署名・送信に失敗した場合は、承認済みのままにしないことを確認
+    wallet.signAndExecuteTransaction.mockImplementation(async () => {
+      throw new Error("fullnode unreachable");
+    });
+    const { result } = await queueTransfer("6");
+
+    const approved = await callApprovalRoute(
+      runtime,
+      "/sui/approvals/:id/approve",
+      {
+        params: { id: result?.values?.approvalId as string },
+      },
+    );
+    expect(approved.body.approval).toMatchObject({
+      status: "failed",
+      outcome: { success: false },
+    });
+    expect(await listApprovals(runtime, "approved")).toHaveLength(0);
+  });
+
+  it("should reject without signing and tell the room why", async () => {
+    // 却下すると署名されず、理由がルームに投稿されることを確認
+    const { result } = await queueTransfer("6");
+    const rejected = await callApprovalRoute(
+      runtime,
+      "/sui/approvals/:id/reject",
+      {
+        params: { id: result?.values?.approvalId as string },
+        body: { reason: "Unknown recipient" },
+      },
+      "bob",
+    );
+    expect(rejected.body.approval).toMatchObject({
+      status: "rejected",
+      decidedBy: "bob",
+    });
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    const [memory] = runtime.createMemory.mock.calls[0] as any[];
+    expect(memory.content.text).toContain("Reason: Unknown recipient");
+
+    const missing = await callApprovalRoute(
+      runtime,
+      "/sui/approvals/:id/reject",
+      {
+        params: { id: "missing" },
+      },
+    );
+    expect(missing.status).toBe(404);
+  });
+});
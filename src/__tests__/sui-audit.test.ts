@@ -0,0 +1,419 @@
+// Bunのテスト関連モジュール、送金アクション、監査ログ、およびテスト用ランタイムをインポート
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { toBase64 } from "@mysten/sui/utils";
+import { suiTransferAction } from "../plugins/sui/actions/transfer";
+import { listApprovals, rejectRequest } from "../plugins/sui/approval";
+import {
+  AUDIT_GENESIS_HASH,
+  formatTransactionAudit,
+  getTransactionAuditHead,
+  listTransactionAudit,
+  parseTransactionAuditJsonl,
+  transactionBytesHash,
+  verifyTransactionAudit,
+} from "../plugins/sui/audit";
+import { createApiToken } from "../plugins/sui/auth";
+import { suiAdminRoutes } from "../plugins/sui/routes";
+import {
+  TEST_ENTITY_ID,
+  TEST_ROOM_ID,
+  callRoute,
+  createSuiMessage,
+  createSuiWalletRuntime,
+} from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const ALICE = `0x${"b".repeat(64)}`;
+const SIGNED_BYTES = toBase64(new Uint8Array([1, 2, 3, 4]));
+const TOKEN_SECRET = "s".repeat(32);
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "0",
+  storageRebate: "0",
+  nonRefundableStorageFee: "0",
+};
+
+// 送金に必要なメソッドだけを持つウォレットサービスのモック（署名時にバイト列を渡します）
+function createWalletMock() {
+  const nameResolver = createFakeNameResolver();
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => ({}),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getCoinMetadata: mock(async () => ({ decimals: 9, symbol: "SUI" })),
+    getBalance: mock(async () => ({ totalBalance: "100000000000" })),
+    dryRunTransaction: mock(async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [],
+    })),
+    signAndExecuteTransaction: mock(
+      async (_tx: unknown, onSigned?: (signed: any) => void) => {
+        onSigned?.({ bytes: SIGNED_BYTES, signature: "signature" });
+        return {
+          digest: "SignedDigest",
+          effects: { status: { status: "success" }, gasUsed: GAS_USED },
+        };
+      },
+    ),
+  };
+}
+
+// 支出ポリシーを宣言し、ルームへの投稿を記録するランタイムを作成します
+function createRuntime(
+  wallet: ReturnType<typeof createWalletMock>,
+  policy: Record<string, unknown> = {},
+) {
+  return createSuiWalletRuntime(wallet, {
+    settings: { SUI_API_TOKEN_SECRET: TOKEN_SECRET },
+    policy,
+  });
+}
+
+// 送金を依頼し、確認の返信をします
+async function sendTransfer(runtime: any, amount: string) {
+  const callback = mock(async () => []);
+  await suiTransferAction.handler(
+    runtime,
+    createSuiMessage(`Send ${amount} SUI to ${ALICE}`, {
+      id: "00000000-0000-0000-0000-0000000000a1",
+      source: "discord",
+    }),
+    undefined,
+    {},
+    callback,
+    [],
+  );
+  return suiTransferAction.handler(
+    runtime,
+    createSuiMessage("confirm", {
+      id: "00000000-0000-0000-0000-0000000000a2",
+      source: "discord",
+    }),
+    undefined,
+    {},
+    callback,
+    [],
+  );
+}
+
+// adminのトークンを添えて管理用ルートを呼び出します
+function callAdminRoute(
+  runtime: any,
+  path: string,
+  query: Record<string, string> = {},
+) {
+  const token = createApiToken(TOKEN_SECRET, {
+    subject: "carol",
+    role: "admin",
+  });
+  return callRoute(suiAdminRoutes, path, runtime, {
+    headers: { authorization: `Bearer ${token}` },
+    query,
+  });
+}
+
+describe("Sui transaction audit log", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  let wallet: ReturnType<typeof createWalletMock>;
+
+  beforeEach(() => {
+    wallet = createWalletMock();
+  });
+
+  it("should record signed transactions with their origin and bytes hash", async () => {
+    // 署名した送金を、発生元のメッセージ・依頼の解析内容・支出内容・バイト列のハッシュ・ダイジェストと共に記録することを確認
+    const runtime = createRuntime(wallet);
+    const result = await sendTransfer(runtime, "1");
+    expect(result.success).toBe(true);
+
+    const [entry] = await listTransactionAudit(runtime);
+    expect(entry).toMatchObject({
+      seq: 0,
+      action: "SUI_TRANSFER",
+      messageId: "00000000-0000-0000-0000-0000000000a2",
+      entityId: TEST_ENTITY_ID,
+      roomId: TEST_ROOM_ID,
+      intent: {
+        action: "SUI_TRANSFER",
+        recipients: [ALICE],
+        spends: [{ amount: "1000000000", decimals: 9 }],
+      },
+      // 確認の返信で署名しても、解析したのは依頼のメッセージ
+      chatRequest: {
+        messageId: "00000000-0000-0000-0000-0000000000a1",
+        text: `Send 1 SUI to ${ALICE}`,
+        intent: null,
+        request: { recipient: ALICE, amount: "1" },
+      },
+      decision: { result: "allowed", rule: null },
+      bytesHash: transactionBytesHash(SIGNED_BYTES),
+      digest: "SignedDigest",
+      outcome: "success",
+      error: null,
+      prevHash: AUDIT_GENESIS_HASH,
+    });
+    expect(entry.hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it("should record refusals and digests of signed transactions that fail to send", async () => {
+    // ポリシー違反で署名しなかったものと、署名後に送信できなかったものを鎖に追記することを確認
+    const runtime = createRuntime(wallet, { maxPerTransaction: { SUI: "5" } });
+    const refused = await sendTransfer(runtime, "6");
+    expect(refused.success).toBe(false);
+
+    wallet.signAndExecuteTransaction.mockImplementation(
+      async (_tx: unknown, onSigned?: (signed: any) => void) => {
+        onSigned?.({ bytes: SIGNED_BYTES, signature: "signature" });
+        throw new Error("fullnode unreachable");
+      },
+    );
+    await sendTransfer(runtime, "1");
+
+    const entries = await listTransactionAudit(runtime);
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      messageId: "00000000-0000-0000-0000-0000000000a1",
+      decision: { result: "denied", rule: "SPENDING_LIMIT_EXCEEDED" },
+      bytesHash: null,
+      digest: null,
+      outcome: "refused",
+    });
+    expect(entries[1]).toMatchObject({
+      seq: 1,
+      prevHash: entries[0].hash,
+      decision: { result: "allowed" },
+      bytesHash: transactionBytesHash(SIGNED_BYTES),
+      outcome: "error",
+      error: "fullnode unreachable",
+    });
+    expect(entries[1].digest).toBeTruthy();
+    expect(verifyTransactionAudit(entries)).toMatchObject({
+      valid: true,
+      count: 2,
+      headHash: entries[1].hash,
+    });
+  });
+
+  it("should record failures before signing that are not policy refusals", async () => {
+    // RPCエラーなど署名前の想定外の失敗も、署名していないエラーとして記録することを確認
+    const runtime = createRuntime(wallet);
+    wallet.signAndExecuteTransaction.mockImplementation(async () => {
+      throw new Error("could not fetch gas coins");
+    });
+    const result = await sendTransfer(runtime, "1");
+    expect(result.success).toBe(false);
+
+    const [entry] = await listTransactionAudit(runtime);
+    expect(entry).toMatchObject({
+      decision: { result: "allowed" },
+      bytesHash: null,
+      digest: null,
+      outcome: "error",
+      error: "could not fetch gas coins",
+    });
+  });
+
+  it("should report a submitted transaction even when the audit log cannot be written", async () => {
+    // 送信した後に監査ログへ書き込めなくても、送金は成功として返し、記録できなかったことをログに残すことを確認
+    const runtime = createRuntime(wallet);
+    const setCache = runtime.setCache;
+    runtime.setCache = async (key: string, value: unknown) => {
+      if (key.startsWith("sui:tx-audit")) throw new Error("cache offline");
+      return setCache(key, value);
+    };
+    const error = spyOn(logger, "error").mockImplementation(() => {});
+
+    const result = await sendTransfer(runtime, "1");
+    expect(result.success).toBe(true);
+    expect(result.values?.digest).toBe("SignedDigest");
+    expect(wallet.signAndExecuteTransaction).toHaveBeenCalledTimes(1);
+    expect(error).toHaveBeenCalledWith(
+      expect.objectContaining({
+        digest: "SignedDigest",
+        error: "cache offline",
+      }),
+      "Submitted Sui transaction but could not record it in the audit log",
+    );
+  });
+
+  it("should record transactions rejected by an operator", async () => {
+    // 承認キューで却下したトランザクションを、却下した人と理由と共に記録することを確認
+    const runtime = createRuntime(wallet, { approvalThreshold: { SUI: "5" } });
+    await sendTransfer(runtime, "6");
+    const [request] = await listApprovals(runtime, "pending");
+    await rejectRequest(runtime, request.id, "Unknown recipient", "bob");
+
+    const [entry] = await listTransactionAudit(runtime);
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+    expect(entry).toMatchObject({
+      messageId: "00000000-0000-0000-0000-0000000000a2",
+      chatRequest: {
+        messageId: "00000000-0000-0000-0000-0000000000a1",
+        text: `Send 6 SUI to ${ALICE}`,
+      },
+      decision: {
+        result: "rejected",
+        reason: "Unknown recipient",
+        approvalId: request.id,
+        decidedBy: "bob",
+      },
+      outcome: "refused",
+    });
+  });
+
+  it("should detect edited, removed and reordered entries", async () => {
+    // エントリの書き換え・削除・入れ替えを検証で検出できることを確認
+    const runtime = createRuntime(wallet);
+    await sendTransfer(runtime, "1");
+    await sendTransfer(runtime, "2");
+    await sendTransfer(runtime, "3");
+    const entries = await listTransactionAudit(runtime);
+    expect(verifyTransactionAudit(entries).valid).toBe(true);
+
+    const edited = structuredClone(entries);
+    edited[1].intent.spends[0].amount = "1";
+    expect(verifyTransactionAudit(edited)).toMatchObject({
+      valid: false,
+      count: 1,
+      brokenAt: 1,
+      headHash: entries[0].hash,
+      reason: "Entry 1 does not match its hash",
+    });
+
+    const removed = [entries[0], entries[2]];
+    expect(verifyTransactionAudit(removed).brokenAt).toBe(1);
+
+    // 通し番号と直前のハッシュを付け替えても、エントリのハッシュが合わない
+    const relinked = [{ ...entries[0] }, { ...entries[2], seq: 1 }];
+    relinked[1].prevHash = entries[0].hash;
+    expect(verifyTransactionAudit(relinked)).toMatchObject({
+      valid: false,
+      brokenAt: 1,
+    });
+  });
+
+  it("should detect deleted tail entries against the stored head", async () => {
+    // 末尾のエントリを削除すると鎖自体は整合するが、別に保存した先頭と食い違うことを確認
+    const runtime = createRuntime(wallet);
+    await sendTransfer(runtime, "1");
+    await sendTransfer(runtime, "2");
+    const head = await getTransactionAuditHead(runtime);
+    const entries = await listTransactionAudit(runtime);
+    expect(head).toEqual({ count: 2, headHash: entries[1].hash });
+    expect(verifyTransactionAudit(entries, head).valid).toBe(true);
+
+    await runtime.deleteCache(`sui:tx-audit:${runtime.agentId}:1`);
+    const truncated = await listTransactionAudit(runtime);
+    expect(truncated).toHaveLength(1);
+    expect(verifyTransactionAudit(truncated).valid).toBe(true);
+    expect(verifyTransactionAudit(truncated, head)).toMatchObject({
+      valid: false,
+      count: 1,
+      brokenAt: 1,
+      reason: `The log ends after 1 entries, but its head records 2 entries ending with ${head.headHash}`,
+    });
+
+    const verify = await callAdminRoute(
+      runtime,
+      "/sui/audit/transactions/verify",
+    );
+    expect(verify.body.verification).toMatchObject({
+      valid: false,
+      brokenAt: 1,
+    });
+  });
+
+  it("should continue the chain from entries written after the stored head", async () => {
+    // 先頭を更新する前に止まった追記（や別のプロセスの追記）があれば、その後ろに続けて鎖を分岐させないことを確認
+    const runtime = createRuntime(wallet);
+    await sendTransfer(runtime, "1");
+    await sendTransfer(runtime, "2");
+    const [first, second] = await listTransactionAudit(runtime);
+    await runtime.setCache(`sui:tx-audit-head:${runtime.agentId}`, {
+      count: 1,
+      headHash: first.hash,
+    });
+
+    await sendTransfer(runtime, "3");
+    const entries = await listTransactionAudit(runtime);
+    expect(entries).toHaveLength(3);
+    expect(entries[2]).toMatchObject({ seq: 2, prevHash: second.hash });
+    expect(
+      verifyTransactionAudit(entries, await getTransactionAuditHead(runtime))
+        .valid,
+    ).toBe(true);
+  });
+
+  it("should export JSONL and CSV and verify the chain through admin routes", async () => {
+    // JSONLは読み込み直して検証でき、CSVは引用符で囲んで出力し、検証用のルートが結果を返すことを確認
+    const runtime = createRuntime(wallet, { maxPerTransaction: { SUI: "5" } });
+    await sendTransfer(runtime, "1");
+    await sendTransfer(runtime, "6");
+
+    const jsonl = await callAdminRoute(runtime, "/sui/audit/transactions");
+    expect(jsonl.status).toBe(200);
+    expect(jsonl.headers["Content-Type"]).toContain("application/x-ndjson");
+    const entries = parseTransactionAuditJsonl(jsonl.body);
+    expect(jsonl.headers["X-Audit-Count"]).toBe("2");
+    expect(jsonl.headers["X-Audit-Head-Hash"]).toBe(entries[1].hash);
+    expect(entries).toEqual(await listTransactionAudit(runtime));
+    expect(verifyTransactionAudit(entries).valid).toBe(true);
+
+    const csv = await callAdminRoute(runtime, "/sui/audit/transactions", {
+      format: "csv",
+    });
+    expect(csv.headers["Content-Disposition"]).toContain(
+      "sui-transactions-audit.csv",
+    );
+    const lines = csv.body.trimEnd().split("\r\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toStartWith("seq,at,action,messageId");
+    expect(lines[2]).toContain(",denied,SPENDING_LIMIT_EXCEEDED,");
+    expect(lines[2]).toContain('"{""action"":""SUI_TRANSFER""');
+    expect(csv.body).toBe(formatTransactionAudit(entries, "csv"));
+
+    const verify = await callAdminRoute(
+      runtime,
+      "/sui/audit/transactions/verify",
+    );
+    expect(verify.body.verification).toMatchObject({
+      valid: true,
+      count: 2,
+      brokenAt: null,
+    });
+
+    const invalid = await callAdminRoute(runtime, "/sui/audit/transactions", {
+      format: "xml",
+    });
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.code).toBe("INVALID_ARGUMENT");
+  });
+});
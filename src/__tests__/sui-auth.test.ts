@@ -0,0 +1,321 @@
+// Bunのテスト関連モジュール、APIルートの認証、ルート、およびテスト用ランタイムをインポート
+import { beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { logger } from "@elizaos/core";
+import {
+  ACCESS_LOG_LIMIT,
+  API_SESSION_TTL_SECONDS,
+  createApiToken,
+  hasApiRole,
+  listAccessLog,
+  recordAccess,
+  verifyApiToken,
+} from "../plugins/sui/auth";
+import { listApprovals } from "../plugins/sui/approval";
+import { parseSuiConfig, redactSuiConfig } from "../plugins/sui/config";
+import {
+  SUI_READ_API_VERSION,
+  suiAdminRoutes,
+  suiApprovalRoutes,
+  suiReadApiRoutes,
+  suiSessionRoutes,
+} from "../plugins/sui/routes";
+import { callRoute } from "./test-utils";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const VIEWER_KEY = "viewer-key-0123456789";
+const OPERATOR_KEY = "operator-key-0123456789";
+const TOKEN_SECRET = "s".repeat(32);
+
+// ヘッダー（とボディ）付きでAPIのルートを呼び出します
+function callApiRoute(
+  runtime: any,
+  path: string,
+  headers: Record<string, string> = {},
+  body: Record<string, unknown> = {},
+) {
+  const routes = [
+    ...suiSessionRoutes,
+    ...suiApprovalRoutes,
+    ...suiReadApiRoutes,
+    ...suiAdminRoutes,
+  ];
+  return callRoute(routes, path, runtime, {
+    headers,
+    query: {},
+    body,
+    originalUrl: `${path}?agentId=agent`,
+  });
+}
+
+function createRuntime() {
+  return createSuiTestRuntime({
+    SUI_API_KEYS: `viewer:${VIEWER_KEY}, operator:${OPERATOR_KEY}`,
+    SUI_API_TOKEN_SECRET: TOKEN_SECRET,
+  });
+}
+
+describe("Sui API route authentication", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should parse role:key pairs and keep them out of logs", () => {
+    // キーと役割の組を読み取り、不正な役割・短いキーを拒否し、ログ用の要約では値を隠すことを確認
+    const config = parseSuiConfig({
+      SUI_API_KEYS: `Viewer:${VIEWER_KEY},admin:${OPERATOR_KEY}`,
+      SUI_API_TOKEN_SECRET: TOKEN_SECRET,
+    });
+    expect(config.SUI_API_KEYS).toEqual([
+      { role: "viewer", key: VIEWER_KEY },
+      { role: "admin", key: OPERATOR_KEY },
+    ]);
+    expect(redactSuiConfig(config)).toMatchObject({
+      SUI_API_KEYS: "[set]",
+      SUI_API_TOKEN_SECRET: "[set]",
+    });
+    expect(JSON.stringify(redactSuiConfig(config))).not.toContain(VIEWER_KEY);
+
+    expect(() => parseSuiConfig({ SUI_API_KEYS: "root:abc" })).toThrow(
+      "SUI_API_KEYS",
+    );
+    expect(() => parseSuiConfig({ SUI_API_TOKEN_SECRET: "short" })).toThrow(
+      "SUI_API_TOKEN_SECRET",
+    );
+  });
+
+  it("should sign and verify bearer tokens", () => {
+    // 発行したトークンを検証でき、改ざん・期限切れ・別の秘密鍵のトークンを拒否することを確認
+    const now = Date.now();
+    const token = createApiToken(
+      TOKEN_SECRET,
+      { subject: "ops-script", role: "operator", ttlSeconds: 60 },
+      now,
+    );
+    expect(verifyApiToken(TOKEN_SECRET, token, now)).toEqual({
+      subject: "ops-script",
+      role: "operator",
+    });
+
+    const [body, signature] = token.split(".");
+    const forged = `${Buffer.from(
+      JSON.stringify({ sub: "ops-script", role: "admin", exp: 1e10 }),
+    ).toString("base64url")}.${signature}`;
+    expect(() => verifyApiToken(TOKEN_SECRET, forged, now)).toThrow(
+      "Invalid bearer token",
+    );
+    expect(() => verifyApiToken("t".repeat(32), token, now)).toThrow(
+      "Invalid bearer token",
+    );
+    expect(() =>
+      verifyApiToken(TOKEN_SECRET, `${body}.${signature}`, now + 61_000),
+    ).toThrow("expired");
+
+    expect(hasApiRole("admin", "operator")).toBe(true);
+    expect(hasApiRole("viewer", "operator")).toBe(false);
+  });
+
+  it("should answer 401 and 403 with structured errors", async () => {
+    // 資格情報が無い・不正なら401、役割が足りなければ403を、読み取り用APIではバージョン付きで返すことを確認
+    const runtime = createRuntime();
+    const missing = await callApiRoute(runtime, "/sui/approvals");
+    expect(missing.status).toBe(401);
+    expect(missing.body).toEqual({
+      error: {
+        code: "UNAUTHENTICATED",
+        message: "An API key or bearer token is required",
+      },
+    });
+
+    const invalid = await callApiRoute(runtime, "/sui/address", {
+      "x-api-key": "not-a-real-key-000000",
+    });
+    expect(invalid.status).toBe(401);
+    expect(invalid.body).toEqual({
+      apiVersion: SUI_READ_API_VERSION,
+      error: { code: "UNAUTHENTICATED", message: "Invalid API key" },
+    });
+
+    const viewer = await callApiRoute(runtime, "/sui/approvals", {
+      "x-api-key": VIEWER_KEY,
+    });
+    expect(viewer.status).toBe(403);
+    expect(viewer.body.error).toEqual({
+      code: "NOT_AUTHORIZED",
+      message: "This route requires the operator role",
+    });
+
+    const operatorToken = createApiToken(TOKEN_SECRET, {
+      subject: "ops-script",
+      role: "operator",
+    });
+    const policy = await callApiRoute(runtime, "/sui/policy", {
+      authorization: `Bearer ${operatorToken}`,
+    });
+    expect(policy.status).toBe(403);
+  });
+
+  it("should let each role reach its routes and audit privileged calls", async () => {
+    // viewerは読み取り、operatorは承認キュー、adminは管理用ルートを呼び出せ、特権的な呼び出しと拒否が記録されることを確認
+    const runtime = createRuntime();
+    const read = await callApiRoute(runtime, "/sui/address", {
+      "x-api-key": VIEWER_KEY,
+    });
+    // 読み取りは認可を通り、ウォレットが無いため503になる
+    expect(read.status).toBe(503);
+
+    const approvals = await callApiRoute(runtime, "/sui/approvals", {
+      "x-api-key": OPERATOR_KEY,
+    });
+    expect(approvals.status).toBe(200);
+    expect(approvals.body).toEqual({ approvals: [] });
+
+    await callApiRoute(runtime, "/sui/approvals", { "x-api-key": VIEWER_KEY });
+
+    const adminToken = createApiToken(TOKEN_SECRET, {
+      subject: "alice",
+      role: "admin",
+    });
+    const policy = await callApiRoute(runtime, "/sui/policy", {
+      authorization: `Bearer ${adminToken}`,
+    });
+    expect(policy.status).toBe(200);
+    expect(policy.body.policy).toBeDefined();
+
+    const log = await callApiRoute(runtime, "/sui/audit/access", {
+      authorization: `Bearer ${adminToken}`,
+    });
+    const entries = log.body.entries;
+    expect(entries.map((entry: any) => [entry.route, entry.outcome])).toEqual([
+      ["sui-audit-access", "allowed"],
+      ["sui-policy", "allowed"],
+      ["sui-approvals", "denied"],
+      ["sui-approvals", "allowed"],
+    ]);
+    expect(entries[1]).toMatchObject({
+      subject: "alice",
+      role: "admin",
+      requiredRole: "admin",
+      path: "/sui/policy",
+    });
+    expect(entries[2]).toMatchObject({ role: "viewer", status: 403 });
+    expect(entries[3].subject).toMatch(/^api-key:[0-9a-f]{12}$/);
+    expect(JSON.stringify(entries)).not.toContain(OPERATOR_KEY);
+  });
+
+  it("should keep every access recorded at the same time", async () => {
+    // 同時に届いた呼び出しの記録が互いに上書きされないことを確認
+    const runtime = createRuntime();
+    await Promise.all(
+      Array.from({ length: 5 }, () =>
+        callApiRoute(runtime, "/sui/approvals", { "x-api-key": OPERATOR_KEY }),
+      ),
+    );
+    const entries = await listAccessLog(runtime);
+    expect(entries).toHaveLength(5);
+    expect(entries.every((entry) => entry.route === "sui-approvals")).toBe(
+      true,
+    );
+  });
+
+  it("should keep only the most recent accesses", async () => {
+    // 上限件数を超えた古いエントリは削除し、新しい順に返すことを確認
+    const runtime = createRuntime();
+    for (let at = 0; at < ACCESS_LOG_LIMIT + 2; at++) {
+      await recordAccess(runtime, {
+        at,
+        route: "sui-approvals",
+        method: "GET",
+        path: "/sui/approvals",
+        requiredRole: "operator",
+        subject: "ops-script",
+        role: "operator",
+        outcome: "allowed",
+      });
+    }
+    const entries = await listAccessLog(runtime);
+    expect(entries).toHaveLength(ACCESS_LOG_LIMIT);
+    expect(entries[0].at).toBe(ACCESS_LOG_LIMIT + 1);
+    expect(entries[ACCESS_LOG_LIMIT - 1].at).toBe(2);
+    expect(await runtime.getCache(`sui:access-log:${runtime.agentId}:1`)).toBe(
+      undefined,
+    );
+  });
+
+  it("should exchange an API key for a short-lived session token", async () => {
+    // パネルのサインインでキーを短命のトークンと引き換え、トークンの呼び出し元と役割がキーと同じになることを確認
+    const runtime = createRuntime();
+    const before = Date.now();
+    const signIn = await callApiRoute(runtime, "/sui/auth/session", {
+      "x-api-key": OPERATOR_KEY,
+    });
+    expect(signIn.status).toBe(200);
+    const { session } = signIn.body;
+    expect(session).toMatchObject({ role: "operator" });
+    expect(session.subject).toMatch(/^api-key:[0-9a-f]{12}$/);
+    expect(session.expiresAt).toBeLessThanOrEqual(
+      before + API_SESSION_TTL_SECONDS * 1000,
+    );
+    expect(JSON.stringify(session)).not.toContain(OPERATOR_KEY);
+
+    const approvals = await callApiRoute(runtime, "/sui/approvals", {
+      authorization: `Bearer ${session.token}`,
+    });
+    expect(approvals.status).toBe(200);
+    expect(() =>
+      verifyApiToken(
+        TOKEN_SECRET,
+        session.token,
+        before + (API_SESSION_TTL_SECONDS + 1) * 1000,
+      ),
+    ).toThrow("expired");
+
+    // キーより低い役割は求められるが、高い役割やトークンからの引き換えは拒否する
+    const viewer = await callApiRoute(
+      runtime,
+      "/sui/auth/session",
+      { "x-api-key": OPERATOR_KEY },
+      { role: "viewer" },
+    );
+    expect(viewer.body.session.role).toBe("viewer");
+    const escalated = await callApiRoute(
+      runtime,
+      "/sui/auth/session",
+      { "x-api-key": VIEWER_KEY },
+      { role: "admin" },
+    );
+    expect(escalated.status).toBe(403);
+    const renewed = await callApiRoute(runtime, "/sui/auth/session", {
+      authorization: `Bearer ${session.token}`,
+    });
+    expect(renewed.status).toBe(403);
+    expect(renewed.body.error.message).toBe(
+      "Session tokens are only issued in exchange for an API key",
+    );
+  });
+
+  it("should only open read routes when no credentials are configured", async () => {
+    // APIキーもトークンの秘密鍵も無い場合は、読み取りは開放し、承認キューと管理用ルートは拒否することを確認
+    const runtime = createSuiTestRuntime();
+    const read = await callApiRoute(runtime, "/sui/address");
+    // 読み取りは認可を通り、ウォレットが無いため503になる
+    expect(read.status).toBe(503);
+
+    const approve = await callApiRoute(runtime, "/sui/approvals/:id/approve");
+    expect(approve.status).toBe(401);
+    expect(approve.body.error).toEqual({
+      code: "UNAUTHENTICATED",
+      message:
+        "API authentication is not configured; set SUI_API_KEYS or SUI_API_TOKEN_SECRET to use routes that require the operator role",
+    });
+    expect((await callApiRoute(runtime, "/sui/policy")).status).toBe(401);
+    expect(await listApprovals(runtime)).toHaveLength(0);
+
+    // 明示的に許可した場合だけ、これまでどおり資格情報なしで呼び出せる
+    const open = await callApiRoute(
+      createSuiTestRuntime({ SUI_API_ALLOW_UNAUTHENTICATED: "true" }),
+      "/sui/approvals",
+    );
+    expect(open.status).toBe(200);
+  });
+});
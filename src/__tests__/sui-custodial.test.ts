@@ -0,0 +1,261 @@
+// Bunのテスト関連モジュール、預かりウォレット、アドレス確認アクション、およびRPCスタブをインポート
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import {
+  type State,
+  type UUID,
+  decryptStringValue,
+  getSalt,
+  logger,
+} from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+  SUI_MY_ADDRESS,
+  suiMyAddressAction,
+} from "../plugins/sui/actions/address";
+import { suiPortfolioProvider } from "../plugins/sui/providers/portfolio";
+import { SuiWalletService } from "../plugins/sui/service";
+import {
+  CUSTODIAL_WALLET_COMPONENT,
+  deriveEntityKeypair,
+  entityDerivationPath,
+  getWalletService,
+} from "../plugins/sui/wallets";
+import { createSuiMessage, startSuiWalletRuntime } from "./test-utils";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
+
+const MNEMONIC =
+  "abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about";
+const OTHER_MNEMONIC =
+  "legal winner thank year wave sausage worth useful legal winner thank yellow";
+const ALICE = "00000000-0000-0000-0000-0000000000a1" as UUID;
+const BOB = "00000000-0000-0000-0000-0000000000b2" as UUID;
+const WORLD = "00000000-0000-0000-0000-0000000000dd" as UUID;
+const agentKeypair = new Ed25519Keypair();
+
+// 指定したユーザーがワールド内のルームに送ったメッセージを作成します
+function createUserMessage(entityId: UUID, text = "hi") {
+  return createSuiMessage(text, {
+    entityId,
+    worldId: WORLD,
+    source: "discord",
+  });
+}
+
+describe("Custodial wallets", () => {
+  let stub: SuiRpcStub;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+
+    // アリスの預かりウォレットだけが残高を持つ
+    const aliceAddress = deriveEntityKeypair(MNEMONIC, ALICE).toSuiAddress();
+    stub = startSuiRpcStub({
+      suix_getAllBalances: ([owner]) =>
+        owner === aliceAddress
+          ? [
+              {
+                coinType: "0x2::sui::SUI",
+                coinObjectCount: 1,
+                totalBalance: "4200000000",
+                lockedBalance: {},
+              },
+            ]
+          : [],
+      suix_getCoinMetadata: () => ({
+        decimals: 9,
+        symbol: "SUI",
+        name: "Sui",
+        description: "",
+      }),
+      suix_resolveNameServiceNames: () => ({
+        data: [],
+        nextCursor: null,
+        hasNextPage: false,
+      }),
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+  });
+
+  async function createRuntime(settings: Record<string, string> = {}) {
+    return startSuiWalletRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: agentKeypair.getSecretKey(),
+      SUI_READ_ONLY: "false",
+      SUI_HD_MNEMONIC: MNEMONIC,
+      ...settings,
+    });
+  }
+
+  it("should derive a stable, distinct keypair per entity", () => {
+    // 同じエンティティからは同じ鍵、異なるエンティティからは異なる鍵が強化パスで導出されることを確認
+    const path = entityDerivationPath(ALICE);
+    expect(path).toMatch(/^m\/44'\/784'\/\d+'\/\d+'\/\d+'$/);
+    expect(entityDerivationPath(ALICE)).toBe(path);
+    expect(deriveEntityKeypair(MNEMONIC, ALICE).toSuiAddress()).toBe(
+      Ed25519Keypair.deriveKeypair(MNEMONIC, path).toSuiAddress(),
+    );
+    expect(deriveEntityKeypair(MNEMONIC, BOB).toSuiAddress()).not.toBe(
+      deriveEntityKeypair(MNEMONIC, ALICE).toSuiAddress(),
+    );
+  });
+
+  it("should store the derived key encrypted and reload it after a restart", async () => {
+    // 初回はコンポーネントに暗号化して保存し、再起動後は保存済みの鍵を読み込むことを確認
+    const { runtime, service } = await createRuntime();
+    const wallet = await getWalletService(runtime, createUserMessage(ALICE));
+    const address = deriveEntityKeypair(MNEMONIC, ALICE).toSuiAddress();
+    expect(wallet?.getAddress()).toBe(address);
+    expect(wallet?.getOwnerEntityId()).toBe(ALICE);
+    expect(await getWalletService(runtime, createUserMessage(ALICE))).toBe(
+      wallet,
+    );
+
+    expect(runtime.components).toHaveLength(1);
+    const [component] = runtime.components;
+    expect(component).toMatchObject({
+      entityId: ALICE,
+      agentId: runtime.agentId,
+      sourceEntityId: runtime.agentId,
+      worldId: WORLD,
+      type: CUSTODIAL_WALLET_COMPONENT,
+      data: { address, derivationPath: entityDerivationPath(ALICE) },
+    });
+    const secretKey = deriveEntityKeypair(MNEMONIC, ALICE).getSecretKey();
+    expect(JSON.stringify(component.data)).not.toContain(secretKey);
+    expect(
+      decryptStringValue(
+        component.data.encryptedPrivateKey as string,
+        getSalt(),
+      ),
+    ).toBe(secretKey);
+
+    // 停止すると預かりウォレットの鍵も破棄され、再起動後は保存済みの記録から復元される
+    await service.stop();
+    expect(wallet?.hasSigner()).toBe(false);
+    const restarted = await SuiWalletService.start(
+      createSuiTestRuntime({
+        SUI_RPC_URL: stub.url,
+        SUI_HD_MNEMONIC: MNEMONIC,
+      }),
+    );
+    runtime.services.set(SuiWalletService.serviceType, restarted);
+    const reloaded = await getWalletService(runtime, createUserMessage(ALICE));
+    expect(reloaded?.getAddress()).toBe(address);
+    expect(runtime.components).toHaveLength(1);
+  });
+
+  it("should use the agent wallet for the agent itself or without a mnemonic", async () => {
+    // エージェント自身のメッセージやSUI_HD_MNEMONIC未設定時は従来どおりエージェントのウォレットを使うことを確認
+    const { runtime, service } = await createRuntime();
+    expect(
+      await getWalletService(runtime, createUserMessage(runtime.agentId)),
+    ).toBe(service);
+
+    const single = await createRuntime({ SUI_HD_MNEMONIC: "" });
+    expect(
+      await getWalletService(single.runtime, createUserMessage(ALICE)),
+    ).toBe(single.service);
+    expect(single.runtime.components).toHaveLength(0);
+  });
+
+  it("should refuse a stored wallet that no longer matches the mnemonic", async () => {
+    // ニーモニックが差し替えられた場合は別のウォレットを作らずにエラーにすることを確認
+    const { runtime } = await createRuntime();
+    await getWalletService(runtime, createUserMessage(ALICE));
+    const replaced = await SuiWalletService.start(
+      createSuiTestRuntime({
+        SUI_RPC_URL: stub.url,
+        SUI_HD_MNEMONIC: OTHER_MNEMONIC,
+      }),
+    );
+    runtime.services.set(SuiWalletService.serviceType, replaced);
+    await expect(
+      getWalletService(runtime, createUserMessage(ALICE)),
+    ).rejects.toMatchObject({ code: "WALLET_UNAVAILABLE" });
+  });
+
+  it("should tell each user their own deposit address", async () => {
+    // SUI_MY_ADDRESSが利用者ごとに異なる入金用アドレスを返すことを確認
+    const { runtime } = await createRuntime();
+    const callback = mock(async () => []);
+    const ask = (entityId: UUID) =>
+      suiMyAddressAction.handler(
+        runtime,
+        createUserMessage(entityId, "What's my deposit address?"),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    expect(
+      await suiMyAddressAction.validate(
+        runtime,
+        createUserMessage(ALICE),
+        {} as State,
+      ),
+    ).toBe(true);
+    const alice = await ask(ALICE);
+    const bob = await ask(BOB);
+    expect(alice?.data?.actionName).toBe(SUI_MY_ADDRESS);
+    expect(alice?.values?.suiAddress).toBe(
+      deriveEntityKeypair(MNEMONIC, ALICE).toSuiAddress(),
+    );
+    expect(bob?.values?.suiAddress).toBe(
+      deriveEntityKeypair(MNEMONIC, BOB).toSuiAddress(),
+    );
+    expect(alice?.text).toContain(
+      `Your Sui address: ${alice?.values?.suiAddress}`,
+    );
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(runtime.components).toHaveLength(2);
+  });
+
+  it("should show the caller's balances and nothing before they have a wallet", async () => {
+    // プロバイダーは送り主のウォレットの残高を表示し、未作成の利用者にはウォレットを作らないことを確認
+    const { runtime } = await createRuntime();
+    const empty = await suiPortfolioProvider.get(
+      runtime,
+      createUserMessage(ALICE),
+      {} as State,
+    );
+    expect(empty.text).toBe("");
+    expect(runtime.components).toHaveLength(0);
+
+    await getWalletService(runtime, createUserMessage(ALICE));
+    await getWalletService(runtime, createUserMessage(BOB));
+    const alice = await suiPortfolioProvider.get(
+      runtime,
+      createUserMessage(ALICE),
+      {} as State,
+    );
+    const bob = await suiPortfolioProvider.get(
+      runtime,
+      createUserMessage(BOB),
+      {} as State,
+    );
+    expect(alice.values?.totalSui).toBe("4.2");
+    expect(bob.text).toContain("holds no coins");
+    // キャッシュは利用者ごとに分かれる
+    expect(
+      await runtime.getCache(`sui:portfolio:${runtime.agentId}:${ALICE}`),
+    ).toMatchObject({ totalSui: "4.2" });
+  });
+});
@@ -0,0 +1,160 @@
+// Bunのテスト関連モジュール、ダッシュボードのルート、およびRPCスタブをインポート
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { suiDashboardRoutes } from "../plugins/sui/routes";
+import { callRoute, startSuiWalletRuntime } from "./test-utils";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
+
+const keypair = new Ed25519Keypair();
+const OWNER = keypair.toSuiAddress();
+const VALIDATOR = `0x${"f".repeat(64)}`;
+const STAKED = `0x${"e".repeat(64)}`;
+
+describe("Wallet dashboard routes", () => {
+  let stub: SuiRpcStub;
+  let dir: string;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), "sui-dashboard-"));
+    writeFileSync(
+      join(dir, "prices.json"),
+      JSON.stringify({ "0x2::sui::SUI": 3.5 }),
+    );
+
+    stub = startSuiRpcStub({
+      suix_getAllBalances: () => [
+        {
+          coinType: "0x2::sui::SUI",
+          coinObjectCount: 1,
+          totalBalance: "2000000000",
+          lockedBalance: {},
+        },
+      ],
+      suix_getCoinMetadata: () => ({
+        decimals: 9,
+        symbol: "SUI",
+        name: "Sui",
+        description: "",
+      }),
+      suix_getStakes: () => [
+        {
+          validatorAddress: VALIDATOR,
+          stakingPool: `0x${"d".repeat(64)}`,
+          stakes: [
+            {
+              stakedSuiId: STAKED,
+              stakeRequestEpoch: "10",
+              stakeActiveEpoch: "11",
+              principal: "5000000000",
+              status: "Active",
+              estimatedReward: "25000000",
+            },
+          ],
+        },
+      ],
+      suix_queryTransactionBlocks: () => ({
+        data: [],
+        nextCursor: null,
+        hasNextPage: false,
+      }),
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function createRuntime(settings: Record<string, string> = {}) {
+    const { runtime } = await startSuiWalletRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+      ...settings,
+    });
+    return runtime;
+  }
+
+  it("should return the address and balances with USD values", async () => {
+    // アドレス・ネットワークと、価格ソースがあればコインごとの評価額と合計を返すことを確認
+    const runtime = await createRuntime({
+      SUI_PRICE_SOURCES: "static",
+      SUI_PRICE_STATIC_PATH: join(dir, "prices.json"),
+    });
+    const { status, body } = await callRoute(
+      suiDashboardRoutes,
+      "/sui/dashboard/wallet",
+      runtime,
+    );
+    expect(status).toBe(200);
+    expect(body.wallet).toMatchObject({
+      address: OWNER,
+      network: "testnet",
+      readOnly: false,
+      totalSui: "2",
+      totalUsd: 7,
+    });
+    expect(body.wallet.coins).toEqual([
+      expect.objectContaining({ symbol: "SUI", balance: "2", usdValue: 7 }),
+    ]);
+  });
+
+  it("should return staked positions and an empty history", async () => {
+    // ステーク状況と、トランザクションが無い場合の空の一覧を返すことを確認
+    const runtime = await createRuntime();
+    const stakes = await callRoute(
+      suiDashboardRoutes,
+      "/sui/dashboard/stakes",
+      runtime,
+    );
+    expect(stakes.body.staking).toMatchObject({
+      totalStaked: "5",
+      estimatedRewards: "0.025",
+      stakes: [expect.objectContaining({ stakedSuiId: STAKED })],
+    });
+
+    const history = await callRoute(
+      suiDashboardRoutes,
+      "/sui/dashboard/transactions",
+      runtime,
+    );
+    expect(history.status).toBe(200);
+    expect(history.body.history.transactions).toEqual([]);
+  });
+
+  it("should answer 503 with an error envelope when there is no wallet", async () => {
+    // ウォレットが無い場合はWALLET_UNAVAILABLEを、RPCの失敗はREAD_FAILEDを返すことを確認
+    const missing = await callRoute(
+      suiDashboardRoutes,
+      "/sui/dashboard/wallet",
+      createSuiTestRuntime(),
+    );
+    expect(missing.status).toBe(503);
+    expect(missing.body.error.code).toBe("WALLET_UNAVAILABLE");
+
+    const runtime = await createRuntime();
+    const original = stub.handlers.suix_getStakes;
+    delete stub.handlers.suix_getStakes;
+    try {
+      const failed = await callRoute(
+        suiDashboardRoutes,
+        "/sui/dashboard/stakes",
+        runtime,
+      );
+      expect(failed.status).toBe(500);
+      expect(failed.body.error.code).toBe("READ_FAILED");
+    } finally {
+      stub.handlers.suix_getStakes = original;
+    }
+  });
+});
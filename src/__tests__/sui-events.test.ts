@@ -0,0 +1,325 @@
+// Bunのテスト関連モジュール、イベント購読サービス、およびRPCスタブをインポート
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { parseSuiConfig } from "../plugins/sui/config";
+import {
+  SUI_EVENT_RECEIVED,
+  type SuiChainEvent,
+  SuiEventService,
+  postSuiEventNotice,
+} from "../plugins/sui/events";
+import { SuiWalletService } from "../plugins/sui/service";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
+
+const keypair = new Ed25519Keypair();
+const OWNER = keypair.toSuiAddress();
+const ALICE = `0x${"a".repeat(64)}`;
+const PACKAGE = `0x${"c".repeat(64)}`;
+const OTHER_PACKAGE = `0x${"d".repeat(64)}`;
+const EVENT_TYPE = `${PACKAGE}::board::Posted`;
+const ROOM_ID = "00000000-0000-0000-0000-0000000000dd";
+
+// フルノードが返すMoveイベントのフィクスチャを作ります
+function moveEvent(digest: string, seq: number, packageId = PACKAGE) {
+  return {
+    id: { txDigest: digest, eventSeq: String(seq) },
+    packageId,
+    transactionModule: "board",
+    sender: ALICE,
+    type: `${packageId}::board::Posted`,
+    parsedJson: { message: `post ${digest}` },
+    bcs: "",
+    timestampMs: "1767355200000",
+  };
+}
+
+// フルノードが返すトランザクションのフィクスチャを作ります
+function transaction(
+  digest: string,
+  sender: string,
+  received: string,
+  events: ReturnType<typeof moveEvent>[] = [],
+) {
+  return {
+    digest,
+    timestampMs: "1767355200000",
+    transaction: { data: { sender } },
+    balanceChanges: [
+      {
+        owner: { AddressOwner: OWNER },
+        coinType: "0x2::sui::SUI",
+        amount: received,
+      },
+    ],
+    events,
+  };
+}
+
+// チェーン上のイベント・トランザクション（古い順、テスト中に追加します）
+const chain = {
+  events: [moveEvent("E1", 0)],
+  transactions: [transaction("T1", ALICE, "1000000000")],
+};
+
+// カーソルの次から指定した順で返すページング
+function paginate<T>(
+  list: T[],
+  key: (item: T) => string,
+  cursor: string | null,
+  limit: number,
+  descending: boolean,
+) {
+  const ordered = descending ? [...list].reverse() : list;
+  const start = cursor
+    ? ordered.findIndex((item) => key(item) === cursor) + 1
+    : 0;
+  const data = ordered.slice(start, start + limit);
+  return {
+    data,
+    nextCursor: data.length > 0 ? key(data.at(-1) as T) : cursor,
+    hasNextPage: start + limit < ordered.length,
+  };
+}
+
+const eventKey = (event: ReturnType<typeof moveEvent>) =>
+  `${event.id.txDigest}:${event.id.eventSeq}`;
+
+describe("Sui event subscriptions", () => {
+  let stub: SuiRpcStub;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "debug").mockImplementation(() => {});
+
+    stub = startSuiRpcStub({
+      suix_queryEvents: ([query, cursor, limit, descending]) => {
+        const page = paginate(
+          chain.events.filter((event) => event.type === query.MoveEventType),
+          eventKey,
+          cursor ? `${cursor.txDigest}:${cursor.eventSeq}` : null,
+          limit,
+          descending,
+        );
+        const last = page.data.at(-1);
+        return {
+          ...page,
+          nextCursor: last ? last.id : (cursor ?? null),
+        };
+      },
+      suix_queryTransactionBlocks: ([query, cursor, limit, descending]) =>
+        paginate(
+          query.filter.MoveFunction
+            ? chain.transactions.filter((tx) => tx.events.length > 0)
+            : chain.transactions,
+          (tx) => tx.digest,
+          cursor ?? null,
+          limit,
+          descending,
+        ),
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+    mock.restore();
+  });
+
+  async function createRuntime(
+    filters: string,
+    runtime = createSuiTestRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+      SUI_EVENT_FILTERS: filters,
+      SUI_EVENT_ROOM_IDS: ROOM_ID,
+    }),
+  ) {
+    const wallet = await SuiWalletService.start(runtime);
+    runtime.services.set(SuiWalletService.serviceType, wallet);
+    const received: SuiChainEvent[] = [];
+    const emitEvent = mock(async (_event: string, payload: any) => {
+      received.push(payload.event);
+    });
+    Object.assign(runtime, { emitEvent });
+    return { runtime, received, emitEvent };
+  }
+
+  it("should validate and normalize the filter settings", () => {
+    // パッケージIDは正規化され、型名の大文字小文字は保たれることを確認
+    const config = parseSuiConfig({
+      SUI_EVENT_FILTERS:
+        " transfers, type:0xc::board::Posted ,module:0x2::coin",
+    });
+    expect(config.SUI_EVENT_FILTERS).toEqual([
+      "transfers",
+      `type:${normalizeSuiAddress("0xc")}::board::Posted`,
+      `module:${normalizeSuiAddress("0x2")}::coin`,
+    ]);
+    expect(config.SUI_EVENT_POLL_INTERVAL_MS).toBe(15000);
+
+    expect(() =>
+      parseSuiConfig({
+        SUI_EVENT_FILTERS: "sender:0x1",
+        SUI_EVENT_POLL_INTERVAL_MS: "10",
+      }),
+    ).toThrow(
+      /SUI_EVENT_FILTERS\.0: Must be transfers[\s\S]*SUI_EVENT_POLL_INTERVAL_MS: Must be at least 1000/,
+    );
+  });
+
+  it("should start from the latest event and emit only new ones", async () => {
+    // 初回は過去のイベントを流さずに位置を保存し、以降は新しいイベントだけを順に発行することを確認
+    chain.events = [moveEvent("E1", 0)];
+    const { runtime, received, emitEvent } = await createRuntime(
+      `type:${EVENT_TYPE}`,
+    );
+    const service = new SuiEventService(runtime);
+
+    expect(await service.pollOnce()).toBe(0);
+    expect(emitEvent).not.toHaveBeenCalled();
+
+    chain.events.push(moveEvent("E2", 0), moveEvent("E2", 1));
+    expect(await service.pollOnce()).toBe(2);
+    expect(emitEvent.mock.calls[0][0]).toBe(SUI_EVENT_RECEIVED);
+    expect(received.map((event) => event.id)).toEqual(["E2:0", "E2:1"]);
+    expect(received[0]).toMatchObject({
+      kind: "event",
+      filter: `type:${EVENT_TYPE}`,
+      digest: "E2",
+      sender: ALICE,
+      type: EVENT_TYPE,
+      parsedJson: { message: "post E2" },
+    });
+
+    // 同じキャッシュを使う再起動後のサービスは、保存した位置から続ける
+    chain.events.push(moveEvent("E3", 0));
+    const restarted = await createRuntime(`type:${EVENT_TYPE}`, runtime);
+    expect(await new SuiEventService(runtime).pollOnce()).toBe(1);
+    expect(restarted.received.map((event) => event.id)).toEqual(["E3:0"]);
+  });
+
+  it("should report incoming transfers but not the wallet's own transactions", async () => {
+    // ウォレット宛ての入金だけを、受け取った額とともに発行することを確認
+    chain.transactions = [transaction("T1", ALICE, "1000000000")];
+    const { runtime, received } = await createRuntime("transfers");
+    const service = new SuiEventService(runtime);
+    await service.pollOnce();
+
+    chain.transactions.push(
+      transaction("T2", OWNER, "5"),
+      transaction("T3", ALICE, "2500000000"),
+    );
+    expect(await service.pollOnce()).toBe(1);
+    expect(received).toEqual([
+      expect.objectContaining({
+        id: "T3",
+        kind: "transfer",
+        sender: ALICE,
+        balanceChanges: [{ coinType: "0x2::sui::SUI", amount: "2500000000" }],
+      }),
+    ]);
+  });
+
+  it("should emit only the package's events from package transactions", async () => {
+    // パッケージを呼び出したトランザクションのうち、そのパッケージのイベントだけを発行することを確認
+    chain.transactions = [];
+    const { runtime, received } = await createRuntime(`package:${PACKAGE}`);
+    const service = new SuiEventService(runtime);
+    await service.pollOnce();
+
+    chain.transactions.push(
+      transaction("T4", ALICE, "0", [
+        moveEvent("T4", 0),
+        moveEvent("T4", 1, OTHER_PACKAGE),
+      ]),
+    );
+    expect(await service.pollOnce()).toBe(1);
+    expect(received.map((event) => event.id)).toEqual(["T4:0"]);
+  });
+
+  it("should keep the cursor when a poll fails", async () => {
+    // 問い合わせに失敗した場合は位置を進めず、次回に同じイベントを発行することを確認
+    chain.events = [moveEvent("E1", 0)];
+    const { runtime, received } = await createRuntime(`type:${EVENT_TYPE}`);
+    const service = new SuiEventService(runtime);
+    await service.pollOnce();
+
+    chain.events.push(moveEvent("E4", 0));
+    const handler = stub.handlers.suix_queryEvents;
+    stub.handlers.suix_queryEvents = () => {
+      throw new Error("fullnode unavailable");
+    };
+    expect(await service.pollOnce()).toBe(0);
+    stub.handlers.suix_queryEvents = handler;
+
+    expect(await service.pollOnce()).toBe(1);
+    expect(received.map((event) => event.id)).toEqual(["E4:0"]);
+  });
+
+  it("should poll on a timer until stopped", async () => {
+    // 起動するとすぐに問い合わせ、停止後はタイマーが残らないことを確認
+    const { runtime } = await createRuntime(`type:${EVENT_TYPE}`);
+    const before = stub.calls.length;
+    const service = await SuiEventService.start(runtime);
+    for (let i = 0; i < 50 && stub.calls.length === before; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    await service.stop();
+    expect(stub.calls.length).toBeGreaterThan(before);
+    expect((service as any).timer).toBeNull();
+  });
+
+  it("should post formatted notices into the configured rooms", async () => {
+    // 設定したルームに、金額を整形した通知を保存・送信することを確認
+    const { runtime } = await createRuntime("transfers");
+    const createMemory = mock(async () => "memory-id");
+    const sendMessageToTarget = mock(async () => {});
+    Object.assign(runtime, {
+      getRoom: async (roomId: string) =>
+        roomId === ROOM_ID ? { id: ROOM_ID, source: "discord" } : null,
+      createMemory,
+      sendMessageToTarget,
+    });
+
+    await postSuiEventNotice({
+      runtime,
+      source: "sui",
+      event: {
+        id: "T3",
+        kind: "transfer",
+        filter: "transfers",
+        digest: "T3",
+        timestampMs: null,
+        sender: ALICE,
+        type: null,
+        parsedJson: null,
+        balanceChanges: [{ coinType: "0x2::sui::SUI", amount: "2500000000" }],
+      },
+    });
+
+    expect(createMemory).toHaveBeenCalledTimes(1);
+    const [memory] = createMemory.mock.calls[0] as unknown as [any];
+    expect(memory.roomId).toBe(ROOM_ID);
+    expect(memory.content.text).toBe(
+      "Received 2.5 SUI from 0xaaaa...aaaa\nDigest: T3",
+    );
+    expect(sendMessageToTarget).toHaveBeenCalledWith(
+      { source: "discord", roomId: ROOM_ID },
+      expect.objectContaining({ text: memory.content.text }),
+    );
+  });
+});
@@ -0,0 +1,259 @@
+// Bunのテスト関連モジュール、トランザクション説明アクション、およびテスト用ランタイムをインポート
+import { beforeAll, describe, expect, it, mock, spyOn } from "bun:test";
+import { logger } from "@elizaos/core";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import {
+  SUI_EXPLAIN_TX,
+  suiExplainTransactionAction,
+} from "../plugins/sui/actions/explainTx";
+import {
+  TxRiskCode,
+  decodeTransaction,
+  extractTransactionBytes,
+} from "../plugins/sui/explain";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const BOB = `0x${"b".repeat(64)}`;
+const PACKAGE = `0x${"c".repeat(64)}`;
+const GAS_COIN = `0x${"d".repeat(64)}`;
+const NFT = `0x${"e".repeat(64)}`;
+const DIGEST = "11111111111111111111111111111111";
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "2000000",
+  storageRebate: "500000",
+  nonRefundableStorageFee: "0",
+};
+
+// ドライランの結果（送り主から相手へ移る残高変化とオブジェクトの変更）
+function dryRunResult(
+  spent: string,
+  options: { status?: "success" | "failure"; error?: string } = {},
+) {
+  return {
+    effects: {
+      status: { status: options.status ?? "success", error: options.error },
+      gasUsed: GAS_USED,
+    },
+    balanceChanges: [
+      {
+        owner: { AddressOwner: OWNER },
+        coinType: "0x2::sui::SUI",
+        amount: `-${spent}`,
+      },
+      {
+        owner: { AddressOwner: BOB },
+        coinType: "0x2::sui::SUI",
+        amount: spent,
+      },
+    ],
+    objectChanges: [
+      {
+        type: "mutated",
+        sender: OWNER,
+        owner: { AddressOwner: BOB },
+        objectType: `${PACKAGE}::nft::Nft`,
+        objectId: NFT,
+        version: "2",
+        previousVersion: "1",
+        digest: DIGEST,
+      },
+      {
+        type: "mutated",
+        sender: OWNER,
+        owner: { AddressOwner: OWNER },
+        objectType: "0x2::coin::Coin<0x2::sui::SUI>",
+        objectId: GAS_COIN,
+        version: "2",
+        previousVersion: "1",
+        digest: DIGEST,
+      },
+    ],
+  };
+}
+
+// 説明アクションが利用するメソッドだけを持つウォレットサービスのモック
+function createWalletMock(config: Record<string, unknown> = {}) {
+  return {
+    hasSigner: () => true,
+    getConfig: () => ({
+      SUI_GAS_BUDGET_MAX: 50_000_000,
+      SUI_TRUSTED_PACKAGES: [],
+      ...config,
+    }),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => createFakeNameResolver({ "bob.sui": BOB }),
+    getCoinMetadata: mock(async () => ({ decimals: 9, symbol: "SUI" })),
+    getBalance: mock(async () => ({
+      coinType: "0x2::sui::SUI",
+      totalBalance: "10000000000",
+    })),
+    dryRunTransaction: mock(async (_tx: Transaction) => dryRunResult("1000")),
+  };
+}
+
+// ガスまで決めた、外部から渡される想定のトランザクションをbase64にします
+async function serialize(
+  build: (tx: Transaction) => void,
+  { sender = OWNER, budget = 10_000_000 } = {},
+): Promise<string> {
+  const tx = new Transaction();
+  tx.setSender(sender);
+  tx.setGasPrice(1000);
+  tx.setGasBudget(budget);
+  tx.setGasPayment([{ objectId: GAS_COIN, version: "1", digest: DIGEST }]);
+  build(tx);
+  return toBase64(await tx.build());
+}
+
+describe("SUI_EXPLAIN_TX action", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  async function explain(
+    text: string,
+    wallet = createWalletMock(),
+    settings: Record<string, unknown> = {},
+  ) {
+    const runtime = createSuiWalletRuntime(wallet);
+    runtime.character.settings = settings as any;
+    const callback = mock(async () => []);
+    const result = await suiExplainTransactionAction.handler(
+      runtime,
+      createSuiMessage(text),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+    const [content] = callback.mock.calls[0] as unknown as [
+      { text: string; actions: string[] },
+    ];
+    expect(content.actions).toEqual([SUI_EXPLAIN_TX]);
+    return { result, text: content.text, wallet };
+  }
+
+  it("should find the pasted bytes and skip hex addresses", async () => {
+    // 0xで始まるアドレスは候補にせず、base64のバイト列だけを取り出すことを確認
+    const bytes = await serialize((tx) => tx.transferObjects([tx.gas], BOB));
+    expect(
+      extractTransactionBytes(`from ${OWNER}: please sign ${bytes} thanks`),
+    ).toBe(bytes);
+    expect(extractTransactionBytes(`send 1 SUI to ${BOB}`)).toBeNull();
+    expect(() => decodeTransaction("/".repeat(40))).toThrow(
+      /Could not decode the transaction bytes/,
+    );
+  });
+
+  it("should flag a transfer of the whole gas coin", async () => {
+    // ガスコインごとの送付を平易に説明し、全額送付と第三者への送付をリスクとして示すことを確認
+    const bytes = await serialize((tx) => tx.transferObjects([tx.gas], BOB));
+    const { result, text, wallet } = await explain(
+      `A site asked me to sign this: ${bytes}`,
+    );
+
+    expect(wallet.dryRunTransaction).toHaveBeenCalledTimes(1);
+    expect(text).toContain(`Transaction from ${OWNER} (this wallet):`);
+    expect(text).toContain(`1. Transfer the gas coin to ${BOB} (bob.sui)`);
+    expect(text).toContain("Dry run: would succeed, using about 0.0025 SUI");
+    expect(text).toContain(`- ${BOB} (bob.sui): +0.000001 SUI`);
+    expect(text).toContain(
+      `- ${PACKAGE}::nft::Nft ${NFT} goes to ${BOB} (bob.sui)`,
+    );
+    expect(text).toContain("Nothing was signed.");
+    expect(result?.values?.riskFlags).toEqual([
+      TxRiskCode.DRAINS_BALANCE,
+      TxRiskCode.SENDS_TO_OTHERS,
+    ]);
+    expect(result?.data?.objectChanges).toMatchObject({ mutated: 2 });
+  });
+
+  it("should flag unknown packages and spending nearly all of a balance", async () => {
+    // 信頼済みでないパッケージの呼び出しと、残高のほぼ全額の支出を示すことを確認
+    const bytes = await serialize((tx) => {
+      const [coin] = tx.splitCoins(tx.gas, [9_800_000_000]);
+      tx.moveCall({
+        target: `${PACKAGE}::pool::deposit`,
+        arguments: [coin, tx.pure.u64(7)],
+      });
+    });
+    const wallet = createWalletMock();
+    wallet.dryRunTransaction.mockImplementation(async () =>
+      dryRunResult("9800000000"),
+    );
+    const { result, text } = await explain(bytes, wallet);
+
+    expect(text).toContain("1. Split 9.8 SUI from the gas coin");
+    expect(text).toContain(
+      `2. Call ${PACKAGE}::pool::deposit with 2 argument(s)`,
+    );
+    expect(text).toContain(`Packages called: ${PACKAGE}`);
+    expect(text).toContain(
+      "- DRAINS_BALANCE: Spends 9.8 of the sender's 10 SUI",
+    );
+    expect(result?.values?.riskFlags).toContain(TxRiskCode.UNKNOWN_PACKAGE);
+
+    // 信頼済みのパッケージ（設定または支出ポリシーの許可リスト）は警告しない
+    const trusted = await explain(bytes, createWalletMock(), {
+      suiPolicy: { allowedPackages: [PACKAGE] },
+    });
+    expect(trusted.result?.values?.riskFlags).not.toContain(
+      TxRiskCode.UNKNOWN_PACKAGE,
+    );
+  });
+
+  it("should explain failing and foreign transactions without signing", async () => {
+    // ドライランの失敗、他人が送り主のトランザクション、過大なガス予算をリスクとして示すことを確認
+    const bytes = await serialize((tx) => tx.transferObjects([tx.gas], BOB), {
+      sender: BOB,
+      budget: 90_000_000,
+    });
+    const wallet = createWalletMock();
+    wallet.dryRunTransaction.mockImplementation(async () =>
+      dryRunResult("0", { status: "failure", error: "InsufficientGas" }),
+    );
+    const { result, text } = await explain(bytes, wallet);
+
+    expect(text).toContain(`Transaction from ${BOB} (bob.sui):`);
+    expect(text).toContain("Dry run: would fail (InsufficientGas)");
+    expect(result?.values).toMatchObject({
+      success: true,
+      dryRunSuccess: false,
+    });
+    expect(result?.values?.riskFlags).toEqual(
+      expect.arrayContaining([
+        TxRiskCode.FOREIGN_SENDER,
+        TxRiskCode.HIGH_GAS_BUDGET,
+        TxRiskCode.DRY_RUN_FAILED,
+      ]),
+    );
+  });
+
+  it("should simulate command-only transactions from this wallet", async () => {
+    // 送り主を含まないTransactionKindは、このウォレットから送るものとしてドライランすることを確認
+    const tx = new Transaction();
+    tx.moveCall({ target: "0x2::clock::timestamp_ms", arguments: [] });
+    const bytes = toBase64(await tx.build({ onlyTransactionKind: true }));
+    const { result, text, wallet } = await explain(bytes);
+
+    const [simulated] = wallet.dryRunTransaction.mock.calls[0];
+    expect(simulated.getData().sender).toBe(OWNER);
+    expect(text).toContain(`Transaction from ${OWNER} (this wallet):`);
+    expect(result?.values?.riskFlags).not.toContain(TxRiskCode.UNKNOWN_PACKAGE);
+  });
+
+  it("should ask for the transaction bytes when none were pasted", async () => {
+    // バイト列が無いメッセージはINVALID_TRANSACTIONで失敗し、ドライランしないことを確認
+    const { result, text, wallet } = await explain("explain my transaction");
+    expect(result?.values?.error).toBe("INVALID_TRANSACTION");
+    expect(text).toContain("Could not explain the transaction");
+    expect(wallet.dryRunTransaction).not.toHaveBeenCalled();
+  });
+});
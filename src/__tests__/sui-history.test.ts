@@ -0,0 +1,282 @@
+// Bunのテスト関連モジュール、履歴アクション・プロバイダー、およびRPCスタブをインポート
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { type Memory, type State, logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+  SUI_TX_HISTORY,
+  parseHistoryRequest,
+  suiTransactionHistoryAction,
+} from "../plugins/sui/actions/history";
+import {
+  fetchTransactionHistory,
+  suiTransactionHistoryProvider,
+} from "../plugins/sui/providers/history";
+import { createSuiMessage, startSuiWalletRuntime } from "./test-utils";
+import { startSuiRpcStub, type SuiRpcStub } from "./utils/sui-rpc-stub";
+
+const keypair = new Ed25519Keypair();
+const OWNER = keypair.toSuiAddress();
+const ALICE = `0x${"a".repeat(64)}`;
+const BOB = `0x${"b".repeat(64)}`;
+const PACKAGE = `0x${"c".repeat(64)}`;
+const NOW = Date.UTC(2026, 0, 2, 12, 0, 0);
+const HOUR = 60 * 60 * 1000;
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "1000000",
+  storageRebate: "0",
+  nonRefundableStorageFee: "0",
+};
+
+// フルノードが返すトランザクション応答のフィクスチャを作ります
+function transaction(
+  digest: string,
+  timestampMs: number,
+  sender: string,
+  balanceChanges: { owner: string; amount: string }[],
+  moveCall?: string,
+) {
+  const [pkg, module, fn] = moveCall?.split("::") ?? [];
+  return {
+    digest,
+    timestampMs: String(timestampMs),
+    transaction: {
+      data: {
+        sender,
+        transaction: {
+          kind: "ProgrammableTransaction",
+          inputs: [],
+          transactions: moveCall
+            ? [{ MoveCall: { package: pkg, module, function: fn } }]
+            : [{ TransferObjects: [[], { Input: 0 }] }],
+        },
+      },
+    },
+    effects: { status: { status: "success" }, gasUsed: GAS_USED },
+    balanceChanges: balanceChanges.map((change) => ({
+      owner: { AddressOwner: change.owner },
+      coinType: "0x2::sui::SUI",
+      amount: change.amount,
+    })),
+  };
+}
+
+// 新しい順に並んだ送信・受信のトランザクション
+const SENT = [
+  transaction("SentToday", NOW - 1 * HOUR, OWNER, [
+    { owner: OWNER, amount: "-1502000000" },
+    { owner: ALICE, amount: "1500000000" },
+  ]),
+  transaction(
+    "CallToday",
+    NOW - 3 * HOUR,
+    OWNER,
+    [{ owner: OWNER, amount: "-2000000" }],
+    `${PACKAGE}::board::post`,
+  ),
+  transaction("SentYesterday", NOW - 20 * HOUR, OWNER, [
+    { owner: OWNER, amount: "-102000000" },
+    { owner: BOB, amount: "100000000" },
+  ]),
+];
+const RECEIVED = [
+  transaction("ReceivedToday", NOW - 2 * HOUR, BOB, [
+    { owner: OWNER, amount: "250000000" },
+    { owner: BOB, amount: "-252000000" },
+  ]),
+  transaction("ReceivedOld", NOW - 72 * HOUR, ALICE, [
+    { owner: OWNER, amount: "1000000000" },
+  ]),
+];
+
+// カーソル（ダイジェスト）の次から指定件数を返すページング
+function paginate(list: typeof SENT, cursor: string | null, limit: number) {
+  const start = cursor ? list.findIndex((tx) => tx.digest === cursor) + 1 : 0;
+  const data = list.slice(start, start + limit);
+  const hasNextPage = start + limit < list.length;
+  return {
+    data,
+    nextCursor: data.at(-1)?.digest ?? null,
+    hasNextPage,
+  };
+}
+
+describe("Transaction history", () => {
+  let stub: SuiRpcStub;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+    spyOn(Date, "now").mockImplementation(() => NOW);
+
+    stub = startSuiRpcStub({
+      suix_queryTransactionBlocks: ([query, cursor, limit]) =>
+        paginate(
+          query.filter.FromAddress ? SENT : RECEIVED,
+          cursor ?? null,
+          limit,
+        ),
+      suix_getCoinMetadata: () => ({
+        decimals: 9,
+        symbol: "SUI",
+        name: "Sui",
+        description: "",
+      }),
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+    mock.restore();
+  });
+
+  async function createRuntime() {
+    return startSuiWalletRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+    });
+  }
+
+  it("should parse periods, counts and continuation requests", () => {
+    // 期間・件数・続きの指定が抽出されることを確認
+    const today = Date.UTC(2026, 0, 2);
+    expect(parseHistoryRequest("what did my wallet do today?", NOW)).toEqual({
+      since: today,
+      label: "today",
+      limit: 10,
+      more: false,
+    });
+    expect(parseHistoryRequest("昨日の取引を3件", NOW)).toMatchObject({
+      since: today - 24 * HOUR,
+      until: today,
+      limit: 3,
+    });
+    expect(parseHistoryRequest("past 6 hours", NOW).since).toBe(NOW - 6 * HOUR);
+    expect(parseHistoryRequest("show me more", NOW).more).toBe(true);
+  });
+
+  it("should merge sent and received transactions with a resumable cursor", async () => {
+    // 送信・受信の2系列が時刻順にマージされ、カーソルで続きを取得できることを確認
+    const { service } = await createRuntime();
+    const first = await fetchTransactionHistory(service, { limit: 3 });
+    expect(first.transactions.map((tx) => tx.digest)).toEqual([
+      "SentToday",
+      "ReceivedToday",
+      "CallToday",
+    ]);
+    expect(first.hasNextPage).toBe(true);
+
+    const second = await fetchTransactionHistory(service, {
+      cursor: first.nextCursor,
+      limit: 3,
+    });
+    expect(second.transactions.map((tx) => tx.digest)).toEqual([
+      "SentYesterday",
+      "ReceivedOld",
+    ]);
+    expect(second.hasNextPage).toBe(false);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it("should summarise balance changes, counterparties and Move calls", async () => {
+    // ウォレット自身の残高変化・相手先・Move呼び出しが要約されることを確認
+    const { service } = await createRuntime();
+    const { transactions } = await fetchTransactionHistory(service, {
+      limit: 3,
+    });
+    expect(transactions[0]).toMatchObject({
+      digest: "SentToday",
+      status: "success",
+      gasUsed: "2000000",
+      balanceChanges: [{ symbol: "SUI", amount: "-1.502" }],
+      counterparties: [ALICE],
+      moveCalls: [],
+    });
+    expect(transactions[1].counterparties).toEqual([BOB]);
+    expect(transactions[2].moveCalls).toEqual([`${PACKAGE}::board::post`]);
+  });
+
+  it("should answer 'what did my wallet do today?' and page with 'more'", async () => {
+    // 今日の分だけが返り、データとコールバックの両方に要約が含まれることを確認
+    const { runtime } = await createRuntime();
+    const callback = mock(async () => []);
+    const result = await suiTransactionHistoryAction.handler(
+      runtime,
+      createSuiMessage("What did my wallet do today?"),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+
+    expect(result?.success).toBe(true);
+    expect(result?.data?.actionName).toBe(SUI_TX_HISTORY);
+    expect(
+      (result?.data?.transactions as any[]).map((tx) => tx.digest),
+    ).toEqual(["SentToday", "ReceivedToday", "CallToday"]);
+    expect(result?.data?.nextCursor).toBeNull();
+
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain("Transactions for today");
+    expect(content.text).toContain("Net balance change: -1.254 SUI");
+    expect(content.text).toContain(`Move calls: ${PACKAGE}::board::post`);
+
+    // 件数を絞った場合は「more」で続きを取得できる
+    const firstPage = await suiTransactionHistoryAction.handler(
+      runtime,
+      createSuiMessage("show the last 2 transactions"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(firstPage?.values?.hasNextPage).toBe(true);
+    const nextPage = await suiTransactionHistoryAction.handler(
+      runtime,
+      createSuiMessage("more"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(
+      (nextPage?.data?.transactions as any[]).map((tx) => tx.digest),
+    ).toEqual(["CallToday", "SentYesterday"]);
+  });
+
+  it("should reject a malformed cursor with a typed error", async () => {
+    // 不正なカーソルはINVALID_CURSORになることを確認
+    const { runtime } = await createRuntime();
+    const result = await suiTransactionHistoryAction.handler(
+      runtime,
+      createSuiMessage("history"),
+      undefined,
+      { cursor: "not-a-cursor" },
+      mock(async () => []),
+      [],
+    );
+    expect(result?.success).toBe(false);
+    expect(result?.values?.error).toBe("INVALID_CURSOR");
+  });
+
+  it("should expose recent transactions through the provider", async () => {
+    // プロバイダーが直近のトランザクションを状態に挿入することを確認
+    const { runtime } = await createRuntime();
+    const result = await suiTransactionHistoryProvider.get(
+      runtime,
+      {} as Memory,
+      {} as State,
+    );
+    expect(result.values?.lastTransactionDigest).toBe("SentToday");
+    expect(result.text).toContain("SentToday");
+  });
+});
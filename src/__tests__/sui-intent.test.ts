@@ -0,0 +1,257 @@
+// Bunのテスト関連モジュール、依頼内容の抽出、各アクションの解析関数、およびテスト用ランタイムをインポート
+import { beforeAll, describe, expect, it, mock, spyOn } from "bun:test";
+import { logger } from "@elizaos/core";
+import {
+  historyRequestFromIntent,
+  parseHistoryRequest,
+} from "../plugins/sui/actions/history";
+import {
+  objectListRequestFromIntent,
+  parseObjectListRequest,
+} from "../plugins/sui/actions/objects";
+import {
+  objectTransferRequestFromIntent,
+  parseObjectTransferRequest,
+} from "../plugins/sui/actions/transferObject";
+import {
+  type SuiIntent,
+  type SuiIntentName,
+  extractSuiIntent,
+  groundSuiIntent,
+  resolveSuiRequest,
+} from "../plugins/sui/intent";
+import {
+  moveCallRequestFromIntent,
+  parseMoveCallRequest,
+} from "../plugins/sui/move";
+import {
+  parseStakeRequest,
+  parseUnstakeRequest,
+  stakeRequestFromIntent,
+  unstakeRequestFromIntent,
+} from "../plugins/sui/staking";
+import { parseSwapRequest, swapRequestFromIntent } from "../plugins/sui/swap";
+import {
+  parseTransferRequest,
+  transferRequestFromIntent,
+} from "../plugins/sui/utils";
+import phrasings from "./fixtures/intents/phrasings.json";
+import { createSuiMessage } from "./test-utils";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+// 各アクションが依頼の解析に使う変換関数と正規表現による解析
+const PARSERS: Partial<
+  Record<
+    SuiIntentName,
+    {
+      fromIntent: (intent: SuiIntent) => object;
+      parse: (text: string) => object;
+    }
+  >
+> = {
+  transfer: {
+    fromIntent: transferRequestFromIntent,
+    parse: parseTransferRequest,
+  },
+  swap: { fromIntent: swapRequestFromIntent, parse: parseSwapRequest },
+  stake: { fromIntent: stakeRequestFromIntent, parse: parseStakeRequest },
+  unstake: { fromIntent: unstakeRequestFromIntent, parse: parseUnstakeRequest },
+  history: {
+    fromIntent: (intent) => historyRequestFromIntent(intent),
+    parse: (text) => parseHistoryRequest(text),
+  },
+  list_objects: {
+    fromIntent: objectListRequestFromIntent,
+    parse: parseObjectListRequest,
+  },
+  transfer_object: {
+    fromIntent: objectTransferRequestFromIntent,
+    parse: parseObjectTransferRequest,
+  },
+  move_call: {
+    fromIntent: moveCallRequestFromIntent,
+    parse: parseMoveCallRequest,
+  },
+};
+
+// 指定した応答を順に返すモデルを持つランタイムを作成します
+function createRuntime(
+  replies: string[],
+  settings: Record<string, string> = {},
+) {
+  const runtime = createSuiTestRuntime(settings);
+  const useModel = mock(
+    async (_type: string, _params: { prompt: string }) => replies.shift() ?? "",
+  );
+  Object.assign(runtime, { useModel });
+  return { runtime, useModel };
+}
+
+describe("Sui intent parser", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "debug").mockImplementation(() => {});
+  });
+
+  describe("phrasing fixtures", () => {
+    for (const fixture of phrasings) {
+      it(`should build the request for: ${fixture.name}`, async () => {
+        // 記録したモデルの応答から、アクションが使う依頼が組み立てられることを確認
+        const { runtime, useModel } = createRuntime([fixture.reply]);
+        const message = createSuiMessage(fixture.text, { source: "discord" });
+        const intent = await extractSuiIntent(runtime, message);
+        expect(intent).not.toBeNull();
+        const parser = PARSERS[intent?.intent as SuiIntentName];
+        expect(parser).toBeDefined();
+
+        const { runtime: resolving } = createRuntime([fixture.reply]);
+        const request = await resolveSuiRequest(
+          resolving,
+          message,
+          [intent?.intent as SuiIntentName],
+          parser?.fromIntent as (intent: SuiIntent) => object,
+          parser?.parse as (text: string) => object,
+        );
+        expect(request).toMatchObject(
+          Object.fromEntries(
+            Object.entries(fixture.expected).map(([key, value]) => [
+              key,
+              value ?? undefined,
+            ]),
+          ),
+        );
+        // プロンプトにはメッセージ本文がそのまま含まれる
+        expect(useModel.mock.calls[0][1].prompt).toContain(fixture.text);
+      });
+    }
+  });
+
+  it("should retry with the validation errors until the reply fits the schema", async () => {
+    // JSONでない応答やスキーマに合わない応答の後、理由を添えて再試行することを確認
+    const { runtime, useModel } = createRuntime([
+      "Never gonna give you up, never gonna let you down",
+      JSON.stringify({ intent: "transfer", amount: "lots", all: "yes" }),
+      JSON.stringify({
+        intent: "transfer",
+        amount: "2",
+        coinType: "SUI",
+        recipient: "alice.sui",
+      }),
+    ]);
+    const intent = await extractSuiIntent(
+      runtime,
+      createSuiMessage("send 2 SUI to alice.sui", { source: "discord" }),
+    );
+    expect(intent).toMatchObject({
+      intent: "transfer",
+      amount: "2",
+      recipient: "alice.sui",
+      validator: null,
+      all: false,
+    });
+    expect(useModel).toHaveBeenCalledTimes(3);
+    const prompts = useModel.mock.calls.map(([, params]) => params.prompt);
+    expect(prompts[0]).not.toContain("previous reply was rejected");
+    expect(prompts[1]).toContain("the reply was not a JSON object");
+    expect(prompts[2]).toContain("amount: Must be a decimal number");
+    expect(prompts[2]).toContain("all:");
+  });
+
+  it("should fall back to pattern parsing when the model never fits the schema", async () => {
+    // 既定の3回で諦めて、正規表現による解析結果を使うことを確認
+    const { runtime, useModel } = createRuntime(
+      ["no", "still no", "never", "unused"],
+      { SUI_INTENT_MAX_ATTEMPTS: "3" },
+    );
+    const message = createSuiMessage("send 4 SUI to 0x7d3c9a41", {
+      source: "discord",
+    });
+    expect(await extractSuiIntent(runtime, message)).toBeNull();
+    expect(useModel).toHaveBeenCalledTimes(3);
+
+    const request = await resolveSuiRequest(
+      createRuntime(["no", "no", "no"]).runtime,
+      message,
+      ["transfer"],
+      transferRequestFromIntent,
+      parseTransferRequest,
+    );
+    expect(request).toEqual({
+      recipient: "0x7d3c9a41",
+      amount: "4",
+      coin: "SUI",
+    });
+  });
+
+  it("should ignore the model when it classifies a different intent", async () => {
+    // アクションと異なる種類と判断された場合は、モデルの値を使わないことを確認
+    const { runtime } = createRuntime([
+      JSON.stringify({ intent: "swap", amount: "9", coinType: "USDC" }),
+    ]);
+    const request = await resolveSuiRequest(
+      runtime,
+      createSuiMessage("send 1 SUI to alice.sui", { source: "discord" }),
+      ["transfer"],
+      transferRequestFromIntent,
+      parseTransferRequest,
+    );
+    expect(request).toEqual({
+      recipient: "alice.sui",
+      amount: "1",
+      coin: "SUI",
+    });
+  });
+
+  it("should not call the model when SUI_INTENT_PARSER is regex", async () => {
+    // 正規表現のみの設定ではモデルを呼び出さないことを確認
+    const { runtime, useModel } = createRuntime([], {
+      SUI_INTENT_PARSER: "regex",
+    });
+    expect(
+      await extractSuiIntent(
+        runtime,
+        createSuiMessage("stake 5 SUI with Mysten", { source: "discord" }),
+      ),
+    ).toBeNull();
+    expect(useModel).not.toHaveBeenCalled();
+  });
+
+  it("should fall back when no text model is available", async () => {
+    // モデルが登録されていない場合は再試行せずにnullを返すことを確認
+    const runtime = createSuiTestRuntime();
+    const useModel = mock(async () => {
+      throw new Error("No handler found for delegate type: TEXT_SMALL");
+    });
+    Object.assign(runtime, { useModel });
+    expect(
+      await extractSuiIntent(
+        runtime,
+        createSuiMessage("swap 1 SUI for USDC", { source: "discord" }),
+      ),
+    ).toBeNull();
+    expect(useModel).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only ground amounts that appear as whole numbers", async () => {
+    // 他の数値や16進数のIDの一部として現れるだけの金額は裏付けとみなさないことを確認
+    const intent = { intent: "transfer", amount: "1" } as SuiIntent;
+    for (const text of [
+      "send 10 SUI to alice.sui",
+      "send SUI to 0x1a2b",
+      "pay invoice 2021 in SUI",
+      "send 0.15 SUI to alice.sui",
+    ]) {
+      expect(groundSuiIntent(intent, text).amount).toBeNull();
+    }
+    for (const text of [
+      "send 1 SUI to alice.sui",
+      "alice.suiに１SUIを送って",
+    ]) {
+      expect(groundSuiIntent(intent, text).amount).toBe("1");
+    }
+    expect(
+      groundSuiIntent({ ...intent, amount: "1000" }, "send 1,000 SUI").amount,
+    ).toBe("1000");
+  });
+});
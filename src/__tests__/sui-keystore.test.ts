@@ -0,0 +1,378 @@
+// Bunのテスト関連モジュール、キーストア、鍵の更新アクション、およびRPCスタブをインポート
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type State, type UUID, logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { toBase64 } from "@mysten/sui/utils";
+import {
+  SUI_ROTATE_KEY,
+  suiRotateKeyAction,
+} from "../plugins/sui/actions/rotateKey";
+import { listTransactionAudit } from "../plugins/sui/audit";
+import { keypairToBytes } from "../plugins/sui/keypair";
+import {
+  decryptKey,
+  encryptKey,
+  openKeystore,
+  readKeystore,
+} from "../plugins/sui/keystore";
+import { SuiWalletService } from "../plugins/sui/service";
+import { createSuiMessage } from "./test-utils";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
+
+const PASSPHRASE = "correct horse battery staple";
+// テストを速くするためにscryptのNを小さくする
+const FAST_SCRYPT = { n: 2 ** 10, r: 8, p: 1 };
+const ADMIN = "00000000-0000-0000-0000-00000000ad01" as UUID;
+const USER = "00000000-0000-0000-0000-0000000000b2" as UUID;
+
+// 鍵ペアが内部に保持する秘密鍵のバイト列
+function secretBytes(keypair: Ed25519Keypair): Uint8Array {
+  return (keypair as any).keypair.secretKey;
+}
+
+describe("Encrypted keystore", () => {
+  let dir: string;
+  let stub: SuiRpcStub;
+
+  beforeAll(async () => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+    dir = await mkdtemp(join(tmpdir(), "sui-keystore-"));
+    stub = startSuiRpcStub({
+      suix_getAllBalances: () => [
+        {
+          coinType: "0x2::sui::SUI",
+          coinObjectCount: 1,
+          totalBalance: "2000000000",
+          lockedBalance: {},
+        },
+      ],
+      suix_getCoinMetadata: () => ({
+        decimals: 9,
+        symbol: "SUI",
+        name: "Sui",
+        description: "",
+      }),
+    });
+  });
+
+  afterAll(async () => {
+    stub.stop();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  // sui.keystoreを書き出して、そのパスを返す
+  async function writeSuiCliKeystore(
+    name: string,
+    keypairs: Ed25519Keypair[],
+  ): Promise<string> {
+    const path = join(dir, name);
+    await writeFile(
+      path,
+      JSON.stringify(
+        keypairs.map((keypair) => toBase64(keypairToBytes(keypair))),
+      ),
+    );
+    return path;
+  }
+
+  it("should encrypt a key and decrypt it only with the passphrase", async () => {
+    // 暗号化した鍵に平文の秘密鍵が含まれず、正しいパスフレーズでのみ復号できることを確認
+    const keypair = new Ed25519Keypair();
+    const entry = await encryptKey(keypair, PASSPHRASE, FAST_SCRYPT);
+    expect(entry.address).toBe(keypair.toSuiAddress());
+    expect(JSON.stringify(entry)).not.toContain(
+      Buffer.from(keypairToBytes(keypair)).toString("hex"),
+    );
+
+    const decrypted = await decryptKey(entry, PASSPHRASE);
+    expect(decrypted.getSecretKey()).toBe(keypair.getSecretKey());
+    await expect(decryptKey(entry, "wrong passphrase")).rejects.toMatchObject({
+      code: "KEYSTORE_LOCKED",
+    });
+    // アドレスを書き換えると認証に失敗する
+    await expect(
+      decryptKey(
+        { ...entry, address: new Ed25519Keypair().toSuiAddress() },
+        PASSPHRASE,
+      ),
+    ).rejects.toMatchObject({ code: "KEYSTORE_LOCKED" });
+  });
+
+  it("should import the chosen key from sui.keystore on first start", async () => {
+    // キーストアが無い場合、sui.keystoreから指定アドレスの鍵を取り込んで0600で保存することを確認
+    const [first, second] = [new Ed25519Keypair(), new Ed25519Keypair()];
+    const importPath = await writeSuiCliKeystore("sui.keystore", [
+      first,
+      second,
+    ]);
+    const path = join(dir, "imported", "agent.keystore.json");
+
+    await expect(
+      openKeystore({ path, passphrase: PASSPHRASE }),
+    ).rejects.toMatchObject({ code: "KEYSTORE_UNAVAILABLE" });
+
+    const opened = await openKeystore({
+      path,
+      passphrase: PASSPHRASE,
+      importPath,
+      importAddress: second.toSuiAddress(),
+      scrypt: FAST_SCRYPT,
+    });
+    expect(opened.keypair.toSuiAddress()).toBe(second.toSuiAddress());
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+    expect(await readFile(path, "utf8")).not.toContain(second.getSecretKey());
+
+    // 2回目以降は取り込みをせずに保存済みのキーストアを開く
+    const reopened = await openKeystore({
+      path,
+      passphrase: PASSPHRASE,
+      importPath,
+      importAddress: first.toSuiAddress(),
+    });
+    expect(reopened.keypair.toSuiAddress()).toBe(second.toSuiAddress());
+  });
+
+  it("should unlock the service from the keystore and zeroize keys on stop", async () => {
+    // サービスがキーストアから鍵を読み込み、停止時にメモリ上の鍵とパスフレーズを0で上書きすることを確認
+    const keypair = new Ed25519Keypair();
+    const importPath = await writeSuiCliKeystore("service.keystore", [keypair]);
+    const runtime = createSuiTestRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_KEYSTORE_PATH: join(dir, "service.keystore.json"),
+      SUI_KEYSTORE_PASSPHRASE: PASSPHRASE,
+      SUI_KEYSTORE_IMPORT: importPath,
+    });
+    const service = await SuiWalletService.start(runtime);
+    expect(service.getAddress()).toBe(keypair.toSuiAddress());
+    expect(service.hasKeystore()).toBe(true);
+
+    const loaded = (service as any).keypair as Ed25519Keypair;
+    const passphrase = (service as any).keystorePassphrase as Buffer;
+    await service.stop();
+    expect(service.hasSigner()).toBe(false);
+    expect(secretBytes(loaded).every((byte) => byte === 0)).toBe(true);
+    expect(passphrase.every((byte) => byte === 0)).toBe(true);
+
+    // 誤ったパスフレーズでは起動しない
+    await expect(
+      SuiWalletService.start(
+        createSuiTestRuntime({
+          SUI_RPC_URL: stub.url,
+          SUI_KEYSTORE_PATH: join(dir, "service.keystore.json"),
+          SUI_KEYSTORE_PASSPHRASE: "not the passphrase",
+        }),
+      ),
+    ).rejects.toMatchObject({ code: "KEYSTORE_LOCKED" });
+  });
+
+  describe("SUI_ROTATE_KEY", () => {
+    async function createRuntime() {
+      const previous = new Ed25519Keypair();
+      const importPath = await writeSuiCliKeystore("rotate.keystore", [
+        previous,
+      ]);
+      const path = join(dir, "rotate.keystore.json");
+      await rm(path, { force: true });
+      const runtime = createSuiTestRuntime({
+        SUI_RPC_URL: stub.url,
+        SUI_READ_ONLY: "false",
+        SUI_KEYSTORE_PATH: path,
+        SUI_KEYSTORE_PASSPHRASE: PASSPHRASE,
+        SUI_KEYSTORE_IMPORT: importPath,
+        SUI_ADMIN_ENTITY_IDS: ADMIN,
+      });
+      const service = await SuiWalletService.start(runtime);
+      runtime.services.set(SuiWalletService.serviceType, service);
+      return { runtime, service, previous, path };
+    }
+
+    it("should only be available to admins", async () => {
+      // 管理者以外にはvalidateがfalseになり、直接呼ばれてもNOT_AUTHORIZEDになることを確認
+      const { runtime, service, previous } = await createRuntime();
+      const message = createSuiMessage("rotate the wallet key", {
+        entityId: USER,
+        source: "discord",
+      });
+      expect(
+        await suiRotateKeyAction.validate(runtime, message, {} as State),
+      ).toBe(false);
+      expect(
+        await suiRotateKeyAction.validate(
+          runtime,
+          createSuiMessage("rotate the wallet key", {
+            entityId: ADMIN,
+            source: "discord",
+          }),
+          {} as State,
+        ),
+      ).toBe(true);
+
+      const callback = mock(async () => []);
+      const result = await suiRotateKeyAction.handler(
+        runtime,
+        message,
+        undefined,
+        {},
+        callback,
+        [],
+      );
+      expect(result?.success).toBe(false);
+      expect(result?.values?.error).toBe("NOT_AUTHORIZED");
+      expect(service.getAddress()).toBe(previous.toSuiAddress());
+    });
+
+    it("should rotate the key after confirmation and sweep coins to the new address", async () => {
+      // 確認後に新しい鍵へ切り替えて旧鍵を退役させ、旧アドレスのコインを新しいアドレスへ送ることを確認
+      const { runtime, service, previous, path } = await createRuntime();
+      spyOn(service, "dryRunTransaction").mockResolvedValue({
+        effects: {
+          status: { status: "success" },
+          gasUsed: {
+            computationCost: "1000000",
+            storageCost: "0",
+            storageRebate: "0",
+            nonRefundableStorageFee: "0",
+          },
+        },
+      } as any);
+      const sign = spyOn(service, "signTransaction").mockImplementation(
+        async () => {
+          // 署名は切り替え前の鍵で行う
+          expect(service.getAddress()).toBe(previous.toSuiAddress());
+          return { bytes: "AA==", signature: "signed-by-old-key" };
+        },
+      );
+      const execute = spyOn(
+        service,
+        "executeSignedTransaction",
+      ).mockResolvedValue({
+        digest: "RotateDigest",
+        effects: {
+          status: { status: "success" },
+          gasUsed: {
+            computationCost: "1000000",
+            storageCost: "0",
+            storageRebate: "0",
+            nonRefundableStorageFee: "0",
+          },
+        },
+      } as any);
+      const callback = mock(async () => []);
+
+      const prepared = await suiRotateKeyAction.handler(
+        runtime,
+        createSuiMessage("rotate the wallet key", {
+          entityId: ADMIN,
+          source: "discord",
+        }),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+      expect(prepared?.values?.awaitingConfirmation).toBe(true);
+      expect(prepared?.data?.address).toBe(previous.toSuiAddress());
+      expect(sign).not.toHaveBeenCalled();
+
+      const result = await suiRotateKeyAction.handler(
+        runtime,
+        createSuiMessage("confirm", { entityId: ADMIN, source: "discord" }),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+      expect(result?.success).toBe(true);
+      expect(result?.data?.actionName).toBe(SUI_ROTATE_KEY);
+      const nextAddress = result?.values?.suiAddress;
+      expect(nextAddress).not.toBe(previous.toSuiAddress());
+      expect(service.getAddress()).toBe(nextAddress);
+      expect(service.getRetiredAddresses()).toEqual([previous.toSuiAddress()]);
+      expect(execute).toHaveBeenCalledWith({
+        bytes: "AA==",
+        signature: "signed-by-old-key",
+      });
+      expect(result?.values?.digest).toBe("RotateDigest");
+
+      // 旧アドレスからの移動は、ポリシーの適用除外の理由と移したコインの量と共に監査ログに残る
+      const [entry] = await listTransactionAudit(runtime);
+      expect(entry).toMatchObject({
+        action: SUI_ROTATE_KEY,
+        intent: {
+          recipients: [nextAddress],
+          // 残高2 SUIからドライランのガス代を差し引いた額
+          spends: [
+            {
+              coinType: expect.stringMatching(/::sui::SUI$/),
+              amount: "1999000000",
+              decimals: 9,
+            },
+          ],
+        },
+        decision: { result: "allowed", rule: null },
+        digest: "RotateDigest",
+        outcome: "success",
+      });
+      expect(entry.decision.reason).toContain(
+        "Exempt from the spending policy",
+      );
+
+      // キーストアには新しい鍵と退役した旧鍵の両方が保存される
+      const saved = await readKeystore(path);
+      expect(saved?.active.address).toBe(nextAddress);
+      expect(saved?.retired.map((entry) => entry.address)).toEqual([
+        previous.toSuiAddress(),
+      ]);
+      const retired = await decryptKey(
+        saved?.retired[0] as NonNullable<typeof saved>["retired"][0],
+        PASSPHRASE,
+      );
+      expect(retired.getSecretKey()).toBe(previous.getSecretKey());
+    });
+
+    it("should cancel a pending rotation", async () => {
+      // 確認待ちの鍵の更新を取り消せることを確認
+      const { runtime, service, previous } = await createRuntime();
+      const callback = mock(async () => []);
+      await suiRotateKeyAction.handler(
+        runtime,
+        createSuiMessage("rotate the wallet key", {
+          entityId: ADMIN,
+          source: "discord",
+        }),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+      const result = await suiRotateKeyAction.handler(
+        runtime,
+        createSuiMessage("cancel", { entityId: ADMIN, source: "discord" }),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+      expect(result?.values?.cancelled).toBe(true);
+      expect(service.getAddress()).toBe(previous.toSuiAddress());
+      expect(service.getRetiredAddresses()).toEqual([]);
+    });
+  });
+});
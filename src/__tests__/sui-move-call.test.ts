@@ -0,0 +1,499 @@
+// Bunのテスト関連モジュール、Move呼び出しアクション、およびテスト用ランタイムをインポート
+import {
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { bcs } from "@mysten/sui/bcs";
+import type { SuiMoveNormalizedFunction } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import {
+  SUI_MOVE_CALL,
+  suiMoveCallAction,
+} from "../plugins/sui/actions/moveCall";
+import {
+  coerceMoveArgument,
+  formatMoveType,
+  parseMoveCallRequest,
+} from "../plugins/sui/move";
+import { listTransactionAudit } from "../plugins/sui/audit";
+import { SuiWalletService } from "../plugins/sui/service";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const PACKAGE = `0x${"c".repeat(64)}`;
+const BOARD = `0x${"d".repeat(64)}`;
+const ALICE = `0x${"e".repeat(64)}`;
+
+// board::post(&mut Board, String, u64, vector<u8>, &mut TxContext)
+const POST_FUNCTION: SuiMoveNormalizedFunction = {
+  isEntry: true,
+  visibility: "Public",
+  typeParameters: [],
+  return: [],
+  parameters: [
+    {
+      MutableReference: {
+        Struct: {
+          address: PACKAGE,
+          module: "board",
+          name: "Board",
+          typeArguments: [],
+        },
+      },
+    },
+    {
+      Struct: {
+        address: "0x1",
+        module: "string",
+        name: "String",
+        typeArguments: [],
+      },
+    },
+    "U64",
+    { Vector: "U8" },
+    {
+      MutableReference: {
+        Struct: {
+          address: "0x2",
+          module: "tx_context",
+          name: "TxContext",
+          typeArguments: [],
+        },
+      },
+    },
+  ],
+};
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "2000000",
+  storageRebate: "500000",
+  nonRefundableStorageFee: "0",
+};
+
+// Move呼び出しアクションが利用するメソッドだけを持つウォレットサービスのモック
+function createWalletMock(config: Record<string, unknown> = {}) {
+  const nameResolver = createFakeNameResolver({ "alice.sui": ALICE });
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => config,
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getCoinMetadata: mock(async () => null),
+    getMoveFunction: mock(async () => POST_FUNCTION),
+    dryRunTransaction: mock(async (_tx: Transaction) => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: "0x2::sui::SUI",
+          amount: "-2500000",
+        },
+      ],
+    })),
+    signAndExecuteTransaction: mock(async (_tx: Transaction) => ({
+      digest: "MoveDigest123",
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+    })),
+  };
+}
+
+describe("Move call parsing and coercion", () => {
+  it("should extract target, type arguments and arguments", () => {
+    // 呼び出し先・型引数・引数（引用符やリストを含む）が抽出されることを確認
+    const request = parseMoveCallRequest(
+      `please call ${PACKAGE}::pool::swap<0x2::sui::SUI, u64>(${BOARD}, "a, b", [1, 2], 5)`,
+    );
+    expect(request).toEqual({
+      target: `${PACKAGE}::pool::swap`,
+      typeArguments: ["0x2::sui::SUI", "u64"],
+      arguments: [BOARD, "a, b", ["1", "2"], "5"],
+    });
+  });
+
+  it("should return an empty request when no target is present", () => {
+    // 呼び出し先が無い場合は未定義のまま返すことを確認
+    expect(parseMoveCallRequest("call something").target).toBeUndefined();
+  });
+
+  it("should encode pure arguments with the parameter's BCS type", () => {
+    // 引数の型に合わせてBCSエンコードされることを確認
+    const u64 = coerceMoveArgument("U64", "42", []);
+    expect(u64).toMatchObject({ kind: "pure", type: "u64" });
+    if (u64.kind === "pure") {
+      expect(bcs.u64().parse(fromBase64(u64.bytes))).toBe("42");
+    }
+
+    const text = coerceMoveArgument(
+      {
+        Struct: {
+          address: "0x1",
+          module: "string",
+          name: "String",
+          typeArguments: [],
+        },
+      },
+      "hello",
+      [],
+    );
+    if (text.kind === "pure") {
+      expect(bcs.string().parse(fromBase64(text.bytes))).toBe("hello");
+    }
+
+    const option = coerceMoveArgument(
+      {
+        Struct: {
+          address: "0x1",
+          module: "option",
+          name: "Option",
+          typeArguments: ["Bool"],
+        },
+      },
+      "none",
+      [],
+    );
+    expect(option).toMatchObject({ kind: "pure", type: "option<bool>" });
+
+    // 型パラメータにプリミティブ型を当てはめた場合もpureとして扱う
+    expect(
+      coerceMoveArgument({ Vector: { TypeParameter: 0 } }, ["1", "2"], ["u8"]),
+    ).toMatchObject({ kind: "pure", type: "vector<u8>" });
+  });
+
+  it("should pass struct parameters as object IDs", () => {
+    // 構造体への参照はオブジェクトIDとして渡されることを確認
+    expect(coerceMoveArgument(POST_FUNCTION.parameters[0], "0xd", [])).toEqual({
+      kind: "object",
+      objectId: `0x${"0".repeat(63)}d`,
+    });
+    expect(formatMoveType(POST_FUNCTION.parameters[0])).toBe(
+      `&mut ${PACKAGE}::board::Board`,
+    );
+  });
+
+  it("should reject values that do not match the parameter type", () => {
+    // 型に合わない値や範囲外の値がINVALID_ARGUMENTになることを確認
+    expect(() => coerceMoveArgument("U8", "256", [])).toThrow("fits in u8");
+    expect(() => coerceMoveArgument("Bool", "maybe", [])).toThrow(
+      "true or false",
+    );
+    expect(() => coerceMoveArgument("Address", "alice", [])).toThrow(
+      "an address",
+    );
+    expect(() =>
+      coerceMoveArgument(POST_FUNCTION.parameters[0], "board", []),
+    ).toThrow("object ID");
+  });
+});
+
+describe("SUI_MOVE_CALL action", () => {
+  let runtime: ReturnType<typeof createSuiTestRuntime>;
+  let wallet: ReturnType<typeof createWalletMock>;
+  const request = `Call ${PACKAGE}::board::post(${BOARD}, "gm", 7, "hi")`;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    wallet = createWalletMock();
+    runtime = createSuiWalletRuntime(wallet);
+  });
+
+  it("should fetch the signature, dry-run and wait for confirmation", async () => {
+    // 1通目ではシグネチャ取得とドライランのみ行い、署名しないことを確認
+    const callback = mock(async () => []);
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+
+    expect(result?.success).toBe(true);
+    expect(result?.values?.awaitingConfirmation).toBe(true);
+    expect(wallet.getMoveFunction).toHaveBeenCalledWith(
+      PACKAGE,
+      "board",
+      "post",
+    );
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    // TxContextを除いた4つの引数でmoveCallが構築されていることを確認
+    const [tx] = wallet.dryRunTransaction.mock.calls[0];
+    const [command] = tx.getData().commands;
+    expect(command.MoveCall?.function).toBe("post");
+    expect(command.MoveCall?.arguments).toHaveLength(4);
+
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(`Call ${PACKAGE}::board::post`);
+    expect(content.text).toContain("Estimated gas: 0.0025 SUI");
+  });
+
+  it("should execute after the user confirms", async () => {
+    // 確認の返信で署名・実行され、ダイジェストが返ることを確認
+    await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage("yes"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+
+    // 署名直前にドライランし直す
+    expect(wallet.dryRunTransaction).toHaveBeenCalledTimes(2);
+    expect(wallet.signAndExecuteTransaction).toHaveBeenCalledTimes(1);
+    expect(result?.data).toMatchObject({
+      actionName: SUI_MOVE_CALL,
+      digest: "MoveDigest123",
+      target: `${PACKAGE}::board::post`,
+      gasUsed: "2500000",
+    });
+  });
+
+  it("should dry-run again before signing and refuse a larger spend", async () => {
+    // 確認後にオンチェーンの状態が変わって支出が増えた場合は署名せず、監査ログに拒否として残すことを確認
+    await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    wallet.dryRunTransaction.mockImplementationOnce(async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: "0x2::sui::SUI",
+          amount: "-1002500000",
+        },
+      ],
+    }));
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage("yes"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+
+    expect(wallet.dryRunTransaction).toHaveBeenCalledTimes(2);
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+    expect(result?.values?.error).toBe("SPEND_INCREASED");
+    expect(result?.text).toContain(
+      "It now spends 1 SUI, more than the 0 SUI that was confirmed",
+    );
+    const [entry] = await listTransactionAudit(runtime);
+    expect(entry).toMatchObject({
+      outcome: "refused",
+      decision: { result: "denied", rule: "SPEND_INCREASED" },
+    });
+  });
+
+  it("should resolve SuiNS names passed as address arguments", async () => {
+    // address型の引数に渡した名前が解決後のアドレスとしてエンコードされることを確認
+    wallet.getMoveFunction.mockImplementationOnce(async () => ({
+      ...POST_FUNCTION,
+      parameters: ["Address", "U64"],
+    }));
+    const callback = mock(async () => []);
+    await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(`Call ${PACKAGE}::board::tip(alice.sui, 5)`),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(`Arguments: "${ALICE}", "5"`);
+    const [tx] = wallet.dryRunTransaction.mock.calls[0];
+    const [recipient] = tx.getData().inputs;
+    expect(bcs.Address.parse(fromBase64(recipient.Pure?.bytes ?? ""))).toBe(
+      ALICE,
+    );
+
+    wallet.getMoveFunction.mockImplementationOnce(async () => ({
+      ...POST_FUNCTION,
+      parameters: ["Address", "U64"],
+    }));
+    const unknown = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(`Call ${PACKAGE}::board::tip(nobody.sui, 5)`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(unknown?.values?.error).toBe("NAME_NOT_FOUND");
+  });
+
+  it("should report a wrong number of arguments with the expected signature", async () => {
+    // 引数の数が合わない場合は期待するシグネチャを含むエラーになることを確認
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(`Call ${PACKAGE}::board::post(${BOARD}, "gm")`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("INVALID_ARGUMENT");
+    expect(result?.text).toContain("expects 4 argument(s)");
+    expect(wallet.dryRunTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should refuse functions that are not callable from a transaction", async () => {
+    // publicでもentryでもない関数は拒否されることを確認
+    wallet.getMoveFunction.mockImplementationOnce(async () => ({
+      ...POST_FUNCTION,
+      isEntry: false,
+      visibility: "Friend",
+    }));
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("INVALID_MOVE_TARGET");
+  });
+
+  it("should treat new object owners as recipients", async () => {
+    // オブジェクトを第三者に渡すMove呼び出しは、その所有者を受取人として拒否リストで確認することを確認
+    (runtime.character.settings as Record<string, unknown>).suiPolicy = {
+      deniedRecipients: [ALICE],
+    };
+    wallet.dryRunTransaction.mockImplementationOnce(async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [],
+      objectChanges: [
+        {
+          type: "transferred",
+          sender: OWNER,
+          recipient: { AddressOwner: ALICE },
+          objectType: `${PACKAGE}::board::Ticket`,
+          objectId: BOARD,
+          version: "2",
+          digest: "ObjectDigest",
+        },
+      ],
+    }));
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("RECIPIENT_DENIED");
+  });
+
+  it("should require approval when the recipients cannot be determined", async () => {
+    // 資産が出ていくのに受け取るアドレスが分からないMove呼び出しは、しきい値に関係なく承認キューに回すことを確認
+    const spendToPool = async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: "0x2::sui::SUI",
+          amount: "-1002500000",
+        },
+      ],
+      objectChanges: [
+        {
+          type: "mutated",
+          sender: OWNER,
+          owner: { Shared: { initial_shared_version: "1" } },
+          objectType: `${PACKAGE}::board::Board`,
+          objectId: BOARD,
+          version: "3",
+          previousVersion: "2",
+          digest: "ObjectDigest",
+        },
+      ],
+    });
+    wallet.dryRunTransaction.mockImplementation(spendToPool);
+    const callback = mock(async () => []);
+    await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(
+      "the dry run does not show which address receives them; an operator must approve it",
+    );
+
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage("yes"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.awaitingApproval).toBe(true);
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should enforce the per-transaction spending limit on the dry-run outflow", async () => {
+    // ガス代を除いたSUIの支出が上限を超えると拒否されることを確認
+    wallet = createWalletMock({ SUI_MAX_SPEND_PER_TX: "1" });
+    wallet.dryRunTransaction.mockImplementationOnce(async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: "0x2::sui::SUI",
+          amount: "-2002500000",
+        },
+      ],
+    }));
+    runtime.services.set(SuiWalletService.serviceType, wallet);
+
+    const result = await suiMoveCallAction.handler(
+      runtime,
+      createSuiMessage(request),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("SPENDING_LIMIT_EXCEEDED");
+  });
+});
@@ -0,0 +1,295 @@
+// Bunのテスト関連モジュール、SuiNSリゾルバー、送金系アクション、プロバイダー、およびテスト用の名簿をインポート
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { type State, logger } from "@elizaos/core";
+import type { Transaction } from "@mysten/sui/transactions";
+import { fromBase64, toHex } from "@mysten/sui/utils";
+import { suiTransferAction } from "../plugins/sui/actions/transfer";
+import { parseObjectTransferRequest } from "../plugins/sui/actions/transferObject";
+import {
+  SuiNameResolver,
+  formatAddress,
+  isSuiName,
+  resolveRecipient,
+} from "../plugins/sui/names";
+import { suiTransactionHistoryProvider } from "../plugins/sui/providers/history";
+import { suiPortfolioProvider } from "../plugins/sui/providers/portfolio";
+import { SuiWalletService } from "../plugins/sui/service";
+import { parseTransferRequest } from "../plugins/sui/utils";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameRegistry } from "./utils/fake-name-registry";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const ALICE = `0x${"b".repeat(64)}`;
+const BOB = `0x${"d".repeat(64)}`;
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "2000000",
+  storageRebate: "500000",
+  nonRefundableStorageFee: "0",
+};
+
+// 名前解決と送金・残高・履歴に必要なメソッドだけを持つウォレットサービスのモック
+function createWalletMock(
+  registry = createFakeNameRegistry({
+    "agent.sui": OWNER,
+    "alice.sui": ALICE,
+  }),
+) {
+  const nameResolver = new SuiNameResolver(registry, 60_000);
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => ({ SUI_PORTFOLIO_TTL_MS: 60_000 }),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getPriceSources: () => [],
+    getBalances: mock(async () => [
+      { coinType: "0x2::sui::SUI", totalBalance: "5000000000" },
+    ]),
+    getBalance: mock(async () => ({
+      coinType: "0x2::sui::SUI",
+      totalBalance: "5000000000",
+    })),
+    getCoinMetadata: mock(async () => ({ decimals: 9, symbol: "SUI" })),
+    queryTransactions: mock(async (query: any) => ({
+      data:
+        "ToAddress" in query.filter
+          ? [
+              {
+                digest: "ReceivedDigest",
+                timestampMs: "1767225600000",
+                transaction: { data: { sender: BOB } },
+                effects: { status: { status: "success" }, gasUsed: GAS_USED },
+                balanceChanges: [
+                  {
+                    owner: { AddressOwner: OWNER },
+                    coinType: "0x2::sui::SUI",
+                    amount: "1000000000",
+                  },
+                ],
+              },
+            ]
+          : [
+              {
+                digest: "SentDigest",
+                timestampMs: "1767225500000",
+                transaction: { data: { sender: OWNER } },
+                effects: { status: { status: "success" }, gasUsed: GAS_USED },
+                balanceChanges: [
+                  {
+                    owner: { AddressOwner: ALICE },
+                    coinType: "0x2::sui::SUI",
+                    amount: "2000000000",
+                  },
+                ],
+              },
+            ],
+      nextCursor: null,
+      hasNextPage: false,
+    })),
+    dryRunTransaction: mock(async (_tx: Transaction) => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [],
+    })),
+    signAndExecuteTransaction: mock(async (_tx: Transaction) => ({
+      digest: "NameDigest",
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+    })),
+  };
+}
+
+describe("SuiNS name resolution", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should extract SuiNS names as recipients", () => {
+    // 送金・オブジェクト送付の送り先として名前を抽出し、金額やシンボルと混同しないことを確認
+    expect(parseTransferRequest("send 1.5 SUI to alice.sui")).toEqual({
+      recipient: "alice.sui",
+      amount: "1.5",
+      coin: "SUI",
+    });
+    expect(parseTransferRequest("pay @alice 2 SUI.").recipient).toBe("@alice");
+    expect(parseTransferRequest("send 3 to pay.alice.sui.")).toMatchObject({
+      recipient: "pay.alice.sui",
+      amount: "3",
+    });
+    expect(parseTransferRequest("mail bob@example.com 1 SUI").recipient).toBe(
+      undefined,
+    );
+    expect(parseObjectTransferRequest("send Capy #12 to alice.sui")).toEqual({
+      object: "Capy #12",
+      recipient: "alice.sui",
+    });
+    expect(parseObjectTransferRequest("Capy #12をalice.suiに送って")).toEqual({
+      object: "Capy #12",
+      recipient: "alice.sui",
+    });
+    expect(isSuiName("alice.sui")).toBe(true);
+    expect(isSuiName(ALICE)).toBe(false);
+  });
+
+  it("should cache forward and reverse lookups including misses", async () => {
+    // 正引き・逆引きの結果（未登録も含む）がキャッシュされ、レジストリの差し替えで破棄されることを確認
+    const registry = createFakeNameRegistry({ "alice.sui": ALICE });
+    const resolver = new SuiNameResolver(registry, 60_000);
+
+    expect(await resolver.resolveName("Alice.sui")).toBe(ALICE);
+    expect(await resolver.resolveName("@alice")).toBe(ALICE);
+    expect(await resolver.resolveName("nobody.sui")).toBeNull();
+    expect(await resolver.resolveName("nobody.sui")).toBeNull();
+    expect(await resolver.lookupAddresses([ALICE, BOB, ALICE])).toEqual({
+      [ALICE]: "alice.sui",
+    });
+    expect(await resolver.lookupAddress(ALICE)).toBe("alice.sui");
+    expect(registry.calls).toEqual([
+      { method: "resolveName", value: "alice.sui" },
+      { method: "resolveName", value: "nobody.sui" },
+      { method: "resolveAddress", value: ALICE },
+      { method: "resolveAddress", value: BOB },
+    ]);
+
+    const replacement = createFakeNameRegistry({ "alice.sui": BOB });
+    resolver.setRegistry(replacement);
+    expect(await resolver.resolveName("alice.sui")).toBe(BOB);
+
+    // 有効期間0ならキャッシュせず毎回問い合わせる
+    const uncached = new SuiNameResolver(registry, 0);
+    await uncached.resolveName("alice.sui");
+    await uncached.resolveName("alice.sui");
+    expect(
+      registry.calls.filter((call) => call.method === "resolveName"),
+    ).toHaveLength(4);
+  });
+
+  it("should treat reverse lookup failures as unnamed", async () => {
+    // 逆引きの失敗は表示を妨げず、名前なしとして扱うことを確認
+    const registry = createFakeNameRegistry();
+    registry.resolveAddress = async () => {
+      throw new Error("registry offline");
+    };
+    const resolver = new SuiNameResolver(registry, 60_000);
+    expect(await resolver.lookupAddress(ALICE)).toBeNull();
+    expect(formatAddress(ALICE, await resolver.lookupAddresses([ALICE]))).toBe(
+      ALICE,
+    );
+  });
+
+  it("should resolve recipients and reject unknown names", async () => {
+    // 名前は正引き、アドレスは逆引きされ、未登録の名前はNAME_NOT_FOUNDになることを確認
+    const service = createWalletMock() as unknown as SuiWalletService;
+    expect(await resolveRecipient(service, "alice.sui")).toEqual({
+      address: ALICE,
+      name: "alice.sui",
+    });
+    expect(await resolveRecipient(service, BOB)).toEqual({
+      address: BOB,
+      name: null,
+    });
+    await expect(resolveRecipient(service, "nobody.sui")).rejects.toMatchObject(
+      { code: "NAME_NOT_FOUND" },
+    );
+    await expect(resolveRecipient(service, undefined)).rejects.toMatchObject({
+      code: "INVALID_RECIPIENT",
+    });
+  });
+
+  it("should send to the address a name resolves to", async () => {
+    // 名前で指定した送金が解決後のアドレスに送られ、確認内容に名前が併記されることを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiTransferAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    const prepared = await send("Send 1.5 SUI to alice.sui");
+    expect(prepared?.data?.recipient).toBe(ALICE);
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(`Transfer 1.5 SUI to ${ALICE} (alice.sui)`);
+
+    const executed = await send("confirm");
+    expect(executed?.text).toBe(`Transferred 1.5 SUI to ${ALICE} (alice.sui)`);
+    const [signed] = wallet.signAndExecuteTransaction.mock.calls[0];
+    const pureAddresses = signed
+      .getData()
+      .inputs.flatMap((input) =>
+        input.Pure ? [`0x${toHex(fromBase64(input.Pure.bytes))}`] : [],
+      );
+    expect(pureAddresses).toContain(ALICE);
+
+    const unknown = await send("Send 1 SUI to nobody.sui");
+    expect(unknown?.values?.error).toBe("NAME_NOT_FOUND");
+    expect(wallet.dryRunTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it("should apply the spending policy to the resolved address", async () => {
+    // 拒否リストは名前ではなく解決後のアドレスに対して評価されることを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    runtime.character.settings = { suiPolicy: { deniedRecipients: [ALICE] } };
+    const result = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage("send 1 SUI to alice.sui"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("RECIPIENT_DENIED");
+    expect(wallet.dryRunTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should show reverse-resolved names next to addresses in providers", async () => {
+    // プロバイダーのテキストでウォレットと相手先のアドレスに名前が併記されることを確認
+    const runtime = createSuiTestRuntime();
+    runtime.services.set(SuiWalletService.serviceType, createWalletMock());
+
+    const portfolio = await suiPortfolioProvider.get(
+      runtime,
+      createSuiMessage("hi"),
+      {} as State,
+    );
+    expect(portfolio.text).toContain(`Sui wallet ${OWNER} (agent.sui) holds:`);
+    expect(portfolio.values?.suiName).toBe("agent.sui");
+
+    const history = await suiTransactionHistoryProvider.get(
+      runtime,
+      createSuiMessage("hi"),
+      {} as State,
+    );
+    expect(history.text).toContain(
+      `Recent transactions for Sui wallet ${OWNER} (agent.sui):`,
+    );
+    expect(history.text).toContain(`with ${ALICE} (alice.sui)`);
+    expect(history.text).toContain(`with ${BOB};`);
+  });
+});
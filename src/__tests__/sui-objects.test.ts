@@ -0,0 +1,301 @@
+// Bunのテスト関連モジュール、オブジェクト一覧・送付のアクションとプロバイダー、およびテスト用ランタイムをインポート
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { type State, logger } from "@elizaos/core";
+import type { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import {
+  SUI_LIST_OBJECTS,
+  parseObjectListRequest,
+  suiListObjectsAction,
+} from "../plugins/sui/actions/objects";
+import {
+  SUI_TRANSFER_OBJECT,
+  parseObjectTransferRequest,
+  suiTransferObjectAction,
+} from "../plugins/sui/actions/transferObject";
+import {
+  matchesStructType,
+  suiOwnedObjectsProvider,
+} from "../plugins/sui/providers/objects";
+import { SuiWalletService } from "../plugins/sui/service";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const RECIPIENT = `0x${"b".repeat(64)}`;
+const PACKAGE = `0x${"c".repeat(64)}`;
+const CAPY_TYPE = `${PACKAGE}::capy::Capy`;
+const TICKET_TYPE = `${PACKAGE}::event::Ticket`;
+const CAPY_12 = `0x${"1".repeat(64)}`;
+const CAPY_13 = `0x${"2".repeat(64)}`;
+const TICKET = `0x${"3".repeat(64)}`;
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "2000000",
+  storageRebate: "1500000",
+  nonRefundableStorageFee: "0",
+};
+
+// getOwnedObjectsの応答に含まれるオブジェクト1件
+function ownedObject(
+  objectId: string,
+  type: string,
+  display: Record<string, string> | null,
+) {
+  return {
+    data: {
+      objectId,
+      version: "1",
+      digest: "11111111111111111111111111111111",
+      type,
+      display: display ? { data: display, error: null } : undefined,
+    },
+  };
+}
+
+const OBJECTS = [
+  ownedObject(CAPY_12, CAPY_TYPE, {
+    name: "Capy #12",
+    description: "A friendly capybara",
+    image_url: "https://capy.test/12.png",
+  }),
+  ownedObject(TICKET, TICKET_TYPE, null),
+  ownedObject(CAPY_13, CAPY_TYPE, {
+    name: "Capy #13",
+    description: "",
+    image_url: "https://capy.test/13.png",
+  }),
+];
+
+// オブジェクトの一覧・送付に必要なメソッドだけを持つウォレットサービスのモック
+function createWalletMock(hasNextPage = false) {
+  const nameResolver = createFakeNameResolver({ "alice.sui": RECIPIENT });
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => ({ SUI_PORTFOLIO_TTL_MS: 60_000 }),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getCoinMetadata: mock(async () => null),
+    getOwnedObjects: mock(async (_query: any) => ({
+      data: OBJECTS,
+      nextCursor: hasNextPage ? CAPY_13 : null,
+      hasNextPage,
+    })),
+    getObject: mock(async (id: string) => ({
+      data: {
+        ...OBJECTS.find((object) => object.data.objectId === id)?.data,
+        owner: { AddressOwner: OWNER },
+      },
+    })),
+    dryRunTransaction: mock(async (_tx: Transaction) => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [],
+    })),
+    signAndExecuteTransaction: mock(async (_tx: Transaction) => ({
+      digest: "ObjectDigest",
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+    })),
+  };
+}
+
+describe("Owned objects", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should parse type filters and transfer targets", () => {
+    // 型の絞り込み、送るオブジェクトと送付先が抽出されることを確認
+    expect(
+      parseObjectListRequest("show my objects of type capy::Capy"),
+    ).toEqual({ structType: "capy::Capy", limit: 20, more: false });
+    expect(parseObjectListRequest(`list 5 NFTs ${CAPY_TYPE}`)).toMatchObject({
+      structType: CAPY_TYPE,
+      limit: 5,
+    });
+    expect(parseObjectListRequest("Capy型のNFTを見せて").structType).toBe(
+      "Capy",
+    );
+    expect(
+      parseObjectTransferRequest(`send my Capy #12 NFT to ${RECIPIENT}`),
+    ).toEqual({ object: "Capy #12", recipient: RECIPIENT });
+    expect(
+      parseObjectTransferRequest(`transfer ${CAPY_12} to ${RECIPIENT}`),
+    ).toEqual({ object: CAPY_12, recipient: RECIPIENT });
+    expect(
+      parseObjectTransferRequest(`「Capy #13」を${RECIPIENT}に送って`),
+    ).toEqual({ object: "Capy #13", recipient: RECIPIENT });
+  });
+
+  it("should match full, module-qualified and bare struct types", () => {
+    // 完全な型・module::Name・Nameのいずれでも一致を判定できることを確認
+    expect(matchesStructType(CAPY_TYPE, CAPY_TYPE)).toBe(true);
+    expect(matchesStructType(CAPY_TYPE, "capy::Capy")).toBe(true);
+    expect(matchesStructType(CAPY_TYPE, "Capy")).toBe(true);
+    expect(matchesStructType(CAPY_TYPE, "Ticket")).toBe(false);
+    expect(
+      matchesStructType(
+        normalizeStructTag("0x2::coin::Coin<0x2::sui::SUI>"),
+        "0x2::coin::Coin",
+      ),
+    ).toBe(true);
+  });
+
+  it("should group objects by type with Display metadata and page with more", async () => {
+    // 型ごとにまとめてDisplayの名前・説明・画像を表示し、「more」で続きを取得することを確認
+    const wallet = createWalletMock(true);
+    const runtime = createSuiWalletRuntime(wallet);
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiListObjectsAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    const first = await send("What NFTs do I have?");
+    expect(first?.data?.actionName).toBe(SUI_LIST_OBJECTS);
+    expect(first?.text).toContain(
+      `${CAPY_TYPE} (2)\n- Capy #12 (${CAPY_12}) — A friendly capybara; image: https://capy.test/12.png\n- Capy #13 (${CAPY_13}) — image: https://capy.test/13.png\n${TICKET_TYPE} (1)\n- ${TICKET}`,
+    );
+    expect(first?.text).toContain('Say "more" to see more objects.');
+    // 既定ではコインを除外する
+    expect(wallet.getOwnedObjects.mock.calls[0][0].filter).toEqual({
+      MatchNone: [{ StructType: "0x2::coin::Coin" }],
+    });
+
+    await send("more");
+    expect(wallet.getOwnedObjects.mock.calls[1][0].cursor).toBe(CAPY_13);
+  });
+
+  it("should filter by struct type on the node or after fetching", async () => {
+    // 完全な型はRPCの絞り込みに渡し、短い型は取得後に絞り込むことを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    const send = (text: string) =>
+      suiListObjectsAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        mock(async () => []),
+        [],
+      );
+
+    await send(`show objects of type ${CAPY_TYPE}`);
+    expect(wallet.getOwnedObjects.mock.calls[0][0].filter).toEqual({
+      StructType: CAPY_TYPE,
+    });
+
+    const tickets = await send("show objects of type event::Ticket");
+    expect(tickets?.values?.objectCount).toBe(1);
+    expect(tickets?.text).toContain(
+      `Objects of type event::Ticket owned by Sui wallet ${OWNER}:`,
+    );
+  });
+
+  it("should summarize owned object types in agent state", async () => {
+    // プロバイダーが型ごとの件数と名前の例を状態に挿入することを確認
+    const runtime = createSuiTestRuntime();
+    runtime.services.set(SuiWalletService.serviceType, createWalletMock());
+    const result = await suiOwnedObjectsProvider.get(
+      runtime,
+      createSuiMessage("hi"),
+      {} as State,
+    );
+    expect(result.values?.ownedObjectCount).toBe(3);
+    expect(result.text).toContain(
+      `- 2 × ${CAPY_TYPE} (e.g. Capy #12, Capy #13)`,
+    );
+  });
+
+  it("should transfer a named NFT after confirmation", async () => {
+    // 名前で指定したNFTの送付内容が提示され、確認後に署名・送信されることを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiTransferObjectAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    const prepared = await send(`Send Capy #12 to ${RECIPIENT}`);
+    expect(prepared?.values?.awaitingConfirmation).toBe(true);
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(
+      `Transfer Capy #12 (${CAPY_12}) to ${RECIPIENT}`,
+    );
+    expect(content.text).toContain(`Type: ${CAPY_TYPE}`);
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    const executed = await send("confirm");
+    expect(executed?.data?.actionName).toBe(SUI_TRANSFER_OBJECT);
+    expect(executed?.data?.objectId).toBe(CAPY_12);
+    const [signed] = wallet.signAndExecuteTransaction.mock.calls[0];
+    const data = signed.getData();
+    expect(data.commands[0].$kind).toBe("TransferObjects");
+    expect(data.inputs[0].UnresolvedObject?.objectId).toBe(CAPY_12);
+  });
+
+  it("should refuse ambiguous names, foreign objects and denied recipients", async () => {
+    // 曖昧な名前・他人のオブジェクトはOBJECT_NOT_FOUND、拒否リストの送付先はRECIPIENT_DENIEDになることを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    const run = (text: string) =>
+      suiTransferObjectAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        mock(async () => []),
+        [],
+      );
+
+    const ambiguous = await run(`send Capy to ${RECIPIENT}`);
+    expect(ambiguous?.values?.error).toBe("OBJECT_NOT_FOUND");
+    expect(ambiguous?.text).toContain("matches several objects");
+
+    wallet.getObject.mockImplementationOnce(async () => ({
+      data: {
+        ...OBJECTS[1].data,
+        owner: { AddressOwner: RECIPIENT },
+      },
+    }));
+    const foreign = await run(`transfer ${TICKET} to ${RECIPIENT}`);
+    expect(foreign?.values?.error).toBe("OBJECT_NOT_FOUND");
+
+    runtime.character.settings = {
+      suiPolicy: { deniedRecipients: [RECIPIENT] },
+    };
+    const denied = await run(`send Capy #12 to ${RECIPIENT}`);
+    expect(denied?.values?.error).toBe("RECIPIENT_DENIED");
+    expect(wallet.dryRunTransaction).not.toHaveBeenCalled();
+  });
+});
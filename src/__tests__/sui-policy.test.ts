@@ -0,0 +1,334 @@
+// Bunのテスト関連モジュール、支出ポリシー、およびテスト用ランタイムをインポート
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { suiTransferAction } from "../plugins/sui/actions/transfer";
+import {
+  DAILY_WINDOW_MS,
+  type SpendIntent,
+  enforceSpendingPolicy,
+  getDailySpent,
+  parseSpendingPolicy,
+  recordSpending,
+  reserveSpending,
+  spendIntentFromBalanceChanges,
+} from "../plugins/sui/policy";
+import { SUI_COIN_TYPE } from "../plugins/sui/utils";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const ALICE = `0x${"b".repeat(64)}`;
+const MALLORY = `0x${"e".repeat(64)}`;
+const PACKAGE = `0x${"c".repeat(64)}`;
+const USDC = `0x${"d".repeat(64)}::usdc::USDC`;
+
+// ポリシーが参照するメソッドだけを持つウォレットサービスのモック
+function createWalletMock(config: Record<string, unknown> = {}) {
+  const nameResolver = createFakeNameResolver();
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => config,
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getCoinMetadata: mock(async () => ({ decimals: 6, symbol: "USDC" })),
+    getBalance: mock(async () => ({ totalBalance: "100000000000" })),
+    getBalances: mock(async () => []),
+    dryRunTransaction: mock(async () => ({
+      effects: {
+        status: { status: "success" },
+        gasUsed: {
+          computationCost: "1000000",
+          storageCost: "0",
+          storageRebate: "0",
+          nonRefundableStorageFee: "0",
+        },
+      },
+      balanceChanges: [],
+    })),
+    signAndExecuteTransaction: mock(async () => ({
+      digest: "PolicyDigest",
+      effects: {
+        status: { status: "success" },
+        gasUsed: {
+          computationCost: "1000000",
+          storageCost: "0",
+          storageRebate: "0",
+          nonRefundableStorageFee: "0",
+        },
+      },
+    })),
+  };
+}
+
+function suiSpend(amount: string, recipient = ALICE): SpendIntent {
+  return {
+    action: "SUI_TRANSFER",
+    recipients: [recipient],
+    spends: [{ coinType: SUI_COIN_TYPE, amount, decimals: 9 }],
+    packages: [],
+  };
+}
+
+describe("Spending policy", () => {
+  let wallet: ReturnType<typeof createWalletMock>;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    wallet = createWalletMock();
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should normalize coin keys and addresses when parsing", () => {
+    // "SUI"やアドレスが正規化されることを確認
+    const policy = parseSpendingPolicy({
+      maxPerTransaction: { SUI: "10", [USDC]: "500" },
+      deniedRecipients: ["0xe"],
+    });
+    expect(policy.maxPerTransaction).toEqual({
+      [SUI_COIN_TYPE]: "10",
+      [USDC]: "500",
+    });
+    expect(policy.deniedRecipients).toEqual([`0x${"0".repeat(63)}e`]);
+    expect(policy.allowedRecipients).toBeUndefined();
+  });
+
+  it("should aggregate every invalid policy entry in one error", () => {
+    // 不正な項目が全てまとめて報告されることを確認
+    expect(() =>
+      parseSpendingPolicy({
+        maxPerTransaction: { USDC: "ten" },
+        allowedPackages: ["not-an-address"],
+        unknownRule: true,
+      }),
+    ).toThrow(
+      /Invalid suiPolicy policy:[\s\S]*maxPerTransaction\.USDC[\s\S]*allowedPackages\.0[\s\S]*Unrecognized key/,
+    );
+  });
+
+  it("should enforce per-transaction caps, including SUI_MAX_SPEND_PER_TX", async () => {
+    // ポリシーの上限と設定値の小さい方が適用されることを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { maxPerTransaction: { SUI: "10" } },
+    });
+    await enforceSpendingPolicy(runtime, wallet as any, suiSpend("9000000000"));
+
+    const error = await enforceSpendingPolicy(
+      runtime,
+      createWalletMock({ SUI_MAX_SPEND_PER_TX: "5" }) as any,
+      suiSpend("9000000000"),
+    ).catch((e) => e);
+    expect(error.code).toBe("SPENDING_LIMIT_EXCEEDED");
+    expect(error.details.policy).toMatchObject({ limit: "5", attempted: "9" });
+  });
+
+  it("should apply a rolling 24-hour cap per coin type from persisted records", async () => {
+    // 記録した支出が日次上限に反映され、24時間経過後は除外されることを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { dailyLimit: { SUI: "5" } },
+    });
+    const now = Date.now();
+    spyOn(Date, "now").mockImplementation(() => now);
+
+    await recordSpending(runtime, wallet as any, suiSpend("3000000000"));
+    expect(await getDailySpent(runtime, wallet as any, "0x2::sui::SUI")).toBe(
+      3000000000n,
+    );
+    // 記録はランタイムのキャッシュ（plugin-sql）に保存される
+    expect(
+      await runtime.getCache(`sui:policy:spent:${runtime.agentId}`),
+    ).toEqual([
+      expect.objectContaining({
+        coinType: SUI_COIN_TYPE,
+        amount: "3000000000",
+      }),
+    ]);
+
+    const error = await enforceSpendingPolicy(
+      runtime,
+      wallet as any,
+      suiSpend("2500000000"),
+    ).catch((e) => e);
+    expect(error.code).toBe("DAILY_LIMIT_EXCEEDED");
+    expect(error.details.policy).toMatchObject({ spent: "3", limit: "5" });
+
+    spyOn(Date, "now").mockImplementation(() => now + DAILY_WINDOW_MS);
+    await enforceSpendingPolicy(runtime, wallet as any, suiSpend("2500000000"));
+  });
+
+  it("should enforce recipient allow and deny lists", async () => {
+    // 拒否リストと許可リストが送金先に適用されることを確認
+    const denied = await enforceSpendingPolicy(
+      createSuiWalletRuntime(wallet, {
+        policy: { deniedRecipients: [MALLORY] },
+      }),
+      wallet as any,
+      suiSpend("1", MALLORY),
+    ).catch((e) => e);
+    expect(denied.code).toBe("RECIPIENT_DENIED");
+
+    const notAllowed = await enforceSpendingPolicy(
+      createSuiWalletRuntime(wallet, {
+        policy: { allowedRecipients: [ALICE] },
+      }),
+      wallet as any,
+      suiSpend("1", MALLORY),
+    ).catch((e) => e);
+    expect(notAllowed.code).toBe("RECIPIENT_NOT_ALLOWED");
+  });
+
+  it("should restrict Move calls to allowed packages", async () => {
+    // 許可リストに無いパッケージのMove呼び出しが拒否されることを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { allowedPackages: ["0x2"] },
+    });
+    const intent = await spendIntentFromBalanceChanges(
+      wallet as any,
+      "SUI_MOVE_CALL",
+      [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: USDC,
+          amount: "-2500000",
+        },
+        {
+          owner: { AddressOwner: ALICE },
+          coinType: USDC,
+          amount: "2500000",
+        },
+      ],
+      1000000n,
+      [PACKAGE],
+    );
+    expect(intent).toEqual({
+      action: "SUI_MOVE_CALL",
+      recipients: [ALICE],
+      spends: [{ coinType: USDC, amount: "2500000", decimals: 6 }],
+      packages: [PACKAGE],
+    });
+
+    const error = await enforceSpendingPolicy(
+      runtime,
+      wallet as any,
+      intent,
+    ).catch((e) => e);
+    expect(error.code).toBe("PACKAGE_NOT_ALLOWED");
+  });
+
+  it("should return a structured ActionResult error from signing actions", async () => {
+    // 送金アクションがポリシー違反を構造化されたエラーとして返すことを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { deniedRecipients: [MALLORY] },
+    });
+    const result = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 1 SUI to ${MALLORY}`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+
+    expect(result?.success).toBe(false);
+    expect(result?.values?.error).toBe("RECIPIENT_DENIED");
+    expect(result?.data?.policy).toMatchObject({
+      action: "SUI_TRANSFER",
+      rule: "RECIPIENT_DENIED",
+      recipient: MALLORY,
+    });
+    expect(wallet.dryRunTransaction).not.toHaveBeenCalled();
+  });
+
+  it("should count executed transfers towards the daily cap", async () => {
+    // 実行した送金が記録され、次の送金で日次上限に達することを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { dailyLimit: { SUI: "2" } },
+    });
+    const send = async (text: string) =>
+      suiTransferAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        mock(async () => []),
+        [],
+      );
+
+    await send(`Send 1.5 SUI to ${ALICE}`);
+    const executed = await send("confirm");
+    expect(executed?.success).toBe(true);
+
+    const rejected = await send(`Send 1 SUI to ${ALICE}`);
+    expect(rejected?.values?.error).toBe("DAILY_LIMIT_EXCEEDED");
+  });
+
+  it("should not let concurrent signings exceed the daily cap together", async () => {
+    // 同時に予約しても上限の確認と予約が直列に行われ、2件目が日次上限で拒否されることを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { dailyLimit: { SUI: "5" } },
+    });
+    const results = await Promise.allSettled([
+      reserveSpending(runtime, wallet as any, suiSpend("3000000000")),
+      reserveSpending(runtime, wallet as any, suiSpend("3000000000")),
+    ]);
+    expect(results.map((result) => result.status)).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect((results[1] as PromiseRejectedResult).reason.code).toBe(
+      "DAILY_LIMIT_EXCEEDED",
+    );
+    expect(await getDailySpent(runtime, wallet as any, SUI_COIN_TYPE)).toBe(
+      3000000000n,
+    );
+
+    // 署名できなかった予約を解放すると、その分をまた使える
+    await (results[0] as PromiseFulfilledResult<any>).value.release();
+    expect(await getDailySpent(runtime, wallet as any, SUI_COIN_TYPE)).toBe(0n);
+    await reserveSpending(runtime, wallet as any, suiSpend("5000000000"));
+  });
+
+  it("should release the reservation when signing fails", async () => {
+    // 署名前に失敗した送金の予約は解放され、日次上限に数えられないことを確認
+    const runtime = createSuiWalletRuntime(wallet, {
+      policy: { dailyLimit: { SUI: "2" } },
+    });
+    wallet.signAndExecuteTransaction.mockImplementation(async () => {
+      throw new Error("Gas budget exceeded");
+    });
+    const send = async (text: string) =>
+      suiTransferAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        mock(async () => []),
+        [],
+      );
+
+    await send(`Send 1.5 SUI to ${ALICE}`);
+    const failed = await send("confirm");
+    expect(failed?.success).toBe(false);
+    expect(await getDailySpent(runtime, wallet as any, SUI_COIN_TYPE)).toBe(0n);
+  });
+});
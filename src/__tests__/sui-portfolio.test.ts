@@ -0,0 +1,113 @@
+// Bunのテスト関連モジュール、ポートフォリオプロバイダー、およびRPCスタブをインポート
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { type Memory, type State, logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import {
+  invalidatePortfolioCache,
+  suiPortfolioProvider,
+} from "../plugins/sui/providers/portfolio";
+import { SuiWalletService } from "../plugins/sui/service";
+import { startSuiWalletRuntime } from "./test-utils";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
+
+const USDC =
+  "0x5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN";
+const keypair = new Ed25519Keypair();
+
+describe("SUI_PORTFOLIO provider", () => {
+  let stub: SuiRpcStub;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+
+    stub = startSuiRpcStub({
+      suix_getAllBalances: () => [
+        {
+          coinType: USDC,
+          coinObjectCount: 1,
+          totalBalance: "12500000",
+          lockedBalance: {},
+        },
+        {
+          coinType: "0x2::sui::SUI",
+          coinObjectCount: 2,
+          totalBalance: "2750000000",
+          lockedBalance: {},
+        },
+      ],
+      suix_getCoinMetadata: ([coinType]) =>
+        coinType === USDC
+          ? { decimals: 6, symbol: "USDC", name: "USD Coin", description: "" }
+          : { decimals: 9, symbol: "SUI", name: "Sui", description: "" },
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+  });
+
+  async function createRuntime() {
+    const { runtime } = await startSuiWalletRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+    });
+    return runtime;
+  }
+
+  it("should summarise balances with normalized decimals", async () => {
+    // メタデータの小数桁で残高が正規化されることを確認
+    const runtime = await createRuntime();
+    const result = await suiPortfolioProvider.get(
+      runtime,
+      {} as Memory,
+      {} as State,
+    );
+
+    expect(result.values?.totalSui).toBe("2.75");
+    expect(result.values?.coins).toEqual([
+      {
+        symbol: "SUI",
+        balance: "2.75",
+        coinType: expect.stringContaining("::sui::SUI"),
+      },
+      { symbol: "USDC", balance: "12.5", coinType: USDC },
+    ]);
+    expect(result.text).toContain("- 2.75 SUI");
+    expect(result.text).toContain("- 12.5 USDC");
+  });
+
+  it("should serve repeated reads from the cache until invalidated", async () => {
+    // 有効期間内はRPCを呼ばず、破棄後は再取得することを確認
+    const runtime = await createRuntime();
+    const countBalanceCalls = () =>
+      stub.calls.filter((call) => call.method === "suix_getAllBalances").length;
+
+    await suiPortfolioProvider.get(runtime, {} as Memory, {} as State);
+    const afterFirst = countBalanceCalls();
+    await suiPortfolioProvider.get(runtime, {} as Memory, {} as State);
+    expect(countBalanceCalls()).toBe(afterFirst);
+
+    await invalidatePortfolioCache(
+      runtime,
+      runtime.getService<SuiWalletService>(SuiWalletService.serviceType)!,
+    );
+    await suiPortfolioProvider.get(runtime, {} as Memory, {} as State);
+    expect(countBalanceCalls()).toBe(afterFirst + 1);
+  });
+
+  it("should return an empty result without a signing wallet", async () => {
+    // ウォレットが無い場合は空の結果を返すことを確認
+    const runtime = createSuiTestRuntime();
+    const result = await suiPortfolioProvider.get(
+      runtime,
+      {} as Memory,
+      {} as State,
+    );
+    expect(result.text).toBe("");
+  });
+});
@@ -0,0 +1,334 @@
+// Bunのテスト関連モジュール、価格ソース、ポートフォリオプロバイダー、およびRPCスタブをインポート
+import {
+  afterAll,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { type Memory, type State, logger } from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parseSuiConfig } from "../plugins/sui/config";
+import { HttpPriceSource } from "../plugins/sui/oracles/http";
+import { PythPriceSource } from "../plugins/sui/oracles/pyth";
+import { StaticPriceSource } from "../plugins/sui/oracles/static";
+import {
+  type PriceSource,
+  getCoinPrices,
+  queryPriceSources,
+} from "../plugins/sui/prices";
+import { suiPortfolioProvider } from "../plugins/sui/providers/portfolio";
+import { startSuiWalletRuntime } from "./test-utils";
+import { startSuiRpcStub, type SuiRpcStub } from "./utils/sui-rpc-stub";
+
+const SUI = normalizeStructTag("0x2::sui::SUI");
+const USDC = normalizeStructTag(
+  "0x5d4b302506645c37ff133b98c4b50a5ae14841659738d6d733d59d0d217a93bf::coin::COIN",
+);
+const PRICE_OBJECT = `0x${"e".repeat(64)}`;
+const HOUR = 60 * 60 * 1000;
+const keypair = new Ed25519Keypair();
+
+// 固定の価格を返す価格ソース
+function createQuoteSource(
+  name: string,
+  prices: Record<string, { usd: number; updatedAt: number }>,
+): PriceSource & { getPrices: ReturnType<typeof mock> } {
+  return {
+    name,
+    getPrices: mock(async (coinTypes: string[]) =>
+      coinTypes.flatMap((coinType) =>
+        prices[coinType]
+          ? [{ coinType, ...prices[coinType], source: name }]
+          : [],
+      ),
+    ),
+  };
+}
+
+// PythのPriceInfoObjectのフィクスチャ（JSON-RPCの{ type, fields }の入れ子）
+function pythPriceInfo(price: string, expo: number, timestamp: number) {
+  const i64 = (value: number | string) => ({
+    type: "0x8d97::i64::I64",
+    fields: {
+      negative: Number(value) < 0,
+      magnitude: String(Math.abs(Number(value))),
+    },
+  });
+  return {
+    objectId: PRICE_OBJECT,
+    version: "1",
+    digest: "11111111111111111111111111111111",
+    content: {
+      dataType: "moveObject",
+      type: "0x8d97::price_info::PriceInfoObject",
+      hasPublicTransfer: false,
+      fields: {
+        id: { id: PRICE_OBJECT },
+        price_info: {
+          type: "0x8d97::price_info::PriceInfo",
+          fields: {
+            price_feed: {
+              type: "0x8d97::price_feed::PriceFeed",
+              fields: {
+                price: {
+                  type: "0x8d97::price::Price",
+                  fields: {
+                    price: i64(price),
+                    conf: "100",
+                    expo: i64(expo),
+                    timestamp: String(timestamp),
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+describe("Sui price oracle", () => {
+  let stub: SuiRpcStub;
+  let dir: string;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), "sui-prices-"));
+
+    stub = startSuiRpcStub({
+      suix_getAllBalances: () => [
+        {
+          coinType: "0x2::sui::SUI",
+          coinObjectCount: 1,
+          totalBalance: "2000000000",
+          lockedBalance: {},
+        },
+        {
+          coinType: USDC,
+          coinObjectCount: 1,
+          totalBalance: "12500000",
+          lockedBalance: {},
+        },
+      ],
+      suix_getCoinMetadata: ([coinType]) =>
+        normalizeStructTag(coinType) === USDC
+          ? { decimals: 6, symbol: "USDC", name: "USD Coin", description: "" }
+          : { decimals: 9, symbol: "SUI", name: "Sui", description: "" },
+      sui_multiGetObjects: () => [
+        {
+          data: pythPriceInfo(
+            "352000000",
+            -8,
+            Math.floor(Date.now() / 1000) - 30,
+          ),
+        },
+      ],
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+    rmSync(dir, { recursive: true, force: true });
+    mock.restore();
+  });
+
+  async function createRuntime(settings: Record<string, string> = {}) {
+    return startSuiWalletRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+      ...settings,
+    });
+  }
+
+  it("should validate the price settings", () => {
+    // Pythのフィードは正規化され、ソースに必要な設定が無ければエラーになることを確認
+    const config = parseSuiConfig({
+      SUI_PRICE_SOURCES: "HTTP, pyth",
+      SUI_PRICE_PYTH_FEEDS: `0x2::sui::SUI=0xe`,
+    });
+    expect(config.SUI_PRICE_SOURCES).toEqual(["http", "pyth"]);
+    expect(config.SUI_PRICE_PYTH_FEEDS).toEqual([
+      `${SUI}=${normalizeSuiAddress("0xe")}`,
+    ]);
+    expect(config.SUI_PRICE_MAX_AGE_MS).toBe(15 * 60 * 1000);
+
+    expect(() =>
+      parseSuiConfig({
+        SUI_PRICE_SOURCES: "static,pyth,chainlink",
+        SUI_PRICE_PYTH_FEEDS: "SUI",
+      }),
+    ).toThrow(
+      /SUI_PRICE_SOURCES\.2: Must be a comma-separated list[\s\S]*SUI_PRICE_PYTH_FEEDS\.0: Must be/,
+    );
+    expect(() => parseSuiConfig({ SUI_PRICE_SOURCES: "static" })).toThrow(
+      /SUI_PRICE_STATIC_PATH: Is required when SUI_PRICE_SOURCES includes static/,
+    );
+  });
+
+  it("should read fixed prices from a JSON file", async () => {
+    // 観測時刻の無い価格は常に最新として、ある価格はその時刻で返すことを確認
+    const path = join(dir, "prices.json");
+    writeFileSync(
+      path,
+      JSON.stringify({
+        "0x2::sui::SUI": 3.5,
+        [USDC]: { usd: 1, updatedAt: "2026-01-01T00:00:00Z" },
+      }),
+    );
+    const quotes = await new StaticPriceSource({ path }).getPrices([
+      SUI,
+      USDC,
+      "0x3::other::OTHER",
+    ]);
+    expect(quotes).toEqual([
+      {
+        coinType: SUI,
+        usd: 3.5,
+        updatedAt: expect.any(Number),
+        source: "static",
+      },
+      {
+        coinType: USDC,
+        usd: 1,
+        updatedAt: Date.parse("2026-01-01T00:00:00Z"),
+        source: "static",
+      },
+    ]);
+    expect(Date.now() - quotes[0].updatedAt).toBeLessThan(1000);
+
+    writeFileSync(path, JSON.stringify({ SUI: 3.5 }));
+    await expect(
+      new StaticPriceSource({ path }).getPrices([SUI]),
+    ).rejects.toThrow(/Invalid price file[\s\S]*SUI: Must be a coin type/);
+  });
+
+  it("should query a CoinGecko-compatible price API", async () => {
+    // コインタイプをまとめて問い合わせ、短縮形・小文字のキーと秒単位の時刻を読み取ることを確認
+    const fetch = mock(
+      async (_url: string, _init?: RequestInit) =>
+        new Response(
+          JSON.stringify({
+            "0x2::sui::sui": { usd: 3.52, last_updated_at: 1767355200 },
+          }),
+          { headers: { "Content-Type": "application/json" } },
+        ),
+    );
+    const source = new HttpPriceSource({
+      url: "https://prices.example.com/token_price/sui",
+      fetch,
+    });
+    expect(await source.getPrices([SUI, USDC])).toEqual([
+      {
+        coinType: SUI,
+        usd: 3.52,
+        updatedAt: 1767355200 * 1000,
+        source: "http",
+      },
+    ]);
+    const url = new URL(fetch.mock.calls[0][0]);
+    expect(url.searchParams.get("contract_addresses")).toBe(`${SUI},${USDC}`);
+    expect(url.searchParams.get("vs_currencies")).toBe("usd");
+  });
+
+  it("should read Pyth price objects on chain", async () => {
+    // 価格オブジェクトの仮数と指数から価格を計算し、フィードの無いコインは問い合わせないことを確認
+    const { service } = await createRuntime();
+    const source = new PythPriceSource({
+      client: service.getClient(),
+      feeds: { "0x2::sui::SUI": PRICE_OBJECT },
+    });
+    const [quote] = await source.getPrices([SUI]);
+    expect(quote.usd).toBeCloseTo(3.52, 10);
+    expect(quote.source).toBe("pyth");
+    expect(Date.now() - quote.updatedAt).toBeLessThan(60_000);
+
+    const before = stub.calls.length;
+    expect(await source.getPrices([USDC])).toEqual([]);
+    expect(stub.calls.length).toBe(before);
+  });
+
+  it("should fall back to later sources when a price is missing, stale or failing", async () => {
+    // 失敗したソースは読み飛ばし、古い価格は次のソースに新しい価格が無い場合だけ残すことを確認
+    const failing: PriceSource = {
+      name: "failing",
+      getPrices: async () => {
+        throw new Error("oracle down");
+      },
+    };
+    const old = createQuoteSource("old", {
+      [SUI]: { usd: 3, updatedAt: Date.now() - 2 * HOUR },
+      [USDC]: { usd: 1, updatedAt: Date.now() - 3 * HOUR },
+    });
+    const fresh = createQuoteSource("fresh", {
+      [SUI]: { usd: 3.5, updatedAt: Date.now() },
+    });
+
+    const found = await queryPriceSources(
+      [failing, old, fresh],
+      [SUI, USDC],
+      15 * 60 * 1000,
+    );
+    expect(found.get(SUI)).toMatchObject({ usd: 3.5, source: "fresh" });
+    expect(found.get(USDC)).toMatchObject({ usd: 1, source: "old" });
+    expect(fresh.getPrices).toHaveBeenCalledWith([SUI, USDC]);
+  });
+
+  it("should cache prices and refuse to quote stale ones", async () => {
+    // 有効期間内はソースに問い合わせず、古すぎる価格は金額を出さずに古いことだけを伝えることを確認
+    const { runtime, service } = await createRuntime();
+    const source = createQuoteSource("test", {
+      [SUI]: { usd: 3.5, updatedAt: Date.now() },
+      [USDC]: { usd: 1, updatedAt: Date.now() - 2 * HOUR },
+    });
+    service.registerPriceSource(source);
+
+    const prices = await getCoinPrices(runtime, service, [
+      "0x2::sui::SUI",
+      USDC,
+    ]);
+    expect(prices[SUI]).toMatchObject({ usd: 3.5, stale: false });
+    expect(prices[USDC]).toMatchObject({
+      usd: null,
+      stale: true,
+      source: "test",
+    });
+    await getCoinPrices(runtime, service, [SUI, USDC]);
+    expect(source.getPrices).toHaveBeenCalledTimes(1);
+
+    const result = await suiPortfolioProvider.get(
+      runtime,
+      {} as Memory,
+      {} as State,
+    );
+    expect(result.text).toContain("- 2 SUI (≈ $7.00)");
+    expect(result.text).toContain(
+      "- 12.5 USDC (USD price is too old to quote: last updated 2h ago)",
+    );
+    expect(result.text).toContain("Total value: ≈ $7.00 (excluding USDC)");
+    expect(result.values?.totalUsd).toBe(7);
+    expect(result.values?.coins).toEqual([
+      expect.objectContaining({
+        symbol: "SUI",
+        usdPrice: 3.5,
+        usdValue: 7,
+        priceStale: false,
+      }),
+      expect.objectContaining({
+        symbol: "USDC",
+        usdPrice: null,
+        usdValue: null,
+        priceStale: true,
+      }),
+    ]);
+  });
+});
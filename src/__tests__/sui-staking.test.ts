@@ -0,0 +1,368 @@
+// Bunのテスト関連モジュール、ステーキングのアクション・プロバイダー、およびテスト用ランタイムをインポート
+import {
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { type State, logger } from "@elizaos/core";
+import type { DelegatedStake } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  SUI_LIST_STAKES,
+  SUI_STAKE,
+  SUI_UNSTAKE,
+  suiListStakesAction,
+  suiStakeAction,
+  suiUnstakeAction,
+} from "../plugins/sui/actions/staking";
+import { suiStakingProvider } from "../plugins/sui/providers/staking";
+import { SuiWalletService } from "../plugins/sui/service";
+import {
+  type ValidatorInfo,
+  findValidator,
+  parseStakeRequest,
+  parseUnstakeRequest,
+} from "../plugins/sui/staking";
+import { SUI_COIN_TYPE } from "../plugins/sui/utils";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const MYSTEN = `0x${"1".repeat(64)}`;
+const MYSTEN_2 = `0x${"2".repeat(64)}`;
+const BLOCKDAEMON = `0x${"3".repeat(64)}`;
+const STAKE_ACTIVE = `0x${"5".repeat(64)}`;
+const STAKE_PENDING = `0x${"6".repeat(64)}`;
+
+const GAS_USED = {
+  computationCost: "1000000",
+  storageCost: "2000000",
+  storageRebate: "1000000",
+  nonRefundableStorageFee: "0",
+};
+
+const VALIDATORS: ValidatorInfo[] = [
+  {
+    address: MYSTEN,
+    name: "Mysten Labs 1",
+    apy: 0.031,
+    commissionRate: 0.02,
+    stakingPoolSui: "0",
+  },
+  {
+    address: MYSTEN_2,
+    name: "Mysten Labs 2",
+    apy: 0.03,
+    commissionRate: 0.02,
+    stakingPoolSui: "0",
+  },
+  {
+    address: BLOCKDAEMON,
+    name: "Blockdaemon",
+    apy: 0.034,
+    commissionRate: 0.08,
+    stakingPoolSui: "0",
+  },
+];
+
+// 1つ目のバリデーターにActiveとPendingのステークを1件ずつ持つ
+const STAKES: DelegatedStake[] = [
+  {
+    validatorAddress: MYSTEN,
+    stakingPool: `0x${"9".repeat(64)}`,
+    stakes: [
+      {
+        stakedSuiId: STAKE_ACTIVE,
+        stakeRequestEpoch: "480",
+        stakeActiveEpoch: "481",
+        principal: "10000000000",
+        status: "Active",
+        estimatedReward: "120000000",
+      },
+      {
+        stakedSuiId: STAKE_PENDING,
+        stakeRequestEpoch: "501",
+        stakeActiveEpoch: "502",
+        principal: "2000000000",
+        status: "Pending",
+      },
+    ],
+  },
+];
+
+// ステーキングに必要なメソッドだけを持つウォレットサービスのモック
+function createWalletMock(stakes: DelegatedStake[] = STAKES) {
+  const nameResolver = createFakeNameResolver({ "agent.sui": OWNER });
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => ({ SUI_PORTFOLIO_TTL_MS: 60_000 }),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getCoinMetadata: mock(async () => null),
+    getBalance: mock(async () => ({ totalBalance: "50000000000" })),
+    getSystemState: mock(async () => ({
+      epoch: "501",
+      activeValidators: VALIDATORS.map((validator) => ({
+        suiAddress: validator.address,
+        name: validator.name,
+        commissionRate: String(validator.commissionRate * 10_000),
+        stakingPoolSuiBalance: "1000000000000000",
+      })),
+    })),
+    getValidatorsApy: mock(async () => ({
+      epoch: "501",
+      apys: VALIDATORS.map(({ address, apy }) => ({ address, apy })),
+    })),
+    getStakes: mock(async () => stakes),
+    dryRunTransaction: mock(async (_tx: Transaction) => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: SUI_COIN_TYPE,
+          amount: "-10002000000",
+        },
+      ],
+    })),
+    signAndExecuteTransaction: mock(async (_tx: Transaction) => ({
+      digest: "StakeDigest",
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+    })),
+  };
+}
+
+describe("Staking", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should parse stake and unstake requests in English and Japanese", () => {
+    // 英語・日本語の依頼から量とバリデーターが抽出されることを確認
+    expect(parseStakeRequest("stake 10 SUI with Mysten Labs 1")).toEqual({
+      amount: "10",
+      validator: "Mysten Labs 1",
+    });
+    expect(parseStakeRequest(`Stake 2.5 sui to ${MYSTEN}.`)).toEqual({
+      amount: "2.5",
+      validator: MYSTEN,
+    });
+    expect(parseStakeRequest("Blockdaemonに5 SUIをステークして")).toEqual({
+      amount: "5",
+      validator: "Blockdaemon",
+    });
+    expect(parseUnstakeRequest("withdraw my stake from Blockdaemon")).toEqual({
+      target: "Blockdaemon",
+      all: false,
+    });
+    expect(parseUnstakeRequest(`unstake ${STAKE_ACTIVE}`).target).toBe(
+      STAKE_ACTIVE,
+    );
+    expect(parseUnstakeRequest("unstake all").all).toBe(true);
+    expect(parseUnstakeRequest("Mysten Labs 1のステークを引き出して")).toEqual({
+      target: "Mysten Labs 1",
+      all: false,
+    });
+  });
+
+  it("should find validators by address, exact name or unique partial name", () => {
+    // アドレス・完全一致・一意な部分一致で特定でき、曖昧な場合はエラーになることを確認
+    expect(findValidator(VALIDATORS, MYSTEN_2).name).toBe("Mysten Labs 2");
+    expect(findValidator(VALIDATORS, "mysten labs 1").address).toBe(MYSTEN);
+    expect(findValidator(VALIDATORS, "daemon").address).toBe(BLOCKDAEMON);
+    expect(() => findValidator(VALIDATORS, "Mysten")).toThrow(
+      "matches several validators (Mysten Labs 1, Mysten Labs 2)",
+    );
+    expect(() => findValidator(VALIDATORS, "Figment")).toThrow(
+      'No active validator named "Figment"',
+    );
+  });
+
+  it("should list validators with APY and commission, and stakes with rewards", async () => {
+    // バリデーターがAPY順に、ステークがPending/Activeと見積もり報酬付きで表示されることを確認
+    const runtime = createSuiTestRuntime();
+    runtime.services.set(SuiWalletService.serviceType, createWalletMock());
+    const callback = mock(async () => []);
+
+    const validators = await suiListStakesAction.handler(
+      runtime,
+      createSuiMessage("Which validators have the best APY?"),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+    expect(validators?.data?.actionName).toBe(SUI_LIST_STAKES);
+    expect(validators?.text).toContain(
+      "Top 3 of 3 active validators by APY (epoch 501):\n- Blockdaemon: APY 3.4%, commission 8%",
+    );
+    expect(validators?.text).toContain(
+      "- Mysten Labs 1: APY 3.1%, commission 2%",
+    );
+    expect(validators?.text).not.toContain("Stakes of");
+
+    const stakes = await suiListStakesAction.handler(
+      runtime,
+      createSuiMessage("show my stakes"),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+    expect(stakes?.values?.stakeCount).toBe(2);
+    expect(stakes?.text).toContain(
+      `- 10 SUI with Mysten Labs 1 (Active since epoch 481, est. reward 0.12 SUI) ${STAKE_ACTIVE}`,
+    );
+    expect(stakes?.text).toContain(
+      `- 2 SUI with Mysten Labs 1 (Pending, active from epoch 502) ${STAKE_PENDING}`,
+    );
+    expect(stakes?.text).toContain(
+      "Total: 12 SUI staked, estimated rewards 0.12 SUI",
+    );
+  });
+
+  it("should stake with a validator picked by name after confirmation", async () => {
+    // 名前で選んだバリデーターへのステークが提示され、確認後にrequest_add_stakeが実行されることを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiStakeAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    const prepared = await send("stake 10 SUI with blockdaemon");
+    expect(prepared?.values?.awaitingConfirmation).toBe(true);
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(
+      `Stake 10 SUI with Blockdaemon (${BLOCKDAEMON})`,
+    );
+    expect(content.text).toContain("APY: 3.4%, commission: 8%");
+    expect(content.text).toContain("pending until epoch 502");
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    const executed = await send("confirm");
+    expect(executed?.success).toBe(true);
+    expect(executed?.data?.actionName).toBe(SUI_STAKE);
+    const [signed] = wallet.signAndExecuteTransaction.mock.calls[0];
+    const data = signed.getData();
+    const call = data.commands[1].MoveCall;
+    expect(`${call?.module}::${call?.function}`).toBe(
+      "sui_system::request_add_stake",
+    );
+    expect(normalizeSuiAddress(call?.package ?? "")).toBe(
+      normalizeSuiAddress("0x3"),
+    );
+    const [done] = callback.mock.calls[1] as any[];
+    expect(done.text).toContain("Staked 10 SUI with Blockdaemon");
+  });
+
+  it("should reject stakes below the minimum and unknown validators", async () => {
+    // 1 SUI未満はINVALID_AMOUNT、存在しないバリデーターはUNKNOWN_VALIDATORになることを確認
+    const runtime = createSuiTestRuntime();
+    runtime.services.set(SuiWalletService.serviceType, createWalletMock());
+    const run = (text: string) =>
+      suiStakeAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        mock(async () => []),
+        [],
+      );
+
+    const small = await run("stake 0.5 SUI with Blockdaemon");
+    expect(small?.values?.error).toBe("INVALID_AMOUNT");
+    const unknown = await run("stake 5 SUI with Figment");
+    expect(unknown?.values?.error).toBe("UNKNOWN_VALIDATOR");
+    const missing = await run("stake 5 SUI");
+    expect(missing?.values?.error).toBe("UNKNOWN_VALIDATOR");
+    expect(missing?.text).toContain("Highest APY now: Blockdaemon (3.4%)");
+  });
+
+  it("should withdraw every stake held with a validator", async () => {
+    // バリデーター名で指定した全てのステークが1つのトランザクションで引き出されることを確認
+    const wallet = createWalletMock();
+    const runtime = createSuiWalletRuntime(wallet);
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiUnstakeAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    const prepared = await send("unstake from Mysten Labs 1");
+    expect(prepared?.data?.stakedSuiIds).toEqual([STAKE_ACTIVE, STAKE_PENDING]);
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(
+      "Withdraw 2 stakes: 12 SUI principal plus about 0.12 SUI in rewards",
+    );
+    expect(content.text).toContain(
+      "Pending stakes are returned without rewards.",
+    );
+
+    const executed = await send("yes");
+    expect(executed?.data?.actionName).toBe(SUI_UNSTAKE);
+    const [signed] = wallet.signAndExecuteTransaction.mock.calls[0];
+    const functions = signed
+      .getData()
+      .commands.map((command: any) => command.MoveCall?.function);
+    expect(functions).toEqual([
+      "request_withdraw_stake",
+      "request_withdraw_stake",
+    ]);
+
+    const none = await suiUnstakeAction.handler(
+      runtime,
+      createSuiMessage("unstake from Blockdaemon"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(none?.values?.error).toBe("STAKE_NOT_FOUND");
+  });
+
+  it("should surface the total staked amount in agent state", async () => {
+    // プロバイダーがステークの合計と見積もり報酬を、ウォレットのSuiNS名と共に状態に挿入することを確認
+    const runtime = createSuiTestRuntime();
+    runtime.services.set(SuiWalletService.serviceType, createWalletMock());
+    const result = await suiStakingProvider.get(
+      runtime,
+      createSuiMessage("hi"),
+      {} as State,
+    );
+    expect(result.values).toEqual({
+      totalStakedSui: "12",
+      estimatedStakingRewards: "0.12",
+      stakeCount: 2,
+    });
+    expect(result.text).toBe(
+      `Sui wallet ${OWNER} (agent.sui) has 12 SUI staked with 1 validator (estimated rewards 0.12 SUI, 1 pending).`,
+    );
+  });
+});
@@ -0,0 +1,335 @@
+// Bunのテスト関連モジュール、スワップアクション・アグリゲーター、および記録した見積もりをインポート
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import { Transaction } from "@mysten/sui/transactions";
+import { SUI_SWAP, suiSwapAction } from "../plugins/sui/actions/swap";
+import { AftermathAggregator } from "../plugins/sui/aggregators/aftermath";
+import {
+  type SwapAggregator,
+  compareQuotes,
+  minimumReceived,
+  parseSwapRequest,
+} from "../plugins/sui/swap";
+import { SUI_COIN_TYPE } from "../plugins/sui/utils";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import tradeRoute from "./fixtures/swap/aftermath-trade-route.json";
+import tradeTransaction from "./fixtures/swap/aftermath-trade-transaction.json";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const USDC = `0x${"d".repeat(64)}::usdc::USDC`;
+
+const GAS_USED = {
+  computationCost: "2000000",
+  storageCost: "0",
+  storageRebate: "0",
+  nonRefundableStorageFee: "0",
+};
+
+// 記録した応答を返すfetchのモック（パスごとに応答を切り替えます）
+function createFixtureFetch() {
+  return mock(async (url: string, _init?: RequestInit) => {
+    const body = url.endsWith("/router/trade-route")
+      ? tradeRoute
+      : url.endsWith("/router/transactions/trade")
+        ? JSON.stringify(tradeTransaction)
+        : null;
+    return new Response(JSON.stringify(body), {
+      status: body ? 200 : 404,
+      headers: { "Content-Type": "application/json" },
+    });
+  });
+}
+
+// 固定の受取額を返すアグリゲーター
+function createStaticAggregator(name: string, amountOut: string) {
+  return {
+    name,
+    getQuote: mock(async (request) => ({
+      aggregator: name,
+      coinTypeIn: request.coinTypeIn,
+      coinTypeOut: request.coinTypeOut,
+      amountIn: request.amountIn,
+      amountOut,
+      priceImpact: 0.004,
+      route: [
+        {
+          protocol: "DeepBook",
+          coinTypeIn: request.coinTypeIn,
+          coinTypeOut: request.coinTypeOut,
+        },
+      ],
+      raw: null,
+    })),
+    buildTransaction: mock(async () => new Transaction()),
+  } satisfies SwapAggregator;
+}
+
+// 常に失敗するアグリゲーター
+const failingAggregator: SwapAggregator = {
+  name: "offline",
+  getQuote: async () => {
+    throw new Error("service unavailable");
+  },
+  buildTransaction: async () => new Transaction(),
+};
+
+// ドライラン・実行で返す残高変化
+function balanceChanges(usdcReceived: string) {
+  return [
+    {
+      owner: { AddressOwner: OWNER },
+      coinType: SUI_COIN_TYPE,
+      amount: "-10002000000",
+    },
+    { owner: { AddressOwner: OWNER }, coinType: USDC, amount: usdcReceived },
+  ];
+}
+
+// スワップに必要なメソッドだけを持つウォレットサービスのモック
+function createWalletMock(aggregators: SwapAggregator[], received: string) {
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => ({ SUI_SWAP_SLIPPAGE_BPS: 50 }),
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getSwapAggregators: () => aggregators,
+    getCoinMetadata: mock(async () => ({ decimals: 6, symbol: "USDC" })),
+    getBalance: mock(async () => ({ totalBalance: "50000000000" })),
+    getBalances: mock(async () => [
+      { coinType: SUI_COIN_TYPE, totalBalance: "50000000000" },
+      { coinType: USDC, totalBalance: "0" },
+    ]),
+    dryRunTransaction: mock(async () => ({
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: balanceChanges(received),
+    })),
+    signAndExecuteTransaction: mock(async (_tx: Transaction) => ({
+      digest: "SwapDigest",
+      effects: { status: { status: "success" }, gasUsed: GAS_USED },
+      balanceChanges: balanceChanges(received),
+    })),
+  };
+}
+
+describe("Swap", () => {
+  let fixtureFetch: ReturnType<typeof createFixtureFetch>;
+  let aftermath: AftermathAggregator;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    fixtureFetch = createFixtureFetch();
+    aftermath = new AftermathAggregator({
+      baseUrl: "https://aggregator.test/api",
+      fetch: fixtureFetch,
+    });
+  });
+
+  afterEach(() => {
+    mock.restore();
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should parse amounts and coins from English and Japanese requests", () => {
+    // 英語・日本語の依頼から売る量とコインが抽出されることを確認
+    expect(parseSwapRequest("swap 10 SUI for USDC")).toEqual({
+      amount: "10",
+      coinIn: "SUI",
+      coinOut: "USDC",
+    });
+    expect(parseSwapRequest(`trade 2.5 sui into ${USDC}`)).toEqual({
+      amount: "2.5",
+      coinIn: "SUI",
+      coinOut: USDC,
+    });
+    expect(parseSwapRequest("10 SUIをUSDCに交換して")).toMatchObject({
+      coinIn: "SUI",
+      coinOut: "USDC",
+    });
+  });
+
+  it("should turn a recorded Aftermath route into a quote", async () => {
+    // 記録した応答から受取額・価格影響・分割経路が得られることを確認
+    const quote = await aftermath.getQuote({
+      coinTypeIn: SUI_COIN_TYPE,
+      coinTypeOut: USDC,
+      amountIn: "10000000000",
+      sender: OWNER,
+    });
+    const [url, init] = fixtureFetch.mock.calls[0];
+    expect(url).toBe("https://aggregator.test/api/router/trade-route");
+    expect(JSON.parse(init?.body as string).coinInAmount).toBe("10000000000n");
+
+    expect(quote?.amountOut).toBe("35120000");
+    expect(quote?.priceImpact).toBeCloseTo(0.00227, 4);
+    expect(quote?.route).toEqual([
+      {
+        protocol: "Cetus",
+        coinTypeIn: SUI_COIN_TYPE,
+        coinTypeOut: USDC,
+        share: 0.6,
+      },
+      {
+        protocol: "Turbos",
+        coinTypeIn: SUI_COIN_TYPE,
+        coinTypeOut: USDC,
+        share: 0.4,
+      },
+    ]);
+
+    const tx = await aftermath.buildTransaction(quote!, {
+      sender: OWNER,
+      slippageBps: 50,
+    });
+    const [, buildInit] = fixtureFetch.mock.calls[1];
+    expect(JSON.parse(buildInit?.body as string)).toMatchObject({
+      walletAddress: OWNER,
+      slippage: 0.005,
+    });
+    expect(tx.getData().commands[1].MoveCall?.function).toBe("swap_exact_in");
+  });
+
+  it("should rank quotes by amount out and skip failing aggregators", async () => {
+    // 受取額の多い順に並び、失敗したアグリゲーターは記録されることを確認
+    const { quotes, failures } = await compareQuotes(
+      [
+        createStaticAggregator("deepbook", "35000000"),
+        failingAggregator,
+        aftermath,
+      ],
+      {
+        coinTypeIn: SUI_COIN_TYPE,
+        coinTypeOut: USDC,
+        amountIn: "10000000000",
+        sender: OWNER,
+      },
+    );
+    expect(quotes.map((quote) => quote.aggregator)).toEqual([
+      "aftermath",
+      "deepbook",
+    ]);
+    expect(failures).toEqual([
+      { aggregator: "offline", error: "service unavailable" },
+    ]);
+    expect(minimumReceived(quotes[0].amountOut, 50)).toBe(34944400n);
+  });
+
+  it("should show route, price impact and minimum received, then swap on confirm", async () => {
+    // 最良の見積もりの内容が提示され、確認後に署名・実行されることを確認
+    const deepbook = createStaticAggregator("deepbook", "35000000");
+    const wallet = createWalletMock(
+      [deepbook, failingAggregator, aftermath],
+      "35110000",
+    );
+    const runtime = createSuiWalletRuntime(wallet);
+    const callback = mock(async () => []);
+    const send = (text: string) =>
+      suiSwapAction.handler(
+        runtime,
+        createSuiMessage(text),
+        undefined,
+        {},
+        callback,
+        [],
+      );
+
+    const prepared = await send("Swap 10 SUI for USDC");
+    expect(prepared?.values?.awaitingConfirmation).toBe(true);
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain(
+      "Swap 10 SUI for about 35.12 USDC via aftermath",
+    );
+    expect(content.text).toContain(
+      "Route: Cetus SUI→USDC (60%), Turbos SUI→USDC (40%)",
+    );
+    expect(content.text).toContain("Price impact: 0.23%");
+    expect(content.text).toContain(
+      "Minimum received: 34.9444 USDC (slippage 0.5%)",
+    );
+    expect(content.text).toContain("Other quotes: deepbook 35 USDC");
+    expect(deepbook.buildTransaction).not.toHaveBeenCalled();
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    const executed = await send("confirm");
+    expect(executed?.success).toBe(true);
+    expect(executed?.data?.actionName).toBe(SUI_SWAP);
+    expect(executed?.data?.amountOut).toBe("35110000");
+    const [signed] = wallet.signAndExecuteTransaction.mock.calls[0];
+    expect(signed.getData().commands[1].MoveCall?.function).toBe(
+      "swap_exact_in",
+    );
+    const [done] = callback.mock.calls[1] as any[];
+    expect(done.text).toContain("Swapped 10 SUI for 35.11 USDC");
+  });
+
+  it("should refuse when the dry run falls below the minimum received", async () => {
+    // ドライランの受取額が最低受取額を下回る場合はSLIPPAGE_EXCEEDEDになることを確認
+    const wallet = createWalletMock([aftermath], "34900000");
+    const runtime = createSuiWalletRuntime(wallet);
+    const result = await suiSwapAction.handler(
+      runtime,
+      createSuiMessage("Swap 10 SUI for USDC"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("SLIPPAGE_EXCEEDED");
+  });
+
+  it("should report when no aggregator returns a quote", async () => {
+    // 見積もりが1件も得られない場合はNO_SWAP_QUOTEになることを確認
+    const wallet = createWalletMock([failingAggregator], "0");
+    const runtime = createSuiWalletRuntime(wallet);
+    const result = await suiSwapAction.handler(
+      runtime,
+      createSuiMessage("Swap 10 SUI for USDC"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("NO_SWAP_QUOTE");
+    expect(result?.text).toContain("offline: service unavailable");
+  });
+
+  it("should report a quote from an aggregator that is not configured", async () => {
+    // 見積もりのアグリゲーター名が設定のどれとも一致しない場合は、例外で落ちずにNO_SWAP_QUOTEになることを確認
+    const mislabeled = {
+      ...createStaticAggregator("cetus-v2", "35110000"),
+      name: "cetus",
+    };
+    const wallet = createWalletMock([mislabeled], "35110000");
+    const runtime = createSuiWalletRuntime(wallet);
+    const result = await suiSwapAction.handler(
+      runtime,
+      createSuiMessage("Swap 10 SUI for USDC"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("NO_SWAP_QUOTE");
+    expect(result?.text).toContain(
+      "cetus-v2, which is not a configured aggregator",
+    );
+    expect(wallet.dryRunTransaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,169 @@
+// Bunのテスト関連モジュール、チームのキャラクター、役割ごとのプラグイン、および引き継ぎアクションをインポート
+import { beforeAll, describe, expect, it, mock, spyOn } from "bun:test";
+import { type Character, logger } from "@elizaos/core";
+import { analystCharacter } from "../characters/analyst";
+import { opsCharacter } from "../characters/ops";
+import { SUI_TEAM_MEMBERS } from "../characters/shared";
+import { traderCharacter } from "../characters/trader";
+import { createSuiAgentPlugin } from "../plugins/plugin";
+import { SUI_HANDOFF, suiHandoffAction } from "../plugins/sui/actions/handoff";
+import { parseSpendingPolicy } from "../plugins/sui/policy";
+import {
+  type TeamSettings,
+  findHandoffRole,
+  teamSettingsSchema,
+} from "../plugins/sui/team";
+import { createSuiMessage } from "./test-utils";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const HANDOFF_ROOM = "00000000-0000-0000-0000-0000000000dd";
+
+describe("Sui agent team", () => {
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  it("should give each role only its own signing actions", () => {
+    // アナリストは署名するアクションを持たず、トレーダーとオペレーターは担当のアクションだけを持つことを確認
+    const names = (role: "analyst" | "trader" | "ops") =>
+      (createSuiAgentPlugin(role).actions ?? []).map((action) => action.name);
+
+    expect(names("analyst")).toEqual(
+      expect.arrayContaining(["SUI_TX_HISTORY", "SUI_EXPLAIN_TX", SUI_HANDOFF]),
+    );
+    for (const action of ["SUI_TRANSFER", "SUI_SWAP", "SUI_STAKE"]) {
+      expect(names("analyst")).not.toContain(action);
+    }
+    expect(names("trader")).toEqual(
+      expect.arrayContaining([
+        "SUI_TRANSFER",
+        "SUI_TRANSFER_OBJECT",
+        "SUI_SWAP",
+      ]),
+    );
+    expect(names("trader")).not.toContain("SUI_STAKE");
+    expect(names("ops")).toEqual(
+      expect.arrayContaining(["SUI_STAKE", "SUI_UNSTAKE", "SUI_ROTATE_KEY"]),
+    );
+    expect(names("ops")).not.toContain("SUI_TRANSFER");
+    expect(createSuiAgentPlugin("ops").name).toBe("sui-ops");
+  });
+
+  it("should declare a valid team role and policy for every character", () => {
+    // 各キャラクターの役割・支出ポリシーが検証を通り、アナリストは読み取り専用であることを確認
+    const characters: [string, Character][] = [
+      ["analyst", analystCharacter],
+      ["trader", traderCharacter],
+      ["ops", opsCharacter],
+    ];
+    for (const [role, character] of characters) {
+      const team = teamSettingsSchema.parse(character.settings?.suiTeam);
+      expect(team.role).toBe(role);
+      expect(team.members).toEqual(SUI_TEAM_MEMBERS);
+      expect(() =>
+        parseSpendingPolicy(character.settings?.suiPolicy),
+      ).not.toThrow();
+    }
+    expect(analystCharacter.settings?.SUI_READ_ONLY).toBe("true");
+    expect(
+      parseSpendingPolicy(opsCharacter.settings?.suiPolicy).allowedRecipients,
+    ).toEqual([]);
+  });
+
+  it("should route requests to the teammate that owns them", () => {
+    // 名前・役割名の指定を優先し、無ければ依頼の種類から引き継ぎ先を決めることを確認
+    const team: TeamSettings = { role: "analyst", members: SUI_TEAM_MEMBERS };
+    expect(findHandoffRole("swap 5 SUI to USDC", team)).toBe("trader");
+    expect(findHandoffRole("stake 100 SUI with Mysten", team)).toBe("ops");
+    expect(findHandoffRole("please ask Sui Ops about it", team)).toBe("ops");
+    expect(findHandoffRole("what is my balance?", team)).toBeNull();
+    expect(findHandoffRole("do the thing", team, "unstake")).toBe("ops");
+    expect(
+      findHandoffRole("send 1 SUI to bob.sui", { ...team, role: "trader" }),
+    ).toBeNull();
+  });
+
+  async function handOff(text: string, settings: Record<string, string> = {}) {
+    const runtime = createSuiTestRuntime({
+      SUI_INTENT_PARSER: "regex",
+      ...settings,
+    });
+    runtime.character = analystCharacter;
+    const createMemory = mock(async () => "memory-id");
+    const sendMessageToTarget = mock(async () => {});
+    Object.assign(runtime, {
+      getRoom: async (roomId: string) =>
+        roomId === HANDOFF_ROOM
+          ? { id: HANDOFF_ROOM, source: "discord" }
+          : null,
+      createMemory,
+      sendMessageToTarget,
+    });
+    const callback = mock(async () => []);
+    const result = await suiHandoffAction.handler(
+      runtime,
+      createSuiMessage(text),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+    const [content] = callback.mock.calls[0] as unknown as [
+      { text: string; actions: string[] },
+    ];
+    expect(content.actions).toEqual([SUI_HANDOFF]);
+    return { result, text: content.text, createMemory, sendMessageToTarget };
+  }
+
+  it("should hand a request off in the room it came from", async () => {
+    // 共有ルームが未設定なら、依頼を受けたルームで引き継ぎ先の名前を呼びかけることを確認
+    const { result, text, createMemory } = await handOff("Swap 5 SUI to USDC");
+    expect(text).toBe(
+      "Handoff to Sui Trader from Sui Analyst: Swap 5 SUI to USDC",
+    );
+    expect(result?.values).toMatchObject({
+      success: true,
+      handoffTo: "trader",
+      handoffAgent: "Sui Trader",
+    });
+    expect(createMemory).not.toHaveBeenCalled();
+  });
+
+  it("should post into the configured handoff room", async () => {
+    // SUI_HANDOFF_ROOM_IDのルームに引き継ぎを投稿し、依頼者には引き継いだことだけを伝えることを確認
+    const { text, createMemory, sendMessageToTarget } = await handOff(
+      "Stake 100 SUI with Mysten",
+      { SUI_HANDOFF_ROOM_ID: HANDOFF_ROOM },
+    );
+    expect(text).toBe(
+      "That needs the ops agent, so I handed it to Sui Ops in the team room.",
+    );
+    const [memory] = createMemory.mock.calls[0] as unknown as [any];
+    expect(memory.roomId).toBe(HANDOFF_ROOM);
+    expect(memory.content.text).toBe(
+      "Handoff to Sui Ops from Sui Analyst: Stake 100 SUI with Mysten",
+    );
+    expect(memory.content.suiHandoff).toMatchObject({
+      from: "analyst",
+      to: "ops",
+    });
+    expect(sendMessageToTarget).toHaveBeenCalledWith(
+      { source: "discord", roomId: HANDOFF_ROOM },
+      expect.objectContaining({ text: memory.content.text }),
+    );
+  });
+
+  it("should not hand off a request twice or without a target", async () => {
+    // 引き継がれてきた依頼や、引き継ぎ先が分からない依頼はHANDOFF_FAILEDになることを確認
+    const again = await handOff(
+      "Handoff to Sui Analyst from Sui Trader: what is my balance?",
+    );
+    expect(again.result?.values?.error).toBe("HANDOFF_FAILED");
+    expect(again.text).toContain("already handed off");
+
+    const unknown = await handOff("what is my balance?");
+    expect(unknown.result?.values?.error).toBe("HANDOFF_FAILED");
+    expect(unknown.text).toContain("Could not tell which teammate");
+  });
+});
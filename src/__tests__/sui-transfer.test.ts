@@ -0,0 +1,276 @@
+// Bunのテスト関連モジュール、送金アクション、およびテスト用ランタイムをインポート
+import {
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  mock,
+  spyOn,
+} from "bun:test";
+import { logger } from "@elizaos/core";
+import {
+  SUI_TRANSFER,
+  suiTransferAction,
+} from "../plugins/sui/actions/transfer";
+import { SuiWalletService } from "../plugins/sui/service";
+import {
+  formatAmount,
+  parseAmount,
+  parseTransferRequest,
+} from "../plugins/sui/utils";
+import { createSuiMessage, createSuiWalletRuntime } from "./test-utils";
+import { createFakeNameResolver } from "./utils/fake-name-registry";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+
+const OWNER = `0x${"a".repeat(64)}`;
+const RECIPIENT = `0x${"b".repeat(64)}`;
+
+// 送金アクションが利用するメソッドだけを持つウォレットサービスのモック
+function createWalletMock(config: Record<string, unknown> = {}) {
+  const nameResolver = createFakeNameResolver({ "alice.sui": RECIPIENT });
+  return {
+    hasSigner: () => true,
+    isReadOnly: () => false,
+    canSign: () => true,
+    getConfig: () => config,
+    getAddress: () => OWNER,
+    getOwnerEntityId: () => null,
+    getNameResolver: () => nameResolver,
+    getBalances: mock(async () => [
+      { coinType: "0x2::sui::SUI", totalBalance: "5000000000" },
+    ]),
+    getBalance: mock(async () => ({
+      coinType: "0x2::sui::SUI",
+      totalBalance: "5000000000",
+    })),
+    getCoinMetadata: mock(async () => null),
+    dryRunTransaction: mock(async () => ({
+      effects: {
+        status: { status: "success" },
+        gasUsed: {
+          computationCost: "1000000",
+          storageCost: "2000000",
+          storageRebate: "500000",
+          nonRefundableStorageFee: "0",
+        },
+      },
+      balanceChanges: [
+        {
+          owner: { AddressOwner: OWNER },
+          coinType: "0x2::sui::SUI",
+          amount: "-1502500000",
+        },
+      ],
+    })),
+    signAndExecuteTransaction: mock(async () => ({
+      digest: "DigestAbc123",
+      effects: {
+        status: { status: "success" },
+        gasUsed: {
+          computationCost: "1000000",
+          storageCost: "2000000",
+          storageRebate: "500000",
+          nonRefundableStorageFee: "0",
+        },
+      },
+    })),
+  };
+}
+
+describe("Transfer request parsing", () => {
+  it("should extract recipient, amount and symbol", () => {
+    // 送金先・金額・シンボルが抽出されることを確認
+    expect(parseTransferRequest(`send 1.5 SUI to ${RECIPIENT}`)).toEqual({
+      recipient: RECIPIENT,
+      amount: "1.5",
+      coin: "SUI",
+    });
+  });
+
+  it("should prefer an explicit coin type over a symbol", () => {
+    // 完全なコインタイプが指定された場合はそれを使うことを確認
+    const request = parseTransferRequest(
+      `transfer 10 0x5d4b::coin::USDC to ${RECIPIENT}`,
+    );
+    expect(request.coin).toBe("0x5d4b::coin::USDC");
+    expect(request.recipient).toBe(RECIPIENT);
+    expect(request.amount).toBe("10");
+  });
+
+  it("should default to SUI when no symbol follows the amount", () => {
+    // シンボルが無い場合はSUIとみなすことを確認
+    expect(parseTransferRequest(`send 2 to ${RECIPIENT}`).coin).toBe("SUI");
+  });
+
+  it("should convert between display and raw amounts", () => {
+    // 表示用金額と最小単位の相互変換を確認
+    expect(parseAmount("1.5", 9)).toBe(1500000000n);
+    expect(formatAmount(1500000000n, 9)).toBe("1.5");
+    expect(formatAmount("-2500000", 9)).toBe("-0.0025");
+    expect(() => parseAmount("0.0000000001", 9)).toThrow("decimal places");
+    expect(() => parseAmount("0", 9)).toThrow("greater than zero");
+  });
+});
+
+describe("SUI_TRANSFER action", () => {
+  let runtime: ReturnType<typeof createSuiTestRuntime>;
+  let wallet: ReturnType<typeof createWalletMock>;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "error").mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    wallet = createWalletMock();
+    runtime = createSuiWalletRuntime(wallet);
+  });
+
+  it("should dry-run and wait for confirmation before signing", async () => {
+    // 1通目ではドライランのみ行い、署名しないことを確認
+    const callback = mock(async () => []);
+    const result = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 1.5 SUI to ${RECIPIENT}`),
+      undefined,
+      {},
+      callback,
+      [],
+    );
+
+    expect(result?.success).toBe(true);
+    expect(result?.values?.awaitingConfirmation).toBe(true);
+    expect(result?.data?.estimatedGas).toBe("2500000");
+    expect(wallet.dryRunTransaction).toHaveBeenCalledTimes(1);
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+
+    const [content] = callback.mock.calls[0] as any[];
+    expect(content.text).toContain("Estimated gas: 0.0025 SUI");
+    expect(content.text).toContain("Balance change: -1.5025 SUI");
+  });
+
+  it("should sign after the user confirms and report the digest", async () => {
+    // 確認の返信で署名・送信され、ダイジェスト等が返ることを確認
+    await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 1.5 SUI to ${RECIPIENT}`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+
+    const result = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage("confirm"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+
+    expect(wallet.signAndExecuteTransaction).toHaveBeenCalledTimes(1);
+    expect(result?.success).toBe(true);
+    expect(result?.data).toMatchObject({
+      actionName: SUI_TRANSFER,
+      digest: "DigestAbc123",
+      status: "success",
+      gasUsed: "2500000",
+    });
+  });
+
+  it("should drop the pending transfer when the user cancels", async () => {
+    // 取り消しの返信では署名されないことを確認
+    await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 1.5 SUI to ${RECIPIENT}`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    const cancelled = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage("キャンセル"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(cancelled?.values?.cancelled).toBe(true);
+
+    // 取り消し後の「confirm」は新しいリクエストとして扱われる
+    const result = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage("confirm"),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(wallet.signAndExecuteTransaction).not.toHaveBeenCalled();
+    expect(result?.values?.error).toBe("INVALID_RECIPIENT");
+  });
+
+  it("should return typed error codes", async () => {
+    // 残高不足やドライラン失敗がエラーコードで返ることを確認
+    const insufficient = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 50 SUI to ${RECIPIENT}`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(insufficient?.success).toBe(false);
+    expect(insufficient?.values?.error).toBe("INSUFFICIENT_BALANCE");
+
+    wallet.dryRunTransaction.mockImplementationOnce(
+      async () =>
+        ({
+          effects: {
+            status: { status: "failure", error: "InsufficientGas" },
+          },
+          balanceChanges: [],
+        }) as any,
+    );
+    const dryRunFailure = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 1 SUI to ${RECIPIENT}`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(dryRunFailure?.values?.error).toBe("DRY_RUN_FAILED");
+  });
+
+  it("should enforce the configured per-transaction limit", async () => {
+    // 設定された1回あたりの送金上限を超えると拒否されることを確認
+    runtime.services.set(
+      SuiWalletService.serviceType,
+      createWalletMock({ SUI_MAX_SPEND_PER_TX: "1" }),
+    );
+    const result = await suiTransferAction.handler(
+      runtime,
+      createSuiMessage(`Send 1.5 SUI to ${RECIPIENT}`),
+      undefined,
+      {},
+      mock(async () => []),
+      [],
+    );
+    expect(result?.values?.error).toBe("SPENDING_LIMIT_EXCEEDED");
+  });
+
+  it("should not validate without a signing wallet", async () => {
+    // 署名鍵が無い場合はアクションが無効になることを確認
+    runtime.services.set(SuiWalletService.serviceType, {
+      canSign: () => false,
+      getConfig: () => ({}),
+    });
+    expect(
+      await suiTransferAction.validate(runtime, createSuiMessage("send")),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,155 @@
+// Bunのテスト関連モジュール、Suiウォレットサービス、およびRPCスタブをインポート
+import { afterAll, beforeAll, describe, expect, it, spyOn } from "bun:test";
+import { logger } from "@elizaos/core";
+import { decodeSuiPrivateKey } from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction } from "@mysten/sui/transactions";
+import { toBase64 } from "@mysten/sui/utils";
+import { loadKeypair } from "../plugins/sui/keypair";
+import { SuiWalletService } from "../plugins/sui/service";
+import {
+  createSuiTestRuntime,
+  startSuiRpcStub,
+  type SuiRpcStub,
+} from "./utils/sui-rpc-stub";
+
+const keypair = new Ed25519Keypair();
+const address = keypair.toSuiAddress();
+
+describe("SuiWalletService", () => {
+  let stub: SuiRpcStub;
+
+  beforeAll(() => {
+    spyOn(logger, "info").mockImplementation(() => {});
+    spyOn(logger, "warn").mockImplementation(() => {});
+    spyOn(logger, "debug").mockImplementation(() => {});
+
+    stub = startSuiRpcStub({
+      suix_getAllBalances: ([owner]) => [
+        {
+          coinType: "0x2::sui::SUI",
+          coinObjectCount: 1,
+          totalBalance: owner === address ? "1500000000" : "0",
+          lockedBalance: {},
+        },
+      ],
+      suix_getOwnedObjects: ([owner]) => ({
+        data: [
+          {
+            data: {
+              objectId: "0x5",
+              version: "1",
+              digest: "11111111111111111111111111111111",
+              type: "0x2::coin::Coin<0x2::sui::SUI>",
+              owner: { AddressOwner: owner },
+            },
+          },
+        ],
+        nextCursor: "0x5",
+        hasNextPage: false,
+      }),
+    });
+  });
+
+  afterAll(() => {
+    stub.stop();
+  });
+
+  function createRuntime(settings: Record<string, string> = {}) {
+    return createSuiTestRuntime({
+      SUI_RPC_URL: stub.url,
+      SUI_PRIVATE_KEY: keypair.getSecretKey(),
+      ...settings,
+    });
+  }
+
+  it("should load the keypair from a bech32 private key", async () => {
+    // bech32形式の秘密鍵からアドレスが導出されることを確認
+    const service = await SuiWalletService.start(createRuntime());
+    expect(service.getAddress()).toBe(address);
+    expect(service.hasSigner()).toBe(true);
+    expect(service.getRpcUrl()).toBe(stub.url);
+  });
+
+  it("should load the keypair from a sui.keystore base64 entry", () => {
+    // フラグ付きbase64形式（sui.keystoreの形式）を受け付けることを確認
+    const { secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+    const flagged = toBase64(new Uint8Array([0, ...secretKey]));
+    expect(loadKeypair(flagged).toSuiAddress()).toBe(address);
+  });
+
+  it("should reject keys with an unsupported length", () => {
+    // 長さが不正な鍵はエラーになることを確認
+    expect(() => loadKeypair(toBase64(new Uint8Array(16)))).toThrow(
+      "Unsupported private key length",
+    );
+  });
+
+  it("should return the same instance when started twice", async () => {
+    // 2回目の起動は既存のインスタンスを返すことを確認
+    const runtime = createRuntime();
+    const first = await SuiWalletService.start(runtime);
+    runtime.services.set(SuiWalletService.serviceType, first);
+
+    const second = await SuiWalletService.start(runtime);
+    expect(second).toBe(first);
+  });
+
+  it("should stop without error when the service is not registered", async () => {
+    // 未登録の状態で停止してもエラーにならないことを確認
+    const runtime = createRuntime();
+    await expect(SuiWalletService.stop(runtime)).resolves.toBeUndefined();
+  });
+
+  it("should fetch balances and owned objects through the RPC client", async () => {
+    // スタブRPCから残高と所有オブジェクトを取得できることを確認
+    const service = await SuiWalletService.start(createRuntime());
+
+    const balances = await service.getBalances();
+    expect(balances).toHaveLength(1);
+    expect(balances[0].totalBalance).toBe("1500000000");
+
+    const objects = await service.getOwnedObjects({ limit: 10 });
+    expect(objects.data[0].data?.objectId).toBe("0x5");
+    expect(
+      stub.calls.find((call) => call.method === "suix_getOwnedObjects")
+        ?.params[0],
+    ).toBe(address);
+  });
+
+  it("should be read-only without a private key", async () => {
+    // 秘密鍵が未設定の場合は署名できないことを確認
+    const service = await SuiWalletService.start(
+      createRuntime({ SUI_PRIVATE_KEY: "" }),
+    );
+    expect(service.hasSigner()).toBe(false);
+    expect(() => service.getAddress()).toThrow("no signing key");
+  });
+
+  it("should refuse to sign in read-only mode", async () => {
+    // 読み取り専用モードではアドレスは分かるが署名できないことを確認
+    const service = await SuiWalletService.start(
+      createRuntime({ SUI_READ_ONLY: "true" }),
+    );
+    expect(service.getAddress()).toBe(address);
+    expect(service.canSign()).toBe(false);
+    await expect(
+      service.signAndExecuteTransaction(new Transaction()),
+    ).rejects.toThrow("read-only");
+  });
+
+  it("should fail fast on invalid settings", async () => {
+    // 不正な設定では起動時にキー名付きのエラーになることを確認
+    await expect(
+      SuiWalletService.start(createRuntime({ SUI_NETWORK: "moonnet" })),
+    ).rejects.toThrow("SUI_NETWORK");
+  });
+
+  it("should release the client and key on stop", async () => {
+    // 停止後はクライアントと鍵が破棄されることを確認
+    const service = await SuiWalletService.start(createRuntime());
+    await service.stop();
+    expect(service.hasSigner()).toBe(false);
+    expect(() => service.getClient()).toThrow("not running");
+  });
+});
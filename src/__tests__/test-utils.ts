@@ -1,6 +1,14 @@
 // Bunのテスト関連モジュール、ElizaOSコア、およびプロジェクトのインデックスとプラグインをインポート
 import { mock, spyOn } from "bun:test";
-import { Content, IAgentRuntime, Memory, State, logger } from "@elizaos/core";
+import {
+  Content,
+  IAgentRuntime,
+  Memory,
+  Route,
+  State,
+  UUID,
+  logger,
+} from "@elizaos/core";
 import {
   createMockRuntime as createCoreMockRuntime,
   createMockMessage as createCoreMockMessage,
@@ -8,8 +16,15 @@ import {
   documentTestResult,
   runCoreActionTests,
 } from "./utils/core-test-utils";
-import { character } from "../index";
-import plugin from "../plugin";
+import { createSuiTestRuntime } from "./utils/sui-rpc-stub";
+import { character } from "../characters/sample";
+import plugin from "../plugins/plugin";
+import { SuiWalletService } from "../plugins/sui/service";
+
+// テストのメッセージが既定で使うID（ルームやユーザーを比べるテストはこれを参照します）
+export const TEST_MESSAGE_ID = "00000000-0000-0000-0000-0000000000aa" as UUID;
+export const TEST_ENTITY_ID = "00000000-0000-0000-0000-0000000000bb" as UUID;
+export const TEST_ROOM_ID = "00000000-0000-0000-0000-0000000000cc" as UUID;
 
 /**
  * プロジェクトのキャラクターとプラグインを含む、テスト用に強化されたモックランタイムを作成します
@@ -60,6 +75,27 @@ export function createMockMessage(
   };
 }
 
+/**
+ * 固定のID（TEST_MESSAGE_ID・TEST_ENTITY_ID・TEST_ROOM_ID）を持つメッセージを作成します
+ * 確認の返信など、同じユーザー・ルームからの続きのメッセージを送るテストで使います
+ *
+ * @param text - メッセージテキスト
+ * @param overrides - 送信元（source）と、メモリープロパティのオプションの上書き
+ * @returns モックメモリオブジェクト
+ */
+export function createSuiMessage(
+  text: string,
+  { source = "test", ...overrides }: Partial<Memory> & { source?: string } = {},
+): Memory {
+  return createMockMessage(text, {
+    id: TEST_MESSAGE_ID,
+    entityId: TEST_ENTITY_ID,
+    roomId: TEST_ROOM_ID,
+    content: { text, source },
+    ...overrides,
+  });
+}
+
 /**
  * テスト用のモックStateオブジェクトを作成します
  *
@@ -111,6 +147,98 @@ export function setupTest(
   };
 }
 
+/** callRouteが返す、ルートのハンドラーが設定したステータス・ヘッダー・本文 */
+export interface RouteCallResult {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+/**
+ * パスが一致するルートのハンドラーを呼び出し、応答を返します
+ *
+ * @param routes - 探すルートの一覧
+ * @param path - ルートのパス
+ * @param runtime - ハンドラーに渡すランタイム
+ * @param req - ハンドラーに渡すリクエスト（headers・params・query・bodyなど）
+ * @returns ハンドラーが設定したステータス・ヘッダー・本文
+ */
+export async function callRoute(
+  routes: Route[],
+  path: string,
+  runtime: IAgentRuntime,
+  req: Record<string, unknown> = {},
+): Promise<RouteCallResult> {
+  const route = routes.find((candidate) => candidate.path === path);
+  const response: RouteCallResult = {
+    status: 200,
+    headers: {},
+    body: undefined,
+  };
+  const res = {
+    status: (code: number) => {
+      response.status = code;
+      return res;
+    },
+    setHeader: (name: string, value: string) => {
+      response.headers[name] = value;
+    },
+    json: (body: unknown) => {
+      response.body = body;
+    },
+    send: (body: unknown) => {
+      response.body = body;
+    },
+  };
+  await route?.handler?.(req as any, res as any, runtime);
+  return response;
+}
+
+/**
+ * ウォレットサービスのモックを登録したテスト用ランタイムを作成します
+ * 承認の依頼で使うメモリーの保存とメッセージの送信もモックにします
+ *
+ * @param wallet - 登録するウォレットサービス（モック）
+ * @param options.settings - ランタイムの設定
+ * @param options.policy - キャラクター設定のsuiPolicy（省略時は設定しません）
+ * @returns テスト用のランタイム
+ */
+export function createSuiWalletRuntime(
+  wallet: unknown,
+  {
+    settings = {},
+    policy,
+  }: {
+    settings?: Record<string, string>;
+    policy?: Record<string, unknown>;
+  } = {},
+) {
+  const runtime = createSuiTestRuntime(settings);
+  if (policy) {
+    (runtime.character.settings as Record<string, unknown>).suiPolicy = policy;
+  }
+  runtime.services.set(SuiWalletService.serviceType, wallet);
+  return Object.assign(runtime, {
+    createMemory: mock(async () => "00000000-0000-0000-0000-0000000000dd"),
+    sendMessageToTarget: mock(async () => {}),
+  });
+}
+
+/**
+ * 実際のウォレットサービスを起動して登録したテスト用ランタイムを作成します
+ *
+ * @param settings - ランタイムの設定（SUI_RPC_URLや鍵など）
+ * @returns ランタイムと起動したウォレットサービス
+ */
+export async function startSuiWalletRuntime(
+  settings: Record<string, string> = {},
+) {
+  const runtime = createSuiTestRuntime(settings);
+  const service = await SuiWalletService.start(runtime);
+  runtime.services.set(SuiWalletService.serviceType, service);
+  return { runtime, service };
+}
+
 // 他のユーティリティ関数をエクスポート
 export { documentTestResult, runCoreActionTests };
 
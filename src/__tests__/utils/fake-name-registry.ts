@@ -0,0 +1,65 @@
+// オフラインでSuiNSの名前解決を検証するためのメモリ上の名簿
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import {
+  type SuiNameRegistry,
+  SuiNameResolver,
+  normalizeSuiName,
+} from "../../plugins/sui/names";
+
+/**
+ * 呼び出しを記録するメモリ上のSuiNSレジストリ
+ */
+export interface FakeNameRegistry extends SuiNameRegistry {
+  calls: { method: "resolveName" | "resolveAddress"; value: string }[]; // 受けた問い合わせの記録
+  register: (name: string, address: string) => void; // 名前を追加・上書き
+}
+
+/**
+ * 名前とアドレスの対応表からSuiNSレジストリを作成します。
+ * 逆引きは各アドレスに最初に登録された名前を返します。
+ *
+ * @param entries - 名前（"alice.sui"や"@alice"）→ アドレス
+ * @returns メモリ上のレジストリ
+ */
+export function createFakeNameRegistry(
+  entries: Record<string, string> = {},
+): FakeNameRegistry {
+  const names = new Map<string, string>();
+  const calls: FakeNameRegistry["calls"] = [];
+
+  const registry: FakeNameRegistry = {
+    name: "fake",
+    calls,
+    register: (name, address) => {
+      names.set(normalizeSuiName(name), normalizeSuiAddress(address));
+    },
+    resolveName: async (name) => {
+      calls.push({ method: "resolveName", value: name });
+      return names.get(normalizeSuiName(name)) ?? null;
+    },
+    resolveAddress: async (address) => {
+      calls.push({ method: "resolveAddress", value: address });
+      const normalized = normalizeSuiAddress(address);
+      for (const [name, owner] of names) {
+        if (owner === normalized) return name;
+      }
+      return null;
+    },
+  };
+  for (const [name, address] of Object.entries(entries)) {
+    registry.register(name, address);
+  }
+  return registry;
+}
+
+/**
+ * メモリ上の名簿を使うリゾルバーを作成します（ウォレットのモックのgetNameResolverで返します）。
+ *
+ * @param entries - 名前 → アドレス
+ * @returns キャッシュ付きのリゾルバー
+ */
+export function createFakeNameResolver(
+  entries: Record<string, string> = {},
+): SuiNameResolver {
+  return new SuiNameResolver(createFakeNameRegistry(entries), 60_000);
+}
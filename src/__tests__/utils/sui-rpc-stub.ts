@@ -0,0 +1,125 @@
+// SuiのJSON-RPCフルノードを模したローカルスタブサーバー
+import type { Component, IAgentRuntime } from "@elizaos/core";
+
+/**
+ * JSON-RPCメソッド名から応答を返すハンドラのマップ
+ */
+export type RpcHandlers = Record<
+  string,
+  (params: any[]) => unknown | Promise<unknown>
+>;
+
+/**
+ * 起動したスタブサーバーの情報
+ */
+export interface SuiRpcStub {
+  url: string; // SuiClientに渡すURL
+  calls: { method: string; params: any[] }[]; // 受信したリクエストの記録
+  handlers: RpcHandlers; // テスト中に差し替え可能なハンドラ
+  stop: () => void; // サーバーを停止
+}
+
+/**
+ * テスト用のJSON-RPCスタブサーバーを起動します。
+ * 未登録のメソッドはJSON-RPCの「Method not found」エラーを返します。
+ *
+ * @param handlers - メソッド名ごとの応答ハンドラ
+ * @returns 起動したスタブサーバー
+ */
+export function startSuiRpcStub(handlers: RpcHandlers = {}): SuiRpcStub {
+  const calls: { method: string; params: any[] }[] = [];
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const body = (await req.json()) as {
+        id: number;
+        method: string;
+        params: any[];
+      };
+      calls.push({ method: body.method, params: body.params });
+
+      const handler = stub.handlers[body.method];
+      if (!handler) {
+        return Response.json({
+          jsonrpc: "2.0",
+          id: body.id,
+          error: { code: -32601, message: `Method not found: ${body.method}` },
+        });
+      }
+      try {
+        const result = await handler(body.params);
+        return Response.json({ jsonrpc: "2.0", id: body.id, result });
+      } catch (error) {
+        return Response.json({
+          jsonrpc: "2.0",
+          id: body.id,
+          error: {
+            code: -32000,
+            message: error instanceof Error ? error.message : String(error),
+          },
+        });
+      }
+    },
+  });
+
+  const stub: SuiRpcStub = {
+    url: `http://127.0.0.1:${server.port}`,
+    calls,
+    handlers,
+    stop: () => server.stop(true),
+  };
+  return stub;
+}
+
+/**
+ * 設定値・サービス・キャッシュ・コンポーネントを保持するだけの最小限のランタイムを作成します
+ *
+ * @param settings - getSettingで返す設定値
+ * @returns テスト用ランタイム（componentsは保存されたコンポーネント）
+ */
+export function createSuiTestRuntime(
+  settings: Record<string, string> = {},
+): IAgentRuntime & {
+  services: Map<string, any>;
+  components: Component[];
+} {
+  const services = new Map<string, any>();
+  const cache = new Map<string, unknown>();
+  const components: Component[] = [];
+  return {
+    agentId: "00000000-0000-0000-0000-000000000001",
+    character: { name: "Test Character", settings: {} },
+    services,
+    getSetting: (key: string) => settings[key] ?? null,
+    getService: (serviceType: string) => services.get(serviceType) ?? null,
+    // 実際のキャッシュと同じく、読み書きのたびに値を複製します（保存せずに変更しても反映されない）
+    getCache: async (key: string) => structuredClone(cache.get(key)),
+    setCache: async (key: string, value: unknown) => {
+      cache.set(key, structuredClone(value));
+      return true;
+    },
+    deleteCache: async (key: string) => cache.delete(key),
+    components,
+    getRoom: async () => null,
+    getComponent: async (
+      entityId: string,
+      type: string,
+      _worldId?: string,
+      sourceEntityId?: string,
+    ) =>
+      components.find(
+        (component) =>
+          component.entityId === entityId &&
+          component.type === type &&
+          (!sourceEntityId || component.sourceEntityId === sourceEntityId),
+      ) ?? null,
+    createComponent: async (component: Component) => {
+      components.push(component);
+      return true;
+    },
+  } as unknown as IAgentRuntime & {
+    services: Map<string, any>;
+    components: Component[];
+  };
+}
@@ -55,6 +55,15 @@ export const character: Character = {
   settings: {
     secrets: {}, // シークレット情報
     avatar: "https://elizaos.github.io/eliza-avatars/Eliza/portrait.png", // アバター画像のURL
+    // Suiウォレットの支出ポリシー（署名する全てのアクションに適用されます）
+    suiPolicy: {
+      maxPerTransaction: { SUI: "10" }, // 1トランザクションあたりの上限
+      dailyLimit: { SUI: "50" }, // 直近24時間の支出上限
+      deniedRecipients: [], // 送金を常に拒否するアドレス
+      // allowedRecipients: ["0x..."], // 指定するとこれ以外への送金を拒否
+      allowedPackages: ["0x1", "0x2", "0x3"], // Move呼び出しを許可するパッケージ
+      approvalThreshold: { SUI: "5" }, // これ以上の支出は承認キューで人の承認を待つ
+    },
   },
   // システムプロンプト：AIモデルへの全体的な指示
   system:
@@ -162,4 +171,3 @@ export const character: Character = {
     ],
   },
 };
-
@@ -0,0 +1,60 @@
+/**
+ * Suiエージェントのチームに共通するキャラクター設定です。
+ * 各エージェントは同じ共有ルームに参加し、役割に合わない依頼を名前で呼びかけて引き継ぎます。
+ */
+
+/** 役割ごとのエージェント名（settings.suiTeam.membersと引き継ぎの呼びかけに使います） */
+export const SUI_TEAM_MEMBERS = {
+  analyst: "Sui Analyst",
+  trader: "Sui Trader",
+  ops: "Sui Ops",
+};
+
+/**
+ * チームの全エージェントが読み込むプラグインのリストです。環境変数に基づいて動的に決めます。
+ * 並び順はsample.tsと同じです（SQLを最初、ブートストラップを最後に読み込みます）。
+ */
+export const teamPlugins: string[] = [
+  // コアプラグインを最初に読み込みます
+  "@elizaos/plugin-sql",
+
+  // テキスト生成のみのプラグイン（埋め込み非対応）
+  ...(process.env.ANTHROPIC_API_KEY?.trim()
+    ? ["@elizaos/plugin-anthropic"]
+    : []),
+  ...(process.env.OPENROUTER_API_KEY?.trim()
+    ? ["@elizaos/plugin-openrouter"]
+    : []),
+
+  // 埋め込み対応のプラグイン（オプション、認証情報があれば有効化）
+  ...(process.env.OPENAI_API_KEY?.trim() ? ["@elizaos/plugin-openai"] : []),
+  ...(process.env.GOOGLE_GENERATIVE_AI_API_KEY?.trim()
+    ? ["@elizaos/plugin-google-genai"]
+    : []),
+
+  // Ollamaをフォールバックとして使用（主要なLLMプロバイダーが設定されていない場合）
+  ...(process.env.OLLAMA_API_ENDPOINT?.trim()
+    ? ["@elizaos/plugin-ollama"]
+    : []),
+
+  // プラットフォーム連携プラグイン（共有ルームになるチャンネル）
+  ...(process.env.DISCORD_API_TOKEN?.trim() ? ["@elizaos/plugin-discord"] : []),
+  ...(process.env.TELEGRAM_BOT_TOKEN?.trim()
+    ? ["@elizaos/plugin-telegram"]
+    : []),
+
+  // ブートストラッププラグイン
+  ...(!process.env.IGNORE_BOOTSTRAP ? ["@elizaos/plugin-bootstrap"] : []),
+];
+
+/**
+ * 環境変数に署名鍵があれば、そのエージェント専用の鍵としてsecretsに設定します。
+ * 未設定の場合は共通のSUI_PRIVATE_KEY（またはキーストア）を使います。
+ *
+ * @param {string} envKey - 鍵を読む環境変数名
+ * @returns {Record<string, string>} - キャラクターのsecrets
+ */
+export function signingKeySecrets(envKey: string): Record<string, string> {
+  const key = process.env[envKey]?.trim();
+  return key ? { SUI_PRIVATE_KEY: key } : {};
+}
@@ -1,5 +1,11 @@
-// React Queryのクライアントとプロバイダーをインポート
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+// React Queryのクライアントとプロバイダー、フックをインポート
+import {
+  QueryClient,
+  QueryClientProvider,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 // React DOMのクライアント側エントリーポイントをインポート
 import { createRoot } from "react-dom/client";
 // スタイルシートをインポート
@@ -8,6 +14,15 @@ import "./index.css";
 import React from "react";
 // ElizaOSコアからUUID型をインポート
 import type { UUID } from "@elizaos/core";
+// 承認キュー・ダッシュボード・タイムラインの応答の型をインポート（型のみ）
+import type { ActivityEntry, ActivityStatus } from "../plugins/sui/activity";
+import type { ApprovalRequest } from "../plugins/sui/approval";
+import type {
+  TransactionHistoryPage,
+  TransactionSummary,
+} from "../plugins/sui/providers/history";
+import type { StakingPosition } from "../plugins/sui/providers/staking";
+import type { WalletOverview } from "../plugins/sui/routes";
 
 // React Queryの新しいクライアントインスタンスを作成
 const queryClient = new QueryClient();
@@ -26,9 +41,9 @@ declare global {
 }
 
 /**
- * メインのサンプルルートコンポーネント
+ * メインのルートコンポーネント
  */
-function ExampleRoute() {
+function DashboardRoute() {
   // windowオブジェクトから設定を取得
   const config = window.ELIZA_CONFIG;
   const agentId = config?.agentId;
@@ -52,18 +67,18 @@ function ExampleRoute() {
     );
   }
 
-  // agentIdがある場合、ExampleProviderコンポーネントを描画
-  return <ExampleProvider agentId={agentId as UUID} />;
+  // agentIdがある場合、DashboardProviderコンポーネントを描画
+  return <DashboardProvider agentId={agentId as UUID} />;
 }
 
 /**
- * サンプルのプロバイダーコンポーネント
+ * ウォレットのダッシュボードをReact Queryのクライアントで包むコンポーネント
  */
-function ExampleProvider({ agentId }: { agentId: UUID }) {
+function DashboardProvider({ agentId }: { agentId: UUID }) {
   return (
     // React Queryプロバイダーでラップ
     <QueryClientProvider client={queryClient}>
-      <div>Hello {agentId}</div>
+      <WalletDashboard agentId={agentId} />
     </QueryClientProvider>
   );
 }
@@ -71,7 +86,7 @@ function ExampleProvider({ agentId }: { agentId: UUID }) {
 // アプリケーションを初期化 - iframeのためルーターは不要
 const rootElement = document.getElementById("root");
 if (rootElement) {
-  createRoot(rootElement).render(<ExampleRoute />);
+  createRoot(rootElement).render(<DashboardRoute />);
 }
 
 // エージェントUIシステムとの統合のための型を定義
@@ -89,25 +104,770 @@ interface PanelProps {
   agentId: string;
 }
 
+// プラグインのAPIルートのURLを組み立てます（エージェントと、値のある絞り込み条件はクエリで指定）
+function apiUrl(
+  path: string,
+  agentId: string,
+  query: Record<string, string | undefined> = {},
+): string {
+  const base = window.ELIZA_CONFIG?.apiBase ?? "";
+  const params = new URLSearchParams({ agentId });
+  for (const [key, value] of Object.entries(query)) {
+    if (value) params.set(key, value);
+  }
+  return `${base}${path}?${params.toString()}`;
+}
+
+// APIのエラー応答（401ならサインインを促します）
+class ApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+  }
+}
+
+// サインインで受け取った短命のセッショントークン（APIキーはブラウザに残さず、メモリ上のトークンだけを使います）
+let session: { token: string; expiresAt: number } | null = null;
+
+// JSONを返すAPIを呼び出し（有効なセッショントークンがあれば添えます）、エラー応答はメッセージ付きの例外にします
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const token =
+    session && session.expiresAt > Date.now() ? session.token : undefined;
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init?.headers,
+    },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(
+      body?.error?.message ?? `Request failed: ${response.status}`,
+      response.status,
+    );
+  }
+  return body as T;
+}
+
 /**
- * プラグインシステム用のサンプルパネルコンポーネント
+ * APIキーを一度だけ送り、短命のセッショントークンと引き換えるフォームです。
+ * キーは送信後に破棄し、以降の呼び出しにはトークンだけを添えます。
  */
-const PanelComponent: React.FC<PanelProps> = ({ agentId }) => {
-  return <div>Helllo {agentId}!</div>;
+function SignInForm({
+  agentId,
+  onSignedIn,
+}: PanelProps & { onSignedIn: () => void }) {
+  const [apiKey, setApiKey] = React.useState("");
+  const signIn = useMutation({
+    mutationFn: (key: string) =>
+      fetchJson<{ session: { token: string; expiresAt: number } }>(
+        apiUrl("/sui/auth/session", agentId),
+        { method: "POST", headers: { "X-API-Key": key } },
+      ),
+    onSuccess: ({ session: issued }) => {
+      session = { token: issued.token, expiresAt: issued.expiresAt };
+      setApiKey("");
+      onSignedIn();
+    },
+  });
+
+  return (
+    <form
+      className="space-y-2"
+      data-testid="sign-in"
+      onSubmit={(event) => {
+        event.preventDefault();
+        if (apiKey) signIn.mutate(apiKey);
+      }}
+    >
+      <label className="block text-sm">
+        API key
+        <input
+          type="password"
+          autoComplete="off"
+          className="block w-full rounded border px-2 py-1"
+          value={apiKey}
+          onChange={(event) => setApiKey(event.target.value)}
+        />
+      </label>
+      <button
+        type="submit"
+        className="rounded border px-3 py-1 text-sm"
+        disabled={!apiKey || signIn.isPending}
+      >
+        Sign in
+      </button>
+      {signIn.isError && (
+        <div className="text-sm text-red-600">{signIn.error.message}</div>
+      )}
+    </form>
+  );
+}
+
+// USD金額を"$1,234.56"の形に整形します
+function formatUsd(usd: number): string {
+  return usd.toLocaleString("en-US", { style: "currency", currency: "USD" });
+}
+
+// アドレスやダイジェストを"0x1234...abcd"の形に短くします
+function shorten(value: string): string {
+  return value.length > 14
+    ? `${value.slice(0, 6)}...${value.slice(-4)}`
+    : value;
+}
+
+// MISTをSUIの単位に直します
+function mistToSui(mist: string): string {
+  return (Number(mist) / 1e9).toLocaleString("en-US", {
+    maximumFractionDigits: 4,
+  });
+}
+
+// 読み込み中の表示
+function LoadingState({ label }: { label: string }) {
+  return (
+    <div className="text-sm text-gray-600" data-testid="loading">
+      Loading {label}...
+    </div>
+  );
+}
+
+// 取得に失敗した場合の表示（再試行できます。認証が必要な場合はサインインのフォームも表示します）
+function ErrorState({
+  agentId,
+  error,
+  onRetry,
+}: PanelProps & { error: Error; onRetry: () => void }) {
+  return (
+    <div className="space-y-2">
+      <div className="text-sm text-red-600" role="alert" data-testid="error">
+        {error.message}{" "}
+        <button type="button" className="underline" onClick={onRetry}>
+          Retry
+        </button>
+      </div>
+      {error instanceof ApiError && error.status === 401 && (
+        <SignInForm agentId={agentId} onSignedIn={onRetry} />
+      )}
+    </div>
+  );
+}
+
+// 表示するデータが無い場合の表示
+function EmptyState({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="text-sm text-gray-600" data-testid="empty">
+      {children}
+    </div>
+  );
+}
+
+/**
+ * ウォレットのアドレスと、コインごとの残高・評価額を表示します。
+ */
+function WalletBalances({ agentId }: PanelProps) {
+  const wallet = useQuery({
+    queryKey: ["sui-dashboard-wallet", agentId],
+    queryFn: () =>
+      fetchJson<{ wallet: WalletOverview }>(
+        apiUrl("/sui/dashboard/wallet", agentId),
+      ),
+    refetchInterval: 30000,
+  });
+
+  if (wallet.isLoading) return <LoadingState label="wallet" />;
+  if (wallet.isError) {
+    return (
+      <ErrorState
+        agentId={agentId}
+        error={wallet.error}
+        onRetry={() => wallet.refetch()}
+      />
+    );
+  }
+  const overview = wallet.data?.wallet;
+  if (!overview) return <EmptyState>No wallet data.</EmptyState>;
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="font-mono text-sm break-all" data-testid="address">
+          {overview.address}
+        </div>
+        <div className="text-xs text-gray-600">
+          {overview.name && `${overview.name} · `}
+          {overview.network}
+          {overview.readOnly && " · read-only"}
+        </div>
+      </div>
+      {overview.coins.length === 0 ? (
+        <EmptyState>This wallet holds no coins yet.</EmptyState>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="font-normal">Coin</th>
+              <th className="font-normal text-right">Balance</th>
+              <th className="font-normal text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {overview.coins.map((coin) => (
+              <tr key={coin.coinType} title={coin.coinType}>
+                <td>{coin.symbol}</td>
+                <td className="text-right">{coin.balance}</td>
+                <td className="text-right">
+                  {coin.usdValue != null
+                    ? formatUsd(coin.usdValue)
+                    : coin.priceStale
+                      ? "price too old"
+                      : "-"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {overview.totalUsd != null && (
+        <div className="text-sm font-medium">
+          Total: {formatUsd(overview.totalUsd)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * ステークしているSUIをバリデーターごとに表示します。
+ */
+function StakedPositions({ agentId }: PanelProps) {
+  const stakes = useQuery({
+    queryKey: ["sui-dashboard-stakes", agentId],
+    queryFn: () =>
+      fetchJson<{ staking: StakingPosition }>(
+        apiUrl("/sui/dashboard/stakes", agentId),
+      ),
+    refetchInterval: 60000,
+  });
+
+  if (stakes.isLoading) return <LoadingState label="stakes" />;
+  if (stakes.isError) {
+    return (
+      <ErrorState
+        agentId={agentId}
+        error={stakes.error}
+        onRetry={() => stakes.refetch()}
+      />
+    );
+  }
+  const position = stakes.data?.staking;
+  if (!position?.stakes.length) {
+    return <EmptyState>No staked SUI.</EmptyState>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-sm">
+        {position.totalStaked} SUI staked · estimated rewards{" "}
+        {position.estimatedRewards} SUI
+      </div>
+      <ul className="space-y-1 text-sm">
+        {position.stakes.map((stake) => (
+          <li key={stake.stakedSuiId}>
+            {mistToSui(stake.principal)} SUI with{" "}
+            {stake.validatorName ?? shorten(stake.validatorAddress)} ·{" "}
+            {stake.status}
+            {stake.status === "Active" &&
+              ` · +${mistToSui(stake.estimatedReward)} SUI`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * 直近のトランザクションと、ウォレット自身の残高変化を表示します。
+ */
+function RecentTransactions({ agentId }: PanelProps) {
+  const history = useQuery({
+    queryKey: ["sui-dashboard-transactions", agentId],
+    queryFn: () =>
+      fetchJson<{ history: TransactionHistoryPage }>(
+        apiUrl("/sui/dashboard/transactions", agentId),
+      ),
+    refetchInterval: 30000,
+  });
+
+  if (history.isLoading) return <LoadingState label="transactions" />;
+  if (history.isError) {
+    return (
+      <ErrorState
+        agentId={agentId}
+        error={history.error}
+        onRetry={() => history.refetch()}
+      />
+    );
+  }
+  const transactions = history.data?.history.transactions ?? [];
+  if (transactions.length === 0) {
+    return <EmptyState>No transactions yet.</EmptyState>;
+  }
+
+  return (
+    <ul className="space-y-1 text-sm">
+      {transactions.map((tx) => (
+        <li key={tx.digest}>
+          <span className="font-mono" title={tx.digest}>
+            {shorten(tx.digest)}
+          </span>{" "}
+          {tx.timestampMs && new Date(tx.timestampMs).toLocaleString()}
+          {tx.status !== "success" && (
+            <span className="text-red-600"> · failed</span>
+          )}
+          {tx.balanceChanges.map((change) => (
+            <span key={change.coinType}>
+              {" "}
+              · {change.amount.startsWith("-") ? "" : "+"}
+              {change.amount} {change.symbol}
+            </span>
+          ))}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * ウォレットのダッシュボードです。残高・ステーク・直近のトランザクションを個別に取得し、それぞれの読み込み中・エラー・空の状態を表示します。
+ */
+function WalletDashboard({ agentId }: PanelProps) {
+  return (
+    <div className="p-4 space-y-6">
+      <section className="space-y-2">
+        <h2 className="text-lg font-medium">Wallet</h2>
+        <WalletBalances agentId={agentId} />
+      </section>
+      <section className="space-y-2">
+        <h2 className="text-lg font-medium">Staked SUI</h2>
+        <StakedPositions agentId={agentId} />
+      </section>
+      <section className="space-y-2">
+        <h2 className="text-lg font-medium">Recent transactions</h2>
+        <RecentTransactions agentId={agentId} />
+      </section>
+    </div>
+  );
+}
+
+/**
+ * ウォレットのダッシュボードのパネルコンポーネント
+ */
+const WalletPanel: React.FC<PanelProps> = ({ agentId }) => {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <WalletDashboard agentId={agentId} />
+    </QueryClientProvider>
+  );
+};
+
+/**
+ * 承認待ちのトランザクションを一覧し、承認・却下するパネルです。
+ */
+function ApprovalQueue({ agentId }: PanelProps) {
+  const client = useQueryClient();
+  const queryKey = ["sui-approvals", agentId];
+  const approvals = useQuery({
+    queryKey,
+    queryFn: () =>
+      fetchJson<{ approvals: ApprovalRequest[] }>(
+        apiUrl("/sui/approvals", agentId),
+      ),
+    refetchInterval: 5000,
+  });
+  const decide = useMutation({
+    mutationFn: ({
+      id,
+      decision,
+    }: {
+      id: string;
+      decision: "approve" | "reject";
+    }) =>
+      fetchJson(apiUrl(`/sui/approvals/${id}/${decision}`, agentId), {
+        method: "POST",
+      }),
+    onSettled: () => client.invalidateQueries({ queryKey }),
+  });
+
+  if (approvals.isLoading) {
+    return (
+      <div className="p-4 text-sm text-gray-600">Loading approvals...</div>
+    );
+  }
+  if (approvals.isError) {
+    return (
+      <div className="p-4 space-y-2">
+        <div className="text-red-600" data-testid="approvals-error">
+          {approvals.error.message}
+        </div>
+        {approvals.error instanceof ApiError &&
+          approvals.error.status === 401 && (
+            <SignInForm
+              agentId={agentId}
+              onSignedIn={() => approvals.refetch()}
+            />
+          )}
+      </div>
+    );
+  }
+
+  const pending = approvals.data?.approvals.filter(
+    (request) => request.status === "pending",
+  );
+  const decided = approvals.data?.approvals.filter(
+    (request) => request.status !== "pending",
+  );
+  return (
+    <div className="p-4 space-y-4">
+      <h2 className="text-lg font-medium">Pending approvals</h2>
+      {decide.isError && (
+        <div className="text-red-600 text-sm">{decide.error.message}</div>
+      )}
+      {!pending?.length && (
+        <div className="text-sm text-gray-600">
+          No transactions are waiting for approval.
+        </div>
+      )}
+      {pending?.map((request) => (
+        <div key={request.id} className="rounded border p-3 space-y-2">
+          <pre className="whitespace-pre-wrap text-sm">{request.summary}</pre>
+          <div className="text-xs text-gray-600">
+            {request.action} · requested{" "}
+            {new Date(request.createdAt).toLocaleString()}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              className="rounded bg-primary px-3 py-1 text-primary-foreground"
+              disabled={decide.isPending}
+              onClick={() =>
+                decide.mutate({ id: request.id, decision: "approve" })
+              }
+            >
+              Approve
+            </button>
+            <button
+              type="button"
+              className="rounded bg-destructive px-3 py-1 text-destructive-foreground"
+              disabled={decide.isPending}
+              onClick={() =>
+                decide.mutate({ id: request.id, decision: "reject" })
+              }
+            >
+              Reject
+            </button>
+          </div>
+        </div>
+      ))}
+      {!!decided?.length && (
+        <>
+          <h2 className="text-lg font-medium">Recent decisions</h2>
+          <ul className="space-y-1 text-sm">
+            {decided.map((request) => (
+              <li key={request.id}>
+                <span
+                  className={request.status === "failed" ? "text-red-600" : ""}
+                >
+                  {request.status}
+                </span>{" "}
+                by {request.decidedBy}: {request.summary.split("\n")[0]}
+                {request.outcome?.digest && ` (${request.outcome.digest})`}
+                {request.outcome &&
+                  !request.outcome.success &&
+                  ` - ${request.outcome.text}`}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * 承認キューのパネルコンポーネント
+ */
+const ApprovalsPanel: React.FC<PanelProps> = ({ agentId }) => {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <ApprovalQueue agentId={agentId} />
+    </QueryClientProvider>
+  );
+};
+
+// タイムラインの状態ごとの文字色
+const ACTIVITY_STATUS_CLASS: Record<ActivityStatus, string> = {
+  running: "text-gray-600",
+  succeeded: "text-green-600",
+  failed: "text-red-600",
+};
+
+/**
+ * ダイジェストのトランザクションを、ウォレットから見た内容（状態・ガス・残高変化・呼び出し）で表示します。
+ */
+function TransactionExplorer({
+  agentId,
+  digest,
+  onBack,
+}: PanelProps & { digest: string; onBack: () => void }) {
+  const transaction = useQuery({
+    queryKey: ["sui-tx", agentId, digest],
+    queryFn: () =>
+      fetchJson<{ data: TransactionSummary }>(
+        apiUrl(`/sui/tx/${encodeURIComponent(digest)}`, agentId),
+      ),
+  });
+
+  let details: React.ReactNode;
+  if (transaction.isLoading) {
+    details = <LoadingState label="transaction" />;
+  } else if (transaction.isError) {
+    details = (
+      <ErrorState
+        agentId={agentId}
+        error={transaction.error}
+        onRetry={() => transaction.refetch()}
+      />
+    );
+  } else if (transaction.data) {
+    const tx = transaction.data.data;
+    details = (
+      <dl
+        className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm"
+        data-testid="transaction"
+      >
+        <dt className="text-gray-600">Status</dt>
+        <dd className={tx.status === "success" ? "" : "text-red-600"}>
+          {tx.status}
+        </dd>
+        <dt className="text-gray-600">Time</dt>
+        <dd>
+          {tx.timestampMs ? new Date(tx.timestampMs).toLocaleString() : "-"}
+        </dd>
+        <dt className="text-gray-600">Sender</dt>
+        <dd className="font-mono break-all">{tx.sender ?? "-"}</dd>
+        <dt className="text-gray-600">Gas</dt>
+        <dd>{mistToSui(tx.gasUsed)} SUI</dd>
+        <dt className="text-gray-600">Balance changes</dt>
+        <dd>
+          {tx.balanceChanges.length === 0
+            ? "-"
+            : tx.balanceChanges
+                .map(
+                  (change) =>
+                    `${change.amount.startsWith("-") ? "" : "+"}${change.amount} ${change.symbol}`,
+                )
+                .join(", ")}
+        </dd>
+        <dt className="text-gray-600">Counterparties</dt>
+        <dd className="font-mono break-all">
+          {tx.counterparties.join(", ") || "-"}
+        </dd>
+        <dt className="text-gray-600">Move calls</dt>
+        <dd className="font-mono break-all">
+          {tx.moveCalls.join(", ") || "-"}
+        </dd>
+      </dl>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <button type="button" className="text-sm underline" onClick={onBack}>
+        Back to activity
+      </button>
+      <h2 className="text-lg font-medium">Transaction</h2>
+      <div className="font-mono text-sm break-all" data-testid="digest">
+        {digest}
+      </div>
+      {details}
+    </div>
+  );
+}
+
+/**
+ * エージェントのアクション実行をポーリングで取得し、アクション名・状態で絞り込めるタイムラインとして表示します。
+ * ダイジェストを選ぶと、そのトランザクションの内容をパネル内で表示します。
+ */
+function ActivityTimeline({ agentId }: PanelProps) {
+  const [action, setAction] = React.useState("");
+  const [status, setStatus] = React.useState("");
+  const [digest, setDigest] = React.useState<string | null>(null);
+  const activity = useQuery({
+    queryKey: ["sui-activity", agentId, action, status],
+    queryFn: () =>
+      fetchJson<{ activity: ActivityEntry[]; actions: string[] }>(
+        apiUrl("/sui/activity", agentId, { action, status }),
+      ),
+    refetchInterval: 3000,
+  });
+
+  if (digest) {
+    return (
+      <div className="p-4">
+        <TransactionExplorer
+          agentId={agentId}
+          digest={digest}
+          onBack={() => setDigest(null)}
+        />
+      </div>
+    );
+  }
+
+  let timeline: React.ReactNode;
+  if (activity.isLoading) {
+    timeline = <LoadingState label="activity" />;
+  } else if (activity.isError) {
+    timeline = (
+      <ErrorState
+        agentId={agentId}
+        error={activity.error}
+        onRetry={() => activity.refetch()}
+      />
+    );
+  } else if (!activity.data?.activity.length) {
+    timeline = <EmptyState>No actions have run yet.</EmptyState>;
+  } else {
+    timeline = (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th>Time</th>
+            <th>Action</th>
+            <th>Input</th>
+            <th>Status</th>
+            <th>Error</th>
+            <th>Digest</th>
+            <th className="text-right">Latency</th>
+          </tr>
+        </thead>
+        <tbody>
+          {activity.data.activity.map((entry) => (
+            <tr key={entry.id} data-testid="activity-row">
+              <td>{new Date(entry.startedAt).toLocaleTimeString()}</td>
+              <td className="font-mono">{entry.action}</td>
+              <td className="max-w-xs truncate" title={entry.input ?? ""}>
+                {entry.input ?? "-"}
+              </td>
+              <td className={ACTIVITY_STATUS_CLASS[entry.status]}>
+                {entry.status}
+              </td>
+              <td title={entry.error ?? ""}>{entry.errorCode ?? "-"}</td>
+              <td>
+                {entry.digest ? (
+                  <a
+                    href={`#tx/${entry.digest}`}
+                    className="font-mono underline"
+                    title={entry.digest}
+                    onClick={(event) => {
+                      event.preventDefault();
+                      setDigest(entry.digest);
+                    }}
+                  >
+                    {shorten(entry.digest)}
+                  </a>
+                ) : (
+                  "-"
+                )}
+              </td>
+              <td className="text-right">
+                {entry.latencyMs === null ? "-" : `${entry.latencyMs} ms`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <h2 className="text-lg font-medium">Activity</h2>
+      <div className="flex gap-2 text-sm">
+        <select
+          aria-label="Action"
+          data-testid="action-filter"
+          className="rounded border px-2 py-1"
+          value={action}
+          onChange={(event) => setAction(event.target.value)}
+        >
+          <option value="">All actions</option>
+          {activity.data?.actions.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Status"
+          data-testid="status-filter"
+          className="rounded border px-2 py-1"
+          value={status}
+          onChange={(event) => setStatus(event.target.value)}
+        >
+          <option value="">All statuses</option>
+          <option value="running">Running</option>
+          <option value="succeeded">Succeeded</option>
+          <option value="failed">Failed</option>
+        </select>
+      </div>
+      {timeline}
+    </div>
+  );
+}
+
+/**
+ * アクション実行のタイムラインのパネルコンポーネント
+ */
+const ActivityPanel: React.FC<PanelProps> = ({ agentId }) => {
+  return (
+    <QueryClientProvider client={queryClient}>
+      <ActivityTimeline agentId={agentId} />
+    </QueryClientProvider>
+  );
 };
 
 // エージェントUIとの統合のためにパネル設定をエクスポート
 export const panels: AgentPanel[] = [
   {
-    name: "Example",
-    path: "example",
-    component: PanelComponent,
-    icon: "Book",
+    name: "Wallet",
+    path: "sui-wallet",
+    component: WalletPanel,
+    icon: "Wallet",
+    public: false,
+    shortLabel: "Wallet",
+  },
+  {
+    name: "Activity",
+    path: "sui-activity",
+    component: ActivityPanel,
+    icon: "Activity",
     public: false,
-    shortLabel: "Example",
+    shortLabel: "Activity",
+  },
+  {
+    name: "Approvals",
+    path: "sui-approvals",
+    component: ApprovalsPanel,
+    icon: "ShieldCheck",
+    public: false,
+    shortLabel: "Approvals",
   },
 ];
 
 // utilsファイルから全てをエクスポート
 export * from "./utils";
-
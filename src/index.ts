@@ -1,28 +1,40 @@
 // ElizaOSコアから必要なモジュールをインポートします。
 import {
   logger, // ロギング用のモジュール
+  type Character, // キャラクター設定の型定義
   type IAgentRuntime, // エージェントのランタイム環境の型定義
   type Project, // プロジェクト全体の型定義
   type ProjectAgent, // プロジェクトエージェントの型定義
 } from "@elizaos/core";
-// スタータープラグインをインポートします。
-import starterPlugin from "./plugins/plugin.ts";
+// スタータープラグインと、役割ごとのプラグインを作る関数をインポートします。
+import starterPlugin, { createSuiAgentPlugin } from "./plugins/plugin.ts";
 // サンプルのキャラクター設定をインポートします。
 import { character } from "./characters/sample.ts";
+// Suiエージェントのチームのキャラクター設定をインポートします。
+import { analystCharacter } from "./characters/analyst.ts";
+import { opsCharacter } from "./characters/ops.ts";
+import { traderCharacter } from "./characters/trader.ts";
 
 /**
- * デフォルトのキャラクターを初期化する関数です。
+ * キャラクターを初期化する関数です。
  * @param {object} param - ランタイム情報を含むオブジェクト
  * @param {IAgentRuntime} param.runtime - エージェントのランタイム環境
+ * @param {Character} param.character - 初期化するキャラクター（既定: サンプルのキャラクター）
  */
-const initCharacter = ({ runtime }: { runtime: IAgentRuntime }) => {
+const initCharacter = ({
+  runtime,
+  character: agentCharacter = character,
+}: {
+  runtime: IAgentRuntime;
+  character?: Character;
+}) => {
   logger.info("Initializing character"); // キャラクターの初期化開始をログに出力
-  logger.info({ name: character.name }, "Name:"); // キャラクター名をログに出力
+  logger.info({ name: agentCharacter.name }, "Name:"); // キャラクター名をログに出力
 };
 
 /**
  * Project Agent インスタンスを初期化します。
- * これがエージェントの本体設定です。
+ * 単一エージェントで動かす場合のサンプル設定です（projectのエージェントには含めていません）。
  */
 export const projectAgent: ProjectAgent = {
   character, // 使用するキャラクター設定
@@ -30,12 +42,42 @@ export const projectAgent: ProjectAgent = {
   // plugins: [starterPlugin], <-- ここでカスタムプラグインをインポートします
 };
 
+/**
+ * 読み取り専用のアナリストエージェントです。署名するアクションを含まないプラグインを読み込みます。
+ */
+export const analystAgent: ProjectAgent = {
+  character: analystCharacter,
+  init: async (runtime: IAgentRuntime) =>
+    await initCharacter({ runtime, character: analystCharacter }),
+  plugins: [createSuiAgentPlugin("analyst")],
+};
+
+/**
+ * 送金とスワップを担当するトレーダーエージェントです。
+ */
+export const traderAgent: ProjectAgent = {
+  character: traderCharacter,
+  init: async (runtime: IAgentRuntime) =>
+    await initCharacter({ runtime, character: traderCharacter }),
+  plugins: [createSuiAgentPlugin("trader")],
+};
+
+/**
+ * ステーキングと管理操作を担当するオペレーターエージェントです。
+ */
+export const opsAgent: ProjectAgent = {
+  character: opsCharacter,
+  init: async (runtime: IAgentRuntime) =>
+    await initCharacter({ runtime, character: opsCharacter }),
+  plugins: [createSuiAgentPlugin("ops")],
+};
+
 /**
  * プロジェクト全体の設定です。
- * 複数のエージェントを定義できます。
+ * 役割の異なる3つのSuiエージェントが共有ルームで依頼を引き継ぎ合います。
  */
 const project: Project = {
-  agents: [projectAgent], // このプロジェクトで利用するエージェントのリスト
+  agents: [analystAgent, traderAgent, opsAgent], // このプロジェクトで利用するエージェントのリスト
 };
 
 // プロジェクト設定をデフォルトエクスポートします。
@@ -0,0 +1,311 @@
+// ElizaOSコアから型とロガーをインポートします。
+import {
+  type GenerateTextParams,
+  type IAgentRuntime,
+  type TextEmbeddingParams,
+  logger,
+} from "@elizaos/core";
+import { createHash } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+// zodをインポートして、フィクスチャファイルを検証します。
+import { z } from "zod";
+import defaultFixtures from "./fixtures.json";
+
+/** 既定の埋め込みベクトルの次元数（plugin-sqlが対応する次元の1つ） */
+export const DEFAULT_EMBEDDING_DIMENSIONS = 384;
+
+// 応答は文字列か、JSONとして返すオブジェクトです
+const responseSchema = z.union([z.string(), z.record(z.string(), z.unknown())]);
+
+/**
+ * フィクスチャファイルのスキーマです。
+ * rulesを上から順にプロンプトと照合し、最初に一致した規則の応答を返します。
+ */
+export const mockModelFixtureSchema = z.object({
+  fallback: responseSchema,
+  rules: z.array(
+    z
+      .object({
+        name: z.string().min(1),
+        models: z.array(z.string().min(1)).optional(), // 対象のモデル（省略時はすべてのテキストモデル）
+        match: z.string().min(1), // 正規表現のソース
+        flags: z
+          .string()
+          .regex(/^[imsu]*$/, "Only the i, m, s and u flags are supported")
+          .optional(),
+        response: responseSchema,
+      })
+      .refine(
+        (rule) => {
+          try {
+            new RegExp(rule.match, rule.flags);
+            return true;
+          } catch {
+            return false;
+          }
+        },
+        {
+          message: "match must be a valid regular expression",
+          path: ["match"],
+        },
+      ),
+  ),
+});
+
+/** フィクスチャファイルの内容 */
+export type MockModelFixture = z.infer<typeof mockModelFixtureSchema>;
+
+/** どの規則にも一致しなかったプロンプトの記録 */
+export interface UnmatchedPrompt {
+  modelType: string;
+  prompt: string;
+  timestamp: number;
+}
+
+// 応答中の$1や$<name>を一致したグループで置き換えます（$$は$そのもの）
+function substitute(template: string, match: RegExpExecArray): string {
+  return template.replace(
+    /\$(\$|\d+|<([A-Za-z_]\w*)>)/g,
+    (token, ref: string, name?: string) => {
+      if (ref === "$") return "$";
+      const value = name ? match.groups?.[name] : match[Number(ref)];
+      return value === undefined ? token : value;
+    },
+  );
+}
+
+// オブジェクトの応答では文字列の値だけを置き換えます（引用符などを含んでもJSONが壊れないように）
+function substituteValue(value: unknown, match: RegExpExecArray): unknown {
+  if (typeof value === "string") return substitute(value, match);
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteValue(item, match));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        substituteValue(item, match),
+      ]),
+    );
+  }
+  return value;
+}
+
+/**
+ * フィクスチャの規則でプロンプトに応答する、API キー不要の決定的なモデルです。
+ * 一致しなかったプロンプトは記録し、フィクスチャを追加する手がかりにします。
+ */
+export class ScriptedModel {
+  private readonly rules: {
+    name: string;
+    models?: string[];
+    pattern: RegExp;
+    response: MockModelFixture["fallback"];
+  }[];
+  private readonly fallback: MockModelFixture["fallback"];
+  private readonly unmatched: UnmatchedPrompt[] = [];
+
+  constructor(
+    fixture: MockModelFixture,
+    private readonly unmatchedLogPath?: string,
+  ) {
+    this.rules = fixture.rules.map((rule) => ({
+      name: rule.name,
+      models: rule.models,
+      pattern: new RegExp(rule.match, rule.flags),
+      response: rule.response,
+    }));
+    this.fallback = fixture.fallback;
+  }
+
+  /**
+   * プロンプトに対する応答を返します。
+   *
+   * @param {string} modelType - 呼び出されたモデルの種類
+   * @param {string} prompt - プロンプト
+   * @returns {Promise<{ rule: string | null; text: string }>} - 一致した規則の名前（無ければnull）と応答
+   */
+  async respond(
+    modelType: string,
+    prompt: string,
+  ): Promise<{ rule: string | null; text: string }> {
+    for (const rule of this.rules) {
+      if (rule.models && !rule.models.includes(modelType)) continue;
+      const match = rule.pattern.exec(prompt);
+      if (!match) continue;
+      const response = substituteValue(rule.response, match);
+      return {
+        rule: rule.name,
+        text:
+          typeof response === "string" ? response : JSON.stringify(response),
+      };
+    }
+
+    await this.recordUnmatched({ modelType, prompt, timestamp: Date.now() });
+    return {
+      rule: null,
+      text:
+        typeof this.fallback === "string"
+          ? this.fallback
+          : JSON.stringify(this.fallback),
+    };
+  }
+
+  /**
+   * これまでに一致しなかったプロンプトを返します。
+   *
+   * @returns {UnmatchedPrompt[]} - 古い順の記録
+   */
+  getUnmatchedPrompts(): UnmatchedPrompt[] {
+    return [...this.unmatched];
+  }
+
+  /** 一致しなかったプロンプトの記録を消去します（ログファイルはそのまま残ります）。 */
+  clearUnmatchedPrompts(): void {
+    this.unmatched.length = 0;
+  }
+
+  private async recordUnmatched(entry: UnmatchedPrompt): Promise<void> {
+    this.unmatched.push(entry);
+    logger.warn(
+      {
+        modelType: entry.modelType,
+        prompt: entry.prompt.slice(0, 200),
+      },
+      "Mock model has no fixture for this prompt; returning the fallback",
+    );
+    if (!this.unmatchedLogPath) return;
+    try {
+      await appendFile(this.unmatchedLogPath, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      logger.warn(
+        {
+          path: this.unmatchedLogPath,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Could not append to the mock model unmatched prompt log",
+      );
+    }
+  }
+}
+
+/**
+ * テキストを決定的な埋め込みベクトルに変換します。
+ * 単語と単語内の2文字ずつをハッシュして次元に振り分けるため、語が重なるテキストほど近いベクトルになります。
+ *
+ * @param {string} text - 埋め込むテキスト
+ * @param {number} dimensions - ベクトルの次元数
+ * @returns {number[]} - L2ノルムが1のベクトル（特徴が無い場合は先頭だけ0.1）
+ */
+export function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text
+    .normalize("NFKC")
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu);
+  const features: [string, number][] = [];
+  for (const word of words ?? []) {
+    features.push([`w:${word}`, 1]);
+    // 空白で区切らない日本語でも部分的に一致するよう、2文字ずつの特徴も加えます
+    const chars = [...word];
+    for (let i = 0; i < chars.length - 1; i++) {
+      features.push([`b:${chars[i]}${chars[i + 1]}`, 0.5]);
+    }
+  }
+  for (const [feature, weight] of features) {
+    const digest = createHash("sha256").update(feature).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] & 1 ? weight : -weight;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  if (norm === 0) {
+    vector[0] = 0.1;
+    return vector;
+  }
+  return vector.map((value) => value / norm);
+}
+
+// ランタイムの設定、無ければ環境変数から値を読みます
+function readSetting(runtime: IAgentRuntime, key: string): string | undefined {
+  const value = runtime?.getSetting?.(key) ?? process.env[key];
+  return value === undefined || value === null || String(value).trim() === ""
+    ? undefined
+    : String(value).trim();
+}
+
+const models = new Map<string, ScriptedModel>();
+
+/**
+ * 設定に応じたモックモデルを返します。
+ * MOCK_MODEL_FIXTURESでフィクスチャファイルを差し替え、MOCK_MODEL_UNMATCHED_LOGに一致しなかったプロンプトをJSONLで追記します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {ScriptedModel} - 同じ設定では同じインスタンス
+ */
+export function getScriptedModel(runtime: IAgentRuntime): ScriptedModel {
+  const fixturesPath = readSetting(runtime, "MOCK_MODEL_FIXTURES");
+  const logPath = readSetting(runtime, "MOCK_MODEL_UNMATCHED_LOG");
+  const key = `${fixturesPath ?? ""}\0${logPath ?? ""}`;
+  const cached = models.get(key);
+  if (cached) return cached;
+
+  const raw = fixturesPath
+    ? JSON.parse(readFileSync(fixturesPath, "utf8"))
+    : defaultFixtures;
+  const parsed = mockModelFixtureSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid mock model fixtures${fixturesPath ? ` in ${fixturesPath}` : ""}:\n${parsed.error.issues
+        .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+        .join("\n")}`,
+    );
+  }
+  const model = new ScriptedModel(parsed.data, logPath);
+  models.set(key, model);
+  return model;
+}
+
+/**
+ * テキストモデルのハンドラーを作成します。
+ *
+ * @param {string} modelType - 登録するモデルの種類
+ * @returns モデルハンドラー
+ */
+export function createMockTextModel(modelType: string) {
+  return async (
+    runtime: IAgentRuntime,
+    { prompt }: GenerateTextParams,
+  ): Promise<string> => {
+    const { rule, text } = await getScriptedModel(runtime).respond(
+      modelType,
+      prompt,
+    );
+    logger.debug({ modelType, rule }, "Mock model answered");
+    return text;
+  };
+}
+
+/**
+ * 埋め込みモデルのハンドラーです。次元数はMOCK_MODEL_EMBEDDING_DIMENSIONSで変更できます。
+ * ランタイムが次元数を調べるためにnullで呼び出した場合も、同じ次元のベクトルを返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {TextEmbeddingParams | string | null} params - 埋め込むテキスト
+ * @returns {Promise<number[]>} - 埋め込みベクトル
+ */
+export async function mockEmbeddingModel(
+  runtime: IAgentRuntime,
+  params: TextEmbeddingParams | string | null,
+): Promise<number[]> {
+  const configured = Number(
+    readSetting(runtime, "MOCK_MODEL_EMBEDDING_DIMENSIONS"),
+  );
+  const dimensions =
+    Number.isInteger(configured) && configured > 0
+      ? configured
+      : DEFAULT_EMBEDDING_DIMENSIONS;
+  const text = typeof params === "string" ? params : (params?.text ?? "");
+  return hashEmbedding(text, dimensions);
+}
@@ -4,32 +4,73 @@ import {
   type Action, // アクションの型
   type ActionResult, // アクション実行結果の型
   type Content, // メッセージ内容の型
-  type GenerateTextParams, // テキスト生成パラメータの型
   type HandlerCallback, // ハンドラコールバックの型
   type IAgentRuntime, // エージェントランタイムの型
   type Memory, // メモリ（メッセージ）の型
   ModelType, // モデルタイプの列挙型
   type Provider, // プロバイダーの型
   type ProviderResult, // プロバイダー結果の型
-  Service, // サービスの基底クラス
   type State, // 状態の型
   logger, // ロガー
 } from "@elizaos/core";
-// zodをインポートして、設定のバリデーションを行います。
-import { z } from "zod";
+// オフラインで使えるモックモデルをインポートします。
+import { createMockTextModel, mockEmbeddingModel } from "./mock/model.ts";
+// Suiプラグインの設定スキーマをインポートします。
+import {
+  SUI_CONFIG_KEYS,
+  SUI_SECRET_CONFIG_KEYS,
+  parseSuiConfig,
+  redactSuiConfig,
+} from "./sui/config.ts";
+// APIルートの認証設定の確認をインポートします。
+import { isApiAuthEnabled } from "./sui/auth.ts";
+// Suiの支出ポリシーをインポートします。
+import { getSpendingPolicy } from "./sui/policy.ts";
+// Suiウォレットサービスをインポートします。
+import { SuiWalletService } from "./sui/service.ts";
+// オンチェーンイベントの購読サービスと通知をインポートします。
+import {
+  SUI_EVENT_RECEIVED,
+  SuiEventService,
+  postSuiEventNotice,
+} from "./sui/events.ts";
+// Suiのアクションをインポートします。
+import { suiMyAddressAction } from "./sui/actions/address.ts";
+import { suiExplainTransactionAction } from "./sui/actions/explainTx.ts";
+import { suiHandoffAction } from "./sui/actions/handoff.ts";
+import { suiTransactionHistoryAction } from "./sui/actions/history.ts";
+import { suiMoveCallAction } from "./sui/actions/moveCall.ts";
+import { suiListObjectsAction } from "./sui/actions/objects.ts";
+import { suiRotateKeyAction } from "./sui/actions/rotateKey.ts";
+import {
+  suiListStakesAction,
+  suiStakeAction,
+  suiUnstakeAction,
+} from "./sui/actions/staking.ts";
+import { suiSwapAction } from "./sui/actions/swap.ts";
+import { suiTransferAction } from "./sui/actions/transfer.ts";
+import { suiTransferObjectAction } from "./sui/actions/transferObject.ts";
+// Suiのプロバイダーをインポートします。
+import { suiTransactionHistoryProvider } from "./sui/providers/history.ts";
+import { suiOwnedObjectsProvider } from "./sui/providers/objects.ts";
+import { suiPortfolioProvider } from "./sui/providers/portfolio.ts";
+import { suiStakingProvider } from "./sui/providers/staking.ts";
+// SuiのAPIルート（パネルのサインイン・承認キュー・ダッシュボード・アクションのタイムライン・読み取り用API・管理用）をインポートします。
+import {
+  suiActivityRoutes,
+  suiAdminRoutes,
+  suiApprovalRoutes,
+  suiDashboardRoutes,
+  suiReadApiRoutes,
+  suiSessionRoutes,
+} from "./sui/routes.ts";
+// アクション実行のタイムラインへの記録をインポートします。
+import { recordActionCompleted, recordActionStarted } from "./sui/activity.ts";
+// マルチエージェント構成の役割をインポートします。
+import type { SuiAgentRole } from "./sui/team.ts";
 
-/**
- * プラグイン設定のスキーマを定義します。
- *
- * @param {string} EXAMPLE_PLUGIN_VARIABLE - プラグイン名の例（最小長1、オプション）
- * @returns {object} - 設定スキーマオブジェクト
- */
-const configSchema = z.object({
-  EXAMPLE_PLUGIN_VARIABLE: z
-    .string()
-    .min(1, "Example plugin variable is not provided")
-    .optional(),
-});
+// アクションやテストから利用できるようにサービスを再エクスポートします。
+export { SuiWalletService };
 
 /**
  * HelloWorldアクションの例です。
@@ -156,98 +197,57 @@ const helloWorldProvider: Provider = {
   },
 };
 
-/**
- * スターターサービスのクラス定義です。
- */
-export class StarterService extends Service {
-  static serviceType = "starter"; // サービスタイプ
-  capabilityDescription =
-    "This is a starter service which is attached to the agent through the starter plugin."; // サービスの説明
-
-  constructor(runtime: IAgentRuntime) {
-    super(runtime);
-  }
-
-  // サービスを開始する静的メソッド
-  static async start(runtime: IAgentRuntime) {
-    logger.info("*** Starting starter service ***");
-    if (runtime.getService(StarterService.serviceType)) {
-      throw new Error("Starter service already registered");
-    }
-    const service = new StarterService(runtime);
-    return service;
-  }
-
-  // サービスを停止する静的メソッド
-  static async stop(runtime: IAgentRuntime) {
-    logger.info("*** Stopping starter service ***");
-    // ランタイムからサービスを取得
-    const service = runtime.getService(StarterService.serviceType);
-    if (!service) {
-      throw new Error("Starter service not found");
-    }
-    service.stop();
-  }
-
-  // サービスインスタンスを停止するメソッド
-  async stop() {
-    logger.info("*** Stopping starter service instance ***");
-  }
-}
-
 // プラグイン本体の定義
 const plugin: Plugin = {
   name: "starter", // プラグイン名
   description: "A starter plugin for Eliza", // プラグインの説明
   // 優先度を低く設定し、実際のモデルが優先されるようにします
   priority: -1000,
-  // プラグインの設定
-  config: {
-    EXAMPLE_PLUGIN_VARIABLE: process.env.EXAMPLE_PLUGIN_VARIABLE,
-  },
+  // プラグインの設定（スキーマは./sui/config.tsを参照）
+  config: Object.fromEntries(
+    SUI_CONFIG_KEYS.map((key) => [key, process.env[key]]),
+  ),
   // プラグインの初期化関数
-  async init(config: Record<string, string>) {
+  async init(config: Record<string, string>, runtime?: IAgentRuntime) {
     logger.info("*** Initializing starter plugin ***");
-    try {
-      // 設定をバリデーション
-      const validatedConfig = await configSchema.parseAsync(config);
+    // 設定をバリデーション（不正なキーがあれば全てまとめて即座にエラー）
+    const validatedConfig = parseSuiConfig(config);
+    // 秘密鍵の値はログに出力しない
+    logger.info({ config: redactSuiConfig(validatedConfig) }, "Sui config");
 
-      // 全ての環境変数を一度に設定
-      for (const [key, value] of Object.entries(validatedConfig)) {
-        if (value) process.env[key] = value;
+    // 指定された設定値だけを環境変数に設定（既定値で既存の値を上書きしない）
+    // 秘密鍵・パスフレーズ・ニーモニックは他のプラグインからも読めてしまうため環境変数には書き出さない
+    for (const [key, value] of Object.entries(validatedConfig)) {
+      if ((SUI_SECRET_CONFIG_KEYS as readonly string[]).includes(key)) {
+        continue;
       }
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        throw new Error(
-          `Invalid plugin configuration: ${error.errors.map((e) => e.message).join(", ")}`,
-        );
+      if (config[key] && value !== undefined) {
+        process.env[key] = String(value);
       }
-      throw error;
+    }
+
+    // APIルートの認証が無効なまま起動する場合は警告する
+    if (!isApiAuthEnabled(validatedConfig)) {
+      logger.warn(
+        validatedConfig.SUI_API_ALLOW_UNAUTHENTICATED
+          ? "Sui API routes are open to anyone who can reach the server; set SUI_API_KEYS or SUI_API_TOKEN_SECRET to require credentials"
+          : "Sui API routes that need the operator or admin role are disabled; set SUI_API_KEYS or SUI_API_TOKEN_SECRET to enable them",
+      );
+    }
+
+    // キャラクターに宣言された支出ポリシーも起動時に検証する
+    if (runtime) {
+      const policy = getSpendingPolicy(runtime);
+      logger.info({ policy }, "Sui spending policy");
     }
   },
   // このプラグインが提供するモデル
   models: {
-    // 小規模なテキストモデル（ダミー）
-    [ModelType.TEXT_SMALL]: async (
-      _runtime,
-      { prompt, stopSequences = [] }: GenerateTextParams,
-    ) => {
-      return "Never gonna give you up, never gonna let you down, never gonna run around and desert you...";
-    },
-    // 大規模なテキストモデル（ダミー）
-    [ModelType.TEXT_LARGE]: async (
-      _runtime,
-      {
-        prompt,
-        stopSequences = [],
-        maxTokens = 8192,
-        temperature = 0.7,
-        frequencyPenalty = 0.7,
-        presencePenalty = 0.7,
-      }: GenerateTextParams,
-    ) => {
-      return "Never gonna make you cry, never gonna say goodbye, never gonna tell a lie and hurt you...";
-    },
+    // フィクスチャの規則で応答するモックモデル（APIキー不要、モデルプラグインがあればそちらが優先されます）
+    [ModelType.TEXT_SMALL]: createMockTextModel(ModelType.TEXT_SMALL),
+    [ModelType.TEXT_LARGE]: createMockTextModel(ModelType.TEXT_LARGE),
+    // ハッシュによる決定的な埋め込みベクトル
+    [ModelType.TEXT_EMBEDDING]: mockEmbeddingModel,
   },
   // このプラグインが提供するAPIルート
   routes: [
@@ -262,6 +262,18 @@ const plugin: Plugin = {
         });
       },
     },
+    // パネルのサインイン（APIキーと短命のトークンの引き換え）
+    ...suiSessionRoutes,
+    // 承認キューの一覧・承認・却下
+    ...suiApprovalRoutes,
+    // ウォレットのダッシュボード
+    ...suiDashboardRoutes,
+    // アクション実行のタイムライン
+    ...suiActivityRoutes,
+    // ウォレットの読み取り用API
+    ...suiReadApiRoutes,
+    // 支出ポリシー、アクセスと署名したトランザクションの監査ログ（管理者のみ）
+    ...suiAdminRoutes,
   ],
   // このプラグインがリッスンするイベント
   events: {
@@ -302,14 +314,90 @@ const plugin: Plugin = {
         logger.info({ keys: Object.keys(params) }, "WORLD_JOINED param keys");
       },
     ],
+    // アクションの開始・完了をタイムラインに記録
+    ACTION_STARTED: [recordActionStarted],
+    ACTION_COMPLETED: [recordActionCompleted],
+    // SuiEventServiceが発行したオンチェーンのできごとを設定したルームに通知
+    [SUI_EVENT_RECEIVED]: [postSuiEventNotice],
   },
   // このプラグインが提供するサービス
-  services: [StarterService],
+  services: [SuiWalletService, SuiEventService],
   // このプラグインが提供するアクション
-  actions: [helloWorldAction],
+  actions: [
+    helloWorldAction,
+    suiTransferAction,
+    suiMoveCallAction,
+    suiTransactionHistoryAction,
+    suiSwapAction,
+    suiStakeAction,
+    suiUnstakeAction,
+    suiListStakesAction,
+    suiListObjectsAction,
+    suiTransferObjectAction,
+    suiMyAddressAction,
+    suiRotateKeyAction,
+    suiExplainTransactionAction,
+    suiHandoffAction,
+  ],
   // このプラグインが提供するプロバイダー
-  providers: [helloWorldProvider],
+  providers: [
+    helloWorldProvider,
+    suiPortfolioProvider,
+    suiTransactionHistoryProvider,
+    suiStakingProvider,
+    suiOwnedObjectsProvider,
+  ],
 };
 
+// どの役割でも使える読み取り専用のSuiアクションと引き継ぎ
+const READ_ONLY_SUI_ACTIONS = [
+  "SUI_MY_ADDRESS",
+  "SUI_TX_HISTORY",
+  "SUI_LIST_STAKES",
+  "SUI_LIST_OBJECTS",
+  "SUI_EXPLAIN_TX",
+  "SUI_HANDOFF",
+];
+
+/**
+ * 役割ごとに使えるSuiアクションです。ここに無いアクションはその役割のプラグインに含めません。
+ */
+export const SUI_ROLE_ACTIONS: Record<SuiAgentRole, readonly string[]> = {
+  analyst: READ_ONLY_SUI_ACTIONS,
+  trader: [
+    ...READ_ONLY_SUI_ACTIONS,
+    "SUI_TRANSFER",
+    "SUI_TRANSFER_OBJECT",
+    "SUI_SWAP",
+  ],
+  ops: [
+    ...READ_ONLY_SUI_ACTIONS,
+    "SUI_STAKE",
+    "SUI_UNSTAKE",
+    "SUI_MOVE_CALL",
+    "SUI_ROTATE_KEY",
+  ],
+};
+
+/**
+ * 役割に応じてSuiアクションを絞り込んだプラグインを作ります。
+ * サービス・プロバイダー・ルートは共通で、署名するアクションは役割が担当するものだけを含めます。
+ *
+ * @param {SuiAgentRole} role - エージェントの役割
+ * @returns {Plugin} - その役割のエージェントに読み込ませるプラグイン
+ */
+export function createSuiAgentPlugin(role: SuiAgentRole): Plugin {
+  const allowed = SUI_ROLE_ACTIONS[role];
+  return {
+    ...plugin,
+    name: `sui-${role}`,
+    description: `Sui wallet plugin for the ${role} agent`,
+    actions: plugin.actions?.filter(
+      (action) =>
+        !action.name.startsWith("SUI_") || allowed.includes(action.name),
+    ),
+  };
+}
+
 // プラグインをデフォルトエクスポート
 export default plugin;
@@ -0,0 +1,136 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { formatAddress } from "../names.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_MY_ADDRESS = "SUI_MY_ADDRESS";
+
+/**
+ * 送り主の入金用アドレスを返すアクションです。
+ * 預かりウォレットが有効な場合は送り主専用のウォレット（未作成なら作成）、無効な場合はエージェントのウォレットを返します。
+ */
+export const suiMyAddressAction: Action = {
+  name: SUI_MY_ADDRESS, // アクションの一意な名前
+  similes: ["MY_SUI_ADDRESS", "DEPOSIT_ADDRESS", "WALLET_ADDRESS"], // 類似のアクション名
+  description:
+    "Tells the user the Sui address of their wallet (and its SuiNS name, if any) so they can deposit funds to it.", // アクションの説明
+
+  // ウォレットのアドレスが分かる場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message, { signing: false });
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_MY_ADDRESS action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured",
+        );
+      }
+
+      const address = service.getAddress();
+      const name = await service.getNameResolver().lookupAddress(address);
+      const custodial = service.getOwnerEntityId() !== null;
+      const text = [
+        `${custodial ? "Your" : "My"} Sui address: ${formatAddress(address, name)}`,
+        `Send SUI or other Sui coins to this address on ${service.getConfig().SUI_NETWORK} to deposit.`,
+      ].join("\n");
+
+      await callback({
+        text,
+        actions: [SUI_MY_ADDRESS],
+        source: message.content.source,
+      });
+
+      return {
+        text,
+        values: {
+          success: true,
+          suiAddress: address,
+          suiName: name,
+        },
+        data: {
+          actionName: SUI_MY_ADDRESS,
+          address,
+          name,
+          custodial,
+          messageId: message.id,
+          timestamp: Date.now(),
+        },
+        success: true,
+      };
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_MY_ADDRESS,
+        error,
+        SuiErrorCode.WALLET_UNAVAILABLE,
+      );
+      await callback({
+        text: `Could not get your Sui address: ${result.text}`,
+        actions: [SUI_MY_ADDRESS],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What's my Sui deposit address?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Your Sui address: 0x8c2f...a8c0e\nSend SUI or other Sui coins to this address on mainnet to deposit.",
+          actions: [SUI_MY_ADDRESS],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "入金用のアドレスを教えて",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Your Sui address: 0x8c2f...a8c0e (alice.sui)",
+          actions: [SUI_MY_ADDRESS],
+        },
+      },
+    ],
+  ],
+};
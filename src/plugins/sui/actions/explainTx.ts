@@ -0,0 +1,175 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import {
+  decodeTransaction,
+  explainTransaction,
+  extractTransactionBytes,
+  formatExplanation,
+} from "../explain.ts";
+import { getSpendingPolicy } from "../policy.ts";
+import { SuiWalletService } from "../service.ts";
+import { getWalletService } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_EXPLAIN_TX = "SUI_EXPLAIN_TX";
+
+/**
+ * 外部から渡されたシリアライズ済みのトランザクションを解読・ドライランし、何が起きるかを平易に説明するアクションです。
+ * 署名は一切行いません。未知のパッケージや残高の全額送付などをリスクとして示し、フィッシングのような依頼から利用者を守ります。
+ */
+export const suiExplainTransactionAction: Action = {
+  name: SUI_EXPLAIN_TX, // アクションの一意な名前
+  similes: [
+    "EXPLAIN_TRANSACTION",
+    "DECODE_TRANSACTION",
+    "SIMULATE_TRANSACTION",
+    "CHECK_TRANSACTION",
+  ], // 類似のアクション名
+  description:
+    "Decodes a serialized Sui transaction (base64 bytes pasted by the user), dry-runs it without signing, and explains in plain language what it would do: commands, packages called, coins moved and objects changed, with risk flags such as unknown packages or transfers of the whole balance. Use this before signing anything that came from outside.", // アクションの説明
+
+  // Suiウォレットサービスが起動していれば有効（署名鍵は不要）
+  validate: async (
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return runtime.getService(SuiWalletService.serviceType) !== null;
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_EXPLAIN_TX action"); // アクション処理開始のログ
+
+      // 送り主のウォレットを基準に説明する（未作成の預かりウォレットは作らない）
+      const service =
+        (await getWalletService(runtime, message, { create: false })) ??
+        runtime.getService<SuiWalletService>(SuiWalletService.serviceType);
+      if (!service) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet service is not running",
+        );
+      }
+
+      const serialized = extractTransactionBytes(message.content.text ?? "");
+      if (!serialized) {
+        throw new SuiActionError(
+          SuiErrorCode.INVALID_TRANSACTION,
+          "Paste the transaction as base64 bytes (for example from `sui client ... --serialize-unsigned-transaction`)",
+        );
+      }
+      const tx = decodeTransaction(serialized);
+      const walletAddress = service.hasSigner() ? service.getAddress() : null;
+      if (!tx.getData().sender && !walletAddress) {
+        throw new SuiActionError(
+          SuiErrorCode.INVALID_TRANSACTION,
+          "The transaction has no sender and there is no wallet to simulate it from",
+        );
+      }
+
+      const config = service.getConfig();
+      const explanation = await explainTransaction(service, tx, {
+        walletAddress,
+        trustedPackages: [
+          ...config.SUI_TRUSTED_PACKAGES,
+          ...(getSpendingPolicy(runtime).allowedPackages ?? []),
+        ],
+      });
+      const text = await formatExplanation(service, explanation);
+
+      await callback({
+        text,
+        actions: [SUI_EXPLAIN_TX],
+        source: message.content.source,
+      });
+
+      return {
+        text: `Explained transaction from ${explanation.sender}`,
+        values: {
+          success: true,
+          dryRunSuccess: explanation.dryRun.success,
+          riskFlags: explanation.risks.map((risk) => risk.code),
+        },
+        data: {
+          actionName: SUI_EXPLAIN_TX,
+          sender: explanation.sender,
+          commands: explanation.commands,
+          packages: explanation.packages,
+          calls: explanation.calls,
+          dryRun: explanation.dryRun,
+          balanceChanges: explanation.balanceChanges,
+          objectChanges: explanation.objectChanges,
+          objectsSent: explanation.objectsSent,
+          risks: explanation.risks,
+          messageId: message.id,
+          timestamp: Date.now(),
+        },
+        success: true,
+      };
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_EXPLAIN_TX,
+        error,
+        SuiErrorCode.EXPLAIN_FAILED,
+      );
+      await callback({
+        text: `Could not explain the transaction: ${result.text}`,
+        actions: [SUI_EXPLAIN_TX],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "A site asked me to sign this, what does it do? AAACAAgA6HZIFwAAAAAg...",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Transaction from 0x8c2f...a8c0e (this wallet):\n1. Transfer the gas coin to 0x4b1e...77d2\nRisk flags:\n- DRAINS_BALANCE: Transfers the whole gas coin, which usually holds all of the sender's SUI\nNothing was signed.",
+          actions: [SUI_EXPLAIN_TX],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "このトランザクションを署名する前に内容を確認して: AAACAAgA6HZIFwAAAAAg...",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Transaction from 0x8c2f...a8c0e (this wallet):\n1. Call 0x5c1d...9a2f::pool::swap with 3 argument(s)\nRisk flags:\n- UNKNOWN_PACKAGE: Calls package 0x5c1d...9a2f, which is not a Sui system package or on the trusted package list",
+          actions: [SUI_EXPLAIN_TX],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,196 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  type UUID,
+  logger,
+} from "@elizaos/core";
+import { postToRoom } from "../approval.ts";
+import { getSuiConfig } from "../config.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { extractSuiIntent } from "../intent.ts";
+import {
+  TEAM_SETTING,
+  findHandoffRole,
+  formatHandoff,
+  getTeamSettings,
+  isHandoffMessage,
+} from "../team.ts";
+
+/** アクション名 */
+export const SUI_HANDOFF = "SUI_HANDOFF";
+
+/**
+ * このエージェントの役割では扱えない依頼を、担当するエージェントに共有ルームで引き継ぐアクションです。
+ * 引き継ぎ先はキャラクターの`settings.suiTeam`から決め、SUI_HANDOFF_ROOM_ID（未設定なら依頼を受けたルーム）に投稿します。
+ */
+export const suiHandoffAction: Action = {
+  name: SUI_HANDOFF, // アクションの一意な名前
+  similes: ["HAND_OFF", "DELEGATE_REQUEST", "ASK_TEAMMATE"], // 類似のアクション名
+  description:
+    "Hands a Sui request that this agent's role cannot perform over to the teammate who can: the trader sends, transfers and swaps, the ops agent stakes, unstakes and runs admin calls, and the analyst answers read-only questions. Use this instead of refusing when another agent on the team owns the request.", // アクションの説明
+
+  // チーム構成が宣言されている場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    try {
+      return getTeamSettings(runtime) !== null;
+    } catch {
+      return false;
+    }
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_HANDOFF action"); // アクション処理開始のログ
+
+      const team = getTeamSettings(runtime);
+      if (!team) {
+        throw new SuiActionError(
+          SuiErrorCode.HANDOFF_FAILED,
+          `This agent has no ${TEAM_SETTING} settings, so there is no one to hand off to`,
+        );
+      }
+      const text = message.content.text?.trim() ?? "";
+      // 引き継がれてきた依頼をさらに引き継ぐと、エージェント同士で往復し続けてしまう
+      if (isHandoffMessage(text)) {
+        throw new SuiActionError(
+          SuiErrorCode.HANDOFF_FAILED,
+          "This request was already handed off once and will not be handed off again",
+        );
+      }
+
+      const intent = await extractSuiIntent(runtime, message);
+      const role = findHandoffRole(text, team, intent?.intent ?? null);
+      if (!role) {
+        throw new SuiActionError(
+          SuiErrorCode.HANDOFF_FAILED,
+          "Could not tell which teammate should handle this request",
+          { from: team.role },
+        );
+      }
+      const target = team.members[role];
+      if (!target) {
+        throw new SuiActionError(
+          SuiErrorCode.HANDOFF_FAILED,
+          `No ${role} agent is listed in ${TEAM_SETTING}.members`,
+          { from: team.role, to: role },
+        );
+      }
+
+      const handoff = {
+        from: team.role,
+        to: role,
+        requestedBy: message.entityId,
+        messageId: message.id,
+      };
+      const handoffText = formatHandoff(target, runtime.character.name, text);
+      const roomId = (getSuiConfig(runtime).SUI_HANDOFF_ROOM_ID ??
+        message.roomId) as UUID;
+
+      let reply = handoffText;
+      if (roomId !== message.roomId) {
+        // 専用の共有ルームに投稿し、依頼したユーザーには引き継いだことだけを伝える
+        const room = await runtime.getRoom(roomId);
+        if (!room) {
+          throw new SuiActionError(
+            SuiErrorCode.HANDOFF_FAILED,
+            `Handoff room ${roomId} was not found`,
+            { roomId },
+          );
+        }
+        await postToRoom(
+          runtime,
+          { roomId, source: room.source },
+          { text: handoffText, suiHandoff: handoff },
+        );
+        reply = `That needs the ${role} agent, so I handed it to ${target} in the team room.`;
+      }
+
+      await callback({
+        text: reply,
+        actions: [SUI_HANDOFF],
+        source: message.content.source,
+        suiHandoff: handoff,
+      });
+
+      return {
+        text: `Handed off to ${target}`,
+        values: {
+          success: true,
+          handoffTo: role,
+          handoffAgent: target,
+        },
+        data: {
+          actionName: SUI_HANDOFF,
+          ...handoff,
+          agent: target,
+          roomId,
+          timestamp: Date.now(),
+        },
+        success: true,
+      };
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_HANDOFF,
+        error,
+        SuiErrorCode.HANDOFF_FAILED,
+      );
+      await callback({
+        text: `Could not hand off the request: ${result.text}`,
+        actions: [SUI_HANDOFF],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Swap 5 SUI to USDC",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Handoff to Sui Trader from Sui Analyst: Swap 5 SUI to USDC",
+          actions: [SUI_HANDOFF],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "opsの担当者に10 SUIをステークするよう頼んで",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "That needs the ops agent, so I handed it to Sui Ops in the team room.",
+          actions: [SUI_HANDOFF],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,401 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { type SuiIntent, resolveSuiRequest } from "../intent.ts";
+import { type AddressNames, formatAddress } from "../names.ts";
+import {
+  type TransactionSummary,
+  fetchTransactionHistory,
+  formatTransactionHistory,
+  lookupHistoryNames,
+} from "../providers/history.ts";
+import type { SuiWalletService } from "../service.ts";
+import { formatAmount } from "../utils.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_TX_HISTORY = "SUI_TX_HISTORY";
+
+// 期間指定で履歴を遡る際に読むページ数の上限
+const MAX_PAGES = 5;
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * チャットから抽出した履歴リクエストです。
+ */
+export interface HistoryRequest {
+  since?: number; // この時刻以降のトランザクションのみ（ミリ秒）
+  until?: number; // この時刻より前のトランザクションのみ（ミリ秒）
+  label: string; // 期間の表示名（例: "today"）
+  limit: number; // 取得件数
+  more: boolean; // 前回の続きを取得するか
+}
+
+// 続きのページを取得するための状態（ルームごと）
+interface HistoryContinuation {
+  cursor: string; // 次のページのカーソル
+  since?: number;
+  until?: number;
+  label: string;
+  limit: number;
+}
+
+// UTCの日付の始まり（0時）を返します
+function startOfUtcDay(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+/**
+ * メッセージ本文から期間・件数・続きの指定を抽出します。
+ * 「today」「yesterday」「last 3 days」「past 12 hours」「今日」「昨日」「3日」などに対応します（日付はUTC）。
+ *
+ * @param {string} text - メッセージ本文
+ * @param {number} now - 現在時刻（テスト用）
+ * @returns {HistoryRequest} - 抽出結果
+ */
+export function parseHistoryRequest(
+  text: string,
+  now: number = Date.now(),
+): HistoryRequest {
+  const lower = text.toLowerCase();
+  const more = /\b(more|next|older|continue)\b|続き|もっと|次/.test(lower);
+  const countMatch = lower.match(
+    /\b(?:last|latest|recent)\s+(\d+)\s+(?:transactions?|txs?)\b|(\d+)\s*件/,
+  );
+  const limit = Math.min(Number(countMatch?.[1] ?? countMatch?.[2] ?? 10), 50);
+
+  const today = startOfUtcDay(now);
+  if (/\byesterday\b|昨日/.test(lower)) {
+    return {
+      since: today - DAY_MS,
+      until: today,
+      label: "yesterday",
+      limit,
+      more,
+    };
+  }
+  if (/\btoday\b|今日|本日/.test(lower)) {
+    return { since: today, label: "today", limit, more };
+  }
+  const span = lower.match(
+    /\b(?:last|past)\s+(\d+)\s*(hours?|days?)\b|(\d+)\s*(時間|日)/,
+  );
+  if (span) {
+    const amount = Number(span[1] ?? span[3]);
+    const unit = span[2] ?? span[4];
+    const hours = unit.startsWith("hour") || unit === "時間";
+    return {
+      since: now - amount * (hours ? HOUR_MS : DAY_MS),
+      label: `the last ${amount} ${hours ? "hour" : "day"}${amount === 1 ? "" : "s"}`,
+      limit,
+      more,
+    };
+  }
+  if (/\bthis week\b|\blast week\b|今週/.test(lower)) {
+    return { since: now - 7 * DAY_MS, label: "the last 7 days", limit, more };
+  }
+  return { label: "recent", limit, more };
+}
+
+/**
+ * モデルが抽出した依頼内容を履歴リクエストに変換します。
+ * 期間はモデルが英語で書き直したもの（"last 3 days"など）を同じ規則で解析します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @param {number} now - 現在時刻（テスト用）
+ * @returns {Partial<HistoryRequest>} - 抽出できた項目
+ */
+export function historyRequestFromIntent(
+  intent: SuiIntent,
+  now: number = Date.now(),
+): Partial<HistoryRequest> {
+  const window = intent.period
+    ? parseHistoryRequest(intent.period, now)
+    : undefined;
+  return {
+    since: window?.since,
+    until: window?.until,
+    label: window && window.label !== "recent" ? window.label : undefined,
+    limit: intent.limit ?? undefined,
+    more: intent.more || undefined,
+  };
+}
+
+// 続きの状態のキャッシュキー（エージェント・ルーム・利用者ごと。利用者ごとにウォレットが異なる場合があるため）
+function continuationKey(runtime: IAgentRuntime, message: Memory): string {
+  return `sui:history:cursor:${runtime.agentId}:${message.roomId}:${message.entityId}`;
+}
+
+// 期間内のトランザクションを、件数に達するか期間外に出るまでページをたどって集めます
+async function collectTransactions(
+  service: SuiWalletService,
+  cursor: string | null,
+  request: Pick<HistoryRequest, "since" | "until" | "limit">,
+): Promise<{
+  transactions: TransactionSummary[];
+  nextCursor: string | null;
+}> {
+  const transactions: TransactionSummary[] = [];
+  let nextCursor = cursor;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchTransactionHistory(service, {
+      cursor: nextCursor,
+      limit: request.limit - transactions.length,
+    });
+    nextCursor = result.nextCursor;
+    let reachedStart = false;
+    for (const tx of result.transactions) {
+      // 時刻の無いもの（未確定）は常に含める
+      const time = tx.timestampMs ?? Number.POSITIVE_INFINITY;
+      if (request.since !== undefined && time < request.since) {
+        reachedStart = true;
+        break;
+      }
+      if (request.until !== undefined && time >= request.until) continue;
+      transactions.push(tx);
+    }
+    if (reachedStart) {
+      return { transactions, nextCursor: null };
+    }
+    if (!result.hasNextPage || transactions.length >= request.limit) break;
+  }
+  return { transactions, nextCursor };
+}
+
+// 期間内のトランザクションを集計した要約行を作ります
+function summarizeTotals(
+  transactions: TransactionSummary[],
+  names: AddressNames,
+): string[] {
+  const totals = new Map<
+    string,
+    { symbol: string; decimals: number; amount: bigint }
+  >();
+  const counterparties = new Set<string>();
+  const moveCalls = new Set<string>();
+  for (const tx of transactions) {
+    for (const change of tx.balanceChanges) {
+      const total = totals.get(change.coinType) ?? {
+        symbol: change.symbol,
+        decimals: change.decimals,
+        amount: 0n,
+      };
+      total.amount += BigInt(change.rawAmount);
+      totals.set(change.coinType, total);
+    }
+    for (const address of tx.counterparties) counterparties.add(address);
+    for (const call of tx.moveCalls) moveCalls.add(call);
+  }
+  const lines = [`Transactions: ${transactions.length}`];
+  if (totals.size > 0) {
+    const net = [...totals.values()].map(
+      (total) =>
+        `${formatAmount(total.amount, total.decimals)} ${total.symbol}`,
+    );
+    lines.push(`Net balance change: ${net.join(", ")}`);
+  }
+  if (counterparties.size > 0) {
+    lines.push(
+      `Counterparties: ${[...counterparties].map((address) => formatAddress(address, names)).join(", ")}`,
+    );
+  }
+  if (moveCalls.size > 0) {
+    lines.push(`Move calls: ${[...moveCalls].join(", ")}`);
+  }
+  return lines;
+}
+
+/**
+ * ウォレットのトランザクション履歴を取得して要約するアクションです。
+ * 「今日ウォレットで何をした？」のような質問に、残高変化・相手先・Move呼び出しをまとめて答えます。
+ * 結果が複数ページにわたる場合は、カーソルを保存して「more」で続きを返します。
+ */
+export const suiTransactionHistoryAction: Action = {
+  name: SUI_TX_HISTORY, // アクションの一意な名前
+  similes: [
+    "TRANSACTION_HISTORY",
+    "WALLET_ACTIVITY",
+    "RECENT_TRANSACTIONS",
+    "TX_HISTORY",
+  ], // 類似のアクション名
+  description:
+    "Lists and summarizes transactions sent or received by the agent's Sui wallet, optionally for a period such as today, yesterday or the last N days. Say 'more' to page further back.", // アクションの説明
+
+  // ウォレットのアドレスが分かる場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message, { signing: false });
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_TX_HISTORY action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured",
+        );
+      }
+
+      const request = await resolveSuiRequest(
+        runtime,
+        message,
+        ["history"],
+        (intent) => historyRequestFromIntent(intent),
+        (text) => parseHistoryRequest(text),
+      );
+      let cursor: string | null =
+        typeof options?.cursor === "string" ? options.cursor : null;
+      let window: Pick<HistoryRequest, "since" | "until" | "label" | "limit"> =
+        request;
+
+      // 「more」の場合は前回の期間とカーソルを引き継ぐ
+      const key = continuationKey(runtime, message);
+      if (!cursor && request.more) {
+        const saved = await runtime.getCache<HistoryContinuation>(key);
+        if (saved) {
+          cursor = saved.cursor;
+          window = saved;
+        }
+      }
+
+      const { transactions, nextCursor } = await collectTransactions(
+        service,
+        cursor,
+        window,
+      );
+      if (nextCursor) {
+        await runtime.setCache<HistoryContinuation>(key, {
+          cursor: nextCursor,
+          since: window.since,
+          until: window.until,
+          label: window.label,
+          limit: window.limit,
+        });
+      } else {
+        await runtime.deleteCache(key);
+      }
+
+      const address = service.getAddress();
+      const page = {
+        address,
+        transactions,
+        nextCursor,
+        hasNextPage: !!nextCursor,
+      };
+      const names = await lookupHistoryNames(service, page);
+      const periodText =
+        window.label === "recent"
+          ? "Recent"
+          : `Transactions for ${window.label}`;
+      const listing = formatTransactionHistory(
+        page,
+        `${periodText} on Sui wallet ${formatAddress(address, names)}:`,
+        names,
+      );
+      const text = [
+        listing,
+        ...(transactions.length > 0
+          ? ["", ...summarizeTotals(transactions, names)]
+          : []),
+        ...(nextCursor ? ['Say "more" to see older transactions.'] : []),
+      ].join("\n");
+
+      await callback({
+        text,
+        actions: [SUI_TX_HISTORY],
+        source: message.content.source,
+      });
+
+      return {
+        text,
+        values: {
+          success: true,
+          transactionCount: transactions.length,
+          hasNextPage: !!nextCursor,
+        },
+        data: {
+          actionName: SUI_TX_HISTORY,
+          address,
+          period: window.label,
+          since: window.since ?? null,
+          until: window.until ?? null,
+          transactions,
+          nextCursor,
+          messageId: message.id,
+          timestamp: Date.now(),
+        },
+        success: true,
+      };
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_TX_HISTORY,
+        error,
+        SuiErrorCode.HISTORY_FAILED,
+      );
+      await callback({
+        text: `Could not load transaction history: ${result.text}`,
+        actions: [SUI_TX_HISTORY],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What did my wallet do today?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Transactions for today on Sui wallet 0x8c2f...a8c0e:\n- 2026-01-02 03:04 UTC 9Yk... (success): -1.5 SUI; with 0x4b1e...; gas 0.002 SUI",
+          actions: [SUI_TX_HISTORY],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "昨日のトランザクションを見せて",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Transactions for yesterday on Sui wallet 0x8c2f...a8c0e:",
+          actions: [SUI_TX_HISTORY],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,504 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import type {
+  SuiMoveNormalizedFunction,
+  SuiMoveNormalizedType,
+} from "@mysten/sui/client";
+import { SUI_DECIMALS, normalizeSuiAddress } from "@mysten/sui/utils";
+import { z } from "zod";
+import {
+  clearPendingConfirmation,
+  getPendingConfirmation,
+  isCancellation,
+  isConfirmation,
+  savePendingConfirmation,
+} from "../confirmation.ts";
+import { queueForApprovalIfRequired } from "../approval.ts";
+import {
+  enforceAuditedPolicy,
+  recordRefusedTransaction,
+  signAndExecuteAudited,
+} from "../audit.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { resolveSuiRequest } from "../intent.ts";
+import { isSuiName, resolveRecipient } from "../names.ts";
+import {
+  type MoveArgumentValue,
+  type MoveCallParams,
+  buildMoveCallTransaction,
+  coerceMoveArgument,
+  formatMoveType,
+  isTxContext,
+  moveCallRequestFromIntent,
+  normalizeTypeArguments,
+  parseMoveCallRequest,
+  toPureTypeName,
+} from "../move.ts";
+import {
+  type SpendIntent,
+  describeSpendIncrease,
+  findApprovalRequirement,
+  spendIntentFromBalanceChanges,
+  spendIntentSchema,
+} from "../policy.ts";
+import { invalidateHistoryCache } from "../providers/history.ts";
+import { invalidatePortfolioCache } from "../providers/portfolio.ts";
+import type { SuiWalletService } from "../service.ts";
+import {
+  describeBalanceChanges,
+  formatAmount,
+  totalGasUsed,
+} from "../utils.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_MOVE_CALL = "SUI_MOVE_CALL";
+
+// 値に含まれるSuiNS名をアドレスに解決します（vectorの要素も対象）
+async function resolveNames(
+  service: SuiWalletService,
+  value: MoveArgumentValue,
+): Promise<MoveArgumentValue> {
+  if (Array.isArray(value)) {
+    return Promise.all(value.map((item) => resolveNames(service, item)));
+  }
+  return isSuiName(value)
+    ? (await resolveRecipient(service, value)).address
+    : value;
+}
+
+// address型（vector<address>などを含む）の引数に渡されたSuiNS名をアドレスに置き換えます
+async function resolveAddressArguments(
+  service: SuiWalletService,
+  parameters: SuiMoveNormalizedType[],
+  values: MoveArgumentValue[],
+  typeArguments: string[],
+): Promise<MoveArgumentValue[]> {
+  return Promise.all(
+    values.map(async (value, index) => {
+      let pureType: string | null;
+      try {
+        pureType = toPureTypeName(parameters[index], typeArguments);
+      } catch {
+        // 型のエラーは引数の変換時に引数番号付きで報告する
+        return value;
+      }
+      return pureType?.includes("address")
+        ? resolveNames(service, value)
+        : value;
+    }),
+  );
+}
+
+// 確認待ちの間に保存する内容（トランザクションの再構築用パラメータと、ポリシー評価済みの支出）
+type PendingMoveCall = MoveCallParams & { intent: SpendIntent };
+
+/** 承認キューから読み戻したMove呼び出しの内容のスキーマ */
+export const pendingMoveCallSchema = z.object({
+  target: z.string().min(1),
+  typeArguments: z.array(z.string()),
+  arguments: z.array(
+    z.discriminatedUnion("kind", [
+      z.object({
+        kind: z.literal("pure"),
+        type: z.string(),
+        bytes: z.string(),
+      }),
+      z.object({ kind: z.literal("object"), objectId: z.string().min(1) }),
+    ]),
+  ),
+  intent: spendIntentSchema,
+}) satisfies z.ZodType<PendingMoveCall>;
+
+// 署名せずにドライランしてガス代と残高変化を見積もり、残高変化から支出内容を求めます
+async function dryRunMoveCall(service: SuiWalletService, call: MoveCallParams) {
+  const dryRun = await service.dryRunTransaction(
+    buildMoveCallTransaction(call),
+  );
+  if (dryRun.effects.status.status !== "success") {
+    throw new SuiActionError(
+      SuiErrorCode.DRY_RUN_FAILED,
+      `Dry run failed: ${dryRun.effects.status.error ?? "unknown error"}`,
+    );
+  }
+  const estimatedGas = totalGasUsed(dryRun.effects.gasUsed);
+  const [packageId] = call.target.split("::");
+  const intent = await spendIntentFromBalanceChanges(
+    service,
+    SUI_MOVE_CALL,
+    dryRun.balanceChanges,
+    estimatedGas,
+    [packageId],
+    dryRun.objectChanges ?? [],
+  );
+  return { dryRun, estimatedGas, intent };
+}
+
+// 呼び出し先の関数のシグネチャを取得し、トランザクションから呼べるか確認します
+async function fetchMoveFunction(
+  service: SuiWalletService,
+  target: string,
+): Promise<SuiMoveNormalizedFunction> {
+  const [packageId, moduleName, functionName] = target.split("::");
+  let fn: SuiMoveNormalizedFunction;
+  try {
+    fn = await service.getMoveFunction(packageId, moduleName, functionName);
+  } catch (error) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_MOVE_TARGET,
+      `Move function ${target} was not found: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!fn.isEntry && fn.visibility !== "Public") {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_MOVE_TARGET,
+      `Move function ${target} is not public or entry and cannot be called from a transaction`,
+    );
+  }
+  return fn;
+}
+
+// 関数のシグネチャに合わせて引数を変換し、ドライランしてから確認待ちとして保存します
+async function prepareMoveCall(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const request = await resolveSuiRequest(
+    runtime,
+    message,
+    ["move_call"],
+    moveCallRequestFromIntent,
+    parseMoveCallRequest,
+  );
+  if (!request.target) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_MOVE_TARGET,
+      "A Move call target (0xPACKAGE::module::function) is required",
+    );
+  }
+  const [packageId, moduleName, functionName] = request.target.split("::");
+  const target = `${normalizeSuiAddress(packageId)}::${moduleName}::${functionName}`;
+  const fn = await fetchMoveFunction(service, target);
+
+  const typeArguments = normalizeTypeArguments(request.typeArguments);
+  if (typeArguments.length !== fn.typeParameters.length) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      `${target} expects ${fn.typeParameters.length} type argument(s) but got ${typeArguments.length}`,
+    );
+  }
+
+  // TxContextは実行時に自動で渡されるため、ユーザーの引数とは対応させない
+  const parameters = fn.parameters.filter((type) => !isTxContext(type));
+  if (request.arguments.length !== parameters.length) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      `${target} expects ${parameters.length} argument(s) (${parameters.map(formatMoveType).join(", ") || "none"}) but got ${request.arguments.length}`,
+    );
+  }
+  const values = await resolveAddressArguments(
+    service,
+    parameters,
+    request.arguments,
+    typeArguments,
+  );
+  const args = parameters.map((type, index) => {
+    try {
+      return coerceMoveArgument(type, values[index], typeArguments);
+    } catch (error) {
+      if (error instanceof SuiActionError) {
+        throw new SuiActionError(
+          error.code,
+          `Argument ${index + 1} (${formatMoveType(type)}): ${error.message}`,
+        );
+      }
+      throw error;
+    }
+  });
+
+  const call: MoveCallParams = { target, typeArguments, arguments: args };
+
+  // ドライランの残高変化から支出を求め、支出ポリシーに違反していないか確認
+  const { dryRun, estimatedGas, intent } = await dryRunMoveCall(service, call);
+  await enforceAuditedPolicy(runtime, service, message, intent);
+  const changes = await describeBalanceChanges(service, dryRun.balanceChanges);
+  const approval = findApprovalRequirement(runtime, intent);
+
+  const signature = `${target}${typeArguments.length > 0 ? `<${typeArguments.join(", ")}>` : ""}`;
+  const summary = [
+    `Call ${signature}`,
+    `Arguments: ${values.length > 0 ? values.map((value) => JSON.stringify(value)).join(", ") : "none"}`,
+    `Estimated gas: ${formatAmount(estimatedGas, SUI_DECIMALS)} SUI`,
+    `Balance change: ${changes.length > 0 ? changes.join(", ") : "none"}`,
+    ...(approval
+      ? [`${approval.reason}; an operator must approve it after you confirm.`]
+      : []),
+    `Reply "confirm" to sign and execute, or "cancel" to abort.`,
+  ].join("\n");
+
+  await savePendingConfirmation(
+    runtime,
+    message,
+    SUI_MOVE_CALL,
+    { ...call, intent },
+    summary,
+  );
+
+  await callback({
+    text: summary,
+    actions: [SUI_MOVE_CALL],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Prepared Move call; waiting for confirmation",
+    values: {
+      success: true,
+      awaitingConfirmation: true,
+    },
+    data: {
+      actionName: SUI_MOVE_CALL,
+      target,
+      typeArguments,
+      arguments: args,
+      estimatedGas: estimatedGas.toString(),
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 確認済みのMove呼び出しに署名して実行します。
+ * 承認キューで承認されたときも、この関数で元のアクションを再開します。
+ * 確認・承認の後にオンチェーンの状態が変わっている可能性があるため、署名直前にドライランし直し、
+ * 支出や受取人が確認した内容より増えていれば署名しません。
+ */
+export async function executeMoveCall(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: PendingMoveCall,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  // 二重実行を防ぐため、署名前に確認待ちを消しておく
+  await clearPendingConfirmation(runtime, message);
+  const { intent } = await dryRunMoveCall(service, params);
+  const increase = describeSpendIncrease(params.intent, intent);
+  if (increase) {
+    const error = new SuiActionError(
+      SuiErrorCode.SPEND_INCREASED,
+      `The Move call changed since it was confirmed and was not signed. ${increase}.`,
+    );
+    await recordRefusedTransaction(runtime, message, intent, error);
+    throw error;
+  }
+  // 確認待ちの間に他の支出で上限に達していないか、署名直前に再確認して監査ログに記録
+  const result = await signAndExecuteAudited(
+    runtime,
+    service,
+    message,
+    intent,
+    buildMoveCallTransaction(params),
+  );
+  const status = result.effects?.status.status ?? "unknown";
+  const gasUsed = result.effects
+    ? totalGasUsed(result.effects.gasUsed).toString()
+    : "0";
+  // 残高や履歴が変わる可能性があるのでキャッシュを破棄
+  await invalidatePortfolioCache(runtime, service);
+  await invalidateHistoryCache(runtime, service);
+
+  if (status !== "success") {
+    const failure = createErrorResult(
+      SUI_MOVE_CALL,
+      new SuiActionError(
+        SuiErrorCode.TRANSACTION_FAILED,
+        `Transaction ${result.digest} failed: ${result.effects?.status.error ?? status}`,
+      ),
+      SuiErrorCode.TRANSACTION_FAILED,
+    );
+    failure.data = { ...failure.data, digest: result.digest, status, gasUsed };
+    await callback({
+      text: failure.text ?? "Move call failed",
+      actions: [SUI_MOVE_CALL],
+      source: message.content.source,
+    });
+    return failure;
+  }
+
+  await callback({
+    text: `Executed ${params.target}.\nDigest: ${result.digest}`,
+    actions: [SUI_MOVE_CALL],
+    source: message.content.source,
+  });
+
+  return {
+    text: `Executed Move call ${params.target}`,
+    values: {
+      success: true,
+      digest: result.digest,
+    },
+    data: {
+      actionName: SUI_MOVE_CALL,
+      digest: result.digest,
+      status,
+      gasUsed,
+      target: params.target,
+      typeArguments: params.typeArguments,
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+/**
+ * 任意のパッケージのMove関数を呼び出すアクションです。
+ * RPCから関数のシグネチャを取得してチャットの引数をBCSの型に変換し、
+ * ドライランの結果をユーザーが確認した時点で初めて署名・実行します。
+ */
+export const suiMoveCallAction: Action = {
+  name: SUI_MOVE_CALL, // アクションの一意な名前
+  similes: ["MOVE_CALL", "CALL_MOVE_FUNCTION", "CALL_CONTRACT", "EXECUTE_MOVE"], // 類似のアクション名
+  description:
+    "Calls a Move function on Sui given as 0xPACKAGE::module::function<TypeArgs>(args). Arguments are converted to the function's parameter types (address arguments may be SuiNS names such as alice.sui), the call is dry-run first, and it is signed only after the user confirms.", // アクションの説明
+
+  // 署名可能なウォレットがある場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_MOVE_CALL action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured for signing",
+        );
+      }
+      if (service.isReadOnly()) {
+        throw new SuiActionError(
+          SuiErrorCode.READ_ONLY,
+          "Sui wallet is in read-only mode",
+        );
+      }
+
+      // 確認待ちの呼び出しがあれば、返信内容に応じて実行または取り消し
+      const pending = await getPendingConfirmation<PendingMoveCall>(
+        runtime,
+        message,
+        SUI_MOVE_CALL,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        // 承認しきい値以上の支出は署名せずに承認キューへ回す
+        const queued = await queueForApprovalIfRequired(
+          runtime,
+          message,
+          SUI_MOVE_CALL,
+          pending.params,
+          pending.summary,
+          pending.params.intent,
+          callback,
+        );
+        if (queued) {
+          await clearPendingConfirmation(runtime, message);
+          return queued;
+        }
+        return await executeMoveCall(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        await clearPendingConfirmation(runtime, message);
+        await callback({
+          text: "Move call cancelled.",
+          actions: [SUI_MOVE_CALL],
+          source: message.content.source,
+        });
+        return {
+          text: "Cancelled pending Move call",
+          values: { success: true, cancelled: true },
+          data: { actionName: SUI_MOVE_CALL, messageId: message.id },
+          success: true,
+        };
+      }
+
+      return await prepareMoveCall(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_MOVE_CALL,
+        error,
+        SuiErrorCode.MOVE_CALL_FAILED,
+      );
+      await callback({
+        text: `Move call failed: ${result.text}`,
+        actions: [SUI_MOVE_CALL],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: 'Call 0x5c1d...9a2f::greeting::set_message(0x7e3a...41bc, "hello sui")',
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Call 0x5c1d...9a2f::greeting::set_message. Estimated gas: 0.001 SUI. Reply "confirm" to sign and execute.',
+          actions: [SUI_MOVE_CALL],
+        },
+      },
+      {
+        name: "{{name1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Executed 0x5c1d...9a2f::greeting::set_message. Digest: 4Fp...",
+          actions: [SUI_MOVE_CALL],
+        },
+      },
+    ],
+  ],
+};
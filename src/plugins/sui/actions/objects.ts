@@ -0,0 +1,236 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { type SuiIntent, resolveSuiRequest } from "../intent.ts";
+import { fetchOwnedObjects, formatOwnedObjects } from "../providers/objects.ts";
+import type { SuiWalletService } from "../service.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_LIST_OBJECTS = "SUI_LIST_OBJECTS";
+
+/**
+ * チャットから抽出したオブジェクト一覧のリクエストです。
+ */
+export interface ObjectListRequest {
+  structType?: string; // 型による絞り込み
+  limit: number; // 取得件数
+  more: boolean; // 前回の続きを取得するか
+}
+
+// 続きのページを取得するための状態（ルームごと）
+interface ObjectListContinuation {
+  cursor: string; // 次のページのカーソル
+  structType?: string;
+  limit: number;
+}
+
+/**
+ * メッセージ本文から型の絞り込み・件数・続きの指定を抽出します。
+ * 型は完全な型（0x...::module::Name）、「type capy::Capy」「of type Capy」「Capy型」のように指定できます。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {ObjectListRequest} - 抽出結果
+ */
+export function parseObjectListRequest(text: string): ObjectListRequest {
+  const more = /\b(more|next|continue)\b|続き|もっと|次/i.test(text);
+  const countMatch = text.match(
+    /\b(\d+)\s+(?:objects?|nfts?|items?)\b|(\d+)\s*件/i,
+  );
+  const limit = Math.min(Number(countMatch?.[1] ?? countMatch?.[2] ?? 20), 50);
+  const structType =
+    text.match(/0x[0-9a-fA-F]+::\w+::\w+(?:<[^\s>]+>)?/)?.[0] ??
+    text.match(/\b(?:of\s+)?type\s+([\w:]+)/i)?.[1] ??
+    text.match(/([\w:]+)\s*(?:型|タイプ)/)?.[1] ??
+    text.match(/\b(\w+::\w+)\b/)?.[1];
+  return { structType, limit, more };
+}
+
+/**
+ * モデルが抽出した依頼内容をオブジェクト一覧のリクエストに変換します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<ObjectListRequest>} - 抽出できた項目
+ */
+export function objectListRequestFromIntent(
+  intent: SuiIntent,
+): Partial<ObjectListRequest> {
+  return {
+    structType: intent.structType ?? undefined,
+    limit: intent.limit ?? undefined,
+    more: intent.more || undefined,
+  };
+}
+
+// 続きの状態のキャッシュキー（エージェント・ルーム・利用者ごと。利用者ごとにウォレットが異なる場合があるため）
+function continuationKey(runtime: IAgentRuntime, message: Memory): string {
+  return `sui:objects:cursor:${runtime.agentId}:${message.roomId}:${message.entityId}`;
+}
+
+/**
+ * ウォレットが所有するNFTなどのオブジェクトを一覧するアクションです。
+ * Move型ごとにまとめてDisplayの名前・画像・説明を表示し、型での絞り込みと「more」での続きに対応します。
+ */
+export const suiListObjectsAction: Action = {
+  name: SUI_LIST_OBJECTS, // アクションの一意な名前
+  similes: ["LIST_NFTS", "SHOW_NFTS", "OWNED_OBJECTS", "MY_OBJECTS"], // 類似のアクション名
+  description:
+    "Lists NFTs and other objects owned by the agent's Sui wallet, grouped by Move type with Display name, image and description. Can filter by struct type (e.g. 'show my objects of type capy::Capy'); say 'more' for the next page.", // アクションの説明
+
+  // ウォレットのアドレスが分かる場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message, { signing: false });
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_LIST_OBJECTS action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured",
+        );
+      }
+
+      const request = await resolveSuiRequest(
+        runtime,
+        message,
+        ["list_objects"],
+        objectListRequestFromIntent,
+        parseObjectListRequest,
+      );
+      let cursor: string | null =
+        typeof options?.cursor === "string" ? options.cursor : null;
+      let query: Pick<ObjectListRequest, "structType" | "limit"> = request;
+
+      // 「more」の場合は前回の絞り込みとカーソルを引き継ぐ
+      const key = continuationKey(runtime, message);
+      if (!cursor && request.more) {
+        const saved = await runtime.getCache<ObjectListContinuation>(key);
+        if (saved) {
+          cursor = saved.cursor;
+          query = saved;
+        }
+      }
+
+      const page = await fetchOwnedObjects(service, {
+        cursor,
+        limit: query.limit,
+        structType: query.structType,
+      });
+      if (page.nextCursor) {
+        await runtime.setCache<ObjectListContinuation>(key, {
+          cursor: page.nextCursor,
+          structType: query.structType,
+          limit: query.limit,
+        });
+      } else {
+        await runtime.deleteCache(key);
+      }
+
+      const listing = formatOwnedObjects(
+        page,
+        query.structType
+          ? `Objects of type ${query.structType} owned by Sui wallet ${page.address}:`
+          : undefined,
+      );
+      const text = [
+        listing,
+        ...(page.nextCursor ? ['Say "more" to see more objects.'] : []),
+      ].join("\n");
+
+      await callback({
+        text,
+        actions: [SUI_LIST_OBJECTS],
+        source: message.content.source,
+      });
+
+      return {
+        text,
+        values: {
+          success: true,
+          objectCount: page.objects.length,
+          hasNextPage: !!page.nextCursor,
+        },
+        data: {
+          actionName: SUI_LIST_OBJECTS,
+          address: page.address,
+          structType: query.structType ?? null,
+          groups: page.groups,
+          nextCursor: page.nextCursor,
+          messageId: message.id,
+          timestamp: Date.now(),
+        },
+        success: true,
+      };
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_LIST_OBJECTS,
+        error,
+        SuiErrorCode.OBJECTS_FAILED,
+      );
+      await callback({
+        text: `Could not list objects: ${result.text}`,
+        actions: [SUI_LIST_OBJECTS],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "What NFTs do I have?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Objects owned by Sui wallet 0x8c2f...a8c0e:\n0x5e1f...::capy::Capy (2)\n- Capy #12 (0x91ab...) — A friendly capybara; image: https://...",
+          actions: [SUI_LIST_OBJECTS],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "capy::Capy型のオブジェクトを見せて",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Objects of type capy::Capy owned by Sui wallet 0x8c2f...a8c0e:",
+          actions: [SUI_LIST_OBJECTS],
+        },
+      },
+    ],
+  ],
+};
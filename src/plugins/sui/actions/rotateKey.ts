@@ -0,0 +1,420 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Transaction, coinWithBalance } from "@mysten/sui/transactions";
+import { SUI_DECIMALS } from "@mysten/sui/utils";
+import { signAndExecuteAudited } from "../audit.ts";
+import {
+  clearPendingConfirmation,
+  getPendingConfirmation,
+  isCancellation,
+  isConfirmation,
+  savePendingConfirmation,
+} from "../confirmation.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { invalidateHistoryCache } from "../providers/history.ts";
+import { invalidateObjectsCache } from "../providers/objects.ts";
+import {
+  type PortfolioCoin,
+  fetchPortfolio,
+  invalidatePortfolioCache,
+} from "../providers/portfolio.ts";
+import { invalidateStakingCache } from "../providers/staking.ts";
+import { SuiWalletService } from "../service.ts";
+import type { SpendIntent } from "../policy.ts";
+import { SUI_COIN_TYPE, formatAmount, totalGasUsed } from "../utils.ts";
+
+/** アクション名 */
+export const SUI_ROTATE_KEY = "SUI_ROTATE_KEY";
+
+/**
+ * 確認待ちの間に保持する鍵の更新パラメータです。新しい鍵は確認後に生成するため、ここには含めません。
+ */
+interface RotateKeyParams {
+  address: string; // 更新前のアドレス（確認までに鍵が変わっていないかの確認用）
+}
+
+// 送り主がSUI_ADMIN_ENTITY_IDSに含まれる管理者かを判定します
+function isAdmin(service: SuiWalletService, message: Memory): boolean {
+  return service.getConfig().SUI_ADMIN_ENTITY_IDS.includes(message.entityId);
+}
+
+// 鍵の更新はエージェント自身のウォレットに対して行います（預かりウォレットは対象外）
+function getAgentService(
+  runtime: IAgentRuntime,
+  message: Memory,
+): SuiWalletService {
+  const service = runtime.getService<SuiWalletService>(
+    SuiWalletService.serviceType,
+  );
+  if (!service?.hasSigner()) {
+    throw new SuiActionError(
+      SuiErrorCode.WALLET_UNAVAILABLE,
+      "Sui wallet is not configured for signing",
+    );
+  }
+  if (!isAdmin(service, message)) {
+    throw new SuiActionError(
+      SuiErrorCode.NOT_AUTHORIZED,
+      "Only administrators listed in SUI_ADMIN_ENTITY_IDS can rotate the signing key",
+      { entityId: message.entityId },
+    );
+  }
+  if (service.isReadOnly()) {
+    throw new SuiActionError(
+      SuiErrorCode.READ_ONLY,
+      "Sui wallet is in read-only mode",
+    );
+  }
+  if (!service.hasKeystore()) {
+    throw new SuiActionError(
+      SuiErrorCode.KEYSTORE_UNAVAILABLE,
+      "Key rotation requires SUI_KEYSTORE_PATH; a raw SUI_PRIVATE_KEY cannot be rotated in place",
+    );
+  }
+  return service;
+}
+
+/**
+ * 旧アドレスの全コインを新しいアドレスへ移すトランザクションを作成します。
+ * SUIはガスコインごと移すため、ガス代を差し引いた全額が移ります。
+ *
+ * @param {PortfolioCoin[]} coins - 旧アドレスが保有するコイン
+ * @param {string} recipient - 新しいアドレス
+ * @returns {Transaction} - 未署名のトランザクション
+ */
+export function buildSweepTransaction(
+  coins: PortfolioCoin[],
+  recipient: string,
+): Transaction {
+  const tx = new Transaction();
+  const others = coins
+    .filter(
+      (coin) => coin.coinType !== SUI_COIN_TYPE && BigInt(coin.rawBalance) > 0n,
+    )
+    .map((coin) =>
+      coinWithBalance({
+        type: coin.coinType,
+        balance: BigInt(coin.rawBalance),
+      }),
+    );
+  tx.transferObjects([tx.gas, ...others], recipient);
+  return tx;
+}
+
+// 鍵の更新内容を提示し、確認待ちとして保存します
+async function prepareRotation(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const address = service.getAddress();
+  const portfolio = await fetchPortfolio(service);
+  const coins = portfolio.coins.filter((coin) => BigInt(coin.rawBalance) > 0n);
+
+  const summary = [
+    `Rotate the agent's signing key for ${address}`,
+    "A new key is generated and saved to the keystore before any funds move.",
+    `Coins moved to the new address: ${
+      coins.length > 0
+        ? coins
+            .map(
+              (coin) =>
+                `${coin.balance} ${coin.symbol}${coin.coinType === SUI_COIN_TYPE ? " (minus gas)" : ""}`,
+            )
+            .join(", ")
+        : "none"
+    }`,
+    "Objects such as NFTs and stakes stay at the old address; the old key is kept in the keystore as retired.",
+    `Reply "confirm" to rotate, or "cancel" to abort.`,
+  ].join("\n");
+
+  await savePendingConfirmation<RotateKeyParams>(
+    runtime,
+    message,
+    SUI_ROTATE_KEY,
+    { address },
+    summary,
+  );
+  await callback({
+    text: summary,
+    actions: [SUI_ROTATE_KEY],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Prepared signing key rotation; waiting for confirmation",
+    values: { success: true, awaitingConfirmation: true },
+    data: {
+      actionName: SUI_ROTATE_KEY,
+      address,
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+// 新しい鍵を生成・保存し、旧アドレスのコインを移します
+async function executeRotation(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: RotateKeyParams,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  await clearPendingConfirmation(runtime, message);
+  const previous = service.getAddress();
+  if (previous !== params.address) {
+    throw new SuiActionError(
+      SuiErrorCode.KEY_ROTATION_FAILED,
+      `The signing key changed to ${previous} after this rotation was prepared`,
+    );
+  }
+
+  const next = new Ed25519Keypair();
+  const nextAddress = next.toSuiAddress();
+  const { coins } = await fetchPortfolio(service);
+  const sweep = coins.some(
+    (coin) => coin.coinType === SUI_COIN_TYPE && BigInt(coin.rawBalance) > 0n,
+  )
+    ? buildSweepTransaction(coins, nextAddress)
+    : null;
+
+  let digest: string | null = null;
+  let gasUsed = "0";
+  let sweepError: string | null = null;
+  let rotated = false;
+  const rotate = async () => {
+    await service.rotateKeypair(next);
+    rotated = true;
+  };
+  if (sweep) {
+    const dryRun = await service.dryRunTransaction(sweep);
+    if (dryRun.effects.status.status !== "success") {
+      throw new SuiActionError(
+        SuiErrorCode.DRY_RUN_FAILED,
+        `Dry run failed: ${dryRun.effects.status.error ?? "unknown error"}`,
+      );
+    }
+    // 移すコインと量を監査ログに残す（SUIはドライランのガス代を差し引いた額）
+    const dryRunGas = dryRun.effects.gasUsed
+      ? totalGasUsed(dryRun.effects.gasUsed)
+      : 0n;
+    const intent: SpendIntent = {
+      action: SUI_ROTATE_KEY,
+      recipients: [nextAddress],
+      spends: coins
+        .filter((coin) => BigInt(coin.rawBalance) > 0n)
+        .map((coin) => {
+          const amount =
+            coin.coinType === SUI_COIN_TYPE
+              ? BigInt(coin.rawBalance) - dryRunGas
+              : BigInt(coin.rawBalance);
+          return {
+            coinType: coin.coinType,
+            amount: (amount > 0n ? amount : 0n).toString(),
+            decimals: coin.decimals,
+          };
+        }),
+      packages: [],
+    };
+    // 旧鍵で署名してから新しい鍵を保存し、最後に送信する（送信に失敗しても両方の鍵がキーストアに残る）
+    // 自分の新しいアドレスへの移動のため、支出ポリシーは適用せずに理由を監査ログに残す
+    try {
+      const result = await signAndExecuteAudited(
+        runtime,
+        service,
+        message,
+        intent,
+        sweep,
+        {
+          policyExemption:
+            "key rotation moves the wallet's own coins to its new address",
+          beforeExecute: rotate,
+        },
+      );
+      digest = result.digest;
+      gasUsed = result.effects
+        ? totalGasUsed(result.effects.gasUsed).toString()
+        : "0";
+      if (result.effects?.status.status !== "success") {
+        sweepError = result.effects?.status.error ?? "unknown error";
+      }
+    } catch (error) {
+      // 鍵を切り替える前（署名時）の失敗は、鍵の更新ごと中止する
+      if (!rotated) throw error;
+      sweepError = error instanceof Error ? error.message : String(error);
+    }
+  } else {
+    await rotate();
+  }
+
+  await invalidatePortfolioCache(runtime, service);
+  await invalidateHistoryCache(runtime, service);
+  await invalidateObjectsCache(runtime, service);
+  await invalidateStakingCache(runtime, service);
+
+  const text = [
+    `Rotated the signing key: ${previous} → ${nextAddress}`,
+    sweepError
+      ? `Moving coins from the old address failed (${sweepError}); they remain at ${previous} and its key is kept in the keystore.`
+      : digest
+        ? `Moved coins to the new address. Gas: ${formatAmount(gasUsed, SUI_DECIMALS)} SUI\nDigest: ${digest}`
+        : "The old address held no SUI, so nothing was moved.",
+  ].join("\n");
+  logger.info(
+    { previous, next: nextAddress, digest, sweepError },
+    "Rotated Sui signing key",
+  );
+  await callback({
+    text,
+    actions: [SUI_ROTATE_KEY],
+    source: message.content.source,
+  });
+
+  return {
+    text,
+    values: {
+      success: true,
+      suiAddress: nextAddress,
+      ...(digest ? { digest } : {}),
+    },
+    data: {
+      actionName: SUI_ROTATE_KEY,
+      previousAddress: previous,
+      address: nextAddress,
+      digest,
+      gasUsed,
+      sweepError,
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+/**
+ * エージェントの署名鍵を新しい鍵に更新する管理者専用のアクションです。
+ * 新しい鍵をキーストアに保存してから旧アドレスのコインを移し、旧鍵は退役させて暗号化したまま残します。
+ */
+export const suiRotateKeyAction: Action = {
+  name: SUI_ROTATE_KEY, // アクションの一意な名前
+  similes: ["ROTATE_SUI_KEY", "ROTATE_WALLET_KEY", "ROTATE_SIGNING_KEY"], // 類似のアクション名
+  description:
+    "Admin only: replaces the agent's Sui signing key with a newly generated one stored in the encrypted keystore, and moves the coins from the old address to the new one after the admin confirms.", // アクションの説明
+
+  // 管理者からのメッセージで、キーストアの鍵で署名できる場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    const service = runtime.getService<SuiWalletService>(
+      SuiWalletService.serviceType,
+    );
+    return (
+      !!service?.canSign() && service.hasKeystore() && isAdmin(service, message)
+    );
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_ROTATE_KEY action"); // アクション処理開始のログ
+
+      const service = getAgentService(runtime, message);
+      const pending = await getPendingConfirmation<RotateKeyParams>(
+        runtime,
+        message,
+        SUI_ROTATE_KEY,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        return await executeRotation(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        await clearPendingConfirmation(runtime, message);
+        await callback({
+          text: "Key rotation cancelled.",
+          actions: [SUI_ROTATE_KEY],
+          source: message.content.source,
+        });
+        return {
+          text: "Cancelled pending key rotation",
+          values: { success: true, cancelled: true },
+          data: { actionName: SUI_ROTATE_KEY, messageId: message.id },
+          success: true,
+        };
+      }
+
+      return await prepareRotation(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_ROTATE_KEY,
+        error,
+        SuiErrorCode.KEY_ROTATION_FAILED,
+      );
+      await callback({
+        text: `Key rotation failed: ${result.text}`,
+        actions: [SUI_ROTATE_KEY],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Rotate the wallet's signing key",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: `Rotate the agent's signing key for 0x8c2f...a8c0e\nA new key is generated and saved to the keystore before any funds move.\nCoins moved to the new address: 12.5 SUI (minus gas)\nReply "confirm" to rotate, or "cancel" to abort.`,
+          actions: [SUI_ROTATE_KEY],
+        },
+      },
+      {
+        name: "{{name1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Rotated the signing key: 0x8c2f...a8c0e → 0x41d7...93b2f\nMoved coins to the new address.",
+          actions: [SUI_ROTATE_KEY],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,895 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { Transaction } from "@mysten/sui/transactions";
+import { SUI_DECIMALS, normalizeSuiAddress } from "@mysten/sui/utils";
+import { z } from "zod";
+import { queueForApprovalIfRequired } from "../approval.ts";
+import { enforceAuditedPolicy, signAndExecuteAudited } from "../audit.ts";
+import {
+  clearPendingConfirmation,
+  getPendingConfirmation,
+  isCancellation,
+  isConfirmation,
+  savePendingConfirmation,
+} from "../confirmation.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { resolveSuiRequest } from "../intent.ts";
+import {
+  type SpendIntent,
+  findApprovalRequirement,
+  rawAmountSchema,
+} from "../policy.ts";
+import { invalidateHistoryCache } from "../providers/history.ts";
+import { invalidatePortfolioCache } from "../providers/portfolio.ts";
+import { invalidateStakingCache } from "../providers/staking.ts";
+import { SuiWalletService } from "../service.ts";
+import {
+  MIN_STAKE_MIST,
+  SUI_SYSTEM_PACKAGE,
+  type StakeSummary,
+  buildStakeTransaction,
+  buildUnstakeTransaction,
+  fetchStakes,
+  fetchValidators,
+  findValidator,
+  formatPercent,
+  formatStakes,
+  formatValidators,
+  parseStakeRequest,
+  parseUnstakeRequest,
+  stakeRequestFromIntent,
+  totalStaked,
+  unstakeRequestFromIntent,
+} from "../staking.ts";
+import {
+  SUI_COIN_TYPE,
+  describeBalanceChanges,
+  formatAmount,
+  parseAmount,
+  totalGasUsed,
+} from "../utils.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_STAKE = "SUI_STAKE";
+export const SUI_UNSTAKE = "SUI_UNSTAKE";
+export const SUI_LIST_STAKES = "SUI_LIST_STAKES";
+
+// バリデーター一覧で表示する件数の既定値
+const DEFAULT_VALIDATOR_LIMIT = 10;
+
+/**
+ * 確認待ちの間に保存するステークの内容です。
+ */
+export type StakeParams = {
+  validatorAddress: string; // ステーク先のバリデーターアドレス
+  validatorName: string; // バリデーター名
+  amount: string; // ステークする量（MIST）
+};
+
+/** 承認キューから読み戻したステークの内容のスキーマ */
+export const stakeParamsSchema = z.object({
+  validatorAddress: z.string().min(1),
+  validatorName: z.string(),
+  amount: rawAmountSchema,
+}) satisfies z.ZodType<StakeParams>;
+
+/**
+ * 確認待ちの間に保存する引き出しの内容です。
+ */
+export interface UnstakeParams {
+  stakes: StakeSummary[]; // 引き出すStakedSui
+}
+
+// ステークを支出ポリシーで評価する形に変換します（ウォレットからSUIが出ていくため支出として扱う）
+function stakeIntent(params: StakeParams): SpendIntent {
+  return {
+    action: SUI_STAKE,
+    recipients: [],
+    spends: [
+      {
+        coinType: SUI_COIN_TYPE,
+        amount: params.amount,
+        decimals: SUI_DECIMALS,
+      },
+    ],
+    packages: [SUI_SYSTEM_PACKAGE],
+  };
+}
+
+// 引き出しを支出ポリシーで評価する形に変換します（受け取るだけなので支出は無い）
+function unstakeIntent(): SpendIntent {
+  return {
+    action: SUI_UNSTAKE,
+    recipients: [],
+    spends: [],
+    packages: [SUI_SYSTEM_PACKAGE],
+  };
+}
+
+// 送り主の署名できるウォレットを取得します
+async function getSigningService(
+  runtime: IAgentRuntime,
+  message: Memory,
+): Promise<SuiWalletService> {
+  const service = await getWalletService(runtime, message);
+  if (!service?.hasSigner()) {
+    throw new SuiActionError(
+      SuiErrorCode.WALLET_UNAVAILABLE,
+      "Sui wallet is not configured for signing",
+    );
+  }
+  if (service.isReadOnly()) {
+    throw new SuiActionError(
+      SuiErrorCode.READ_ONLY,
+      "Sui wallet is in read-only mode",
+    );
+  }
+  return service;
+}
+
+// 署名せずにドライランし、ガス代と残高変化の説明を返します
+async function dryRunStaking(
+  service: SuiWalletService,
+  tx: Transaction,
+): Promise<{ estimatedGas: bigint; changes: string[] }> {
+  const dryRun = await service.dryRunTransaction(tx);
+  if (dryRun.effects.status.status !== "success") {
+    throw new SuiActionError(
+      SuiErrorCode.DRY_RUN_FAILED,
+      `Dry run failed: ${dryRun.effects.status.error ?? "unknown error"}`,
+    );
+  }
+  return {
+    estimatedGas: totalGasUsed(dryRun.effects.gasUsed),
+    changes: await describeBalanceChanges(service, dryRun.balanceChanges),
+  };
+}
+
+// 確認済みのステーキングのトランザクションに署名して実行し、関連するキャッシュを破棄します
+async function signStakingTransaction(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  intent: SpendIntent,
+  tx: Transaction,
+): Promise<SuiTransactionBlockResponse> {
+  // 二重実行を防ぐため、署名前に確認待ちを消しておく
+  await clearPendingConfirmation(runtime, message);
+  // 確認待ちの間に他の支出で上限に達していないか、署名直前に再確認して監査ログに記録
+  const result = await signAndExecuteAudited(
+    runtime,
+    service,
+    message,
+    intent,
+    tx,
+  );
+  // 残高・履歴・ステーキング状況が変わるのでキャッシュを破棄
+  await invalidatePortfolioCache(runtime, service);
+  await invalidateHistoryCache(runtime, service);
+  await invalidateStakingCache(runtime, service);
+  return result;
+}
+
+// オンチェーンで失敗したトランザクションを失敗結果にします
+async function transactionFailure(
+  actionName: string,
+  result: SuiTransactionBlockResponse,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const status = result.effects?.status.status ?? "unknown";
+  const failure = createErrorResult(
+    actionName,
+    new SuiActionError(
+      SuiErrorCode.TRANSACTION_FAILED,
+      `Transaction ${result.digest} failed: ${result.effects?.status.error ?? status}`,
+    ),
+    SuiErrorCode.TRANSACTION_FAILED,
+  );
+  failure.data = {
+    ...failure.data,
+    digest: result.digest,
+    status,
+    gasUsed: result.effects
+      ? totalGasUsed(result.effects.gasUsed).toString()
+      : "0",
+  };
+  await callback({
+    text: failure.text ?? "Staking transaction failed",
+    actions: [actionName],
+    source: message.content.source,
+  });
+  return failure;
+}
+
+// 確認待ちの取り消しに応答します
+async function cancelPending(
+  runtime: IAgentRuntime,
+  message: Memory,
+  actionName: string,
+  label: string,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  await clearPendingConfirmation(runtime, message);
+  await callback({
+    text: `${label} cancelled.`,
+    actions: [actionName],
+    source: message.content.source,
+  });
+  return {
+    text: `Cancelled pending Sui ${label.toLowerCase()}`,
+    values: { success: true, cancelled: true },
+    data: { actionName, messageId: message.id },
+    success: true,
+  };
+}
+
+// ステーク先と量を検証・ドライランし、確認待ちとして保存します
+async function prepareStake(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const request = await resolveSuiRequest(
+    runtime,
+    message,
+    ["stake"],
+    stakeRequestFromIntent,
+    parseStakeRequest,
+  );
+  const { epoch, validators } = await fetchValidators(service);
+  if (!request.validator) {
+    const top = validators
+      .slice(0, 3)
+      .map(
+        (validator) => `${validator.name} (${formatPercent(validator.apy)})`,
+      );
+    throw new SuiActionError(
+      SuiErrorCode.UNKNOWN_VALIDATOR,
+      `Say which validator to stake with, e.g. 'stake 10 SUI with ${validators[0]?.name ?? "<validator>"}'. Highest APY now: ${top.join(", ")}`,
+    );
+  }
+  const validator = findValidator(validators, request.validator);
+  const amount = parseAmount(request.amount, SUI_DECIMALS);
+  if (amount < MIN_STAKE_MIST) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_AMOUNT,
+      `The minimum stake is ${formatAmount(MIN_STAKE_MIST, SUI_DECIMALS)} SUI`,
+    );
+  }
+
+  // 残高を事前に確認
+  const balance = await service.getBalance(SUI_COIN_TYPE);
+  if (BigInt(balance.totalBalance) < amount) {
+    throw new SuiActionError(
+      SuiErrorCode.INSUFFICIENT_BALANCE,
+      `Insufficient SUI balance: have ${formatAmount(balance.totalBalance, SUI_DECIMALS)}, need ${formatAmount(amount, SUI_DECIMALS)}`,
+    );
+  }
+
+  const params: StakeParams = {
+    validatorAddress: validator.address,
+    validatorName: validator.name,
+    amount: amount.toString(),
+  };
+  // 支出ポリシー（上限・許可パッケージ）に違反していないか確認
+  const intent = stakeIntent(params);
+  await enforceAuditedPolicy(runtime, service, message, intent);
+
+  const { estimatedGas, changes } = await dryRunStaking(
+    service,
+    buildStakeTransaction(amount, validator.address),
+  );
+  const approval = findApprovalRequirement(runtime, intent);
+
+  const summary = [
+    `Stake ${formatAmount(amount, SUI_DECIMALS)} SUI with ${validator.name} (${validator.address})`,
+    `APY: ${formatPercent(validator.apy)}, commission: ${formatPercent(validator.commissionRate)}`,
+    `The stake is pending until epoch ${BigInt(epoch) + 1n} and earns rewards from then.`,
+    `Estimated gas: ${formatAmount(estimatedGas, SUI_DECIMALS)} SUI`,
+    `Balance change: ${changes.length > 0 ? changes.join(", ") : "none"}`,
+    ...(approval
+      ? [`${approval.reason}; an operator must approve it after you confirm.`]
+      : []),
+    `Reply "confirm" to sign and stake, or "cancel" to abort.`,
+  ].join("\n");
+
+  await savePendingConfirmation(runtime, message, SUI_STAKE, params, summary);
+
+  await callback({
+    text: summary,
+    actions: [SUI_STAKE],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Prepared Sui stake; waiting for confirmation",
+    values: {
+      success: true,
+      awaitingConfirmation: true,
+    },
+    data: {
+      actionName: SUI_STAKE,
+      validator,
+      amount: params.amount,
+      estimatedGas: estimatedGas.toString(),
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 確認済みのステークに署名して実行します。
+ * 承認キューで承認されたときも、この関数で元のアクションを再開します。
+ */
+export async function executeStake(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: StakeParams,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const intent = stakeIntent(params);
+  const result = await signStakingTransaction(
+    runtime,
+    service,
+    message,
+    intent,
+    buildStakeTransaction(BigInt(params.amount), params.validatorAddress),
+  );
+  if (result.effects?.status.status !== "success") {
+    return transactionFailure(SUI_STAKE, result, message, callback);
+  }
+
+  const amount = formatAmount(params.amount, SUI_DECIMALS);
+  await callback({
+    text: `Staked ${amount} SUI with ${params.validatorName}. It becomes active next epoch.\nDigest: ${result.digest}`,
+    actions: [SUI_STAKE],
+    source: message.content.source,
+  });
+
+  return {
+    text: `Staked ${amount} SUI with ${params.validatorName}`,
+    values: {
+      success: true,
+      digest: result.digest,
+    },
+    data: {
+      actionName: SUI_STAKE,
+      digest: result.digest,
+      status: "success",
+      gasUsed: totalGasUsed(result.effects.gasUsed).toString(),
+      validatorAddress: params.validatorAddress,
+      amount: params.amount,
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+// 引き出すステークを特定・ドライランし、確認待ちとして保存します
+async function prepareUnstake(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const request = await resolveSuiRequest(
+    runtime,
+    message,
+    ["unstake"],
+    unstakeRequestFromIntent,
+    parseUnstakeRequest,
+  );
+  if (!request.all && !request.target) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      "Say which stake to withdraw: a StakedSui ID, a validator name or address, or 'all'",
+    );
+  }
+  const { validators } = await fetchValidators(service);
+  const stakes = await fetchStakes(service, validators);
+
+  let selected = stakes;
+  if (!request.all) {
+    const target = request.target!;
+    if (/^0x[0-9a-fA-F]{1,64}$/.test(target)) {
+      // StakedSuiのIDとバリデーターアドレスのどちらでも指定できる
+      const address = normalizeSuiAddress(target);
+      selected = stakes.filter(
+        (stake) =>
+          stake.stakedSuiId === address || stake.validatorAddress === address,
+      );
+    } else {
+      const validator = findValidator(validators, target);
+      selected = stakes.filter(
+        (stake) => stake.validatorAddress === validator.address,
+      );
+    }
+  }
+  if (selected.length === 0) {
+    throw new SuiActionError(
+      SuiErrorCode.STAKE_NOT_FOUND,
+      request.all
+        ? "This wallet has no staked SUI"
+        : `No staked SUI found for ${request.target}`,
+    );
+  }
+
+  await enforceAuditedPolicy(runtime, service, message, unstakeIntent());
+  const { estimatedGas, changes } = await dryRunStaking(
+    service,
+    buildUnstakeTransaction(selected.map((stake) => stake.stakedSuiId)),
+  );
+  const totals = totalStaked(selected);
+  const hasPending = selected.some((stake) => stake.status === "Pending");
+
+  const summary = [
+    `Withdraw ${selected.length} stake${selected.length === 1 ? "" : "s"}: ${formatAmount(totals.principal, SUI_DECIMALS)} SUI principal plus about ${formatAmount(totals.rewards, SUI_DECIMALS)} SUI in rewards`,
+    ...formatStakes(selected),
+    ...(hasPending ? ["Pending stakes are returned without rewards."] : []),
+    `Estimated gas: ${formatAmount(estimatedGas, SUI_DECIMALS)} SUI`,
+    `Balance change: ${changes.length > 0 ? changes.join(", ") : "none"}`,
+    `Reply "confirm" to sign and withdraw, or "cancel" to abort.`,
+  ].join("\n");
+
+  const params: UnstakeParams = { stakes: selected };
+  await savePendingConfirmation(runtime, message, SUI_UNSTAKE, params, summary);
+
+  await callback({
+    text: summary,
+    actions: [SUI_UNSTAKE],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Prepared Sui stake withdrawal; waiting for confirmation",
+    values: {
+      success: true,
+      awaitingConfirmation: true,
+    },
+    data: {
+      actionName: SUI_UNSTAKE,
+      stakedSuiIds: selected.map((stake) => stake.stakedSuiId),
+      principal: totals.principal.toString(),
+      estimatedRewards: totals.rewards.toString(),
+      estimatedGas: estimatedGas.toString(),
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 確認済みのステーク引き出しに署名して実行します。
+ */
+export async function executeUnstake(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: UnstakeParams,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const stakedSuiIds = params.stakes.map((stake) => stake.stakedSuiId);
+  const result = await signStakingTransaction(
+    runtime,
+    service,
+    message,
+    unstakeIntent(),
+    buildUnstakeTransaction(stakedSuiIds),
+  );
+  if (result.effects?.status.status !== "success") {
+    return transactionFailure(SUI_UNSTAKE, result, message, callback);
+  }
+
+  const totals = totalStaked(params.stakes);
+  const principal = formatAmount(totals.principal, SUI_DECIMALS);
+  const rewards = formatAmount(totals.rewards, SUI_DECIMALS);
+  await callback({
+    text: `Withdrew ${principal} SUI of stake plus about ${rewards} SUI in rewards.\nDigest: ${result.digest}`,
+    actions: [SUI_UNSTAKE],
+    source: message.content.source,
+  });
+
+  return {
+    text: `Withdrew ${stakedSuiIds.length} Sui stake${stakedSuiIds.length === 1 ? "" : "s"}`,
+    values: {
+      success: true,
+      digest: result.digest,
+    },
+    data: {
+      actionName: SUI_UNSTAKE,
+      digest: result.digest,
+      status: "success",
+      gasUsed: totalGasUsed(result.effects.gasUsed).toString(),
+      stakedSuiIds,
+      principal: totals.principal.toString(),
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+/**
+ * SUIをバリデーターにステークするアクションです。
+ * バリデーターは名前（部分一致可）またはアドレスで指定し、APY・手数料とドライランの結果を提示して、
+ * ユーザーが確認した時点で初めて署名・実行します。
+ */
+export const suiStakeAction: Action = {
+  name: SUI_STAKE, // アクションの一意な名前
+  similes: ["STAKE_SUI", "DELEGATE_SUI", "ADD_STAKE"], // 類似のアクション名
+  description:
+    "Stakes SUI with a validator chosen by name or address (e.g. 'stake 10 SUI with Mysten Labs'). Shows the validator's APY and commission, and signs only after the user confirms. Minimum stake is 1 SUI.", // アクションの説明
+
+  // 署名可能なウォレットがある場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_STAKE action"); // アクション処理開始のログ
+
+      const service = await getSigningService(runtime, message);
+
+      // 確認待ちのステークがあれば、返信内容に応じて実行または取り消し
+      const pending = await getPendingConfirmation<StakeParams>(
+        runtime,
+        message,
+        SUI_STAKE,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        // 承認しきい値以上の支出は署名せずに承認キューへ回す
+        const queued = await queueForApprovalIfRequired(
+          runtime,
+          message,
+          SUI_STAKE,
+          pending.params,
+          pending.summary,
+          stakeIntent(pending.params),
+          callback,
+        );
+        if (queued) {
+          await clearPendingConfirmation(runtime, message);
+          return queued;
+        }
+        return await executeStake(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        return await cancelPending(
+          runtime,
+          message,
+          SUI_STAKE,
+          "Stake",
+          callback,
+        );
+      }
+
+      return await prepareStake(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_STAKE,
+        error,
+        SuiErrorCode.STAKING_FAILED,
+      );
+      await callback({
+        text: `Stake failed: ${result.text}`,
+        actions: [SUI_STAKE],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Stake 10 SUI with Mysten Labs",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Stake 10 SUI with Mysten Labs 1 (0x4fff...)\nAPY: 3.21%, commission: 2%\nReply "confirm" to sign and stake.',
+          actions: [SUI_STAKE],
+        },
+      },
+      {
+        name: "{{name1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Staked 10 SUI with Mysten Labs 1. It becomes active next epoch. Digest: 5Pz...",
+          actions: [SUI_STAKE],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * ステークしたSUIを引き出すアクションです。
+ * StakedSuiのID、バリデーター名・アドレス、または「all」で対象を指定します。
+ */
+export const suiUnstakeAction: Action = {
+  name: SUI_UNSTAKE, // アクションの一意な名前
+  similes: ["WITHDRAW_STAKE", "UNSTAKE_SUI", "UNDELEGATE_SUI"], // 類似のアクション名
+  description:
+    "Withdraws staked SUI (principal plus rewards) by StakedSui ID, by validator name or address, or all stakes at once. Signs only after the user confirms.", // アクションの説明
+
+  // 署名可能なウォレットがある場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_UNSTAKE action"); // アクション処理開始のログ
+
+      const service = await getSigningService(runtime, message);
+
+      // 確認待ちの引き出しがあれば、返信内容に応じて実行または取り消し
+      const pending = await getPendingConfirmation<UnstakeParams>(
+        runtime,
+        message,
+        SUI_UNSTAKE,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        return await executeUnstake(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        return await cancelPending(
+          runtime,
+          message,
+          SUI_UNSTAKE,
+          "Withdrawal",
+          callback,
+        );
+      }
+
+      return await prepareUnstake(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_UNSTAKE,
+        error,
+        SuiErrorCode.STAKING_FAILED,
+      );
+      await callback({
+        text: `Unstake failed: ${result.text}`,
+        actions: [SUI_UNSTAKE],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Unstake my SUI from Mysten Labs",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Withdraw 1 stake: 10 SUI principal plus about 0.12 SUI in rewards\nReply "confirm" to sign and withdraw.',
+          actions: [SUI_UNSTAKE],
+        },
+      },
+    ],
+  ],
+};
+
+/**
+ * バリデーター一覧（APY・手数料）とウォレットのステーク（PendingとActive、見積もり報酬）を表示するアクションです。
+ * 「validators」を含む依頼ではバリデーター一覧を、それ以外はステーク一覧を返します。
+ */
+export const suiListStakesAction: Action = {
+  name: SUI_LIST_STAKES, // アクションの一意な名前
+  similes: ["LIST_VALIDATORS", "SHOW_STAKES", "STAKING_STATUS", "MY_STAKES"], // 類似のアクション名
+  description:
+    "Lists active Sui validators with APY and commission, and/or the wallet's pending and active stakes with estimated rewards.", // アクションの説明
+
+  // ウォレットサービスがあれば有効（ステーク一覧にはアドレスが必要）
+  validate: async (
+    runtime: IAgentRuntime,
+    _message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return !!runtime.getService<SuiWalletService>(SuiWalletService.serviceType);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_LIST_STAKES action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet service is not running",
+        );
+      }
+
+      const text = message.content.text ?? "";
+      const showValidators = /validators?|バリデー/i.test(text);
+      const showStakes =
+        !showValidators || /\bstakes?\b|\bstaked\b|ステーク/i.test(text);
+      if (showStakes && !service.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured",
+        );
+      }
+
+      const { epoch, validators } = await fetchValidators(service);
+      const limit = Number(options?.limit) || DEFAULT_VALIDATOR_LIMIT;
+      const lines: string[] = [];
+      let stakes: StakeSummary[] = [];
+
+      if (showValidators) {
+        lines.push(
+          `Top ${Math.min(limit, validators.length)} of ${validators.length} active validators by APY (epoch ${epoch}):`,
+          ...formatValidators(validators.slice(0, limit)),
+        );
+      }
+      if (showStakes) {
+        const address = service.getAddress();
+        stakes = await fetchStakes(service, validators);
+        if (lines.length > 0) lines.push("");
+        if (stakes.length === 0) {
+          lines.push(`Sui wallet ${address} has no staked SUI.`);
+        } else {
+          const totals = totalStaked(stakes);
+          lines.push(
+            `Stakes of Sui wallet ${address} (epoch ${epoch}):`,
+            ...formatStakes(stakes),
+            `Total: ${formatAmount(totals.principal, SUI_DECIMALS)} SUI staked, estimated rewards ${formatAmount(totals.rewards, SUI_DECIMALS)} SUI`,
+          );
+        }
+      }
+      const responseText = lines.join("\n");
+
+      await callback({
+        text: responseText,
+        actions: [SUI_LIST_STAKES],
+        source: message.content.source,
+      });
+
+      const totals = totalStaked(stakes);
+      return {
+        text: responseText,
+        values: {
+          success: true,
+          stakeCount: stakes.length,
+          totalStaked: formatAmount(totals.principal, SUI_DECIMALS),
+        },
+        data: {
+          actionName: SUI_LIST_STAKES,
+          epoch,
+          validators: showValidators ? validators.slice(0, limit) : [],
+          stakes,
+          messageId: message.id,
+          timestamp: Date.now(),
+        },
+        success: true,
+      };
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_LIST_STAKES,
+        error,
+        SuiErrorCode.STAKING_FAILED,
+      );
+      await callback({
+        text: `Could not load staking information: ${result.text}`,
+        actions: [SUI_LIST_STAKES],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Which validators have the best APY?",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Top 10 of 112 active validators by APY (epoch 501):\n- Mysten Labs 1: APY 3.21%, commission 2% (0x4fff...)",
+          actions: [SUI_LIST_STAKES],
+        },
+      },
+    ],
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "ステークの状況を見せて",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Stakes of Sui wallet 0x8c2f...a8c0e (epoch 501):\n- 10 SUI with Mysten Labs 1 (Active since epoch 480, est. reward 0.12 SUI) 0x7a1c...",
+          actions: [SUI_LIST_STAKES],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,509 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import type { BalanceChange } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  SUI_DECIMALS,
+  normalizeStructTag,
+  normalizeSuiAddress,
+} from "@mysten/sui/utils";
+import { z } from "zod";
+import { queueForApprovalIfRequired } from "../approval.ts";
+import { enforceAuditedPolicy, signAndExecuteAudited } from "../audit.ts";
+import {
+  clearPendingConfirmation,
+  getPendingConfirmation,
+  isCancellation,
+  isConfirmation,
+  savePendingConfirmation,
+} from "../confirmation.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { resolveSuiRequest } from "../intent.ts";
+import {
+  type SpendIntent,
+  findApprovalRequirement,
+  rawAmountSchema,
+  spendIntentFromBalanceChanges,
+  spendIntentSchema,
+} from "../policy.ts";
+import { invalidateHistoryCache } from "../providers/history.ts";
+import { invalidatePortfolioCache } from "../providers/portfolio.ts";
+import type { SuiWalletService } from "../service.ts";
+import {
+  type SwapQuote,
+  compareQuotes,
+  formatPriceImpact,
+  minimumReceived,
+  parseSwapRequest,
+  swapRequestFromIntent,
+} from "../swap.ts";
+import {
+  coinSymbol,
+  describeBalanceChanges,
+  formatAmount,
+  getCoinDecimals,
+  parseAmount,
+  resolveCoinType,
+  totalGasUsed,
+} from "../utils.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_SWAP = "SUI_SWAP";
+
+/**
+ * 確認待ちの間に保存するスワップの内容です。
+ */
+export type SwapParams = {
+  transaction: string; // アグリゲーターが構築したトランザクション（JSON）
+  aggregator: string; // 採用した見積もりのアグリゲーター
+  coinTypeIn: string;
+  coinTypeOut: string;
+  amountIn: string; // 売る量（最小単位）
+  minAmountOut: string; // 最低受取額（最小単位）
+  decimalsIn: number;
+  decimalsOut: number;
+  intent: SpendIntent; // ポリシー評価済みの支出
+};
+
+/** 承認キューから読み戻したスワップの内容のスキーマ */
+export const swapParamsSchema = z.object({
+  transaction: z.string().min(1),
+  aggregator: z.string().min(1),
+  coinTypeIn: z.string().min(1),
+  coinTypeOut: z.string().min(1),
+  amountIn: rawAmountSchema,
+  minAmountOut: rawAmountSchema,
+  decimalsIn: z.number().int().min(0),
+  decimalsOut: z.number().int().min(0),
+  intent: spendIntentSchema,
+}) satisfies z.ZodType<SwapParams>;
+
+// ウォレット自身の指定コインの残高変化の合計を返します
+function ownerChange(
+  owner: string,
+  changes: BalanceChange[] | null | undefined,
+  coinType: string,
+): bigint {
+  return (changes ?? [])
+    .filter(
+      (change) =>
+        typeof change.owner === "object" &&
+        "AddressOwner" in change.owner &&
+        normalizeSuiAddress(change.owner.AddressOwner) === owner &&
+        normalizeStructTag(change.coinType) === coinType,
+    )
+    .reduce((total, change) => total + BigInt(change.amount), 0n);
+}
+
+// トランザクションが呼び出すMoveパッケージを返します（支出ポリシーの評価用）
+function movePackages(tx: Transaction): string[] {
+  const packages = new Set<string>();
+  for (const command of tx.getData().commands) {
+    if (command.MoveCall) packages.add(command.MoveCall.package);
+  }
+  return [...packages];
+}
+
+// 見積もりの経路を表示用の文字列にします
+function describeRoute(quote: SwapQuote): string {
+  return quote.route
+    .map(
+      (leg) =>
+        `${leg.protocol} ${coinSymbol(leg.coinTypeIn)}→${coinSymbol(leg.coinTypeOut)}${leg.share !== undefined ? ` (${Math.round(leg.share * 100)}%)` : ""}`,
+    )
+    .join(", ");
+}
+
+// 見積もりを比較し、最良の見積もりでトランザクションを構築・ドライランして確認待ちとして保存します
+async function prepareSwap(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const request = await resolveSuiRequest(
+    runtime,
+    message,
+    ["swap"],
+    swapRequestFromIntent,
+    parseSwapRequest,
+  );
+  if (!request.coinIn || !request.coinOut) {
+    throw new SuiActionError(
+      SuiErrorCode.UNKNOWN_COIN_TYPE,
+      "Say which coins to swap, e.g. 'swap 10 SUI for USDC'",
+    );
+  }
+  const coinTypeIn = await resolveCoinType(service, request.coinIn);
+  const coinTypeOut = await resolveCoinType(service, request.coinOut);
+  if (coinTypeIn === coinTypeOut) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      "Cannot swap a coin for itself",
+    );
+  }
+  const decimalsIn = await getCoinDecimals(service, coinTypeIn);
+  const decimalsOut = await getCoinDecimals(service, coinTypeOut);
+  const amountIn = parseAmount(request.amount, decimalsIn);
+  const symbolIn = coinSymbol(coinTypeIn);
+  const symbolOut = coinSymbol(coinTypeOut);
+
+  // 残高を事前に確認
+  const balance = await service.getBalance(coinTypeIn);
+  if (BigInt(balance.totalBalance) < amountIn) {
+    throw new SuiActionError(
+      SuiErrorCode.INSUFFICIENT_BALANCE,
+      `Insufficient ${symbolIn} balance: have ${formatAmount(balance.totalBalance, decimalsIn)}, need ${formatAmount(amountIn, decimalsIn)}`,
+    );
+  }
+
+  // 全てのアグリゲーターに見積もりを依頼し、受取額の最も多いものを採用
+  const sender = service.getAddress();
+  const aggregators = service.getSwapAggregators();
+  const { quotes, failures } = await compareQuotes(aggregators, {
+    coinTypeIn,
+    coinTypeOut,
+    amountIn: amountIn.toString(),
+    sender,
+  });
+  const [best, ...others] = quotes;
+  if (!best) {
+    throw new SuiActionError(
+      SuiErrorCode.NO_SWAP_QUOTE,
+      `No route found to swap ${symbolIn} for ${symbolOut}${failures.length > 0 ? ` (${failures.map((f) => `${f.aggregator}: ${f.error}`).join("; ")})` : ""}`,
+    );
+  }
+  const slippageBps = service.getConfig().SUI_SWAP_SLIPPAGE_BPS;
+  const minAmountOut = minimumReceived(best.amountOut, slippageBps);
+  const aggregator = aggregators.find((a) => a.name === best.aggregator);
+  if (!aggregator) {
+    // 見積もりを返したアグリゲーターが設定に無い（名前が一致しない）場合はトランザクションを構築できない
+    throw new SuiActionError(
+      SuiErrorCode.NO_SWAP_QUOTE,
+      `The best quote came from ${best.aggregator}, which is not a configured aggregator`,
+    );
+  }
+  const tx = await aggregator.buildTransaction(best, { sender, slippageBps });
+  const transaction = await tx.toJSON();
+
+  // 署名せずにドライランし、最低受取額を下回らないか確認
+  const dryRun = await service.dryRunTransaction(tx);
+  if (dryRun.effects.status.status !== "success") {
+    throw new SuiActionError(
+      SuiErrorCode.DRY_RUN_FAILED,
+      `Dry run failed: ${dryRun.effects.status.error ?? "unknown error"}`,
+    );
+  }
+  const owner = normalizeSuiAddress(sender);
+  const simulatedOut = ownerChange(owner, dryRun.balanceChanges, coinTypeOut);
+  if (simulatedOut < minAmountOut) {
+    throw new SuiActionError(
+      SuiErrorCode.SLIPPAGE_EXCEEDED,
+      `Dry run returned ${formatAmount(simulatedOut, decimalsOut)} ${symbolOut}, below the minimum of ${formatAmount(minAmountOut, decimalsOut)} ${symbolOut} at ${slippageBps / 100}% slippage`,
+    );
+  }
+  const estimatedGas = totalGasUsed(dryRun.effects.gasUsed);
+  // ドライランの残高変化から支出を求め、支出ポリシーに違反していないか確認
+  const intent = await spendIntentFromBalanceChanges(
+    service,
+    SUI_SWAP,
+    dryRun.balanceChanges,
+    estimatedGas,
+    movePackages(tx),
+  );
+  await enforceAuditedPolicy(runtime, service, message, intent);
+  const changes = await describeBalanceChanges(service, dryRun.balanceChanges);
+  const approval = findApprovalRequirement(runtime, intent);
+
+  const summary = [
+    `Swap ${formatAmount(amountIn, decimalsIn)} ${symbolIn} for about ${formatAmount(best.amountOut, decimalsOut)} ${symbolOut} via ${best.aggregator}`,
+    `Route: ${describeRoute(best)}`,
+    `Price impact: ${formatPriceImpact(best.priceImpact)}`,
+    `Minimum received: ${formatAmount(minAmountOut, decimalsOut)} ${symbolOut} (slippage ${slippageBps / 100}%)`,
+    ...(others.length > 0
+      ? [
+          `Other quotes: ${others.map((quote) => `${quote.aggregator} ${formatAmount(quote.amountOut, decimalsOut)} ${symbolOut}`).join(", ")}`,
+        ]
+      : []),
+    `Estimated gas: ${formatAmount(estimatedGas, SUI_DECIMALS)} SUI`,
+    `Balance change: ${changes.length > 0 ? changes.join(", ") : "none"}`,
+    ...(approval
+      ? [`${approval.reason}; an operator must approve it after you confirm.`]
+      : []),
+    `Reply "confirm" to sign and swap, or "cancel" to abort.`,
+  ].join("\n");
+
+  const params: SwapParams = {
+    transaction,
+    aggregator: best.aggregator,
+    coinTypeIn,
+    coinTypeOut,
+    amountIn: amountIn.toString(),
+    minAmountOut: minAmountOut.toString(),
+    decimalsIn,
+    decimalsOut,
+    intent,
+  };
+  await savePendingConfirmation(runtime, message, SUI_SWAP, params, summary);
+
+  await callback({
+    text: summary,
+    actions: [SUI_SWAP],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Prepared Sui swap; waiting for confirmation",
+    values: {
+      success: true,
+      awaitingConfirmation: true,
+    },
+    data: {
+      actionName: SUI_SWAP,
+      quote: { ...best, raw: undefined },
+      quotes: quotes.map((quote) => ({
+        aggregator: quote.aggregator,
+        amountOut: quote.amountOut,
+        priceImpact: quote.priceImpact,
+      })),
+      failures,
+      minAmountOut: params.minAmountOut,
+      slippageBps,
+      estimatedGas: estimatedGas.toString(),
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 確認済みのスワップに署名して実行します。
+ * 承認キューで承認されたときも、この関数で元のアクションを再開します。
+ */
+export async function executeSwap(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: SwapParams,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  // 二重実行を防ぐため、署名前に確認待ちを消しておく
+  await clearPendingConfirmation(runtime, message);
+  // 確認待ちの間に他の支出で上限に達していないか、署名直前に再確認して監査ログに記録
+  const result = await signAndExecuteAudited(
+    runtime,
+    service,
+    message,
+    params.intent,
+    Transaction.from(params.transaction),
+  );
+  const status = result.effects?.status.status ?? "unknown";
+  const gasUsed = result.effects
+    ? totalGasUsed(result.effects.gasUsed).toString()
+    : "0";
+  // 残高と履歴が変わるのでキャッシュを破棄
+  await invalidatePortfolioCache(runtime, service);
+  await invalidateHistoryCache(runtime, service);
+
+  if (status !== "success") {
+    const failure = createErrorResult(
+      SUI_SWAP,
+      new SuiActionError(
+        SuiErrorCode.TRANSACTION_FAILED,
+        `Transaction ${result.digest} failed: ${result.effects?.status.error ?? status}`,
+      ),
+      SuiErrorCode.TRANSACTION_FAILED,
+    );
+    failure.data = { ...failure.data, digest: result.digest, status, gasUsed };
+    await callback({
+      text: failure.text ?? "Swap failed",
+      actions: [SUI_SWAP],
+      source: message.content.source,
+    });
+    return failure;
+  }
+
+  const received = ownerChange(
+    normalizeSuiAddress(service.getAddress()),
+    result.balanceChanges,
+    params.coinTypeOut,
+  );
+  const soldText = `${formatAmount(params.amountIn, params.decimalsIn)} ${coinSymbol(params.coinTypeIn)}`;
+  const receivedText = `${formatAmount(received, params.decimalsOut)} ${coinSymbol(params.coinTypeOut)}`;
+  await callback({
+    text: `Swapped ${soldText} for ${receivedText}.\nDigest: ${result.digest}`,
+    actions: [SUI_SWAP],
+    source: message.content.source,
+  });
+
+  return {
+    text: `Swapped ${soldText} for ${receivedText}`,
+    values: {
+      success: true,
+      digest: result.digest,
+    },
+    data: {
+      actionName: SUI_SWAP,
+      digest: result.digest,
+      status,
+      gasUsed,
+      aggregator: params.aggregator,
+      coinTypeIn: params.coinTypeIn,
+      coinTypeOut: params.coinTypeOut,
+      amountIn: params.amountIn,
+      amountOut: received.toString(),
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+/**
+ * DEXアグリゲーターを使ってコインを交換するアクションです。
+ * 設定された全てのアグリゲーターの見積もりを比較し、経路・価格影響・最低受取額を提示して、
+ * ユーザーが確認した時点で初めて署名・実行します。
+ */
+export const suiSwapAction: Action = {
+  name: SUI_SWAP, // アクションの一意な名前
+  similes: ["SWAP", "SWAP_TOKENS", "TRADE_COINS", "EXCHANGE_TOKENS"], // 類似のアクション名
+  description:
+    "Swaps one coin for another on Sui (e.g. 'swap 10 SUI for USDC') using the best quote across DEX aggregators. Shows the route, price impact and minimum received after slippage, and signs only after the user confirms.", // アクションの説明
+
+  // 署名可能なウォレットがある場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_SWAP action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured for signing",
+        );
+      }
+      if (service.isReadOnly()) {
+        throw new SuiActionError(
+          SuiErrorCode.READ_ONLY,
+          "Sui wallet is in read-only mode",
+        );
+      }
+
+      // 確認待ちのスワップがあれば、返信内容に応じて実行または取り消し
+      const pending = await getPendingConfirmation<SwapParams>(
+        runtime,
+        message,
+        SUI_SWAP,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        // 承認しきい値以上の支出は署名せずに承認キューへ回す
+        const queued = await queueForApprovalIfRequired(
+          runtime,
+          message,
+          SUI_SWAP,
+          pending.params,
+          pending.summary,
+          pending.params.intent,
+          callback,
+        );
+        if (queued) {
+          await clearPendingConfirmation(runtime, message);
+          return queued;
+        }
+        return await executeSwap(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        await clearPendingConfirmation(runtime, message);
+        await callback({
+          text: "Swap cancelled.",
+          actions: [SUI_SWAP],
+          source: message.content.source,
+        });
+        return {
+          text: "Cancelled pending Sui swap",
+          values: { success: true, cancelled: true },
+          data: { actionName: SUI_SWAP, messageId: message.id },
+          success: true,
+        };
+      }
+
+      return await prepareSwap(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_SWAP,
+        error,
+        SuiErrorCode.SWAP_FAILED,
+      );
+      await callback({
+        text: `Swap failed: ${result.text}`,
+        actions: [SUI_SWAP],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Swap 10 SUI for USDC",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Swap 10 SUI for about 35.12 USDC via aftermath\nRoute: Cetus SUI→USDC\nPrice impact: 0.12%\nMinimum received: 34.94 USDC (slippage 0.5%)\nReply "confirm" to sign and swap.',
+          actions: [SUI_SWAP],
+        },
+      },
+      {
+        name: "{{name1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Swapped 10 SUI for 35.1 USDC. Digest: 7Hq...",
+          actions: [SUI_SWAP],
+        },
+      },
+    ],
+  ],
+};
@@ -0,0 +1,422 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type Content,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+// Sui SDKからトランザクション構築用のモジュールをインポートします。
+import { Transaction, coinWithBalance } from "@mysten/sui/transactions";
+import { SUI_DECIMALS } from "@mysten/sui/utils";
+import { z } from "zod";
+import {
+  clearPendingConfirmation,
+  getPendingConfirmation,
+  isCancellation,
+  isConfirmation,
+  savePendingConfirmation,
+} from "../confirmation.ts";
+import { queueForApprovalIfRequired } from "../approval.ts";
+import { enforceAuditedPolicy, signAndExecuteAudited } from "../audit.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { resolveSuiRequest } from "../intent.ts";
+import { formatAddress, resolveRecipient } from "../names.ts";
+import {
+  type SpendIntent,
+  findApprovalRequirement,
+  rawAmountSchema,
+} from "../policy.ts";
+import { invalidateHistoryCache } from "../providers/history.ts";
+import { invalidatePortfolioCache } from "../providers/portfolio.ts";
+import type { SuiWalletService } from "../service.ts";
+import {
+  coinSymbol,
+  describeBalanceChanges,
+  formatAmount,
+  getCoinDecimals,
+  parseAmount,
+  parseTransferRequest,
+  resolveCoinType,
+  totalGasUsed,
+  transferRequestFromIntent,
+} from "../utils.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_TRANSFER = "SUI_TRANSFER";
+
+/**
+ * 確認待ちの間に保存する送金パラメータです。
+ */
+export type TransferParams = {
+  recipient: string; // 正規化済みの送金先アドレス
+  recipientName?: string | null; // 送金先のSuiNS名（指定された名前、または逆引きした名前）
+  coinType: string; // 正規化済みのコインタイプ
+  amount: string; // 最小単位の金額（bigintを文字列化したもの）
+  decimals: number; // コインの小数桁数
+};
+
+/** 承認キューから読み戻した送金パラメータのスキーマ */
+export const transferParamsSchema = z.object({
+  recipient: z.string().min(1),
+  recipientName: z.string().nullable().optional(),
+  coinType: z.string().min(1),
+  amount: rawAmountSchema,
+  decimals: z.number().int().min(0),
+}) satisfies z.ZodType<TransferParams>;
+
+/**
+ * 送金トランザクションを構築します。
+ * SUIの場合はガスコインから、それ以外は保有コインから必要額を切り出して送金します。
+ *
+ * @param {TransferParams} params - 送金パラメータ
+ * @returns {Transaction} - 未署名のトランザクション
+ */
+export function buildTransferTransaction(params: TransferParams): Transaction {
+  const tx = new Transaction();
+  const coin = coinWithBalance({
+    type: params.coinType,
+    balance: BigInt(params.amount),
+  });
+  tx.transferObjects([coin], params.recipient);
+  return tx;
+}
+
+// 送金パラメータを支出ポリシーで評価する形に変換します
+function transferIntent(params: TransferParams): SpendIntent {
+  return {
+    action: SUI_TRANSFER,
+    recipients: [params.recipient],
+    spends: [
+      {
+        coinType: params.coinType,
+        amount: params.amount,
+        decimals: params.decimals,
+      },
+    ],
+    packages: [],
+  };
+}
+
+// 送金内容を検証・ドライランし、確認待ちとして保存します
+async function prepareTransfer(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const request = await resolveSuiRequest(
+    runtime,
+    message,
+    ["transfer"],
+    transferRequestFromIntent,
+    parseTransferRequest,
+  );
+  // SuiNS名は正引きし、アドレスは表示用に逆引きする
+  const { address: recipient, name: recipientName } = await resolveRecipient(
+    service,
+    request.recipient,
+  );
+  const coinType = await resolveCoinType(service, request.coin);
+  const decimals = await getCoinDecimals(service, coinType);
+  const amount = parseAmount(request.amount, decimals);
+  const symbol = coinSymbol(coinType);
+
+  // 残高を事前に確認
+  const balance = await service.getBalance(coinType);
+  if (BigInt(balance.totalBalance) < amount) {
+    throw new SuiActionError(
+      SuiErrorCode.INSUFFICIENT_BALANCE,
+      `Insufficient ${symbol} balance: have ${formatAmount(balance.totalBalance, decimals)}, need ${formatAmount(amount, decimals)}`,
+    );
+  }
+
+  const params: TransferParams = {
+    recipient,
+    recipientName,
+    coinType,
+    amount: amount.toString(),
+    decimals,
+  };
+  // 支出ポリシー（上限・許可/拒否リスト）に違反していないか確認
+  await enforceAuditedPolicy(runtime, service, message, transferIntent(params));
+
+  // 署名せずにドライランしてガス代と残高変化を見積もる
+  const dryRun = await service.dryRunTransaction(
+    buildTransferTransaction(params),
+  );
+  if (dryRun.effects.status.status !== "success") {
+    throw new SuiActionError(
+      SuiErrorCode.DRY_RUN_FAILED,
+      `Dry run failed: ${dryRun.effects.status.error ?? "unknown error"}`,
+    );
+  }
+  const estimatedGas = totalGasUsed(dryRun.effects.gasUsed);
+  const changes = await describeBalanceChanges(service, dryRun.balanceChanges);
+  const approval = findApprovalRequirement(runtime, transferIntent(params));
+
+  const summary = [
+    `Transfer ${formatAmount(amount, decimals)} ${symbol} to ${formatAddress(recipient, recipientName)}`,
+    `Estimated gas: ${formatAmount(estimatedGas, SUI_DECIMALS)} SUI`,
+    `Balance change: ${changes.length > 0 ? changes.join(", ") : "none"}`,
+    ...(approval
+      ? [`${approval.reason}; an operator must approve it after you confirm.`]
+      : []),
+    `Reply "confirm" to sign and send, or "cancel" to abort.`,
+  ].join("\n");
+
+  await savePendingConfirmation(
+    runtime,
+    message,
+    SUI_TRANSFER,
+    params,
+    summary,
+  );
+
+  const responseContent: Content = {
+    text: summary,
+    actions: [SUI_TRANSFER],
+    source: message.content.source,
+  };
+  await callback(responseContent);
+
+  return {
+    text: "Prepared Sui transfer; waiting for confirmation",
+    values: {
+      success: true,
+      awaitingConfirmation: true,
+    },
+    data: {
+      actionName: SUI_TRANSFER,
+      recipient,
+      recipientName,
+      coinType,
+      amount: params.amount,
+      estimatedGas: estimatedGas.toString(),
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 確認済みの送金に署名して送信します。
+ * 承認キューで承認されたときも、この関数で元のアクションを再開します。
+ */
+export async function executeTransfer(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: TransferParams,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  // 二重送信を防ぐため、署名前に確認待ちを消しておく
+  await clearPendingConfirmation(runtime, message);
+  // 確認待ちの間に他の支出で上限に達していないか、署名直前に再確認して監査ログに記録
+  const intent = transferIntent(params);
+  const result = await signAndExecuteAudited(
+    runtime,
+    service,
+    message,
+    intent,
+    buildTransferTransaction(params),
+  );
+  const status = result.effects?.status.status ?? "unknown";
+  const gasUsed = result.effects
+    ? totalGasUsed(result.effects.gasUsed).toString()
+    : "0";
+  const symbol = coinSymbol(params.coinType);
+  const amount = formatAmount(params.amount, params.decimals);
+  const to = formatAddress(params.recipient, params.recipientName);
+  // 残高と履歴が変わるのでキャッシュを破棄
+  await invalidatePortfolioCache(runtime, service);
+  await invalidateHistoryCache(runtime, service);
+
+  if (status !== "success") {
+    const failure = createErrorResult(
+      SUI_TRANSFER,
+      new SuiActionError(
+        SuiErrorCode.TRANSACTION_FAILED,
+        `Transaction ${result.digest} failed: ${result.effects?.status.error ?? status}`,
+      ),
+      SuiErrorCode.TRANSACTION_FAILED,
+    );
+    failure.data = { ...failure.data, digest: result.digest, status, gasUsed };
+    await callback({
+      text: failure.text ?? "Transfer failed",
+      actions: [SUI_TRANSFER],
+      source: message.content.source,
+    });
+    return failure;
+  }
+
+  await callback({
+    text: `Sent ${amount} ${symbol} to ${to}.\nDigest: ${result.digest}`,
+    actions: [SUI_TRANSFER],
+    source: message.content.source,
+  });
+
+  return {
+    text: `Transferred ${amount} ${symbol} to ${to}`,
+    values: {
+      success: true,
+      digest: result.digest,
+    },
+    data: {
+      actionName: SUI_TRANSFER,
+      digest: result.digest,
+      status,
+      gasUsed,
+      recipient: params.recipient,
+      coinType: params.coinType,
+      amount: params.amount,
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+/**
+ * SUIまたは任意のコインを送金するアクションです。
+ * 1通目のメッセージで送金先・金額・コインを抽出してドライランし、
+ * ユーザーが確認の返信をした時点で初めて署名・送信します。
+ */
+export const suiTransferAction: Action = {
+  name: SUI_TRANSFER, // アクションの一意な名前
+  similes: ["SEND_SUI", "TRANSFER_SUI", "SEND_TOKEN", "TRANSFER_COIN"], // 類似のアクション名
+  description:
+    "Transfers SUI or another coin to a Sui address or SuiNS name (e.g. alice.sui). Shows a dry-run estimate first and signs only after the user confirms.", // アクションの説明
+
+  // 署名可能なウォレットがある場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_TRANSFER action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured for signing",
+        );
+      }
+      if (service.isReadOnly()) {
+        throw new SuiActionError(
+          SuiErrorCode.READ_ONLY,
+          "Sui wallet is in read-only mode",
+        );
+      }
+
+      // 確認待ちの送金があれば、返信内容に応じて実行または取り消し
+      const pending = await getPendingConfirmation<TransferParams>(
+        runtime,
+        message,
+        SUI_TRANSFER,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        // 承認しきい値以上の支出は署名せずに承認キューへ回す
+        const queued = await queueForApprovalIfRequired(
+          runtime,
+          message,
+          SUI_TRANSFER,
+          pending.params,
+          pending.summary,
+          transferIntent(pending.params),
+          callback,
+        );
+        if (queued) {
+          await clearPendingConfirmation(runtime, message);
+          return queued;
+        }
+        return await executeTransfer(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        await clearPendingConfirmation(runtime, message);
+        await callback({
+          text: "Transfer cancelled.",
+          actions: [SUI_TRANSFER],
+          source: message.content.source,
+        });
+        return {
+          text: "Cancelled pending Sui transfer",
+          values: { success: true, cancelled: true },
+          data: { actionName: SUI_TRANSFER, messageId: message.id },
+          success: true,
+        };
+      }
+
+      return await prepareTransfer(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_TRANSFER,
+        error,
+        SuiErrorCode.TRANSFER_FAILED,
+      );
+      await callback({
+        text: `Transfer failed: ${result.text}`,
+        actions: [SUI_TRANSFER],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Send 1.5 SUI to 0x8c2f3c1bbf3d8ab0e4f6bd0a1d3c5b7e9f2a4c6e8d0b2f4a6c8e0d2b4f6a8c0e",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Transfer 1.5 SUI to 0x8c2f...a8c0e. Estimated gas: 0.002 SUI. Reply "confirm" to sign and send.',
+          actions: [SUI_TRANSFER],
+        },
+      },
+      {
+        name: "{{name1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Sent 1.5 SUI. Digest: 9Yk...",
+          actions: [SUI_TRANSFER],
+        },
+      },
+    ],
+  ],
+};
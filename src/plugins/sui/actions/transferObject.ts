@@ -0,0 +1,515 @@
+// ElizaOSコアからアクション関連の型やモジュールをインポートします。
+import {
+  type Action,
+  type ActionResult,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { Transaction } from "@mysten/sui/transactions";
+import { SUI_DECIMALS, normalizeSuiAddress } from "@mysten/sui/utils";
+import { enforceAuditedPolicy, signAndExecuteAudited } from "../audit.ts";
+import {
+  clearPendingConfirmation,
+  getPendingConfirmation,
+  isCancellation,
+  isConfirmation,
+  savePendingConfirmation,
+} from "../confirmation.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "../errors.ts";
+import { type SuiIntent, resolveSuiRequest } from "../intent.ts";
+import { SUI_NAME_PATTERN, formatAddress, resolveRecipient } from "../names.ts";
+import type { SpendIntent } from "../policy.ts";
+import { invalidateHistoryCache } from "../providers/history.ts";
+import {
+  type OwnedObjectSummary,
+  describeObject,
+  fetchOwnedObjects,
+  invalidateObjectsCache,
+  summarizeObject,
+} from "../providers/objects.ts";
+import { invalidatePortfolioCache } from "../providers/portfolio.ts";
+import type { SuiWalletService } from "../service.ts";
+import {
+  describeBalanceChanges,
+  formatAmount,
+  totalGasUsed,
+} from "../utils.ts";
+import { getWalletService, isWalletAvailable } from "../wallets.ts";
+
+/** アクション名 */
+export const SUI_TRANSFER_OBJECT = "SUI_TRANSFER_OBJECT";
+
+// 名前でオブジェクトを探す際に読むページ数の上限
+const MAX_PAGES = 5;
+
+/**
+ * チャットから抽出したオブジェクト送付のリクエストです。
+ */
+export interface ObjectTransferRequest {
+  object?: string; // オブジェクトIDまたはDisplayの名前
+  recipient?: string; // 送付先アドレスまたはSuiNS名
+}
+
+/**
+ * 確認待ちの間に保存するオブジェクト送付のパラメータです。
+ */
+export interface ObjectTransferParams {
+  objectId: string; // 送るオブジェクトのID
+  type: string; // オブジェクトのMove型
+  name: string | null; // Displayの名前
+  recipient: string; // 正規化済みの送付先アドレス
+  recipientName?: string | null; // 送付先のSuiNS名（指定された名前、または逆引きした名前）
+}
+
+const ADDRESS = "0x[0-9a-fA-F]{1,64}(?![0-9a-fA-F]|::)";
+// 送付先（アドレスまたはSuiNS名）にマッチする正規表現の断片
+const RECIPIENT = `(?:${ADDRESS}|${SUI_NAME_PATTERN.source})`;
+
+// 名前の前後に付きがちな語を除きます
+function cleanObjectName(text: string | undefined): string | undefined {
+  const name = text
+    ?.trim()
+    .replace(/^(?:my|the)\s+/i, "")
+    .replace(/^(?:nft|object)\s+/i, "")
+    .replace(/\s+(?:nft|object)$/i, "")
+    .replace(/^["'「](.*)["'」]$/, "$1")
+    .trim();
+  return name ? name : undefined;
+}
+
+/**
+ * メッセージ本文から送るオブジェクトと送付先を抽出します。
+ * 「send my Capy #12 to 0x...」「transfer 0x<object> to alice.sui」「Capy #12を0x...に送って」などに対応します。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {ObjectTransferRequest} - 抽出結果（見つからない項目は未定義）
+ */
+export function parseObjectTransferRequest(
+  text: string,
+): ObjectTransferRequest {
+  const recipient =
+    text.match(new RegExp(`\\bto\\s+(${RECIPIENT})`, "i"))?.[1] ??
+    text.match(new RegExp(`(${RECIPIENT})\\s*(?:に|へ)`, "i"))?.[1];
+  const english = text.match(
+    new RegExp(
+      `\\b(?:send|transfer|give|move)\\s+(.+?)\\s+to\\s+${RECIPIENT}`,
+      "i",
+    ),
+  );
+  const japanese = text.match(
+    new RegExp(`^(.+?)を\\s*${RECIPIENT}\\s*(?:に|へ)`, "i"),
+  );
+  return {
+    object: cleanObjectName(english?.[1] ?? japanese?.[1]),
+    recipient,
+  };
+}
+
+/**
+ * モデルが抽出した依頼内容をオブジェクト送付のリクエストに変換します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<ObjectTransferRequest>} - 抽出できた項目
+ */
+export function objectTransferRequestFromIntent(
+  intent: SuiIntent,
+): Partial<ObjectTransferRequest> {
+  return {
+    object: cleanObjectName(intent.object ?? undefined),
+    recipient: intent.recipient ?? undefined,
+  };
+}
+
+/**
+ * 名前またはIDから、ウォレットが所有するオブジェクトを特定します。
+ * 名前は大文字小文字を区別せず、完全一致がなければ部分一致が1件だけの場合に採用します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {string} object - オブジェクトIDまたはDisplayの名前
+ * @returns {Promise<OwnedObjectSummary>} - 一致したオブジェクト
+ */
+export async function findOwnedObject(
+  service: SuiWalletService,
+  object: string,
+): Promise<OwnedObjectSummary> {
+  const owner = normalizeSuiAddress(service.getAddress());
+  if (new RegExp(`^${ADDRESS}$`).test(object)) {
+    const response = await service.getObject(object);
+    const data = response.data;
+    const objectOwner =
+      data?.owner &&
+      typeof data.owner === "object" &&
+      "AddressOwner" in data.owner
+        ? normalizeSuiAddress(data.owner.AddressOwner)
+        : null;
+    if (!data || objectOwner !== owner) {
+      throw new SuiActionError(
+        SuiErrorCode.OBJECT_NOT_FOUND,
+        `Object ${normalizeSuiAddress(object)} is not owned by this wallet`,
+      );
+    }
+    return summarizeObject(data);
+  }
+
+  // 所有オブジェクトをページをたどって集め、Displayの名前で探す
+  const lower = object.toLowerCase();
+  const candidates: OwnedObjectSummary[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const result = await fetchOwnedObjects(service, { cursor, limit: 50 });
+    const exact = result.objects.find(
+      (candidate) => candidate.name?.toLowerCase() === lower,
+    );
+    if (exact) return exact;
+    candidates.push(
+      ...result.objects.filter((candidate) =>
+        candidate.name?.toLowerCase().includes(lower),
+      ),
+    );
+    cursor = result.nextCursor;
+    if (!cursor) break;
+  }
+  if (candidates.length === 1) return candidates[0];
+  if (candidates.length > 1) {
+    throw new SuiActionError(
+      SuiErrorCode.OBJECT_NOT_FOUND,
+      `"${object}" matches several objects (${candidates.map(describeObject).join(", ")}); use the full name or object ID`,
+      {
+        candidates: candidates.map(({ objectId, name }) => ({
+          objectId,
+          name,
+        })),
+      },
+    );
+  }
+  throw new SuiActionError(
+    SuiErrorCode.OBJECT_NOT_FOUND,
+    `No object named "${object}" found in this wallet`,
+  );
+}
+
+/**
+ * オブジェクトを送付先に移すトランザクションを構築します。
+ *
+ * @param {ObjectTransferParams} params - 送付パラメータ
+ * @returns {Transaction} - 未署名のトランザクション
+ */
+export function buildObjectTransferTransaction(
+  params: ObjectTransferParams,
+): Transaction {
+  const tx = new Transaction();
+  tx.transferObjects([tx.object(params.objectId)], params.recipient);
+  return tx;
+}
+
+// オブジェクト送付を支出ポリシーで評価する形に変換します（コインの支出は無いので送付先の制限のみ）
+function objectTransferIntent(params: ObjectTransferParams): SpendIntent {
+  return {
+    action: SUI_TRANSFER_OBJECT,
+    recipients: [params.recipient],
+    spends: [],
+    packages: [],
+  };
+}
+
+// 送るオブジェクトを特定・ドライランし、確認待ちとして保存します
+async function prepareObjectTransfer(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  const request = await resolveSuiRequest(
+    runtime,
+    message,
+    ["transfer_object"],
+    objectTransferRequestFromIntent,
+    parseObjectTransferRequest,
+  );
+  // SuiNS名は正引きし、アドレスは表示用に逆引きする
+  const { address: recipient, name: recipientName } = await resolveRecipient(
+    service,
+    request.recipient,
+  );
+  if (!request.object) {
+    throw new SuiActionError(
+      SuiErrorCode.OBJECT_NOT_FOUND,
+      "Say which object to send, e.g. 'send Capy #12 to 0x...'",
+    );
+  }
+  const object = await findOwnedObject(service, request.object);
+
+  const params: ObjectTransferParams = {
+    objectId: object.objectId,
+    type: object.type,
+    name: object.name,
+    recipient,
+    recipientName,
+  };
+  // 送付先の許可/拒否リストに違反していないか確認
+  await enforceAuditedPolicy(
+    runtime,
+    service,
+    message,
+    objectTransferIntent(params),
+  );
+
+  // 署名せずにドライランしてガス代を見積もる（storeを持たない型はここで失敗する）
+  const dryRun = await service.dryRunTransaction(
+    buildObjectTransferTransaction(params),
+  );
+  if (dryRun.effects.status.status !== "success") {
+    throw new SuiActionError(
+      SuiErrorCode.DRY_RUN_FAILED,
+      `Dry run failed: ${dryRun.effects.status.error ?? "unknown error"}`,
+    );
+  }
+  const estimatedGas = totalGasUsed(dryRun.effects.gasUsed);
+  const changes = await describeBalanceChanges(service, dryRun.balanceChanges);
+
+  const summary = [
+    `Transfer ${describeObject(object)} to ${formatAddress(recipient, recipientName)}`,
+    `Type: ${object.type}`,
+    `Estimated gas: ${formatAmount(estimatedGas, SUI_DECIMALS)} SUI`,
+    `Balance change: ${changes.length > 0 ? changes.join(", ") : "none"}`,
+    `Reply "confirm" to sign and send, or "cancel" to abort.`,
+  ].join("\n");
+
+  await savePendingConfirmation(
+    runtime,
+    message,
+    SUI_TRANSFER_OBJECT,
+    params,
+    summary,
+  );
+
+  await callback({
+    text: summary,
+    actions: [SUI_TRANSFER_OBJECT],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Prepared Sui object transfer; waiting for confirmation",
+    values: {
+      success: true,
+      awaitingConfirmation: true,
+    },
+    data: {
+      actionName: SUI_TRANSFER_OBJECT,
+      objectId: object.objectId,
+      type: object.type,
+      recipient,
+      recipientName,
+      estimatedGas: estimatedGas.toString(),
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 確認済みのオブジェクト送付に署名して送信します。
+ */
+export async function executeObjectTransfer(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: ObjectTransferParams,
+  callback: HandlerCallback,
+): Promise<ActionResult> {
+  // 二重送信を防ぐため、署名前に確認待ちを消しておく
+  await clearPendingConfirmation(runtime, message);
+  // 確認待ちの間にポリシーが変わっていないか、署名直前に再確認して監査ログに記録
+  const result = await signAndExecuteAudited(
+    runtime,
+    service,
+    message,
+    objectTransferIntent(params),
+    buildObjectTransferTransaction(params),
+  );
+  const status = result.effects?.status.status ?? "unknown";
+  const gasUsed = result.effects
+    ? totalGasUsed(result.effects.gasUsed).toString()
+    : "0";
+  const label = params.name
+    ? `${params.name} (${params.objectId})`
+    : params.objectId;
+  // 所有オブジェクト・残高・履歴が変わるのでキャッシュを破棄
+  await invalidateObjectsCache(runtime, service);
+  await invalidatePortfolioCache(runtime, service);
+  await invalidateHistoryCache(runtime, service);
+
+  if (status !== "success") {
+    const failure = createErrorResult(
+      SUI_TRANSFER_OBJECT,
+      new SuiActionError(
+        SuiErrorCode.TRANSACTION_FAILED,
+        `Transaction ${result.digest} failed: ${result.effects?.status.error ?? status}`,
+      ),
+      SuiErrorCode.TRANSACTION_FAILED,
+    );
+    failure.data = { ...failure.data, digest: result.digest, status, gasUsed };
+    await callback({
+      text: failure.text ?? "Object transfer failed",
+      actions: [SUI_TRANSFER_OBJECT],
+      source: message.content.source,
+    });
+    return failure;
+  }
+
+  await callback({
+    text: `Sent ${label} to ${formatAddress(params.recipient, params.recipientName)}.\nDigest: ${result.digest}`,
+    actions: [SUI_TRANSFER_OBJECT],
+    source: message.content.source,
+  });
+
+  return {
+    text: `Transferred ${label} to ${formatAddress(params.recipient, params.recipientName)}`,
+    values: {
+      success: true,
+      digest: result.digest,
+    },
+    data: {
+      actionName: SUI_TRANSFER_OBJECT,
+      digest: result.digest,
+      status,
+      gasUsed,
+      objectId: params.objectId,
+      type: params.type,
+      recipient: params.recipient,
+      messageId: message.id,
+      timestamp: Date.now(),
+    },
+    success: true,
+  };
+}
+
+/**
+ * NFTなどの所有オブジェクトを送付先に移すアクションです。
+ * オブジェクトはDisplayの名前またはIDで指定し、コインの送金と同じくドライランの結果を提示して、
+ * ユーザーが確認した時点で初めて署名・送信します。
+ */
+export const suiTransferObjectAction: Action = {
+  name: SUI_TRANSFER_OBJECT, // アクションの一意な名前
+  similes: ["SEND_NFT", "TRANSFER_NFT", "SEND_OBJECT", "GIVE_NFT"], // 類似のアクション名
+  description:
+    "Transfers an NFT or other owned object, picked by its display name or object ID, to a Sui address or SuiNS name (e.g. 'send Capy #12 to alice.sui'). Shows a dry-run estimate first and signs only after the user confirms.", // アクションの説明
+
+  // 署名可能なウォレットがある場合のみ有効
+  validate: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<boolean> => {
+    return isWalletAvailable(runtime, message);
+  },
+
+  // アクションの本体ロジック
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+    _options: any,
+    callback: HandlerCallback,
+    _responses: Memory[],
+  ): Promise<ActionResult> => {
+    try {
+      logger.info("Handling SUI_TRANSFER_OBJECT action"); // アクション処理開始のログ
+
+      const service = await getWalletService(runtime, message);
+      if (!service?.hasSigner()) {
+        throw new SuiActionError(
+          SuiErrorCode.WALLET_UNAVAILABLE,
+          "Sui wallet is not configured for signing",
+        );
+      }
+      if (service.isReadOnly()) {
+        throw new SuiActionError(
+          SuiErrorCode.READ_ONLY,
+          "Sui wallet is in read-only mode",
+        );
+      }
+
+      // 確認待ちの送付があれば、返信内容に応じて実行または取り消し
+      const pending = await getPendingConfirmation<ObjectTransferParams>(
+        runtime,
+        message,
+        SUI_TRANSFER_OBJECT,
+      );
+      const text = message.content.text;
+      if (pending && isConfirmation(text)) {
+        return await executeObjectTransfer(
+          runtime,
+          service,
+          message,
+          pending.params,
+          callback,
+        );
+      }
+      if (pending && isCancellation(text)) {
+        await clearPendingConfirmation(runtime, message);
+        await callback({
+          text: "Object transfer cancelled.",
+          actions: [SUI_TRANSFER_OBJECT],
+          source: message.content.source,
+        });
+        return {
+          text: "Cancelled pending Sui object transfer",
+          values: { success: true, cancelled: true },
+          data: { actionName: SUI_TRANSFER_OBJECT, messageId: message.id },
+          success: true,
+        };
+      }
+
+      return await prepareObjectTransfer(runtime, service, message, callback);
+    } catch (error) {
+      const result = createErrorResult(
+        SUI_TRANSFER_OBJECT,
+        error,
+        SuiErrorCode.OBJECTS_FAILED,
+      );
+      await callback({
+        text: `Object transfer failed: ${result.text}`,
+        actions: [SUI_TRANSFER_OBJECT],
+        source: message.content.source,
+      });
+      return result;
+    }
+  },
+
+  // AIモデルへのアクションの実行例
+  examples: [
+    [
+      {
+        name: "{{name1}}",
+        content: {
+          text: "Send my Capy #12 to 0x8c2f3c1bbf3d8ab0e4f6bd0a1d3c5b7e9f2a4c6e8d0b2f4a6c8e0d2b4f6a8c0e",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: 'Transfer Capy #12 (0x91ab...) to 0x8c2f...a8c0e\nType: 0x5e1f...::capy::Capy\nEstimated gas: 0.001 SUI\nReply "confirm" to sign and send.',
+          actions: [SUI_TRANSFER_OBJECT],
+        },
+      },
+      {
+        name: "{{name1}}",
+        content: {
+          text: "confirm",
+        },
+      },
+      {
+        name: "{{name2}}",
+        content: {
+          text: "Sent Capy #12 (0x91ab...) to 0x8c2f...a8c0e. Digest: 3Fq...",
+          actions: [SUI_TRANSFER_OBJECT],
+        },
+      },
+    ],
+  ],
+};
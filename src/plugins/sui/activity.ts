@@ -0,0 +1,241 @@
+// ElizaOSコアから型やモジュールをインポートします。
+import {
+  type ActionEventPayload,
+  type ActionResult,
+  type IAgentRuntime,
+  type UUID,
+  logger,
+} from "@elizaos/core";
+
+/** タイムラインに残すアクション実行の件数 */
+export const ACTIVITY_LIMIT = 200;
+
+/** 入力として残すメッセージの最大文字数 */
+export const ACTIVITY_INPUT_LIMIT = 280;
+
+// 入力を探すときに読むルームの直近メッセージ数
+const INPUT_LOOKBACK = 10;
+
+/** アクション実行の状態 */
+export type ActivityStatus = "running" | "succeeded" | "failed";
+
+/** 絞り込みに使える状態の一覧 */
+export const ACTIVITY_STATUSES: ActivityStatus[] = [
+  "running",
+  "succeeded",
+  "failed",
+];
+
+/**
+ * タイムラインに表示するアクションの実行1件です。
+ * ACTION_STARTEDで"running"として記録し、ACTION_COMPLETEDで結果と所要時間を書き込みます。
+ */
+export interface ActivityEntry {
+  id: string; // ランタイムが発行したアクション実行のID
+  action: string; // アクション名
+  roomId: UUID; // 実行したルーム
+  input: string | null; // アクションを起こしたメッセージ（長いものは切り詰め）
+  status: ActivityStatus;
+  success: boolean | null; // ActionResult.success（実行中はnull）
+  errorCode: string | null; // 失敗時のエラーコード（SuiErrorCodeなど）
+  error: string | null; // 失敗時のメッセージ
+  digest: string | null; // 送信したトランザクションのダイジェスト
+  startedAt: number; // 開始時刻
+  completedAt: number | null; // 完了時刻
+  latencyMs: number | null; // 開始から完了までの時間
+}
+
+/** タイムラインの絞り込み条件 */
+export interface ActivityQuery {
+  action?: string; // このアクションだけ
+  status?: ActivityStatus; // この状態だけ
+  since?: number; // この時刻より後に開始・完了したものだけ（ポーリング用）
+}
+
+// タイムラインのキャッシュキー（エージェントごと）
+function activityKey(runtime: IAgentRuntime): string {
+  return `sui:activity:${runtime.agentId}`;
+}
+
+async function loadActivity(runtime: IAgentRuntime): Promise<ActivityEntry[]> {
+  return (await runtime.getCache<ActivityEntry[]>(activityKey(runtime))) ?? [];
+}
+
+// 新しい順に上限件数だけ残して保存します
+async function saveActivity(
+  runtime: IAgentRuntime,
+  entries: ActivityEntry[],
+): Promise<void> {
+  await runtime.setCache(
+    activityKey(runtime),
+    [...entries]
+      .sort((a, b) => b.startedAt - a.startedAt)
+      .slice(0, ACTIVITY_LIMIT),
+  );
+}
+
+/**
+ * アクション実行のタイムラインを新しい順に返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {ActivityQuery} query - 絞り込み条件
+ * @returns {Promise<ActivityEntry[]>} - アクション実行の一覧
+ */
+export async function listActivity(
+  runtime: IAgentRuntime,
+  query: ActivityQuery = {},
+): Promise<ActivityEntry[]> {
+  const entries = await loadActivity(runtime);
+  return entries
+    .filter((entry) => !query.action || entry.action === query.action)
+    .filter((entry) => !query.status || entry.status === query.status)
+    .filter(
+      (entry) =>
+        query.since === undefined ||
+        Math.max(entry.startedAt, entry.completedAt ?? 0) > query.since,
+    )
+    .sort((a, b) => b.startedAt - a.startedAt);
+}
+
+/**
+ * タイムラインに現れるアクション名を名前順に返します（絞り込みの選択肢用）。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {Promise<string[]>} - アクション名の一覧
+ */
+export async function listActivityActions(
+  runtime: IAgentRuntime,
+): Promise<string[]> {
+  const entries = await loadActivity(runtime);
+  return [...new Set(entries.map((entry) => entry.action))].sort();
+}
+
+// アクションを起こしたメッセージ（ルームでエージェント以外が最後に送ったもの）を探します
+async function findActionInput(
+  runtime: IAgentRuntime,
+  roomId: UUID,
+): Promise<string | null> {
+  try {
+    const memories = await runtime.getMemories({
+      tableName: "messages",
+      roomId,
+      count: INPUT_LOOKBACK,
+    });
+    const message = memories
+      .filter(
+        (memory) =>
+          memory.entityId !== runtime.agentId && memory.content?.text?.trim(),
+      )
+      .sort((a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0))[0];
+    const text = message?.content.text?.trim();
+    if (!text) return null;
+    return text.length > ACTIVITY_INPUT_LIMIT
+      ? `${text.slice(0, ACTIVITY_INPUT_LIMIT)}...`
+      : text;
+  } catch (error) {
+    // 入力が分からなくてもタイムラインには記録する
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      "Could not read the message that started a Sui action",
+    );
+    return null;
+  }
+}
+
+// ActionResultのvalues・dataから空でない文字列の項目を取り出します
+function resultString(
+  values: Record<string, unknown> | undefined,
+  key: string,
+): string | null {
+  const value = values?.[key];
+  return typeof value === "string" && value ? value : null;
+}
+
+// 失敗したActionResultからエラーメッセージを取り出します
+function resultError(result: ActionResult | null | undefined): string | null {
+  if (result?.error instanceof Error) return result.error.message;
+  if (typeof result?.error === "string") return result.error;
+  return result?.text ?? null;
+}
+
+/**
+ * ACTION_STARTEDを受けて、実行中のアクションをタイムラインに記録します。
+ *
+ * @param {ActionEventPayload} payload - イベントのペイロード
+ */
+export async function recordActionStarted(
+  payload: ActionEventPayload,
+): Promise<void> {
+  const { runtime, roomId, content } = payload;
+  const id = (content.actionId as string | undefined) ?? payload.messageId;
+  const action = content.actions?.[0];
+  if (!id || !action) return;
+
+  const input = await findActionInput(runtime, roomId);
+  const entries = await loadActivity(runtime);
+  entries.push({
+    id,
+    action,
+    roomId,
+    input,
+    status: "running",
+    success: null,
+    errorCode: null,
+    error: null,
+    digest: null,
+    startedAt: Date.now(),
+    completedAt: null,
+    latencyMs: null,
+  });
+  await saveActivity(runtime, entries);
+}
+
+/**
+ * ACTION_COMPLETEDを受けて、タイムラインのアクションに結果・エラーコード・ダイジェスト・所要時間を書き込みます。
+ * 開始が記録されていない場合は、完了時刻で新しく記録します。
+ *
+ * @param {ActionEventPayload} payload - イベントのペイロード
+ */
+export async function recordActionCompleted(
+  payload: ActionEventPayload,
+): Promise<void> {
+  const { runtime, roomId, content } = payload;
+  const id = (content.actionId as string | undefined) ?? payload.messageId;
+  const action = content.actions?.[0];
+  if (!id || !action) return;
+
+  const result = content.actionResult as ActionResult | null | undefined;
+  const success = result ? result.success !== false : true;
+  const completedAt = Date.now();
+  const entries = await loadActivity(runtime);
+  let entry = entries.find((candidate) => candidate.id === id);
+  if (!entry) {
+    entry = {
+      id,
+      action,
+      roomId,
+      input: null,
+      status: "running",
+      success: null,
+      errorCode: null,
+      error: null,
+      digest: null,
+      startedAt: completedAt,
+      completedAt: null,
+      latencyMs: null,
+    };
+    entries.push(entry);
+  }
+
+  entry.status = success ? "succeeded" : "failed";
+  entry.success = success;
+  // エラーコードはcreateErrorResultと同じくvalues.errorから読みます
+  entry.errorCode = success ? null : resultString(result?.values, "error");
+  entry.error = success ? null : resultError(result);
+  entry.digest =
+    resultString(result?.values, "digest") ??
+    resultString(result?.data, "digest");
+  entry.completedAt = completedAt;
+  entry.latencyMs = completedAt - entry.startedAt;
+  await saveActivity(runtime, entries);
+}
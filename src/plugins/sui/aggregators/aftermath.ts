@@ -0,0 +1,134 @@
+// Sui SDKからトランザクションとユーティリティをインポートします。
+import { Transaction } from "@mysten/sui/transactions";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import type {
+  SwapAggregator,
+  SwapQuote,
+  SwapQuoteRequest,
+  SwapRouteLeg,
+} from "../swap.ts";
+
+/** Aftermath RouterのAPIのURL */
+export const AFTERMATH_API_URL = "https://aftermath.finance/api";
+
+// APIの応答に含まれるコインの量（bigintは末尾に"n"の付いた文字列で返ります）
+interface AftermathCoinAmount {
+  type: string;
+  amount: string | number;
+}
+
+/**
+ * Aftermath Routerの取引経路（/router/trade-routeの応答）です。
+ */
+export interface AftermathTradeRoute {
+  coinIn: AftermathCoinAmount;
+  coinOut: AftermathCoinAmount;
+  spotPrice: number; // 買うコイン1単位あたりの売るコインの量（最小単位同士）
+  routes: {
+    portion: string | number;
+    paths: {
+      protocolName: string;
+      coinIn: AftermathCoinAmount;
+      coinOut: AftermathCoinAmount;
+    }[];
+  }[];
+}
+
+/** HTTPリクエストを送る関数（テストで差し替え可能） */
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+// "123n"のような値をbigintに変換します
+function toBigInt(value: string | number): bigint {
+  return BigInt(String(value).replace(/n$/, ""));
+}
+
+/**
+ * Aftermath RouterのHTTP APIを使うアグリゲーターです。
+ * テストではfetchを差し替えて、記録した応答で動かせます。
+ */
+export class AftermathAggregator implements SwapAggregator {
+  readonly name = "aftermath";
+  private readonly baseUrl: string;
+  private readonly fetch: FetchLike;
+
+  constructor(options: { baseUrl?: string; fetch?: FetchLike } = {}) {
+    this.baseUrl = options.baseUrl ?? AFTERMATH_API_URL;
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+  }
+
+  // JSONをPOSTして応答を返します
+  private async post<T>(path: string, body: unknown): Promise<T> {
+    const response = await this.fetch(`${this.baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Aftermath ${path} responded ${response.status}: ${await response.text()}`,
+      );
+    }
+    return (await response.json()) as T;
+  }
+
+  /** 取引経路を取得し、共通の見積もりの形に変換します */
+  async getQuote(request: SwapQuoteRequest): Promise<SwapQuote | null> {
+    const tradeRoute = await this.post<AftermathTradeRoute | null>(
+      "/router/trade-route",
+      {
+        coinInType: request.coinTypeIn,
+        coinOutType: request.coinTypeOut,
+        coinInAmount: `${request.amountIn}n`,
+      },
+    );
+    if (!tradeRoute?.routes?.length) return null;
+
+    const amountIn = toBigInt(tradeRoute.coinIn.amount);
+    const amountOut = toBigInt(tradeRoute.coinOut.amount);
+    // 現在価格で交換した場合の受取額との差を価格影響とする（手数料を含む）
+    const priceImpact =
+      tradeRoute.spotPrice > 0 && amountIn > 0n
+        ? Math.max(
+            0,
+            1 - (Number(amountOut) * tradeRoute.spotPrice) / Number(amountIn),
+          )
+        : 0;
+    const route: SwapRouteLeg[] = tradeRoute.routes.flatMap((split) =>
+      split.paths.map((path) => ({
+        protocol: path.protocolName,
+        coinTypeIn: normalizeStructTag(path.coinIn.type),
+        coinTypeOut: normalizeStructTag(path.coinOut.type),
+        ...(tradeRoute.routes.length > 1
+          ? { share: Number(toBigInt(split.portion)) / Number(amountIn) }
+          : {}),
+      })),
+    );
+
+    return {
+      aggregator: this.name,
+      coinTypeIn: request.coinTypeIn,
+      coinTypeOut: request.coinTypeOut,
+      amountIn: amountIn.toString(),
+      amountOut: amountOut.toString(),
+      priceImpact,
+      route,
+      raw: tradeRoute,
+    };
+  }
+
+  /** 取引経路から、スリッページを適用したトランザクションをAPIで構築します */
+  async buildTransaction(
+    quote: SwapQuote,
+    options: { sender: string; slippageBps: number },
+  ): Promise<Transaction> {
+    const serialized = await this.post<unknown>("/router/transactions/trade", {
+      walletAddress: options.sender,
+      completeRoute: quote.raw,
+      slippage: options.slippageBps / 10_000,
+      isSponsoredTx: false,
+    });
+    return Transaction.from(
+      typeof serialized === "string" ? serialized : JSON.stringify(serialized),
+    );
+  }
+}
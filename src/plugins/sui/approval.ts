@@ -0,0 +1,467 @@
+// ElizaOSコアから型やモジュールをインポートします。
+import {
+  type ActionResult,
+  type Content,
+  type HandlerCallback,
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+  logger,
+} from "@elizaos/core";
+// zodをインポートして、保存した実行パラメータを検証します。
+import { z } from "zod";
+import { appendTransactionAudit } from "./audit.ts";
+import { SuiActionError, SuiErrorCode, createErrorResult } from "./errors.ts";
+import {
+  type SuiChatRequest,
+  getChatRequest,
+  rememberChatRequest,
+} from "./intent.ts";
+import { type SpendIntent, findApprovalRequirement } from "./policy.ts";
+import type { SuiWalletService } from "./service.ts";
+import { getWalletService } from "./wallets.ts";
+
+/** 承認キューに残す処理済み（承認・却下）の件数 */
+export const DECIDED_APPROVALS_LIMIT = 50;
+
+/**
+ * 承認キューの状態です。
+ * 承認した時点で"approved"とし、実行できなかった場合は"failed"に移します。
+ */
+export type ApprovalStatus = "pending" | "approved" | "rejected" | "failed";
+
+/** 一覧の絞り込みに使える状態の一覧 */
+export const APPROVAL_STATUSES: ApprovalStatus[] = [
+  "pending",
+  "approved",
+  "rejected",
+  "failed",
+];
+
+/**
+ * 人の承認を待っているトランザクションです。
+ * ユーザーが確認した時点の実行パラメータと、発生元のルームを保持します。
+ */
+export interface ApprovalRequest<T = Record<string, unknown>> {
+  id: string; // 承認リクエストのID
+  action: string; // 承認後に実行するアクション名
+  params: T; // 実行時に再構築するためのパラメータ（JSONに変換可能な値）
+  intent: SpendIntent; // ポリシー評価済みの支出内容
+  summary: string; // ユーザーに提示した内容
+  chatRequest?: SuiChatRequest; // 依頼のメッセージから解析した内容（監査ログ用）
+  roomId: UUID; // 発生元のルーム（結果の投稿先）
+  entityId: UUID; // 依頼したユーザー
+  messageId?: UUID; // 確認を返信したメッセージ（監査ログ用）
+  source?: string; // 発生元のクライアント（discord、telegramなど）
+  status: ApprovalStatus;
+  createdAt: number; // キューに入った時刻
+  decidedAt?: number; // 承認・却下した時刻
+  decidedBy?: string; // 承認・却下した人（認証した呼び出し元）
+  reason?: string; // 却下の理由
+  outcome?: {
+    success: boolean;
+    text: string;
+    digest?: string;
+  }; // 承認後の実行結果
+}
+
+/**
+ * 承認後にアクションを再開する関数です。各アクションの実行処理（確認後の処理）と同じ形で、
+ * キャッシュから読んだパラメータは検証前のためunknownで受け取ります。
+ */
+export type ApprovalExecutor = (
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  params: unknown,
+  callback: HandlerCallback,
+) => Promise<ActionResult>;
+
+/**
+ * 保存したパラメータをスキーマで検証してから実行処理を呼ぶ、承認後の実行関数を作ります。
+ *
+ * @param {z.ZodType<T>} schema - アクションの実行パラメータのスキーマ
+ * @param {Function} execute - アクションの実行処理（確認後の処理）
+ * @returns {ApprovalExecutor} - 承認後の実行関数
+ */
+export function createApprovalExecutor<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  execute: (
+    runtime: IAgentRuntime,
+    service: SuiWalletService,
+    message: Memory,
+    params: T,
+    callback: HandlerCallback,
+  ) => Promise<ActionResult>,
+): ApprovalExecutor {
+  return async (runtime, service, message, params, callback) => {
+    const result = schema.safeParse(params);
+    if (!result.success) {
+      const issues = result.error.errors.map(
+        (issue) => `${issue.path.join(".") || "(params)"}: ${issue.message}`,
+      );
+      throw new SuiActionError(
+        SuiErrorCode.APPROVAL_FAILED,
+        `The stored transaction parameters are invalid: ${issues.join("; ")}`,
+      );
+    }
+    return execute(runtime, service, message, result.data, callback);
+  };
+}
+
+// 承認キューのキャッシュキー（エージェントごと）
+function approvalsKey(runtime: IAgentRuntime): string {
+  return `sui:approvals:${runtime.agentId}`;
+}
+
+// エージェントごとに承認キューの読み込みから保存までを直列化し、同時に登録・承認・却下しても互いの保存を上書きしないようにします
+const approvalLocks = new Map<string, Promise<unknown>>();
+
+async function withApprovalLock<T>(
+  runtime: IAgentRuntime,
+  task: () => Promise<T>,
+): Promise<T> {
+  const key = approvalsKey(runtime);
+  const run = (approvalLocks.get(key) ?? Promise.resolve()).then(task, task);
+  approvalLocks.set(
+    key,
+    run.catch(() => {}),
+  );
+  return run;
+}
+
+async function loadApprovals(
+  runtime: IAgentRuntime,
+): Promise<ApprovalRequest[]> {
+  return (
+    (await runtime.getCache<ApprovalRequest[]>(approvalsKey(runtime))) ?? []
+  );
+}
+
+// 処理済みのものは新しい順に上限件数だけ残して保存します
+async function saveApprovals(
+  runtime: IAgentRuntime,
+  approvals: ApprovalRequest[],
+): Promise<void> {
+  const pending = approvals.filter((request) => request.status === "pending");
+  const decided = approvals
+    .filter((request) => request.status !== "pending")
+    .sort((a, b) => (b.decidedAt ?? 0) - (a.decidedAt ?? 0))
+    .slice(0, DECIDED_APPROVALS_LIMIT);
+  await runtime.setCache(approvalsKey(runtime), [...pending, ...decided]);
+}
+
+/**
+ * 承認キューを新しい順に返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {ApprovalStatus} status - 指定した場合、この状態のものだけを返す
+ * @returns {Promise<ApprovalRequest[]>} - 承認リクエストの一覧
+ */
+export async function listApprovals(
+  runtime: IAgentRuntime,
+  status?: ApprovalStatus,
+): Promise<ApprovalRequest[]> {
+  const approvals = await loadApprovals(runtime);
+  return approvals
+    .filter((request) => !status || request.status === status)
+    .sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// 処理待ちのリクエストを取り出します（存在しない・処理済みの場合はエラー）
+function findPending(
+  approvals: ApprovalRequest[],
+  id: string,
+): ApprovalRequest {
+  const request = approvals.find((candidate) => candidate.id === id);
+  if (!request) {
+    throw new SuiActionError(
+      SuiErrorCode.APPROVAL_NOT_FOUND,
+      `Approval request ${id} was not found`,
+    );
+  }
+  if (request.status !== "pending") {
+    throw new SuiActionError(
+      SuiErrorCode.APPROVAL_NOT_PENDING,
+      `Approval request ${id} is already ${request.status}`,
+    );
+  }
+  return request;
+}
+
+/**
+ * ルームにエージェントのメッセージとして投稿します。
+ * メモリーとして保存し、送信ハンドラーのあるクライアント（Discordなど）にはそのまま送信します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {{ roomId: UUID; source?: string }} request - 投稿先のルームとクライアント（承認リクエストなど）
+ * @param {Content} content - 投稿する内容
+ */
+export async function postToRoom(
+  runtime: IAgentRuntime,
+  request: { roomId: UUID; source?: string },
+  content: Content,
+): Promise<void> {
+  const body: Content = { ...content, source: request.source };
+  await runtime.createMemory(
+    {
+      entityId: runtime.agentId,
+      agentId: runtime.agentId,
+      roomId: request.roomId,
+      content: body,
+      createdAt: Date.now(),
+    },
+    "messages",
+  );
+  if (!request.source) return;
+  try {
+    await runtime.sendMessageToTarget(
+      { source: request.source, roomId: request.roomId },
+      body,
+    );
+  } catch (error) {
+    // 送信ハンドラーの無いクライアントではメモリーへの保存だけで十分
+    logger.warn(
+      { error: error instanceof Error ? error.message : String(error) },
+      `Could not deliver message to ${request.source}`,
+    );
+  }
+}
+
+/**
+ * 確認されたトランザクションが承認しきい値に達している場合、署名せずに承認キューへ入れます。
+ * キューに入れた場合はそのActionResultを、しきい値未満の場合はnullを返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 確認のメッセージ
+ * @param {string} action - アクション名
+ * @param {T} params - 承認後の実行に使うパラメータ（JSONに変換可能なオブジェクト）
+ * @param {string} summary - ユーザーに提示した内容
+ * @param {SpendIntent} intent - 支出内容
+ * @param {HandlerCallback} callback - 応答を送るコールバック
+ * @returns {Promise<ActionResult | null>} - キューに入れた結果
+ */
+export async function queueForApprovalIfRequired<
+  T extends Record<string, unknown>,
+>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  action: string,
+  params: T,
+  summary: string,
+  intent: SpendIntent,
+  callback: HandlerCallback,
+): Promise<ActionResult | null> {
+  const requirement = findApprovalRequirement(runtime, intent);
+  if (!requirement) return null;
+
+  const request: ApprovalRequest = {
+    id: crypto.randomUUID(),
+    action,
+    params,
+    intent,
+    // 確認を促す行は承認キューでは不要なので除く
+    summary: summary
+      .split("\n")
+      .filter((line) => !line.startsWith("Reply "))
+      .join("\n"),
+    chatRequest: getChatRequest(message) ?? undefined,
+    roomId: message.roomId,
+    entityId: message.entityId,
+    messageId: message.id,
+    source: message.content.source,
+    status: "pending",
+    createdAt: Date.now(),
+  };
+  await withApprovalLock(runtime, async () => {
+    const approvals = await loadApprovals(runtime);
+    await saveApprovals(runtime, [...approvals, request]);
+  });
+
+  const text = [
+    `${requirement.reason}.`,
+    `The transaction is waiting for operator approval (request ${request.id}). I'll post the result here once it is approved or rejected.`,
+  ].join("\n");
+  await callback({
+    text,
+    actions: [action],
+    source: message.content.source,
+  });
+
+  return {
+    text: "Queued Sui transaction for operator approval",
+    values: {
+      success: true,
+      awaitingApproval: true,
+      approvalId: request.id,
+    },
+    data: {
+      actionName: action,
+      approvalId: request.id,
+      reason: requirement.reason,
+      messageId: message.id,
+    },
+    success: true,
+  };
+}
+
+/**
+ * 承認リクエストを承認し、元のアクションを再開して結果を発生元のルームに投稿します。
+ * 二重実行を防ぐため、処理待ちであることの確認と承認済みとしての保存を承認キューのロック内で行い、
+ * 同時に承認されても実行するのは最初の1件だけにします。実行できなかった場合は"failed"に移します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {string} id - 承認リクエストのID
+ * @param {Record<string, ApprovalExecutor>} executors - アクション名ごとの実行関数
+ * @param {string} decidedBy - 承認した人
+ * @returns {Promise<ApprovalRequest>} - 実行結果を含む承認リクエスト
+ */
+export async function approveRequest(
+  runtime: IAgentRuntime,
+  id: string,
+  executors: Record<string, ApprovalExecutor>,
+  decidedBy = "operator",
+): Promise<ApprovalRequest> {
+  const { request, execute } = await withApprovalLock(runtime, async () => {
+    const approvals = await loadApprovals(runtime);
+    const request = findPending(approvals, id);
+    const execute = executors[request.action];
+    if (!execute) {
+      throw new SuiActionError(
+        SuiErrorCode.APPROVAL_FAILED,
+        `No executor is registered for ${request.action}`,
+      );
+    }
+    request.status = "approved";
+    request.decidedAt = Date.now();
+    request.decidedBy = decidedBy;
+    await saveApprovals(runtime, approvals);
+    return { request, execute };
+  });
+
+  // 実行関数には発生元のルーム・ユーザーからのメッセージとして渡す（監査ログには承認の情報も残す）
+  const message = {
+    id: request.messageId,
+    entityId: request.entityId,
+    agentId: runtime.agentId,
+    roomId: request.roomId,
+    content: {
+      text: "approve",
+      source: request.source,
+      approval: { id: request.id, decidedBy },
+    },
+  } as Memory;
+  if (request.chatRequest) {
+    rememberChatRequest(message, request.chatRequest);
+  }
+  const callback: HandlerCallback = async (content) => {
+    await postToRoom(runtime, request, {
+      ...content,
+      text: `Approved by ${decidedBy}.\n${content.text ?? ""}`,
+    });
+    return [];
+  };
+
+  let result: ActionResult;
+  try {
+    // 依頼したユーザーのウォレットで署名する（確認時に作成済みのため、ここでは作成しない）
+    const service = await getWalletService(runtime, message, {
+      create: false,
+    });
+    if (!service?.hasSigner()) {
+      throw new SuiActionError(
+        SuiErrorCode.WALLET_UNAVAILABLE,
+        "Sui wallet is not configured for signing",
+      );
+    }
+    result = await execute(runtime, service, message, request.params, callback);
+  } catch (error) {
+    // ポリシー違反などで実行できなかった場合もルームに知らせる
+    result = createErrorResult(
+      request.action,
+      error,
+      SuiErrorCode.APPROVAL_FAILED,
+    );
+    await callback({
+      text: `The approved transaction could not be executed: ${result.text}`,
+      actions: [request.action],
+    });
+  }
+
+  // 実行できなかった場合は承認済みのままにせず、失敗として残す
+  const success = result.success !== false;
+  if (!success) request.status = "failed";
+  request.outcome = {
+    success,
+    text: result.text ?? "",
+    ...(typeof result.values?.digest === "string"
+      ? { digest: result.values.digest }
+      : {}),
+  };
+  await withApprovalLock(runtime, async () => {
+    const latest = await loadApprovals(runtime);
+    await saveApprovals(
+      runtime,
+      latest.map((candidate) => (candidate.id === id ? request : candidate)),
+    );
+  });
+  return request;
+}
+
+/**
+ * 承認リクエストを却下し、その旨を発生元のルームに投稿します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {string} id - 承認リクエストのID
+ * @param {string} reason - 却下の理由
+ * @param {string} decidedBy - 却下した人
+ * @returns {Promise<ApprovalRequest>} - 却下した承認リクエスト
+ */
+export async function rejectRequest(
+  runtime: IAgentRuntime,
+  id: string,
+  reason?: string,
+  decidedBy = "operator",
+): Promise<ApprovalRequest> {
+  const request = await withApprovalLock(runtime, async () => {
+    const approvals = await loadApprovals(runtime);
+    const request = findPending(approvals, id);
+    request.status = "rejected";
+    request.decidedAt = Date.now();
+    request.decidedBy = decidedBy;
+    request.reason = reason;
+    await saveApprovals(runtime, approvals);
+    return request;
+  });
+
+  // 却下したトランザクションは署名しなかったものとして監査ログに記録する
+  await appendTransactionAudit(runtime, {
+    action: request.action,
+    messageId: request.messageId ?? null,
+    entityId: request.entityId,
+    roomId: request.roomId,
+    intent: request.intent,
+    decision: {
+      result: "rejected",
+      rule: null,
+      reason: reason ?? null,
+      approvalId: request.id,
+      decidedBy,
+    },
+    bytesHash: null,
+    digest: null,
+    chatRequest: request.chatRequest ?? null,
+    outcome: "refused",
+    error: null,
+  });
+
+  await postToRoom(runtime, request, {
+    text: [
+      `Rejected by ${decidedBy}; the transaction was not signed.`,
+      request.summary.split("\n")[0],
+      ...(reason ? [`Reason: ${reason}`] : []),
+    ].join("\n"),
+    actions: [request.action],
+  });
+  return request;
+}
@@ -0,0 +1,666 @@
+// Node.jsの暗号モジュールをインポートします。
+import { createHash } from "node:crypto";
+// ElizaOSコアから型やモジュールをインポートします。
+import { type IAgentRuntime, type Memory, logger } from "@elizaos/core";
+import type { SuiTransactionBlockResponse } from "@mysten/sui/client";
+import type { SignatureWithBytes } from "@mysten/sui/cryptography";
+import {
+  type Transaction,
+  TransactionDataBuilder,
+} from "@mysten/sui/transactions";
+import { fromBase64 } from "@mysten/sui/utils";
+import { SuiActionError } from "./errors.ts";
+import { type SuiChatRequest, getChatRequest } from "./intent.ts";
+import {
+  type SpendIntent,
+  type SpendReservation,
+  enforceSpendingPolicy,
+  reserveSpending,
+} from "./policy.ts";
+import type { SuiWalletService } from "./service.ts";
+
+/** 監査ログの最初のエントリが参照する直前のハッシュ */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/** エクスポートの形式 */
+export const AUDIT_EXPORT_FORMATS = ["jsonl", "csv"] as const;
+
+export type AuditExportFormat = (typeof AUDIT_EXPORT_FORMATS)[number];
+
+/**
+ * 監査ログに残すトランザクションの結末です。
+ * success・failedは署名して送信したもの（failedはオンチェーンで失敗）、
+ * errorは署名・送信の途中で失敗したもの（RPCエラーやトランザクションの構築失敗を含む）、refusedは署名を拒否したものです。
+ */
+export type TransactionAuditOutcome =
+  | "success"
+  | "failed"
+  | "error"
+  | "refused";
+
+/** 署名するかどうかの判断 */
+export interface TransactionAuditDecision {
+  result: "allowed" | "denied" | "rejected"; // ポリシーで許可・拒否、または運用者が却下
+  rule: string | null; // 拒否したルール（SuiErrorCode）
+  reason: string | null; // 拒否・却下の理由
+  approvalId: string | null; // 承認キューを経由した場合のID
+  decidedBy: string | null; // 承認・却下した運用者
+}
+
+/**
+ * 署名した、または署名を拒否したトランザクション1件の監査ログです。
+ * 各エントリは直前のエントリのハッシュを含めてハッシュ化され、途中の改ざん・削除を検出できます。
+ */
+export interface TransactionAuditEntry {
+  seq: number; // 0から始まる通し番号
+  at: number; // 記録した時刻
+  action: string; // アクション名
+  messageId: string | null; // 発生元のメッセージ
+  entityId: string | null; // 依頼したユーザー
+  roomId: string | null; // 発生元のルーム
+  intent: SpendIntent; // 解析した支出内容
+  chatRequest: SuiChatRequest | null; // 依頼のメッセージから解析した内容（チャットの依頼から来ていなければnull）
+  decision: TransactionAuditDecision;
+  bytesHash: string | null; // 署名したトランザクションのバイト列のSHA-256（署名していなければnull）
+  digest: string | null; // トランザクションのダイジェスト
+  outcome: TransactionAuditOutcome;
+  error: string | null; // 失敗・送信エラーのメッセージ
+  prevHash: string; // 直前のエントリのハッシュ
+  hash: string; // このエントリのハッシュ
+}
+
+/** 追記するときに呼び出し側が渡す項目（通し番号・時刻・ハッシュはここで付けます） */
+export type TransactionAuditRecord = Omit<
+  TransactionAuditEntry,
+  "seq" | "at" | "prevHash" | "hash"
+>;
+
+/**
+ * 監査付きで署名・送信するときの追加の指定です。
+ */
+export interface AuditedSigningOptions {
+  policyExemption?: string; // 支出ポリシーを適用しない理由（上限の確認も予約もせず、理由を監査ログに残す）
+  beforeExecute?: () => Promise<void>; // 署名した後、送信する前に行う処理（失敗した場合は送信しない）
+}
+
+/**
+ * 監査ログの先頭（最後に追記したエントリ）の記録です。エントリとは別に保存し、
+ * 末尾のエントリが削除されても、検証・エクスポートで件数と最後のハッシュの食い違いとして検出できるようにします。
+ */
+export interface TransactionAuditHead {
+  count: number; // 追記したエントリ数
+  headHash: string; // 最後のエントリのハッシュ（空ならAUDIT_GENESIS_HASH）
+}
+
+/** 鎖を先頭から検証した結果 */
+export interface TransactionAuditVerification {
+  valid: boolean;
+  count: number; // 検証したエントリ数
+  headHash: string; // 最後に検証できたエントリのハッシュ
+  brokenAt: number | null; // 最初に整合しなかったエントリの位置
+  reason: string | null; // 整合しなかった理由
+}
+
+// CSVの列（ネストした判断は列に展開し、支出内容はJSONのまま入れます）
+const CSV_COLUMNS = [
+  "seq",
+  "at",
+  "action",
+  "messageId",
+  "entityId",
+  "roomId",
+  "intent",
+  "chatRequest",
+  "decision",
+  "rule",
+  "reason",
+  "approvalId",
+  "decidedBy",
+  "bytesHash",
+  "digest",
+  "outcome",
+  "error",
+  "prevHash",
+  "hash",
+] as const;
+
+/** 監査ログを読み出すときに一度に取得するエントリ数 */
+export const AUDIT_READ_BATCH_SIZE = 100;
+
+// 監査ログのエントリはエージェントと通し番号ごとのキーに1件ずつ保存します（追記で全件を書き直さないように）
+function auditEntryKey(runtime: IAgentRuntime, seq: number): string {
+  return `sui:tx-audit:${runtime.agentId}:${seq}`;
+}
+
+// 監査ログの先頭（件数と最後のハッシュ）のキャッシュキー
+function auditHeadKey(runtime: IAgentRuntime): string {
+  return `sui:tx-audit-head:${runtime.agentId}`;
+}
+
+// 同じプロセス内ではエージェントごとに追記を直列化し、同時に記録しても鎖が分岐しないようにします
+// （別のプロセスと競合した場合は、書き込んだエントリを読み戻して確かめ、次の番号で追記し直します）
+const appendQueues = new Map<string, Promise<unknown>>();
+
+// 追記を試みる回数（別のプロセスが同じ番号に書き込んだ場合のやり直しを含む）
+const AUDIT_APPEND_ATTEMPTS = 5;
+
+// キーを並べ替えたJSONにします（保存先でキーの順序が変わってもハッシュが変わらないように）
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson(record[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value) ?? "null";
+}
+
+/**
+ * エントリのハッシュ（hash以外の全項目のSHA-256）を計算します。
+ *
+ * @param {Omit<TransactionAuditEntry, "hash">} entry - ハッシュ化するエントリ
+ * @returns {string} - 16進数のハッシュ
+ */
+export function hashAuditEntry(
+  entry: Omit<TransactionAuditEntry, "hash">,
+): string {
+  const { hash: _hash, ...fields } = entry as TransactionAuditEntry;
+  return createHash("sha256").update(canonicalJson(fields)).digest("hex");
+}
+
+/**
+ * 署名したトランザクションのバイト列（base64）のSHA-256を返します。
+ *
+ * @param {string} bytes - base64のトランザクションのバイト列
+ * @returns {string} - 16進数のハッシュ
+ */
+export function transactionBytesHash(bytes: string): string {
+  return createHash("sha256").update(fromBase64(bytes)).digest("hex");
+}
+
+/**
+ * 保存している監査ログの先頭（件数と最後のハッシュ）を返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {Promise<TransactionAuditHead>} - 監査ログの先頭
+ */
+export async function getTransactionAuditHead(
+  runtime: IAgentRuntime,
+): Promise<TransactionAuditHead> {
+  return (
+    (await runtime.getCache<TransactionAuditHead>(auditHeadKey(runtime))) ?? {
+      count: 0,
+      headHash: AUDIT_GENESIS_HASH,
+    }
+  );
+}
+
+/**
+ * 監査ログを古い順（鎖の順）に返します。先頭に記録した件数までを、AUDIT_READ_BATCH_SIZE件ずつ読み出します。
+ * 削除されたエントリは詰めずに飛ばすため、検証で通し番号の食い違いとして検出できます。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {TransactionAuditHead} head - 読み出す範囲の先頭（省略した場合は保存している先頭）
+ * @returns {Promise<TransactionAuditEntry[]>} - 監査ログ
+ */
+export async function listTransactionAudit(
+  runtime: IAgentRuntime,
+  head?: TransactionAuditHead,
+): Promise<TransactionAuditEntry[]> {
+  const { count } = head ?? (await getTransactionAuditHead(runtime));
+  const entries: TransactionAuditEntry[] = [];
+  for (let start = 0; start < count; start += AUDIT_READ_BATCH_SIZE) {
+    const batch = await Promise.all(
+      Array.from(
+        { length: Math.min(AUDIT_READ_BATCH_SIZE, count - start) },
+        (_, offset) =>
+          runtime.getCache<TransactionAuditEntry>(
+            auditEntryKey(runtime, start + offset),
+          ),
+      ),
+    );
+    for (const entry of batch) {
+      if (entry) entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+// 先頭の記録より後に書き込まれたエントリ（先頭を更新する前に止まった追記など）があれば、先頭をそこまで進めます
+async function findAuditTail(
+  runtime: IAgentRuntime,
+): Promise<TransactionAuditHead> {
+  const head = await getTransactionAuditHead(runtime);
+  let { count, headHash } = head;
+  for (;;) {
+    const next = await runtime.getCache<TransactionAuditEntry>(
+      auditEntryKey(runtime, count),
+    );
+    if (!next) break;
+    count += 1;
+    headHash = next.hash;
+  }
+  return { count, headHash };
+}
+
+/**
+ * 監査ログの末尾に1件を追記します。削除・上書きはせず、件数の上限もありません。
+ * エントリを書き込んでから先頭（件数と最後のハッシュ）を更新します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {TransactionAuditRecord} record - 記録する内容
+ * @returns {Promise<TransactionAuditEntry>} - 追記したエントリ
+ */
+export async function appendTransactionAudit(
+  runtime: IAgentRuntime,
+  record: TransactionAuditRecord,
+): Promise<TransactionAuditEntry> {
+  const key = auditHeadKey(runtime);
+  const append = async () => {
+    for (let attempt = 1; attempt <= AUDIT_APPEND_ATTEMPTS; attempt++) {
+      const tail = await findAuditTail(runtime);
+      const unsigned = {
+        seq: tail.count,
+        at: Date.now(),
+        ...record,
+        prevHash: tail.headHash,
+      };
+      const entry: TransactionAuditEntry = {
+        ...unsigned,
+        hash: hashAuditEntry(unsigned),
+      };
+      const entryKey = auditEntryKey(runtime, entry.seq);
+      await runtime.setCache(entryKey, entry);
+      // 別のプロセスが同じ番号に書き込んでいれば、次の番号でやり直す
+      const written = await runtime.getCache<TransactionAuditEntry>(entryKey);
+      if (written?.hash !== entry.hash) continue;
+
+      // 先頭は進める場合だけ書き込む（先に進んだ別のプロセスの記録を戻さない）
+      const head = await getTransactionAuditHead(runtime);
+      if (head.count <= entry.seq) {
+        await runtime.setCache(key, {
+          count: entry.seq + 1,
+          headHash: entry.hash,
+        } satisfies TransactionAuditHead);
+      }
+      logger.info(
+        {
+          seq: entry.seq,
+          action: entry.action,
+          outcome: entry.outcome,
+          digest: entry.digest,
+        },
+        "Recorded Sui transaction in the audit log",
+      );
+      return entry;
+    }
+    throw new Error(
+      `Could not append to the transaction audit log after ${AUDIT_APPEND_ATTEMPTS} attempts`,
+    );
+  };
+  const queued = (appendQueues.get(key) ?? Promise.resolve()).then(
+    append,
+    append,
+  );
+  appendQueues.set(
+    key,
+    queued.catch(() => {}),
+  );
+  return queued;
+}
+
+// メッセージから発生元を取り出します（承認キューから再開した場合は承認の情報も含みます）
+function auditSource(message: Memory) {
+  const approval = message.content?.approval as
+    | { id?: string; decidedBy?: string }
+    | undefined;
+  return {
+    messageId: message.id ?? null,
+    entityId: message.entityId ?? null,
+    roomId: message.roomId ?? null,
+    chatRequest: getChatRequest(message),
+    approvalId: approval?.id ?? null,
+    decidedBy: approval?.decidedBy ?? null,
+  };
+}
+
+/**
+ * 署名を拒否したトランザクションを記録します（ポリシー違反・読み取り専用・ガス予算超過など）。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 発生元のメッセージ
+ * @param {SpendIntent} intent - 拒否した支出内容
+ * @param {unknown} error - 拒否の理由となった例外
+ */
+export async function recordRefusedTransaction(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intent: SpendIntent,
+  error: unknown,
+): Promise<void> {
+  const { approvalId, decidedBy, ...source } = auditSource(message);
+  await appendTransactionAudit(runtime, {
+    action: intent.action,
+    ...source,
+    intent,
+    decision: {
+      result: "denied",
+      rule: error instanceof SuiActionError ? error.code : null,
+      reason: error instanceof Error ? error.message : String(error),
+      approvalId,
+      decidedBy,
+    },
+    bytesHash: null,
+    digest: null,
+    outcome: "refused",
+    error: null,
+  });
+}
+
+/**
+ * ポリシーで許可したトランザクションと、その送信結果（応答、または署名・送信時の例外）を記録します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 発生元のメッセージ
+ * @param {SpendIntent} intent - 署名した支出内容
+ * @param {SignatureWithBytes | null} signed - 署名したバイト列（署名する前に失敗した、または分からなければnull）
+ * @param {unknown} result - 送信結果（SuiTransactionBlockResponse）、または送信時の例外
+ * @param {string} policyExemption - 支出ポリシーを適用しなかった理由（適用した場合は省略）
+ */
+export async function recordSignedTransaction(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intent: SpendIntent,
+  signed: SignatureWithBytes | null,
+  result: unknown,
+  policyExemption?: string,
+): Promise<void> {
+  const { approvalId, decidedBy, ...source } = auditSource(message);
+  const response =
+    result && typeof result === "object" && "digest" in result
+      ? (result as SuiTransactionBlockResponse)
+      : null;
+  const status = response?.effects?.status.status ?? "unknown";
+  const bytes = signed ? fromBase64(signed.bytes) : null;
+
+  await appendTransactionAudit(runtime, {
+    action: intent.action,
+    ...source,
+    intent,
+    decision: {
+      result: "allowed",
+      rule: null,
+      reason: policyExemption
+        ? `Exempt from the spending policy: ${policyExemption}`
+        : null,
+      approvalId,
+      decidedBy,
+    },
+    bytesHash: signed ? transactionBytesHash(signed.bytes) : null,
+    // 送信できなかった場合も、署名したバイト列からダイジェストを求める
+    digest:
+      response?.digest ??
+      (bytes ? TransactionDataBuilder.getDigestFromBytes(bytes) : null),
+    outcome: response ? (status === "success" ? "success" : "failed") : "error",
+    error: response
+      ? status === "success"
+        ? null
+        : (response.effects?.status.error ?? status)
+      : result instanceof Error
+        ? result.message
+        : String(result),
+  });
+}
+
+/**
+ * 支出内容をポリシーに照らして評価し、違反していれば拒否として記録してから例外を投げ直します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {Memory} message - 発生元のメッセージ
+ * @param {SpendIntent} intent - 署名しようとしているトランザクションの内容
+ */
+export async function enforceAuditedPolicy(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  intent: SpendIntent,
+): Promise<void> {
+  try {
+    await enforceSpendingPolicy(runtime, service, intent);
+  } catch (error) {
+    await recordRefusedTransaction(runtime, message, intent, error);
+    throw error;
+  }
+}
+
+/**
+ * 署名直前にポリシーを再確認して支出を予約してからトランザクションに署名・送信し、結果を監査ログに記録します。
+ * 署名前に拒否したもの（ポリシー違反・読み取り専用・ガス予算超過）と、署名・送信の途中で失敗したものも記録します。
+ * 送信した後は監査ログへの記録に失敗しても結果を変えず、エラーとしてログに残します（成功した送金を失敗と報告して再送させないため）。
+ * 送信する前に失敗した場合とオンチェーンで失敗した場合は予約を解放し、送信結果が分からない場合は残します。
+ * options.policyExemptionを指定した場合はポリシーを適用せず、その理由を記録します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 署名するウォレット
+ * @param {Memory} message - 発生元のメッセージ
+ * @param {SpendIntent} intent - 署名するトランザクションの内容
+ * @param {Transaction} tx - 署名するトランザクション
+ * @param {AuditedSigningOptions} options - ポリシーの適用除外と、送信前に行う処理
+ * @returns {Promise<SuiTransactionBlockResponse>} - 送信結果
+ */
+export async function signAndExecuteAudited(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+  intent: SpendIntent,
+  tx: Transaction,
+  options: AuditedSigningOptions = {},
+): Promise<SuiTransactionBlockResponse> {
+  const { policyExemption, beforeExecute } = options;
+  let reservation: SpendReservation | null = null;
+  if (!policyExemption) {
+    try {
+      reservation = await reserveSpending(runtime, service, intent);
+    } catch (error) {
+      await recordRefusedTransaction(runtime, message, intent, error);
+      throw error;
+    }
+  }
+
+  const signing: { signed: SignatureWithBytes | null; submitted: boolean } = {
+    signed: null,
+    submitted: false,
+  };
+  let result: SuiTransactionBlockResponse;
+  try {
+    if (beforeExecute) {
+      // 署名と送信の間に処理を挟むため、署名と送信を分けて呼ぶ
+      signing.signed = await service.signTransaction(tx);
+      await beforeExecute();
+      signing.submitted = true;
+      result = await service.executeSignedTransaction(signing.signed);
+    } else {
+      result = await service.signAndExecuteTransaction(tx, (signed) => {
+        signing.signed = signed;
+        signing.submitted = true;
+      });
+    }
+  } catch (error) {
+    // 送信前に失敗した場合は、署名していても予約を解放する
+    if (!signing.submitted) await reservation?.release();
+    if (signing.submitted) {
+      await recordSubmittedTransaction(
+        runtime,
+        message,
+        intent,
+        signing.signed,
+        error,
+        policyExemption,
+      );
+    } else if (!signing.signed && error instanceof SuiActionError) {
+      await recordRefusedTransaction(runtime, message, intent, error);
+    } else {
+      // RPCエラーやトランザクションの構築失敗など、送信前の想定外の失敗も記録する
+      await recordSignedTransaction(
+        runtime,
+        message,
+        intent,
+        signing.signed,
+        error,
+        policyExemption,
+      );
+    }
+    throw error;
+  }
+  if (result.effects?.status.status !== "success") {
+    await reservation?.release();
+  }
+  await recordSubmittedTransaction(
+    runtime,
+    message,
+    intent,
+    signing.signed,
+    result,
+    policyExemption,
+  );
+  return result;
+}
+
+// 送信したトランザクションを記録します。記録に失敗しても例外にせず、ダイジェストと共にエラーとしてログに残します
+async function recordSubmittedTransaction(
+  ...args: Parameters<typeof recordSignedTransaction>
+): Promise<void> {
+  try {
+    await recordSignedTransaction(...args);
+  } catch (error) {
+    const [, , intent, , result] = args;
+    logger.error(
+      {
+        action: intent.action,
+        digest:
+          result && typeof result === "object" && "digest" in result
+            ? result.digest
+            : null,
+        error: error instanceof Error ? error.message : String(error),
+      },
+      "Submitted Sui transaction but could not record it in the audit log",
+    );
+  }
+}
+
+/**
+ * 監査ログを先頭から再計算し、通し番号・直前のハッシュ・各エントリのハッシュが整合するかを検証します。
+ * 別に保存した先頭（件数と最後のハッシュ）を渡した場合は、末尾のエントリが欠けていないかも確認します。
+ *
+ * @param {TransactionAuditEntry[]} entries - 古い順の監査ログ
+ * @param {TransactionAuditHead} head - 保存している監査ログの先頭（省略した場合は末尾を確認しない）
+ * @returns {TransactionAuditVerification} - 検証結果
+ */
+export function verifyTransactionAudit(
+  entries: TransactionAuditEntry[],
+  head?: TransactionAuditHead,
+): TransactionAuditVerification {
+  let headHash = AUDIT_GENESIS_HASH;
+  for (const [index, entry] of entries.entries()) {
+    const broken = (reason: string): TransactionAuditVerification => ({
+      valid: false,
+      count: index,
+      headHash,
+      brokenAt: index,
+      reason,
+    });
+    if (entry.seq !== index) {
+      return broken(`Entry ${index} has sequence number ${entry.seq}`);
+    }
+    if (entry.prevHash !== headHash) {
+      return broken(`Entry ${index} does not link to the previous entry`);
+    }
+    if (entry.hash !== hashAuditEntry(entry)) {
+      return broken(`Entry ${index} does not match its hash`);
+    }
+    headHash = entry.hash;
+  }
+  if (head && (head.count !== entries.length || head.headHash !== headHash)) {
+    return {
+      valid: false,
+      count: entries.length,
+      headHash,
+      brokenAt: entries.length,
+      reason: `The log ends after ${entries.length} entries, but its head records ${head.count} entries ending with ${head.headHash}`,
+    };
+  }
+  return {
+    valid: true,
+    count: entries.length,
+    headHash,
+    brokenAt: null,
+    reason: null,
+  };
+}
+
+// CSVの1セルを引用符で囲みます（区切り文字・引用符・改行を含む場合）
+function csvCell(value: unknown): string {
+  const text =
+    value === null || value === undefined
+      ? ""
+      : typeof value === "object"
+        ? JSON.stringify(value)
+        : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * 監査ログをJSONL（1行1エントリ）またはCSVの文字列にします。
+ *
+ * @param {TransactionAuditEntry[]} entries - 古い順の監査ログ
+ * @param {AuditExportFormat} format - 形式
+ * @returns {string} - エクスポートする内容
+ */
+export function formatTransactionAudit(
+  entries: TransactionAuditEntry[],
+  format: AuditExportFormat,
+): string {
+  if (format === "jsonl") {
+    return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+  }
+  const rows = entries.map((entry) => {
+    const { decision, ...fields } = entry;
+    const row: Record<string, unknown> = {
+      ...fields,
+      decision: decision.result,
+      rule: decision.rule,
+      reason: decision.reason,
+      approvalId: decision.approvalId,
+      decidedBy: decision.decidedBy,
+    };
+    return CSV_COLUMNS.map((column) => csvCell(row[column])).join(",");
+  });
+  return [CSV_COLUMNS.join(","), ...rows].map((row) => `${row}\r\n`).join("");
+}
+
+/**
+ * JSONLでエクスポートした監査ログを読み込みます（空行は無視します）。
+ *
+ * @param {string} text - JSONLの内容
+ * @returns {TransactionAuditEntry[]} - 古い順の監査ログ
+ */
+export function parseTransactionAuditJsonl(
+  text: string,
+): TransactionAuditEntry[] {
+  const entries: TransactionAuditEntry[] = [];
+  for (const [index, line] of text.split(/\r?\n/).entries()) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  }
+  return entries;
+}
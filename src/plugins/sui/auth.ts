@@ -0,0 +1,380 @@
+// Node.jsの暗号モジュールをインポートします。
+import { createHash, createHmac, timingSafeEqual } from "node:crypto";
+// ElizaOSコアから型やモジュールをインポートします。
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import { SUI_API_ROLES, type SuiConfig } from "./config.ts";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+
+/** プラグインのAPIルートの役割 */
+export type SuiApiRole = (typeof SUI_API_ROLES)[number];
+
+/** 署名付きベアラートークンの既定の有効期間（秒） */
+export const API_TOKEN_DEFAULT_TTL_SECONDS = 60 * 60;
+
+/** ダッシュボードのパネルに発行するセッショントークンの有効期間（秒） */
+export const API_SESSION_TTL_SECONDS = 15 * 60;
+
+/** アクセスの監査ログに残す件数 */
+export const ACCESS_LOG_LIMIT = 500;
+
+/**
+ * 認証済みの呼び出し元です。
+ * 認証が無効（キーもトークンの秘密鍵も未設定）の場合は"open"とし、viewerの役割だけを持ちます
+ * （SUI_API_ALLOW_UNAUTHENTICATEDで明示的に許可した場合は全ての役割を持ちます）。
+ */
+export interface SuiApiPrincipal {
+  subject: string; // トークンのsub、またはAPIキーの指紋
+  role: SuiApiRole; // 付与された役割
+  method: "api-key" | "token" | "open"; // 認証の方法
+}
+
+/**
+ * APIルートへのアクセス1件の監査ログです。
+ * operator・adminのルートへの呼び出しと、拒否した全ての呼び出しを記録します。
+ */
+export interface AccessLogEntry {
+  at: number; // 呼び出し時刻
+  route: string; // ルート名
+  method: string; // HTTPメソッド
+  path: string; // 呼び出されたパス
+  requiredRole: SuiApiRole; // ルートに必要な役割
+  subject: string | null; // 呼び出し元（認証できなかった場合はnull）
+  role: SuiApiRole | null; // 呼び出し元の役割
+  outcome: "allowed" | "denied";
+  status?: number; // 拒否した場合のHTTPステータス
+  reason?: string; // 拒否した理由
+}
+
+// トークンの中身（subは呼び出し元、expは有効期限のUNIX秒）
+interface ApiTokenClaims {
+  sub: string;
+  role: SuiApiRole;
+  exp: number;
+}
+
+/**
+ * 付与された役割が、必要な役割以上かを判定します。
+ *
+ * @param {SuiApiRole} granted - 呼び出し元の役割
+ * @param {SuiApiRole} required - ルートに必要な役割
+ * @returns {boolean} - 呼び出せるか
+ */
+export function hasApiRole(granted: SuiApiRole, required: SuiApiRole): boolean {
+  return SUI_API_ROLES.indexOf(granted) >= SUI_API_ROLES.indexOf(required);
+}
+
+/**
+ * APIルートの認証が有効か（APIキーかトークンの秘密鍵が設定されているか）を返します。
+ *
+ * @param {SuiConfig} config - 検証済みの設定
+ * @returns {boolean} - 認証が有効か
+ */
+export function isApiAuthEnabled(config: SuiConfig): boolean {
+  return Boolean(config.SUI_API_KEYS?.length || config.SUI_API_TOKEN_SECRET);
+}
+
+// トークンの本体に付ける署名（base64url）
+function signTokenBody(secret: string, body: string): string {
+  return createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+// 長さの違いも含めて、一定時間で文字列を比較します（ハッシュ同士を比較）
+function safeEqual(a: string, b: string): boolean {
+  const left = createHash("sha256").update(a).digest();
+  const right = createHash("sha256").update(b).digest();
+  return timingSafeEqual(left, right);
+}
+
+/**
+ * SUI_API_TOKEN_SECRETで署名したベアラートークンを発行します（外部のスクリプトや運用者に渡します）。
+ * 形式は"base64url(JSON).base64url(HMAC-SHA256)"です。
+ *
+ * @param {string} secret - SUI_API_TOKEN_SECRET
+ * @param {{ subject: string; role: SuiApiRole; ttlSeconds?: number }} claims - 呼び出し元・役割・有効期間
+ * @param {number} now - 現在時刻（ミリ秒）
+ * @returns {string} - ベアラートークン
+ */
+export function createApiToken(
+  secret: string,
+  claims: { subject: string; role: SuiApiRole; ttlSeconds?: number },
+  now: number = Date.now(),
+): string {
+  const body = Buffer.from(
+    JSON.stringify({
+      sub: claims.subject,
+      role: claims.role,
+      exp:
+        Math.floor(now / 1000) +
+        (claims.ttlSeconds ?? API_TOKEN_DEFAULT_TTL_SECONDS),
+    } satisfies ApiTokenClaims),
+  ).toString("base64url");
+  return `${body}.${signTokenBody(secret, body)}`;
+}
+
+/**
+ * ベアラートークンの署名と有効期限を検証し、中身を返します。
+ *
+ * @param {string} secret - SUI_API_TOKEN_SECRET
+ * @param {string} token - ベアラートークン
+ * @param {number} now - 現在時刻（ミリ秒）
+ * @returns {{ subject: string; role: SuiApiRole }} - 呼び出し元と役割
+ */
+export function verifyApiToken(
+  secret: string,
+  token: string,
+  now: number = Date.now(),
+): { subject: string; role: SuiApiRole } {
+  const [body, signature, ...rest] = token.split(".");
+  if (
+    !body ||
+    !signature ||
+    rest.length > 0 ||
+    !safeEqual(signature, signTokenBody(secret, body))
+  ) {
+    throw new SuiActionError(
+      SuiErrorCode.UNAUTHENTICATED,
+      "Invalid bearer token",
+    );
+  }
+  let claims: Partial<ApiTokenClaims>;
+  try {
+    claims = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    throw new SuiActionError(
+      SuiErrorCode.UNAUTHENTICATED,
+      "Invalid bearer token",
+    );
+  }
+  if (
+    typeof claims.sub !== "string" ||
+    !SUI_API_ROLES.includes(claims.role as SuiApiRole) ||
+    typeof claims.exp !== "number"
+  ) {
+    throw new SuiActionError(
+      SuiErrorCode.UNAUTHENTICATED,
+      "Invalid bearer token",
+    );
+  }
+  if (claims.exp * 1000 <= now) {
+    throw new SuiActionError(
+      SuiErrorCode.UNAUTHENTICATED,
+      "Bearer token has expired",
+    );
+  }
+  return { subject: claims.sub, role: claims.role as SuiApiRole };
+}
+
+/**
+ * APIキーで認証した呼び出し元に、短命のセッショントークンを発行します（ダッシュボードのパネルが使います）。
+ * パネルは長期間有効なAPIキーを保持せず、サインイン時に一度だけ送ってこのトークンと引き換えます。
+ * トークンの呼び出し元はキーの指紋のままとし、役割はキーの役割以下に限ります。
+ *
+ * @param {SuiConfig} config - 検証済みの設定
+ * @param {SuiApiPrincipal} principal - 認証済みの呼び出し元
+ * @param {SuiApiRole} role - 求める役割（既定: キーの役割）
+ * @param {number} now - 現在時刻（ミリ秒）
+ * @returns {{ token: string; subject: string; role: SuiApiRole; expiresAt: number }} - トークンと有効期限（ミリ秒）
+ */
+export function issueSessionToken(
+  config: SuiConfig,
+  principal: SuiApiPrincipal,
+  role: SuiApiRole = principal.role,
+  now: number = Date.now(),
+): { token: string; subject: string; role: SuiApiRole; expiresAt: number } {
+  if (principal.method !== "api-key") {
+    throw new SuiActionError(
+      SuiErrorCode.NOT_AUTHORIZED,
+      "Session tokens are only issued in exchange for an API key",
+    );
+  }
+  if (!config.SUI_API_TOKEN_SECRET) {
+    throw new SuiActionError(
+      SuiErrorCode.NOT_AUTHORIZED,
+      "Session tokens require SUI_API_TOKEN_SECRET to be set",
+    );
+  }
+  if (!hasApiRole(principal.role, role)) {
+    throw new SuiActionError(
+      SuiErrorCode.NOT_AUTHORIZED,
+      `This API key cannot be exchanged for the ${role} role`,
+    );
+  }
+  const token = createApiToken(
+    config.SUI_API_TOKEN_SECRET,
+    { subject: principal.subject, role, ttlSeconds: API_SESSION_TTL_SECONDS },
+    now,
+  );
+  // createApiTokenは秒単位で期限を切るため、応答の期限も同じ丸めで返す
+  const expiresAt = (Math.floor(now / 1000) + API_SESSION_TTL_SECONDS) * 1000;
+  return { token, subject: principal.subject, role, expiresAt };
+}
+
+// リクエストヘッダーを大文字小文字を区別せずに読みます
+function requestHeader(req: any, name: string): string | undefined {
+  const value =
+    typeof req?.get === "function" ? req.get(name) : req?.headers?.[name];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * リクエストの"X-API-Key"ヘッダー、または"Authorization: Bearer"のトークンから呼び出し元を特定します。
+ * 認証が無効な場合は"open"の呼び出し元を返し、資格情報が無い・検証できない場合はUNAUTHENTICATEDを投げます。
+ * "open"の呼び出し元は、SUI_API_ALLOW_UNAUTHENTICATEDが無ければ読み取り（viewer）のルートしか呼び出せません。
+ *
+ * @param {SuiConfig} config - 検証済みの設定
+ * @param {any} req - ルートのリクエスト
+ * @returns {SuiApiPrincipal} - 呼び出し元
+ */
+export function authenticateApiRequest(
+  config: SuiConfig,
+  req: any,
+): SuiApiPrincipal {
+  if (!isApiAuthEnabled(config)) {
+    return {
+      subject: "anonymous",
+      role: config.SUI_API_ALLOW_UNAUTHENTICATED ? "admin" : "viewer",
+      method: "open",
+    };
+  }
+
+  const apiKey = requestHeader(req, "x-api-key");
+  if (apiKey) {
+    const entry = config.SUI_API_KEYS?.find((candidate) =>
+      safeEqual(candidate.key, apiKey),
+    );
+    if (!entry) {
+      throw new SuiActionError(SuiErrorCode.UNAUTHENTICATED, "Invalid API key");
+    }
+    // キーそのものはログに残さず、指紋で呼び出し元を表す
+    const fingerprint = createHash("sha256")
+      .update(apiKey)
+      .digest("hex")
+      .slice(0, 12);
+    return {
+      subject: `api-key:${fingerprint}`,
+      role: entry.role,
+      method: "api-key",
+    };
+  }
+
+  const authorization = requestHeader(req, "authorization");
+  const token = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (token) {
+    if (!config.SUI_API_TOKEN_SECRET) {
+      throw new SuiActionError(
+        SuiErrorCode.UNAUTHENTICATED,
+        "Bearer tokens are not enabled",
+      );
+    }
+    return {
+      ...verifyApiToken(config.SUI_API_TOKEN_SECRET, token),
+      method: "token",
+    };
+  }
+
+  throw new SuiActionError(
+    SuiErrorCode.UNAUTHENTICATED,
+    "An API key or bearer token is required",
+  );
+}
+
+// 保存するエントリ（書き込んだのが自分かを読み戻して確かめるためのIDを付けます）
+type StoredAccessLogEntry = AccessLogEntry & { writeId: string };
+
+// アクセスの監査ログのエントリは、エージェントと通し番号ごとのキーに1件ずつ保存します
+// （同時に記録しても互いの書き込みを上書きしないように）
+function accessLogEntryKey(runtime: IAgentRuntime, seq: number): string {
+  return `sui:access-log:${runtime.agentId}:${seq}`;
+}
+
+// 記録したエントリ数のキャッシュキー（エージェントごと）
+function accessLogHeadKey(runtime: IAgentRuntime): string {
+  return `sui:access-log-head:${runtime.agentId}`;
+}
+
+// 同じプロセス内ではエージェントごとに記録を直列化します
+// （別のプロセスと競合した場合は、書き込んだエントリを読み戻して確かめ、次の番号で記録し直します）
+const accessLogQueues = new Map<string, Promise<unknown>>();
+
+// 記録を試みる回数（別のプロセスが同じ番号に書き込んだ場合のやり直しを含む）
+const ACCESS_LOG_APPEND_ATTEMPTS = 5;
+
+async function getAccessLogCount(runtime: IAgentRuntime): Promise<number> {
+  return (await runtime.getCache<number>(accessLogHeadKey(runtime))) ?? 0;
+}
+
+/**
+ * アクセスの監査ログを新しい順に返します（直近ACCESS_LOG_LIMIT件）。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {Promise<AccessLogEntry[]>} - 監査ログ
+ */
+export async function listAccessLog(
+  runtime: IAgentRuntime,
+): Promise<AccessLogEntry[]> {
+  const count = await getAccessLogCount(runtime);
+  const first = Math.max(0, count - ACCESS_LOG_LIMIT);
+  const stored = await Promise.all(
+    Array.from({ length: count - first }, (_, offset) =>
+      runtime.getCache<StoredAccessLogEntry>(
+        accessLogEntryKey(runtime, count - 1 - offset),
+      ),
+    ),
+  );
+  return stored
+    .filter((entry): entry is StoredAccessLogEntry => Boolean(entry))
+    .map(({ writeId: _writeId, ...entry }) => entry);
+}
+
+/**
+ * アクセスの監査ログに1件を追加します。上限件数より古いエントリは削除します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {AccessLogEntry} entry - 記録するアクセス
+ */
+export async function recordAccess(
+  runtime: IAgentRuntime,
+  entry: AccessLogEntry,
+): Promise<void> {
+  logger.info({ access: entry }, "Sui API access");
+  const key = accessLogHeadKey(runtime);
+  const stored: StoredAccessLogEntry = {
+    ...entry,
+    writeId: crypto.randomUUID(),
+  };
+  const append = async () => {
+    for (let attempt = 1; attempt <= ACCESS_LOG_APPEND_ATTEMPTS; attempt++) {
+      // 件数を更新する前に止まった記録（や別のプロセスの記録）があれば、その後ろに書き込む
+      let seq = await getAccessLogCount(runtime);
+      while (await runtime.getCache(accessLogEntryKey(runtime, seq))) seq += 1;
+
+      const entryKey = accessLogEntryKey(runtime, seq);
+      await runtime.setCache(entryKey, stored);
+      const written = await runtime.getCache<StoredAccessLogEntry>(entryKey);
+      if (written?.writeId !== stored.writeId) continue;
+
+      // 件数は増やす場合だけ書き込む（先に進んだ別のプロセスの記録を戻さない）
+      if ((await getAccessLogCount(runtime)) <= seq) {
+        await runtime.setCache(key, seq + 1);
+      }
+      if (seq >= ACCESS_LOG_LIMIT) {
+        await runtime.deleteCache(
+          accessLogEntryKey(runtime, seq - ACCESS_LOG_LIMIT),
+        );
+      }
+      return;
+    }
+    throw new Error(
+      `Could not record API access after ${ACCESS_LOG_APPEND_ATTEMPTS} attempts`,
+    );
+  };
+  const queued = (accessLogQueues.get(key) ?? Promise.resolve()).then(
+    append,
+    append,
+  );
+  accessLogQueues.set(
+    key,
+    queued.catch(() => {}),
+  );
+  return queued;
+}
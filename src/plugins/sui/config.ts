@@ -0,0 +1,656 @@
+// ElizaOSコアから型をインポートします。
+import type { IAgentRuntime } from "@elizaos/core";
+import {
+  isValidSuiAddress,
+  normalizeStructTag,
+  normalizeSuiAddress,
+} from "@mysten/sui/utils";
+// zodをインポートして、設定のバリデーションを行います。
+import { z } from "zod";
+import { loadKeypair } from "./keypair.ts";
+
+/** SUI_SWAP_AGGREGATORSで選べる組み込みのアグリゲーター */
+export const SUI_SWAP_AGGREGATOR_NAMES = ["aftermath"] as const;
+
+/** SUI_INTENT_PARSERで選べる、チャットから依頼内容を読み取る方法（llmはモデルで抽出し、失敗時は正規表現に戻ります） */
+export const SUI_INTENT_PARSERS = ["llm", "regex"] as const;
+
+/** SUI_INTENT_MODELで選べる、依頼内容の抽出に使うモデル */
+export const SUI_INTENT_MODELS = ["TEXT_SMALL", "TEXT_LARGE"] as const;
+
+/** SUI_EVENT_FILTERSで指定できる絞り込みの種類（transfersはウォレット宛ての入金） */
+export const SUI_EVENT_FILTER_KINDS = [
+  "type",
+  "module",
+  "package",
+  "transfers",
+] as const;
+
+/** プラグインのAPIルートの役割（右ほど強く、上位の役割は下位の役割のルートも呼び出せます） */
+export const SUI_API_ROLES = ["viewer", "operator", "admin"] as const;
+
+/**
+ * 購読するオンチェーンイベントの絞り込みです。
+ * specはカーソルの保存キーにも使うため、同じ絞り込みは書き方によらず同じ文字列になります。
+ */
+export interface SuiEventFilterSpec {
+  kind: (typeof SUI_EVENT_FILTER_KINDS)[number];
+  spec: string; // パッケージIDを正規化した設定の形（例: "module:0x00…02::coin"）
+  packageId: string | null; // 正規化したパッケージID（transfersではnull）
+  module: string | null; // moduleとtypeで指定したモジュール名
+  type: string | null; // typeで指定したイベントの構造体タグ
+}
+
+// 16進数のパッケージIDに続くモジュール名・構造体名
+const EVENT_FILTER_PATTERNS = {
+  type: /^(0x[0-9a-fA-F]{1,64})::(\w+)::(\w+(?:<.+>)?)$/,
+  module: /^(0x[0-9a-fA-F]{1,64})::(\w+)$/,
+  package: /^(0x[0-9a-fA-F]{1,64})$/,
+} as const;
+
+/**
+ * SUI_EVENT_FILTERSの1項目（"type:0x...::module::Event"、"module:0x...::module"、"package:0x..."、"transfers"）を解釈します。
+ *
+ * @param {string} spec - 設定の1項目
+ * @returns {SuiEventFilterSpec | null} - 解釈した絞り込み（形が不正ならnull）
+ */
+export function parseEventFilterSpec(spec: string): SuiEventFilterSpec | null {
+  const trimmed = spec.trim();
+  if (trimmed.toLowerCase() === "transfers") {
+    return {
+      kind: "transfers",
+      spec: "transfers",
+      packageId: null,
+      module: null,
+      type: null,
+    };
+  }
+  const separator = trimmed.indexOf(":");
+  const kind = trimmed.slice(0, separator).toLowerCase();
+  const target = trimmed.slice(separator + 1).trim();
+  if (kind !== "type" && kind !== "module" && kind !== "package") return null;
+  const match = EVENT_FILTER_PATTERNS[kind].exec(target);
+  if (!match) return null;
+  const packageId = normalizeSuiAddress(match[1]);
+  const module = match[2] ?? null;
+  const type = kind === "type" ? `${packageId}::${module}::${match[3]}` : null;
+  return {
+    kind,
+    spec: `${kind}:${type ?? (module ? `${packageId}::${module}` : packageId)}`,
+    packageId,
+    module,
+    type,
+  };
+}
+
+/** SUI_PRICE_SOURCESで選べる組み込みの価格ソース（pythはチェーン上のPythの価格オブジェクトを読みます） */
+export const SUI_PRICE_SOURCE_NAMES = ["static", "http", "pyth"] as const;
+
+/**
+ * SUI_PRICE_PYTH_FEEDSの1項目（"0x2::sui::SUI=0xPRICE_INFO_OBJECT"）を解釈します。
+ *
+ * @param {string} spec - 設定の1項目
+ * @returns {{ coinType: string; objectId: string } | null} - 正規化したコインタイプと価格オブジェクトのID（形が不正ならnull）
+ */
+export function parsePriceFeedSpec(
+  spec: string,
+): { coinType: string; objectId: string } | null {
+  const separator = spec.lastIndexOf("=");
+  if (separator === -1) return null;
+  const coinType = spec.slice(0, separator).trim();
+  const objectId = spec.slice(separator + 1).trim();
+  if (!/^0x[0-9a-fA-F]{1,64}::\w+::\w+/.test(coinType)) return null;
+  if (!isValidSuiAddress(normalizeSuiAddress(objectId))) return null;
+  try {
+    return {
+      coinType: normalizeStructTag(coinType),
+      objectId: normalizeSuiAddress(objectId),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** 接続先として選べるネットワーク（customはSUI_RPC_URLを必須にします） */
+export const SUI_NETWORKS = [
+  "mainnet",
+  "testnet",
+  "devnet",
+  "localnet",
+  "custom",
+] as const;
+
+// 未設定（null/空文字）をundefinedとして扱います
+const emptyToUndefined = (value: unknown) =>
+  value === null || value === "" ? undefined : value;
+
+// カンマ区切りの文字列を小文字の配列にします（空ならundefined）
+const commaList = (value: unknown) => {
+  if (typeof value !== "string") return emptyToUndefined(value);
+  const items = value
+    .split(",")
+    .map((item) => item.trim().toLowerCase())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+// 文字列・真偽値の両方を受け付ける真偽値フラグ
+const booleanFlag = z.preprocess(
+  (value) =>
+    emptyToUndefined(
+      typeof value === "string" ? value.trim().toLowerCase() : value,
+    ),
+  z
+    .union([
+      z.boolean(),
+      z.enum(["true", "false", "1", "0", "yes", "no"], {
+        errorMap: () => ({ message: "Must be true or false" }),
+      }),
+    ])
+    .transform((value) =>
+      typeof value === "boolean" ? value : ["true", "1", "yes"].includes(value),
+    )
+    .default(false),
+);
+
+// 秘密鍵として解釈できるかを検証します（値そのものはエラーに含めません）
+const isValidPrivateKey = (value: string) => {
+  try {
+    loadKeypair(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// BIP39ニーモニックの形（単語数と文字種）かを検証します（値そのものはエラーに含めません）
+const isValidMnemonic = (value: string) => {
+  const words = value.split(" ");
+  return (
+    [12, 15, 18, 21, 24].includes(words.length) &&
+    words.every((word) => /^[a-z]+$/.test(word))
+  );
+};
+
+/**
+ * Suiプラグインの設定スキーマです。
+ *
+ * @param {string} SUI_NETWORK - 接続先ネットワーク（既定: testnet）
+ * @param {string} SUI_RPC_URL - フルノードのURL（customの場合は必須）
+ * @param {string} SUI_PRIVATE_KEY - bech32（suiprivkey...）またはbase64形式の秘密鍵（キーストアを使う場合は設定しない）
+ * @param {string} SUI_KEYSTORE_PATH - パスフレーズで暗号化したキーストアファイルのパス（起動時に開きます）
+ * @param {string} SUI_KEYSTORE_PASSPHRASE - キーストアのパスフレーズ（8文字以上）
+ * @param {string} SUI_KEYSTORE_IMPORT - キーストアが無い場合に取り込むSui CLIのsui.keystoreのパス
+ * @param {string} SUI_KEYSTORE_IMPORT_ADDRESS - sui.keystoreから取り込むアドレス（未指定なら先頭の鍵）
+ * @param {number} SUI_GAS_BUDGET_MAX - 1トランザクションあたりのガス予算の上限（MIST）
+ * @param {string} SUI_MAX_SPEND_PER_TX - 1トランザクションあたりのSUI送金上限
+ * @param {boolean} SUI_READ_ONLY - trueの場合は署名を一切行わない
+ * @param {number} SUI_PORTFOLIO_TTL_MS - 残高キャッシュの有効期間（ミリ秒）
+ * @param {number} SUI_SWAP_SLIPPAGE_BPS - スワップで許容するスリッページ（ベーシスポイント、既定: 50 = 0.5%）
+ * @param {string[]} SUI_SWAP_AGGREGATORS - 見積もりを比較するアグリゲーター（カンマ区切り、既定: aftermath）
+ * @param {string} SUI_HD_MNEMONIC - 利用者ごとの預かりウォレットを導出するBIP39ニーモニック（設定時のみ有効）
+ * @param {number} SUI_NAME_CACHE_TTL_MS - SuiNS名前解決のキャッシュ有効期間（ミリ秒、既定: 5分）
+ * @param {string} SUI_INTENT_PARSER - チャットから依頼内容を読み取る方法（llm / regex、既定: llm）
+ * @param {string} SUI_INTENT_MODEL - 依頼内容の抽出に使うモデル（TEXT_SMALL / TEXT_LARGE、既定: TEXT_SMALL）
+ * @param {number} SUI_INTENT_MAX_ATTEMPTS - 出力がスキーマに合わない場合を含めたモデル呼び出しの最大回数（既定: 3）
+ * @param {string[]} SUI_ADMIN_ENTITY_IDS - 鍵の更新など管理者専用のアクションを実行できるエンティティID（カンマ区切り）
+ * @param {string[]} SUI_EVENT_FILTERS - 購読するオンチェーンイベントの絞り込み（カンマ区切り、未設定なら購読しない）
+ * @param {string[]} SUI_EVENT_ROOM_IDS - 受け取ったイベントの通知を投稿するルームID（カンマ区切り）
+ * @param {number} SUI_EVENT_POLL_INTERVAL_MS - イベントを問い合わせる間隔（ミリ秒、既定: 15秒）
+ * @param {string[]} SUI_PRICE_SOURCES - USD価格を問い合わせるソース（カンマ区切り、優先順。未設定なら評価額を表示しない）
+ * @param {string} SUI_PRICE_STATIC_PATH - staticソースが読むJSONファイルのパス
+ * @param {string} SUI_PRICE_HTTP_URL - httpソースが問い合わせるAPIのURL（既定: CoinGeckoのSuiトークン価格）
+ * @param {string[]} SUI_PRICE_PYTH_FEEDS - pythソースが読むコインタイプと価格オブジェクトの組（"コインタイプ=オブジェクトID"のカンマ区切り）
+ * @param {number} SUI_PRICE_TTL_MS - 価格キャッシュの有効期間（ミリ秒、既定: 1分）
+ * @param {number} SUI_PRICE_MAX_AGE_MS - これより古い価格は提示しない（ミリ秒、既定: 15分）
+ * @param {string[]} SUI_TRUSTED_PACKAGES - SUI_EXPLAIN_TXで未知のパッケージとして警告しないパッケージID（カンマ区切り）
+ * @param {string} SUI_HANDOFF_ROOM_ID - マルチエージェント構成で依頼を引き継ぐ共有ルームのID（未設定なら依頼を受けたルーム）
+ * @param {{ role: string; key: string }[]} SUI_API_KEYS - APIルートのキーと役割（"役割:キー"のカンマ区切り、役割はviewer / operator / admin）
+ * @param {string} SUI_API_TOKEN_SECRET - APIルートの署名付きベアラートークンを検証する秘密鍵（32文字以上）
+ * @param {boolean} SUI_API_ALLOW_UNAUTHENTICATED - trueの場合、キーも秘密鍵も無いときにoperator・adminのルートも資格情報なしで開放する
+ */
+export const suiConfigSchema = z
+  .object({
+    SUI_NETWORK: z.preprocess(
+      emptyToUndefined,
+      z
+        .enum(SUI_NETWORKS, {
+          errorMap: () => ({
+            message: `Must be one of ${SUI_NETWORKS.join(", ")}`,
+          }),
+        })
+        .default("testnet"),
+    ),
+    SUI_RPC_URL: z.preprocess(
+      emptyToUndefined,
+      z.string().trim().url("Must be a valid URL").optional(),
+    ),
+    SUI_PRIVATE_KEY: z.preprocess(
+      emptyToUndefined,
+      z
+        .string()
+        .refine(isValidPrivateKey, {
+          message:
+            "Must be a bech32 'suiprivkey...' string or a base64-encoded 32/33-byte key",
+        })
+        .optional(),
+    ),
+    SUI_KEYSTORE_PATH: z.preprocess(
+      emptyToUndefined,
+      z.string().trim().optional(),
+    ),
+    SUI_KEYSTORE_PASSPHRASE: z.preprocess(
+      emptyToUndefined,
+      z.string().min(8, "Must be at least 8 characters").optional(),
+    ),
+    SUI_KEYSTORE_IMPORT: z.preprocess(
+      emptyToUndefined,
+      z.string().trim().optional(),
+    ),
+    SUI_KEYSTORE_IMPORT_ADDRESS: z.preprocess(
+      emptyToUndefined,
+      z
+        .string()
+        .trim()
+        .refine((value) => isValidSuiAddress(normalizeSuiAddress(value)), {
+          message: "Must be a Sui address (0x...)",
+        })
+        .transform((value) => normalizeSuiAddress(value))
+        .optional(),
+    ),
+    SUI_GAS_BUDGET_MAX: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer amount of MIST")
+        .positive("Must be greater than zero")
+        .optional(),
+    ),
+    SUI_MAX_SPEND_PER_TX: z.preprocess(
+      emptyToUndefined,
+      z
+        .string()
+        .trim()
+        .regex(/^\d+(\.\d{1,9})?$/, "Must be a SUI amount such as 10 or 2.5")
+        .refine((value) => Number(value) > 0, "Must be greater than zero")
+        .optional(),
+    ),
+    SUI_READ_ONLY: booleanFlag,
+    SUI_PORTFOLIO_TTL_MS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer number of milliseconds")
+        .nonnegative("Must not be negative")
+        .default(60 * 1000),
+    ),
+    SUI_SWAP_SLIPPAGE_BPS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer number of basis points")
+        .min(1, "Must be at least 1 basis point")
+        .max(5000, "Must not exceed 5000 basis points (50%)")
+        .default(50),
+    ),
+    SUI_SWAP_AGGREGATORS: z.preprocess(
+      commaList,
+      z
+        .array(
+          z.enum(SUI_SWAP_AGGREGATOR_NAMES, {
+            errorMap: () => ({
+              message: `Must be a comma-separated list of ${SUI_SWAP_AGGREGATOR_NAMES.join(", ")}`,
+            }),
+          }),
+        )
+        .default(["aftermath"]),
+    ),
+    SUI_HD_MNEMONIC: z.preprocess(
+      (value) =>
+        emptyToUndefined(
+          typeof value === "string"
+            ? value.trim().toLowerCase().split(/\s+/).join(" ")
+            : value,
+        ),
+      z
+        .string()
+        .refine(isValidMnemonic, {
+          message: "Must be a BIP39 mnemonic of 12, 15, 18, 21 or 24 words",
+        })
+        .optional(),
+    ),
+    SUI_NAME_CACHE_TTL_MS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer number of milliseconds")
+        .nonnegative("Must not be negative")
+        .default(5 * 60 * 1000),
+    ),
+    SUI_INTENT_PARSER: z.preprocess(
+      (value) =>
+        emptyToUndefined(
+          typeof value === "string" ? value.trim().toLowerCase() : value,
+        ),
+      z
+        .enum(SUI_INTENT_PARSERS, {
+          errorMap: () => ({
+            message: `Must be one of ${SUI_INTENT_PARSERS.join(", ")}`,
+          }),
+        })
+        .default("llm"),
+    ),
+    SUI_INTENT_MODEL: z.preprocess(
+      (value) =>
+        emptyToUndefined(
+          typeof value === "string" ? value.trim().toUpperCase() : value,
+        ),
+      z
+        .enum(SUI_INTENT_MODELS, {
+          errorMap: () => ({
+            message: `Must be one of ${SUI_INTENT_MODELS.join(", ")}`,
+          }),
+        })
+        .default("TEXT_SMALL"),
+    ),
+    SUI_INTENT_MAX_ATTEMPTS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer")
+        .min(1, "Must be at least 1")
+        .max(5, "Must not exceed 5")
+        .default(3),
+    ),
+    SUI_ADMIN_ENTITY_IDS: z.preprocess(
+      commaList,
+      z
+        .array(z.string().uuid("Must be a comma-separated list of entity IDs"))
+        .default([]),
+    ),
+    SUI_EVENT_FILTERS: z.preprocess(
+      // Moveの型名は大文字小文字を区別するため、commaListのように小文字にはしない
+      (value) => {
+        if (typeof value !== "string") return emptyToUndefined(value);
+        const items = value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+        return items.length > 0 ? items : undefined;
+      },
+      z
+        .array(
+          z.string().transform((spec, ctx) => {
+            const filter = parseEventFilterSpec(spec);
+            if (!filter) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message:
+                  "Must be transfers, package:0xPKG, module:0xPKG::module or type:0xPKG::module::Event",
+              });
+              return z.NEVER;
+            }
+            // 環境変数にも書き出せるよう、正規化した文字列のまま保持する
+            return filter.spec;
+          }),
+        )
+        .default([]),
+    ),
+    SUI_EVENT_ROOM_IDS: z.preprocess(
+      commaList,
+      z
+        .array(z.string().uuid("Must be a comma-separated list of room IDs"))
+        .default([]),
+    ),
+    SUI_EVENT_POLL_INTERVAL_MS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer number of milliseconds")
+        .min(1000, "Must be at least 1000 milliseconds")
+        .default(15 * 1000),
+    ),
+    SUI_PRICE_SOURCES: z.preprocess(
+      commaList,
+      z
+        .array(
+          z.enum(SUI_PRICE_SOURCE_NAMES, {
+            errorMap: () => ({
+              message: `Must be a comma-separated list of ${SUI_PRICE_SOURCE_NAMES.join(", ")}`,
+            }),
+          }),
+        )
+        .default([]),
+    ),
+    SUI_PRICE_STATIC_PATH: z.preprocess(
+      emptyToUndefined,
+      z.string().trim().min(1).optional(),
+    ),
+    SUI_PRICE_HTTP_URL: z.preprocess(
+      emptyToUndefined,
+      z
+        .string()
+        .trim()
+        .url("Must be a valid URL")
+        .default("https://api.coingecko.com/api/v3/simple/token_price/sui"),
+    ),
+    SUI_PRICE_PYTH_FEEDS: z.preprocess(
+      // コインタイプの構造体名は大文字小文字を区別するため、commaListのように小文字にはしない
+      (value) => {
+        if (typeof value !== "string") return emptyToUndefined(value);
+        const items = value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+        return items.length > 0 ? items : undefined;
+      },
+      z
+        .array(
+          z.string().transform((spec, ctx) => {
+            const feed = parsePriceFeedSpec(spec);
+            if (!feed) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: "Must be 0xPKG::module::COIN=0xPRICE_INFO_OBJECT",
+              });
+              return z.NEVER;
+            }
+            return `${feed.coinType}=${feed.objectId}`;
+          }),
+        )
+        .default([]),
+    ),
+    SUI_PRICE_TTL_MS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer number of milliseconds")
+        .nonnegative("Must not be negative")
+        .default(60 * 1000),
+    ),
+    SUI_PRICE_MAX_AGE_MS: z.preprocess(
+      emptyToUndefined,
+      z.coerce
+        .number({ invalid_type_error: "Must be a number" })
+        .int("Must be an integer number of milliseconds")
+        .positive("Must be greater than zero")
+        .default(15 * 60 * 1000),
+    ),
+    SUI_TRUSTED_PACKAGES: z.preprocess(
+      commaList,
+      z
+        .array(
+          z
+            .string()
+            .transform((value) => normalizeSuiAddress(value))
+            .refine(isValidSuiAddress, {
+              message: "Must be a comma-separated list of package IDs",
+            }),
+        )
+        .default([]),
+    ),
+    SUI_HANDOFF_ROOM_ID: z.preprocess(
+      emptyToUndefined,
+      z.string().trim().uuid("Must be a room ID").optional(),
+    ),
+    SUI_API_KEYS: z.preprocess(
+      // キーは大文字小文字を区別するため、commaListのように小文字にはしない
+      (value) => {
+        if (typeof value !== "string") return emptyToUndefined(value);
+        const items = value
+          .split(",")
+          .map((item) => item.trim())
+          .filter(Boolean);
+        return items.length > 0 ? items : undefined;
+      },
+      z
+        .array(
+          z.string().transform((spec, ctx) => {
+            const separator = spec.indexOf(":");
+            const role = spec.slice(0, separator).trim().toLowerCase();
+            const key = spec.slice(separator + 1).trim();
+            if (
+              separator < 0 ||
+              !(SUI_API_ROLES as readonly string[]).includes(role) ||
+              key.length < 16
+            ) {
+              ctx.addIssue({
+                code: z.ZodIssueCode.custom,
+                message: `Must be ${SUI_API_ROLES.join("|")}:KEY with keys of at least 16 characters`,
+              });
+              return z.NEVER;
+            }
+            return { role: role as (typeof SUI_API_ROLES)[number], key };
+          }),
+        )
+        .optional(),
+    ),
+    SUI_API_TOKEN_SECRET: z.preprocess(
+      emptyToUndefined,
+      z.string().min(32, "Must be at least 32 characters").optional(),
+    ),
+    SUI_API_ALLOW_UNAUTHENTICATED: booleanFlag,
+  })
+  .superRefine((config, ctx) => {
+    if (config.SUI_NETWORK === "custom" && !config.SUI_RPC_URL) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SUI_RPC_URL"],
+        message: "Is required when SUI_NETWORK is custom",
+      });
+    }
+    if (config.SUI_KEYSTORE_PATH && !config.SUI_KEYSTORE_PASSPHRASE) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SUI_KEYSTORE_PASSPHRASE"],
+        message: "Is required when SUI_KEYSTORE_PATH is set",
+      });
+    }
+    if (config.SUI_KEYSTORE_PATH && config.SUI_PRIVATE_KEY) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SUI_PRIVATE_KEY"],
+        message: "Must not be set together with SUI_KEYSTORE_PATH",
+      });
+    }
+    if (config.SUI_KEYSTORE_IMPORT && !config.SUI_KEYSTORE_PATH) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SUI_KEYSTORE_PATH"],
+        message: "Is required when SUI_KEYSTORE_IMPORT is set",
+      });
+    }
+    if (
+      config.SUI_PRICE_SOURCES.includes("static") &&
+      !config.SUI_PRICE_STATIC_PATH
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SUI_PRICE_STATIC_PATH"],
+        message: "Is required when SUI_PRICE_SOURCES includes static",
+      });
+    }
+    if (
+      config.SUI_PRICE_SOURCES.includes("pyth") &&
+      config.SUI_PRICE_PYTH_FEEDS.length === 0
+    ) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["SUI_PRICE_PYTH_FEEDS"],
+        message: "Is required when SUI_PRICE_SOURCES includes pyth",
+      });
+    }
+  });
+
+/** 検証済みのSuiプラグイン設定 */
+export type SuiConfig = z.infer<typeof suiConfigSchema>;
+
+/** 設定スキーマが扱うキーの一覧 */
+export const SUI_CONFIG_KEYS = Object.keys(
+  suiConfigSchema.innerType().shape,
+) as (keyof SuiConfig)[];
+
+/**
+ * zodのエラーを、キー名ごとの読みやすいメッセージにまとめます。
+ * 入力値はメッセージに含めないため、秘密鍵が漏れることはありません。
+ *
+ * @param {z.ZodError} error - バリデーションエラー
+ * @returns {string} - 集約したエラーメッセージ
+ */
+export function formatConfigErrors(error: z.ZodError): string {
+  const lines = error.errors.map(
+    (issue) => `  - ${issue.path.join(".") || "(root)"}: ${issue.message}`,
+  );
+  return `Invalid plugin configuration:\n${lines.join("\n")}`;
+}
+
+/**
+ * 設定オブジェクトを検証します。失敗した場合は全てのエラーをまとめて投げます。
+ *
+ * @param {Record<string, unknown>} config - 生の設定値
+ * @returns {SuiConfig} - 検証済みの設定
+ */
+export function parseSuiConfig(config: Record<string, unknown>): SuiConfig {
+  const result = suiConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new Error(formatConfigErrors(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * ランタイムの設定（キャラクターのsettings/secretsや環境変数）から設定を読み込み、検証します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {SuiConfig} - 検証済みの設定
+ */
+export function getSuiConfig(runtime: IAgentRuntime): SuiConfig {
+  const raw: Record<string, unknown> = {};
+  for (const key of SUI_CONFIG_KEYS) {
+    raw[key] = runtime.getSetting(key) ?? undefined;
+  }
+  return parseSuiConfig(raw);
+}
+
+/** 値をログや環境変数に出してはならない設定キー */
+export const SUI_SECRET_CONFIG_KEYS = [
+  "SUI_PRIVATE_KEY",
+  "SUI_KEYSTORE_PASSPHRASE",
+  "SUI_HD_MNEMONIC",
+  "SUI_API_KEYS",
+  "SUI_API_TOKEN_SECRET",
+] as const satisfies readonly (keyof SuiConfig)[];
+
+/**
+ * ログに出力しても安全な形に設定を要約します（秘密鍵・パスフレーズ・ニーモニックは有無のみ）。
+ *
+ * @param {SuiConfig} config - 検証済みの設定
+ * @returns {Record<string, unknown>} - ログ用の要約
+ */
+export function redactSuiConfig(config: SuiConfig): Record<string, unknown> {
+  const redacted: Record<string, unknown> = { ...config };
+  for (const key of SUI_SECRET_CONFIG_KEYS) {
+    redacted[key] = config[key] ? "[set]" : "[unset]";
+  }
+  return redacted;
+}
@@ -0,0 +1,103 @@
+// ElizaOSコアから型をインポートします。
+import type { IAgentRuntime, Memory } from "@elizaos/core";
+import {
+  type SuiChatRequest,
+  getChatRequest,
+  rememberChatRequest,
+} from "./intent.ts";
+
+/** 確認待ちトランザクションの有効期間（ミリ秒） */
+export const PENDING_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * ユーザーの確認を待っている操作です。
+ * 署名前にチャットで内容を提示し、次のメッセージで承認されたら実行します。
+ */
+export interface PendingConfirmation<T = Record<string, unknown>> {
+  action: string; // 確認後に実行するアクション名
+  params: T; // 実行時に再構築するためのパラメータ（JSONに変換可能な値）
+  summary: string; // ユーザーに提示した内容
+  chatRequest?: SuiChatRequest; // 依頼のメッセージから解析した内容（監査ログ用）
+  createdAt: number; // 作成時刻
+  expiresAt: number; // 有効期限
+}
+
+// 確認・取り消しとみなす返信（日本語にも対応）
+const CONFIRM_PATTERN =
+  /^\s*(yes|y|confirm|confirmed|ok|okay|approve|go ahead|proceed|はい|確認|実行|承認|お願いします)[\s.!。！]*$/i;
+const CANCEL_PATTERN =
+  /^\s*(no|n|cancel|stop|abort|reject|いいえ|キャンセル|中止|やめて|取り消し)[\s.!。！]*$/i;
+
+/** メッセージが確認の返信かどうかを判定します */
+export function isConfirmation(text: string | undefined): boolean {
+  return CONFIRM_PATTERN.test(text ?? "");
+}
+
+/** メッセージが取り消しの返信かどうかを判定します */
+export function isCancellation(text: string | undefined): boolean {
+  return CANCEL_PATTERN.test(text ?? "");
+}
+
+// 確認待ちはエージェント・ルーム・ユーザーごとに1件だけ保持します
+function pendingKey(runtime: IAgentRuntime, message: Memory): string {
+  return `sui:pending:${runtime.agentId}:${message.roomId}:${message.entityId}`;
+}
+
+/**
+ * 確認待ちの操作を保存します。同じユーザーの既存の確認待ちは上書きされます。
+ * 依頼のメッセージから解析した内容があれば一緒に保存します。
+ */
+export async function savePendingConfirmation<T>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  action: string,
+  params: T,
+  summary: string,
+): Promise<PendingConfirmation<T>> {
+  const now = Date.now();
+  const pending: PendingConfirmation<T> = {
+    action,
+    params,
+    summary,
+    chatRequest: getChatRequest(message) ?? undefined,
+    createdAt: now,
+    expiresAt: now + PENDING_TTL_MS,
+  };
+  await runtime.setCache(pendingKey(runtime, message), pending);
+  return pending;
+}
+
+/**
+ * 指定したアクションの確認待ちを取得します。期限切れや別アクションのものは無視します。
+ * 保存した依頼の解析内容は確認のメッセージに結び付けます。
+ */
+export async function getPendingConfirmation<T>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  action: string,
+): Promise<PendingConfirmation<T> | null> {
+  const pending = await runtime.getCache<PendingConfirmation<T>>(
+    pendingKey(runtime, message),
+  );
+  if (!pending || pending.action !== action) {
+    return null;
+  }
+  if (pending.expiresAt < Date.now()) {
+    await clearPendingConfirmation(runtime, message);
+    return null;
+  }
+  if (pending.chatRequest) {
+    rememberChatRequest(message, pending.chatRequest);
+  }
+  return pending;
+}
+
+/**
+ * 確認待ちを削除します。
+ */
+export async function clearPendingConfirmation(
+  runtime: IAgentRuntime,
+  message: Memory,
+): Promise<void> {
+  await runtime.deleteCache(pendingKey(runtime, message));
+}
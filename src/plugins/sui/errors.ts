@@ -0,0 +1,102 @@
+// ElizaOSコアからアクション結果の型とロガーをインポートします。
+import { type ActionResult, logger } from "@elizaos/core";
+
+/**
+ * Suiアクションが返すエラーコードの一覧です。
+ * ActionResultの`values.error`に格納され、呼び出し側が失敗理由を判別できるようにします。
+ */
+export const SuiErrorCode = {
+  WALLET_UNAVAILABLE: "WALLET_UNAVAILABLE", // サービス未起動、または署名鍵が未設定
+  READ_ONLY: "READ_ONLY", // 読み取り専用モードのため署名できない
+  INVALID_RECIPIENT: "INVALID_RECIPIENT", // 送金先アドレスが不正
+  NAME_NOT_FOUND: "NAME_NOT_FOUND", // SuiNS名がアドレスに解決できない
+  INVALID_AMOUNT: "INVALID_AMOUNT", // 金額が不正
+  UNKNOWN_COIN_TYPE: "UNKNOWN_COIN_TYPE", // コインタイプを特定できない
+  INSUFFICIENT_BALANCE: "INSUFFICIENT_BALANCE", // 残高不足
+  SPENDING_LIMIT_EXCEEDED: "SPENDING_LIMIT_EXCEEDED", // 1回あたりの送金上限を超過
+  DAILY_LIMIT_EXCEEDED: "DAILY_LIMIT_EXCEEDED", // 24時間あたりの支出上限を超過
+  RECIPIENT_DENIED: "RECIPIENT_DENIED", // 送金先が拒否リストに含まれる
+  RECIPIENT_NOT_ALLOWED: "RECIPIENT_NOT_ALLOWED", // 送金先が許可リストに含まれない
+  PACKAGE_NOT_ALLOWED: "PACKAGE_NOT_ALLOWED", // Move呼び出し先のパッケージが許可リストに含まれない
+  GAS_BUDGET_EXCEEDED: "GAS_BUDGET_EXCEEDED", // ガス予算が上限を超過
+  DRY_RUN_FAILED: "DRY_RUN_FAILED", // ドライランが失敗
+  SPEND_INCREASED: "SPEND_INCREASED", // 署名直前のドライランで、支出・受取人が確認した内容より増えた
+  TRANSACTION_FAILED: "TRANSACTION_FAILED", // オンチェーンで実行が失敗
+  TRANSFER_FAILED: "TRANSFER_FAILED", // 送金処理中の予期しないエラー
+  INVALID_MOVE_TARGET: "INVALID_MOVE_TARGET", // Move関数が見つからない、または呼び出せない
+  INVALID_ARGUMENT: "INVALID_ARGUMENT", // Move関数の引数が型と一致しない
+  MOVE_CALL_FAILED: "MOVE_CALL_FAILED", // Move呼び出し処理中の予期しないエラー
+  INVALID_CURSOR: "INVALID_CURSOR", // ページネーション用カーソルが不正
+  HISTORY_FAILED: "HISTORY_FAILED", // 履歴取得中の予期しないエラー
+  NO_SWAP_QUOTE: "NO_SWAP_QUOTE", // どのアグリゲーターからも見積もりを得られない
+  SLIPPAGE_EXCEEDED: "SLIPPAGE_EXCEEDED", // ドライランの受取額が最低受取額を下回る
+  SWAP_FAILED: "SWAP_FAILED", // スワップ処理中の予期しないエラー
+  UNKNOWN_VALIDATOR: "UNKNOWN_VALIDATOR", // バリデーターを名前・アドレスから特定できない
+  STAKE_NOT_FOUND: "STAKE_NOT_FOUND", // 引き出すStakedSuiが見つからない
+  STAKING_FAILED: "STAKING_FAILED", // ステーキング処理中の予期しないエラー
+  OBJECT_NOT_FOUND: "OBJECT_NOT_FOUND", // 指定したオブジェクトをウォレットが所有していない、または特定できない
+  OBJECTS_FAILED: "OBJECTS_FAILED", // オブジェクトの一覧・送付中の予期しないエラー
+  APPROVAL_NOT_FOUND: "APPROVAL_NOT_FOUND", // 承認キューに指定したIDが存在しない
+  APPROVAL_NOT_PENDING: "APPROVAL_NOT_PENDING", // 承認・却下済みのため操作できない
+  APPROVAL_FAILED: "APPROVAL_FAILED", // 承認後の実行中の予期しないエラー
+  KEYSTORE_LOCKED: "KEYSTORE_LOCKED", // キーストアを開けない（パスフレーズの誤り、またはファイルの破損）
+  KEYSTORE_UNAVAILABLE: "KEYSTORE_UNAVAILABLE", // キーストアが未設定のため鍵を保存・更新できない
+  NOT_AUTHORIZED: "NOT_AUTHORIZED", // 管理者のみが実行できる操作、またはAPIルートに必要な役割が無い
+  KEY_ROTATION_FAILED: "KEY_ROTATION_FAILED", // 鍵の更新中の予期しないエラー
+  INVALID_TRANSACTION: "INVALID_TRANSACTION", // シリアライズされたトランザクションが無い、または解読できない
+  EXPLAIN_FAILED: "EXPLAIN_FAILED", // トランザクションの説明中の予期しないエラー
+  HANDOFF_FAILED: "HANDOFF_FAILED", // 引き継ぎ先のエージェントが見つからない、または引き継ぎ中の予期しないエラー
+  READ_FAILED: "READ_FAILED", // 読み取り用APIでの予期しないエラー
+  UNAUTHENTICATED: "UNAUTHENTICATED", // APIキー・トークンが無い、または検証できない
+} as const;
+
+export type SuiErrorCode = (typeof SuiErrorCode)[keyof typeof SuiErrorCode];
+
+/**
+ * エラーコードを伴うSuiアクションのエラーです。
+ * `details`はActionResultの`data`に含められ、呼び出し側が拒否理由を機械的に扱えるようにします。
+ */
+export class SuiActionError extends Error {
+  constructor(
+    public readonly code: SuiErrorCode,
+    message: string,
+    public readonly details?: Record<string, unknown>,
+  ) {
+    super(message);
+    this.name = "SuiActionError";
+  }
+}
+
+/**
+ * 例外をアクションの失敗結果に変換します。
+ * SuiActionErrorであればそのコードを、それ以外は`fallbackCode`を使います。
+ *
+ * @param {string} actionName - アクション名
+ * @param {unknown} error - 捕捉した例外
+ * @param {SuiErrorCode} fallbackCode - 想定外の例外に使うエラーコード
+ * @returns {ActionResult} - 失敗を表すアクション結果
+ */
+export function createErrorResult(
+  actionName: string,
+  error: unknown,
+  fallbackCode: SuiErrorCode,
+): ActionResult {
+  const code = error instanceof SuiActionError ? error.code : fallbackCode;
+  const message = error instanceof Error ? error.message : String(error);
+  logger.error({ error: message, code }, `Error in ${actionName} action:`);
+
+  return {
+    text: message,
+    values: {
+      success: false,
+      error: code,
+    },
+    data: {
+      actionName,
+      error: message,
+      ...(error instanceof SuiActionError ? error.details : undefined),
+    },
+    success: false,
+    error: error instanceof Error ? error : new Error(message),
+  };
+}
@@ -0,0 +1,477 @@
+// ElizaOSコアからサービス関連の型やモジュールをインポートします。
+import {
+  type EventPayload,
+  type IAgentRuntime,
+  Service,
+  type UUID,
+  logger,
+} from "@elizaos/core";
+import type {
+  EventId,
+  SuiEvent,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import { normalizeSuiAddress } from "@mysten/sui/utils";
+import { postToRoom } from "./approval.ts";
+import {
+  type SuiEventFilterSpec,
+  getSuiConfig,
+  parseEventFilterSpec,
+} from "./config.ts";
+import { SuiWalletService } from "./service.ts";
+import { coinSymbol, formatAmount, getCoinDecimals } from "./utils.ts";
+
+/** オンチェーンのイベントを受け取ったときにランタイムで発行するイベント名 */
+export const SUI_EVENT_RECEIVED = "SUI_EVENT_RECEIVED";
+
+/** 1回の問い合わせで取得する件数 */
+export const SUI_EVENT_PAGE_SIZE = 50;
+
+/** 1回のポーリングで読み進める最大ページ数（溜まっていた分は次回以降に続けて読みます） */
+export const SUI_EVENT_MAX_PAGES_PER_POLL = 5;
+
+// 通知に含めるイベント内容の最大文字数
+const NOTICE_DATA_LIMIT = 500;
+
+/**
+ * 購読の絞り込みに一致したオンチェーンのできごとです。
+ * Moveのイベントはkindがevent、ウォレット宛ての入金はkindがtransferになります。
+ */
+export interface SuiChainEvent {
+  id: string; // 重複排除用のID（イベントは"ダイジェスト:連番"、入金はダイジェスト）
+  kind: "event" | "transfer";
+  filter: string; // 一致した絞り込み（SUI_EVENT_FILTERSの項目）
+  digest: string; // 発生したトランザクション
+  timestampMs: number | null;
+  sender: string | null; // トランザクションの送信者
+  type: string | null; // Moveイベントの構造体タグ
+  parsedJson: unknown; // Moveイベントの内容
+  balanceChanges: { coinType: string; amount: string }[]; // 入金の場合、ウォレットが受け取った額（最小単位）
+}
+
+/**
+ * SUI_EVENT_RECEIVEDのペイロードです。
+ */
+export interface SuiEventPayload extends EventPayload {
+  event: SuiChainEvent;
+}
+
+// 絞り込みごとに保存する読み取り位置
+interface SuiEventCheckpoint {
+  cursor: EventId | string | null; // イベントのIDまたはトランザクションダイジェスト
+  updatedAt: number;
+}
+
+// 1ページ分の取得結果
+interface SuiEventPage {
+  events: SuiChainEvent[];
+  nextCursor: EventId | string | null;
+  hasNextPage: boolean;
+}
+
+// 読み取り位置のキャッシュキー（ネットワークと絞り込みごと、入金はアドレスごと）
+function checkpointKey(
+  runtime: IAgentRuntime,
+  wallet: SuiWalletService,
+  filter: SuiEventFilterSpec,
+): string {
+  const scope = filter.kind === "transfers" ? wallet.getAddress() : filter.spec;
+  return `sui:events:cursor:${runtime.agentId}:${wallet.getRpcUrl()}:${scope}`;
+}
+
+// フルノードのイベントを通知用の形に変換します
+function fromSuiEvent(
+  filter: SuiEventFilterSpec,
+  event: SuiEvent,
+  fallbackTimestamp?: string | null,
+): SuiChainEvent {
+  const timestamp = event.timestampMs ?? fallbackTimestamp;
+  return {
+    id: `${event.id.txDigest}:${event.id.eventSeq}`,
+    kind: "event",
+    filter: filter.spec,
+    digest: event.id.txDigest,
+    timestampMs: timestamp ? Number(timestamp) : null,
+    sender: event.sender,
+    type: event.type,
+    parsedJson: event.parsedJson,
+    balanceChanges: [],
+  };
+}
+
+// ウォレット宛てのトランザクションから、ウォレットが受け取った額を取り出します（自分が送ったものは除く）
+function fromIncomingTransaction(
+  filter: SuiEventFilterSpec,
+  address: string,
+  tx: SuiTransactionBlockResponse,
+): SuiChainEvent | null {
+  const sender = tx.transaction?.data.sender ?? null;
+  if (sender === address) return null;
+  const received = (tx.balanceChanges ?? [])
+    .filter(
+      (change) =>
+        typeof change.owner === "object" &&
+        "AddressOwner" in change.owner &&
+        change.owner.AddressOwner === address &&
+        BigInt(change.amount) > 0n,
+    )
+    .map((change) => ({ coinType: change.coinType, amount: change.amount }));
+  if (received.length === 0) return null;
+  return {
+    id: tx.digest,
+    kind: "transfer",
+    filter: filter.spec,
+    digest: tx.digest,
+    timestampMs: tx.timestampMs ? Number(tx.timestampMs) : null,
+    sender,
+    type: null,
+    parsedJson: null,
+    balanceChanges: received,
+  };
+}
+
+/**
+ * 絞り込みに一致するできごとを1ページ分取得します。
+ * パッケージの指定はそのパッケージを呼び出したトランザクションの中から、そのパッケージが発行したイベントを取り出します。
+ *
+ * @param {SuiWalletService} wallet - Suiウォレットサービス
+ * @param {SuiEventFilterSpec} filter - 絞り込み
+ * @param {EventId | string | null} cursor - 読み取り位置（この次から取得）
+ * @param {"ascending" | "descending"} order - 並び順
+ * @param {number} limit - 件数
+ * @returns {Promise<SuiEventPage>} - 取得結果
+ */
+async function fetchEventPage(
+  wallet: SuiWalletService,
+  filter: SuiEventFilterSpec,
+  cursor: EventId | string | null,
+  order: "ascending" | "descending",
+  limit: number,
+): Promise<SuiEventPage> {
+  if (filter.kind === "type" || filter.kind === "module") {
+    const page = await wallet.queryEvents({
+      filter:
+        filter.kind === "type"
+          ? { MoveEventType: filter.type as string }
+          : {
+              MoveEventModule: {
+                package: filter.packageId as string,
+                module: filter.module as string,
+              },
+            },
+      cursor: cursor as EventId | null,
+      limit,
+      order,
+    });
+    return {
+      events: page.data.map((event) => fromSuiEvent(filter, event)),
+      nextCursor: page.nextCursor ?? null,
+      hasNextPage: page.hasNextPage,
+    };
+  }
+
+  const address = wallet.getAddress();
+  const page = await wallet.queryTransactions({
+    filter:
+      filter.kind === "package"
+        ? { MoveFunction: { package: filter.packageId as string } }
+        : { ToAddress: address },
+    cursor: cursor as string | null,
+    limit,
+    order,
+    showEvents: filter.kind === "package",
+  });
+  const events =
+    filter.kind === "package"
+      ? page.data.flatMap((tx) =>
+          (tx.events ?? [])
+            .filter(
+              (event) =>
+                normalizeSuiAddress(event.packageId) === filter.packageId,
+            )
+            .map((event) => fromSuiEvent(filter, event, tx.timestampMs)),
+        )
+      : page.data.flatMap(
+          (tx) => fromIncomingTransaction(filter, address, tx) ?? [],
+        );
+  return {
+    events,
+    nextCursor: page.nextCursor ?? null,
+    hasNextPage: page.hasNextPage,
+  };
+}
+
+/**
+ * SUI_EVENT_FILTERSに一致するオンチェーンのできごとを定期的に問い合わせ、
+ * SUI_EVENT_RECEIVEDとしてランタイムのイベントに流すサービスです。
+ * 読み取り位置は絞り込みごとにキャッシュへ保存するため、再起動しても同じイベントを繰り返し流しません。
+ */
+export class SuiEventService extends Service {
+  static serviceType = "sui_events"; // サービスタイプ
+  capabilityDescription =
+    "Polls Sui for events matching SUI_EVENT_FILTERS and emits them as SUI_EVENT_RECEIVED runtime events."; // サービスの説明
+
+  private timer: ReturnType<typeof setTimeout> | null = null; // 次のポーリングのタイマー
+  private polling: Promise<number> | null = null; // 実行中のポーリング
+  private stopped = false;
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+  }
+
+  // サービスを開始する静的メソッド
+  static async start(runtime: IAgentRuntime) {
+    logger.info("*** Starting Sui event service ***");
+    // 既に登録済みであれば同じインスタンスを返します（冪等）
+    const existing = runtime.getService<SuiEventService>(
+      SuiEventService.serviceType,
+    );
+    if (existing) {
+      return existing;
+    }
+    const service = new SuiEventService(runtime);
+    const config = getSuiConfig(runtime);
+    if (config.SUI_EVENT_FILTERS.length === 0) {
+      logger.info("SUI_EVENT_FILTERS is not set; not polling Sui events");
+    } else {
+      logger.info(
+        {
+          filters: config.SUI_EVENT_FILTERS,
+          intervalMs: config.SUI_EVENT_POLL_INTERVAL_MS,
+        },
+        "Polling Sui events",
+      );
+      // 起動直後に読み取り位置を最新に合わせ、以降は一定間隔で問い合わせる
+      service.schedule(0, config.SUI_EVENT_POLL_INTERVAL_MS);
+    }
+    return service;
+  }
+
+  // サービスを停止する静的メソッド
+  static async stop(runtime: IAgentRuntime) {
+    logger.info("*** Stopping Sui event service ***");
+    const service = runtime.getService(SuiEventService.serviceType);
+    if (!service) {
+      // 既に停止済みの場合は何もしません（冪等）
+      logger.debug("Sui event service is not running");
+      return;
+    }
+    await service.stop();
+  }
+
+  // サービスインスタンスを停止するメソッド（実行中のポーリングは読み取り位置の保存まで待ちます）
+  async stop() {
+    logger.info("*** Stopping Sui event service instance ***");
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.polling?.catch(() => undefined);
+  }
+
+  // 指定した時間の後にポーリングし、終わったら次を予約します（前回が終わる前に重ならないように）
+  private schedule(delayMs: number, intervalMs: number) {
+    if (this.stopped) return;
+    this.timer = setTimeout(async () => {
+      await this.pollOnce();
+      this.schedule(intervalMs, intervalMs);
+    }, delayMs);
+    // タイマーだけでプロセスを終了させないようにする
+    this.timer.unref?.();
+  }
+
+  /**
+   * 全ての絞り込みを1回ずつ問い合わせ、新しいできごとをSUI_EVENT_RECEIVEDとして発行します。
+   * 読み取り位置が未保存の絞り込みは、過去のイベントを流さずに最新の位置を保存するだけにします。
+   * 実行中に呼ばれた場合は、実行中のポーリングの完了を待ちます。
+   *
+   * @returns {Promise<number>} - 発行したできごとの件数
+   */
+  async pollOnce(): Promise<number> {
+    if (!this.polling) {
+      this.polling = this.pollFilters().finally(() => {
+        this.polling = null;
+      });
+    }
+    return this.polling;
+  }
+
+  private async pollFilters(): Promise<number> {
+    const wallet = this.runtime.getService<SuiWalletService>(
+      SuiWalletService.serviceType,
+    );
+    if (!wallet) {
+      logger.debug("Sui wallet service is not running; skipping event poll");
+      return 0;
+    }
+    const config = getSuiConfig(this.runtime);
+    let emitted = 0;
+    for (const spec of config.SUI_EVENT_FILTERS) {
+      const filter = parseEventFilterSpec(spec) as SuiEventFilterSpec;
+      // 入金の絞り込みはウォレットのアドレスが必要
+      if (filter.kind === "transfers" && !wallet.hasSigner()) continue;
+      try {
+        emitted += await this.pollFilter(wallet, filter);
+      } catch (error) {
+        // 問い合わせに失敗した絞り込みは読み取り位置を進めず、次回に再試行する
+        logger.warn(
+          {
+            filter: filter.spec,
+            error: error instanceof Error ? error.message : String(error),
+          },
+          "Could not poll Sui events",
+        );
+      }
+    }
+    return emitted;
+  }
+
+  private async pollFilter(
+    wallet: SuiWalletService,
+    filter: SuiEventFilterSpec,
+  ): Promise<number> {
+    const key = checkpointKey(this.runtime, wallet, filter);
+    const checkpoint = await this.runtime.getCache<SuiEventCheckpoint>(key);
+    if (!checkpoint) {
+      const latest = await fetchEventPage(
+        wallet,
+        filter,
+        null,
+        "descending",
+        1,
+      );
+      await this.runtime.setCache<SuiEventCheckpoint>(key, {
+        cursor: latest.nextCursor,
+        updatedAt: Date.now(),
+      });
+      logger.info(
+        { filter: filter.spec, cursor: latest.nextCursor },
+        "Started Sui event subscription from the latest event",
+      );
+      return 0;
+    }
+
+    let cursor = checkpoint.cursor;
+    let emitted = 0;
+    for (let page = 0; page < SUI_EVENT_MAX_PAGES_PER_POLL; page++) {
+      const result = await fetchEventPage(
+        wallet,
+        filter,
+        cursor,
+        "ascending",
+        SUI_EVENT_PAGE_SIZE,
+      );
+      for (const event of result.events) {
+        await this.emit(event);
+        emitted++;
+      }
+      // ページを流し終えてから読み取り位置を保存する（途中で止まった場合は再起動後にそのページを再送します）
+      if (result.nextCursor) {
+        cursor = result.nextCursor;
+        await this.runtime.setCache<SuiEventCheckpoint>(key, {
+          cursor,
+          updatedAt: Date.now(),
+        });
+      }
+      if (!result.hasNextPage || this.stopped) break;
+    }
+    return emitted;
+  }
+
+  private async emit(event: SuiChainEvent) {
+    try {
+      await this.runtime.emitEvent(SUI_EVENT_RECEIVED, {
+        runtime: this.runtime,
+        source: "sui",
+        event,
+      } satisfies SuiEventPayload);
+    } catch (error) {
+      // 受け手の失敗で購読全体が止まらないよう、記録して次へ進む
+      logger.error(
+        {
+          id: event.id,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "SUI_EVENT_RECEIVED handler failed",
+      );
+    }
+  }
+}
+
+// アドレスを先頭と末尾だけの短い形にします
+function shortAddress(address: string): string {
+  return address.length > 14
+    ? `${address.slice(0, 6)}...${address.slice(-4)}`
+    : address;
+}
+
+/**
+ * 受け取ったできごとを、ルームに投稿する通知文にします。
+ *
+ * @param {SuiChainEvent} event - できごと
+ * @param {SuiWalletService | null} wallet - 入金額の小数桁数を調べるウォレットサービス
+ * @returns {Promise<string>} - 通知文
+ */
+export async function formatSuiEventNotice(
+  event: SuiChainEvent,
+  wallet: SuiWalletService | null,
+): Promise<string> {
+  const from = event.sender ? ` from ${shortAddress(event.sender)}` : "";
+  if (event.kind === "transfer") {
+    const amounts: string[] = [];
+    for (const change of event.balanceChanges) {
+      let amount = `${change.amount} (raw)`;
+      if (wallet) {
+        try {
+          amount = formatAmount(
+            change.amount,
+            await getCoinDecimals(wallet, change.coinType),
+          );
+        } catch {
+          // メタデータが無いコインは最小単位のまま表示する
+        }
+      }
+      amounts.push(`${amount} ${coinSymbol(change.coinType)}`);
+    }
+    return [
+      `Received ${amounts.join(", ")}${from}`,
+      `Digest: ${event.digest}`,
+    ].join("\n");
+  }
+
+  const data = JSON.stringify(event.parsedJson ?? {});
+  return [
+    `Sui event ${event.type ?? "(unknown type)"}${from}`,
+    `Data: ${data.length > NOTICE_DATA_LIMIT ? `${data.slice(0, NOTICE_DATA_LIMIT)}...` : data}`,
+    `Digest: ${event.digest}`,
+  ].join("\n");
+}
+
+/**
+ * SUI_EVENT_RECEIVEDを受けて、SUI_EVENT_ROOM_IDSの各ルームに通知を投稿します。
+ *
+ * @param {SuiEventPayload} payload - イベントのペイロード
+ */
+export async function postSuiEventNotice(
+  payload: SuiEventPayload,
+): Promise<void> {
+  const { runtime, event } = payload;
+  const rooms = getSuiConfig(runtime).SUI_EVENT_ROOM_IDS as UUID[];
+  if (rooms.length === 0) return;
+
+  const wallet = runtime.getService<SuiWalletService>(
+    SuiWalletService.serviceType,
+  );
+  const text = await formatSuiEventNotice(event, wallet);
+  for (const roomId of rooms) {
+    const room = await runtime.getRoom(roomId);
+    if (!room) {
+      logger.warn({ roomId }, "Sui event room was not found; skipping notice");
+      continue;
+    }
+    await postToRoom(
+      runtime,
+      { roomId, source: room.source },
+      { text, suiEvent: event },
+    );
+  }
+}
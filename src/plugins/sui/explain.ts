@@ -0,0 +1,490 @@
+import { bcs } from "@mysten/sui/bcs";
+import type {
+  DryRunTransactionBlockResponse,
+  SuiObjectChange,
+} from "@mysten/sui/client";
+import {
+  type Argument,
+  Transaction,
+  type TransactionData,
+} from "@mysten/sui/transactions";
+import {
+  SUI_DECIMALS,
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+} from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { type AddressNames, formatAddress } from "./names.ts";
+import type { SuiWalletService } from "./service.ts";
+import {
+  SUI_COIN_TYPE,
+  coinSymbol,
+  formatAmount,
+  getCoinDecimals,
+  totalGasUsed,
+} from "./utils.ts";
+
+/** 既知として扱うシステムパッケージ（Move標準ライブラリ、Sui Framework、Sui System） */
+export const SYSTEM_PACKAGES = ["0x1", "0x2", "0x3"].map((pkg) =>
+  normalizeSuiAddress(pkg),
+);
+
+/** 残高のほぼ全てを手放すとみなす割合（残高に対する支出の割合） */
+export const DRAIN_RATIO = 0.95;
+
+/**
+ * 説明に添えるリスクの種類です。
+ */
+export const TxRiskCode = {
+  UNKNOWN_PACKAGE: "UNKNOWN_PACKAGE", // システムパッケージでも信頼済みでもないパッケージを呼び出す
+  DRAINS_BALANCE: "DRAINS_BALANCE", // ガスコインごと、または残高のほぼ全てを手放す
+  SENDS_TO_OTHERS: "SENDS_TO_OTHERS", // 送り主以外のアドレスがコインやオブジェクトを受け取る
+  PUBLISHES_PACKAGE: "PUBLISHES_PACKAGE", // パッケージを公開・更新する
+  FOREIGN_SENDER: "FOREIGN_SENDER", // 送り主がこのウォレットではない
+  HIGH_GAS_BUDGET: "HIGH_GAS_BUDGET", // ガス予算がSUI_GAS_BUDGET_MAXを超える
+  DRY_RUN_FAILED: "DRY_RUN_FAILED", // ドライランが失敗し、実行しても失敗する
+} as const;
+
+export type TxRiskCode = (typeof TxRiskCode)[keyof typeof TxRiskCode];
+
+/** 説明に添えるリスク */
+export interface TxRiskFlag {
+  code: TxRiskCode;
+  message: string;
+}
+
+/**
+ * トランザクションを解読・ドライランした結果です。
+ */
+export interface TxExplanation {
+  sender: string; // 送り主のアドレス
+  isOwnWallet: boolean; // 送り主がこのウォレットか
+  commands: string[]; // コマンドごとの説明
+  packages: string[]; // 呼び出すパッケージ（正規化済み）
+  calls: string[]; // 呼び出すMove関数
+  dryRun: {
+    success: boolean;
+    error: string | null;
+    gasUsed: string; // 最小単位
+  };
+  balanceChanges: { owner: string; coinType: string; amount: string }[]; // 残高変化（最小単位、アドレス所有のみ）
+  objectChanges: {
+    created: number;
+    mutated: number;
+    deleted: number;
+    wrapped: number;
+    published: number;
+  };
+  objectsSent: { objectId: string; objectType: string; recipient: string }[]; // 送り主以外が受け取るオブジェクト（コインを除く）
+  risks: TxRiskFlag[];
+  names: AddressNames; // 送り主と受取人の逆引きしたSuiNS名
+}
+
+// 32文字以上の連続したbase64をトランザクションのバイト列の候補とします
+const TRANSACTION_BYTES_PATTERN = /[A-Za-z0-9+/]{32,}={0,2}/g;
+
+/**
+ * メッセージ本文からbase64でシリアライズされたトランザクションを取り出します。
+ * 0xで始まる16進数（アドレスやオブジェクトID）は除き、複数の候補がある場合は最も長いものを選びます。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {string | null} - base64の文字列（見つからなければnull）
+ */
+export function extractTransactionBytes(text: string): string | null {
+  const candidates = (text.match(TRANSACTION_BYTES_PATTERN) ?? []).filter(
+    (candidate) => !/^0x[0-9a-fA-F]+$/.test(candidate),
+  );
+  const longest = candidates.sort((a, b) => b.length - a.length)[0];
+  return longest ?? null;
+}
+
+/**
+ * シリアライズされたトランザクションを解読します。
+ * 送り主やガスを含むTransactionDataのほか、コマンドだけのTransactionKindも受け付けます。
+ *
+ * @param {string} serialized - base64のバイト列
+ * @returns {Transaction} - 解読したトランザクション
+ */
+export function decodeTransaction(serialized: string): Transaction {
+  try {
+    return Transaction.from(fromBase64(serialized));
+  } catch {
+    try {
+      return Transaction.fromKind(serialized);
+    } catch (error) {
+      throw new SuiActionError(
+        SuiErrorCode.INVALID_TRANSACTION,
+        `Could not decode the transaction bytes: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+}
+
+// 入力のPure値をBCSの型で読み取ります（読めなければnull）
+function readPure<T>(
+  data: TransactionData,
+  argument: Argument,
+  parse: (bytes: Uint8Array) => T,
+): T | null {
+  if (argument.$kind !== "Input") return null;
+  const input = data.inputs[argument.Input];
+  if (input?.$kind !== "Pure") return null;
+  try {
+    return parse(fromBase64(input.Pure.bytes));
+  } catch {
+    return null;
+  }
+}
+
+// 引数を人が読める形にします
+function describeArgument(
+  data: TransactionData,
+  argument: Argument,
+  names: AddressNames,
+): string {
+  switch (argument.$kind) {
+    case "GasCoin":
+      return "the gas coin";
+    case "Result":
+      return `the result of command ${argument.Result + 1}`;
+    case "NestedResult":
+      return `result ${argument.NestedResult[1] + 1} of command ${argument.NestedResult[0] + 1}`;
+    case "Input": {
+      const input = data.inputs[argument.Input];
+      const objectId =
+        input?.Object?.ImmOrOwnedObject?.objectId ??
+        input?.Object?.SharedObject?.objectId ??
+        input?.Object?.Receiving?.objectId ??
+        input?.UnresolvedObject?.objectId;
+      if (objectId) return `object ${objectId}`;
+      const address = readPure(data, argument, (bytes) =>
+        bcs.Address.parse(bytes),
+      );
+      if (address) return formatAddress(address, names);
+      return `input ${argument.Input + 1}`;
+    }
+    default:
+      return "an unknown argument";
+  }
+}
+
+/**
+ * トランザクションのコマンドを1行ずつ平易な英語で説明します。
+ *
+ * @param {TransactionData} data - トランザクションの内容
+ * @param {AddressNames} names - 逆引きしたSuiNS名
+ * @returns {string[]} - コマンドごとの説明
+ */
+export function describeCommands(
+  data: TransactionData,
+  names: AddressNames = {},
+): string[] {
+  const describe = (argument: Argument) =>
+    describeArgument(data, argument, names);
+  return data.commands.map((command) => {
+    switch (command.$kind) {
+      case "MoveCall": {
+        const call = command.MoveCall;
+        const typeArguments =
+          call.typeArguments.length > 0
+            ? `<${call.typeArguments.join(", ")}>`
+            : "";
+        return `Call ${normalizeSuiAddress(call.package)}::${call.module}::${call.function}${typeArguments} with ${call.arguments.length} argument(s)`;
+      }
+      case "TransferObjects":
+        return `Transfer ${command.TransferObjects.objects.map(describe).join(", ")} to ${describe(command.TransferObjects.address)}`;
+      case "SplitCoins": {
+        const { coin, amounts } = command.SplitCoins;
+        const isGas = coin.$kind === "GasCoin";
+        const values = amounts.map((amount) => {
+          const raw = readPure(data, amount, (bytes) => bcs.u64().parse(bytes));
+          if (raw === null) return describe(amount);
+          return isGas
+            ? `${formatAmount(raw, SUI_DECIMALS)} SUI`
+            : `${raw} base units`;
+        });
+        return `Split ${values.join(", ")} from ${describe(coin)}`;
+      }
+      case "MergeCoins":
+        return `Merge ${command.MergeCoins.sources.map(describe).join(", ")} into ${describe(command.MergeCoins.destination)}`;
+      case "Publish":
+        return `Publish a new package with ${command.Publish.modules.length} module(s)`;
+      case "Upgrade":
+        return `Upgrade package ${normalizeSuiAddress(command.Upgrade.package)}`;
+      case "MakeMoveVec":
+        return `Make a vector of ${command.MakeMoveVec.elements.length} element(s)`;
+      default:
+        return `Run a ${command.$kind} command`;
+    }
+  });
+}
+
+// Coin<T>オブジェクトか（コインの移動は残高変化で説明するため、オブジェクトの送付からは除く）
+function isCoinObject(objectType: string): boolean {
+  try {
+    return normalizeStructTag(objectType).startsWith(
+      `${normalizeSuiAddress("0x2")}::coin::Coin<`,
+    );
+  } catch {
+    return false;
+  }
+}
+
+// 変更のあったオブジェクトの新しい所有者アドレス（アドレス所有でなければnull）
+function changeRecipient(change: SuiObjectChange): string | null {
+  const owner =
+    change.type === "transferred"
+      ? change.recipient
+      : "owner" in change
+        ? change.owner
+        : null;
+  return owner && typeof owner === "object" && "AddressOwner" in owner
+    ? owner.AddressOwner
+    : null;
+}
+
+/**
+ * トランザクションをドライランし、内容の説明とリスクをまとめます。署名はしません。
+ *
+ * @param {SuiWalletService} service - ドライランに使うSuiウォレットサービス
+ * @param {Transaction} tx - 解読したトランザクション
+ * @param {{ trustedPackages: string[]; walletAddress: string | null }} options - 信頼済みのパッケージと、このウォレットのアドレス
+ * @returns {Promise<TxExplanation>} - 説明
+ */
+export async function explainTransaction(
+  service: SuiWalletService,
+  tx: Transaction,
+  options: { trustedPackages: string[]; walletAddress: string | null },
+): Promise<TxExplanation> {
+  const data = tx.getData();
+  // コマンドだけのトランザクションはこのウォレットから送るものとしてドライランする
+  const sender = normalizeSuiAddress(
+    data.sender ?? options.walletAddress ?? "0x0",
+  );
+  tx.setSenderIfNotSet(sender);
+  const isOwnWallet =
+    options.walletAddress !== null &&
+    sender === normalizeSuiAddress(options.walletAddress);
+
+  const calls = data.commands.flatMap((command) =>
+    command.$kind === "MoveCall"
+      ? [
+          `${normalizeSuiAddress(command.MoveCall.package)}::${command.MoveCall.module}::${command.MoveCall.function}`,
+        ]
+      : [],
+  );
+  const packages = [...new Set(calls.map((call) => call.split("::")[0]))];
+
+  let dryRun: DryRunTransactionBlockResponse | null = null;
+  let dryRunError: string | null = null;
+  try {
+    dryRun = await service.dryRunTransaction(tx);
+    if (dryRun.effects.status.status !== "success") {
+      dryRunError = dryRun.effects.status.error ?? "unknown error";
+    }
+  } catch (error) {
+    dryRunError = error instanceof Error ? error.message : String(error);
+  }
+
+  const balanceChanges = (dryRun?.balanceChanges ?? []).flatMap((change) =>
+    typeof change.owner === "object" && "AddressOwner" in change.owner
+      ? [
+          {
+            owner: normalizeSuiAddress(change.owner.AddressOwner),
+            coinType: normalizeStructTag(change.coinType),
+            amount: change.amount,
+          },
+        ]
+      : [],
+  );
+  const objectChanges = {
+    created: 0,
+    mutated: 0,
+    deleted: 0,
+    wrapped: 0,
+    published: 0,
+  };
+  const objectsSent: TxExplanation["objectsSent"] = [];
+  for (const change of dryRun?.objectChanges ?? []) {
+    if (change.type in objectChanges) {
+      objectChanges[change.type as keyof typeof objectChanges]++;
+    }
+    const recipient = changeRecipient(change);
+    if (
+      recipient &&
+      normalizeSuiAddress(recipient) !== sender &&
+      "objectType" in change &&
+      !isCoinObject(change.objectType)
+    ) {
+      objectsSent.push({
+        objectId: change.objectId,
+        objectType: change.objectType,
+        recipient: normalizeSuiAddress(recipient),
+      });
+    }
+  }
+
+  const risks: TxRiskFlag[] = [];
+  const known = new Set([
+    ...SYSTEM_PACKAGES,
+    ...options.trustedPackages.map((pkg) => normalizeSuiAddress(pkg)),
+  ]);
+  for (const pkg of packages) {
+    if (!known.has(pkg)) {
+      risks.push({
+        code: TxRiskCode.UNKNOWN_PACKAGE,
+        message: `Calls package ${pkg}, which is not a Sui system package or on the trusted package list`,
+      });
+    }
+  }
+  if (
+    data.commands.some((command) =>
+      ["Publish", "Upgrade"].includes(command.$kind),
+    )
+  ) {
+    risks.push({
+      code: TxRiskCode.PUBLISHES_PACKAGE,
+      message: "Publishes or upgrades a Move package",
+    });
+  }
+  const transfersGasCoin = data.commands.some(
+    (command) =>
+      command.$kind === "TransferObjects" &&
+      command.TransferObjects.objects.some(
+        (object) => object.$kind === "GasCoin",
+      ),
+  );
+  if (transfersGasCoin) {
+    risks.push({
+      code: TxRiskCode.DRAINS_BALANCE,
+      message:
+        "Transfers the whole gas coin, which usually holds all of the sender's SUI",
+    });
+  }
+  // 送り主の支出が残高のほぼ全てになるコインを探す（ガスコインの送付で報告済みのSUIは除く）
+  for (const change of balanceChanges) {
+    if (change.owner !== sender || BigInt(change.amount) >= 0n) continue;
+    if (transfersGasCoin && change.coinType === SUI_COIN_TYPE) continue;
+    const spent = -BigInt(change.amount);
+    const balance = BigInt(
+      (await service.getBalance(change.coinType, sender)).totalBalance,
+    );
+    if (balance > 0n && Number(spent) >= Number(balance) * DRAIN_RATIO) {
+      const decimals = await getCoinDecimals(service, change.coinType);
+      risks.push({
+        code: TxRiskCode.DRAINS_BALANCE,
+        message: `Spends ${formatAmount(spent, decimals)} of the sender's ${formatAmount(balance, decimals)} ${coinSymbol(change.coinType)}`,
+      });
+    }
+  }
+  const receivers = [
+    ...new Set([
+      ...balanceChanges
+        .filter(
+          (change) => change.owner !== sender && BigInt(change.amount) > 0n,
+        )
+        .map((change) => change.owner),
+      ...objectsSent.map((object) => object.recipient),
+    ]),
+  ];
+  if (receivers.length > 0) {
+    risks.push({
+      code: TxRiskCode.SENDS_TO_OTHERS,
+      message: `Sends coins or objects to ${receivers.join(", ")}`,
+    });
+  }
+  if (!isOwnWallet) {
+    risks.push({
+      code: TxRiskCode.FOREIGN_SENDER,
+      message: `The sender ${sender} is not this wallet`,
+    });
+  }
+  const budget = data.gasData.budget;
+  const maxBudget = service.getConfig().SUI_GAS_BUDGET_MAX;
+  if (
+    budget != null &&
+    maxBudget !== undefined &&
+    BigInt(budget) > BigInt(maxBudget)
+  ) {
+    risks.push({
+      code: TxRiskCode.HIGH_GAS_BUDGET,
+      message: `Gas budget of ${formatAmount(BigInt(budget), SUI_DECIMALS)} SUI exceeds the configured maximum of ${formatAmount(BigInt(maxBudget), SUI_DECIMALS)} SUI`,
+    });
+  }
+  if (dryRunError !== null) {
+    risks.push({
+      code: TxRiskCode.DRY_RUN_FAILED,
+      message: `The dry run failed, so executing it would fail too: ${dryRunError}`,
+    });
+  }
+
+  const names = await service
+    .getNameResolver()
+    .lookupAddresses([sender, ...receivers]);
+  return {
+    sender,
+    isOwnWallet,
+    commands: describeCommands(data, names),
+    packages,
+    calls,
+    dryRun: {
+      success: dryRunError === null,
+      error: dryRunError,
+      gasUsed: dryRun ? totalGasUsed(dryRun.effects.gasUsed).toString() : "0",
+    },
+    balanceChanges,
+    objectChanges,
+    objectsSent,
+    risks,
+    names,
+  };
+}
+
+/**
+ * 説明をチャットに返すテキストに整形します。
+ *
+ * @param {SuiWalletService} service - 小数桁の取得に使うSuiウォレットサービス
+ * @param {TxExplanation} explanation - 説明
+ * @returns {Promise<string>} - 平易な説明
+ */
+export async function formatExplanation(
+  service: SuiWalletService,
+  explanation: TxExplanation,
+): Promise<string> {
+  const { names } = explanation;
+  const balanceLines: string[] = [];
+  for (const change of explanation.balanceChanges) {
+    const decimals = await getCoinDecimals(service, change.coinType);
+    const amount = formatAmount(change.amount, decimals);
+    balanceLines.push(
+      `- ${formatAddress(change.owner, names)}${change.owner === explanation.sender ? " (sender)" : ""}: ${amount.startsWith("-") ? amount : `+${amount}`} ${coinSymbol(change.coinType)}`,
+    );
+  }
+  const { created, mutated, deleted, wrapped, published } =
+    explanation.objectChanges;
+
+  return [
+    `Transaction from ${formatAddress(explanation.sender, names)}${explanation.isOwnWallet ? " (this wallet)" : ""}:`,
+    ...explanation.commands.map((command, index) => `${index + 1}. ${command}`),
+    `Packages called: ${explanation.packages.length > 0 ? explanation.packages.join(", ") : "none"}`,
+    explanation.dryRun.success
+      ? `Dry run: would succeed, using about ${formatAmount(explanation.dryRun.gasUsed, SUI_DECIMALS)} SUI of gas`
+      : `Dry run: would fail (${explanation.dryRun.error})`,
+    ...(balanceLines.length > 0
+      ? ["Coins moved:", ...balanceLines]
+      : ["Coins moved: none"]),
+    `Objects: ${created} created, ${mutated} mutated, ${deleted} deleted, ${wrapped} wrapped, ${published} published`,
+    ...explanation.objectsSent.map(
+      (object) =>
+        `- ${object.objectType} ${object.objectId} goes to ${formatAddress(object.recipient, names)}`,
+    ),
+    ...(explanation.risks.length > 0
+      ? [
+          "Risk flags:",
+          ...explanation.risks.map((risk) => `- ${risk.code}: ${risk.message}`),
+        ]
+      : ["Risk flags: none found"]),
+    "Nothing was signed. Only sign transactions you expected and understand.",
+  ].join("\n");
+}
@@ -0,0 +1,341 @@
+// ElizaOSコアから型とプロンプト・JSON解析のユーティリティをインポートします。
+import {
+  type IAgentRuntime,
+  type Memory,
+  ModelType,
+  composePrompt,
+  logger,
+} from "@elizaos/core";
+// zodをインポートして、モデルの出力を検証します。
+import { z } from "zod";
+import { getSuiConfig } from "./config.ts";
+
+/** モデルが分類するSuiの依頼の種類 */
+export const SUI_INTENTS = [
+  "transfer",
+  "transfer_object",
+  "swap",
+  "stake",
+  "unstake",
+  "list_stakes",
+  "list_objects",
+  "history",
+  "move_call",
+  "my_address",
+  "balance",
+  "unknown",
+] as const;
+
+/** Suiの依頼の種類 */
+export type SuiIntentName = (typeof SUI_INTENTS)[number];
+
+// 空文字や"null"はnullとして扱います（モデルは未指定をさまざまな形で返すため）
+const emptyToNull = (value: unknown) =>
+  value === undefined ||
+  value === "" ||
+  (typeof value === "string" && value.trim().toLowerCase() === "null")
+    ? null
+    : value;
+
+const optionalText = z.preprocess(
+  emptyToNull,
+  z.string().trim().min(1).nullable(),
+);
+
+/**
+ * モデルの出力スキーマです。項目が足りない・型が違う場合は検証エラーとしてモデルに再試行させます。
+ */
+export const suiIntentSchema = z.object({
+  intent: z.enum(SUI_INTENTS),
+  amount: z.preprocess(
+    (value) => (typeof value === "number" ? String(value) : emptyToNull(value)),
+    z
+      .string()
+      .trim()
+      .regex(/^\d+(\.\d+)?$/, "Must be a decimal number such as 10 or 2.5")
+      .nullable(),
+  ),
+  coinType: optionalText,
+  toCoinType: optionalText,
+  recipient: optionalText,
+  validator: optionalText,
+  object: optionalText,
+  structType: optionalText,
+  period: optionalText,
+  call: optionalText,
+  limit: z.preprocess(
+    emptyToNull,
+    z.coerce.number().int().positive().max(50).nullable(),
+  ),
+  all: z.boolean().default(false),
+  more: z.boolean().default(false),
+});
+
+/** チャットから抽出したSuiの依頼内容 */
+export type SuiIntent = z.infer<typeof suiIntentSchema>;
+
+/**
+ * 依頼内容を抽出するプロンプトのテンプレートです。
+ * {{text}}にメッセージ本文、{{feedback}}に前回の出力が却下された理由が入ります。
+ */
+export const suiIntentTemplate = `# Task: Extract the Sui wallet command from the user's message.
+
+The message may be written in English or Japanese. Copy addresses, SuiNS names (like alice.sui), object IDs, coin types and numbers exactly as they appear in the message. Never invent a value the message does not contain; use null instead.
+
+Message:
+"""
+{{text}}
+"""
+
+Respond with only a JSON object with these keys:
+- "intent": one of ${SUI_INTENTS.map((intent) => `"${intent}"`).join(", ")}
+  - transfer: send coins; transfer_object: send an NFT or other object; swap: exchange one coin for another
+  - stake / unstake / list_stakes: staking with validators; list_objects: show owned NFTs or objects
+  - history: past transactions; move_call: call a Move function; my_address: the user's deposit address; balance: coin balances
+- "amount": the amount as a plain decimal string such as "1.5" (full-width digits converted), or null
+- "coinType": the coin to send, sell or stake, as its symbol (e.g. "SUI", "USDC") or full coin type, or null
+- "toCoinType": for swaps, the coin to buy, or null
+- "recipient": the recipient's 0x address or SuiNS name, or null
+- "validator": the validator name or address for staking, or the validator or StakedSui ID to unstake from, or null
+- "object": the object ID or NFT name to send, or null
+- "structType": for list_objects, the Move type to filter by (e.g. "capy::Capy"), or null
+- "period": for history, the time range in English such as "today", "yesterday", "last 3 days" or "past 12 hours", or null
+- "call": for move_call, the call written as 0xPACKAGE::module::function<TypeArgs>(args), or null
+- "limit": how many transactions or objects to show, or null
+- "all": true when the user wants everything (e.g. unstake all), otherwise false
+- "more": true when the user asks for the next page or more results, otherwise false
+{{feedback}}`;
+
+/**
+ * 抽出したコインの指定を、正規表現による解析と同じ形（シンボルは大文字、コインタイプはそのまま）に揃えます。
+ *
+ * @param {string | null} coin - シンボルまたはコインタイプ
+ * @returns {string | undefined} - 揃えたコインの指定（未指定ならundefined）
+ */
+export function intentCoin(coin: string | null): string | undefined {
+  if (!coin) return undefined;
+  return coin.includes("::") ? coin : coin.toUpperCase();
+}
+
+/**
+ * メッセージから依頼内容をモデルで抽出します。
+ * 出力がJSONでない・スキーマに合わない場合は、理由を添えてSUI_INTENT_MAX_ATTEMPTS回まで再試行します。
+ * 抽出できなかった場合やSUI_INTENT_PARSERがregexの場合はnullを返し、呼び出し側は正規表現による解析に戻ります。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 依頼のメッセージ
+ * @returns {Promise<SuiIntent | null>} - 抽出した依頼内容
+ */
+export async function extractSuiIntent(
+  runtime: IAgentRuntime,
+  message: Memory,
+): Promise<SuiIntent | null> {
+  const text = message.content.text?.trim();
+  const config = getSuiConfig(runtime);
+  if (
+    !text ||
+    config.SUI_INTENT_PARSER !== "llm" ||
+    typeof runtime.useModel !== "function"
+  ) {
+    return null;
+  }
+
+  let feedback = "";
+  for (let attempt = 1; attempt <= config.SUI_INTENT_MAX_ATTEMPTS; attempt++) {
+    const prompt = composePrompt({
+      state: { text, feedback },
+      template: suiIntentTemplate,
+    });
+    let raw: string;
+    try {
+      raw = await runtime.useModel(ModelType[config.SUI_INTENT_MODEL], {
+        prompt,
+        temperature: 0,
+      });
+    } catch (error) {
+      // モデルが登録されていない・呼び出しに失敗した場合は再試行しない
+      logger.warn(
+        { error: error instanceof Error ? error.message : String(error) },
+        "Sui intent model call failed; falling back to pattern parsing",
+      );
+      return null;
+    }
+
+    const json = parseReplyObject(String(raw ?? ""));
+    const parsed = json ? suiIntentSchema.safeParse(json) : null;
+    if (parsed?.success) {
+      return groundSuiIntent(parsed.data, text);
+    }
+    const reason = parsed
+      ? parsed.error.issues
+          .map(
+            (issue) => `${issue.path.join(".") || "reply"}: ${issue.message}`,
+          )
+          .join("; ")
+      : "the reply was not a JSON object";
+    logger.debug({ attempt, reason }, "Sui intent reply rejected");
+    feedback = `\nYour previous reply was rejected (${reason}). Reply again with only the JSON object.`;
+  }
+
+  logger.warn(
+    { attempts: config.SUI_INTENT_MAX_ATTEMPTS },
+    "Could not extract a Sui intent; falling back to pattern parsing",
+  );
+  return null;
+}
+
+// 応答からJSONオブジェクトを取り出します。コードフェンスや前後の文章は無視します
+// （コアのparseJSONObjectFromTextは値を文字列に変えてしまうため、型を検証できるようにここで解析します）
+function parseReplyObject(raw: string): unknown {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end < start) return null;
+  try {
+    const value = JSON.parse(raw.slice(start, end + 1));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? value
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// 比較用に全角文字・大文字小文字・桁区切りの違いを揃えます
+function normalizeForMatch(value: string): string {
+  return value.normalize("NFKC").toLowerCase().replace(/,/g, "");
+}
+
+// 本文に単独で現れる数値を返します（16進数のIDや、他の数値の一部は含めません）
+function numericTokens(normalized: string): string[] {
+  return normalized.replace(/0x[0-9a-f]+/g, " ").match(/\d+(?:\.\d+)?/g) ?? [];
+}
+
+/**
+ * モデルが本文に無い値を作り出していないかを確認し、本文に見当たらない値をnullにします。
+ * 送金先・金額・16進数のID（オブジェクトID、アドレス、コインタイプ、呼び出し先のパッケージ）が対象です。
+ * 金額は、"10"の中の"1"のように他の数値の一部として現れるだけでは裏付けとみなしません。
+ *
+ * @param {SuiIntent} intent - モデルが抽出した依頼内容
+ * @param {string} text - メッセージ本文
+ * @returns {SuiIntent} - 本文で裏付けられた依頼内容
+ */
+export function groundSuiIntent(intent: SuiIntent, text: string): SuiIntent {
+  const haystack = normalizeForMatch(text);
+  const appears = (value: string) =>
+    haystack.includes(normalizeForMatch(value));
+  const hexAppears = (value: string) =>
+    (value.match(/0x[0-9a-fA-F]+/g) ?? []).every(appears);
+  const amounts = new Set(numericTokens(haystack));
+
+  const grounded: SuiIntent = {
+    ...intent,
+    amount:
+      intent.amount && amounts.has(normalizeForMatch(intent.amount))
+        ? intent.amount
+        : null,
+    recipient:
+      intent.recipient && appears(intent.recipient) ? intent.recipient : null,
+  };
+  for (const key of [
+    "coinType",
+    "toCoinType",
+    "validator",
+    "object",
+    "structType",
+    "call",
+  ] as const) {
+    const value = grounded[key];
+    if (value && !hexAppears(value)) grounded[key] = null;
+  }
+
+  const dropped = Object.keys(intent).filter(
+    (key) =>
+      intent[key as keyof SuiIntent] !== grounded[key as keyof SuiIntent],
+  );
+  if (dropped.length > 0) {
+    logger.warn(
+      { dropped },
+      "Ignored Sui intent values that do not appear in the message",
+    );
+  }
+  return grounded;
+}
+
+/**
+ * 依頼のメッセージから解析した内容です。
+ * 確認待ち・承認キューに引き継いで監査ログに残し、署名したトランザクションがどの発言をどう解釈したものかを辿れるようにします。
+ */
+export interface SuiChatRequest {
+  messageId: string | null; // 依頼のメッセージ
+  text: string; // 依頼の本文
+  intent: SuiIntent | null; // モデルが抽出した依頼内容（抽出しなかった場合はnull）
+  request: Record<string, unknown>; // アクションが受け付けた依頼（モデルと正規表現の結果を合わせたもの）
+}
+
+// メッセージごとに解析した依頼を保持します（メッセージ自体は書き換えません）
+const chatRequests = new WeakMap<Memory, SuiChatRequest>();
+
+/**
+ * メッセージに解析した依頼を結び付けます。確認の返信や承認後の再開など、依頼とは別のメッセージで署名するときに使います。
+ *
+ * @param {Memory} message - 署名のきっかけになるメッセージ
+ * @param {SuiChatRequest} request - 解析した依頼
+ */
+export function rememberChatRequest(
+  message: Memory,
+  request: SuiChatRequest,
+): void {
+  chatRequests.set(message, request);
+}
+
+/**
+ * メッセージに結び付けた、解析した依頼を返します。
+ *
+ * @param {Memory} message - メッセージ
+ * @returns {SuiChatRequest | null} - 解析した依頼（チャットの依頼から来ていなければnull）
+ */
+export function getChatRequest(message: Memory): SuiChatRequest | null {
+  return chatRequests.get(message) ?? null;
+}
+
+/**
+ * アクションが受け付ける依頼を、モデルの抽出結果と正規表現による解析を組み合わせて作ります。
+ * モデルが同じ種類の依頼と判断した場合はその値を優先し、モデルが埋めなかった項目は正規表現の結果で補います。
+ * 結果はメッセージに結び付け、監査ログに残せるようにします。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 依頼のメッセージ
+ * @param {readonly SuiIntentName[]} intents - アクションが扱う依頼の種類
+ * @param {(intent: SuiIntent) => Partial<T>} fromIntent - 抽出結果をアクションの依頼に変換する関数
+ * @param {(text: string) => T} parse - 正規表現による解析
+ * @returns {Promise<T>} - アクションの依頼
+ */
+export async function resolveSuiRequest<T extends object>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  intents: readonly SuiIntentName[],
+  fromIntent: (intent: SuiIntent) => Partial<T>,
+  parse: (text: string) => T,
+): Promise<T> {
+  const text = message.content.text ?? "";
+  const parsed = parse(text);
+  const intent = await extractSuiIntent(runtime, message);
+  const request =
+    !intent || !intents.includes(intent.intent)
+      ? parsed
+      : {
+          ...parsed,
+          ...Object.fromEntries(
+            Object.entries(fromIntent(intent)).filter(
+              ([, value]) => value !== undefined,
+            ),
+          ),
+        };
+  rememberChatRequest(message, {
+    messageId: message.id ?? null,
+    text,
+    intent,
+    request: { ...request } as Record<string, unknown>,
+  });
+  return request;
+}
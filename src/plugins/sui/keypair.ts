@@ -0,0 +1,105 @@
+// Sui SDKから鍵ペア関連のモジュールをインポートします。
+import {
+  type Keypair,
+  SIGNATURE_FLAG_TO_SCHEME,
+  SIGNATURE_SCHEME_TO_FLAG,
+  SUI_PRIVATE_KEY_PREFIX,
+  decodeSuiPrivateKey,
+} from "@mysten/sui/cryptography";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { Secp256k1Keypair } from "@mysten/sui/keypairs/secp256k1";
+import { Secp256r1Keypair } from "@mysten/sui/keypairs/secp256r1";
+import { fromBase64 } from "@mysten/sui/utils";
+
+/**
+ * 設定文字列から鍵ペアを復元します。
+ * bech32形式（suiprivkey...）と、Sui CLIのkeystoreと同じbase64形式（フラグ1バイト + 秘密鍵32バイト、
+ * またはフラグなしのEd25519秘密鍵32バイト）の両方に対応します。
+ *
+ * @param {string} secret - 秘密鍵の文字列
+ * @returns {Keypair} - 復元した鍵ペア
+ */
+export function loadKeypair(secret: string): Keypair {
+  const value = secret.trim();
+
+  if (value.startsWith(SUI_PRIVATE_KEY_PREFIX)) {
+    const { scheme, secretKey } = decodeSuiPrivateKey(value);
+    return keypairFromScheme(scheme, secretKey);
+  }
+
+  const bytes = fromBase64(value);
+  try {
+    return keypairFromBytes(bytes);
+  } finally {
+    bytes.fill(0);
+  }
+}
+
+/**
+ * Sui CLIのkeystoreと同じバイト列（フラグ1バイト + 秘密鍵32バイト、またはフラグなしのEd25519秘密鍵32バイト）から鍵ペアを復元します。
+ *
+ * @param {Uint8Array} bytes - 秘密鍵のバイト列
+ * @returns {Keypair} - 復元した鍵ペア
+ */
+export function keypairFromBytes(bytes: Uint8Array): Keypair {
+  // 呼び出し側が元のバイト列を消去できるよう、必ずコピーを渡す（Bufferのsliceはコピーではなく参照になる）
+  if (bytes.length === 33) {
+    // 先頭1バイトは署名スキームのフラグ
+    const scheme =
+      SIGNATURE_FLAG_TO_SCHEME[
+        bytes[0] as keyof typeof SIGNATURE_FLAG_TO_SCHEME
+      ];
+    return keypairFromScheme(scheme, Uint8Array.from(bytes.subarray(1)));
+  }
+  if (bytes.length === 32) {
+    return Ed25519Keypair.fromSecretKey(Uint8Array.from(bytes));
+  }
+  throw new Error(
+    `Unsupported private key length: expected 32 or 33 bytes, got ${bytes.length}`,
+  );
+}
+
+/**
+ * 鍵ペアをSui CLIのkeystoreと同じバイト列（フラグ1バイト + 秘密鍵32バイト）に変換します。
+ * 呼び出し側は使い終わったバイト列をfill(0)で消去してください。
+ *
+ * @param {Keypair} keypair - 鍵ペア
+ * @returns {Uint8Array} - 33バイトの秘密鍵
+ */
+export function keypairToBytes(keypair: Keypair): Uint8Array {
+  const { scheme, secretKey } = decodeSuiPrivateKey(keypair.getSecretKey());
+  const bytes = new Uint8Array(1 + secretKey.length);
+  bytes[0] = SIGNATURE_SCHEME_TO_FLAG[scheme];
+  bytes.set(secretKey, 1);
+  secretKey.fill(0);
+  return bytes;
+}
+
+/**
+ * 鍵ペアが内部に保持している秘密鍵のバイト列を0で上書きします。
+ * Sui SDKの鍵ペアはいずれも`keypair.secretKey`に秘密鍵を保持しているため、それを直接消去します。
+ * 消去後の鍵ペアでは署名できません。
+ *
+ * @param {Keypair} keypair - 破棄する鍵ペア
+ */
+export function zeroizeKeypair(keypair: Keypair): void {
+  const data = (keypair as unknown as { keypair?: { secretKey?: unknown } })
+    .keypair;
+  if (data?.secretKey instanceof Uint8Array) {
+    data.secretKey.fill(0);
+  }
+}
+
+// 署名スキーム名から対応する鍵ペアクラスを選択します
+function keypairFromScheme(scheme: string, secretKey: Uint8Array): Keypair {
+  switch (scheme) {
+    case "ED25519":
+      return Ed25519Keypair.fromSecretKey(secretKey);
+    case "Secp256k1":
+      return Secp256k1Keypair.fromSecretKey(secretKey);
+    case "Secp256r1":
+      return Secp256r1Keypair.fromSecretKey(secretKey);
+    default:
+      throw new Error(`Unsupported key scheme: ${scheme}`);
+  }
+}
@@ -0,0 +1,345 @@
+// Node.jsの暗号・ファイル操作モジュールとSui SDKの鍵ペア関連モジュールをインポートします。
+import {
+  type BinaryLike,
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scrypt,
+} from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { Keypair } from "@mysten/sui/cryptography";
+import { fromBase64, normalizeSuiAddress } from "@mysten/sui/utils";
+// zodをインポートして、キーストアファイルの形式を検証します。
+import { z } from "zod";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { keypairFromBytes, keypairToBytes, zeroizeKeypair } from "./keypair.ts";
+
+/** キーストアファイルの形式のバージョン */
+export const KEYSTORE_VERSION = 1;
+
+/**
+ * 鍵の暗号化に使うscryptのパラメータの既定値です（N=2^15, r=8, p=1）。
+ * テストでは小さいNを指定して高速化できます。
+ */
+export const DEFAULT_SCRYPT_PARAMS = { n: 2 ** 15, r: 8, p: 1 };
+
+/** scryptのパラメータ */
+export type ScryptParams = typeof DEFAULT_SCRYPT_PARAMS;
+
+const hex = z.string().regex(/^[0-9a-f]*$/, "Must be hex");
+
+// 暗号化した鍵1つ分の形式
+const encryptedKeySchema = z.object({
+  address: z.string(),
+  createdAt: z.number(),
+  kdf: z.literal("scrypt"),
+  kdfparams: z.object({
+    n: z.number().int().positive(),
+    r: z.number().int().positive(),
+    p: z.number().int().positive(),
+    salt: hex,
+  }),
+  cipher: z.literal("aes-256-gcm"),
+  iv: hex,
+  tag: hex,
+  ciphertext: hex,
+});
+
+// キーストアファイル全体の形式
+const keystoreFileSchema = z.object({
+  version: z.literal(KEYSTORE_VERSION),
+  active: encryptedKeySchema,
+  retired: z
+    .array(encryptedKeySchema.extend({ retiredAt: z.number() }))
+    .default([]),
+});
+
+/**
+ * パスフレーズで暗号化した鍵です。平文の鍵はSui CLIのkeystoreと同じ33バイト（フラグ + 秘密鍵）で、
+ * アドレスを追加認証データとしてAES-256-GCMで暗号化します。
+ */
+export type EncryptedKey = z.infer<typeof encryptedKeySchema>;
+
+/**
+ * キーストアファイルの内容です。署名に使う鍵（active）と、鍵の更新で退役した鍵（retired）を保持します。
+ * 退役した鍵も旧アドレスに残った資産を取り出せるよう暗号化したまま残します。
+ */
+export type KeystoreFile = z.infer<typeof keystoreFileSchema>;
+
+// scryptでパスフレーズから32バイトの鍵を導出します
+function deriveKey(
+  passphrase: BinaryLike,
+  salt: Buffer,
+  { n, r, p }: ScryptParams,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      salt,
+      32,
+      { N: n, r, p, maxmem: 256 * n * r },
+      (error, key) => (error ? reject(error) : resolve(key)),
+    );
+  });
+}
+
+/**
+ * 鍵ペアをパスフレーズで暗号化します。
+ *
+ * @param {Keypair} keypair - 暗号化する鍵ペア
+ * @param {BinaryLike} passphrase - パスフレーズ
+ * @param {ScryptParams} params - scryptのパラメータ
+ * @returns {Promise<EncryptedKey>} - 暗号化した鍵
+ */
+export async function encryptKey(
+  keypair: Keypair,
+  passphrase: BinaryLike,
+  params: ScryptParams = DEFAULT_SCRYPT_PARAMS,
+): Promise<EncryptedKey> {
+  const address = keypair.toSuiAddress();
+  const salt = randomBytes(32);
+  const iv = randomBytes(12);
+  const key = await deriveKey(passphrase, salt, params);
+  const plaintext = keypairToBytes(keypair);
+  try {
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(Buffer.from(address));
+    const ciphertext = Buffer.concat([
+      cipher.update(plaintext),
+      cipher.final(),
+    ]);
+    return {
+      address,
+      createdAt: Date.now(),
+      kdf: "scrypt",
+      kdfparams: { ...params, salt: salt.toString("hex") },
+      cipher: "aes-256-gcm",
+      iv: iv.toString("hex"),
+      tag: cipher.getAuthTag().toString("hex"),
+      ciphertext: ciphertext.toString("hex"),
+    };
+  } finally {
+    plaintext.fill(0);
+    key.fill(0);
+  }
+}
+
+/**
+ * 暗号化した鍵をパスフレーズで復号します。
+ * パスフレーズの誤りや改ざん（アドレスの書き換えを含む）はKEYSTORE_LOCKEDになります。
+ *
+ * @param {EncryptedKey} entry - 暗号化した鍵
+ * @param {BinaryLike} passphrase - パスフレーズ
+ * @returns {Promise<Keypair>} - 復号した鍵ペア
+ */
+export async function decryptKey(
+  entry: EncryptedKey,
+  passphrase: BinaryLike,
+): Promise<Keypair> {
+  const key = await deriveKey(
+    passphrase,
+    Buffer.from(entry.kdfparams.salt, "hex"),
+    entry.kdfparams,
+  );
+  let plaintext: Buffer | null = null;
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      key,
+      Buffer.from(entry.iv, "hex"),
+    );
+    decipher.setAAD(Buffer.from(entry.address));
+    decipher.setAuthTag(Buffer.from(entry.tag, "hex"));
+    plaintext = Buffer.concat([
+      decipher.update(Buffer.from(entry.ciphertext, "hex")),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new SuiActionError(
+      SuiErrorCode.KEYSTORE_LOCKED,
+      `Could not unlock the key for ${entry.address}: wrong passphrase or corrupted keystore`,
+      { address: entry.address },
+    );
+  } finally {
+    key.fill(0);
+  }
+
+  try {
+    const keypair = keypairFromBytes(plaintext);
+    if (keypair.toSuiAddress() !== entry.address) {
+      zeroizeKeypair(keypair);
+      throw new SuiActionError(
+        SuiErrorCode.KEYSTORE_LOCKED,
+        `The keystore entry does not match its address ${entry.address}`,
+        { address: entry.address },
+      );
+    }
+    return keypair;
+  } finally {
+    plaintext.fill(0);
+  }
+}
+
+/**
+ * キーストアファイルを読み込みます。ファイルが無ければnullを返します。
+ *
+ * @param {string} path - キーストアファイルのパス
+ * @returns {Promise<KeystoreFile | null>} - キーストアの内容
+ */
+export async function readKeystore(path: string): Promise<KeystoreFile | null> {
+  let raw: string;
+  try {
+    raw = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+  const parsed = keystoreFileSchema.safeParse(JSON.parse(raw));
+  if (!parsed.success) {
+    throw new SuiActionError(
+      SuiErrorCode.KEYSTORE_LOCKED,
+      `${path} is not a valid keystore file`,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * キーストアファイルを書き込みます。一時ファイルに書いてから置き換えるため、途中で失敗しても元のファイルは壊れません。
+ * ファイルは所有者のみ読み書きできる権限（0600）で作成します。
+ *
+ * @param {string} path - キーストアファイルのパス
+ * @param {KeystoreFile} keystore - 書き込む内容
+ */
+export async function writeKeystore(
+  path: string,
+  keystore: KeystoreFile,
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const temporary = `${path}.${process.pid}.tmp`;
+  await writeFile(temporary, `${JSON.stringify(keystore, null, 2)}\n`, {
+    mode: 0o600,
+  });
+  await rename(temporary, path);
+}
+
+/**
+ * Sui CLIのkeystore（~/.sui/sui_config/sui.keystore）を読み込みます。
+ * 中身はbase64形式（フラグ1バイト + 秘密鍵32バイト）の文字列のJSON配列です。
+ *
+ * @param {string} path - sui.keystoreのパス
+ * @returns {Promise<Keypair[]>} - 含まれる鍵ペア
+ */
+export async function readSuiCliKeystore(path: string): Promise<Keypair[]> {
+  const entries = JSON.parse(await readFile(path, "utf8"));
+  if (
+    !Array.isArray(entries) ||
+    !entries.every((entry) => typeof entry === "string")
+  ) {
+    throw new SuiActionError(
+      SuiErrorCode.KEYSTORE_UNAVAILABLE,
+      `${path} is not a Sui CLI keystore (expected a JSON array of base64 keys)`,
+    );
+  }
+  return entries.map((entry: string) => {
+    const bytes = fromBase64(entry);
+    try {
+      return keypairFromBytes(bytes);
+    } finally {
+      bytes.fill(0);
+    }
+  });
+}
+
+/**
+ * 起動時にキーストアを開くための指定です。
+ */
+export interface KeystoreOptions {
+  path: string; // キーストアファイルのパス
+  passphrase: BinaryLike; // パスフレーズ
+  importPath?: string; // キーストアが無い場合に取り込むsui.keystoreのパス
+  importAddress?: string; // sui.keystoreから取り込むアドレス（未指定なら先頭）
+  scrypt?: ScryptParams; // 新しく暗号化する場合のscryptのパラメータ
+}
+
+/**
+ * キーストアを開き、署名に使う鍵ペアを復号します。
+ * ファイルが無くsui.keystoreの取り込みが指定されている場合は、その鍵を暗号化して新しいキーストアを作成します。
+ *
+ * @param {KeystoreOptions} options - キーストアの指定
+ * @returns {Promise<{ keypair: Keypair; keystore: KeystoreFile }>} - 復号した鍵ペアとキーストアの内容
+ */
+export async function openKeystore(
+  options: KeystoreOptions,
+): Promise<{ keypair: Keypair; keystore: KeystoreFile }> {
+  const existing = await readKeystore(options.path);
+  if (existing) {
+    return {
+      keypair: await decryptKey(existing.active, options.passphrase),
+      keystore: existing,
+    };
+  }
+  if (!options.importPath) {
+    throw new SuiActionError(
+      SuiErrorCode.KEYSTORE_UNAVAILABLE,
+      `Keystore ${options.path} does not exist; set SUI_KEYSTORE_IMPORT to import a key from sui.keystore`,
+    );
+  }
+
+  const keypairs = await readSuiCliKeystore(options.importPath);
+  const wanted = options.importAddress
+    ? normalizeSuiAddress(options.importAddress)
+    : undefined;
+  const keypair = wanted
+    ? keypairs.find((candidate) => candidate.toSuiAddress() === wanted)
+    : keypairs[0];
+  // 取り込まない鍵はすぐに消去する
+  for (const other of keypairs) {
+    if (other !== keypair) zeroizeKeypair(other);
+  }
+  if (!keypair) {
+    throw new SuiActionError(
+      SuiErrorCode.KEYSTORE_UNAVAILABLE,
+      wanted
+        ? `${options.importPath} has no key for ${wanted}`
+        : `${options.importPath} has no keys`,
+    );
+  }
+
+  const keystore: KeystoreFile = {
+    version: KEYSTORE_VERSION,
+    active: await encryptKey(keypair, options.passphrase, options.scrypt),
+    retired: [],
+  };
+  await writeKeystore(options.path, keystore);
+  return { keypair, keystore };
+}
+
+/**
+ * 新しい鍵を署名用の鍵としてキーストアに保存し、それまでの鍵を退役させます。
+ *
+ * @param {string} path - キーストアファイルのパス
+ * @param {KeystoreFile} keystore - 現在のキーストアの内容
+ * @param {Keypair} next - 新しい鍵ペア
+ * @param {BinaryLike} passphrase - パスフレーズ
+ * @returns {Promise<KeystoreFile>} - 保存したキーストアの内容
+ */
+export async function rotateKeystore(
+  path: string,
+  keystore: KeystoreFile,
+  next: Keypair,
+  passphrase: BinaryLike,
+): Promise<KeystoreFile> {
+  const { n, r, p } = keystore.active.kdfparams;
+  const rotated: KeystoreFile = {
+    version: KEYSTORE_VERSION,
+    active: await encryptKey(next, passphrase, { n, r, p }),
+    retired: [
+      ...keystore.retired,
+      { ...keystore.active, retiredAt: Date.now() },
+    ],
+  };
+  await writeKeystore(path, rotated);
+  return rotated;
+}
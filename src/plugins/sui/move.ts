@@ -0,0 +1,406 @@
+// Sui SDKからBCSとMoveの型定義をインポートします。
+import { type PureTypeName, pureBcsSchemaFromTypeName } from "@mysten/sui/bcs";
+import type { SuiMoveNormalizedType } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  fromBase64,
+  isValidSuiAddress,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  toBase64,
+} from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import type { SuiIntent } from "./intent.ts";
+
+/** チャットから受け取った引数の値（文字列、または入れ子の配列） */
+export type MoveArgumentValue = string | MoveArgumentValue[];
+
+/**
+ * チャットから抽出したMove呼び出しリクエストです。
+ */
+export interface MoveCallRequest {
+  target?: string; // "0xPACKAGE::module::function"
+  typeArguments: string[]; // 型引数（例: ["0x2::sui::SUI"]）
+  arguments: MoveArgumentValue[]; // 未変換の引数
+}
+
+/**
+ * BCSへの変換を済ませた引数です。確認待ちの間キャッシュに保存できるよう、JSONに変換可能な形にしています。
+ */
+export type PreparedMoveArgument =
+  | { kind: "pure"; type: string; bytes: string } // BCSエンコード済みの値（base64）
+  | { kind: "object"; objectId: string }; // オブジェクトID
+
+/**
+ * Move呼び出しトランザクションを構築するためのパラメータです。
+ */
+export type MoveCallParams = {
+  target: string; // 正規化済みの呼び出し先
+  typeArguments: string[]; // 正規化済みの型引数
+  arguments: PreparedMoveArgument[]; // 変換済みの引数
+};
+
+// 呼び出し先（パッケージ::モジュール::関数）にマッチする正規表現
+const TARGET_PATTERN = /(0x[0-9a-fA-F]{1,64})::(\w+)::(\w+)/;
+// pureな値として渡せるプリミティブ型
+const PRIMITIVE_TYPES = new Set([
+  "bool",
+  "u8",
+  "u16",
+  "u32",
+  "u64",
+  "u128",
+  "u256",
+  "address",
+]);
+// 整数型のビット数
+const INTEGER_BITS: Record<string, number> = {
+  u8: 8,
+  u16: 16,
+  u32: 32,
+  u64: 64,
+  u128: 128,
+  u256: 256,
+};
+
+// 開き括弧の位置から、対応する閉じ括弧までの中身を取り出します
+function readEnclosed(
+  text: string,
+  start: number,
+): { inner: string; end: number } | null {
+  const open = text[start];
+  const close = open === "<" ? ">" : open === "(" ? ")" : "]";
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === "\\") i++;
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if (char === open) depth++;
+    else if (char === close && --depth === 0) {
+      return { inner: text.slice(start + 1, i), end: i + 1 };
+    }
+  }
+  return null;
+}
+
+// 括弧や引用符の内側を無視して、トップレベルのカンマで分割します
+function splitTopLevel(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      current += char;
+      if (char === "\\") current += text[++i] ?? "";
+      else if (char === quote) quote = null;
+      continue;
+    }
+    if (char === '"' || char === "'") quote = char;
+    else if ("[<(".includes(char)) depth++;
+    else if ("]>)".includes(char)) depth--;
+    if (char === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+// 1つの引数を文字列または配列として解釈します
+function parseArgumentValue(token: string): MoveArgumentValue {
+  const quoted = token.match(/^(["'])([\s\S]*)\1$/);
+  if (quoted) {
+    return quoted[2].replace(/\\(.)/g, "$1");
+  }
+  if (token.startsWith("[") && token.endsWith("]")) {
+    return splitTopLevel(token.slice(1, -1)).map(parseArgumentValue);
+  }
+  return token;
+}
+
+// 型引数を正規化します（プリミティブ型はそのまま）
+function normalizeTypeArgument(type: string): string {
+  const trimmed = type.trim();
+  return trimmed.includes("::") ? normalizeStructTag(trimmed) : trimmed;
+}
+
+/**
+ * メッセージ本文からMove呼び出しを抽出します。
+ * `0xPACKAGE::module::function<型引数>(引数, ...)`の形式を受け付け、
+ * 文字列は引用符で、vectorは`[...]`で指定できます。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {MoveCallRequest} - 抽出結果
+ */
+export function parseMoveCallRequest(text: string): MoveCallRequest {
+  const match = TARGET_PATTERN.exec(text);
+  if (!match) {
+    return { typeArguments: [], arguments: [] };
+  }
+
+  let position = match.index + match[0].length;
+  let typeArguments: string[] = [];
+  let args: MoveArgumentValue[] = [];
+
+  const typeList = text[position] === "<" ? readEnclosed(text, position) : null;
+  if (typeList) {
+    typeArguments = splitTopLevel(typeList.inner);
+    position = typeList.end;
+  }
+  while (text[position] === " ") position++;
+  const argList = text[position] === "(" ? readEnclosed(text, position) : null;
+  if (argList) {
+    args = splitTopLevel(argList.inner).map(parseArgumentValue);
+  }
+
+  return { target: match[0], typeArguments, arguments: args };
+}
+
+/**
+ * モデルが抽出した依頼内容をMove呼び出しリクエストに変換します。
+ * モデルが書き直した呼び出し（0xPACKAGE::module::function<...>(...)）を同じ規則で解析します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<MoveCallRequest>} - 抽出できた項目
+ */
+export function moveCallRequestFromIntent(
+  intent: SuiIntent,
+): Partial<MoveCallRequest> {
+  const request = parseMoveCallRequest(intent.call ?? "");
+  return request.target ? request : {};
+}
+
+// 構造体が指定したアドレス・モジュール・名前かどうかを判定します
+function isStruct(
+  type: SuiMoveNormalizedType,
+  address: string,
+  module: string,
+  name: string,
+): type is {
+  Struct: Extract<SuiMoveNormalizedType, { Struct: unknown }>["Struct"];
+} {
+  return (
+    typeof type === "object" &&
+    "Struct" in type &&
+    normalizeSuiAddress(type.Struct.address) === normalizeSuiAddress(address) &&
+    type.Struct.module === module &&
+    type.Struct.name === name
+  );
+}
+
+/**
+ * 引数の型がTxContext（実行時に自動で渡される引数）かどうかを判定します。
+ *
+ * @param {SuiMoveNormalizedType} type - 引数の型
+ * @returns {boolean} - TxContextへの参照であればtrue
+ */
+export function isTxContext(type: SuiMoveNormalizedType): boolean {
+  if (typeof type !== "object") return false;
+  const inner =
+    "Reference" in type
+      ? type.Reference
+      : "MutableReference" in type
+        ? type.MutableReference
+        : null;
+  return !!inner && isStruct(inner, "0x2", "tx_context", "TxContext");
+}
+
+/**
+ * Moveの型を、pureな値として渡す場合のBCS型名に変換します。
+ * オブジェクトとして渡す必要がある型の場合はnullを返します。
+ *
+ * @param {SuiMoveNormalizedType} type - 引数の型
+ * @param {string[]} typeArguments - 型パラメータに当てはめる型引数
+ * @returns {string | null} - BCS型名（例: "u64", "vector<u8>"）
+ */
+export function toPureTypeName(
+  type: SuiMoveNormalizedType,
+  typeArguments: string[],
+): string | null {
+  if (typeof type === "string") {
+    if (type === "Signer") {
+      throw new SuiActionError(
+        SuiErrorCode.INVALID_MOVE_TARGET,
+        "Functions taking a signer cannot be called from a transaction",
+      );
+    }
+    return type.toLowerCase();
+  }
+  if ("Vector" in type) {
+    const inner = toPureTypeName(type.Vector, typeArguments);
+    if (!inner) {
+      throw new SuiActionError(
+        SuiErrorCode.INVALID_ARGUMENT,
+        "Vectors of objects are not supported as arguments",
+      );
+    }
+    return `vector<${inner}>`;
+  }
+  if ("TypeParameter" in type) {
+    const typeArgument = typeArguments[type.TypeParameter];
+    return typeArgument && PRIMITIVE_TYPES.has(typeArgument)
+      ? typeArgument
+      : null;
+  }
+  if (
+    isStruct(type, "0x1", "string", "String") ||
+    isStruct(type, "0x1", "ascii", "String")
+  ) {
+    return "string";
+  }
+  if (isStruct(type, "0x2", "object", "ID")) {
+    return "id";
+  }
+  if (isStruct(type, "0x1", "option", "Option")) {
+    const inner = toPureTypeName(type.Struct.typeArguments[0], typeArguments);
+    return inner ? `option<${inner}>` : null;
+  }
+  return null;
+}
+
+/**
+ * 引数の型を読みやすい文字列にします（エラーメッセージや確認内容に使います）。
+ *
+ * @param {SuiMoveNormalizedType} type - 引数の型
+ * @returns {string} - 例: "&mut 0x2::coin::Coin<T0>"
+ */
+export function formatMoveType(type: SuiMoveNormalizedType): string {
+  if (typeof type === "string") return type.toLowerCase();
+  if ("Vector" in type) return `vector<${formatMoveType(type.Vector)}>`;
+  if ("TypeParameter" in type) return `T${type.TypeParameter}`;
+  if ("Reference" in type) return `&${formatMoveType(type.Reference)}`;
+  if ("MutableReference" in type) {
+    return `&mut ${formatMoveType(type.MutableReference)}`;
+  }
+  const { address, module, name, typeArguments } = type.Struct;
+  const generics =
+    typeArguments.length > 0
+      ? `<${typeArguments.map(formatMoveType).join(", ")}>`
+      : "";
+  return `${normalizeSuiAddress(address)}::${module}::${name}${generics}`;
+}
+
+// チャットの値をBCS型名に合わせたJavaScriptの値に変換します
+function coerceValue(typeName: string, value: MoveArgumentValue): unknown {
+  const invalid = (expected: string) =>
+    new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      `Expected ${expected} but got ${JSON.stringify(value)}`,
+    );
+
+  const vector = typeName.match(/^vector<(.+)>$/);
+  if (vector) {
+    // vector<u8>には文字列（UTF-8）も受け付ける
+    if (vector[1] === "u8" && typeof value === "string") {
+      return Array.from(new TextEncoder().encode(value));
+    }
+    if (!Array.isArray(value)) throw invalid(`a list for ${typeName}`);
+    return value.map((item) => coerceValue(vector[1], item));
+  }
+  const option = typeName.match(/^option<(.+)>$/);
+  if (option) {
+    return typeof value === "string" && /^(none|null)$/i.test(value)
+      ? null
+      : coerceValue(option[1], value);
+  }
+  if (Array.isArray(value)) throw invalid(typeName);
+
+  if (typeName === "bool") {
+    if (!/^(true|false)$/i.test(value)) throw invalid("true or false");
+    return value.toLowerCase() === "true";
+  }
+  const bits = INTEGER_BITS[typeName];
+  if (bits) {
+    if (!/^\d+$/.test(value))
+      throw invalid(`an unsigned integer (${typeName})`);
+    const integer = BigInt(value);
+    if (integer >= 1n << BigInt(bits)) {
+      throw invalid(`a value that fits in ${typeName}`);
+    }
+    return bits <= 32 ? Number(integer) : integer;
+  }
+  if (typeName === "address" || typeName === "id") {
+    const address = normalizeSuiAddress(value);
+    if (!/^0x[0-9a-fA-F]+$/.test(value) || !isValidSuiAddress(address)) {
+      throw invalid("an address (0x...)");
+    }
+    return address;
+  }
+  return value;
+}
+
+/**
+ * チャットの値を、関数の引数の型に合わせてBCSエンコードまたはオブジェクトIDに変換します。
+ *
+ * @param {SuiMoveNormalizedType} type - 引数の型
+ * @param {MoveArgumentValue} value - チャットから受け取った値
+ * @param {string[]} typeArguments - 型パラメータに当てはめる型引数
+ * @returns {PreparedMoveArgument} - 変換済みの引数
+ */
+export function coerceMoveArgument(
+  type: SuiMoveNormalizedType,
+  value: MoveArgumentValue,
+  typeArguments: string[],
+): PreparedMoveArgument {
+  const pureType = toPureTypeName(type, typeArguments);
+  if (!pureType) {
+    if (typeof value !== "string" || !/^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+      throw new SuiActionError(
+        SuiErrorCode.INVALID_ARGUMENT,
+        `Expected an object ID for ${formatMoveType(type)} but got ${JSON.stringify(value)}`,
+      );
+    }
+    return { kind: "object", objectId: normalizeSuiAddress(value) };
+  }
+
+  const schema = pureBcsSchemaFromTypeName(pureType as PureTypeName);
+  const bytes = schema.serialize(coerceValue(pureType, value) as never);
+  return { kind: "pure", type: pureType, bytes: toBase64(bytes.toBytes()) };
+}
+
+/**
+ * 正規化済みの型引数を返します（プリミティブ型はそのまま）。
+ *
+ * @param {string[]} typeArguments - 型引数
+ * @returns {string[]} - 正規化した型引数
+ */
+export function normalizeTypeArguments(typeArguments: string[]): string[] {
+  try {
+    return typeArguments.map(normalizeTypeArgument);
+  } catch {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      `Invalid type arguments: ${typeArguments.join(", ")}`,
+    );
+  }
+}
+
+/**
+ * 変換済みのパラメータからMove呼び出しトランザクションを構築します。
+ *
+ * @param {MoveCallParams} params - Move呼び出しパラメータ
+ * @returns {Transaction} - 未署名のトランザクション
+ */
+export function buildMoveCallTransaction(params: MoveCallParams): Transaction {
+  const tx = new Transaction();
+  tx.moveCall({
+    target: params.target,
+    typeArguments: params.typeArguments,
+    arguments: params.arguments.map((argument) =>
+      argument.kind === "pure"
+        ? tx.pure(fromBase64(argument.bytes))
+        : tx.object(argument.objectId),
+    ),
+  });
+  return tx;
+}
@@ -0,0 +1,249 @@
+// ロガーとSui SDKのクライアント・ユーティリティをインポートします。
+import { logger } from "@elizaos/core";
+import type { SuiClient } from "@mysten/sui/client";
+import {
+  isValidSuiAddress,
+  isValidSuiNSName,
+  normalizeSuiAddress,
+  normalizeSuiNSName,
+} from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import type { SuiWalletService } from "./service.ts";
+
+/**
+ * チャット本文中のSuiNS名（alice.sui、sub.alice.sui、@alice、sub@alice）にマッチする正規表現です。
+ * 文末のピリオドやメールアドレスの一部にはマッチしません。
+ */
+export const SUI_NAME_PATTERN =
+  /(?<![\w@.-])(?:[a-z0-9-]+(?:\.[a-z0-9-]+)*\.sui|(?:[a-z0-9-]+(?:\.[a-z0-9-]+)*)?@[a-z0-9-]+)(?![\w@-]|\.\w)/gi;
+
+/**
+ * SuiNSの名前とアドレスを相互に引くレジストリのインターフェースです。
+ * 既定ではフルノードのJSON-RPCを使い、テストではメモリ上の名簿に差し替えられます。
+ */
+export interface SuiNameRegistry {
+  readonly name: string;
+  /** 名前（"alice.sui"形式）をアドレスに解決します。登録が無ければnullを返します */
+  resolveName(name: string): Promise<string | null>;
+  /** アドレスの既定の名前（"alice.sui"形式）を返します。無ければnullを返します */
+  resolveAddress(address: string): Promise<string | null>;
+}
+
+/** 正規化したアドレスから逆引きした名前への対応表です */
+export type AddressNames = Record<string, string>;
+
+/**
+ * フルノードのsuix_resolveNameServiceAddress/suix_resolveNameServiceNamesを使うレジストリです。
+ */
+export class RpcNameRegistry implements SuiNameRegistry {
+  readonly name = "rpc";
+
+  constructor(private readonly client: SuiClient) {}
+
+  async resolveName(name: string): Promise<string | null> {
+    return this.client.resolveNameServiceAddress({ name });
+  }
+
+  async resolveAddress(address: string): Promise<string | null> {
+    const result = await this.client.resolveNameServiceNames({
+      address,
+      limit: 1,
+      format: "dot",
+    });
+    return result.data[0] ?? null;
+  }
+}
+
+/**
+ * 値がSuiNS名として解釈できるかを判定します。
+ *
+ * @param {string} value - 判定する文字列
+ * @returns {boolean} - SuiNS名であればtrue
+ */
+export function isSuiName(value: string): boolean {
+  return !value.startsWith("0x") && isValidSuiNSName(value);
+}
+
+/**
+ * SuiNS名を小文字の"alice.sui"形式に揃えます（"@alice"も"alice.sui"になります）。
+ *
+ * @param {string} name - SuiNS名
+ * @returns {string} - 正規化した名前
+ */
+export function normalizeSuiName(name: string): string {
+  try {
+    return normalizeSuiNSName(name, "dot");
+  } catch {
+    throw new SuiActionError(
+      SuiErrorCode.NAME_NOT_FOUND,
+      `Invalid SuiNS name: ${name}`,
+    );
+  }
+}
+
+// キャッシュのエントリ（未登録の結果もnullとして保持します）
+interface CachedLookup {
+  value: string | null;
+  expiresAt: number;
+}
+
+/**
+ * レジストリへの正引き・逆引きを有効期間付きでキャッシュするリゾルバーです。
+ * 逆引きは表示の補助にすぎないため、レジストリのエラーはログに残してnullとして扱います。
+ */
+export class SuiNameResolver {
+  private names = new Map<string, CachedLookup>(); // 名前 → アドレス
+  private addresses = new Map<string, CachedLookup>(); // アドレス → 名前
+
+  constructor(
+    private registry: SuiNameRegistry,
+    private readonly ttlMs: number,
+  ) {}
+
+  /** 使用中のレジストリを返します */
+  getRegistry(): SuiNameRegistry {
+    return this.registry;
+  }
+
+  /** レジストリを差し替え、キャッシュを破棄します */
+  setRegistry(registry: SuiNameRegistry): void {
+    this.registry = registry;
+    this.clear();
+  }
+
+  /** キャッシュを全て破棄します */
+  clear(): void {
+    this.names.clear();
+    this.addresses.clear();
+  }
+
+  /**
+   * SuiNS名をアドレスに解決します（正引き）。
+   *
+   * @param {string} name - SuiNS名
+   * @returns {Promise<string | null>} - 正規化したアドレス。未登録ならnull
+   */
+  async resolveName(name: string): Promise<string | null> {
+    const normalized = normalizeSuiName(name);
+    return this.cached(this.names, normalized, async () => {
+      const address = await this.registry.resolveName(normalized);
+      return address ? normalizeSuiAddress(address) : null;
+    });
+  }
+
+  /**
+   * アドレスの既定のSuiNS名を取得します（逆引き）。
+   *
+   * @param {string} address - アドレス
+   * @returns {Promise<string | null>} - "alice.sui"形式の名前。無い場合や取得に失敗した場合はnull
+   */
+  async lookupAddress(address: string): Promise<string | null> {
+    const normalized = normalizeSuiAddress(address);
+    try {
+      return await this.cached(this.addresses, normalized, async () => {
+        const name = await this.registry.resolveAddress(normalized);
+        return name ? normalizeSuiName(name) : null;
+      });
+    } catch (error) {
+      logger.warn(
+        { error, address: normalized },
+        "SuiNS reverse lookup failed",
+      );
+      return null;
+    }
+  }
+
+  /**
+   * 複数のアドレスをまとめて逆引きします。名前の無いアドレスは結果に含めません。
+   *
+   * @param {string[]} addresses - アドレス
+   * @returns {Promise<AddressNames>} - 正規化したアドレス → 名前
+   */
+  async lookupAddresses(addresses: string[]): Promise<AddressNames> {
+    const unique = [...new Set(addresses.map((a) => normalizeSuiAddress(a)))];
+    const names: AddressNames = {};
+    await Promise.all(
+      unique.map(async (address) => {
+        const name = await this.lookupAddress(address);
+        if (name) names[address] = name;
+      }),
+    );
+    return names;
+  }
+
+  // 有効期間内であればキャッシュを返し、切れていれば取得して保存します
+  private async cached(
+    cache: Map<string, CachedLookup>,
+    key: string,
+    load: () => Promise<string | null>,
+  ): Promise<string | null> {
+    const entry = cache.get(key);
+    if (entry && Date.now() < entry.expiresAt) {
+      return entry.value;
+    }
+    const value = await load();
+    cache.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    return value;
+  }
+}
+
+/**
+ * 解決済みの送り先です。
+ */
+export interface ResolvedRecipient {
+  address: string; // 正規化したアドレス
+  name: string | null; // SuiNS名（指定された名前、または逆引きした名前）
+}
+
+/**
+ * 送り先（アドレスまたはSuiNS名）をアドレスに解決します。
+ * 名前は正引きし、アドレスは検証したうえで表示用に逆引きします。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {string | undefined} recipient - チャットから抽出した送り先
+ * @returns {Promise<ResolvedRecipient>} - 解決した送り先
+ */
+export async function resolveRecipient(
+  service: SuiWalletService,
+  recipient: string | undefined,
+): Promise<ResolvedRecipient> {
+  const resolver = service.getNameResolver();
+  if (recipient && isSuiName(recipient)) {
+    const name = normalizeSuiName(recipient);
+    const address = await resolver.resolveName(name);
+    if (!address) {
+      throw new SuiActionError(
+        SuiErrorCode.NAME_NOT_FOUND,
+        `SuiNS name ${name} does not resolve to an address`,
+        { name },
+      );
+    }
+    return { address, name };
+  }
+  if (!recipient || !isValidSuiAddress(normalizeSuiAddress(recipient))) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_RECIPIENT,
+      "A valid recipient address (0x...) or SuiNS name (name.sui) is required",
+    );
+  }
+  const address = normalizeSuiAddress(recipient);
+  return { address, name: await resolver.lookupAddress(address) };
+}
+
+/**
+ * アドレスに名前があれば「0x... (alice.sui)」の形で表します。
+ *
+ * @param {string} address - アドレス
+ * @param {AddressNames | string | null} names - 逆引き結果の対応表、またはそのアドレスの名前
+ * @returns {string} - 表示用の文字列
+ */
+export function formatAddress(
+  address: string,
+  names: AddressNames | string | null = null,
+): string {
+  const name =
+    typeof names === "string" || names === null
+      ? names
+      : names[normalizeSuiAddress(address)];
+  return name ? `${address} (${name})` : address;
+}
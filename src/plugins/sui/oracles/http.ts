@@ -0,0 +1,73 @@
+import { normalizeStructTag } from "@mysten/sui/utils";
+import type { FetchLike } from "../aggregators/aftermath.ts";
+import type { PriceQuote, PriceSource } from "../prices.ts";
+
+/** 既定の問い合わせ先（CoinGeckoのSuiトークン価格API） */
+export const COINGECKO_SUI_PRICE_URL =
+  "https://api.coingecko.com/api/v3/simple/token_price/sui";
+
+/**
+ * 価格APIの応答です（CoinGeckoの/simple/token_priceと同じ形）。
+ * キーは小文字にしたコインタイプ、last_updated_atは秒単位のUNIX時刻です。
+ */
+export type HttpPriceResponse = Record<
+  string,
+  { usd?: number; last_updated_at?: number }
+>;
+
+/**
+ * CoinGecko互換のHTTP APIから価格を取得する価格ソースです。
+ * SUI_PRICE_HTTP_URLを変えれば、同じ形で応答する自前の価格サーバーも使えます。
+ */
+export class HttpPriceSource implements PriceSource {
+  readonly name = "http";
+  private readonly url: string;
+  private readonly fetch: FetchLike;
+
+  constructor(options: { url?: string; fetch?: FetchLike } = {}) {
+    this.url = options.url ?? COINGECKO_SUI_PRICE_URL;
+    this.fetch = options.fetch ?? ((url, init) => fetch(url, init));
+  }
+
+  /** コインタイプをまとめて1回で問い合わせます */
+  async getPrices(coinTypes: string[]): Promise<PriceQuote[]> {
+    const url = new URL(this.url);
+    url.searchParams.set("contract_addresses", coinTypes.join(","));
+    url.searchParams.set("vs_currencies", "usd");
+    url.searchParams.set("include_last_updated_at", "true");
+    const response = await this.fetch(url.toString(), {
+      headers: { Accept: "application/json" },
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Price API responded ${response.status}: ${await response.text()}`,
+      );
+    }
+    const body = (await response.json()) as HttpPriceResponse;
+
+    // APIは短縮形のアドレスや小文字で返すことがあるため、正規化して突き合わせる
+    const entries = new Map<string, HttpPriceResponse[string]>();
+    for (const [key, entry] of Object.entries(body ?? {})) {
+      try {
+        entries.set(normalizeStructTag(key).toLowerCase(), entry);
+      } catch {
+        // コインタイプでないキーは無視する
+      }
+    }
+    return coinTypes.flatMap((coinType) => {
+      const entry = entries.get(normalizeStructTag(coinType).toLowerCase());
+      if (typeof entry?.usd !== "number") return [];
+      return [
+        {
+          coinType,
+          usd: entry.usd,
+          updatedAt:
+            typeof entry.last_updated_at === "number"
+              ? entry.last_updated_at * 1000
+              : Date.now(),
+          source: this.name,
+        },
+      ];
+    });
+  }
+}
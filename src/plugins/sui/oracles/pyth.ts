@@ -0,0 +1,90 @@
+import type { SuiClient } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import type { PriceQuote, PriceSource } from "../prices.ts";
+
+// JSON-RPCが返すMoveの構造体（{ type, fields }）から値を取り出します
+function field(value: unknown, ...path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (!current || typeof current !== "object") return undefined;
+    const record = current as Record<string, unknown>;
+    const fields =
+      record.fields && typeof record.fields === "object"
+        ? (record.fields as Record<string, unknown>)
+        : record;
+    current = fields[key];
+  }
+  return current;
+}
+
+// Pythの符号付き整数（I64 { negative, magnitude }）を数値にします
+function signed(value: unknown): number {
+  const magnitude = Number(field(value, "magnitude"));
+  if (!Number.isFinite(magnitude)) {
+    throw new Error("Unexpected Pyth I64 value");
+  }
+  return field(value, "negative") === true ? -magnitude : magnitude;
+}
+
+/**
+ * PythのPriceInfoObjectの内容から価格と公開時刻を読み取ります。
+ *
+ * @param {unknown} content - getObjectのcontent（moveObject）
+ * @returns {{ usd: number; updatedAt: number }} - USD価格と公開時刻（ミリ秒）
+ */
+export function parsePythPriceInfo(content: unknown): {
+  usd: number;
+  updatedAt: number;
+} {
+  const price = field(content, "price_info", "price_feed", "price");
+  if (!price) {
+    throw new Error("Object is not a Pyth PriceInfoObject");
+  }
+  const mantissa = signed(field(price, "price"));
+  const expo = signed(field(price, "expo"));
+  const timestamp = Number(field(price, "timestamp"));
+  if (!Number.isFinite(timestamp)) {
+    throw new Error("Pyth price has no timestamp");
+  }
+  return { usd: mantissa * 10 ** expo, updatedAt: timestamp * 1000 };
+}
+
+/**
+ * チェーン上のPythの価格オブジェクト（PriceInfoObject）を読む価格ソースです。
+ * 価格の更新はPythの利用者が行うため、ここでは読み取るだけで、古い価格は鮮度の判定で除外されます。
+ */
+export class PythPriceSource implements PriceSource {
+  readonly name = "pyth";
+  private readonly client: SuiClient;
+  private readonly feeds: Map<string, string>; // コインタイプ → PriceInfoObjectのID
+
+  constructor(options: { client: SuiClient; feeds: Record<string, string> }) {
+    this.client = options.client;
+    this.feeds = new Map(
+      Object.entries(options.feeds).map(([coinType, objectId]) => [
+        normalizeStructTag(coinType),
+        objectId,
+      ]),
+    );
+  }
+
+  /** 価格オブジェクトが設定されたコインだけを、まとめて読み取ります */
+  async getPrices(coinTypes: string[]): Promise<PriceQuote[]> {
+    const targets = coinTypes.flatMap((coinType) => {
+      const objectId = this.feeds.get(normalizeStructTag(coinType));
+      return objectId ? [{ coinType, objectId }] : [];
+    });
+    if (targets.length === 0) return [];
+
+    const objects = await this.client.multiGetObjects({
+      ids: targets.map((target) => target.objectId),
+      options: { showContent: true },
+    });
+    return targets.flatMap((target, index) => {
+      const content = objects[index]?.data?.content;
+      if (!content || content.dataType !== "moveObject") return [];
+      const { usd, updatedAt } = parsePythPriceInfo(content);
+      return [{ coinType: target.coinType, usd, updatedAt, source: this.name }];
+    });
+  }
+}
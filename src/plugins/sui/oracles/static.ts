@@ -0,0 +1,87 @@
+import { readFile } from "node:fs/promises";
+import { normalizeStructTag } from "@mysten/sui/utils";
+// zodをインポートして、価格ファイルを検証します。
+import { z } from "zod";
+import type { PriceQuote, PriceSource } from "../prices.ts";
+
+/**
+ * 価格ファイルのスキーマです。コインタイプをキーに、価格だけ、または価格と観測時刻を書きます。
+ * 観測時刻を省いた価格は常に最新の価格として扱います（テストやローカルネット用）。
+ *
+ * @example
+ * { "0x2::sui::SUI": 3.5, "0xdba3...::usdc::USDC": { "usd": 1, "updatedAt": "2026-10-01T00:00:00Z" } }
+ */
+export const staticPriceFileSchema = z.record(
+  z.string().regex(/^0x[0-9a-fA-F]{1,64}::\w+::\w+/, "Must be a coin type"),
+  z.union([
+    z.number().nonnegative(),
+    z.object({
+      usd: z.number().nonnegative(),
+      updatedAt: z.union([z.number(), z.string().datetime()]).optional(),
+    }),
+  ]),
+);
+
+/**
+ * JSONファイルに書いた固定の価格を返す価格ソースです。
+ * ファイルは最初の問い合わせで読み込み、以降は読み直しません。
+ */
+export class StaticPriceSource implements PriceSource {
+  readonly name = "static";
+  private readonly path: string;
+  private prices: Map<
+    string,
+    { usd: number; updatedAt: number | null }
+  > | null = null;
+
+  constructor(options: { path: string }) {
+    this.path = options.path;
+  }
+
+  // 価格ファイルを読み込み、コインタイプを正規化します
+  private async load() {
+    if (this.prices) return this.prices;
+    const parsed = staticPriceFileSchema.safeParse(
+      JSON.parse(await readFile(this.path, "utf8")),
+    );
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid price file ${this.path}:\n${parsed.error.issues
+          .map((issue) => `  - ${issue.path.join(".")}: ${issue.message}`)
+          .join("\n")}`,
+      );
+    }
+    this.prices = new Map(
+      Object.entries(parsed.data).map(([coinType, entry]) => [
+        normalizeStructTag(coinType),
+        typeof entry === "number"
+          ? { usd: entry, updatedAt: null }
+          : {
+              usd: entry.usd,
+              updatedAt:
+                entry.updatedAt === undefined
+                  ? null
+                  : new Date(entry.updatedAt).getTime(),
+            },
+      ]),
+    );
+    return this.prices;
+  }
+
+  /** ファイルに書かれたコインの価格を返します */
+  async getPrices(coinTypes: string[]): Promise<PriceQuote[]> {
+    const prices = await this.load();
+    return coinTypes.flatMap((coinType) => {
+      const price = prices.get(normalizeStructTag(coinType));
+      if (!price) return [];
+      return [
+        {
+          coinType,
+          usd: price.usd,
+          updatedAt: price.updatedAt ?? Date.now(),
+          source: this.name,
+        },
+      ];
+    });
+  }
+}
@@ -0,0 +1,616 @@
+// ElizaOSコアから型をインポートします。
+import type { IAgentRuntime } from "@elizaos/core";
+import type {
+  BalanceChange,
+  ObjectOwner,
+  SuiObjectChange,
+} from "@mysten/sui/client";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+// zodをインポートして、ポリシーのバリデーションを行います。
+import { z } from "zod";
+import { formatConfigErrors } from "./config.ts";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import type { SuiWalletService } from "./service.ts";
+import {
+  SUI_COIN_TYPE,
+  coinSymbol,
+  formatAmount,
+  getCoinDecimals,
+  parseAmount,
+} from "./utils.ts";
+import { walletCacheScope } from "./wallets.ts";
+
+/** キャラクターのsettingsでポリシーを宣言するキー */
+export const SPENDING_POLICY_SETTING = "suiPolicy";
+
+/** 日次上限を計算する期間（ミリ秒） */
+export const DAILY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// コインの指定（"SUI"または完全なコインタイプ）を正規化したコインタイプに変換します
+const coinKey = z
+  .string()
+  .trim()
+  .transform((value, ctx) => {
+    if (value.toUpperCase() === "SUI") return SUI_COIN_TYPE;
+    try {
+      if (value.includes("::")) return normalizeStructTag(value);
+    } catch {
+      // 下でエラーとして扱います
+    }
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Coin ${value} must be "SUI" or a full coin type (0x...::module::NAME)`,
+    });
+    return z.NEVER;
+  });
+
+// 人が読める単位の金額（例: "10", "2.5"）
+const limitAmount = z
+  .string()
+  .trim()
+  .regex(/^\d+(\.\d+)?$/, "Must be an amount such as 10 or 2.5");
+
+// アドレスまたはパッケージID
+const address = z
+  .string()
+  .trim()
+  .refine((value) => /^0x[0-9a-fA-F]{1,64}$/.test(value), {
+    message: "Must be a Sui address (0x...)",
+  })
+  .transform((value) => normalizeSuiAddress(value));
+
+// コインごとの上限の一覧
+const coinLimits = z
+  .record(z.string(), limitAmount)
+  .default({})
+  .transform((limits, ctx) => {
+    const normalized: Record<string, string> = {};
+    for (const [coin, amount] of Object.entries(limits)) {
+      const result = coinKey.safeParse(coin);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [coin] });
+        }
+        continue;
+      }
+      normalized[result.data] = amount;
+    }
+    return normalized;
+  });
+
+/**
+ * 署名するアクション全てに適用される支出ポリシーのスキーマです。
+ * キャラクターの`settings.suiPolicy`に宣言します。
+ *
+ * @param maxPerTransaction - コインごとの1トランザクションあたりの上限（例: { SUI: "10" }）
+ * @param dailyLimit - コインごとの直近24時間の支出上限
+ * @param allowedRecipients - 指定した場合、これ以外のアドレスへの送金を拒否
+ * @param deniedRecipients - 送金を常に拒否するアドレス
+ * @param allowedPackages - 指定した場合、これ以外のパッケージのMove呼び出しを拒否
+ * @param approvalThreshold - コインごとの金額。これ以上の支出は署名せずに承認キューへ回す
+ */
+export const spendingPolicySchema = z
+  .object({
+    maxPerTransaction: coinLimits,
+    dailyLimit: coinLimits,
+    allowedRecipients: z.array(address).optional(),
+    deniedRecipients: z.array(address).default([]),
+    allowedPackages: z.array(address).optional(),
+    approvalThreshold: coinLimits,
+  })
+  .strict();
+
+/** 検証済みの支出ポリシー */
+export type SpendingPolicy = z.infer<typeof spendingPolicySchema>;
+
+/**
+ * 1つのコインの支出です。
+ */
+export interface SpendItem {
+  coinType: string; // 正規化済みのコインタイプ
+  amount: string; // 最小単位の支出額（ガス代を除く）
+  decimals: number; // コインの小数桁数
+}
+
+/**
+ * 署名しようとしているトランザクションの内容です。ポリシーはこれに対して評価されます。
+ */
+export interface SpendIntent {
+  action: string; // 署名するアクション名
+  recipients: string[]; // 資産を受け取るアドレス
+  spends: SpendItem[]; // コインごとの支出
+  packages: string[]; // 呼び出すMoveパッケージ
+  unknownRecipients?: boolean; // 資産が出ていくのに受け取るアドレスを特定できない（承認キューに回す）
+}
+
+/**
+ * 署名前に人の承認が必要な理由です。
+ */
+export interface ApprovalRequirement {
+  reason: string; // ユーザー・運用者に示す理由（文末の句点なし）
+}
+
+/** 最小単位の金額（bigintを文字列化したもの）のスキーマ */
+export const rawAmountSchema = z
+  .string()
+  .regex(/^\d+$/, "Must be an integer amount");
+
+/**
+ * 保存した支出内容（承認キューなど）を検証するスキーマです。
+ */
+export const spendIntentSchema = z.object({
+  action: z.string().min(1),
+  recipients: z.array(z.string()),
+  spends: z.array(
+    z.object({
+      coinType: z.string().min(1),
+      amount: rawAmountSchema,
+      decimals: z.number().int().min(0),
+    }),
+  ),
+  packages: z.array(z.string()),
+  unknownRecipients: z.boolean().optional(),
+}) satisfies z.ZodType<SpendIntent>;
+
+/**
+ * 上限を確認して予約した支出です。署名できなかった、またはオンチェーンで失敗した場合は解放します。
+ */
+export interface SpendReservation {
+  id: string; // 予約のID
+  release(): Promise<void>; // 予約した支出を記録から取り除く
+}
+
+// 日次上限のために記録する支出（ルーム・ユーザーに関係なくエージェント単位）
+interface SpendRecord {
+  coinType: string;
+  amount: string;
+  timestamp: number;
+  action: string;
+  reservationId?: string; // 署名前に予約した支出の場合、その予約のID
+}
+
+// ウォレットごとに上限の確認と支出の記録を直列化し、同時に署名しても上限を超えないようにします
+const spendLocks = new Map<string, Promise<unknown>>();
+
+function withSpendLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const run = (spendLocks.get(key) ?? Promise.resolve()).then(task, task);
+  spendLocks.set(
+    key,
+    run.catch(() => {}),
+  );
+  return run;
+}
+
+/**
+ * 生のポリシー設定を検証します。失敗した場合は全てのエラーをまとめて投げます。
+ *
+ * @param {unknown} raw - キャラクターのsettingsに書かれた値
+ * @returns {SpendingPolicy} - 検証済みのポリシー
+ */
+export function parseSpendingPolicy(raw: unknown): SpendingPolicy {
+  const result = spendingPolicySchema.safeParse(raw ?? {});
+  if (!result.success) {
+    throw new Error(
+      formatConfigErrors(result.error).replace(
+        "Invalid plugin configuration",
+        `Invalid ${SPENDING_POLICY_SETTING} policy`,
+      ),
+    );
+  }
+  return result.data;
+}
+
+/**
+ * キャラクターのsettingsから支出ポリシーを読み込みます。未宣言の場合は制限なしのポリシーです。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {SpendingPolicy} - 検証済みのポリシー
+ */
+export function getSpendingPolicy(runtime: IAgentRuntime): SpendingPolicy {
+  return parseSpendingPolicy(
+    runtime.character?.settings?.[SPENDING_POLICY_SETTING],
+  );
+}
+
+// 所有者がアドレスであればそのアドレスを返します（共有・オブジェクト所有・不変はnull）
+function addressOwner(owner: ObjectOwner): string | null {
+  return typeof owner === "object" && "AddressOwner" in owner
+    ? normalizeSuiAddress(owner.AddressOwner)
+    : null;
+}
+
+/**
+ * ドライランの残高変化から支出内容を組み立てます。
+ * ウォレットから出ていく額をコインごとに集計し（SUIはガス代を除く）、増えたアドレスを受取人とみなします。
+ * オブジェクトの変化を渡した場合は、ウォレット以外の新しい所有者も受取人とみなし、
+ * 資産（コインやオブジェクト）が出ていくのに受け取るアドレスを特定できなければunknownRecipientsを立てます。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {string} action - アクション名
+ * @param {BalanceChange[]} changes - ドライランの残高変化
+ * @param {bigint} gas - 見積もったガス代（MIST）
+ * @param {string[]} packages - 呼び出すMoveパッケージ
+ * @param {SuiObjectChange[]} objectChanges - ドライランのオブジェクトの変化（任意のMove呼び出しで渡す）
+ * @returns {Promise<SpendIntent>} - 支出内容
+ */
+export async function spendIntentFromBalanceChanges(
+  service: SuiWalletService,
+  action: string,
+  changes: BalanceChange[],
+  gas: bigint,
+  packages: string[] = [],
+  objectChanges?: SuiObjectChange[],
+): Promise<SpendIntent> {
+  const owner = normalizeSuiAddress(service.getAddress());
+  const spends: SpendItem[] = [];
+  const recipients = new Set<string>();
+  for (const change of changes) {
+    const changeOwner = addressOwner(change.owner);
+    const coinType = normalizeStructTag(change.coinType);
+    const amount = BigInt(change.amount);
+    if (changeOwner !== owner) {
+      if (changeOwner && amount > 0n) recipients.add(changeOwner);
+      continue;
+    }
+    const spent = -amount - (coinType === SUI_COIN_TYPE ? gas : 0n);
+    if (spent > 0n) {
+      spends.push({
+        coinType,
+        amount: spent.toString(),
+        decimals: await getCoinDecimals(service, coinType),
+      });
+    }
+  }
+  if (!objectChanges) {
+    return {
+      action,
+      recipients: [...recipients],
+      spends,
+      packages: packages.map((pkg) => normalizeSuiAddress(pkg)),
+    };
+  }
+
+  // ウォレットのオブジェクトが包まれた・アドレス以外に渡った場合は、受け取った相手を特定できない
+  let objectsLeft = false;
+  for (const change of objectChanges) {
+    if (change.type === "wrapped") {
+      objectsLeft = true;
+    } else if (change.type === "transferred") {
+      const newOwner = addressOwner(change.recipient);
+      if (!newOwner) objectsLeft = true;
+      else if (newOwner !== owner) recipients.add(newOwner);
+    } else if (change.type === "created" || change.type === "mutated") {
+      const newOwner = addressOwner(change.owner);
+      if (newOwner && newOwner !== owner) recipients.add(newOwner);
+    }
+  }
+  return {
+    action,
+    recipients: [...recipients],
+    spends,
+    packages: packages.map((pkg) => normalizeSuiAddress(pkg)),
+    ...(recipients.size === 0 && (spends.length > 0 || objectsLeft)
+      ? { unknownRecipients: true }
+      : {}),
+  };
+}
+
+// 支出記録のキャッシュキー（ウォレットごと）
+function spendRecordsKey(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): string {
+  return `sui:policy:spent:${walletCacheScope(runtime, service)}`;
+}
+
+// 直近24時間の支出記録を読み込みます
+async function loadRecentSpends(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  now: number,
+): Promise<SpendRecord[]> {
+  const records =
+    (await runtime.getCache<SpendRecord[]>(
+      spendRecordsKey(runtime, service),
+    )) ?? [];
+  return records.filter((record) => now - record.timestamp < DAILY_WINDOW_MS);
+}
+
+// 記録のうち指定したコインの支出合計を返します
+function sumSpent(records: SpendRecord[], coinType: string): bigint {
+  return records
+    .filter((record) => record.coinType === coinType)
+    .reduce((total, record) => total + BigInt(record.amount), 0n);
+}
+
+// 上限値を最小単位に変換します（"0"は全面禁止として扱います）
+function toRawLimit(display: string, decimals: number): bigint {
+  return /^0+(\.0+)?$/.test(display) ? 0n : parseAmount(display, decimals);
+}
+
+/**
+ * ウォレットの指定したコインの直近24時間の支出合計を返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 対象のウォレット
+ * @param {string} coinType - コインタイプ
+ * @returns {Promise<bigint>} - 最小単位の支出合計
+ */
+export async function getDailySpent(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  coinType: string,
+): Promise<bigint> {
+  const records = await loadRecentSpends(runtime, service, Date.now());
+  return sumSpent(records, normalizeStructTag(coinType));
+}
+
+/**
+ * 確認（または承認）した支出内容と比べて、署名直前に求め直した支出内容が増えていないかを調べます。
+ * コインごとの支出額が増えた、または新しい受取人が現れた場合はその説明を、増えていなければnullを返します。
+ *
+ * @param {SpendIntent} confirmed - 確認した支出内容
+ * @param {SpendIntent} current - 署名直前に求め直した支出内容
+ * @returns {string | null} - 増えた内容の説明
+ */
+export function describeSpendIncrease(
+  confirmed: SpendIntent,
+  current: SpendIntent,
+): string | null {
+  for (const item of current.spends) {
+    const previous = confirmed.spends.find(
+      (candidate) => candidate.coinType === item.coinType,
+    );
+    if (BigInt(item.amount) > BigInt(previous?.amount ?? "0")) {
+      const symbol = coinSymbol(item.coinType);
+      return `It now spends ${formatAmount(item.amount, item.decimals)} ${symbol}, more than the ${formatAmount(previous?.amount ?? "0", item.decimals)} ${symbol} that was confirmed`;
+    }
+  }
+  const recipient = current.recipients.find(
+    (candidate) => !confirmed.recipients.includes(candidate),
+  );
+  if (recipient) {
+    return `It now sends assets to ${recipient}, which was not a recipient when it was confirmed`;
+  }
+  if (current.unknownRecipients && !confirmed.unknownRecipients) {
+    return "Its recipients can no longer be determined";
+  }
+  return null;
+}
+
+/**
+ * 人の承認が必要かどうかを判定し、必要であればその理由を返します。該当しなければnullです。
+ * 承認しきい値以上の支出と、受取人を特定できないまま資産が出ていくトランザクションが該当し、
+ * 確認後すぐには署名されず、承認キューで人の承認を待ちます。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SpendIntent} intent - 署名しようとしているトランザクションの内容
+ * @returns {ApprovalRequirement | null} - 承認が必要な理由
+ */
+export function findApprovalRequirement(
+  runtime: IAgentRuntime,
+  intent: SpendIntent,
+): ApprovalRequirement | null {
+  const policy = getSpendingPolicy(runtime);
+  for (const item of intent.spends) {
+    const threshold = policy.approvalThreshold[item.coinType];
+    if (
+      threshold !== undefined &&
+      BigInt(item.amount) >= toRawLimit(threshold, item.decimals)
+    ) {
+      const symbol = coinSymbol(item.coinType);
+      return {
+        reason: `Spending ${formatAmount(item.amount, item.decimals)} ${symbol} is at or above the approval threshold of ${threshold} ${symbol}`,
+      };
+    }
+  }
+  if (intent.unknownRecipients) {
+    return {
+      reason:
+        "Assets leave the wallet, but the dry run does not show which address receives them",
+    };
+  }
+  return null;
+}
+
+// 1トランザクションあたりの上限を返します（SUIはSUI_MAX_SPEND_PER_TXとの小さい方）
+function perTransactionLimit(
+  policy: SpendingPolicy,
+  service: SuiWalletService,
+  item: SpendItem,
+): { limit: bigint; display: string } | null {
+  const candidates: string[] = [];
+  const configured = policy.maxPerTransaction[item.coinType];
+  if (configured !== undefined) candidates.push(configured);
+  const maxSpend = service.getConfig().SUI_MAX_SPEND_PER_TX;
+  if (item.coinType === SUI_COIN_TYPE && maxSpend !== undefined) {
+    candidates.push(maxSpend);
+  }
+  const limits = candidates.map((display) => ({
+    display,
+    limit: toRawLimit(display, item.decimals),
+  }));
+  return limits.reduce<{ limit: bigint; display: string } | null>(
+    (min, current) => (!min || current.limit < min.limit ? current : min),
+    null,
+  );
+}
+
+// 支出内容を直近の支出記録とポリシーに照らして評価し、違反していればSuiActionErrorを投げます
+function checkSpendingPolicy(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  intent: SpendIntent,
+  records: SpendRecord[],
+): void {
+  const policy = getSpendingPolicy(runtime);
+  const reject = (
+    code: SuiErrorCode,
+    message: string,
+    details: Record<string, unknown>,
+  ) =>
+    new SuiActionError(code, message, {
+      policy: { action: intent.action, rule: code, ...details },
+    });
+
+  for (const recipient of intent.recipients.map((r) =>
+    normalizeSuiAddress(r),
+  )) {
+    if (policy.deniedRecipients.includes(recipient)) {
+      throw reject(
+        SuiErrorCode.RECIPIENT_DENIED,
+        `Recipient ${recipient} is on the deny list`,
+        { recipient },
+      );
+    }
+    if (
+      policy.allowedRecipients &&
+      !policy.allowedRecipients.includes(recipient)
+    ) {
+      throw reject(
+        SuiErrorCode.RECIPIENT_NOT_ALLOWED,
+        `Recipient ${recipient} is not on the allow list`,
+        { recipient },
+      );
+    }
+  }
+
+  if (policy.allowedPackages) {
+    for (const pkg of intent.packages) {
+      if (!policy.allowedPackages.includes(normalizeSuiAddress(pkg))) {
+        throw reject(
+          SuiErrorCode.PACKAGE_NOT_ALLOWED,
+          `Package ${pkg} is not on the allowed package list`,
+          { package: pkg },
+        );
+      }
+    }
+  }
+
+  for (const item of intent.spends) {
+    const amount = BigInt(item.amount);
+    const symbol = coinSymbol(item.coinType);
+
+    const perTx = perTransactionLimit(policy, service, item);
+    if (perTx && amount > perTx.limit) {
+      throw reject(
+        SuiErrorCode.SPENDING_LIMIT_EXCEEDED,
+        `Spending ${formatAmount(amount, item.decimals)} ${symbol} exceeds the per-transaction limit of ${perTx.display} ${symbol}`,
+        {
+          coinType: item.coinType,
+          limit: perTx.display,
+          attempted: formatAmount(amount, item.decimals),
+        },
+      );
+    }
+
+    const daily = policy.dailyLimit[item.coinType];
+    if (daily !== undefined) {
+      const limit = toRawLimit(daily, item.decimals);
+      const spent = sumSpent(records, item.coinType);
+      if (spent + amount > limit) {
+        throw reject(
+          SuiErrorCode.DAILY_LIMIT_EXCEEDED,
+          `Spending ${formatAmount(amount, item.decimals)} ${symbol} would exceed the 24-hour limit of ${daily} ${symbol} (already spent ${formatAmount(spent, item.decimals)} ${symbol})`,
+          {
+            coinType: item.coinType,
+            limit: daily,
+            spent: formatAmount(spent, item.decimals),
+            attempted: formatAmount(amount, item.decimals),
+          },
+        );
+      }
+    }
+  }
+}
+
+/**
+ * 支出内容をポリシーに照らして評価し、違反していればSuiActionErrorを投げます。
+ * 確認前の見積もりで使い、署名直前はreserveSpendingで確認と予約を同時に行います。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {SpendIntent} intent - 署名しようとしているトランザクションの内容
+ */
+export async function enforceSpendingPolicy(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  intent: SpendIntent,
+): Promise<void> {
+  const records = await loadRecentSpends(runtime, service, Date.now());
+  checkSpendingPolicy(runtime, service, intent, records);
+}
+
+/**
+ * 署名直前にポリシーを評価し、違反していなければ支出を予約します（ウォレットごとに直列化）。
+ * 予約した支出はすぐに日次上限に数えられるため、同時に署名しても合計で上限を超えません。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 署名するウォレット
+ * @param {SpendIntent} intent - 署名しようとしているトランザクションの内容
+ * @returns {Promise<SpendReservation>} - 予約（署名できなければ解放する）
+ */
+export async function reserveSpending(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  intent: SpendIntent,
+): Promise<SpendReservation> {
+  const key = spendRecordsKey(runtime, service);
+  const id = crypto.randomUUID();
+  await withSpendLock(key, async () => {
+    const now = Date.now();
+    const records = await loadRecentSpends(runtime, service, now);
+    checkSpendingPolicy(runtime, service, intent, records);
+    if (intent.spends.length === 0) return;
+    for (const item of intent.spends) {
+      records.push({
+        coinType: item.coinType,
+        amount: item.amount,
+        timestamp: now,
+        action: intent.action,
+        reservationId: id,
+      });
+    }
+    await runtime.setCache(key, records);
+  });
+  return {
+    id,
+    release: () =>
+      withSpendLock(key, async () => {
+        const records = await loadRecentSpends(runtime, service, Date.now());
+        await runtime.setCache(
+          key,
+          records.filter((record) => record.reservationId !== id),
+        );
+      }),
+  };
+}
+
+/**
+ * 予約を経ずに実行したトランザクションの支出を記録します。記録はplugin-sqlのキャッシュにウォレットごとに保存され、再起動後も日次上限に反映されます。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 署名したウォレット
+ * @param {SpendIntent} intent - 実行したトランザクションの内容
+ */
+export async function recordSpending(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  intent: SpendIntent,
+): Promise<void> {
+  if (intent.spends.length === 0) return;
+  const key = spendRecordsKey(runtime, service);
+  await withSpendLock(key, async () => {
+    const now = Date.now();
+    const records = await loadRecentSpends(runtime, service, now);
+    for (const item of intent.spends) {
+      records.push({
+        coinType: item.coinType,
+        amount: item.amount,
+        timestamp: now,
+        action: intent.action,
+      });
+    }
+    await runtime.setCache(key, records);
+  });
+}
@@ -0,0 +1,232 @@
+// ElizaOSコアから型とロガーをインポートします。
+import { type IAgentRuntime, logger } from "@elizaos/core";
+import type { SuiClient } from "@mysten/sui/client";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { type SuiConfig, parsePriceFeedSpec } from "./config.ts";
+import { HttpPriceSource } from "./oracles/http.ts";
+import { PythPriceSource } from "./oracles/pyth.ts";
+import { StaticPriceSource } from "./oracles/static.ts";
+import type { SuiWalletService } from "./service.ts";
+
+/**
+ * 価格ソースが返す、1種類のコインのUSD価格です。
+ */
+export interface PriceQuote {
+  coinType: string; // 正規化済みのコインタイプ
+  usd: number; // 1単位（小数桁を適用した単位）あたりのUSD価格
+  updatedAt: number; // 価格が観測された時刻（ミリ秒）
+  source: string; // 価格を返したソースの名前
+}
+
+/**
+ * USD価格の取得元です。組み込みのソース以外もregisterPriceSourceで追加できます。
+ */
+export interface PriceSource {
+  readonly name: string;
+  /** 指定したコインの価格を返します。価格を持たないコインは結果に含めません */
+  getPrices(coinTypes: string[]): Promise<PriceQuote[]>;
+}
+
+/**
+ * ポートフォリオに添える、1種類のコインの価格の状態です。
+ * 価格が古すぎる場合はusdをnullにし、staleとupdatedAtで「いつの価格か」だけを伝えます。
+ */
+export interface CoinPrice {
+  coinType: string; // 正規化済みのコインタイプ
+  usd: number | null; // 提示できる価格（無い・古すぎる場合はnull）
+  updatedAt: number | null; // 見つかった価格の観測時刻
+  source: string | null; // 価格を返したソースの名前
+  stale: boolean; // 価格はあるがSUI_PRICE_MAX_AGE_MSより古い
+}
+
+// キャッシュに保存する問い合わせ結果（価格が無かったことも覚えておく）
+interface CachedPrice {
+  quote: PriceQuote | null;
+  fetchedAt: number;
+}
+
+// 組み込みのソース（設定の名前 → 生成関数）
+const BUILT_IN_PRICE_SOURCES: Record<
+  SuiConfig["SUI_PRICE_SOURCES"][number],
+  (config: SuiConfig, client: SuiClient) => PriceSource
+> = {
+  static: (config) =>
+    new StaticPriceSource({ path: config.SUI_PRICE_STATIC_PATH ?? "" }),
+  http: (config) => new HttpPriceSource({ url: config.SUI_PRICE_HTTP_URL }),
+  pyth: (config, client) =>
+    new PythPriceSource({
+      client,
+      feeds: Object.fromEntries(
+        config.SUI_PRICE_PYTH_FEEDS.flatMap((spec) => {
+          const feed = parsePriceFeedSpec(spec);
+          return feed ? [[feed.coinType, feed.objectId]] : [];
+        }),
+      ),
+    }),
+};
+
+/**
+ * 設定で指定された組み込みの価格ソースを作成します。
+ *
+ * @param {SuiConfig} config - 検証済みの設定
+ * @param {SuiClient} client - チェーン上の価格を読むためのクライアント
+ * @returns {PriceSource[]} - 優先順の価格ソース
+ */
+export function createPriceSources(
+  config: SuiConfig,
+  client: SuiClient,
+): PriceSource[] {
+  return config.SUI_PRICE_SOURCES.map((name) =>
+    BUILT_IN_PRICE_SOURCES[name](config, client),
+  );
+}
+
+// 価格のキャッシュキー（エージェントとコインごと、ウォレットには依存しない）
+function priceCacheKey(runtime: IAgentRuntime, coinType: string): string {
+  return `sui:price:${runtime.agentId}:${coinType}`;
+}
+
+/**
+ * ソースに優先順で問い合わせ、各コインの価格を集めます。
+ * 新しい価格が見つかったコインは以降のソースに問い合わせず、古い価格しか無い場合は最も新しいものを残します。
+ * 失敗したソースは記録して読み飛ばします。
+ *
+ * @param {PriceSource[]} sources - 優先順の価格ソース
+ * @param {string[]} coinTypes - 正規化済みのコインタイプ
+ * @param {number} maxAgeMs - 新しいとみなす価格の経過時間の上限
+ * @returns {Promise<Map<string, PriceQuote>>} - 見つかった価格
+ */
+export async function queryPriceSources(
+  sources: PriceSource[],
+  coinTypes: string[],
+  maxAgeMs: number,
+): Promise<Map<string, PriceQuote>> {
+  const found = new Map<string, PriceQuote>();
+  const isFresh = (quote: PriceQuote | undefined) =>
+    quote !== undefined && Date.now() - quote.updatedAt <= maxAgeMs;
+
+  for (const source of sources) {
+    const pending = coinTypes.filter(
+      (coinType) => !isFresh(found.get(coinType)),
+    );
+    if (pending.length === 0) break;
+    try {
+      for (const quote of await source.getPrices(pending)) {
+        const coinType = normalizeStructTag(quote.coinType);
+        if (!pending.includes(coinType)) continue;
+        if (!Number.isFinite(quote.usd) || quote.usd < 0) continue;
+        const current = found.get(coinType);
+        if (!current || quote.updatedAt > current.updatedAt) {
+          found.set(coinType, { ...quote, coinType });
+        }
+      }
+    } catch (error) {
+      logger.warn(
+        {
+          source: source.name,
+          error: error instanceof Error ? error.message : String(error),
+        },
+        "Price source failed; trying the next one",
+      );
+    }
+  }
+  return found;
+}
+
+/**
+ * キャッシュを考慮してコインのUSD価格を取得します。
+ * 問い合わせ結果はSUI_PRICE_TTL_MSの間キャッシュし、鮮度は読み出すたびにSUI_PRICE_MAX_AGE_MSで判定します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 価格ソースと設定を持つSuiウォレットサービス
+ * @param {string[]} coinTypes - 価格を知りたいコインタイプ
+ * @returns {Promise<Record<string, CoinPrice>>} - 正規化したコインタイプごとの価格の状態
+ */
+export async function getCoinPrices(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  coinTypes: string[],
+): Promise<Record<string, CoinPrice>> {
+  const config = service.getConfig();
+  const normalized = [
+    ...new Set(coinTypes.map((coinType) => normalizeStructTag(coinType))),
+  ];
+  const quotes = new Map<string, PriceQuote | null>();
+  const missing: string[] = [];
+  for (const coinType of normalized) {
+    const cached = await runtime.getCache<CachedPrice>(
+      priceCacheKey(runtime, coinType),
+    );
+    if (cached && Date.now() - cached.fetchedAt < config.SUI_PRICE_TTL_MS) {
+      quotes.set(coinType, cached.quote);
+    } else {
+      missing.push(coinType);
+    }
+  }
+
+  if (missing.length > 0) {
+    const found = await queryPriceSources(
+      service.getPriceSources(),
+      missing,
+      config.SUI_PRICE_MAX_AGE_MS,
+    );
+    const fetchedAt = Date.now();
+    for (const coinType of missing) {
+      const quote = found.get(coinType) ?? null;
+      quotes.set(coinType, quote);
+      await runtime.setCache<CachedPrice>(priceCacheKey(runtime, coinType), {
+        quote,
+        fetchedAt,
+      });
+    }
+  }
+
+  return Object.fromEntries(
+    normalized.map((coinType) => {
+      const quote = quotes.get(coinType) ?? null;
+      const stale =
+        quote !== null &&
+        Date.now() - quote.updatedAt > config.SUI_PRICE_MAX_AGE_MS;
+      return [
+        coinType,
+        {
+          coinType,
+          usd: quote && !stale ? quote.usd : null,
+          updatedAt: quote?.updatedAt ?? null,
+          source: quote?.source ?? null,
+          stale,
+        },
+      ];
+    }),
+  );
+}
+
+/**
+ * USD金額を"$1,234.56"の形に整形します（1セント未満は有効数字で表示します）。
+ *
+ * @param {number} usd - USD金額
+ * @returns {string} - 表示用の文字列
+ */
+export function formatUsd(usd: number): string {
+  if (usd > 0 && usd < 0.01) {
+    return `$${usd.toPrecision(2)}`;
+  }
+  return `$${usd.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+/**
+ * 価格の経過時間を"3h"のような短い表記にします。
+ *
+ * @param {number} ms - 経過時間（ミリ秒）
+ * @returns {string} - 表示用の文字列
+ */
+export function formatPriceAge(ms: number): string {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
@@ -0,0 +1,430 @@
+// ElizaOSコアからプロバイダー関連の型やモジュールをインポートします。
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+  logger,
+} from "@elizaos/core";
+import type {
+  PaginatedTransactionResponse,
+  SuiTransactionBlockResponse,
+} from "@mysten/sui/client";
+import {
+  SUI_DECIMALS,
+  fromBase64,
+  normalizeStructTag,
+  normalizeSuiAddress,
+  toBase64,
+} from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "../errors.ts";
+import { type AddressNames, formatAddress } from "../names.ts";
+import type { SuiWalletService } from "../service.ts";
+import { coinSymbol, formatAmount, totalGasUsed } from "../utils.ts";
+import { getWalletService, walletCacheScope } from "../wallets.ts";
+
+/** プロバイダーが状態に挿入する直近のトランザクション件数 */
+export const RECENT_TRANSACTIONS_LIMIT = 5;
+
+/**
+ * トランザクション1件の残高変化です（ウォレット自身の分のみ）。
+ */
+export interface HistoryBalanceChange {
+  coinType: string; // 正規化済みのコインタイプ
+  symbol: string; // 表示用シンボル
+  decimals: number; // 小数桁数
+  amount: string; // 人が読める単位の増減（負数は支出）
+  rawAmount: string; // 最小単位の増減
+}
+
+/**
+ * トランザクション1件の要約です。
+ */
+export interface TransactionSummary {
+  digest: string; // トランザクションダイジェスト
+  timestampMs: number | null; // チェックポイントの時刻
+  status: string; // "success" または "failure"
+  sender: string | null; // 送信者
+  gasUsed: string; // 支払ったガス（MIST）
+  balanceChanges: HistoryBalanceChange[]; // ウォレット自身の残高変化
+  counterparties: string[]; // 送信者・受取人などの相手先アドレス
+  moveCalls: string[]; // 呼び出したMove関数（"0x..::module::function"）
+}
+
+/**
+ * トランザクション履歴の1ページです。
+ */
+export interface TransactionHistoryPage {
+  address: string; // 対象のアドレス
+  transactions: TransactionSummary[]; // 新しい順のトランザクション
+  nextCursor: string | null; // 次のページのカーソル
+  hasNextPage: boolean; // 次のページがあるか
+}
+
+/**
+ * 履歴取得時のオプションです。
+ */
+export interface TransactionHistoryQuery {
+  cursor?: string | null; // 前のページで返されたカーソル
+  limit?: number; // 取得件数（既定: 10、最大: 50）
+}
+
+// 送信したトランザクションと受け取ったトランザクションの2系列それぞれの読み取り位置
+interface HistoryCursor {
+  sent: string | null; // 送信側の最後に返したダイジェスト
+  received: string | null; // 受信側の最後に返したダイジェスト
+  sentDone: boolean; // 送信側を読み切ったか
+  receivedDone: boolean; // 受信側を読み切ったか
+}
+
+const EMPTY_PAGE: PaginatedTransactionResponse = {
+  data: [],
+  nextCursor: null,
+  hasNextPage: false,
+};
+
+// カーソルはクライアントから見て不透明な文字列としてやり取りします
+function encodeCursor(cursor: HistoryCursor): string {
+  return toBase64(new TextEncoder().encode(JSON.stringify(cursor)));
+}
+
+function decodeCursor(cursor: string | null | undefined): HistoryCursor {
+  if (!cursor) {
+    return { sent: null, received: null, sentDone: false, receivedDone: false };
+  }
+  try {
+    const decoded = JSON.parse(new TextDecoder().decode(fromBase64(cursor)));
+    if (typeof decoded !== "object" || decoded === null) throw new Error();
+    return {
+      sent: typeof decoded.sent === "string" ? decoded.sent : null,
+      received: typeof decoded.received === "string" ? decoded.received : null,
+      sentDone: decoded.sentDone === true,
+      receivedDone: decoded.receivedDone === true,
+    };
+  } catch {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_CURSOR,
+      "Invalid transaction history cursor",
+    );
+  }
+}
+
+// 残高変化の所有者がアドレスであればそのアドレスを返します
+function addressOwner(owner: unknown): string | null {
+  return typeof owner === "object" && owner !== null && "AddressOwner" in owner
+    ? normalizeSuiAddress(String(owner.AddressOwner))
+    : null;
+}
+
+/**
+ * トランザクションの応答を、ウォレットから見た要約に変換します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {SuiTransactionBlockResponse} tx - showInput/showEffects/showBalanceChanges付きの応答
+ * @param {string} address - ウォレットのアドレス
+ * @returns {Promise<TransactionSummary>} - 要約
+ */
+export async function summarizeTransaction(
+  service: SuiWalletService,
+  tx: SuiTransactionBlockResponse,
+  address: string,
+): Promise<TransactionSummary> {
+  const owner = normalizeSuiAddress(address);
+  const sender = tx.transaction?.data.sender
+    ? normalizeSuiAddress(tx.transaction.data.sender)
+    : null;
+  const counterparties = new Set<string>();
+  if (sender && sender !== owner) counterparties.add(sender);
+
+  const balanceChanges: HistoryBalanceChange[] = [];
+  for (const change of tx.balanceChanges ?? []) {
+    const changeOwner = addressOwner(change.owner);
+    if (changeOwner !== owner) {
+      if (changeOwner) counterparties.add(changeOwner);
+      continue;
+    }
+    const coinType = normalizeStructTag(change.coinType);
+    const metadata = await service.getCoinMetadata(change.coinType);
+    const decimals = metadata?.decimals ?? 0;
+    balanceChanges.push({
+      coinType,
+      symbol: metadata?.symbol || coinSymbol(coinType),
+      decimals,
+      amount: formatAmount(change.amount, decimals),
+      rawAmount: change.amount,
+    });
+  }
+
+  const kind = tx.transaction?.data.transaction;
+  const moveCalls =
+    kind?.kind === "ProgrammableTransaction"
+      ? kind.transactions.flatMap((command) =>
+          "MoveCall" in command
+            ? [
+                `${normalizeSuiAddress(command.MoveCall.package)}::${command.MoveCall.module}::${command.MoveCall.function}`,
+              ]
+            : [],
+        )
+      : [];
+
+  return {
+    digest: tx.digest,
+    timestampMs: tx.timestampMs ? Number(tx.timestampMs) : null,
+    status: tx.effects?.status.status ?? "unknown",
+    sender,
+    gasUsed: tx.effects ? totalGasUsed(tx.effects.gasUsed).toString() : "0",
+    balanceChanges,
+    counterparties: [...counterparties],
+    moveCalls: [...new Set(moveCalls)],
+  };
+}
+
+/**
+ * ウォレットが送信または受信したトランザクションを新しい順に1ページ分取得します。
+ * 送信側（FromAddress）と受信側（ToAddress）の2系列を時刻順にマージし、
+ * 両方の読み取り位置をまとめたカーソルを返します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {TransactionHistoryQuery} query - カーソルと件数
+ * @returns {Promise<TransactionHistoryPage>} - 履歴の1ページ
+ */
+export async function fetchTransactionHistory(
+  service: SuiWalletService,
+  query: TransactionHistoryQuery = {},
+): Promise<TransactionHistoryPage> {
+  const address = service.getAddress();
+  const limit = Math.min(Math.max(query.limit ?? 10, 1), 50);
+  const state = decodeCursor(query.cursor);
+
+  const [sent, received] = await Promise.all([
+    state.sentDone
+      ? EMPTY_PAGE
+      : service.queryTransactions({
+          filter: { FromAddress: address },
+          cursor: state.sent,
+          limit,
+        }),
+    state.receivedDone
+      ? EMPTY_PAGE
+      : service.queryTransactions({
+          filter: { ToAddress: address },
+          cursor: state.received,
+          limit,
+        }),
+  ]);
+
+  // 2系列を時刻の新しい順にマージします（自分宛ての送信は両方に現れるため重複を除く）
+  const merged: SuiTransactionBlockResponse[] = [];
+  const seen = new Set<string>();
+  const next = { ...state };
+  let i = 0;
+  let j = 0;
+  const time = (tx: SuiTransactionBlockResponse) => Number(tx.timestampMs ?? 0);
+  while (
+    merged.length < limit &&
+    (i < sent.data.length || j < received.data.length)
+  ) {
+    const takeSent =
+      j >= received.data.length ||
+      (i < sent.data.length && time(sent.data[i]) >= time(received.data[j]));
+    const tx = takeSent ? sent.data[i++] : received.data[j++];
+    if (takeSent) next.sent = tx.digest;
+    else next.received = tx.digest;
+    // もう一方の系列の先頭が同じトランザクションなら、そちらも読み進める
+    if (takeSent && received.data[j]?.digest === tx.digest) {
+      next.received = received.data[j++].digest;
+    } else if (!takeSent && sent.data[i]?.digest === tx.digest) {
+      next.sent = sent.data[i++].digest;
+    }
+    if (!seen.has(tx.digest)) {
+      seen.add(tx.digest);
+      merged.push(tx);
+    }
+  }
+  next.sentDone =
+    state.sentDone || (i >= sent.data.length && !sent.hasNextPage);
+  next.receivedDone =
+    state.receivedDone || (j >= received.data.length && !received.hasNextPage);
+
+  const transactions: TransactionSummary[] = [];
+  for (const tx of merged) {
+    transactions.push(await summarizeTransaction(service, tx, address));
+  }
+  const hasNextPage = !(next.sentDone && next.receivedDone);
+  return {
+    address,
+    transactions,
+    nextCursor: hasNextPage ? encodeCursor(next) : null,
+    hasNextPage,
+  };
+}
+
+/**
+ * トランザクションの要約を1行のテキストに整形します。
+ *
+ * @param {TransactionSummary} tx - トランザクションの要約
+ * @param {AddressNames} names - 相手先のアドレスから逆引きしたSuiNS名
+ * @returns {string} - 例: "- 2026-01-02 03:04 UTC 9Yk... (success): -1.5 SUI; with 0xabc... (alice.sui); calls 0x2::pay::split"
+ */
+export function formatTransactionSummary(
+  tx: TransactionSummary,
+  names: AddressNames = {},
+): string {
+  const when = tx.timestampMs
+    ? `${new Date(tx.timestampMs).toISOString().slice(0, 16).replace("T", " ")} UTC`
+    : "pending";
+  const parts = [
+    tx.balanceChanges.length > 0
+      ? tx.balanceChanges
+          .map((change) => `${change.amount} ${change.symbol}`)
+          .join(", ")
+      : "no balance change",
+  ];
+  if (tx.counterparties.length > 0) {
+    parts.push(
+      `with ${tx.counterparties.map((address) => formatAddress(address, names)).join(", ")}`,
+    );
+  }
+  if (tx.moveCalls.length > 0) {
+    parts.push(`calls ${tx.moveCalls.join(", ")}`);
+  }
+  parts.push(`gas ${formatAmount(tx.gasUsed, SUI_DECIMALS)} SUI`);
+  return `- ${when} ${tx.digest} (${tx.status}): ${parts.join("; ")}`;
+}
+
+/**
+ * 履歴のページを読みやすいテキストに整形します。
+ *
+ * @param {TransactionHistoryPage} page - 履歴の1ページ
+ * @param {string} heading - 先頭に付ける見出し（省略時は既定の見出し）
+ * @param {AddressNames} names - ウォレットと相手先のアドレスから逆引きしたSuiNS名
+ * @returns {string} - エージェントの状態やコールバックに使うテキスト
+ */
+export function formatTransactionHistory(
+  page: TransactionHistoryPage,
+  heading?: string,
+  names: AddressNames = {},
+): string {
+  const wallet = formatAddress(page.address, names);
+  if (page.transactions.length === 0) {
+    return `No transactions found for Sui wallet ${wallet}.`;
+  }
+  return [
+    heading ?? `Recent transactions for Sui wallet ${wallet}:`,
+    ...page.transactions.map((tx) => formatTransactionSummary(tx, names)),
+  ].join("\n");
+}
+
+/**
+ * 履歴に現れるウォレットと相手先のアドレスをまとめて逆引きします。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {TransactionHistoryPage} page - 履歴の1ページ
+ * @returns {Promise<AddressNames>} - アドレス → SuiNS名
+ */
+export async function lookupHistoryNames(
+  service: SuiWalletService,
+  page: TransactionHistoryPage,
+): Promise<AddressNames> {
+  return service
+    .getNameResolver()
+    .lookupAddresses([
+      page.address,
+      ...page.transactions.flatMap((tx) => tx.counterparties),
+    ]);
+}
+
+// 直近の履歴のキャッシュキー（ウォレットごと）
+function historyCacheKey(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): string {
+  return `sui:history:${walletCacheScope(runtime, service)}`;
+}
+
+/**
+ * キャッシュを考慮して直近のトランザクションを取得します。
+ * 有効期間はポートフォリオと同じSUI_PORTFOLIO_TTL_MSを使います。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {Promise<TransactionHistoryPage>} - 直近の履歴
+ */
+export async function getCachedRecentTransactions(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<TransactionHistoryPage> {
+  const key = historyCacheKey(runtime, service);
+  const cached = await runtime.getCache<
+    TransactionHistoryPage & { fetchedAt: number }
+  >(key);
+  const ttl = service.getConfig().SUI_PORTFOLIO_TTL_MS;
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return cached;
+  }
+  const page = await fetchTransactionHistory(service, {
+    limit: RECENT_TRANSACTIONS_LIMIT,
+  });
+  await runtime.setCache(key, { ...page, fetchedAt: Date.now() });
+  return page;
+}
+
+/**
+ * 直近の履歴のキャッシュを破棄します。署名・送信の後に呼び出します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 対象のウォレット
+ */
+export async function invalidateHistoryCache(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<void> {
+  await runtime.deleteCache(historyCacheKey(runtime, service));
+}
+
+/**
+ * ウォレットの直近のトランザクションをエージェントの状態に挿入するプロバイダーです。
+ */
+export const suiTransactionHistoryProvider: Provider = {
+  name: "SUI_RECENT_TRANSACTIONS", // プロバイダーの一意な名前
+  description:
+    "Most recent transactions sent or received by the agent's Sui wallet", // プロバイダーの説明
+
+  // データを取得する関数
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<ProviderResult> => {
+    // 預かりウォレットが有効な場合は、まだウォレットを持たない利用者には何も表示しない
+    const service = await getWalletService(runtime, message, {
+      create: false,
+    });
+    if (!service?.hasSigner()) {
+      return { text: "", values: {}, data: {} };
+    }
+
+    try {
+      const page = await getCachedRecentTransactions(runtime, service);
+      const names = await lookupHistoryNames(service, page);
+      return {
+        text: formatTransactionHistory(page, undefined, names),
+        values: {
+          recentTransactionCount: page.transactions.length,
+          lastTransactionDigest: page.transactions[0]?.digest ?? null,
+        },
+        data: { history: page },
+      };
+    } catch (error) {
+      logger.error({ error }, "Error in SUI_RECENT_TRANSACTIONS provider:");
+      return {
+        text: "Sui transaction history is currently unavailable.",
+        values: {},
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  },
+};
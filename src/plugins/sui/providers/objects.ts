@@ -0,0 +1,345 @@
+// ElizaOSコアからプロバイダー関連の型やモジュールをインポートします。
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+  logger,
+} from "@elizaos/core";
+import type { SuiObjectData, SuiObjectDataFilter } from "@mysten/sui/client";
+import { normalizeStructTag, normalizeSuiAddress } from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "../errors.ts";
+import { type AddressNames, formatAddress } from "../names.ts";
+import type { SuiWalletService } from "../service.ts";
+import { getWalletService, walletCacheScope } from "../wallets.ts";
+
+/** プロバイダーが状態に挿入する際に読む所有オブジェクトの件数 */
+export const OWNED_OBJECTS_PROVIDER_LIMIT = 50;
+
+// 既定の一覧から除外するコインの型（残高はSUI_PORTFOLIOで扱います）
+const COIN_STRUCT_TYPE = "0x2::coin::Coin";
+
+/**
+ * 所有オブジェクト1件の要約です。
+ */
+export interface OwnedObjectSummary {
+  objectId: string; // オブジェクトID
+  type: string; // 正規化済みのMove型
+  name: string | null; // Displayのname
+  description: string | null; // Displayのdescription
+  imageUrl: string | null; // Displayのimage_url
+  display: Record<string, string> | null; // Displayの全項目
+}
+
+/**
+ * Move型ごとにまとめた所有オブジェクトです。
+ */
+export interface OwnedObjectGroup {
+  type: string; // 正規化済みのMove型
+  count: number; // このページに含まれる件数
+  objects: OwnedObjectSummary[]; // オブジェクト
+}
+
+/**
+ * 所有オブジェクトの1ページです。
+ */
+export interface OwnedObjectsPage {
+  address: string; // 対象のアドレス
+  objects: OwnedObjectSummary[]; // オブジェクト
+  groups: OwnedObjectGroup[]; // Move型ごとのまとまり（件数の多い順）
+  nextCursor: string | null; // 次のページのカーソル
+  hasNextPage: boolean; // 次のページがあるか
+}
+
+/**
+ * 所有オブジェクト取得時のオプションです。
+ */
+export interface OwnedObjectsPageQuery {
+  cursor?: string | null; // 前のページで返されたカーソル
+  limit?: number; // 取得件数（既定: 20、最大: 50）
+  structType?: string; // 型による絞り込み（完全な型、"module::Name"、"Name"のいずれか）
+  includeCoins?: boolean; // コインも含めるか（既定: 含めない）
+}
+
+// 完全な型（アドレスから始まるもの）であれば正規化して返します
+function fullStructType(structType: string): string | null {
+  if (!/^0x[0-9a-fA-F]+::\w+::\w+/.test(structType)) return null;
+  try {
+    return normalizeStructTag(structType);
+  } catch {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      `Invalid struct type: ${structType}`,
+    );
+  }
+}
+
+/**
+ * オブジェクトの型が絞り込みの指定に一致するかを判定します。
+ * 「module::Name」「Name」のような短い指定は末尾で、完全な型は型引数を除いて比較します。
+ *
+ * @param {string} type - オブジェクトの正規化済みの型
+ * @param {string} structType - 絞り込みの指定
+ * @returns {boolean} - 一致するか
+ */
+export function matchesStructType(type: string, structType: string): boolean {
+  const base = type.split("<")[0];
+  const full = fullStructType(structType);
+  if (full) {
+    return full.includes("<") ? type === full : base === full.split("<")[0];
+  }
+  const suffix = `::${structType.replace(/^::/, "")}`.toLowerCase();
+  return base.toLowerCase().endsWith(suffix);
+}
+
+// RPCに渡す絞り込み条件を作ります（短い型の指定は取得後に絞り込みます）
+function objectFilter(
+  query: OwnedObjectsPageQuery,
+): SuiObjectDataFilter | undefined {
+  const full = query.structType ? fullStructType(query.structType) : null;
+  if (full) return { StructType: full };
+  if (query.includeCoins) return undefined;
+  return { MatchNone: [{ StructType: COIN_STRUCT_TYPE }] };
+}
+
+// Displayの値を文字列として取り出します（空文字は未設定扱い）
+function displayField(
+  display: Record<string, string> | null,
+  key: string,
+): string | null {
+  const value = display?.[key];
+  return typeof value === "string" && value.trim() ? value : null;
+}
+
+/**
+ * RPCのオブジェクトデータを要約に変換します。
+ *
+ * @param {SuiObjectData} data - showType/showDisplay付きのオブジェクトデータ
+ * @returns {OwnedObjectSummary} - 要約
+ */
+export function summarizeObject(data: SuiObjectData): OwnedObjectSummary {
+  const display = (data.display?.data as Record<string, string> | null) ?? null;
+  return {
+    objectId: normalizeSuiAddress(data.objectId),
+    type: data.type ? normalizeStructTag(data.type) : "unknown",
+    name: displayField(display, "name"),
+    description: displayField(display, "description"),
+    imageUrl: displayField(display, "image_url"),
+    display,
+  };
+}
+
+/**
+ * オブジェクトをMove型ごとにまとめます。件数の多い順、同数なら型名順に並べます。
+ *
+ * @param {OwnedObjectSummary[]} objects - オブジェクト
+ * @returns {OwnedObjectGroup[]} - 型ごとのまとまり
+ */
+export function groupObjectsByType(
+  objects: OwnedObjectSummary[],
+): OwnedObjectGroup[] {
+  const groups = new Map<string, OwnedObjectGroup>();
+  for (const object of objects) {
+    const group = groups.get(object.type) ?? {
+      type: object.type,
+      count: 0,
+      objects: [],
+    };
+    group.count += 1;
+    group.objects.push(object);
+    groups.set(object.type, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.count - a.count || a.type.localeCompare(b.type),
+  );
+}
+
+/**
+ * ウォレットが所有するオブジェクトを1ページ分取得し、Move型ごとにまとめます。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {OwnedObjectsPageQuery} query - カーソル・件数・型の絞り込み
+ * @returns {Promise<OwnedObjectsPage>} - 所有オブジェクトの1ページ
+ */
+export async function fetchOwnedObjects(
+  service: SuiWalletService,
+  query: OwnedObjectsPageQuery = {},
+): Promise<OwnedObjectsPage> {
+  const address = service.getAddress();
+  const result = await service.getOwnedObjects({
+    cursor: query.cursor ?? null,
+    limit: Math.min(Math.max(query.limit ?? 20, 1), 50),
+    filter: objectFilter(query),
+  });
+  const objects = result.data
+    .flatMap((response) => (response.data ? [response.data] : []))
+    .map(summarizeObject)
+    .filter(
+      (object) =>
+        !query.structType || matchesStructType(object.type, query.structType),
+    );
+  return {
+    address,
+    objects,
+    groups: groupObjectsByType(objects),
+    nextCursor: result.hasNextPage ? (result.nextCursor ?? null) : null,
+    hasNextPage: result.hasNextPage,
+  };
+}
+
+/**
+ * オブジェクト1件を「名前 (ID)」の形で表します。
+ *
+ * @param {OwnedObjectSummary} object - オブジェクト
+ * @returns {string} - 表示用の文字列
+ */
+export function describeObject(object: OwnedObjectSummary): string {
+  return object.name ? `${object.name} (${object.objectId})` : object.objectId;
+}
+
+/**
+ * 所有オブジェクトのページを型ごとの一覧に整形します。
+ *
+ * @param {OwnedObjectsPage} page - 所有オブジェクトの1ページ
+ * @param {string} heading - 見出し（省略時は既定の見出し）
+ * @param {AddressNames} names - ウォレットのアドレスから逆引きしたSuiNS名
+ * @returns {string} - 整形したテキスト
+ */
+export function formatOwnedObjects(
+  page: OwnedObjectsPage,
+  heading?: string,
+  names: AddressNames = {},
+): string {
+  const wallet = formatAddress(page.address, names);
+  if (page.objects.length === 0) {
+    return `No objects found for Sui wallet ${wallet}.`;
+  }
+  const lines = [heading ?? `Objects owned by Sui wallet ${wallet}:`];
+  for (const group of page.groups) {
+    lines.push(`${group.type} (${group.count})`);
+    for (const object of group.objects) {
+      const details = [
+        object.description,
+        object.imageUrl ? `image: ${object.imageUrl}` : null,
+      ].filter(Boolean);
+      lines.push(
+        `- ${describeObject(object)}${details.length > 0 ? ` — ${details.join("; ")}` : ""}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+// 所有オブジェクトのキャッシュキー（ウォレットごと）
+function objectsCacheKey(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): string {
+  return `sui:objects:${walletCacheScope(runtime, service)}`;
+}
+
+/**
+ * キャッシュを考慮して所有オブジェクトの最初のページを取得します。
+ * 有効期間はポートフォリオと同じSUI_PORTFOLIO_TTL_MSを使います。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {Promise<OwnedObjectsPage>} - 所有オブジェクトの最初のページ
+ */
+export async function getCachedOwnedObjects(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<OwnedObjectsPage> {
+  const key = objectsCacheKey(runtime, service);
+  const cached = await runtime.getCache<
+    OwnedObjectsPage & { fetchedAt: number }
+  >(key);
+  const ttl = service.getConfig().SUI_PORTFOLIO_TTL_MS;
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return cached;
+  }
+  const page = await fetchOwnedObjects(service, {
+    limit: OWNED_OBJECTS_PROVIDER_LIMIT,
+  });
+  await runtime.setCache(key, { ...page, fetchedAt: Date.now() });
+  return page;
+}
+
+/**
+ * 所有オブジェクトのキャッシュを破棄します。オブジェクトを送った後に呼び出します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 対象のウォレット
+ */
+export async function invalidateObjectsCache(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<void> {
+  await runtime.deleteCache(objectsCacheKey(runtime, service));
+}
+
+/**
+ * ウォレットが所有するNFTなどのオブジェクトを型ごとの件数でエージェントの状態に挿入するプロバイダーです。
+ */
+export const suiOwnedObjectsProvider: Provider = {
+  name: "SUI_OWNED_OBJECTS", // プロバイダーの一意な名前
+  description:
+    "NFTs and other objects owned by the agent's Sui wallet, grouped by Move type", // プロバイダーの説明
+
+  // データを取得する関数
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<ProviderResult> => {
+    // 預かりウォレットが有効な場合は、まだウォレットを持たない利用者には何も表示しない
+    const service = await getWalletService(runtime, message, {
+      create: false,
+    });
+    if (!service?.hasSigner()) {
+      return { text: "", values: {}, data: {} };
+    }
+
+    try {
+      const page = await getCachedOwnedObjects(runtime, service);
+      const names = await service
+        .getNameResolver()
+        .lookupAddresses([page.address]);
+      const wallet = formatAddress(page.address, names);
+      const summary =
+        page.objects.length === 0
+          ? `Sui wallet ${wallet} owns no objects besides coins.`
+          : [
+              `Sui wallet ${wallet} owns${page.hasNextPage ? " at least" : ""} ${page.objects.length} objects besides coins:`,
+              ...page.groups.map((group) => {
+                const named = group.objects
+                  .map((object) => object.name)
+                  .filter(Boolean)
+                  .slice(0, 3);
+                return `- ${group.count} × ${group.type}${named.length > 0 ? ` (e.g. ${named.join(", ")})` : ""}`;
+              }),
+            ].join("\n");
+      return {
+        text: summary,
+        values: {
+          ownedObjectCount: page.objects.length,
+          ownedObjectTypes: page.groups.map(({ type, count }) => ({
+            type,
+            count,
+          })),
+        },
+        data: { objects: page },
+      };
+    } catch (error) {
+      logger.error({ error }, "Error in SUI_OWNED_OBJECTS provider:");
+      return {
+        text: "Sui wallet objects are currently unavailable.",
+        values: {},
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  },
+};
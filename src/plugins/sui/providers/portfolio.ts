@@ -0,0 +1,323 @@
+// ElizaOSコアからプロバイダー関連の型やモジュールをインポートします。
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { normalizeStructTag } from "@mysten/sui/utils";
+import { type AddressNames, formatAddress } from "../names.ts";
+import {
+  type CoinPrice,
+  formatPriceAge,
+  formatUsd,
+  getCoinPrices,
+} from "../prices.ts";
+import type { SuiWalletService } from "../service.ts";
+import { SUI_COIN_TYPE, coinSymbol, formatAmount } from "../utils.ts";
+import { getWalletService, walletCacheScope } from "../wallets.ts";
+
+/**
+ * 1種類のコインの保有状況です。
+ */
+export interface PortfolioCoin {
+  coinType: string; // 正規化済みのコインタイプ
+  symbol: string; // 表示用シンボル
+  decimals: number; // 小数桁数
+  balance: string; // 人が読める単位の残高
+  rawBalance: string; // 最小単位の残高
+}
+
+/**
+ * 評価額を添えた1種類のコインの残高です（評価額の項目は価格ソースがある場合のみ）。
+ */
+export interface PortfolioCoinValue {
+  symbol: string; // 表示用シンボル
+  balance: string; // 人が読める単位の残高
+  coinType: string; // 正規化済みのコインタイプ
+  usdPrice?: number | null; // 提示できるUSD価格
+  usdValue?: number | null; // 評価額（USD）
+  priceUpdatedAt?: number | null; // 価格の観測時刻
+  priceStale?: boolean; // 価格が古すぎて提示できない
+}
+
+/**
+ * ウォレット全体の保有状況です。
+ */
+export interface Portfolio {
+  address: string; // ウォレットのアドレス
+  totalSui: string; // SUIの残高（人が読める単位）
+  coins: PortfolioCoin[]; // コインごとの残高
+  fetchedAt: number; // 取得時刻
+}
+
+// ポートフォリオのキャッシュキー（ウォレットごと）
+function portfolioCacheKey(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): string {
+  return `sui:portfolio:${walletCacheScope(runtime, service)}`;
+}
+
+/**
+ * ウォレットが保有する全コインの残高を取得し、メタデータで小数桁を正規化します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {Promise<Portfolio>} - ポートフォリオ
+ */
+export async function fetchPortfolio(
+  service: SuiWalletService,
+): Promise<Portfolio> {
+  const balances = await service.getBalances();
+  const coins: PortfolioCoin[] = [];
+
+  for (const balance of balances) {
+    const coinType = normalizeStructTag(balance.coinType);
+    const metadata = await service.getCoinMetadata(balance.coinType);
+    const decimals = metadata?.decimals ?? 0;
+    coins.push({
+      coinType,
+      symbol: metadata?.symbol || coinSymbol(coinType),
+      decimals,
+      balance: formatAmount(balance.totalBalance, decimals),
+      rawBalance: balance.totalBalance,
+    });
+  }
+
+  // SUIを先頭にし、残りはシンボル順に並べる
+  coins.sort((a, b) =>
+    a.coinType === SUI_COIN_TYPE
+      ? -1
+      : b.coinType === SUI_COIN_TYPE
+        ? 1
+        : a.symbol.localeCompare(b.symbol),
+  );
+
+  return {
+    address: service.getAddress(),
+    totalSui:
+      coins.find((coin) => coin.coinType === SUI_COIN_TYPE)?.balance ?? "0",
+    coins,
+    fetchedAt: Date.now(),
+  };
+}
+
+/**
+ * キャッシュを考慮してポートフォリオを取得します。
+ * 有効期間内であればRPCを呼ばずにキャッシュを返します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {Promise<Portfolio>} - ポートフォリオ
+ */
+export async function getCachedPortfolio(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<Portfolio> {
+  const key = portfolioCacheKey(runtime, service);
+  const cached = await runtime.getCache<Portfolio>(key);
+  const ttl = service.getConfig().SUI_PORTFOLIO_TTL_MS;
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return cached;
+  }
+  const portfolio = await fetchPortfolio(service);
+  await runtime.setCache(key, portfolio);
+  return portfolio;
+}
+
+/**
+ * ポートフォリオのキャッシュを破棄します。送金などで残高が変わった後に呼び出します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 対象のウォレット
+ */
+export async function invalidatePortfolioCache(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<void> {
+  await runtime.deleteCache(portfolioCacheKey(runtime, service));
+}
+
+/**
+ * ポートフォリオが保有するコインのUSD価格を取得します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {Portfolio} portfolio - ポートフォリオ
+ * @returns {Promise<Record<string, CoinPrice> | null>} - コインタイプごとの価格（価格ソースが無ければnull）
+ */
+export async function getPortfolioPrices(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  portfolio: Portfolio,
+): Promise<Record<string, CoinPrice> | null> {
+  if (service.getPriceSources().length === 0) return null;
+  return getCoinPrices(
+    runtime,
+    service,
+    portfolio.coins.map((coin) => coin.coinType),
+  );
+}
+
+/**
+ * コインの評価額（USD）を計算します。
+ *
+ * @param {PortfolioCoin} coin - 保有しているコイン
+ * @param {CoinPrice | undefined} price - そのコインの価格
+ * @returns {number | null} - 評価額（提示できる価格が無ければnull）
+ */
+export function coinUsdValue(
+  coin: PortfolioCoin,
+  price: CoinPrice | undefined,
+): number | null {
+  return price?.usd == null ? null : Number(coin.balance) * price.usd;
+}
+
+/**
+ * ポートフォリオ全体の評価額（USD）を計算します。提示できる価格があるコインだけを合計します。
+ *
+ * @param {Portfolio} portfolio - ポートフォリオ
+ * @param {Record<string, CoinPrice>} prices - コインタイプごとの価格
+ * @returns {number | null} - 合計額（価格のあるコインが1つも無ければnull）
+ */
+export function portfolioUsdValue(
+  portfolio: Portfolio,
+  prices: Record<string, CoinPrice>,
+): number | null {
+  const values = portfolio.coins
+    .map((coin) => coinUsdValue(coin, prices[coin.coinType]))
+    .filter((value): value is number => value !== null);
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0)
+    : null;
+}
+
+/**
+ * コインごとの残高と評価額を、プロバイダーの値やAPIの応答に使える形にまとめます。
+ * 価格ソースが無い場合（pricesがnull）は評価額の項目を含めません。
+ *
+ * @param {Portfolio} portfolio - ポートフォリオ
+ * @param {Record<string, CoinPrice> | null} prices - コインタイプごとの価格
+ * @returns {PortfolioCoinValue[]} - コインごとの残高と評価額
+ */
+export function portfolioCoinValues(
+  portfolio: Portfolio,
+  prices: Record<string, CoinPrice> | null,
+): PortfolioCoinValue[] {
+  return portfolio.coins.map((coin) => {
+    const price = prices?.[coin.coinType];
+    return {
+      symbol: coin.symbol,
+      balance: coin.balance,
+      coinType: coin.coinType,
+      ...(prices
+        ? {
+            usdPrice: price?.usd ?? null,
+            usdValue: coinUsdValue(coin, price),
+            priceUpdatedAt: price?.updatedAt ?? null,
+            priceStale: price?.stale ?? false,
+          }
+        : {}),
+    };
+  });
+}
+
+// 1行分の価格の注記（古い価格は金額を出さず、いつの価格かだけを伝える）
+function formatPriceNote(coin: PortfolioCoin, price?: CoinPrice): string {
+  const value = coinUsdValue(coin, price);
+  if (value !== null) return ` (≈ ${formatUsd(value)})`;
+  if (price?.stale && price.updatedAt !== null) {
+    return ` (USD price is too old to quote: last updated ${formatPriceAge(Date.now() - price.updatedAt)} ago)`;
+  }
+  return " (no USD price available)";
+}
+
+/**
+ * ポートフォリオを短いテキストに整形します。
+ * 価格を渡した場合は評価額を添え、古すぎる価格は金額の代わりにその旨を表示します。
+ *
+ * @param {Portfolio} portfolio - ポートフォリオ
+ * @param {AddressNames} names - 逆引きしたSuiNS名（アドレスの横に表示します）
+ * @param {Record<string, CoinPrice> | null} prices - コインタイプごとの価格（nullなら評価額を表示しない）
+ * @returns {string} - エージェントの状態に挿入するテキスト
+ */
+export function formatPortfolio(
+  portfolio: Portfolio,
+  names: AddressNames = {},
+  prices: Record<string, CoinPrice> | null = null,
+): string {
+  const wallet = formatAddress(portfolio.address, names);
+  if (portfolio.coins.length === 0) {
+    return `Sui wallet ${wallet} holds no coins.`;
+  }
+  const lines = portfolio.coins.map(
+    (coin) =>
+      `- ${coin.balance} ${coin.symbol}${prices ? formatPriceNote(coin, prices[coin.coinType]) : ""}`,
+  );
+  if (prices) {
+    const total = portfolioUsdValue(portfolio, prices);
+    const unpriced = portfolio.coins
+      .filter((coin) => coinUsdValue(coin, prices[coin.coinType]) === null)
+      .map((coin) => coin.symbol);
+    if (total !== null) {
+      lines.push(
+        `Total value: ≈ ${formatUsd(total)}${unpriced.length > 0 ? ` (excluding ${unpriced.join(", ")})` : ""}`,
+      );
+    }
+  }
+  return [`Sui wallet ${wallet} holds:`, ...lines].join("\n");
+}
+
+/**
+ * ウォレットの保有残高をエージェントの状態に挿入するプロバイダーです。
+ * これによりエージェントはアクションを呼ばずに「いくら持っている？」に答えられます。
+ */
+export const suiPortfolioProvider: Provider = {
+  name: "SUI_PORTFOLIO", // プロバイダーの一意な名前
+  description: "Coin balances held by the agent's Sui wallet", // プロバイダーの説明
+
+  // データを取得する関数
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<ProviderResult> => {
+    // 預かりウォレットが有効な場合は、まだウォレットを持たない利用者には何も表示しない
+    const service = await getWalletService(runtime, message, {
+      create: false,
+    });
+    if (!service?.hasSigner()) {
+      return { text: "", values: {}, data: {} };
+    }
+
+    try {
+      const portfolio = await getCachedPortfolio(runtime, service);
+      const names = await service
+        .getNameResolver()
+        .lookupAddresses([portfolio.address]);
+      const prices = await getPortfolioPrices(runtime, service, portfolio);
+      return {
+        text: formatPortfolio(portfolio, names, prices),
+        values: {
+          suiAddress: portfolio.address,
+          suiName: names[portfolio.address] ?? null,
+          totalSui: portfolio.totalSui,
+          totalUsd: prices ? portfolioUsdValue(portfolio, prices) : null,
+          coins: portfolioCoinValues(portfolio, prices),
+        },
+        data: { portfolio, prices },
+      };
+    } catch (error) {
+      logger.error({ error }, "Error in SUI_PORTFOLIO provider:");
+      return {
+        text: "Sui wallet balances are currently unavailable.",
+        values: {},
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  },
+};
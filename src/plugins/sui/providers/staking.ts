@@ -0,0 +1,149 @@
+// ElizaOSコアからプロバイダー関連の型やモジュールをインポートします。
+import {
+  type IAgentRuntime,
+  type Memory,
+  type Provider,
+  type ProviderResult,
+  type State,
+  logger,
+} from "@elizaos/core";
+import { SUI_DECIMALS } from "@mysten/sui/utils";
+import { type AddressNames, formatAddress } from "../names.ts";
+import type { SuiWalletService } from "../service.ts";
+import { type StakeSummary, fetchStakes, totalStaked } from "../staking.ts";
+import { formatAmount } from "../utils.ts";
+import { getWalletService, walletCacheScope } from "../wallets.ts";
+
+/**
+ * ウォレットのステーキング状況です。
+ */
+export interface StakingPosition {
+  address: string; // ウォレットのアドレス
+  stakes: StakeSummary[]; // StakedSuiごとの状態
+  totalStaked: string; // 元本の合計（人が読める単位のSUI）
+  estimatedRewards: string; // 見積もり報酬の合計（人が読める単位のSUI）
+  fetchedAt: number; // 取得時刻
+}
+
+// ステーキング状況のキャッシュキー（ウォレットごと）
+function stakingCacheKey(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): string {
+  return `sui:stakes:${walletCacheScope(runtime, service)}`;
+}
+
+/**
+ * キャッシュを考慮してステーキング状況を取得します。有効期間はポートフォリオと同じです。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {Promise<StakingPosition>} - ステーキング状況
+ */
+export async function getCachedStakingPosition(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<StakingPosition> {
+  const key = stakingCacheKey(runtime, service);
+  const cached = await runtime.getCache<StakingPosition>(key);
+  const ttl = service.getConfig().SUI_PORTFOLIO_TTL_MS;
+  if (cached && Date.now() - cached.fetchedAt < ttl) {
+    return cached;
+  }
+  const stakes = await fetchStakes(service);
+  const totals = totalStaked(stakes);
+  const position: StakingPosition = {
+    address: service.getAddress(),
+    stakes,
+    totalStaked: formatAmount(totals.principal, SUI_DECIMALS),
+    estimatedRewards: formatAmount(totals.rewards, SUI_DECIMALS),
+    fetchedAt: Date.now(),
+  };
+  await runtime.setCache(key, position);
+  return position;
+}
+
+/**
+ * ステーキング状況のキャッシュを破棄します。ステーク・引き出しの後に呼び出します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - 対象のウォレット
+ */
+export async function invalidateStakingCache(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): Promise<void> {
+  await runtime.deleteCache(stakingCacheKey(runtime, service));
+}
+
+/**
+ * ステーキング状況を短いテキストに整形します。
+ *
+ * @param {StakingPosition} position - ステーキング状況
+ * @param {AddressNames} names - ウォレットのアドレスから逆引きしたSuiNS名
+ * @returns {string} - エージェントの状態に挿入するテキスト
+ */
+export function formatStakingPosition(
+  position: StakingPosition,
+  names: AddressNames = {},
+): string {
+  const wallet = formatAddress(position.address, names);
+  if (position.stakes.length === 0) {
+    return `Sui wallet ${wallet} has no staked SUI.`;
+  }
+  const validators = new Set(
+    position.stakes.map((stake) => stake.validatorAddress),
+  );
+  const pending = position.stakes.filter(
+    (stake) => stake.status === "Pending",
+  ).length;
+  return `Sui wallet ${wallet} has ${position.totalStaked} SUI staked with ${validators.size} validator${validators.size === 1 ? "" : "s"} (estimated rewards ${position.estimatedRewards} SUI${pending > 0 ? `, ${pending} pending` : ""}).`;
+}
+
+/**
+ * ステークしているSUIの合計をエージェントの状態に挿入するプロバイダーです。
+ */
+export const suiStakingProvider: Provider = {
+  name: "SUI_STAKING", // プロバイダーの一意な名前
+  description: "Total SUI staked by the agent's wallet and estimated rewards", // プロバイダーの説明
+
+  // データを取得する関数
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    _state: State,
+  ): Promise<ProviderResult> => {
+    // 預かりウォレットが有効な場合は、まだウォレットを持たない利用者には何も表示しない
+    const service = await getWalletService(runtime, message, {
+      create: false,
+    });
+    if (!service?.hasSigner()) {
+      return { text: "", values: {}, data: {} };
+    }
+
+    try {
+      const position = await getCachedStakingPosition(runtime, service);
+      const names = await service
+        .getNameResolver()
+        .lookupAddresses([position.address]);
+      return {
+        text: formatStakingPosition(position, names),
+        values: {
+          totalStakedSui: position.totalStaked,
+          estimatedStakingRewards: position.estimatedRewards,
+          stakeCount: position.stakes.length,
+        },
+        data: { staking: position },
+      };
+    } catch (error) {
+      logger.error({ error }, "Error in SUI_STAKING provider:");
+      return {
+        text: "Sui staking positions are currently unavailable.",
+        values: {},
+        data: {
+          error: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  },
+};
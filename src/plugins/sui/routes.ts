@@ -0,0 +1,792 @@
+// ElizaOSコアからルートの型とロガーをインポートします。
+import { type IAgentRuntime, type Route, logger } from "@elizaos/core";
+import {
+  fromBase64,
+  isValidTransactionDigest,
+  toBase64,
+} from "@mysten/sui/utils";
+// zodをインポートして、読み取り用APIのクエリを検証します。
+import { z } from "zod";
+import {
+  SUI_MOVE_CALL,
+  executeMoveCall,
+  pendingMoveCallSchema,
+} from "./actions/moveCall.ts";
+import {
+  SUI_STAKE,
+  executeStake,
+  stakeParamsSchema,
+} from "./actions/staking.ts";
+import { SUI_SWAP, executeSwap, swapParamsSchema } from "./actions/swap.ts";
+import {
+  SUI_TRANSFER,
+  executeTransfer,
+  transferParamsSchema,
+} from "./actions/transfer.ts";
+import {
+  ACTIVITY_STATUSES,
+  type ActivityStatus,
+  listActivity,
+  listActivityActions,
+} from "./activity.ts";
+import {
+  AUDIT_EXPORT_FORMATS,
+  formatTransactionAudit,
+  getTransactionAuditHead,
+  listTransactionAudit,
+  verifyTransactionAudit,
+} from "./audit.ts";
+import {
+  APPROVAL_STATUSES,
+  type ApprovalExecutor,
+  type ApprovalStatus,
+  approveRequest,
+  createApprovalExecutor,
+  listApprovals,
+  rejectRequest,
+} from "./approval.ts";
+import {
+  type SuiApiPrincipal,
+  type SuiApiRole,
+  authenticateApiRequest,
+  hasApiRole,
+  issueSessionToken,
+  listAccessLog,
+  recordAccess,
+} from "./auth.ts";
+import { SUI_API_ROLES, getSuiConfig } from "./config.ts";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { getSpendingPolicy } from "./policy.ts";
+import {
+  type TransactionHistoryPage,
+  type TransactionSummary,
+  getCachedRecentTransactions,
+  summarizeTransaction,
+} from "./providers/history.ts";
+import {
+  type OwnedObjectSummary,
+  fetchOwnedObjects,
+} from "./providers/objects.ts";
+import {
+  type PortfolioCoin,
+  type PortfolioCoinValue,
+  getCachedPortfolio,
+  getPortfolioPrices,
+  portfolioCoinValues,
+  portfolioUsdValue,
+} from "./providers/portfolio.ts";
+import {
+  type StakingPosition,
+  getCachedStakingPosition,
+} from "./providers/staking.ts";
+import { SuiWalletService } from "./service.ts";
+import type { StakeSummary } from "./staking.ts";
+
+/**
+ * 承認後に再開できるアクションと、その実行関数の対応表です。
+ * 保存したパラメータは各アクションのスキーマで検証してから実行します。
+ */
+export const APPROVAL_EXECUTORS: Record<string, ApprovalExecutor> = {
+  [SUI_TRANSFER]: createApprovalExecutor(transferParamsSchema, executeTransfer),
+  [SUI_MOVE_CALL]: createApprovalExecutor(
+    pendingMoveCallSchema,
+    executeMoveCall,
+  ),
+  [SUI_SWAP]: createApprovalExecutor(swapParamsSchema, executeSwap),
+  [SUI_STAKE]: createApprovalExecutor(stakeParamsSchema, executeStake),
+};
+
+// エラーコードごとのHTTPステータス
+const HTTP_STATUS: Partial<Record<SuiErrorCode, number>> = {
+  [SuiErrorCode.INVALID_ARGUMENT]: 400,
+  [SuiErrorCode.INVALID_CURSOR]: 400,
+  [SuiErrorCode.UNAUTHENTICATED]: 401,
+  [SuiErrorCode.NOT_AUTHORIZED]: 403,
+  [SuiErrorCode.APPROVAL_NOT_FOUND]: 404,
+  [SuiErrorCode.APPROVAL_NOT_PENDING]: 409,
+  [SuiErrorCode.WALLET_UNAVAILABLE]: 503,
+};
+
+// 例外を { error: { code, message } } の形で返します（コードの無い例外はfallbackCodeにし、envelopeの項目を添えます）
+function sendError(
+  res: any,
+  error: unknown,
+  fallbackCode: SuiErrorCode = SuiErrorCode.APPROVAL_FAILED,
+  envelope: Record<string, unknown> = {},
+): void {
+  const code = error instanceof SuiActionError ? error.code : fallbackCode;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = HTTP_STATUS[code] ?? 500;
+  if (status >= 500) {
+    logger.error({ error: message, code }, "Error in Sui route:");
+  }
+  res.status(status).json({ ...envelope, error: { code, message } });
+}
+
+/**
+ * 認証済みの呼び出し元を受け取るルートです（withRoleで包んでから登録します）。
+ */
+export type AuthenticatedRoute = Omit<Route, "handler"> & {
+  handler: (
+    req: any,
+    res: any,
+    runtime: IAgentRuntime,
+    principal: SuiApiPrincipal,
+  ) => Promise<void>;
+};
+
+/**
+ * ルートに必要な役割を付けます。呼び出しごとにAPIキー・ベアラートークンを検証し、
+ * 認証できなければ401、役割が足りなければ403を{ error: { code, message } }の形で返します。
+ * operator・adminのルートへの呼び出しと、拒否した呼び出しはアクセスの監査ログに記録します。
+ * 認可したハンドラーには、認証した呼び出し元を4番目の引数で渡します。
+ *
+ * @param {SuiApiRole} requiredRole - ルートに必要な役割
+ * @param {AuthenticatedRoute[]} routes - 対象のルート
+ * @param {Record<string, unknown>} envelope - エラー応答に添える項目（読み取り用APIのapiVersionなど）
+ * @returns {Route[]} - 認証・認可を行うルート
+ */
+export function withRole(
+  requiredRole: SuiApiRole,
+  routes: AuthenticatedRoute[],
+  envelope: Record<string, unknown> = {},
+): Route[] {
+  return routes.map((route) => ({
+    ...route,
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      const access = {
+        at: Date.now(),
+        route: route.name ?? route.path,
+        method: route.type,
+        path: String(req?.originalUrl ?? route.path).split("?")[0],
+        requiredRole,
+      };
+      let principal: SuiApiPrincipal | null = null;
+      try {
+        principal = authenticateApiRequest(getSuiConfig(runtime), req);
+        // 認証が設定されていない場合、operator・adminのルートは明示的に許可しない限り閉じる
+        if (
+          principal.method === "open" &&
+          !hasApiRole(principal.role, requiredRole)
+        ) {
+          throw new SuiActionError(
+            SuiErrorCode.UNAUTHENTICATED,
+            `API authentication is not configured; set SUI_API_KEYS or SUI_API_TOKEN_SECRET to use routes that require the ${requiredRole} role`,
+          );
+        }
+        if (!hasApiRole(principal.role, requiredRole)) {
+          throw new SuiActionError(
+            SuiErrorCode.NOT_AUTHORIZED,
+            `This route requires the ${requiredRole} role`,
+          );
+        }
+      } catch (error) {
+        const code =
+          error instanceof SuiActionError
+            ? error.code
+            : SuiErrorCode.UNAUTHENTICATED;
+        await recordAccess(runtime, {
+          ...access,
+          subject: principal?.subject ?? null,
+          role: principal?.role ?? null,
+          outcome: "denied",
+          status: HTTP_STATUS[code] ?? 500,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        sendError(res, error, SuiErrorCode.UNAUTHENTICATED, envelope);
+        return;
+      }
+      if (requiredRole !== "viewer") {
+        await recordAccess(runtime, {
+          ...access,
+          subject: principal.subject,
+          role: principal.role,
+          outcome: "allowed",
+        });
+      }
+      await route.handler(req, res, runtime, principal);
+    },
+  }));
+}
+
+// リクエストボディから任意の文字列項目を取り出します
+function bodyString(req: any, key: string): string | undefined {
+  const value = req.body?.[key];
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * ダッシュボードのパネルがサインインに使うAPIルートです。
+ * POST /sui/auth/session に"X-API-Key"ヘッダーを付けて呼ぶと、同じ呼び出し元の短命のベアラートークンを返します
+ * （ボディのroleでキーより低い役割を求められます）。パネルはAPIキーを保持せず、このトークンだけを使います。
+ */
+export const suiSessionRoutes: Route[] = withRole("viewer", [
+  {
+    name: "sui-auth-session",
+    path: "/sui/auth/session",
+    type: "POST",
+    handler: async (
+      req: any,
+      res: any,
+      runtime: IAgentRuntime,
+      principal: SuiApiPrincipal,
+    ) => {
+      try {
+        const role = bodyString(req, "role");
+        if (role !== undefined && !SUI_API_ROLES.includes(role as SuiApiRole)) {
+          throw new SuiActionError(
+            SuiErrorCode.INVALID_ARGUMENT,
+            `role must be one of ${SUI_API_ROLES.join(", ")}`,
+          );
+        }
+        const session = issueSessionToken(
+          getSuiConfig(runtime),
+          principal,
+          role as SuiApiRole | undefined,
+        );
+        logger.info(
+          { subject: session.subject, role: session.role },
+          "Issued a Sui API session token",
+        );
+        res.json({ session });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.UNAUTHENTICATED);
+      }
+    },
+  },
+]);
+
+/**
+ * 承認キューを操作するAPIルートです（operatorの役割が必要）。
+ * GET /sui/approvals?status=pending で一覧、POST .../approve と .../reject で承認・却下します。
+ */
+export const suiApprovalRoutes: Route[] = withRole("operator", [
+  {
+    name: "sui-approvals",
+    path: "/sui/approvals",
+    type: "GET",
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const status = req.query?.status;
+        if (
+          status !== undefined &&
+          !APPROVAL_STATUSES.includes(status as ApprovalStatus)
+        ) {
+          throw new SuiActionError(
+            SuiErrorCode.INVALID_ARGUMENT,
+            `status must be one of ${APPROVAL_STATUSES.join(", ")}`,
+          );
+        }
+        const approvals = await listApprovals(runtime, status);
+        res.json({ approvals });
+      } catch (error) {
+        sendError(res, error);
+      }
+    },
+  },
+  {
+    name: "sui-approvals-approve",
+    path: "/sui/approvals/:id/approve",
+    type: "POST",
+    handler: async (
+      req: any,
+      res: any,
+      runtime: IAgentRuntime,
+      principal: SuiApiPrincipal,
+    ) => {
+      try {
+        // 承認した人は、リクエストボディではなく認証した呼び出し元から記録する
+        const approval = await approveRequest(
+          runtime,
+          req.params?.id,
+          APPROVAL_EXECUTORS,
+          principal.subject,
+        );
+        res.json({ approval });
+      } catch (error) {
+        sendError(res, error);
+      }
+    },
+  },
+  {
+    name: "sui-approvals-reject",
+    path: "/sui/approvals/:id/reject",
+    type: "POST",
+    handler: async (
+      req: any,
+      res: any,
+      runtime: IAgentRuntime,
+      principal: SuiApiPrincipal,
+    ) => {
+      try {
+        const approval = await rejectRequest(
+          runtime,
+          req.params?.id,
+          bodyString(req, "reason"),
+          principal.subject,
+        );
+        res.json({ approval });
+      } catch (error) {
+        sendError(res, error);
+      }
+    },
+  },
+]);
+
+/**
+ * ダッシュボードに表示するウォレットの概要です。
+ */
+export interface WalletOverview {
+  address: string; // ウォレットのアドレス
+  name: string | null; // 逆引きしたSuiNS名
+  network: string; // 接続先ネットワーク
+  readOnly: boolean; // 読み取り専用モードか
+  totalSui: string; // SUIの残高（人が読める単位）
+  totalUsd: number | null; // 評価額の合計（価格が無ければnull）
+  coins: PortfolioCoinValue[]; // コインごとの残高と評価額
+  fetchedAt: number; // 残高の取得時刻
+}
+
+// ダッシュボードと読み取り用APIが対象にするエージェント自身のウォレットを返します
+function getAgentWallet(runtime: IAgentRuntime): SuiWalletService {
+  const service = runtime.getService<SuiWalletService>(
+    SuiWalletService.serviceType,
+  );
+  if (!service?.hasSigner()) {
+    throw new SuiActionError(
+      SuiErrorCode.WALLET_UNAVAILABLE,
+      "Sui wallet is not configured",
+    );
+  }
+  return service;
+}
+
+/**
+ * ウォレットのダッシュボード用のAPIルートです。
+ * エージェント自身のウォレットの概要・ステーキング状況・直近のトランザクションを返します（キャッシュはプロバイダーと共通、viewerの役割が必要）。
+ */
+export const suiDashboardRoutes: Route[] = withRole("viewer", [
+  {
+    name: "sui-dashboard-wallet",
+    path: "/sui/dashboard/wallet",
+    type: "GET",
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const service = getAgentWallet(runtime);
+        const portfolio = await getCachedPortfolio(runtime, service);
+        const names = await service
+          .getNameResolver()
+          .lookupAddresses([portfolio.address]);
+        const prices = await getPortfolioPrices(runtime, service, portfolio);
+        const wallet: WalletOverview = {
+          address: portfolio.address,
+          name: names[portfolio.address] ?? null,
+          network: service.getConfig().SUI_NETWORK,
+          readOnly: service.isReadOnly(),
+          totalSui: portfolio.totalSui,
+          totalUsd: prices ? portfolioUsdValue(portfolio, prices) : null,
+          coins: portfolioCoinValues(portfolio, prices),
+          fetchedAt: portfolio.fetchedAt,
+        };
+        res.json({ wallet });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+  {
+    name: "sui-dashboard-stakes",
+    path: "/sui/dashboard/stakes",
+    type: "GET",
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const service = getAgentWallet(runtime);
+        const staking: StakingPosition = await getCachedStakingPosition(
+          runtime,
+          service,
+        );
+        res.json({ staking });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+  {
+    name: "sui-dashboard-transactions",
+    path: "/sui/dashboard/transactions",
+    type: "GET",
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const service = getAgentWallet(runtime);
+        const history: TransactionHistoryPage =
+          await getCachedRecentTransactions(runtime, service);
+        res.json({ history });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+]);
+
+/**
+ * アクション実行のタイムライン用のAPIルートです（viewerの役割が必要）。
+ * GET /sui/activity?action=SUI_TRANSFER&status=failed&since=<ミリ秒> で絞り込み、sinceを付けると以降に更新されたものだけを返します。
+ */
+export const suiActivityRoutes: Route[] = withRole("viewer", [
+  {
+    name: "sui-activity",
+    path: "/sui/activity",
+    type: "GET",
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const { action, status, since } = req.query ?? {};
+        if (
+          status !== undefined &&
+          !ACTIVITY_STATUSES.includes(status as ActivityStatus)
+        ) {
+          throw new SuiActionError(
+            SuiErrorCode.INVALID_ARGUMENT,
+            `status must be one of ${ACTIVITY_STATUSES.join(", ")}`,
+          );
+        }
+        if (since !== undefined && !/^\d+$/.test(since)) {
+          throw new SuiActionError(
+            SuiErrorCode.INVALID_ARGUMENT,
+            "since must be a timestamp in milliseconds",
+          );
+        }
+        const activity = await listActivity(runtime, {
+          action: typeof action === "string" && action ? action : undefined,
+          status,
+          since: since === undefined ? undefined : Number(since),
+        });
+        res.json({
+          activity,
+          actions: await listActivityActions(runtime),
+          fetchedAt: Date.now(),
+        });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+]);
+
+/** 読み取り用APIのバージョン（応答の`apiVersion`に入ります） */
+export const SUI_READ_API_VERSION = "v1";
+
+/** 読み取り用APIの1ページあたりの既定件数 */
+export const SUI_READ_API_PAGE_SIZE = 20;
+
+/**
+ * 読み取り用APIのページ情報です。次のページは`cursor`に`nextCursor`を渡して取得します。
+ */
+export interface SuiReadApiPage {
+  nextCursor: string | null; // 次のページのカーソル
+  hasNextPage: boolean; // 次のページがあるか
+}
+
+/**
+ * `/sui/address`が返すウォレットの情報です。
+ */
+export interface WalletAddress {
+  address: string; // ウォレットのアドレス
+  name: string | null; // 逆引きしたSuiNS名
+  network: string; // 接続先ネットワーク
+  readOnly: boolean; // 読み取り専用モードか
+}
+
+/**
+ * `/sui/balances`が返すコイン1種類の残高です（評価額の項目は価格ソースがある場合のみ）。
+ */
+export type WalletBalance = PortfolioCoin & PortfolioCoinValue;
+
+// どのルートでも受け付けるクエリ（エージェントの指定）
+const baseQuerySchema = z.object({ agentId: z.string().optional() });
+
+// 一覧のルートのページ指定
+const pageQuerySchema = baseQuerySchema.extend({
+  cursor: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(SUI_READ_API_PAGE_SIZE),
+});
+
+const addressQuerySchema = baseQuerySchema.strict();
+
+const balancesQuerySchema = pageQuerySchema.strict();
+
+const objectsQuerySchema = pageQuerySchema
+  .extend({
+    type: z.string().min(1).optional(), // 型による絞り込み（完全な型、"module::Name"、"Name"）
+    includeCoins: z
+      .enum(["true", "false"])
+      .transform((value) => value === "true")
+      .optional(),
+  })
+  .strict();
+
+const stakesQuerySchema = pageQuerySchema.strict();
+
+const transactionParamsSchema = z.object({
+  digest: z.string().refine(isValidTransactionDigest, {
+    message: "must be a Sui transaction digest",
+  }),
+});
+
+// zodでクエリやパスのパラメータを検証し、失敗した場合はINVALID_ARGUMENTにします
+function parseRequest<T extends z.ZodTypeAny>(
+  schema: T,
+  input: unknown,
+): z.output<T> {
+  const result = schema.safeParse(input ?? {});
+  if (!result.success) {
+    const issues = result.error.errors.map(
+      (issue) => `${issue.path.join(".") || "(query)"}: ${issue.message}`,
+    );
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_ARGUMENT,
+      `Invalid request: ${issues.join("; ")}`,
+    );
+  }
+  return result.data;
+}
+
+// 一覧を手元でページに分けます（カーソルはクライアントから見て不透明な文字列）
+function paginate<T>(
+  items: T[],
+  cursor: string | undefined,
+  limit: number,
+): { items: T[]; page: SuiReadApiPage } {
+  let offset = 0;
+  if (cursor) {
+    try {
+      const decoded = JSON.parse(new TextDecoder().decode(fromBase64(cursor)));
+      if (!Number.isInteger(decoded?.offset) || decoded.offset < 0) {
+        throw new Error();
+      }
+      offset = decoded.offset;
+    } catch {
+      throw new SuiActionError(SuiErrorCode.INVALID_CURSOR, "Invalid cursor");
+    }
+  }
+  const end = offset + limit;
+  const hasNextPage = end < items.length;
+  return {
+    items: items.slice(offset, end),
+    page: {
+      nextCursor: hasNextPage
+        ? toBase64(new TextEncoder().encode(JSON.stringify({ offset: end })))
+        : null,
+      hasNextPage,
+    },
+  };
+}
+
+// 読み取り用APIのハンドラーを包み、成功・失敗のどちらもバージョン付きの同じ形で返します
+function readApiHandler<T>(
+  read: (
+    req: any,
+    runtime: IAgentRuntime,
+  ) => Promise<{ data: T; page?: SuiReadApiPage }>,
+): AuthenticatedRoute["handler"] {
+  return async (req: any, res: any, runtime: IAgentRuntime) => {
+    try {
+      const { data, page } = await read(req, runtime);
+      res.json({
+        apiVersion: SUI_READ_API_VERSION,
+        data,
+        ...(page ? { page } : {}),
+      });
+    } catch (error) {
+      sendError(res, error, SuiErrorCode.READ_FAILED, {
+        apiVersion: SUI_READ_API_VERSION,
+      });
+    }
+  };
+}
+
+/**
+ * エージェントのウォレットを読み取るREST APIです（パネルと外部のスクリプトから使います）。
+ * 応答は`{ apiVersion, data, page? }`、失敗時は`{ apiVersion, error: { code, message } }`の形です。
+ * 一覧のルートは`limit`（1〜50）と、前の応答の`page.nextCursor`を渡す`cursor`でページを進めます（viewerの役割が必要）。
+ */
+export const suiReadApiRoutes: Route[] = withRole(
+  "viewer",
+  [
+    {
+      name: "sui-read-address",
+      path: "/sui/address",
+      type: "GET",
+      handler: readApiHandler<WalletAddress>(async (req, runtime) => {
+        parseRequest(addressQuerySchema, req.query);
+        const service = getAgentWallet(runtime);
+        const address = service.getAddress();
+        const names = await service
+          .getNameResolver()
+          .lookupAddresses([address]);
+        return {
+          data: {
+            address,
+            name: names[address] ?? null,
+            network: service.getConfig().SUI_NETWORK,
+            readOnly: service.isReadOnly(),
+          },
+        };
+      }),
+    },
+    {
+      name: "sui-read-balances",
+      path: "/sui/balances",
+      type: "GET",
+      handler: readApiHandler<WalletBalance[]>(async (req, runtime) => {
+        const query = parseRequest(balancesQuerySchema, req.query);
+        const service = getAgentWallet(runtime);
+        const portfolio = await getCachedPortfolio(runtime, service);
+        const prices = await getPortfolioPrices(runtime, service, portfolio);
+        const values = portfolioCoinValues(portfolio, prices);
+        const balances = portfolio.coins.map((coin, index) => ({
+          ...coin,
+          ...values[index],
+        }));
+        const { items, page } = paginate(balances, query.cursor, query.limit);
+        return { data: items, page };
+      }),
+    },
+    {
+      name: "sui-read-objects",
+      path: "/sui/objects",
+      type: "GET",
+      handler: readApiHandler<OwnedObjectSummary[]>(async (req, runtime) => {
+        const query = parseRequest(objectsQuerySchema, req.query);
+        const service = getAgentWallet(runtime);
+        const result = await fetchOwnedObjects(service, {
+          cursor: query.cursor,
+          limit: query.limit,
+          structType: query.type,
+          includeCoins: query.includeCoins,
+        });
+        return {
+          data: result.objects,
+          page: {
+            nextCursor: result.nextCursor,
+            hasNextPage: result.hasNextPage,
+          },
+        };
+      }),
+    },
+    {
+      name: "sui-read-transaction",
+      path: "/sui/tx/:digest",
+      type: "GET",
+      handler: readApiHandler<TransactionSummary>(async (req, runtime) => {
+        const { digest } = parseRequest(transactionParamsSchema, req.params);
+        parseRequest(addressQuerySchema, req.query);
+        const service = getAgentWallet(runtime);
+        return {
+          data: await summarizeTransaction(
+            service,
+            await service.getTransaction(digest),
+            service.getAddress(),
+          ),
+        };
+      }),
+    },
+    {
+      name: "sui-read-stakes",
+      path: "/sui/stakes",
+      type: "GET",
+      handler: readApiHandler<StakeSummary[]>(async (req, runtime) => {
+        const query = parseRequest(stakesQuerySchema, req.query);
+        const service = getAgentWallet(runtime);
+        const staking = await getCachedStakingPosition(runtime, service);
+        const { items, page } = paginate(
+          staking.stakes,
+          query.cursor,
+          query.limit,
+        );
+        return { data: items, page };
+      }),
+    },
+  ],
+  { apiVersion: SUI_READ_API_VERSION },
+);
+
+// 監査ログのエクスポートの形式
+const auditExportQuerySchema = baseQuerySchema
+  .extend({ format: z.enum(AUDIT_EXPORT_FORMATS).default("jsonl") })
+  .strict();
+
+// エクスポートの形式ごとのContent-Type
+const AUDIT_CONTENT_TYPES = {
+  jsonl: "application/x-ndjson; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+} as const;
+
+/**
+ * 支出ポリシーと監査ログを確認する管理用のAPIルートです（adminの役割が必要）。
+ * GET /sui/policy で有効な支出ポリシーを、GET /sui/audit/access でAPIルートへのアクセス記録を新しい順に返します。
+ * GET /sui/audit/transactions?format=jsonl|csv で署名・拒否したトランザクションの監査ログを古い順にエクスポートし、
+ * GET /sui/audit/transactions/verify でハッシュの鎖を先頭から再計算した結果を返します。
+ */
+export const suiAdminRoutes: Route[] = withRole("admin", [
+  {
+    name: "sui-policy",
+    path: "/sui/policy",
+    type: "GET",
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        res.json({ policy: getSpendingPolicy(runtime) });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+  {
+    name: "sui-audit-access",
+    path: "/sui/audit/access",
+    type: "GET",
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        res.json({ entries: await listAccessLog(runtime) });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+  {
+    name: "sui-audit-transactions",
+    path: "/sui/audit/transactions",
+    type: "GET",
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const { format } = parseRequest(auditExportQuerySchema, req.query);
+        const head = await getTransactionAuditHead(runtime);
+        const entries = await listTransactionAudit(runtime, head);
+        res.setHeader("Content-Type", AUDIT_CONTENT_TYPES[format]);
+        // 先頭の件数とハッシュを添え、エクスポートしたファイルの末尾が欠けていないかを検証できるようにします
+        res.setHeader("X-Audit-Count", String(head.count));
+        res.setHeader("X-Audit-Head-Hash", head.headHash);
+        res.setHeader(
+          "Content-Disposition",
+          `attachment; filename="sui-transactions-audit.${format}"`,
+        );
+        res.status(200).send(formatTransactionAudit(entries, format));
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+  {
+    name: "sui-audit-transactions-verify",
+    path: "/sui/audit/transactions/verify",
+    type: "GET",
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const head = await getTransactionAuditHead(runtime);
+        const entries = await listTransactionAudit(runtime, head);
+        res.json({ verification: verifyTransactionAudit(entries, head) });
+      } catch (error) {
+        sendError(res, error, SuiErrorCode.READ_FAILED);
+      }
+    },
+  },
+]);
@@ -0,0 +1,567 @@
+// ElizaOSコアからサービス関連の型やモジュールをインポートします。
+import { type IAgentRuntime, Service, type UUID, logger } from "@elizaos/core";
+// Sui SDKからクライアント、鍵ペア、トランザクション関連のモジュールをインポートします。
+import {
+  type CoinBalance,
+  type CoinMetadata,
+  type DelegatedStake,
+  type DryRunTransactionBlockResponse,
+  type EventId,
+  type PaginatedEvents,
+  type PaginatedObjectsResponse,
+  type PaginatedTransactionResponse,
+  type SuiMoveNormalizedFunction,
+  type SuiObjectDataFilter,
+  type SuiEventFilter,
+  type SuiObjectResponse,
+  type SuiSystemStateSummary,
+  type SuiTransactionBlockResponse,
+  type TransactionFilter,
+  type ValidatorsApy,
+  SuiClient,
+  getFullnodeUrl,
+} from "@mysten/sui/client";
+import type { Keypair, SignatureWithBytes } from "@mysten/sui/cryptography";
+import type { Transaction } from "@mysten/sui/transactions";
+import { SUI_TYPE_ARG } from "@mysten/sui/utils";
+import { type SuiConfig, getSuiConfig, redactSuiConfig } from "./config.ts";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { loadKeypair, zeroizeKeypair } from "./keypair.ts";
+import { type KeystoreFile, openKeystore, rotateKeystore } from "./keystore.ts";
+import {
+  RpcNameRegistry,
+  type SuiNameRegistry,
+  SuiNameResolver,
+} from "./names.ts";
+import { type PriceSource, createPriceSources } from "./prices.ts";
+import { type SwapAggregator, createSwapAggregators } from "./swap.ts";
+
+/**
+ * 所有オブジェクト取得時のオプションです。
+ */
+export interface OwnedObjectsQuery {
+  owner?: string; // 省略時はウォレット自身のアドレス
+  cursor?: string | null; // ページネーション用カーソル
+  limit?: number; // 1ページあたりの件数
+  filter?: SuiObjectDataFilter; // 型などによる絞り込み
+}
+
+/**
+ * トランザクション履歴取得時のオプションです。
+ */
+export interface TransactionsQuery {
+  filter: TransactionFilter; // 送信元・送信先などの絞り込み
+  cursor?: string | null; // ページネーション用カーソル（トランザクションダイジェスト）
+  limit?: number; // 1ページあたりの件数
+  order?: "ascending" | "descending"; // 並び順（既定: 新しい順）
+  showEvents?: boolean; // 発行されたイベントも含めるか
+}
+
+/**
+ * イベント取得時のオプションです。
+ */
+export interface EventsQuery {
+  filter: SuiEventFilter; // イベントの型・モジュールなどによる絞り込み
+  cursor?: EventId | null; // ページネーション用カーソル
+  limit?: number; // 1ページあたりの件数
+  order?: "ascending" | "descending"; // 並び順（既定: 古い順）
+}
+
+/**
+ * 設定からフルノードのURLを決定します。
+ * SUI_RPC_URLが指定されていればそれを優先し、なければSUI_NETWORKの既定URLを使います。
+ *
+ * @param {SuiConfig} config - 検証済みの設定
+ * @returns {string} - JSON-RPCのURL
+ */
+export function resolveRpcUrl(config: SuiConfig): string {
+  if (config.SUI_RPC_URL) {
+    return config.SUI_RPC_URL;
+  }
+  // customの場合はスキーマでSUI_RPC_URLが必須になっています
+  return getFullnodeUrl(
+    config.SUI_NETWORK as Exclude<SuiConfig["SUI_NETWORK"], "custom">,
+  );
+}
+
+/**
+ * Suiウォレットサービスのクラス定義です。
+ * 設定された鍵ペアとJSON-RPCクライアントを保持し、アクションやプロバイダーに
+ * アドレス・残高・所有オブジェクトの取得と署名の機能を提供します。
+ */
+export class SuiWalletService extends Service {
+  static serviceType = "sui_wallet"; // サービスタイプ
+  capabilityDescription =
+    "Holds the agent's Sui keypair and JSON-RPC client, and exposes balances, owned objects and transaction signing."; // サービスの説明
+
+  private client: SuiClient | null = null; // JSON-RPCクライアント
+  private keypair: Keypair | null = null; // 署名用の鍵ペア（未設定なら読み取り専用）
+  private rpcUrl = ""; // 接続先のURL
+  private suiConfig: SuiConfig | null = null; // 検証済みの設定
+  private coinMetadata = new Map<string, CoinMetadata | null>(); // コインメタデータのキャッシュ
+  private swapAggregators: SwapAggregator[] = []; // 見積もりを比較するアグリゲーター
+  private priceSources: PriceSource[] = []; // USD価格を問い合わせるソース（優先順）
+  private nameResolver: SuiNameResolver | null = null; // SuiNSの名前解決（キャッシュ付き）
+  private custodialWallets = new Map<string, SuiWalletService>(); // 利用者ごとの預かりウォレット（エンティティID → ウォレット）
+  private parent: SuiWalletService | null = null; // 預かりウォレットの場合、生成元のサービス
+  private ownerEntityId: UUID | null = null; // 預かりウォレットの場合、持ち主のエンティティID
+  private keystore: KeystoreFile | null = null; // 開いたキーストアの内容（暗号化されたまま）
+  private keystorePassphrase: Buffer | null = null; // 鍵の更新で再暗号化するためのパスフレーズ（停止時に消去）
+
+  constructor(runtime: IAgentRuntime) {
+    super(runtime);
+  }
+
+  // サービスを開始する静的メソッド
+  static async start(runtime: IAgentRuntime) {
+    logger.info("*** Starting Sui wallet service ***");
+    // 既に登録済みであれば同じインスタンスを返します（冪等）
+    const existing = runtime.getService<SuiWalletService>(
+      SuiWalletService.serviceType,
+    );
+    if (existing) {
+      return existing;
+    }
+    const service = new SuiWalletService(runtime);
+    await service.initialize();
+    return service;
+  }
+
+  // サービスを停止する静的メソッド
+  static async stop(runtime: IAgentRuntime) {
+    logger.info("*** Stopping Sui wallet service ***");
+    const service = runtime.getService(SuiWalletService.serviceType);
+    if (!service) {
+      // 既に停止済みの場合は何もしません（冪等）
+      logger.debug("Sui wallet service is not running");
+      return;
+    }
+    await service.stop();
+  }
+
+  // ランタイムの設定からクライアントと鍵ペアを準備します
+  private async initialize() {
+    this.suiConfig = getSuiConfig(this.runtime);
+    this.rpcUrl = resolveRpcUrl(this.suiConfig);
+    this.client = new SuiClient({ url: this.rpcUrl });
+    this.swapAggregators = createSwapAggregators(
+      this.suiConfig.SUI_SWAP_AGGREGATORS,
+    );
+    this.priceSources = createPriceSources(this.suiConfig, this.client);
+    this.nameResolver = new SuiNameResolver(
+      new RpcNameRegistry(this.client),
+      this.suiConfig.SUI_NAME_CACHE_TTL_MS,
+    );
+
+    if (this.suiConfig.SUI_KEYSTORE_PATH) {
+      // パスフレーズは文字列のままでは消去できないため、バッファに移して保持する
+      this.keystorePassphrase = Buffer.from(
+        this.suiConfig.SUI_KEYSTORE_PASSPHRASE ?? "",
+      );
+      const { keypair, keystore } = await openKeystore({
+        path: this.suiConfig.SUI_KEYSTORE_PATH,
+        passphrase: this.keystorePassphrase,
+        importPath: this.suiConfig.SUI_KEYSTORE_IMPORT,
+        importAddress: this.suiConfig.SUI_KEYSTORE_IMPORT_ADDRESS,
+      });
+      this.keypair = keypair;
+      this.keystore = keystore;
+      logger.info(
+        {
+          address: keypair.toSuiAddress(),
+          config: redactSuiConfig(this.suiConfig),
+        },
+        "Sui wallet unlocked from keystore",
+      );
+    } else if (this.suiConfig.SUI_PRIVATE_KEY) {
+      this.keypair = loadKeypair(this.suiConfig.SUI_PRIVATE_KEY);
+      logger.info(
+        {
+          address: this.keypair.toSuiAddress(),
+          config: redactSuiConfig(this.suiConfig),
+        },
+        "Sui wallet loaded",
+      );
+    } else {
+      logger.warn(
+        "Neither SUI_KEYSTORE_PATH nor SUI_PRIVATE_KEY is set; Sui wallet has no address",
+      );
+    }
+  }
+
+  // サービスインスタンスを停止するメソッド
+  async stop() {
+    logger.info("*** Stopping Sui wallet service instance ***");
+    // 鍵の素材はメモリ上でも0で上書きしてから手放す
+    if (this.keypair) zeroizeKeypair(this.keypair);
+    this.keypair = null;
+    this.keystorePassphrase?.fill(0);
+    this.keystorePassphrase = null;
+    this.keystore = null;
+    this.client = null;
+    this.coinMetadata.clear();
+    this.swapAggregators = [];
+    this.priceSources = [];
+    this.nameResolver?.clear();
+    this.nameResolver = null;
+    for (const wallet of this.custodialWallets.values()) {
+      if (wallet.keypair) zeroizeKeypair(wallet.keypair);
+      wallet.keypair = null;
+      wallet.client = null;
+    }
+    this.custodialWallets.clear();
+  }
+
+  /** JSON-RPCクライアントを返します */
+  getClient(): SuiClient {
+    if (!this.client) {
+      throw new Error("Sui wallet service is not running");
+    }
+    return this.client;
+  }
+
+  /** 接続先のJSON-RPC URLを返します */
+  getRpcUrl(): string {
+    return this.rpcUrl;
+  }
+
+  /** 検証済みの設定を返します */
+  getConfig(): SuiConfig {
+    if (!this.suiConfig) {
+      throw new Error("Sui wallet service is not running");
+    }
+    return this.suiConfig;
+  }
+
+  /** スワップの見積もりを比較するアグリゲーターを返します */
+  getSwapAggregators(): SwapAggregator[] {
+    if (this.parent) return this.parent.getSwapAggregators();
+    return [...this.swapAggregators];
+  }
+
+  /** アグリゲーターを追加します。同じ名前のものは置き換えます */
+  registerSwapAggregator(aggregator: SwapAggregator): void {
+    if (this.parent) return this.parent.registerSwapAggregator(aggregator);
+    this.swapAggregators = [
+      ...this.swapAggregators.filter(
+        (existing) => existing.name !== aggregator.name,
+      ),
+      aggregator,
+    ];
+  }
+
+  /** USD価格を問い合わせるソースを優先順に返します */
+  getPriceSources(): PriceSource[] {
+    if (this.parent) return this.parent.getPriceSources();
+    return [...this.priceSources];
+  }
+
+  /** 価格ソースを最後に追加します。同じ名前のものは置き換えます */
+  registerPriceSource(source: PriceSource): void {
+    if (this.parent) return this.parent.registerPriceSource(source);
+    this.priceSources = [
+      ...this.priceSources.filter((existing) => existing.name !== source.name),
+      source,
+    ];
+  }
+
+  /** SuiNSの正引き・逆引きを行うリゾルバーを返します */
+  getNameResolver(): SuiNameResolver {
+    if (!this.nameResolver) {
+      throw new Error("Sui wallet service is not running");
+    }
+    return this.nameResolver;
+  }
+
+  /** SuiNSのレジストリを差し替えます（ローカルネットやテスト用）。キャッシュは破棄されます */
+  setNameRegistry(registry: SuiNameRegistry): void {
+    this.getNameResolver().setRegistry(registry);
+  }
+
+  /** 預かりウォレットの場合は持ち主のエンティティID、エージェント自身のウォレットならnullを返します */
+  getOwnerEntityId(): UUID | null {
+    return this.ownerEntityId;
+  }
+
+  /** 読み込み済みの預かりウォレットを返します（未読み込みならnull） */
+  getCustodialWallet(entityId: UUID): SuiWalletService | null {
+    return this.custodialWallets.get(entityId) ?? null;
+  }
+
+  /**
+   * 利用者の鍵ペアで、このサービスと同じクライアント・設定を使う預かりウォレットを作成して保持します。
+   * 鍵の導出と暗号化保存はwallets.tsが行います。
+   */
+  addCustodialWallet(entityId: UUID, keypair: Keypair): SuiWalletService {
+    const wallet = new SuiWalletService(this.runtime);
+    wallet.client = this.getClient();
+    wallet.rpcUrl = this.rpcUrl;
+    wallet.suiConfig = this.getConfig();
+    wallet.coinMetadata = this.coinMetadata;
+    wallet.nameResolver = this.nameResolver;
+    wallet.parent = this;
+    wallet.ownerEntityId = entityId;
+    wallet.keypair = keypair;
+    this.custodialWallets.set(entityId, wallet);
+    return wallet;
+  }
+
+  /** 署名鍵をキーストアから読み込んだか（鍵の更新を保存できるか）を返します */
+  hasKeystore(): boolean {
+    return this.keystore !== null;
+  }
+
+  /** キーストアで退役済みの鍵のアドレスを返します */
+  getRetiredAddresses(): string[] {
+    return this.keystore?.retired.map((entry) => entry.address) ?? [];
+  }
+
+  /**
+   * 署名鍵を新しい鍵に切り替えます。先にキーストアへ保存し、古い鍵は退役させて暗号化したまま残します。
+   * 切り替え後、古い鍵はメモリ上から消去します。
+   */
+  async rotateKeypair(next: Keypair): Promise<void> {
+    const path = this.getConfig().SUI_KEYSTORE_PATH;
+    if (!this.keystore || !this.keystorePassphrase || !path) {
+      throw new SuiActionError(
+        SuiErrorCode.KEYSTORE_UNAVAILABLE,
+        "Key rotation requires SUI_KEYSTORE_PATH; a raw SUI_PRIVATE_KEY cannot be rotated in place",
+      );
+    }
+    this.keystore = await rotateKeystore(
+      path,
+      this.keystore,
+      next,
+      this.keystorePassphrase,
+    );
+    const previous = this.keypair;
+    this.keypair = next;
+    if (previous) zeroizeKeypair(previous);
+    logger.info(
+      { address: next.toSuiAddress() },
+      "Sui wallet signing key rotated",
+    );
+  }
+
+  /** 鍵ペアが読み込まれているか（ウォレットのアドレスが分かるか）を返します */
+  hasSigner(): boolean {
+    return this.keypair !== null;
+  }
+
+  /** 読み取り専用モードかどうかを返します */
+  isReadOnly(): boolean {
+    return this.suiConfig?.SUI_READ_ONLY ?? true;
+  }
+
+  /** 署名が可能か（鍵があり、読み取り専用でない）を返します */
+  canSign(): boolean {
+    return this.hasSigner() && !this.isReadOnly();
+  }
+
+  /** ウォレットのアドレスを返します */
+  getAddress(): string {
+    return this.getSigner().toSuiAddress();
+  }
+
+  /** 全コインの残高を取得します */
+  async getBalances(owner?: string): Promise<CoinBalance[]> {
+    return this.getClient().getAllBalances({
+      owner: owner ?? this.getAddress(),
+    });
+  }
+
+  /** 指定したコインタイプの残高を取得します */
+  async getBalance(
+    coinType: string = SUI_TYPE_ARG,
+    owner?: string,
+  ): Promise<CoinBalance> {
+    return this.getClient().getBalance({
+      owner: owner ?? this.getAddress(),
+      coinType,
+    });
+  }
+
+  /** コインのメタデータ（小数桁数やシンボル）を取得します。結果はキャッシュされます */
+  async getCoinMetadata(coinType: string): Promise<CoinMetadata | null> {
+    if (!this.coinMetadata.has(coinType)) {
+      const metadata = await this.getClient().getCoinMetadata({ coinType });
+      this.coinMetadata.set(coinType, metadata);
+    }
+    return this.coinMetadata.get(coinType) ?? null;
+  }
+
+  /** 所有オブジェクトを1ページ分取得します */
+  async getOwnedObjects(
+    query: OwnedObjectsQuery = {},
+  ): Promise<PaginatedObjectsResponse> {
+    return this.getClient().getOwnedObjects({
+      owner: query.owner ?? this.getAddress(),
+      cursor: query.cursor,
+      limit: query.limit,
+      filter: query.filter,
+      options: { showType: true, showDisplay: true, showContent: true },
+    });
+  }
+
+  /** オブジェクト1件を型・所有者・Display付きで取得します */
+  async getObject(id: string): Promise<SuiObjectResponse> {
+    return this.getClient().getObject({
+      id,
+      options: { showType: true, showOwner: true, showDisplay: true },
+    });
+  }
+
+  /** トランザクション履歴を1ページ分取得します（入力・効果・残高変化を含む） */
+  async queryTransactions(
+    query: TransactionsQuery,
+  ): Promise<PaginatedTransactionResponse> {
+    return this.getClient().queryTransactionBlocks({
+      filter: query.filter,
+      cursor: query.cursor,
+      limit: query.limit,
+      order: query.order ?? "descending",
+      options: {
+        showInput: true,
+        showEffects: true,
+        showBalanceChanges: true,
+        showEvents: query.showEvents ?? false,
+      },
+    });
+  }
+
+  /** トランザクション1件を入力・効果・残高変化付きで取得します */
+  async getTransaction(digest: string): Promise<SuiTransactionBlockResponse> {
+    return this.getClient().getTransactionBlock({
+      digest,
+      options: {
+        showInput: true,
+        showEffects: true,
+        showBalanceChanges: true,
+      },
+    });
+  }
+
+  /** オンチェーンのイベントを1ページ分取得します */
+  async queryEvents(query: EventsQuery): Promise<PaginatedEvents> {
+    return this.getClient().queryEvents({
+      query: query.filter,
+      cursor: query.cursor,
+      limit: query.limit,
+      order: query.order ?? "ascending",
+    });
+  }
+
+  /** Move関数の正規化されたシグネチャ（引数・戻り値の型）を取得します */
+  async getMoveFunction(
+    packageId: string,
+    moduleName: string,
+    functionName: string,
+  ): Promise<SuiMoveNormalizedFunction> {
+    return this.getClient().getNormalizedMoveFunction({
+      package: packageId,
+      module: moduleName,
+      function: functionName,
+    });
+  }
+
+  /** 最新のSuiシステム状態（エポックとアクティブなバリデーター一覧）を取得します */
+  async getSystemState(): Promise<SuiSystemStateSummary> {
+    return this.getClient().getLatestSuiSystemState();
+  }
+
+  /** アクティブなバリデーターごとのAPYを取得します */
+  async getValidatorsApy(): Promise<ValidatorsApy> {
+    return this.getClient().getValidatorsApy();
+  }
+
+  /** 所有するStakedSuiオブジェクトをバリデーターごとに取得します（報酬の見積もりを含む） */
+  async getStakes(owner?: string): Promise<DelegatedStake[]> {
+    return this.getClient().getStakes({ owner: owner ?? this.getAddress() });
+  }
+
+  /** トランザクションをドライランし、効果と残高変化を返します */
+  async dryRunTransaction(
+    tx: Transaction,
+  ): Promise<DryRunTransactionBlockResponse> {
+    tx.setSenderIfNotSet(this.getAddress());
+    const bytes = await tx.build({ client: this.getClient() });
+    return this.getClient().dryRunTransactionBlock({ transactionBlock: bytes });
+  }
+
+  /** トランザクションに署名のみを行います（送信はしません） */
+  async signTransaction(tx: Transaction): Promise<SignatureWithBytes> {
+    const signer = this.getSigningKey();
+    const bytes = await this.buildForSigning(tx, signer);
+    return signer.signTransaction(bytes);
+  }
+
+  /**
+   * トランザクションに署名して送信し、確定を待ちます。
+   * onSignedは署名した直後、送信する前に呼ばれます（監査ログ用）。
+   */
+  async signAndExecuteTransaction(
+    tx: Transaction,
+    onSigned?: (signed: SignatureWithBytes) => void,
+  ): Promise<SuiTransactionBlockResponse> {
+    const signed = await this.signTransaction(tx);
+    onSigned?.(signed);
+    return this.executeSignedTransaction(signed);
+  }
+
+  /** 署名済みのトランザクションを送信し、確定を待ちます */
+  async executeSignedTransaction({
+    bytes,
+    signature,
+  }: SignatureWithBytes): Promise<SuiTransactionBlockResponse> {
+    const result = await this.getClient().executeTransactionBlock({
+      transactionBlock: bytes,
+      signature,
+      options: { showEffects: true, showBalanceChanges: true },
+    });
+    return this.getClient().waitForTransaction({
+      digest: result.digest,
+      options: { showEffects: true, showBalanceChanges: true },
+    });
+  }
+
+  // トランザクションを構築し、ガス予算が上限を超えていないか確認します
+  private async buildForSigning(
+    tx: Transaction,
+    signer: Keypair,
+  ): Promise<Uint8Array> {
+    tx.setSenderIfNotSet(signer.toSuiAddress());
+    const bytes = await tx.build({ client: this.getClient() });
+    const maxBudget = this.getConfig().SUI_GAS_BUDGET_MAX;
+    const budget = tx.getData().gasData.budget;
+    if (
+      maxBudget !== undefined &&
+      budget &&
+      BigInt(budget) > BigInt(maxBudget)
+    ) {
+      throw new SuiActionError(
+        SuiErrorCode.GAS_BUDGET_EXCEEDED,
+        `Gas budget ${budget} MIST exceeds the configured maximum of ${maxBudget} MIST`,
+      );
+    }
+    return bytes;
+  }
+
+  // 署名用の鍵ペアを取得します（未設定ならエラー）
+  private getSigner(): Keypair {
+    if (!this.keypair) {
+      throw new Error("Sui wallet has no signing key configured");
+    }
+    return this.keypair;
+  }
+
+  // 署名に使う鍵ペアを取得します（読み取り専用モードならエラー）
+  private getSigningKey(): Keypair {
+    if (this.isReadOnly()) {
+      throw new SuiActionError(
+        SuiErrorCode.READ_ONLY,
+        "Sui wallet is in read-only mode (SUI_READ_ONLY=true)",
+      );
+    }
+    return this.getSigner();
+  }
+}
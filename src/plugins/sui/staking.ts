@@ -0,0 +1,377 @@
+// Sui SDKからシステム状態の型、トランザクション、ユーティリティをインポートします。
+import type { DelegatedStake, SuiValidatorSummary } from "@mysten/sui/client";
+import { Transaction } from "@mysten/sui/transactions";
+import {
+  MIST_PER_SUI,
+  SUI_DECIMALS,
+  SUI_SYSTEM_STATE_OBJECT_ID,
+  normalizeSuiAddress,
+} from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import type { SuiIntent } from "./intent.ts";
+import type { SuiWalletService } from "./service.ts";
+import { formatAmount } from "./utils.ts";
+
+/** ステーキングを扱うMoveパッケージ（0x3::sui_system） */
+export const SUI_SYSTEM_PACKAGE = normalizeSuiAddress("0x3");
+
+/** 1回のステークに必要な最小額（1 SUI、MIST単位） */
+export const MIN_STAKE_MIST = MIST_PER_SUI;
+
+/**
+ * アクティブなバリデーター1件の情報です。
+ */
+export interface ValidatorInfo {
+  address: string; // 正規化済みのバリデーターアドレス
+  name: string; // バリデーター名
+  apy: number; // 年利（0.03 = 3%）
+  commissionRate: number; // 手数料率（0.02 = 2%）
+  stakingPoolSui: string; // ステーキングプールの総額（MIST）
+}
+
+/**
+ * StakedSuiオブジェクト1件の状態です。
+ */
+export interface StakeSummary {
+  stakedSuiId: string; // StakedSuiのオブジェクトID
+  validatorAddress: string; // ステーク先のバリデーターアドレス
+  validatorName: string | null; // バリデーター名（不明ならnull）
+  status: "Pending" | "Active" | "Unstaked"; // Pendingは次のエポックから有効
+  principal: string; // 元本（MIST）
+  estimatedReward: string; // 見積もり報酬（MIST、Active以外は0）
+  stakeRequestEpoch: string; // ステークを依頼したエポック
+  stakeActiveEpoch: string; // 報酬の対象になるエポック
+}
+
+/**
+ * チャットから抽出したステーク依頼です。
+ */
+export interface StakeRequest {
+  amount?: string; // 人が読める単位のSUIの量
+  validator?: string; // バリデーター名またはアドレス
+}
+
+/**
+ * チャットから抽出したステーク引き出しの依頼です。
+ */
+export interface UnstakeRequest {
+  target?: string; // StakedSuiのID、バリデーター名またはアドレス
+  all: boolean; // 全てのステークを引き出すか
+}
+
+// 依頼文に付きがちな語を除いてバリデーターの指定だけを残します
+function cleanValidatorName(text: string | undefined): string | undefined {
+  const name = text
+    ?.trim()
+    .replace(/[.!?。！？]+$/, "")
+    .replace(/^(?:the\s+)?validator\s+/i, "")
+    .replace(/\s+validator$/i, "")
+    .replace(/(?:という)?バリデー(?:ター|タ)$/, "")
+    .replace(/^["'「](.*)["'」]$/, "$1")
+    .trim();
+  return name ? name : undefined;
+}
+
+/**
+ * メッセージ本文からステークする量とバリデーターを抽出します。
+ * 「stake 10 SUI with Mysten Labs」「Mysten Labsに10 SUIをステーク」などに対応します。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {StakeRequest} - 抽出結果（見つからない項目は未定義）
+ */
+export function parseStakeRequest(text: string): StakeRequest {
+  const english = text.match(
+    /\bstake\s+(\d+(?:\.\d+)?)\s*(?:sui\b)?(?:\s+(?:with|to|on|at|via|for)\s+(.+))?/i,
+  );
+  if (english) {
+    return {
+      amount: english[1],
+      validator: cleanValidatorName(english[2]),
+    };
+  }
+  const japanese =
+    text.match(/(.+?)に\s*(\d+(?:\.\d+)?)\s*SUI\s*を?\s*ステーク/i) ??
+    text.match(/(\d+(?:\.\d+)?)\s*SUI\s*を\s*(.+?)に\s*ステーク/i);
+  if (japanese) {
+    const [amount, validator] = /^\d/.test(japanese[1])
+      ? [japanese[1], japanese[2]]
+      : [japanese[2], japanese[1]];
+    return { amount, validator: cleanValidatorName(validator) };
+  }
+  return {};
+}
+
+/**
+ * メッセージ本文から引き出すステークの指定を抽出します。
+ * 「unstake 0x...」「withdraw my stake from Mysten Labs」「unstake all」「Mysten Labsのステークを引き出して」などに対応します。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {UnstakeRequest} - 抽出結果
+ */
+export function parseUnstakeRequest(text: string): UnstakeRequest {
+  if (
+    /\b(?:unstake|withdraw)\s+(?:all|everything)\b|全て|すべて|全部/i.test(text)
+  ) {
+    return { all: true };
+  }
+  const english = text.match(
+    /\b(?:unstake|withdraw)\b(?:\s+(?:my\s+)?(?:stakes?|staked\s+sui))?(?:\s+(?:from|with|at))?\s+(.+)/i,
+  );
+  if (english) {
+    const target = cleanValidatorName(english[1]);
+    // 「withdraw stakes」のように対象が無い場合
+    return {
+      target:
+        target && /^(?:my\s+)?(?:stakes?|staked\s+sui)$/i.test(target)
+          ? undefined
+          : target,
+      all: false,
+    };
+  }
+  const japanese = text.match(
+    /(.+?)(?:から|の)(?:ステーク)?(?:を)?\s*(?:引き出|アンステーク|解除)/,
+  );
+  return { target: cleanValidatorName(japanese?.[1]), all: false };
+}
+
+/**
+ * モデルが抽出した依頼内容をステーク依頼に変換します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<StakeRequest>} - 抽出できた項目
+ */
+export function stakeRequestFromIntent(
+  intent: SuiIntent,
+): Partial<StakeRequest> {
+  return {
+    amount: intent.amount ?? undefined,
+    validator: cleanValidatorName(intent.validator ?? undefined),
+  };
+}
+
+/**
+ * モデルが抽出した依頼内容をステーク引き出しの依頼に変換します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<UnstakeRequest>} - 抽出できた項目
+ */
+export function unstakeRequestFromIntent(
+  intent: SuiIntent,
+): Partial<UnstakeRequest> {
+  return {
+    target: cleanValidatorName(intent.validator ?? intent.object ?? undefined),
+    all: intent.all || undefined,
+  };
+}
+
+/**
+ * 率（0.0321など）を「3.21%」の形に整形します。
+ *
+ * @param {number} rate - 率
+ * @returns {string} - パーセント表記
+ */
+export function formatPercent(rate: number): string {
+  return `${Number((rate * 100).toFixed(2))}%`;
+}
+
+/**
+ * システム状態とAPYからアクティブなバリデーターの一覧を作ります。APYの高い順に並べます。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {Promise<{ epoch: string; validators: ValidatorInfo[] }>} - 現在のエポックとバリデーター一覧
+ */
+export async function fetchValidators(
+  service: SuiWalletService,
+): Promise<{ epoch: string; validators: ValidatorInfo[] }> {
+  const [state, apys] = await Promise.all([
+    service.getSystemState(),
+    service.getValidatorsApy(),
+  ]);
+  const apyByAddress = new Map(
+    apys.apys.map((entry) => [normalizeSuiAddress(entry.address), entry.apy]),
+  );
+  const validators = state.activeValidators.map(
+    (validator: SuiValidatorSummary) => {
+      const address = normalizeSuiAddress(validator.suiAddress);
+      return {
+        address,
+        name: validator.name,
+        apy: apyByAddress.get(address) ?? 0,
+        // commissionRateはベーシスポイント（200 = 2%）
+        commissionRate: Number(validator.commissionRate) / 10_000,
+        stakingPoolSui: validator.stakingPoolSuiBalance,
+      };
+    },
+  );
+  validators.sort((a, b) => b.apy - a.apy || a.name.localeCompare(b.name));
+  return { epoch: state.epoch, validators };
+}
+
+/**
+ * 名前またはアドレスからバリデーターを特定します。
+ * 名前は大文字小文字を区別せず、完全一致がなければ部分一致が1件だけの場合に採用します。
+ *
+ * @param {ValidatorInfo[]} validators - アクティブなバリデーター
+ * @param {string} query - バリデーター名またはアドレス
+ * @returns {ValidatorInfo} - 一致したバリデーター
+ */
+export function findValidator(
+  validators: ValidatorInfo[],
+  query: string,
+): ValidatorInfo {
+  const trimmed = query.trim();
+  if (/^0x[0-9a-fA-F]{1,64}$/.test(trimmed)) {
+    const address = normalizeSuiAddress(trimmed);
+    const match = validators.find((validator) => validator.address === address);
+    if (!match) {
+      throw new SuiActionError(
+        SuiErrorCode.UNKNOWN_VALIDATOR,
+        `No active validator has the address ${address}`,
+      );
+    }
+    return match;
+  }
+
+  const lower = trimmed.toLowerCase();
+  const exact = validators.find(
+    (validator) => validator.name.toLowerCase() === lower,
+  );
+  if (exact) return exact;
+  const partial = validators.filter((validator) =>
+    validator.name.toLowerCase().includes(lower),
+  );
+  if (partial.length === 1) return partial[0];
+  if (partial.length > 1) {
+    throw new SuiActionError(
+      SuiErrorCode.UNKNOWN_VALIDATOR,
+      `"${trimmed}" matches several validators (${partial.map((validator) => validator.name).join(", ")}); use the full name or address`,
+      { candidates: partial.map(({ name, address }) => ({ name, address })) },
+    );
+  }
+  throw new SuiActionError(
+    SuiErrorCode.UNKNOWN_VALIDATOR,
+    `No active validator named "${trimmed}"`,
+  );
+}
+
+/**
+ * 所有するStakedSuiを1件ずつの状態に展開します。バリデーター一覧があれば名前を付けます。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {ValidatorInfo[]} validators - 名前の解決に使うバリデーター（省略可）
+ * @returns {Promise<StakeSummary[]>} - ステークの一覧
+ */
+export async function fetchStakes(
+  service: SuiWalletService,
+  validators: ValidatorInfo[] = [],
+): Promise<StakeSummary[]> {
+  const delegated: DelegatedStake[] = await service.getStakes();
+  const names = new Map(
+    validators.map((validator) => [validator.address, validator.name]),
+  );
+  return delegated.flatMap((delegation) => {
+    const validatorAddress = normalizeSuiAddress(delegation.validatorAddress);
+    return delegation.stakes.map((stake) => ({
+      stakedSuiId: normalizeSuiAddress(stake.stakedSuiId),
+      validatorAddress,
+      validatorName: names.get(validatorAddress) ?? null,
+      status: stake.status,
+      principal: stake.principal,
+      estimatedReward: stake.status === "Active" ? stake.estimatedReward : "0",
+      stakeRequestEpoch: stake.stakeRequestEpoch,
+      stakeActiveEpoch: stake.stakeActiveEpoch,
+    }));
+  });
+}
+
+/**
+ * ステークの元本と見積もり報酬の合計を返します。
+ *
+ * @param {StakeSummary[]} stakes - ステークの一覧
+ * @returns {{ principal: bigint; rewards: bigint }} - MIST単位の合計
+ */
+export function totalStaked(stakes: StakeSummary[]): {
+  principal: bigint;
+  rewards: bigint;
+} {
+  return stakes.reduce(
+    (total, stake) => ({
+      principal: total.principal + BigInt(stake.principal),
+      rewards: total.rewards + BigInt(stake.estimatedReward),
+    }),
+    { principal: 0n, rewards: 0n },
+  );
+}
+
+/**
+ * バリデーター一覧を「名前: APY・手数料」の行に整形します。
+ *
+ * @param {ValidatorInfo[]} validators - バリデーター
+ * @returns {string[]} - 1件1行のテキスト
+ */
+export function formatValidators(validators: ValidatorInfo[]): string[] {
+  return validators.map(
+    (validator) =>
+      `- ${validator.name}: APY ${formatPercent(validator.apy)}, commission ${formatPercent(validator.commissionRate)} (${validator.address})`,
+  );
+}
+
+/**
+ * ステーク一覧を状態・元本・見積もり報酬の行に整形します。
+ *
+ * @param {StakeSummary[]} stakes - ステーク
+ * @returns {string[]} - 1件1行のテキスト
+ */
+export function formatStakes(stakes: StakeSummary[]): string[] {
+  return stakes.map((stake) => {
+    const validator = stake.validatorName ?? stake.validatorAddress;
+    const state =
+      stake.status === "Pending"
+        ? `Pending, active from epoch ${stake.stakeActiveEpoch}`
+        : stake.status === "Active"
+          ? `Active since epoch ${stake.stakeActiveEpoch}, est. reward ${formatAmount(stake.estimatedReward, SUI_DECIMALS)} SUI`
+          : stake.status;
+    return `- ${formatAmount(stake.principal, SUI_DECIMALS)} SUI with ${validator} (${state}) ${stake.stakedSuiId}`;
+  });
+}
+
+/**
+ * ガスコインから切り出したSUIをバリデーターにステークするトランザクションを構築します。
+ *
+ * @param {bigint} amount - ステークする量（MIST）
+ * @param {string} validator - バリデーターアドレス
+ * @returns {Transaction} - 未署名のトランザクション
+ */
+export function buildStakeTransaction(
+  amount: bigint,
+  validator: string,
+): Transaction {
+  const tx = new Transaction();
+  const [coin] = tx.splitCoins(tx.gas, [amount]);
+  tx.moveCall({
+    target: `${SUI_SYSTEM_PACKAGE}::sui_system::request_add_stake`,
+    arguments: [
+      tx.object(SUI_SYSTEM_STATE_OBJECT_ID),
+      coin,
+      tx.pure.address(validator),
+    ],
+  });
+  return tx;
+}
+
+/**
+ * StakedSuiを引き出すトランザクションを構築します。複数件を1つのトランザクションで引き出します。
+ *
+ * @param {string[]} stakedSuiIds - 引き出すStakedSuiのID
+ * @returns {Transaction} - 未署名のトランザクション
+ */
+export function buildUnstakeTransaction(stakedSuiIds: string[]): Transaction {
+  const tx = new Transaction();
+  for (const id of stakedSuiIds) {
+    tx.moveCall({
+      target: `${SUI_SYSTEM_PACKAGE}::sui_system::request_withdraw_stake`,
+      arguments: [tx.object(SUI_SYSTEM_STATE_OBJECT_ID), tx.object(id)],
+    });
+  }
+  return tx;
+}
@@ -0,0 +1,201 @@
+// ロガーをインポートします。
+import { logger } from "@elizaos/core";
+import type { Transaction } from "@mysten/sui/transactions";
+import { AftermathAggregator } from "./aggregators/aftermath.ts";
+import type { SuiConfig } from "./config.ts";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { type SuiIntent, intentCoin } from "./intent.ts";
+
+/**
+ * アグリゲーターに見積もりを依頼する内容です。
+ */
+export interface SwapQuoteRequest {
+  coinTypeIn: string; // 売るコインタイプ（正規化済み）
+  coinTypeOut: string; // 買うコインタイプ（正規化済み）
+  amountIn: string; // 売る量（最小単位）
+  sender: string; // トランザクションの送信者
+}
+
+/**
+ * 見積もりの経路の1区間です。
+ */
+export interface SwapRouteLeg {
+  protocol: string; // DEX名（例: "Cetus"）
+  coinTypeIn: string;
+  coinTypeOut: string;
+  share?: number; // 分割ルートの場合、この経路に流す割合（0〜1）
+}
+
+/**
+ * アグリゲーターから得た見積もりです。
+ */
+export interface SwapQuote {
+  aggregator: string; // 見積もったアグリゲーター名
+  coinTypeIn: string;
+  coinTypeOut: string;
+  amountIn: string; // 売る量（最小単位）
+  amountOut: string; // 受け取る見込み量（最小単位）
+  priceImpact: number; // 価格影響（0.01 = 1%）
+  route: SwapRouteLeg[]; // 経路
+  raw: unknown; // トランザクション構築に使うアグリゲーター固有のデータ
+}
+
+/**
+ * スワップのアグリゲーターが実装するインターフェースです。
+ * 見積もりの取得と、その見積もりからのトランザクション構築を提供します。
+ */
+export interface SwapAggregator {
+  readonly name: string;
+  /** 見積もりを取得します。経路が無い場合はnullを返します */
+  getQuote(request: SwapQuoteRequest): Promise<SwapQuote | null>;
+  /** 見積もりからスリッページを適用したトランザクションを構築します */
+  buildTransaction(
+    quote: SwapQuote,
+    options: { sender: string; slippageBps: number },
+  ): Promise<Transaction>;
+}
+
+/**
+ * チャットから抽出したスワップリクエストです。
+ */
+export interface SwapRequest {
+  amount?: string; // 人が読める単位の売る量
+  coinIn?: string; // 売るコイン（シンボルまたはコインタイプ）
+  coinOut?: string; // 買うコイン（シンボルまたはコインタイプ）
+}
+
+// 設定で選べる組み込みのアグリゲーター
+const BUILT_IN_AGGREGATORS: Record<
+  SuiConfig["SUI_SWAP_AGGREGATORS"][number],
+  () => SwapAggregator
+> = {
+  aftermath: () => new AftermathAggregator(),
+};
+
+/**
+ * 設定で指定された組み込みのアグリゲーターを作成します。
+ *
+ * @param {SuiConfig["SUI_SWAP_AGGREGATORS"]} names - アグリゲーター名の一覧
+ * @returns {SwapAggregator[]} - アグリゲーター
+ */
+export function createSwapAggregators(
+  names: SuiConfig["SUI_SWAP_AGGREGATORS"],
+): SwapAggregator[] {
+  return names.map((name) => BUILT_IN_AGGREGATORS[name]());
+}
+
+const COIN_TYPE_PATTERN = /0x[0-9a-fA-F]{1,64}::\w+::\w+/g;
+
+/**
+ * メッセージ本文から売る量・売るコイン・買うコインを抽出します。
+ * 「swap 10 SUI for USDC」「trade 5 SUI to 0x...::usdc::USDC」「10 SUIをUSDCに交換」などに対応します。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {SwapRequest} - 抽出結果
+ */
+export function parseSwapRequest(text: string): SwapRequest {
+  // コインタイプは区切り文字（::）を含むため、一旦プレースホルダーに置き換える
+  const types: string[] = [];
+  const replaced = text.replace(COIN_TYPE_PATTERN, (type) => {
+    types.push(type);
+    return ` $${types.length - 1} `;
+  });
+  const restore = (coin: string) =>
+    coin.startsWith("$") ? types[Number(coin.slice(1))] : coin.toUpperCase();
+
+  const match = replaced.match(
+    /(\d+(?:\.\d+)?)\s*([A-Za-z$][\w$]*)\s*(?:for|to|into|->|→|を)\s*([A-Za-z$][\w$]*)/i,
+  );
+  if (!match) {
+    return { amount: replaced.match(/\d+(?:\.\d+)?/)?.[0] };
+  }
+  return {
+    amount: match[1],
+    coinIn: restore(match[2]),
+    coinOut: restore(match[3]),
+  };
+}
+
+/**
+ * モデルが抽出した依頼内容をスワップリクエストに変換します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<SwapRequest>} - 抽出できた項目
+ */
+export function swapRequestFromIntent(intent: SuiIntent): Partial<SwapRequest> {
+  return {
+    amount: intent.amount ?? undefined,
+    coinIn: intentCoin(intent.coinType),
+    coinOut: intentCoin(intent.toCoinType),
+  };
+}
+
+/**
+ * 受け取り見込み量にスリッページを適用した最低受取額を計算します。
+ *
+ * @param {string | bigint} amountOut - 受け取り見込み量（最小単位）
+ * @param {number} slippageBps - 許容スリッページ（ベーシスポイント）
+ * @returns {bigint} - 最低受取額（最小単位）
+ */
+export function minimumReceived(
+  amountOut: string | bigint,
+  slippageBps: number,
+): bigint {
+  return (BigInt(amountOut) * BigInt(10_000 - slippageBps)) / 10_000n;
+}
+
+/**
+ * 全てのアグリゲーターに並行して見積もりを依頼し、受取額の多い順に並べます。
+ * 失敗したアグリゲーターは記録し、残りの見積もりで比較します。
+ *
+ * @param {SwapAggregator[]} aggregators - アグリゲーター
+ * @param {SwapQuoteRequest} request - 見積もり依頼
+ * @returns {Promise<{ quotes: SwapQuote[]; failures: { aggregator: string; error: string }[] }>} - 比較結果
+ */
+export async function compareQuotes(
+  aggregators: SwapAggregator[],
+  request: SwapQuoteRequest,
+): Promise<{
+  quotes: SwapQuote[];
+  failures: { aggregator: string; error: string }[];
+}> {
+  if (aggregators.length === 0) {
+    throw new SuiActionError(
+      SuiErrorCode.NO_SWAP_QUOTE,
+      "No swap aggregators are configured (SUI_SWAP_AGGREGATORS)",
+    );
+  }
+  const results = await Promise.allSettled(
+    aggregators.map((aggregator) => aggregator.getQuote(request)),
+  );
+  const quotes: SwapQuote[] = [];
+  const failures: { aggregator: string; error: string }[] = [];
+  results.forEach((result, index) => {
+    const aggregator = aggregators[index].name;
+    if (result.status === "rejected") {
+      const error =
+        result.reason instanceof Error
+          ? result.reason.message
+          : String(result.reason);
+      logger.warn({ aggregator, error }, "Swap quote failed");
+      failures.push({ aggregator, error });
+    } else if (result.value && BigInt(result.value.amountOut) > 0n) {
+      quotes.push(result.value);
+    }
+  });
+  quotes.sort((a, b) => {
+    const diff = BigInt(b.amountOut) - BigInt(a.amountOut);
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0;
+  });
+  return { quotes, failures };
+}
+
+/**
+ * 価格影響を表示用の百分率にします。
+ *
+ * @param {number} priceImpact - 価格影響（0.01 = 1%）
+ * @returns {string} - 表示用の文字列（例: "0.12%"）
+ */
+export function formatPriceImpact(priceImpact: number): string {
+  return `${(priceImpact * 100).toFixed(2)}%`;
+}
@@ -0,0 +1,167 @@
+// ElizaOSコアから型をインポートします。
+import type { IAgentRuntime } from "@elizaos/core";
+// zodをインポートして、チーム設定のバリデーションを行います。
+import { z } from "zod";
+import { formatConfigErrors } from "./config.ts";
+import type { SuiIntentName } from "./intent.ts";
+
+/** プロジェクトに含まれるSuiエージェントの役割 */
+export const SUI_AGENT_ROLES = ["analyst", "trader", "ops"] as const;
+
+/** Suiエージェントの役割 */
+export type SuiAgentRole = (typeof SUI_AGENT_ROLES)[number];
+
+/** キャラクターのsettingsでチーム構成を宣言するキー */
+export const TEAM_SETTING = "suiTeam";
+
+/** 引き継ぎメッセージの先頭に付ける文言（引き継がれた依頼を再び引き継がないための目印） */
+export const HANDOFF_PREFIX = "Handoff to";
+
+/**
+ * 各役割が担当する依頼の種類です。引き継ぎ先はこの対応から決めます。
+ * analystは読み取り専用、traderは送金とスワップ、opsはステーキングと管理操作を担当します。
+ */
+export const SUI_ROLE_INTENTS: Record<SuiAgentRole, readonly SuiIntentName[]> =
+  {
+    analyst: [
+      "balance",
+      "history",
+      "list_objects",
+      "list_stakes",
+      "my_address",
+    ],
+    trader: ["transfer", "transfer_object", "swap"],
+    ops: ["stake", "unstake", "move_call"],
+  };
+
+// 依頼の種類を推定する正規表現（モデルで判定できなかった場合に使います）
+const ROLE_PATTERNS: [SuiAgentRole, RegExp][] = [
+  ["trader", /\b(?:send|transfer|pay|swap|trade|buy|sell)\b|送金|スワップ/i],
+  [
+    "ops",
+    /\b(?:stake|unstake|withdraw|delegate|rotate|move call|call 0x)|ステーク|鍵の更新/i,
+  ],
+  [
+    "analyst",
+    /\b(?:balance|portfolio|history|objects?|nfts?|address|stakes)\b|残高|履歴/i,
+  ],
+];
+
+/**
+ * マルチエージェント構成のスキーマです。キャラクターの`settings.suiTeam`に宣言します。
+ *
+ * @param role - このエージェントの役割
+ * @param members - 役割ごとのエージェント名（共有ルームでの呼びかけに使います）
+ */
+export const teamSettingsSchema = z
+  .object({
+    role: z.enum(SUI_AGENT_ROLES, {
+      errorMap: () => ({
+        message: `Must be one of ${SUI_AGENT_ROLES.join(", ")}`,
+      }),
+    }),
+    members: z
+      .object({
+        analyst: z.string().trim().min(1).optional(),
+        trader: z.string().trim().min(1).optional(),
+        ops: z.string().trim().min(1).optional(),
+      })
+      .strict()
+      .default({}),
+  })
+  .strict();
+
+/** 検証済みのチーム構成 */
+export type TeamSettings = z.infer<typeof teamSettingsSchema>;
+
+/**
+ * キャラクターのsettingsからチーム構成を読み込みます。未宣言の場合はnullです。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @returns {TeamSettings | null} - 検証済みのチーム構成
+ */
+export function getTeamSettings(runtime: IAgentRuntime): TeamSettings | null {
+  const raw = runtime.character?.settings?.[TEAM_SETTING];
+  if (raw === undefined || raw === null) return null;
+  const result = teamSettingsSchema.safeParse(raw);
+  if (!result.success) {
+    throw new Error(
+      formatConfigErrors(result.error).replace(
+        "Invalid plugin configuration",
+        `Invalid ${TEAM_SETTING} settings`,
+      ),
+    );
+  }
+  return result.data;
+}
+
+/**
+ * 依頼の種類を担当する役割を返します。
+ *
+ * @param {SuiIntentName} intent - 依頼の種類
+ * @returns {SuiAgentRole | null} - 担当する役割（該当が無ければnull）
+ */
+export function roleForIntent(intent: SuiIntentName): SuiAgentRole | null {
+  return (
+    SUI_AGENT_ROLES.find((role) => SUI_ROLE_INTENTS[role].includes(intent)) ??
+    null
+  );
+}
+
+/**
+ * 本文から引き継ぎ先の役割を決めます。
+ * チームメンバーの名前か役割名が書かれていればそれを優先し、無ければ依頼の種類（不明なら本文の語句）から推定します。
+ *
+ * @param {string} text - メッセージ本文
+ * @param {TeamSettings} team - チーム構成
+ * @param {SuiIntentName | null} intent - モデルが分類した依頼の種類
+ * @returns {SuiAgentRole | null} - 引き継ぎ先（自分以外に見つからなければnull）
+ */
+export function findHandoffRole(
+  text: string,
+  team: TeamSettings,
+  intent: SuiIntentName | null = null,
+): SuiAgentRole | null {
+  const others = SUI_AGENT_ROLES.filter((role) => role !== team.role);
+  const lower = text.toLowerCase();
+  const named = others.find((role) => {
+    const name = team.members[role];
+    return (
+      new RegExp(`\\b${role}\\b`, "i").test(text) ||
+      (name !== undefined && lower.includes(name.toLowerCase()))
+    );
+  });
+  if (named) return named;
+  const inferred =
+    (intent && roleForIntent(intent)) ??
+    ROLE_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0] ??
+    null;
+  return inferred && inferred !== team.role ? inferred : null;
+}
+
+/**
+ * 引き継がれてきたメッセージかどうかを返します（引き継ぎの往復を防ぐために使います）。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {boolean} - 引き継ぎメッセージであればtrue
+ */
+export function isHandoffMessage(text: string): boolean {
+  return text.trimStart().startsWith(HANDOFF_PREFIX);
+}
+
+/**
+ * 共有ルームに投稿する引き継ぎメッセージを作ります。
+ * 引き継ぎ先の名前を先頭に含めるため、共有ルームの引き継ぎ先エージェントが応答します。
+ *
+ * @param {string} target - 引き継ぎ先のエージェント名
+ * @param {string} from - 引き継ぎ元のエージェント名
+ * @param {string} request - 依頼の本文
+ * @returns {string} - 投稿する本文
+ */
+export function formatHandoff(
+  target: string,
+  from: string,
+  request: string,
+): string {
+  return `${HANDOFF_PREFIX} ${target} from ${from}: ${request.trim()}`;
+}
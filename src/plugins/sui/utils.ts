@@ -0,0 +1,238 @@
+// Sui SDKの型とユーティリティをインポートします。
+import type { BalanceChange, GasCostSummary } from "@mysten/sui/client";
+import {
+  SUI_DECIMALS,
+  SUI_TYPE_ARG,
+  normalizeStructTag,
+} from "@mysten/sui/utils";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { type SuiIntent, intentCoin } from "./intent.ts";
+import { SUI_NAME_PATTERN } from "./names.ts";
+import type { SuiWalletService } from "./service.ts";
+
+/** SUIの正規化済みコインタイプ */
+export const SUI_COIN_TYPE = normalizeStructTag(SUI_TYPE_ARG);
+
+/**
+ * チャットから抽出した送金リクエストです。
+ */
+export interface TransferRequest {
+  recipient?: string; // 送金先アドレスまたはSuiNS名
+  amount?: string; // 人が読める単位の金額（例: "1.5"）
+  coin: string; // コインタイプまたはシンボル（例: "SUI"）
+}
+
+// アドレス（コインタイプの一部ではないもの）とコインタイプにマッチする正規表現
+const ADDRESS_PATTERN = /0x[0-9a-fA-F]{1,64}(?![0-9a-fA-F]|::)/g;
+const COIN_TYPE_PATTERN = /0x[0-9a-fA-F]{1,64}::\w+::\w+/;
+// 金額の後ろに続いてもシンボルとはみなさない単語
+const NON_SYMBOL_WORDS = new Set(["to", "for", "from", "into", "of"]);
+
+/**
+ * メッセージ本文から送金先・金額・コインを抽出します。
+ * 見つからない項目は未定義のまま返し、検証は呼び出し側で行います。
+ *
+ * @param {string} text - メッセージ本文
+ * @returns {TransferRequest} - 抽出結果
+ */
+export function parseTransferRequest(text: string): TransferRequest {
+  const coinType = text.match(COIN_TYPE_PATTERN)?.[0];
+  const withoutTypes = coinType ? text.replace(coinType, " ") : text;
+  const recipient =
+    withoutTypes.match(ADDRESS_PATTERN)?.[0] ??
+    withoutTypes.match(SUI_NAME_PATTERN)?.[0];
+  const rest = withoutTypes
+    .replace(ADDRESS_PATTERN, " ")
+    .replace(SUI_NAME_PATTERN, " ");
+
+  const amountMatch = rest.match(/(\d+(?:\.\d+)?)\s*([A-Za-z][A-Za-z0-9]*)?/);
+  const symbol = amountMatch?.[2];
+
+  return {
+    recipient,
+    amount: amountMatch?.[1],
+    coin:
+      coinType ??
+      (symbol && !NON_SYMBOL_WORDS.has(symbol.toLowerCase())
+        ? symbol.toUpperCase()
+        : "SUI"),
+  };
+}
+
+/**
+ * モデルが抽出した依頼内容を送金リクエストに変換します。
+ *
+ * @param {SuiIntent} intent - 抽出した依頼内容
+ * @returns {Partial<TransferRequest>} - 抽出できた項目
+ */
+export function transferRequestFromIntent(
+  intent: SuiIntent,
+): Partial<TransferRequest> {
+  return {
+    recipient: intent.recipient ?? undefined,
+    amount: intent.amount ?? undefined,
+    coin: intentCoin(intent.coinType),
+  };
+}
+
+/**
+ * 人が読める単位の金額を、最小単位の整数に変換します。
+ *
+ * @param {string | undefined} amount - 金額（例: "1.5"）
+ * @param {number} decimals - コインの小数桁数
+ * @returns {bigint} - 最小単位の金額
+ */
+export function parseAmount(
+  amount: string | undefined,
+  decimals: number,
+): bigint {
+  const match = amount?.trim().match(/^(\d+)(?:\.(\d+))?$/);
+  if (!match) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_AMOUNT,
+      `Invalid amount: ${amount ?? "(missing)"}`,
+    );
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > decimals) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_AMOUNT,
+      `Amount ${amount} has more than ${decimals} decimal places`,
+    );
+  }
+  const raw = BigInt(whole + fraction.padEnd(decimals, "0"));
+  if (raw <= 0n) {
+    throw new SuiActionError(
+      SuiErrorCode.INVALID_AMOUNT,
+      "Amount must be greater than zero",
+    );
+  }
+  return raw;
+}
+
+/**
+ * 最小単位の金額を、人が読める単位の文字列に変換します。
+ *
+ * @param {bigint | string} raw - 最小単位の金額（負数も可）
+ * @param {number} decimals - コインの小数桁数
+ * @returns {string} - 表示用の金額
+ */
+export function formatAmount(raw: bigint | string, decimals: number): string {
+  const value = BigInt(raw);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value)
+    .toString()
+    .padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, "");
+  return `${negative ? "-" : ""}${whole}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * コインタイプから表示用のシンボル（構造体名）を取り出します。
+ *
+ * @param {string} coinType - コインタイプ
+ * @returns {string} - シンボル（例: "SUI"）
+ */
+export function coinSymbol(coinType: string): string {
+  return coinType.split("::").pop() ?? coinType;
+}
+
+/**
+ * シンボルまたはコインタイプを、正規化されたコインタイプに解決します。
+ * シンボルの場合はウォレットが保有するコインの中から構造体名が一致するものを探します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {string} coin - シンボルまたはコインタイプ
+ * @returns {Promise<string>} - 正規化したコインタイプ
+ */
+export async function resolveCoinType(
+  service: SuiWalletService,
+  coin: string,
+): Promise<string> {
+  if (coin.includes("::")) {
+    return normalizeStructTag(coin);
+  }
+  if (coin.toUpperCase() === "SUI") {
+    return SUI_COIN_TYPE;
+  }
+  const balances = await service.getBalances();
+  const match = balances.find(
+    (balance) =>
+      coinSymbol(balance.coinType).toUpperCase() === coin.toUpperCase(),
+  );
+  if (!match) {
+    throw new SuiActionError(
+      SuiErrorCode.UNKNOWN_COIN_TYPE,
+      `Unknown coin: ${coin}. Use the full coin type (0x...::module::NAME).`,
+    );
+  }
+  return normalizeStructTag(match.coinType);
+}
+
+/**
+ * コインの小数桁数を取得します。メタデータが見つからない場合はエラーにします。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {string} coinType - コインタイプ
+ * @returns {Promise<number>} - 小数桁数
+ */
+export async function getCoinDecimals(
+  service: SuiWalletService,
+  coinType: string,
+): Promise<number> {
+  if (normalizeStructTag(coinType) === SUI_COIN_TYPE) {
+    return SUI_DECIMALS;
+  }
+  const metadata = await service.getCoinMetadata(coinType);
+  if (!metadata) {
+    throw new SuiActionError(
+      SuiErrorCode.UNKNOWN_COIN_TYPE,
+      `No coin metadata found for ${coinType}`,
+    );
+  }
+  return metadata.decimals;
+}
+
+/**
+ * ガス代の内訳から実際に支払うガス量（MIST）を計算します。
+ *
+ * @param {GasCostSummary} gasUsed - トランザクション効果のガス内訳
+ * @returns {bigint} - 計算コスト + ストレージコスト - ストレージ返金
+ */
+export function totalGasUsed(gasUsed: GasCostSummary): bigint {
+  return (
+    BigInt(gasUsed.computationCost) +
+    BigInt(gasUsed.storageCost) -
+    BigInt(gasUsed.storageRebate)
+  );
+}
+
+/**
+ * ドライラン結果の残高変化のうち、ウォレット自身のものを読みやすい行に整形します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @param {BalanceChange[]} changes - 残高変化の一覧
+ * @returns {Promise<string[]>} - 「-1.5 SUI」のような行
+ */
+export async function describeBalanceChanges(
+  service: SuiWalletService,
+  changes: BalanceChange[],
+): Promise<string[]> {
+  const owner = service.getAddress();
+  const lines: string[] = [];
+  for (const change of changes) {
+    if (
+      typeof change.owner !== "object" ||
+      !("AddressOwner" in change.owner) ||
+      change.owner.AddressOwner !== owner
+    ) {
+      continue;
+    }
+    const decimals = await getCoinDecimals(service, change.coinType);
+    lines.push(
+      `${formatAmount(change.amount, decimals)} ${coinSymbol(change.coinType)}`,
+    );
+  }
+  return lines;
+}
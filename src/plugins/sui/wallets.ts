@@ -0,0 +1,221 @@
+// ElizaOSコアから型と暗号化のユーティリティをインポートします。
+import {
+  type Component,
+  type IAgentRuntime,
+  type Memory,
+  type UUID,
+  createUniqueUuid,
+  decryptStringValue,
+  encryptStringValue,
+  getSalt,
+  logger,
+} from "@elizaos/core";
+import { Ed25519Keypair } from "@mysten/sui/keypairs/ed25519";
+import { createHash } from "node:crypto";
+import { SuiActionError, SuiErrorCode } from "./errors.ts";
+import { loadKeypair } from "./keypair.ts";
+import { SuiWalletService } from "./service.ts";
+
+/** 預かりウォレットを保存するコンポーネントの種類 */
+export const CUSTODIAL_WALLET_COMPONENT = "sui_custodial_wallet";
+
+/**
+ * plugin-sqlのコンポーネントとして保存する預かりウォレットの記録です。
+ * 秘密鍵はSECRET_SALTで暗号化した状態でのみ保存します。
+ */
+export interface CustodialWalletRecord {
+  address: string; // ウォレットのアドレス
+  derivationPath: string; // HDシードからの導出パス
+  encryptedPrivateKey: string; // 暗号化したbech32形式の秘密鍵
+  createdAt: number; // 作成時刻
+}
+
+// 導出パスのアカウント部分に使う強化インデックスの上限（2^31）
+const HARDENED_INDEX_LIMIT = 0x80000000;
+
+/**
+ * エンティティIDから、そのエンティティ専用の導出パスを決めます。
+ * IDのSHA-256から31ビットずつ3つの強化インデックスを取り出し、m/44'/784'/a'/b'/c'とします。
+ *
+ * @param {string} entityId - エンティティID
+ * @returns {string} - 導出パス
+ */
+export function entityDerivationPath(entityId: string): string {
+  const digest = createHash("sha256").update(entityId).digest();
+  const indexes = [0, 4, 8].map(
+    (offset) => digest.readUInt32BE(offset) % HARDENED_INDEX_LIMIT,
+  );
+  return `m/44'/784'/${indexes.map((index) => `${index}'`).join("/")}`;
+}
+
+/**
+ * HDシードからエンティティの鍵ペアを導出します。
+ *
+ * @param {string} mnemonic - BIP39のニーモニック（SUI_HD_MNEMONIC）
+ * @param {string} entityId - エンティティID
+ * @returns {Ed25519Keypair} - エンティティの鍵ペア
+ */
+export function deriveEntityKeypair(
+  mnemonic: string,
+  entityId: string,
+): Ed25519Keypair {
+  return Ed25519Keypair.deriveKeypair(mnemonic, entityDerivationPath(entityId));
+}
+
+/**
+ * 利用者ごとの預かりウォレットが有効か（SUI_HD_MNEMONICが設定されているか）を返します。
+ *
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {boolean} - 有効であればtrue
+ */
+export function usesCustodialWallets(service: SuiWalletService): boolean {
+  return !!service.getConfig().SUI_HD_MNEMONIC;
+}
+
+// エージェント自身や預かりウォレット無効時は、エージェントのウォレットを使います
+function usesAgentWallet(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+  message: Memory,
+): boolean {
+  return !usesCustodialWallets(service) || message.entityId === runtime.agentId;
+}
+
+/**
+ * アクションやプロバイダーで使うウォレットを、メッセージの送り主に応じて返します。
+ * 預かりウォレットが有効な場合は送り主専用のウォレットを返し、初回は導出して暗号化保存します。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 送り主を含むメッセージ
+ * @param {{ create?: boolean }} options - createがfalseなら未作成のウォレットを作らずnullを返します
+ * @returns {Promise<SuiWalletService | null>} - ウォレット。サービスが無い場合はnull
+ */
+export async function getWalletService(
+  runtime: IAgentRuntime,
+  message: Memory,
+  { create = true }: { create?: boolean } = {},
+): Promise<SuiWalletService | null> {
+  const service = runtime.getService<SuiWalletService>(
+    SuiWalletService.serviceType,
+  );
+  if (!service || usesAgentWallet(runtime, service, message)) {
+    return service ?? null;
+  }
+  const entityId = message.entityId;
+  const loaded = service.getCustodialWallet(entityId);
+  if (loaded) {
+    return loaded;
+  }
+
+  const keypair = deriveEntityKeypair(
+    service.getConfig().SUI_HD_MNEMONIC as string,
+    entityId,
+  );
+  const component = await runtime.getComponent(
+    entityId,
+    CUSTODIAL_WALLET_COMPONENT,
+    undefined,
+    runtime.agentId,
+  );
+  if (component) {
+    const record = component.data as unknown as CustodialWalletRecord;
+    const stored = loadKeypair(
+      decryptStringValue(record.encryptedPrivateKey, getSalt()),
+    );
+    if (stored.toSuiAddress() !== keypair.toSuiAddress()) {
+      // ニーモニックが差し替えられた場合、保存済みの資金を見失わないよう処理を止める
+      throw new SuiActionError(
+        SuiErrorCode.WALLET_UNAVAILABLE,
+        "The stored custodial wallet does not match SUI_HD_MNEMONIC",
+        { entityId, address: record.address },
+      );
+    }
+    return service.addCustodialWallet(entityId, stored);
+  }
+  if (!create) {
+    return null;
+  }
+
+  await saveCustodialWallet(runtime, message, keypair);
+  logger.info(
+    { entityId, address: keypair.toSuiAddress() },
+    "Created custodial Sui wallet",
+  );
+  return service.addCustodialWallet(entityId, keypair);
+}
+
+// 鍵を暗号化してエンティティのコンポーネントとして保存します
+async function saveCustodialWallet(
+  runtime: IAgentRuntime,
+  message: Memory,
+  keypair: Ed25519Keypair,
+): Promise<void> {
+  const worldId =
+    message.worldId ?? (await runtime.getRoom(message.roomId))?.worldId;
+  const record: CustodialWalletRecord = {
+    address: keypair.toSuiAddress(),
+    derivationPath: entityDerivationPath(message.entityId),
+    encryptedPrivateKey: encryptStringValue(keypair.getSecretKey(), getSalt()),
+    createdAt: Date.now(),
+  };
+  await runtime.createComponent({
+    id: createUniqueUuid(
+      runtime,
+      `${CUSTODIAL_WALLET_COMPONENT}:${message.entityId}`,
+    ),
+    entityId: message.entityId,
+    agentId: runtime.agentId,
+    roomId: message.roomId,
+    worldId: worldId as UUID,
+    sourceEntityId: runtime.agentId,
+    type: CUSTODIAL_WALLET_COMPONENT,
+    createdAt: record.createdAt,
+    data: { ...record },
+  } satisfies Component);
+}
+
+/**
+ * アクションのvalidateで使う、ウォレットが使えるかの同期的な判定です。
+ * 預かりウォレットは必要になった時点で作成するため、有効であれば使えるものとみなします。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {Memory} message - 送り主を含むメッセージ
+ * @param {{ signing?: boolean }} options - signingがtrueなら署名できることも求めます
+ * @returns {boolean} - 使えればtrue
+ */
+export function isWalletAvailable(
+  runtime: IAgentRuntime,
+  message: Memory,
+  { signing = true }: { signing?: boolean } = {},
+): boolean {
+  const service = runtime.getService<SuiWalletService>(
+    SuiWalletService.serviceType,
+  );
+  if (!service) {
+    return false;
+  }
+  if (signing ? service.canSign() : service.hasSigner()) {
+    return true;
+  }
+  // エージェントの鍵が無くても、預かりウォレットは必要になった時点で作成できる
+  return (
+    !usesAgentWallet(runtime, service, message) &&
+    (!signing || !service.isReadOnly())
+  );
+}
+
+/**
+ * ウォレットのキャッシュキーに使う範囲を返します。
+ * エージェント自身のウォレットはエージェントID、預かりウォレットは持ち主のエンティティIDまで含めます。
+ *
+ * @param {IAgentRuntime} runtime - エージェントのランタイム
+ * @param {SuiWalletService} service - Suiウォレットサービス
+ * @returns {string} - キャッシュキーの範囲
+ */
+export function walletCacheScope(
+  runtime: IAgentRuntime,
+  service: SuiWalletService,
+): string {
+  const owner = service.getOwnerEntityId();
+  return owner ? `${runtime.agentId}:${owner}` : runtime.agentId;
+}